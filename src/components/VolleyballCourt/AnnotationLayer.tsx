@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useCallback, useRef } from "react";
+import { AnnotationLayerProps, CourtAnnotation } from "./types";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "./courtCoordinates";
+import {
+  DEFAULT_ARROW_CURVATURE,
+  getArrowPath,
+  moveAnnotation,
+} from "./utils/courtAnnotations";
+
+const DEFAULT_ANNOTATION_COLOR = "#fbbf24";
+
+interface DragState {
+  annotation: CourtAnnotation;
+  startX: number;
+  startY: number;
+}
+
+/**
+ * AnnotationLayer component - Ball, movement arrows, callouts and zones
+ *
+ * Sits between the court and the players and shares their coordinate
+ * space, so arrows start at the player they belong to. In edit mode
+ * annotations can be dragged (arrows by their target) and removed with a
+ * double click.
+ */
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  annotations,
+  positions,
+  readOnly,
+  courtDimensions = { width: BASE_COURT_WIDTH, height: BASE_COURT_HEIGHT },
+  onAnnotationChange,
+  onAnnotationRemove,
+  className = "",
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const isEditable = !readOnly && !!onAnnotationChange;
+
+  const { width, height } = courtDimensions;
+
+  // Convert a pointer position to court coordinates
+  const toCourtPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = svgRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) {
+        return { x: clientX, y: clientY };
+      }
+      return {
+        x: ((clientX - rect.left) / rect.width) * width,
+        y: ((clientY - rect.top) / rect.height) * height,
+      };
+    },
+    [width, height]
+  );
+
+  const handlePointerDown = useCallback(
+    (annotation: CourtAnnotation) => (event: React.PointerEvent) => {
+      if (!isEditable) return;
+
+      event.stopPropagation();
+      (event.target as Element).setPointerCapture?.(event.pointerId);
+
+      const start = toCourtPoint(event.clientX, event.clientY);
+      dragRef.current = { annotation, startX: start.x, startY: start.y };
+    },
+    [isEditable, toCourtPoint]
+  );
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !onAnnotationChange) return;
+
+      const point = toCourtPoint(event.clientX, event.clientY);
+      onAnnotationChange(
+        moveAnnotation(
+          drag.annotation,
+          point.x - drag.startX,
+          point.y - drag.startY,
+          { width, height }
+        )
+      );
+    },
+    [onAnnotationChange, toCourtPoint, width, height]
+  );
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const editableProps = (annotation: CourtAnnotation) =>
+    isEditable
+      ? {
+          onPointerDown: handlePointerDown(annotation),
+          onDoubleClick: () => onAnnotationRemove?.(annotation.id),
+          style: { cursor: "move", pointerEvents: "auto" as const },
+        }
+      : {};
+
+  const renderAnnotation = (annotation: CourtAnnotation) => {
+    switch (annotation.type) {
+      case "zone": {
+        const color = annotation.color ?? DEFAULT_ANNOTATION_COLOR;
+        return (
+          <rect
+            key={annotation.id}
+            x={annotation.x}
+            y={annotation.y}
+            width={annotation.width}
+            height={annotation.height}
+            fill={color}
+            fillOpacity={annotation.opacity ?? 0.25}
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            data-testid={`annotation-zone-${annotation.id}`}
+            {...editableProps(annotation)}
+          />
+        );
+      }
+
+      case "arrow": {
+        // Arrows start at their player; skip players not on court
+        const from = positions[annotation.fromPlayerId];
+        if (!from) return null;
+
+        const color = annotation.color ?? DEFAULT_ANNOTATION_COLOR;
+        const markerId = `annotation-arrowhead-${annotation.id}`;
+        return (
+          <g key={annotation.id} data-testid={`annotation-arrow-${annotation.id}`}>
+            <defs>
+              <marker
+                id={markerId}
+                viewBox="0 0 10 10"
+                refX={8}
+                refY={5}
+                markerWidth={6}
+                markerHeight={6}
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+              </marker>
+            </defs>
+            <path
+              d={getArrowPath(
+                from,
+                annotation.to,
+                annotation.curved,
+                annotation.curvature ?? DEFAULT_ARROW_CURVATURE
+              )}
+              fill="none"
+              stroke={color}
+              strokeWidth={3}
+              strokeLinecap="round"
+              markerEnd={`url(#${markerId})`}
+            />
+            {isEditable && (
+              <circle
+                cx={annotation.to.x}
+                cy={annotation.to.y}
+                r={8}
+                fill={color}
+                fillOpacity={0.4}
+                data-testid={`annotation-arrow-handle-${annotation.id}`}
+                {...editableProps(annotation)}
+              />
+            )}
+          </g>
+        );
+      }
+
+      case "text":
+        return (
+          <text
+            key={annotation.id}
+            x={annotation.x}
+            y={annotation.y}
+            fontSize={16}
+            fontWeight="bold"
+            textAnchor="middle"
+            fill={annotation.color ?? "#ffffff"}
+            stroke="#111827"
+            strokeWidth={3}
+            paintOrder="stroke"
+            data-testid={`annotation-text-${annotation.id}`}
+            {...editableProps(annotation)}
+          >
+            {annotation.text}
+          </text>
+        );
+
+      case "ball":
+        return (
+          <g
+            key={annotation.id}
+            transform={`translate(${annotation.x}, ${annotation.y})`}
+            data-testid={`annotation-ball-${annotation.id}`}
+            {...editableProps(annotation)}
+          >
+            <circle r={9} fill="#facc15" stroke="#854d0e" strokeWidth={2} />
+            <path
+              d="M -9 0 Q 0 -5 9 0 M 0 -9 Q -5 0 0 9"
+              fill="none"
+              stroke="#854d0e"
+              strokeWidth={1.5}
+            />
+          </g>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  // Zones under arrows, callouts and the ball on top
+  const order: CourtAnnotation["type"][] = ["zone", "arrow", "text", "ball"];
+  const sorted = [...annotations].sort(
+    (a, b) => order.indexOf(a.type) - order.indexOf(b.type)
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      width="100%"
+      height="100%"
+      className={`annotation-layer pointer-events-none ${className}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      data-testid="annotation-layer"
+    >
+      {sorted.map(renderAnnotation)}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
@@ -9,6 +9,7 @@ import {
   AnimationConfig,
   ControlsConfig,
   PlayerColorConfig,
+  Localization,
 } from "./types";
 import { SystemType, FormationType } from "@/types";
 import {
@@ -18,6 +19,9 @@ import {
   AdvancedConfiguration,
   ConfigurationBuilder,
 } from "./ConfigurationUtils";
+import { RuleSetRegistry } from "./volleyball-rules-engine/validation/RuleSetRegistry";
+import type { RuleSetName } from "./volleyball-rules-engine/types/RuleSet";
+import { useLocalization } from "./hooks/useLocalization";
 
 interface ConfigurationPanelProps {
   config: VolleyballCourtConfig;
@@ -39,6 +43,7 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
   onPresetApply,
   className = "",
 }) => {
+  const { t } = useLocalization();
   const [activeSection, setActiveSection] = useState<string>("general");
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(["general"])
@@ -48,43 +53,43 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
   const sections: ConfigurationSection[] = [
     {
       id: "general",
-      title: "General",
+      title: t("config.section.general"),
       icon: "⚙️",
       component: GeneralSection,
     },
     {
       id: "players",
-      title: "Players",
+      title: t("config.section.players"),
       icon: "👥",
       component: PlayersSection,
     },
     {
       id: "appearance",
-      title: "Appearance",
+      title: t("config.section.appearance"),
       icon: "🎨",
       component: AppearanceSection,
     },
     {
       id: "controls",
-      title: "Controls",
+      title: t("config.section.controls"),
       icon: "🎮",
       component: ControlsSection,
     },
     {
       id: "validation",
-      title: "Validation",
+      title: t("config.section.validation"),
       icon: "✅",
       component: ValidationSection,
     },
     {
       id: "animation",
-      title: "Animation",
+      title: t("config.section.animation"),
       icon: "🎬",
       component: AnimationSection,
     },
     {
       id: "presets",
-      title: "Presets",
+      title: t("config.section.presets"),
       icon: "📋",
       component: PresetsSection,
     },
@@ -114,10 +119,10 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
     <div className={`volleyball-court-config-panel ${className}`}>
       <div className="config-panel-header">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-          Court Configuration
+          {t("config.title")}
         </h3>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          Customize the volleyball court appearance and behavior
+          {t("config.description")}
         </p>
       </div>
 
@@ -258,10 +263,13 @@ const GeneralSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
   return (
     <div className="config-general-section">
       <div className="config-field">
-        <label className="config-label">Initial System</label>
+        <label className="config-label">
+          {t("config.general.initialSystem")}
+        </label>
         <select
           className="config-select"
           value={config.initialSystem || "5-1"}
@@ -269,13 +277,20 @@ const GeneralSection: React.FC<{
             onChange({ initialSystem: e.target.value as SystemType })
           }
         >
-          <option value="5-1">5-1 System</option>
-          <option value="6-2">6-2 System</option>
+          <option value="5-1">{t("config.system.5-1")}</option>
+          <option value="6-2">{t("config.system.6-2")}</option>
+          {config.systems?.map((definition) => (
+            <option key={definition.id} value={definition.id}>
+              {definition.name}
+            </option>
+          ))}
         </select>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Initial Rotation</label>
+        <label className="config-label">
+          {t("config.general.initialRotation")}
+        </label>
         <select
           className="config-select"
           value={config.initialRotation || 0}
@@ -285,14 +300,16 @@ const GeneralSection: React.FC<{
         >
           {[0, 1, 2, 3, 4, 5].map((rotation) => (
             <option key={rotation} value={rotation}>
-              Rotation {rotation + 1}
+              {t("config.general.rotation", { rotation: rotation + 1 })}
             </option>
           ))}
         </select>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Initial Formation</label>
+        <label className="config-label">
+          {t("config.general.initialFormation")}
+        </label>
         <select
           className="config-select"
           value={config.initialFormation || "base"}
@@ -300,9 +317,11 @@ const GeneralSection: React.FC<{
             onChange({ initialFormation: e.target.value as FormationType })
           }
         >
-          <option value="rotational">Rotational</option>
-          <option value="serve-receive">Serve Receive</option>
-          <option value="base">Base Attack</option>
+          <option value="rotational">{t("config.formation.rotational")}</option>
+          <option value="serve-receive">
+            {t("config.formation.serveReceive")}
+          </option>
+          <option value="base">{t("config.formation.base")}</option>
         </select>
       </div>
 
@@ -360,16 +379,32 @@ const PlayersSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
+
   const [selectedSystem, setSelectedSystem] = useState<SystemType>("5-1");
   const [editingPlayer, setEditingPlayer] = useState<string | null>(null);
 
-  const currentPlayers = config.players?.[selectedSystem] || [];
+  // Custom systems keep their players in their definition
+  const systemDefinition = config.systems?.find(
+    (definition) => definition.id === selectedSystem
+  );
+  const currentPlayers = useMemo(
+    () => systemDefinition?.players || config.players?.[selectedSystem] || [],
+    [systemDefinition, config.players, selectedSystem]
+  );
 
-  const handlePlayerUpdate = useCallback(
-    (playerId: string, updates: Partial<PlayerDefinition>) => {
-      const updatedPlayers = currentPlayers.map((player) =>
-        player.id === playerId ? { ...player, ...updates } : player
-      );
+  const updatePlayers = useCallback(
+    (updatedPlayers: PlayerDefinition[]) => {
+      if (systemDefinition) {
+        onChange({
+          systems: config.systems?.map((definition) =>
+            definition.id === selectedSystem
+              ? { ...definition, players: updatedPlayers }
+              : definition
+          ),
+        });
+        return;
+      }
 
       onChange({
         players: {
@@ -378,54 +413,64 @@ const PlayersSection: React.FC<{
         },
       });
     },
-    [currentPlayers, config.players, selectedSystem, onChange]
+    [systemDefinition, config.systems, config.players, selectedSystem, onChange]
+  );
+
+  const handlePlayerUpdate = useCallback(
+    (playerId: string, updates: Partial<PlayerDefinition>) => {
+      updatePlayers(
+        currentPlayers.map((player) =>
+          player.id === playerId ? { ...player, ...updates } : player
+        )
+      );
+    },
+    [currentPlayers, updatePlayers]
   );
 
   const applyColorScheme = useCallback(
     (scheme: "role" | "position" | "custom") => {
-      const updatedPlayers = PlayerCustomization.applyColorScheme(
-        currentPlayers,
-        scheme
+      updatePlayers(
+        PlayerCustomization.applyColorScheme(currentPlayers, scheme)
       );
-
-      onChange({
-        players: {
-          ...config.players,
-          [selectedSystem]: updatedPlayers,
-        },
-      });
     },
-    [currentPlayers, config.players, selectedSystem, onChange]
+    [currentPlayers, updatePlayers]
   );
 
   return (
     <div className="config-players-section">
       <div className="config-field">
-        <label className="config-label">System</label>
+        <label className="config-label">{t("config.players.system")}</label>
         <select
           className="config-select"
           value={selectedSystem}
           onChange={(e) => setSelectedSystem(e.target.value as SystemType)}
         >
-          <option value="5-1">5-1 System</option>
-          <option value="6-2">6-2 System</option>
+          <option value="5-1">{t("config.system.5-1")}</option>
+          <option value="6-2">{t("config.system.6-2")}</option>
+          {config.systems?.map((definition) => (
+            <option key={definition.id} value={definition.id}>
+              {definition.name}
+            </option>
+          ))}
         </select>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Color Scheme</label>
+        <label className="config-label">
+          {t("config.players.colorScheme")}
+        </label>
         <div className="color-scheme-buttons">
           <button
             className="config-button"
             onClick={() => applyColorScheme("role")}
           >
-            By Role
+            {t("config.players.byRole")}
           </button>
           <button
             className="config-button"
             onClick={() => applyColorScheme("position")}
           >
-            By Position
+            {t("config.players.byPosition")}
           </button>
         </div>
       </div>
@@ -457,7 +502,9 @@ const PlayersSection: React.FC<{
             {editingPlayer === player.id && (
               <div className="player-editor">
                 <div className="config-field">
-                  <label className="config-label">Name</label>
+                  <label className="config-label">
+                    {t("config.players.name")}
+                  </label>
                   <input
                     className="config-input"
                     type="text"
@@ -469,7 +516,9 @@ const PlayersSection: React.FC<{
                 </div>
 
                 <div className="config-field">
-                  <label className="config-label">Number</label>
+                  <label className="config-label">
+                    {t("config.players.number")}
+                  </label>
                   <input
                     className="config-input"
                     type="number"
@@ -485,7 +534,9 @@ const PlayersSection: React.FC<{
                 </div>
 
                 <div className="config-field">
-                  <label className="config-label">Color</label>
+                  <label className="config-label">
+                    {t("config.players.color")}
+                  </label>
                   <input
                     className="config-input"
                     type="color"
@@ -641,6 +692,8 @@ const AppearanceSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
+
   const handleAppearanceChange = useCallback(
     (updates: Partial<AppearanceConfig>) => {
       onChange({
@@ -667,7 +720,7 @@ const AppearanceSection: React.FC<{
   return (
     <div className="config-appearance-section">
       <div className="config-field">
-        <label className="config-label">Theme</label>
+        <label className="config-label">{t("config.appearance.theme")}</label>
         <select
           className="config-select"
           value={config.appearance?.theme || "auto"}
@@ -677,14 +730,16 @@ const AppearanceSection: React.FC<{
             })
           }
         >
-          <option value="auto">Auto</option>
-          <option value="light">Light</option>
-          <option value="dark">Dark</option>
+          <option value="auto">{t("config.appearance.theme.auto")}</option>
+          <option value="light">{t("config.appearance.theme.light")}</option>
+          <option value="dark">{t("config.appearance.theme.dark")}</option>
         </select>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Court Color</label>
+        <label className="config-label">
+          {t("config.appearance.courtColor")}
+        </label>
         <input
           className="config-input"
           type="color"
@@ -696,7 +751,9 @@ const AppearanceSection: React.FC<{
       </div>
 
       <div className="config-field">
-        <label className="config-label">Player Size</label>
+        <label className="config-label">
+          {t("config.appearance.playerSize")}
+        </label>
         <input
           className="config-input"
           type="range"
@@ -714,7 +771,9 @@ const AppearanceSection: React.FC<{
       </div>
 
       <div className="config-field">
-        <label className="config-label">Color Schemes</label>
+        <label className="config-label">
+          {t("config.appearance.colorSchemes")}
+        </label>
         <div className="color-scheme-grid">
           {Object.keys(ThemeCustomization.getColorSchemes()).map(
             (schemeName) => (
@@ -739,7 +798,7 @@ const AppearanceSection: React.FC<{
               handleAppearanceChange({ showPlayerNames: e.target.checked })
             }
           />
-          Show Player Names
+          {t("config.appearance.showPlayerNames")}
         </label>
 
         <label className="config-checkbox">
@@ -750,7 +809,7 @@ const AppearanceSection: React.FC<{
               handleAppearanceChange({ showPlayerNumbers: e.target.checked })
             }
           />
-          Show Player Numbers
+          {t("config.appearance.showPlayerNumbers")}
         </label>
 
         <label className="config-checkbox">
@@ -761,7 +820,7 @@ const AppearanceSection: React.FC<{
               handleAppearanceChange({ showPositionLabels: e.target.checked })
             }
           />
-          Show Position Labels
+          {t("config.appearance.showPositionLabels")}
         </label>
 
         <label className="config-checkbox">
@@ -772,7 +831,7 @@ const AppearanceSection: React.FC<{
               handleAppearanceChange({ showCourtGrid: e.target.checked })
             }
           />
-          Show Court Grid
+          {t("config.appearance.showCourtGrid")}
         </label>
       </div>
 
@@ -858,6 +917,8 @@ const ControlsSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
+
   const handleControlsChange = useCallback(
     (updates: Partial<ControlsConfig>) => {
       onChange({
@@ -873,7 +934,7 @@ const ControlsSection: React.FC<{
   return (
     <div className="config-controls-section">
       <div className="config-field">
-        <label className="config-label">Controls Position</label>
+        <label className="config-label">{t("config.controls.position")}</label>
         <select
           className="config-select"
           value={config.controls?.controlsPosition || "top"}
@@ -888,16 +949,18 @@ const ControlsSection: React.FC<{
             })
           }
         >
-          <option value="top">Top</option>
-          <option value="bottom">Bottom</option>
-          <option value="left">Left</option>
-          <option value="right">Right</option>
-          <option value="overlay">Overlay</option>
+          <option value="top">{t("config.controls.position.top")}</option>
+          <option value="bottom">{t("config.controls.position.bottom")}</option>
+          <option value="left">{t("config.controls.position.left")}</option>
+          <option value="right">{t("config.controls.position.right")}</option>
+          <option value="overlay">
+            {t("config.controls.position.overlay")}
+          </option>
         </select>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Controls Style</label>
+        <label className="config-label">{t("config.controls.style")}</label>
         <select
           className="config-select"
           value={config.controls?.controlsStyle || "expanded"}
@@ -910,9 +973,11 @@ const ControlsSection: React.FC<{
             })
           }
         >
-          <option value="minimal">Minimal</option>
-          <option value="compact">Compact</option>
-          <option value="expanded">Expanded</option>
+          <option value="minimal">{t("config.controls.style.minimal")}</option>
+          <option value="compact">{t("config.controls.style.compact")}</option>
+          <option value="expanded">
+            {t("config.controls.style.expanded")}
+          </option>
         </select>
       </div>
 
@@ -925,7 +990,7 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showSystemSelector: e.target.checked })
             }
           />
-          System Selector
+          {t("config.controls.showSystemSelector")}
         </label>
 
         <label className="config-checkbox">
@@ -936,7 +1001,7 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showRotationControls: e.target.checked })
             }
           />
-          Rotation Controls
+          {t("config.controls.showRotationControls")}
         </label>
 
         <label className="config-checkbox">
@@ -947,7 +1012,7 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showFormationSelector: e.target.checked })
             }
           />
-          Formation Selector
+          {t("config.controls.showFormationSelector")}
         </label>
 
         <label className="config-checkbox">
@@ -958,7 +1023,7 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showResetButton: e.target.checked })
             }
           />
-          Reset Button
+          {t("config.controls.showResetButton")}
         </label>
 
         <label className="config-checkbox">
@@ -969,7 +1034,18 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showShareButton: e.target.checked })
             }
           />
-          Share Button
+          {t("config.controls.showShareButton")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showExportButton !== false}
+            onChange={(e) =>
+              handleControlsChange({ showExportButton: e.target.checked })
+            }
+          />
+          {t("config.controls.showExportButton")}
         </label>
 
         <label className="config-checkbox">
@@ -980,7 +1056,84 @@ const ControlsSection: React.FC<{
               handleControlsChange({ showAnimateButton: e.target.checked })
             }
           />
-          Animate Button
+          {t("config.controls.showAnimateButton")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showSequenceEditor === true}
+            onChange={(e) =>
+              handleControlsChange({ showSequenceEditor: e.target.checked })
+            }
+          />
+          {t("config.controls.showSequenceEditor")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showAnnotationTools === true}
+            onChange={(e) =>
+              handleControlsChange({ showAnnotationTools: e.target.checked })
+            }
+          />
+          {t("config.controls.showAnnotationTools")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showFullCourtControls === true}
+            onChange={(e) =>
+              handleControlsChange({ showFullCourtControls: e.target.checked })
+            }
+          />
+          {t("config.controls.showFullCourtControls")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showSubstitutionManager === true}
+            onChange={(e) =>
+              handleControlsChange({ showSubstitutionManager: e.target.checked })
+            }
+          />
+          {t("config.controls.showSubstitutionManager")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showMatchControls === true}
+            onChange={(e) =>
+              handleControlsChange({ showMatchControls: e.target.checked })
+            }
+          />
+          {t("config.controls.showMatchControls")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showPlaybookSwitcher === true}
+            onChange={(e) =>
+              handleControlsChange({ showPlaybookSwitcher: e.target.checked })
+            }
+          />
+          {t("config.controls.showPlaybookSwitcher")}
+        </label>
+
+        <label className="config-checkbox">
+          <input
+            type="checkbox"
+            checked={config.controls?.showHistoryPanel === true}
+            onChange={(e) =>
+              handleControlsChange({ showHistoryPanel: e.target.checked })
+            }
+          />
+          {t("config.controls.showHistoryPanel")}
         </label>
       </div>
 
@@ -1025,6 +1178,8 @@ const ValidationSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
+
   const handleValidationChange = useCallback(
     (updates: Partial<ValidationConfig>) => {
       onChange({
@@ -1050,7 +1205,7 @@ const ValidationSection: React.FC<{
               })
             }
           />
-          Real-time Validation
+          {t("config.validation.realTime")}
         </label>
 
         <label className="config-checkbox">
@@ -1063,7 +1218,7 @@ const ValidationSection: React.FC<{
               })
             }
           />
-          Show Constraint Boundaries
+          {t("config.validation.showConstraintBoundaries")}
         </label>
 
         <label className="config-checkbox">
@@ -1076,7 +1231,7 @@ const ValidationSection: React.FC<{
               })
             }
           />
-          Position Snapping
+          {t("config.validation.positionSnapping")}
         </label>
 
         <label className="config-checkbox">
@@ -1087,7 +1242,7 @@ const ValidationSection: React.FC<{
               handleValidationChange({ showViolationDetails: e.target.checked })
             }
           />
-          Show Violation Details
+          {t("config.validation.showViolationDetails")}
         </label>
 
         <label className="config-checkbox">
@@ -1100,7 +1255,7 @@ const ValidationSection: React.FC<{
               })
             }
           />
-          Educational Messages
+          {t("config.validation.educationalMessages")}
         </label>
 
         <label className="config-checkbox">
@@ -1111,12 +1266,38 @@ const ValidationSection: React.FC<{
               handleValidationChange({ strictMode: e.target.checked })
             }
           />
-          Strict Mode
+          {t("config.validation.strictMode")}
         </label>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Snap Tolerance</label>
+        <label className="config-label">{t("config.validation.ruleSet")}</label>
+        <select
+          className="config-select"
+          value={
+            typeof config.validation?.ruleSet === "object"
+              ? config.validation.ruleSet.name
+              : config.validation?.ruleSet || ""
+          }
+          onChange={(e) =>
+            handleValidationChange({
+              ruleSet: (e.target.value as RuleSetName) || undefined,
+            })
+          }
+        >
+          <option value="">{t("config.validation.ruleSet.default")}</option>
+          {RuleSetRegistry.list().map((ruleSet) => (
+            <option key={ruleSet.name} value={ruleSet.name}>
+              {ruleSet.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="config-field">
+        <label className="config-label">
+          {t("config.validation.snapTolerance")}
+        </label>
         <input
           className="config-input"
           type="range"
@@ -1183,6 +1364,8 @@ const AnimationSection: React.FC<{
   config: VolleyballCourtConfig;
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
 }> = ({ config, onChange }) => {
+  const { t } = useLocalization();
+
   const handleAnimationChange = useCallback(
     (updates: Partial<AnimationConfig>) => {
       onChange({
@@ -1206,7 +1389,7 @@ const AnimationSection: React.FC<{
               handleAnimationChange({ enableAnimations: e.target.checked })
             }
           />
-          Enable Animations
+          {t("config.animation.enable")}
         </label>
 
         <label className="config-checkbox">
@@ -1217,7 +1400,7 @@ const AnimationSection: React.FC<{
               handleAnimationChange({ enableDragAnimations: e.target.checked })
             }
           />
-          Drag Animations
+          {t("config.animation.drag")}
         </label>
 
         <label className="config-checkbox">
@@ -1230,7 +1413,7 @@ const AnimationSection: React.FC<{
               })
             }
           />
-          Formation Transitions
+          {t("config.animation.formationTransitions")}
         </label>
 
         <label className="config-checkbox">
@@ -1243,7 +1426,7 @@ const AnimationSection: React.FC<{
               })
             }
           />
-          Rotation Animations
+          {t("config.animation.rotationAnimations")}
         </label>
 
         <label className="config-checkbox">
@@ -1254,7 +1437,7 @@ const AnimationSection: React.FC<{
               handleAnimationChange({ bounceOnViolation: e.target.checked })
             }
           />
-          Bounce on Violation
+          {t("config.animation.bounceOnViolation")}
         </label>
 
         <label className="config-checkbox">
@@ -1265,12 +1448,12 @@ const AnimationSection: React.FC<{
               handleAnimationChange({ highlightOnHover: e.target.checked })
             }
           />
-          Highlight on Hover
+          {t("config.animation.highlightOnHover")}
         </label>
       </div>
 
       <div className="config-field">
-        <label className="config-label">Animation Duration</label>
+        <label className="config-label">{t("config.animation.duration")}</label>
         <input
           className="config-input"
           type="range"
@@ -1290,7 +1473,9 @@ const AnimationSection: React.FC<{
       </div>
 
       <div className="config-field">
-        <label className="config-label">Stagger Delay</label>
+        <label className="config-label">
+          {t("config.animation.staggerDelay")}
+        </label>
         <input
           className="config-input"
           type="range"
@@ -1359,6 +1544,7 @@ const PresetsSection: React.FC<{
   onChange: (updates: Partial<VolleyballCourtConfig>) => void;
   onPresetApply?: (presetName: string) => void;
 }> = ({ config, onChange, onPresetApply }) => {
+  const { t } = useLocalization();
   const presets = useMemo(
     () => ConfigurationManager.getConfigurationPresets(),
     []
@@ -1377,22 +1563,20 @@ const PresetsSection: React.FC<{
 
   return (
     <div className="config-presets-section">
-      <p className="presets-description">
-        Apply predefined configurations for common use cases
-      </p>
+      <p className="presets-description">{t("config.presets.description")}</p>
 
       <div className="presets-grid">
         {Object.entries(presets).map(([presetName, preset]) => (
           <div key={presetName} className="preset-card">
             <h4 className="preset-title">{presetName}</h4>
             <p className="preset-description">
-              {getPresetDescription(presetName)}
+              {getPresetDescription(presetName, t)}
             </p>
             <button
               className="preset-button"
               onClick={() => handlePresetApply(presetName)}
             >
-              Apply
+              {t("config.presets.apply")}
             </button>
           </div>
         ))}
@@ -1479,17 +1663,11 @@ const PresetsSection: React.FC<{
 };
 
 // Helper function to get preset descriptions
-function getPresetDescription(presetName: string): string {
-  const descriptions: Record<string, string> = {
-    minimal: "Clean, simple interface for embedding",
-    educational: "Full validation and educational features",
-    presentation: "Optimized for coaching and presentations",
-    highContrast: "High contrast colors for accessibility",
-    performance: "Optimized for performance on large displays",
-    tournament: "Competition-ready with strict validation",
-    training: "Full-featured training environment",
-    mobile: "Optimized for mobile devices",
-    print: "Print and export friendly styling",
-  };
-  return descriptions[presetName] || "Custom configuration preset";
+function getPresetDescription(
+  presetName: string,
+  t: Localization["t"]
+): string {
+  const key = `config.preset.${presetName}`;
+  const description = t(key);
+  return description === key ? t("config.preset.custom") : description;
 }
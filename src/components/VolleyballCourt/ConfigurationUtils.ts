@@ -17,10 +17,26 @@ import {
   LocalizationConfig,
   ExportConfig,
   CustomRuleConfig,
+  CustomRuleCondition,
   ValidationContext,
   PlayerColorConfig,
+  LiberoConfig,
+  FullCourtConfig,
+  DefaultLineupConfig,
+  SystemDefinition,
+  FormationDefinition,
 } from "./types";
 import { SystemType, FormationType, PlayerPosition } from "./types";
+import { RuleSetRegistry } from "./volleyball-rules-engine/validation/RuleSetRegistry";
+import { isValidRuleSet } from "./volleyball-rules-engine/types/RuleSet";
+import { parseCustomRules } from "./utils/customRules";
+import { RECEIVE_PATTERNS } from "./utils/lineupGenerator";
+import {
+  BUILT_IN_FORMATIONS,
+  isBuiltInFormation,
+  RESERVED_FORMATION_IDS,
+} from "./utils/customFormations";
+import { VALIDATION_POLICIES } from "./utils/validationPolicies";
 
 /**
  * Configuration validation and utilities
@@ -54,6 +70,69 @@ export class ConfigurationManager {
       warnings.push(...rotationValidation.warnings);
     }
 
+    // Validate custom system definitions
+    if (config.systems) {
+      const systemsValidation = this.validateSystemsConfig(config.systems);
+      errors.push(...systemsValidation.errors);
+      warnings.push(...systemsValidation.warnings);
+    }
+
+    // Validate custom formation definitions
+    if (config.formations) {
+      const formationsValidation = this.validateFormationsConfig(
+        config.formations
+      );
+      errors.push(...formationsValidation.errors);
+      warnings.push(...formationsValidation.warnings);
+    }
+
+    // Validate libero configuration
+    if (config.libero) {
+      const liberoValidation = this.validateLiberoConfig(
+        config.libero,
+        config.players
+      );
+      errors.push(...liberoValidation.errors);
+      warnings.push(...liberoValidation.warnings);
+    }
+
+    // Validate default lineup configuration
+    if (config.defaultLineup) {
+      const defaultLineupValidation = this.validateDefaultLineupConfig(
+        config.defaultLineup
+      );
+      errors.push(...defaultLineupValidation.errors);
+      warnings.push(...defaultLineupValidation.warnings);
+    }
+
+    // Validate bench configuration
+    if (config.bench) {
+      const benchValidation = this.validateBenchConfig(
+        config.bench,
+        config.players
+      );
+      errors.push(...benchValidation.errors);
+      warnings.push(...benchValidation.warnings);
+    }
+
+    // Validate full-court configuration
+    if (config.fullCourt) {
+      const fullCourtValidation = this.validateFullCourtConfig(
+        config.fullCourt
+      );
+      errors.push(...fullCourtValidation.errors);
+      warnings.push(...fullCourtValidation.warnings);
+    }
+
+    // Validate validation configuration
+    if (config.validation) {
+      const validationValidation = this.validateValidationConfig(
+        config.validation
+      );
+      errors.push(...validationValidation.errors);
+      warnings.push(...validationValidation.warnings);
+    }
+
     // Validate appearance configuration
     if (config.appearance) {
       const appearanceValidation = this.validateAppearanceConfig(
@@ -72,6 +151,13 @@ export class ConfigurationManager {
       warnings.push(...animationValidation.warnings);
     }
 
+    // Validate export configuration
+    if (config.export) {
+      const exportValidation = this.validateExportConfig(config.export);
+      errors.push(...exportValidation.errors);
+      warnings.push(...exportValidation.warnings);
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -91,7 +177,8 @@ export class ConfigurationManager {
 
     // Validate 5-1 system players
     if (players["5-1"]) {
-      if (players["5-1"].length !== 6) {
+      const courtPlayers = players["5-1"].filter((p) => p.role !== "L");
+      if (courtPlayers.length !== 6) {
         errors.push("5-1 system must have exactly 6 players");
       }
 
@@ -105,7 +192,8 @@ export class ConfigurationManager {
 
     // Validate 6-2 system players
     if (players["6-2"]) {
-      if (players["6-2"].length !== 6) {
+      const courtPlayers = players["6-2"].filter((p) => p.role !== "L");
+      if (courtPlayers.length !== 6) {
         errors.push("6-2 system must have exactly 6 players");
       }
 
@@ -159,7 +247,7 @@ export class ConfigurationManager {
       }
 
       // Validate player role
-      const validRoles = ["S", "OPP", "OH", "MB"];
+      const validRoles = ["S", "OPP", "OH", "MB", "L"];
       if (!validRoles.includes(player.role)) {
         errors.push(
           `Invalid role "${player.role}" for player ${
@@ -190,6 +278,12 @@ export class ConfigurationManager {
       }
     }
 
+    // At most two liberos may be registered
+    const liberos = players.filter((p) => p.role === "L");
+    if (liberos.length > 2) {
+      errors.push(`${system} system can have at most 2 liberos`);
+    }
+
     // System-specific validations
     if (system === "5-1") {
       const setters = players.filter((p) => p.role === "S");
@@ -206,6 +300,349 @@ export class ConfigurationManager {
     return { errors, warnings };
   }
 
+  /**
+   * Validates libero configuration against the configured players
+   */
+  static validateLiberoConfig(
+    libero: {
+      "5-1"?: LiberoConfig;
+      "6-2"?: LiberoConfig;
+    },
+    players?: {
+      "5-1": PlayerDefinition[];
+      "6-2": PlayerDefinition[];
+    }
+  ): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const system of ["5-1", "6-2"] as const) {
+      const liberoConfig = libero[system];
+      if (!liberoConfig || liberoConfig.enabled === false) continue;
+
+      if (!liberoConfig.replaces || liberoConfig.replaces.length === 0) {
+        warnings.push(`${system} libero does not replace any players`);
+      }
+
+      if (liberoConfig.replaces?.includes(liberoConfig.playerId)) {
+        errors.push(`${system} libero cannot replace itself`);
+      }
+
+      const systemPlayers = players?.[system];
+      if (!systemPlayers) continue;
+
+      const liberoPlayer = systemPlayers.find(
+        (p) => p.id === liberoConfig.playerId
+      );
+      if (!liberoPlayer) {
+        errors.push(
+          `${system} libero references unknown player: ${liberoConfig.playerId}`
+        );
+      } else if (liberoPlayer.role !== "L") {
+        errors.push(
+          `${system} libero ${liberoConfig.playerId} must have role "L"`
+        );
+      }
+
+      for (const playerId of liberoConfig.replaces || []) {
+        if (!systemPlayers.some((p) => p.id === playerId)) {
+          errors.push(
+            `${system} libero replaces unknown player: ${playerId}`
+          );
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates bench players against the configured players
+   */
+  static validateBenchConfig(
+    bench: Partial<Record<SystemType, PlayerDefinition[]>>,
+    players?: Partial<Record<SystemType, PlayerDefinition[]>>
+  ): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const system of Object.keys(bench)) {
+      const benchPlayers = bench[system];
+      if (!benchPlayers) continue;
+
+      const ids = new Set<string>();
+      for (const player of benchPlayers) {
+        if (ids.has(player.id)) {
+          errors.push(`${system} bench has duplicate player ID: ${player.id}`);
+        }
+        ids.add(player.id);
+
+        if (players?.[system]?.some((p) => p.id === player.id)) {
+          errors.push(
+            `${system} bench player ${player.id} is already a configured player`
+          );
+        }
+        if (player.role === "L") {
+          warnings.push(
+            `${system} bench player ${player.id} is a libero; configure liberos under libero instead`
+          );
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates custom system definitions
+   */
+  static validateSystemsConfig(systems: SystemDefinition[]): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const ids = new Set<string>();
+    for (const definition of systems) {
+      if (!definition.id || definition.id.trim() === "") {
+        errors.push("System ID cannot be empty");
+        continue;
+      }
+      if (definition.id === "5-1" || definition.id === "6-2") {
+        errors.push(
+          `System ${definition.id} is built in; give custom systems a different ID`
+        );
+      }
+      if (ids.has(definition.id)) {
+        errors.push(`Duplicate system ID: ${definition.id}`);
+      }
+      ids.add(definition.id);
+
+      if (!definition.name || definition.name.trim() === "") {
+        warnings.push(`System ${definition.id} has no name`);
+      }
+
+      const playerValidation = this.validatePlayerDefinitions(
+        definition.players,
+        definition.id
+      );
+      errors.push(
+        ...playerValidation.errors.map((e) => `${definition.id}: ${e}`)
+      );
+      warnings.push(
+        ...playerValidation.warnings.map((w) => `${definition.id}: ${w}`)
+      );
+
+      const courtPlayers = definition.players.filter((p) => p.role !== "L");
+      if (courtPlayers.length !== 6) {
+        errors.push(`${definition.id} system must have exactly 6 players`);
+      }
+
+      if (definition.rotations.length !== 6) {
+        errors.push(`${definition.id} system must have exactly 6 rotations`);
+      }
+      const rotationValidation = this.validateRotationMappings(
+        definition.rotations,
+        definition.players,
+        definition.id
+      );
+      errors.push(
+        ...rotationValidation.errors.map((e) => `${definition.id}: ${e}`)
+      );
+      warnings.push(...rotationValidation.warnings);
+
+      // Coed: every player needs a gender, half men and half women
+      if (definition.constraints?.genderAlternation) {
+        const missingGender = courtPlayers.filter((p) => !p.gender);
+        if (missingGender.length > 0) {
+          errors.push(
+            `${definition.id} alternates genders; missing gender for ${missingGender
+              .map((p) => p.id)
+              .join(", ")}`
+          );
+        } else if (
+          courtPlayers.filter((p) => p.gender === "M").length !==
+          courtPlayers.length / 2
+        ) {
+          errors.push(
+            `${definition.id} alternates genders and must have as many men as women`
+          );
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates custom formation definitions
+   */
+  static validateFormationsConfig(formations: FormationDefinition[]): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const ids = new Set<string>();
+    for (const definition of formations) {
+      if (!definition.id || definition.id.trim() === "") {
+        errors.push("Formation ID cannot be empty");
+        continue;
+      }
+      if (isBuiltInFormation(definition.id)) {
+        errors.push(
+          `Formation ${definition.id} is built in; give custom formations a different ID`
+        );
+      }
+      if (RESERVED_FORMATION_IDS.includes(definition.id)) {
+        errors.push(`Formation ID ${definition.id} is reserved`);
+      }
+      if (ids.has(definition.id)) {
+        errors.push(`Duplicate formation ID: ${definition.id}`);
+      }
+      ids.add(definition.id);
+
+      if (!definition.name || definition.name.trim() === "") {
+        warnings.push(`Formation ${definition.id} has no name`);
+      }
+      if (
+        definition.basedOn !== undefined &&
+        !BUILT_IN_FORMATIONS.includes(definition.basedOn)
+      ) {
+        errors.push(
+          `Formation ${definition.id} must be based on rotational, serveReceive or base`
+        );
+      }
+      if (definition.order !== undefined && !Number.isFinite(definition.order)) {
+        errors.push(`Formation ${definition.id} order must be a number`);
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates default lineup configuration
+   */
+  static validateDefaultLineupConfig(defaultLineup: DefaultLineupConfig): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (
+      defaultLineup.receivePattern !== undefined &&
+      !RECEIVE_PATTERNS.includes(defaultLineup.receivePattern)
+    ) {
+      errors.push("Receive pattern must be 3-person, 4-person or 5-person");
+    }
+
+    if (defaultLineup.receivePattern && !defaultLineup.roleAware) {
+      warnings.push("Receive pattern only applies to role-aware defaults");
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates full-court configuration
+   */
+  static validateFullCourtConfig(fullCourt: FullCourtConfig): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (
+      fullCourt.initialOpponentRotation !== undefined &&
+      (!Number.isInteger(fullCourt.initialOpponentRotation) ||
+        fullCourt.initialOpponentRotation < 0 ||
+        fullCourt.initialOpponentRotation > 5)
+    ) {
+      errors.push("Initial opponent rotation must be between 0 and 5");
+    }
+
+    if (fullCourt.opponentMarkers) {
+      if (fullCourt.opponentMarkers.length !== 6) {
+        errors.push("Full court must define exactly 6 opponent markers");
+      }
+
+      const markerIds = fullCourt.opponentMarkers.map((marker) => marker.id);
+      if (new Set(markerIds).size !== markerIds.length) {
+        errors.push("Opponent marker IDs must be unique");
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validates validation configuration
+   */
+  static validateValidationConfig(validation: ValidationConfig): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Validate rule set selection
+    if (validation.ruleSet !== undefined) {
+      if (typeof validation.ruleSet === "string") {
+        if (!RuleSetRegistry.has(validation.ruleSet)) {
+          errors.push(`Unknown rule set: ${validation.ruleSet}`);
+        }
+      } else if (!isValidRuleSet(validation.ruleSet)) {
+        errors.push("Custom rule set definition is invalid");
+      }
+    }
+
+    // Validate custom rules
+    const ruleIds = new Set<string>();
+    validation.customRules?.forEach((rule) => {
+      if (ruleIds.has(rule.id)) {
+        errors.push(`Duplicate custom rule ID: ${rule.id}`);
+      }
+      ruleIds.add(rule.id);
+
+      if (!rule.validator && !rule.condition) {
+        errors.push(`Custom rule ${rule.id} needs a validator or a condition`);
+      } else if (
+        rule.condition &&
+        parseCustomRules([{ ...rule, validator: undefined }]).length === 0
+      ) {
+        errors.push(`Custom rule ${rule.id} has an invalid condition`);
+      }
+      if (rule.constrainDrag && !rule.condition) {
+        warnings.push(
+          `Custom rule ${rule.id} can only constrain dragging with a condition`
+        );
+      }
+    });
+
+    // Validate policies per formation
+    const policyChecks = Object.keys(VALIDATION_POLICIES.base);
+    Object.entries(validation.policies ?? {}).forEach(([formation, policy]) => {
+      Object.entries(policy ?? {}).forEach(([check, enabled]) => {
+        if (!policyChecks.includes(check)) {
+          warnings.push(
+            `Unknown check in ${formation} validation policy: ${check}`
+          );
+        } else if (typeof enabled !== "boolean") {
+          errors.push(
+            `Check ${check} in ${formation} validation policy must be true or false`
+          );
+        }
+      });
+    });
+
+    return { errors, warnings };
+  }
+
   /**
    * Validates rotations configuration
    */
@@ -446,6 +883,54 @@ export class ConfigurationManager {
     return { errors, warnings };
   }
 
+  /**
+   * Validates export configuration
+   */
+  static validateExportConfig(exportConfig: ExportConfig): {
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const supportedFormats = ["png", "svg", "pdf", "json", "csv"];
+
+    for (const format of exportConfig.exportFormats || []) {
+      if (!supportedFormats.includes(format)) {
+        errors.push(`Unsupported export format: ${format}`);
+      }
+    }
+
+    // Validate image size
+    const size = exportConfig.defaultImageSize;
+    if (size && (size.width <= 0 || size.height <= 0)) {
+      errors.push("Export image size must be positive");
+    }
+
+    if (
+      exportConfig.enableImageExport === false &&
+      exportConfig.exportFormats?.some((format) =>
+        ["png", "svg", "pdf"].includes(format)
+      )
+    ) {
+      warnings.push(
+        "Image export formats are listed but image export is disabled"
+      );
+    }
+
+    if (
+      exportConfig.enableDataExport === false &&
+      exportConfig.exportFormats?.some((format) =>
+        ["json", "csv"].includes(format)
+      )
+    ) {
+      warnings.push(
+        "Data export formats are listed but data export is disabled"
+      );
+    }
+
+    return { errors, warnings };
+  }
+
   /**
    * Checks if a color string is valid (hex, rgb, rgba, hsl, or named color)
    */
@@ -510,10 +995,39 @@ export class ConfigurationManager {
       players: {
         "5-1": userConfig.players?.["5-1"] || defaultConfig.players["5-1"],
         "6-2": userConfig.players?.["6-2"] || defaultConfig.players["6-2"],
+        ...Object.fromEntries(
+          (userConfig.systems ?? []).map((definition) => [
+            definition.id,
+            definition.players,
+          ])
+        ),
       },
       rotations: {
         "5-1": userConfig?.rotations?.["5-1"] || defaultConfig.rotations["5-1"],
         "6-2": userConfig.rotations?.["6-2"] || defaultConfig.rotations["6-2"],
+        // Custom systems are keyed by their ID like the built-ins
+        ...Object.fromEntries(
+          (userConfig.systems ?? []).map((definition) => [
+            definition.id,
+            definition.rotations,
+          ])
+        ),
+      },
+      libero: {
+        ...defaultConfig.libero,
+        ...userConfig.libero,
+      },
+      defaultLineup: {
+        ...defaultConfig.defaultLineup,
+        ...userConfig.defaultLineup,
+      },
+      bench: {
+        ...defaultConfig.bench,
+        ...userConfig.bench,
+      },
+      fullCourt: {
+        ...defaultConfig.fullCourt,
+        ...userConfig.fullCourt,
       },
       controls: {
         ...defaultConfig.controls,
@@ -652,7 +1166,7 @@ export class ConfigurationManager {
       enabled?: boolean;
       severity?: "error" | "warning" | "info";
     }
-  ): CustomRuleConfig {
+  ): CustomRuleConfig & Required<Pick<CustomRuleConfig, "validator">> {
     return {
       id,
       name,
@@ -664,6 +1178,35 @@ export class ConfigurationManager {
     };
   }
 
+  /**
+   * Creates a custom rule declared as data, which is kept in shared links
+   */
+  static createConditionRule(
+    id: string,
+    name: string,
+    description: string,
+    condition: CustomRuleCondition,
+    message: string,
+    options?: {
+      enabled?: boolean;
+      severity?: "error" | "warning" | "info";
+      formations?: FormationType[];
+      constrainDrag?: boolean;
+    }
+  ): CustomRuleConfig {
+    return {
+      id,
+      name,
+      description,
+      enabled: options?.enabled ?? true,
+      severity: options?.severity || "error",
+      condition,
+      formations: options?.formations,
+      constrainDrag: options?.constrainDrag,
+      message,
+    };
+  }
+
   /**
    * Applies theme-based styling
    */
@@ -733,6 +1276,7 @@ export class ConfigurationManager {
           showFormationSelector: false,
           showResetButton: false,
           showShareButton: false,
+          showExportButton: false,
           showAnimateButton: false,
           controlsStyle: "minimal",
         },
@@ -899,12 +1443,13 @@ export class PlayerCustomization {
   /**
    * Gets default color for a role
    */
-  static getRoleColor(role: "S" | "OPP" | "OH" | "MB"): string {
+  static getRoleColor(role: "S" | "OPP" | "OH" | "MB" | "L"): string {
     const roleColors = {
       S: "#10b981", // Green for setters
       OPP: "#f59e0b", // Amber for opposite
       OH: "#3b82f6", // Blue for outside hitters
       MB: "#ef4444", // Red for middle blockers
+      L: "#f97316", // Orange for the libero jersey
     };
     return roleColors[role];
   }
@@ -956,11 +1501,13 @@ export class RotationCustomization {
   }
 
   /**
-   * Validates that rotations follow volleyball rules
+   * Validates that rotations follow volleyball rules. When a roster is
+   * given, every player must be on it and appear once per rotation.
    */
   static validateRotationSequence(
     rotations: RotationMapping[],
-    system: SystemType
+    system: SystemType,
+    roster?: PlayerDefinition[]
   ): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -969,6 +1516,23 @@ export class RotationCustomization {
       return { isValid: false, errors };
     }
 
+    if (roster) {
+      const rosterIds = new Set(roster.map((player) => player.id));
+      rotations.forEach((rotation, index) => {
+        const rotationPlayerIds = Object.values(rotation);
+        for (const id of new Set(rotationPlayerIds)) {
+          if (!rosterIds.has(id)) {
+            errors.push(
+              `Rotation ${index + 1} uses ${id}, who is not on the roster`
+            );
+          }
+          if (rotationPlayerIds.filter((other) => other === id).length > 1) {
+            errors.push(`Rotation ${index + 1} uses ${id} more than once`);
+          }
+        }
+      });
+    }
+
     // Check that each rotation is a valid rotation of the first
     const firstRotation = rotations[0];
     const playerIds = Object.values(firstRotation);
@@ -1151,7 +1715,15 @@ export class ConfigurationBuilder {
     formationSelector?: boolean;
     resetButton?: boolean;
     shareButton?: boolean;
+    exportButton?: boolean;
     animateButton?: boolean;
+    sequenceEditor?: boolean;
+    annotationTools?: boolean;
+    fullCourtControls?: boolean;
+    substitutionManager?: boolean;
+    matchControls?: boolean;
+    playbookSwitcher?: boolean;
+    historyPanel?: boolean;
   }): ConfigurationBuilder {
     if (!this.config.controls) {
       this.config.controls = {};
@@ -1163,7 +1735,15 @@ export class ConfigurationBuilder {
       showFormationSelector: controls.formationSelector,
       showResetButton: controls.resetButton,
       showShareButton: controls.shareButton,
+      showExportButton: controls.exportButton,
       showAnimateButton: controls.animateButton,
+      showSequenceEditor: controls.sequenceEditor,
+      showAnnotationTools: controls.annotationTools,
+      showFullCourtControls: controls.fullCourtControls,
+      showSubstitutionManager: controls.substitutionManager,
+      showMatchControls: controls.matchControls,
+      showPlaybookSwitcher: controls.playbookSwitcher,
+      showHistoryPanel: controls.historyPanel,
     });
     return this;
   }
@@ -8,7 +8,15 @@ import { SystemSelector } from "./controls/SystemSelector";
 import { RotationControls } from "./controls/RotationControls";
 import { FormationSelector } from "./controls/FormationSelector";
 import { ShareButton } from "./controls/ShareButton";
+import { ExportButton } from "./controls/ExportButton";
 import { AnimationControls } from "./controls/AnimationControls";
+import { SequenceTimeline } from "./controls/SequenceTimeline";
+import { AnnotationToolbar } from "./controls/AnnotationToolbar";
+import { FullCourtControls } from "./controls/FullCourtControls";
+import { SubstitutionManager } from "./controls/SubstitutionManager";
+import { MatchControls } from "./controls/MatchControls";
+import { PlaybookSwitcher } from "./controls/PlaybookSwitcher";
+import { HistoryPanel } from "./controls/HistoryPanel";
 import { ResetButton } from "./ResetButton";
 
 export const ControlsLayer: React.FC<ControlsLayerProps> = ({
@@ -18,12 +26,22 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
   isAnimating,
   isReadOnly,
   controlsConfig,
+  liberoSwap,
+  systemOptions,
+  formationOptions,
   onSystemChange,
   onRotationChange,
   onFormationChange,
   onReset,
   onShare,
   onAnimate,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
+  templates,
+  onApplyTemplate,
+  onSaveTemplate,
 }) => {
   const {
     showSystemSelector = true,
@@ -31,7 +49,16 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
     showFormationSelector = true,
     showResetButton = true,
     showShareButton = true,
+    showExportButton = true,
     showAnimateButton = true,
+    showSequenceEditor = false,
+    showAnnotationTools = false,
+    showFullCourtControls = false,
+    showSubstitutionManager = false,
+    showMatchControls = false,
+    showPlaybookSwitcher = false,
+    showUndoRedoButtons = false,
+    showHistoryPanel = false,
   } = controlsConfig;
 
   return (
@@ -61,6 +88,7 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
           {showSystemSelector && (
             <SystemSelector
               system={system}
+              systems={systemOptions}
               onSystemChange={onSystemChange}
               isReadOnly={isReadOnly}
             />
@@ -73,6 +101,7 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
               onRotationChange={onRotationChange}
               isAnimating={isAnimating}
               isReadOnly={isReadOnly}
+              liberoSwap={liberoSwap}
             />
           )}
 
@@ -89,6 +118,9 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
           {showShareButton && (
             <ShareButton onShare={onShare} isAnimating={isAnimating} />
           )}
+
+          {/* Export Button */}
+          {showExportButton && <ExportButton isAnimating={isAnimating} />}
         </div>
       </div>
 
@@ -99,7 +131,11 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
           <FormationSelector
             formation={formation}
             onFormationChange={onFormationChange}
+            formations={formationOptions}
             isReadOnly={isReadOnly}
+            templates={templates}
+            onApplyTemplate={onApplyTemplate}
+            onSaveTemplate={onSaveTemplate}
           />
         )}
 
@@ -169,16 +205,45 @@ export const ControlsLayer: React.FC<ControlsLayerProps> = ({
                 currentFormation: false,
                 system: false,
               }}
-              canUndo={false} // Will be passed from parent
-              canRedo={false}
-              onUndo={async () => false} // Will be passed from parent
-              onRedo={async () => false}
+              canUndo={showUndoRedoButtons && canUndo}
+              canRedo={showUndoRedoButtons && canRedo}
+              onUndo={async () => {
+                onUndo?.();
+                return true;
+              }}
+              onRedo={async () => {
+                onRedo?.();
+                return true;
+              }}
               onShowPreview={() => {}} // Will be passed from parent
               getAffectedPositions={() => []} // Will be passed from parent
             />
           </div>
         )}
       </div>
+
+      {/* Full court: opponent side and serving team */}
+      {showFullCourtControls && <FullCourtControls isReadOnly={isReadOnly} />}
+
+      {/* Bench and substitutions */}
+      {showSubstitutionManager && (
+        <SubstitutionManager isReadOnly={isReadOnly} />
+      )}
+
+      {/* Match mode: scoring drives the rotation */}
+      {showMatchControls && <MatchControls isReadOnly={isReadOnly} />}
+
+      {/* Named playbooks of saved positions */}
+      {showPlaybookSwitcher && <PlaybookSwitcher isReadOnly={isReadOnly} />}
+
+      {/* Undo history with abandoned branches */}
+      {showHistoryPanel && <HistoryPanel isReadOnly={isReadOnly} />}
+
+      {/* Annotation tools */}
+      {showAnnotationTools && <AnnotationToolbar isReadOnly={isReadOnly} />}
+
+      {/* Play sequence timeline */}
+      {showSequenceEditor && <SequenceTimeline isReadOnly={isReadOnly} />}
     </div>
   );
 };
@@ -12,6 +12,7 @@ import { CourtVisualizationProps } from "./types";
  * - Theming support for light/dark mode
  * - Court zones and position markers
  * - Clean SVG structure for overlaying players and guidelines
+ * - The opponent half (side="opponent"), mirrored across the net
  */
 export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
   dimensions,
@@ -19,8 +20,11 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
   courtColor,
   showGrid = false,
   showZones = true,
+  side = "home",
   className = "",
 }) => {
+  const isOpponentSide = side === "opponent";
+
   // Calculate theme-based colors
   const colors = useMemo(() => {
     const isDark = theme === "dark";
@@ -47,29 +51,53 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
   const courtElements = useMemo(() => {
     const { width, height } = dimensions;
 
+    // The opponent half faces us, so both axes are mirrored
+    const scaleX = (ratio: number) =>
+      (isOpponentSide ? 1 - ratio : ratio) * width;
+    const scaleY = (ratio: number) =>
+      (isOpponentSide ? 1 - ratio : ratio) * height;
+
     // Base position coordinates (scaled to current dimensions)
     const basePositions = {
-      1: { x: width * 0.78, y: height * 0.82 }, // right-back
-      2: { x: width * 0.78, y: height * 0.42 }, // right-front
-      3: { x: width * 0.5, y: height * 0.42 }, // middle-front
-      4: { x: width * 0.22, y: height * 0.42 }, // left-front
-      5: { x: width * 0.22, y: height * 0.82 }, // left-back
-      6: { x: width * 0.5, y: height * 0.82 }, // middle-back
+      1: { x: scaleX(0.78), y: scaleY(0.82) }, // right-back
+      2: { x: scaleX(0.78), y: scaleY(0.42) }, // right-front
+      3: { x: scaleX(0.5), y: scaleY(0.42) }, // middle-front
+      4: { x: scaleX(0.22), y: scaleY(0.42) }, // left-front
+      5: { x: scaleX(0.22), y: scaleY(0.82) }, // left-back
+      6: { x: scaleX(0.5), y: scaleY(0.82) }, // middle-back
     };
 
     // Court lines
     const netLine = {
       x1: 0,
-      y1: height * 0.12,
+      y1: scaleY(0.12),
       x2: width,
-      y2: height * 0.12,
+      y2: scaleY(0.12),
     };
 
     const attackLine = {
       x1: 0,
-      y1: height * 0.3,
+      y1: scaleY(0.3),
       x2: width,
-      y2: height * 0.3,
+      y2: scaleY(0.3),
+    };
+
+    // Front and back row zones
+    const zones = {
+      frontRow: {
+        y: Math.min(scaleY(0.12), scaleY(0.3)),
+        height: height * 0.18,
+      },
+      backRow: {
+        y: Math.min(scaleY(0.3), scaleY(1)),
+        height: height * 0.7,
+      },
+    };
+
+    // Label positions
+    const labels = {
+      net: scaleY(0.06),
+      attackLine: scaleY(0.25),
     };
 
     // Grid lines (if enabled)
@@ -90,13 +118,16 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
       basePositions,
       netLine,
       attackLine,
+      zones,
+      labels,
       gridLines,
     };
-  }, [dimensions, showGrid]);
+  }, [dimensions, showGrid, isOpponentSide]);
 
   return (
     <svg
       data-testid="volleyball-court-visualization"
+      data-side={side}
       viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
       width="100%"
       height={dimensions.height}
@@ -178,18 +209,18 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
           {/* Front row zone */}
           <rect
             x={0}
-            y={dimensions.height * 0.12}
+            y={courtElements.zones.frontRow.y}
             width={dimensions.width}
-            height={dimensions.height * 0.18}
+            height={courtElements.zones.frontRow.height}
             fill={colors.attackLine}
           />
 
           {/* Back row zone */}
           <rect
             x={0}
-            y={dimensions.height * 0.3}
+            y={courtElements.zones.backRow.y}
             width={dimensions.width}
-            height={dimensions.height * 0.7}
+            height={courtElements.zones.backRow.height}
             fill={colors.positionMarker}
           />
         </g>
@@ -231,7 +262,7 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
       <g className="court-labels" opacity={0.7}>
         <text
           x={dimensions.width / 2}
-          y={dimensions.height * 0.06}
+          y={courtElements.labels.net}
           fontSize={14}
           fill={colors.positionText}
           textAnchor="middle"
@@ -243,7 +274,7 @@ export const CourtVisualization: React.FC<CourtVisualizationProps> = ({
 
         <text
           x={dimensions.width / 2}
-          y={dimensions.height * 0.25}
+          y={courtElements.labels.attackLine}
           fontSize={12}
           fill={colors.positionText}
           textAnchor="middle"
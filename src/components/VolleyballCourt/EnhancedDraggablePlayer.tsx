@@ -1,5 +1,11 @@
 "use client";
-import React, { useMemo, useState, useCallback } from "react";
+import React, {
+  useMemo,
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+} from "react";
 import { motion, PanInfo } from "framer-motion";
 import {
   SystemType,
@@ -10,16 +16,37 @@ import {
 import { PositionManager } from "./hooks/usePositionManager";
 import { ConstraintCalculator } from "./volleyball-rules-engine/validation/ConstraintCalculator";
 import { OverlapValidator } from "./volleyball-rules-engine/validation/OverlapValidator";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "./volleyball-rules-engine/types/RuleSet";
 import { StateConverter } from "./volleyball-rules-engine/utils/StateConverter";
 import { RotationSlot } from "./volleyball-rules-engine/types/PlayerState";
 import { CoordinateTransformer } from "./volleyball-rules-engine/utils/CoordinateTransformer";
+import {
+  KEYBOARD_COARSE_NUDGE_STEP,
+  KEYBOARD_NUDGE_STEP,
+} from "./utils/courtDescription";
 
 interface Player {
   id: string;
   name: string;
   role: string;
+  number?: number;
+  color?: string; // Jersey color, overrides the default fill
+  locked?: boolean; // Can't be dragged
 }
 
+// How long a touch must be held to open the context menu
+const LONG_PRESS_DELAY = 500;
+
+const ARROW_KEY_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
 interface EnhancedDraggablePlayerProps {
   player: Player;
   position: { x: number; y: number };
@@ -29,12 +56,38 @@ interface EnhancedDraggablePlayerProps {
   formation: FormationType;
   courtDimensions: { courtWidth: number; courtHeight: number };
   rotationMap?: Record<number, string>;
+  ruleSet?: RuleSetName | RuleSet;
+  serverSlot?: RotationSlot | null; // null when the other team is serving
   isReadOnly?: boolean;
   onDragStart?: (playerId: string) => void;
-  onDragEnd?: (playerId: string, success: boolean) => void;
+  onDragEnd?: (
+    playerId: string,
+    success: boolean,
+    position?: { x: number; y: number } // Where the player was dropped
+  ) => void;
   onResetPosition?: (playerId: string) => void;
   onVolleyballRuleViolation?: (playerId: string, violations: string[]) => void;
   enableVolleyballRules?: boolean;
+
+  // Multi-select: a selected player drags the whole selection
+  isSelected?: boolean;
+  groupOffset?: { x: number; y: number }; // Follows another selected player's drag
+  onSelect?: (playerId: string, isAdditive: boolean) => void; // isAdditive on shift-click
+  onGroupDrag?: (playerId: string, offset: { x: number; y: number }) => void;
+  onGroupDragEnd?: (playerId: string, offset: { x: number; y: number }) => void;
+
+  // Right-click or long-press, and double-click; points in viewport coordinates
+  onContextMenu?: (playerId: string, point: { x: number; y: number }) => void;
+  onDoubleClick?: (playerId: string, point: { x: number; y: number }) => void;
+
+  // Keyboard positioning: every player takes focus and arrow keys nudge it
+  keyboardEnabled?: boolean;
+  ariaLabel?: string; // Replaces the generated label
+  onKeyboardMove?: (
+    playerId: string,
+    position: { x: number; y: number },
+    moved: boolean // False when the player can't move that way
+  ) => void;
 }
 
 interface DragState {
@@ -59,12 +112,24 @@ export function EnhancedDraggablePlayer({
   formation,
   courtDimensions,
   rotationMap,
+  ruleSet,
+  serverSlot = 1,
   isReadOnly = false,
   onDragStart,
   onDragEnd,
   onResetPosition,
   onVolleyballRuleViolation,
   enableVolleyballRules = true,
+  isSelected = false,
+  groupOffset,
+  onSelect,
+  onGroupDrag,
+  onGroupDragEnd,
+  onContextMenu,
+  onDoubleClick,
+  keyboardEnabled = false,
+  ariaLabel,
+  onKeyboardMove,
 }: EnhancedDraggablePlayerProps) {
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
@@ -74,6 +139,25 @@ export function EnhancedDraggablePlayer({
   });
   const [showTooltip, setShowTooltip] = useState(false);
   const [showResetButton, setShowResetButton] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+
+  // A drag ends with a click on the player, which must not change the selection
+  const wasDraggedRef = useRef(false);
+
+  // Pending long-press that opens the context menu on touch screens
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelLongPress = useCallback(() => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelLongPress, [cancelLongPress]);
+
+  // Moves the whole selection; the group is validated as a unit on drop
+  const isGroupDrag = onGroupDragEnd !== undefined;
 
   // Get player's rotation slot
   const playerSlot = useMemo(() => {
@@ -94,11 +178,16 @@ export function EnhancedDraggablePlayer({
     );
   }, [positionManager, system, rotation, formation, player.id]);
 
+  // The libero wears a contrasting jersey
+  const isLibero = player.role === "L";
+
   // Get visual styling based on customization status and drag state
   const getPlayerStyles = useMemo(() => {
     const baseStyles = {
-      fill: isCustomized ? "#10b981" : "#3b82f6",
-      stroke: isCustomized ? "#065f46" : "#1e40af",
+      fill: isLibero
+        ? "#f97316"
+        : (player.color ?? (isCustomized ? "#10b981" : "#3b82f6")),
+      stroke: isLibero ? "#c2410c" : isCustomized ? "#065f46" : "#1e40af",
       strokeWidth: isCustomized ? 2 : 2,
     };
 
@@ -110,7 +199,13 @@ export function EnhancedDraggablePlayer({
     }
 
     return baseStyles;
-  }, [isCustomized, dragState.isDragging, dragState.isValidPosition]);
+  }, [
+    isLibero,
+    isCustomized,
+    player.color,
+    dragState.isDragging,
+    dragState.isValidPosition,
+  ]);
 
   // Validate if a position is within court boundaries
   const isWithinBounds = useCallback(
@@ -127,8 +222,8 @@ export function EnhancedDraggablePlayer({
 
   // Check if dragging is disabled for this formation
   const isDragDisabled = useMemo(() => {
-    return isReadOnly || formation === "rotational";
-  }, [isReadOnly, formation]);
+    return isReadOnly || formation === "rotational" || player.locked === true;
+  }, [isReadOnly, formation, player.locked]);
 
   // Calculate constraint bounds using volleyball rules engine
   const calculateConstraintBounds = useCallback(
@@ -150,7 +245,6 @@ export function EnhancedDraggablePlayer({
         );
 
         // Convert to volleyball states
-        const serverSlot = 1; // Default server slot, could be dynamic
         const volleyballStates = StateConverter.formationToVolleyballStates(
           allPositions,
           rotationMap,
@@ -168,7 +262,8 @@ export function EnhancedDraggablePlayer({
         const bounds = ConstraintCalculator.calculateValidBounds(
           playerSlot,
           positionMap,
-          isServer
+          isServer,
+          ruleSet
         );
 
         if (bounds.isConstrained) {
@@ -203,6 +298,8 @@ export function EnhancedDraggablePlayer({
       system,
       rotation,
       playerSlot,
+      ruleSet,
+      serverSlot,
     ]
   );
 
@@ -237,7 +334,6 @@ export function EnhancedDraggablePlayer({
         };
 
         // Convert to volleyball states
-        const serverSlot = 1; // Default server slot
         const volleyballStates = StateConverter.formationToVolleyballStates(
           updatedPositions,
           rotationMap,
@@ -245,7 +341,9 @@ export function EnhancedDraggablePlayer({
         );
 
         // Validate using overlap validator
-        const result = OverlapValidator.checkOverlap(volleyballStates);
+        const result = OverlapValidator.checkOverlap(volleyballStates, {
+          ruleSet,
+        });
 
         return {
           isValid: result.isLegal,
@@ -264,14 +362,20 @@ export function EnhancedDraggablePlayer({
       system,
       rotation,
       player.id,
+      ruleSet,
+      serverSlot,
     ]
   );
 
   // Handle drag start
   const handleDragStart = useCallback(() => {
+    cancelLongPress();
     if (isDragDisabled) return;
 
-    const constraintBounds = calculateConstraintBounds(position);
+    wasDraggedRef.current = true;
+    const constraintBounds = isGroupDrag
+      ? undefined
+      : calculateConstraintBounds(position);
 
     setDragState({
       isDragging: true,
@@ -288,6 +392,8 @@ export function EnhancedDraggablePlayer({
     player.id,
     onDragStart,
     calculateConstraintBounds,
+    isGroupDrag,
+    cancelLongPress,
   ]);
 
   // Handle drag movement
@@ -295,6 +401,11 @@ export function EnhancedDraggablePlayer({
     (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
       if (isDragDisabled || !dragState.isDragging) return;
 
+      if (isGroupDrag) {
+        onGroupDrag?.(player.id, { x: info.offset.x, y: info.offset.y });
+        return;
+      }
+
       // Calculate new position based on drag offset
       let newPosition = {
         x: dragState.startPosition.x + info.offset.x,
@@ -358,6 +469,8 @@ export function EnhancedDraggablePlayer({
       courtDimensions,
       validateVolleyballRules,
       onVolleyballRuleViolation,
+      isGroupDrag,
+      onGroupDrag,
     ]
   );
 
@@ -366,6 +479,17 @@ export function EnhancedDraggablePlayer({
     (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
       if (isDragDisabled || !dragState.isDragging) return;
 
+      if (isGroupDrag) {
+        setDragState({
+          isDragging: false,
+          startPosition: position,
+          isValidPosition: true,
+          volleyballViolations: [],
+        });
+        onGroupDragEnd(player.id, { x: info.offset.x, y: info.offset.y });
+        return;
+      }
+
       let finalPosition = {
         x: dragState.startPosition.x + info.offset.x,
         y: dragState.startPosition.y + info.offset.y,
@@ -404,7 +528,7 @@ export function EnhancedDraggablePlayer({
         volleyballViolations: [],
       });
 
-      onDragEnd?.(player.id, success);
+      onDragEnd?.(player.id, success, finalPosition);
     },
     [
       isDragDisabled,
@@ -420,6 +544,94 @@ export function EnhancedDraggablePlayer({
       player.id,
       position,
       onDragEnd,
+      isGroupDrag,
+      onGroupDragEnd,
+    ]
+  );
+
+  // Arrow keys nudge the player, Shift for coarse steps; a selected player
+  // nudges the whole selection
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      const direction = ARROW_KEY_DIRECTIONS[event.key];
+      if (
+        !keyboardEnabled ||
+        !direction ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey
+      ) {
+        return;
+      }
+      event.preventDefault();
+
+      if (isDragDisabled) {
+        onKeyboardMove?.(player.id, position, false);
+        return;
+      }
+
+      const step = event.shiftKey
+        ? KEYBOARD_COARSE_NUDGE_STEP
+        : KEYBOARD_NUDGE_STEP;
+      const offset = { x: direction.x * step, y: direction.y * step };
+
+      if (isGroupDrag) {
+        onGroupDragEnd(player.id, offset);
+        onKeyboardMove?.(
+          player.id,
+          { x: position.x + offset.x, y: position.y + offset.y },
+          true
+        );
+        return;
+      }
+
+      const target = { x: position.x + offset.x, y: position.y + offset.y };
+
+      // Stay inside the rule bounds and the court, as a drag would
+      const bounds = calculateConstraintBounds(position);
+      if (bounds) {
+        target.x = Math.max(bounds.minX, Math.min(bounds.maxX, target.x));
+        target.y = Math.max(bounds.minY, Math.min(bounds.maxY, target.y));
+      }
+      target.x = Math.max(
+        PLAYER_RADIUS,
+        Math.min(courtDimensions.courtWidth - PLAYER_RADIUS, target.x)
+      );
+      target.y = Math.max(
+        PLAYER_RADIUS,
+        Math.min(courtDimensions.courtHeight - PLAYER_RADIUS, target.y)
+      );
+
+      if (target.x === position.x && target.y === position.y) {
+        onKeyboardMove?.(player.id, position, false);
+        return;
+      }
+
+      const success = positionManager.setPosition(
+        system,
+        rotation,
+        formation,
+        player.id,
+        target
+      );
+      onDragEnd?.(player.id, success, target);
+      onKeyboardMove?.(player.id, success ? target : position, success);
+    },
+    [
+      keyboardEnabled,
+      isDragDisabled,
+      player.id,
+      position,
+      isGroupDrag,
+      onGroupDragEnd,
+      calculateConstraintBounds,
+      courtDimensions,
+      positionManager,
+      system,
+      rotation,
+      formation,
+      onDragEnd,
+      onKeyboardMove,
     ]
   );
 
@@ -436,8 +648,8 @@ export function EnhancedDraggablePlayer({
     <motion.g
       initial={false}
       animate={{
-        x: position.x,
-        y: position.y,
+        x: position.x + (groupOffset?.x ?? 0),
+        y: position.y + (groupOffset?.y ?? 0),
         scale: dragState.isDragging
           ? dragState.isValidPosition
             ? 1.1
@@ -467,7 +679,37 @@ export function EnhancedDraggablePlayer({
       }
       style={{
         cursor: getCursorStyle(),
+        pointerEvents: "auto",
+      }}
+      onPointerDown={(event) => {
+        wasDraggedRef.current = false;
+        if (!onContextMenu || event.pointerType !== "touch") return;
+
+        const point = { x: event.clientX, y: event.clientY };
+        longPressRef.current = setTimeout(() => {
+          longPressRef.current = null;
+          wasDraggedRef.current = true; // Lifting the finger must not select
+          onContextMenu(player.id, point);
+        }, LONG_PRESS_DELAY);
+      }}
+      onPointerUp={cancelLongPress}
+      onPointerCancel={cancelLongPress}
+      onClick={(event) => {
+        if (!onSelect || wasDraggedRef.current) return;
+        onSelect(player.id, event.shiftKey);
+      }}
+      onContextMenu={(event) => {
+        if (!onContextMenu) return;
+        event.preventDefault();
+        cancelLongPress();
+        onContextMenu(player.id, { x: event.clientX, y: event.clientY });
+      }}
+      onDoubleClick={(event) => {
+        onDoubleClick?.(player.id, { x: event.clientX, y: event.clientY });
       }}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => setIsFocused(false)}
       onMouseEnter={() => {
         setShowTooltip(true);
         setShowResetButton(true);
@@ -477,18 +719,26 @@ export function EnhancedDraggablePlayer({
         setShowResetButton(false);
       }}
       role="button"
-      tabIndex={isDragDisabled ? -1 : 0}
-      aria-label={`Player ${player.id} in ${
-        player.role
-      } position. Zone ${playerSlot}. ${
-        isCustomized ? "Custom position" : "Default position"
-      }. ${
-        isDragDisabled
-          ? formation === "rotational"
-            ? "Rotational positions cannot be moved"
-            : "Read-only mode"
-          : "Drag to reposition"
-      }`}
+      tabIndex={isDragDisabled && !keyboardEnabled ? -1 : 0}
+      aria-label={
+        ariaLabel ??
+        `Player ${player.id} in ${
+          isLibero ? "libero" : player.role
+        } position. Zone ${playerSlot}. ${
+          isCustomized ? "Custom position" : "Default position"
+        }. ${
+          isDragDisabled
+            ? formation === "rotational"
+              ? "Rotational positions cannot be moved"
+              : isReadOnly
+                ? "Read-only mode"
+                : "Locked"
+            : keyboardEnabled
+              ? "Drag or use the arrow keys to reposition"
+              : "Drag to reposition"
+        }`
+      }
+      aria-pressed={onSelect ? isSelected : undefined}
       aria-describedby={`player-${player.id}-status`}
       aria-live="polite"
     >
@@ -506,6 +756,48 @@ export function EnhancedDraggablePlayer({
         }}
       />
 
+      {/* Selection ring */}
+      {isSelected && (
+        <circle
+          cx={0}
+          cy={0}
+          r={PLAYER_RADIUS + 5}
+          fill="none"
+          stroke="#f59e0b"
+          strokeWidth={3}
+          data-testid={`player-selected-${player.id}`}
+          style={{ pointerEvents: "none" }}
+        />
+      )}
+
+      {/* Keyboard focus ring */}
+      {isFocused && keyboardEnabled && (
+        <circle
+          cx={0}
+          cy={0}
+          r={PLAYER_RADIUS + 8}
+          fill="none"
+          stroke="#2563eb"
+          strokeWidth={2}
+          data-testid={`player-focus-${player.id}`}
+          style={{ pointerEvents: "none" }}
+        />
+      )}
+
+      {/* Libero jersey collar */}
+      {isLibero && (
+        <circle
+          cx={0}
+          cy={0}
+          r={PLAYER_RADIUS - 4}
+          fill="none"
+          stroke="white"
+          strokeWidth={2}
+          data-testid={`libero-jersey-${player.id}`}
+          style={{ pointerEvents: "none" }}
+        />
+      )}
+
       {/* Constraint bounds visualization during drag */}
       {dragState.isDragging &&
         dragState.constraintBounds &&
@@ -544,6 +836,20 @@ export function EnhancedDraggablePlayer({
         />
       )}
 
+      {/* Lock badge */}
+      {player.locked && (
+        <text
+          x={15}
+          y={22}
+          fontSize={10}
+          textAnchor="middle"
+          data-testid={`player-locked-${player.id}`}
+          style={{ pointerEvents: "none", userSelect: "none" }}
+        >
+          🔒
+        </text>
+      )}
+
       {/* Player ID text */}
       <text
         x={0}
@@ -606,7 +912,9 @@ export function EnhancedDraggablePlayer({
         {isDragDisabled
           ? formation === "rotational"
             ? ", Rotational positions cannot be moved"
-            : ", Read-only mode"
+            : isReadOnly
+              ? ", Read-only mode"
+              : ", Locked"
           : ", Interactive"}
         {dragState.isDragging
           ? dragState.isValidPosition
@@ -703,14 +1011,27 @@ export function EnhancedDraggablePlayer({
         <g style={{ pointerEvents: "none" }}>
           <rect
             x={-45}
-            y={-45}
+            y={-55}
             width={90}
-            height={isDragDisabled ? 30 : 20}
+            height={isDragDisabled ? 40 : 30}
             rx={4}
             fill="rgba(0, 0, 0, 0.8)"
             stroke="rgba(255, 255, 255, 0.2)"
             strokeWidth={1}
           />
+          <text
+            x={0}
+            y={isDragDisabled ? -48 : -44}
+            fontSize={9}
+            textAnchor="middle"
+            fill="white"
+            style={{
+              fontWeight: "bold",
+            }}
+          >
+            {player.number !== undefined && `#${player.number} `}
+            {player.name}
+          </text>
           <text
             x={0}
             y={isDragDisabled ? -38 : -32}
@@ -734,7 +1055,9 @@ export function EnhancedDraggablePlayer({
                 fontWeight: "500",
               }}
             >
-              {formation === "rotational" ? "(Read-only)" : "(Read-only)"}
+              {formation !== "rotational" && !isReadOnly
+                ? "(Locked)"
+                : "(Read-only)"}
             </text>
           )}
         </g>
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useCallback, useRef, useState } from "react";
+import { OpponentLayerProps } from "./types";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "./courtCoordinates";
+import { mirrorCourtPoint } from "./utils/fullCourt";
+
+const MARKER_RADIUS = 16;
+
+/**
+ * OpponentLayer component - Opponent markers on the far half of the court
+ *
+ * Positions are stored from the opponent's side of the net and mirrored for
+ * display, so the layer lines up with a CourtVisualization drawn with
+ * side="opponent". Markers can be dragged unless the layer is read-only.
+ */
+export const OpponentLayer: React.FC<OpponentLayerProps> = ({
+  markers,
+  positions,
+  serverId = null,
+  readOnly,
+  onMarkerMove,
+  className = "",
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const isEditable = !readOnly && !!onMarkerMove;
+
+  // Convert a pointer position to the opponent's court coordinates
+  const toOpponentPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    const point =
+      !rect || rect.width === 0 || rect.height === 0
+        ? { x: clientX, y: clientY }
+        : {
+            x: ((clientX - rect.left) / rect.width) * BASE_COURT_WIDTH,
+            y: ((clientY - rect.top) / rect.height) * BASE_COURT_HEIGHT,
+          };
+    const mirrored = mirrorCourtPoint(point);
+
+    return {
+      x: Math.max(0, Math.min(BASE_COURT_WIDTH, mirrored.x)),
+      y: Math.max(0, Math.min(BASE_COURT_HEIGHT, mirrored.y)),
+    };
+  }, []);
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent) => {
+      if (!draggedId || !onMarkerMove) return;
+
+      const point = toOpponentPoint(event.clientX, event.clientY);
+      onMarkerMove(draggedId, {
+        ...point,
+        isCustom: true,
+        lastModified: new Date(),
+      });
+    },
+    [draggedId, onMarkerMove, toOpponentPoint]
+  );
+
+  const handlePointerUp = useCallback(() => {
+    setDraggedId(null);
+  }, []);
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${BASE_COURT_WIDTH} ${BASE_COURT_HEIGHT}`}
+      width="100%"
+      height="100%"
+      className={`opponent-layer pointer-events-none ${className}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      data-testid="opponent-layer"
+    >
+      {markers.map((marker) => {
+        const position = positions[marker.id];
+        if (!position) return null;
+
+        const { x, y } = mirrorCourtPoint(position);
+        const isServer = marker.id === serverId;
+
+        return (
+          <g
+            key={marker.id}
+            transform={`translate(${x}, ${y})`}
+            data-testid={`opponent-marker-${marker.id}`}
+            aria-label={`Opponent ${marker.label}${isServer ? " (serving)" : ""}`}
+            onPointerDown={(event) => {
+              if (!isEditable) return;
+              event.stopPropagation();
+              (event.target as Element).setPointerCapture?.(event.pointerId);
+              setDraggedId(marker.id);
+            }}
+            style={
+              isEditable ? { cursor: "move", pointerEvents: "auto" } : undefined
+            }
+          >
+            <circle
+              r={MARKER_RADIUS}
+              fill="#dc2626"
+              fillOpacity={draggedId === marker.id ? 0.7 : 0.9}
+              stroke={isServer ? "#fbbf24" : "#7f1d1d"}
+              strokeWidth={isServer ? 4 : 2}
+            />
+            <text
+              y={4}
+              fontSize={11}
+              fontWeight="bold"
+              textAnchor="middle"
+              fill="#ffffff"
+              style={{ pointerEvents: "none" }}
+            >
+              {marker.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default OpponentLayer;
@@ -1,15 +1,33 @@
 /**
- * PersistenceManager - Handles URL state and localStorage persistence for VolleyballCourt component
+ * PersistenceManager - Handles URL state and localStorage persistence for VolleyballCourt component,
+ * optionally synced to a remote backend through a PersistenceAdapter
  */
 
 import { URLStateManager } from "./utils/URLStateManager";
 import { LocalStorageManager } from "./utils/storage/LocalStorageManager";
+import { isValidPlaySequence } from "./utils/playSequence";
+import { setFormationAnnotations } from "./utils/courtAnnotations";
+import {
+  PersistenceAdapter,
+  PersistenceRecordSummary,
+  PersistenceWriteResult,
+  getPersistenceRecordId,
+} from "./utils/storage/PersistenceAdapter";
+import {
+  RemoteSyncConflict,
+  RemoteSyncQueue,
+  RemoteSyncState,
+} from "./utils/storage/RemoteSyncQueue";
+import type { CourtAnnotation } from "./types/positioning";
 import {
   SystemType,
   FormationType,
   PlayerPosition,
   CustomPositionsState,
+  PlaySequence,
+  CourtHistoryState,
 } from "./types";
+import type { UndoRedoSnapshot } from "./hooks/useUndoRedo";
 import {
   VolleyballCourtConfig,
   PositionData,
@@ -22,6 +40,7 @@ export interface PersistenceState {
   rotation: number;
   formation: FormationType;
   positions: Record<string, PlayerPosition>;
+  annotations?: CourtAnnotation[];
   config?: Partial<VolleyballCourtConfig>;
 }
 
@@ -30,12 +49,26 @@ export interface PersistenceOptions {
   enableLocalStorage: boolean;
   autoSave: boolean;
   debounceDelay: number;
+
+  // Remote sync, chained after localStorage
+  remoteAdapter?: PersistenceAdapter;
+  retryDelay: number; // First retry in ms, doubled after every failure
+  maxRetryDelay: number;
+  onSyncStatusChange?: (state: RemoteSyncState) => void;
+  onSyncConflict?: (conflict: RemoteSyncConflict) => void;
 }
 
+const SEQUENCES_STORAGE_KEY = "volleyball-play-sequences";
+const SEQUENCES_STORAGE_VERSION = "1.0.0";
+const HISTORY_STORAGE_KEY = "volleyball-undo-history";
+const HISTORY_STORAGE_VERSION = "1.0.0";
+const SYNC_QUEUE_STORAGE_KEY = "volleyball-sync-queue";
+
 export class VolleyballCourtPersistenceManager {
   private localStorageManager: LocalStorageManager;
   private options: PersistenceOptions;
   private saveTimeout: NodeJS.Timeout | null = null;
+  private remoteSync: RemoteSyncQueue | null = null;
 
   constructor(options: Partial<PersistenceOptions> = {}) {
     this.localStorageManager = new LocalStorageManager();
@@ -44,14 +77,20 @@ export class VolleyballCourtPersistenceManager {
       enableLocalStorage: true,
       autoSave: true,
       debounceDelay: 500,
+      retryDelay: 1000,
+      maxRetryDelay: 30000,
       ...options,
     };
+    this.createRemoteSync();
   }
 
   /**
-   * Initialize persistence - load from URL or localStorage
+   * Initialize persistence - load from URL or localStorage, then the remote
+   * backend's copy of the initial formation
    */
-  public async initialize(): Promise<PersistenceState | null> {
+  public async initialize(
+    initialState?: Pick<PersistenceState, "system" | "rotation" | "formation">
+  ): Promise<PersistenceState | null> {
     try {
       // First try to load from URL
       const urlData = this.loadFromURL();
@@ -60,11 +99,21 @@ export class VolleyballCourtPersistenceManager {
       }
 
       // Fallback to localStorage
-      if (this.options.enableLocalStorage) {
-        return this.loadFromLocalStorage();
+      const localData = this.options.enableLocalStorage
+        ? this.loadFromLocalStorage()
+        : null;
+      if (localData) {
+        // Send saves queued while offline on a previous visit
+        void this.remoteSync?.flush();
+        return localData;
       }
 
-      return null;
+      // Then the remote backend
+      return await this.loadFromRemote(
+        initialState?.system,
+        initialState?.rotation,
+        initialState?.formation
+      );
     } catch (error) {
       console.error("Failed to initialize persistence:", error);
       return null;
@@ -97,12 +146,20 @@ export class VolleyballCourtPersistenceManager {
         currentRotationPositions.serveReceive ||
         currentRotationPositions.rotational ||
         {};
+      const annotations = currentRotationPositions.annotations;
 
       return {
         system: urlData.system,
         rotation: urlData.rotation,
         formation: "base", // Default formation from URL
         positions: formationPositions,
+        annotations:
+          annotations?.base ||
+          annotations?.serveReceive ||
+          annotations?.rotational,
+        config: urlData.customRules?.length
+          ? { validation: { customRules: urlData.customRules } }
+          : undefined,
       };
     } catch (error) {
       console.error("Failed to load from URL:", error);
@@ -139,6 +196,7 @@ export class VolleyballCourtPersistenceManager {
         rotation,
         formation,
         positions: formationPositions,
+        annotations: rotationPositions?.annotations?.[formation],
       };
     } catch (error) {
       console.error("Failed to load from localStorage:", error);
@@ -188,16 +246,13 @@ export class VolleyballCourtPersistenceManager {
   ): ShareData {
     try {
       // Convert current state to CustomPositionsState format
-      const customPositions: CustomPositionsState = {
-        [state.rotation]: {
-          [state.formation]: state.positions,
-        },
-      };
+      const customPositions = this.toCustomPositions(state);
 
       const url = URLStateManager.generateShareableURL(
         state.system,
         state.rotation,
-        customPositions
+        customPositions,
+        config?.validation?.customRules
       );
 
       return {
@@ -265,17 +320,14 @@ export class VolleyballCourtPersistenceManager {
     }
 
     try {
-      const customPositions: CustomPositionsState = {
-        [state.rotation]: {
-          [state.formation]: state.positions,
-        },
-      };
+      const customPositions = this.toCustomPositions(state);
 
       URLStateManager.updateBrowserURL(
         state.system,
         state.rotation,
         customPositions,
-        replace
+        replace,
+        state.config?.validation?.customRules
       );
     } catch (error) {
       console.error("Failed to update URL:", error);
@@ -303,6 +355,128 @@ export class VolleyballCourtPersistenceManager {
     }
   }
 
+  /**
+   * Save play sequences to localStorage
+   */
+  public saveSequences(sequences: PlaySequence[]): void {
+    if (!this.options.enableLocalStorage || typeof window === "undefined") {
+      return;
+    }
+
+    try {
+      localStorage.setItem(
+        SEQUENCES_STORAGE_KEY,
+        JSON.stringify({
+          version: SEQUENCES_STORAGE_VERSION,
+          sequences,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to save play sequences:", error);
+    }
+  }
+
+  /**
+   * Load play sequences from localStorage
+   */
+  public loadSequences(): PlaySequence[] {
+    if (!this.options.enableLocalStorage || typeof window === "undefined") {
+      return [];
+    }
+
+    try {
+      const stored = localStorage.getItem(SEQUENCES_STORAGE_KEY);
+      if (!stored) {
+        return [];
+      }
+
+      const parsed = JSON.parse(stored);
+      if (!parsed || !Array.isArray(parsed.sequences)) {
+        return [];
+      }
+
+      const sequences: PlaySequence[] = parsed.sequences.filter(
+        isValidPlaySequence
+      );
+
+      // Convert Date strings back to Date objects
+      sequences.forEach((sequence) =>
+        sequence.keyframes.forEach((keyframe) =>
+          Object.values(keyframe.positions).forEach((position) => {
+            if (typeof position.lastModified === "string") {
+              position.lastModified = new Date(position.lastModified);
+            }
+          })
+        )
+      );
+
+      return sequences;
+    } catch (error) {
+      console.error("Failed to load play sequences:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the undo history to localStorage
+   */
+  public saveHistory(snapshot: UndoRedoSnapshot<CourtHistoryState>): void {
+    if (!this.options.enableLocalStorage || typeof window === "undefined") {
+      return;
+    }
+
+    try {
+      localStorage.setItem(
+        HISTORY_STORAGE_KEY,
+        JSON.stringify({
+          version: HISTORY_STORAGE_VERSION,
+          history: snapshot,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to save undo history:", error);
+    }
+  }
+
+  /**
+   * Load the undo history from localStorage
+   */
+  public loadHistory(): UndoRedoSnapshot<CourtHistoryState> | null {
+    if (!this.options.enableLocalStorage || typeof window === "undefined") {
+      return null;
+    }
+
+    try {
+      const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+      if (!stored) {
+        return null;
+      }
+
+      const parsed = JSON.parse(stored);
+      if (!parsed?.history || !Array.isArray(parsed.history.nodes)) {
+        return null;
+      }
+
+      const history: UndoRedoSnapshot<CourtHistoryState> = parsed.history;
+
+      // Convert Date strings back to Date objects
+      history.nodes.forEach(({ action }) =>
+        [action.previousState, action.newState].forEach((historyState) =>
+          Object.values(historyState.positions).forEach((position) => {
+            if (typeof position.lastModified === "string") {
+              position.lastModified = new Date(position.lastModified);
+            }
+          })
+        )
+      );
+
+      return history;
+    } catch (error) {
+      console.error("Failed to load undo history:", error);
+      return null;
+    }
+  }
+
   /**
    * Check if localStorage has data
    */
@@ -310,10 +484,34 @@ export class VolleyballCourtPersistenceManager {
     return this.localStorageManager.hasStoredData();
   }
 
+  /**
+   * Convert state to CustomPositionsState format, including annotations
+   */
+  private toCustomPositions(state: PersistenceState): CustomPositionsState {
+    const customPositions = {
+      [state.rotation]: {
+        [state.formation]: state.positions,
+      },
+    } as CustomPositionsState;
+
+    if (state.annotations && state.annotations.length > 0) {
+      return setFormationAnnotations(
+        customPositions,
+        state.rotation,
+        state.formation,
+        state.annotations
+      );
+    }
+
+    return customPositions;
+  }
+
   /**
    * Perform the actual save operation
    */
   private performSave(state: PersistenceState): void {
+    this.remoteSync?.enqueue(state);
+
     if (!this.options.enableLocalStorage) {
       return;
     }
@@ -340,6 +538,15 @@ export class VolleyballCourtPersistenceManager {
       currentStoredData[state.system][state.rotation][state.formation] =
         state.positions;
 
+      if (state.annotations) {
+        currentStoredData[state.system] = setFormationAnnotations(
+          currentStoredData[state.system],
+          state.rotation,
+          state.formation,
+          state.annotations
+        );
+      }
+
       // Save to localStorage
       this.localStorageManager.saveImmediate(currentStoredData);
     } catch (error) {
@@ -358,6 +565,115 @@ export class VolleyballCourtPersistenceManager {
    * Update persistence options
    */
   public updateOptions(options: Partial<PersistenceOptions>): void {
+    const previousAdapter = this.options.remoteAdapter;
     this.options = { ...this.options, ...options };
+
+    // Also recreates remote sync after dispose, e.g. on a remount
+    if (this.options.remoteAdapter !== previousAdapter || !this.remoteSync) {
+      this.createRemoteSync();
+    }
+  }
+
+  /**
+   * Load a formation from the remote backend
+   */
+  public async loadFromRemote(
+    system: SystemType = "5-1",
+    rotation: number = 0,
+    formation: FormationType = "base"
+  ): Promise<PersistenceState | null> {
+    if (!this.remoteSync) {
+      return null;
+    }
+
+    try {
+      const record = await this.remoteSync.load(
+        getPersistenceRecordId({ system, rotation, formation })
+      );
+      return record?.state ?? null;
+    } catch (error) {
+      console.error("Failed to load from remote backend:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Current remote sync status, null without a remote adapter
+   */
+  public getSyncState(): RemoteSyncState | null {
+    return this.remoteSync?.getState() ?? null;
+  }
+
+  /**
+   * Saves the remote backend rejected because its revision moved on
+   */
+  public getSyncConflicts(): RemoteSyncConflict[] {
+    return this.remoteSync?.getConflicts() ?? [];
+  }
+
+  /**
+   * Send queued saves now instead of waiting for the next retry
+   */
+  public async syncNow(): Promise<void> {
+    await this.remoteSync?.flush();
+  }
+
+  /**
+   * Resolve a sync conflict by keeping the local or the remote change.
+   * Returns the remote state to apply when keeping the remote change.
+   */
+  public resolveSyncConflict(
+    id: string,
+    resolution: "local" | "remote"
+  ): PersistenceState | null {
+    if (!this.remoteSync) {
+      throw new Error("Remote sync is not enabled");
+    }
+    return this.remoteSync.resolveConflict(id, resolution);
+  }
+
+  /**
+   * List formations saved on the remote backend
+   */
+  public async listRemote(): Promise<PersistenceRecordSummary[]> {
+    if (!this.remoteSync) {
+      throw new Error("Remote sync is not enabled");
+    }
+    return this.remoteSync.list();
+  }
+
+  /**
+   * Delete a formation from the remote backend
+   */
+  public async deleteRemote(id: string): Promise<PersistenceWriteResult> {
+    if (!this.remoteSync) {
+      throw new Error("Remote sync is not enabled");
+    }
+    return this.remoteSync.delete(id);
+  }
+
+  /**
+   * Stop remote sync retries and listeners
+   */
+  public dispose(): void {
+    this.remoteSync?.dispose();
+    this.remoteSync = null;
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+  }
+
+  private createRemoteSync(): void {
+    this.remoteSync?.dispose();
+    this.remoteSync = this.options.remoteAdapter
+      ? new RemoteSyncQueue(this.options.remoteAdapter, {
+          retryDelay: this.options.retryDelay,
+          maxRetryDelay: this.options.maxRetryDelay,
+          storageKey: SYNC_QUEUE_STORAGE_KEY,
+          onStatusChange: (state) => this.options.onSyncStatusChange?.(state),
+          onConflict: (conflict) => this.options.onSyncConflict?.(conflict),
+        })
+      : null;
   }
 }
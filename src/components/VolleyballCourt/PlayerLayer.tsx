@@ -4,12 +4,19 @@ import { motion, AnimatePresence } from "framer-motion";
 import { EnhancedDraggablePlayer } from "./EnhancedDraggablePlayer";
 import { DragGuidelines } from "./DragGuidelines";
 import { PlayerLayerProps } from "./types";
+import { PLAYER_RADIUS } from "./types/positioning";
 import {
   VolleyballCourtRulesIntegration,
   type PositionValidationContext,
 } from "./VolleyballCourtRulesIntegration";
 import { RotationSlot } from "./volleyball-rules-engine/types/PlayerState";
 import { useEnhancedPositionManager } from "./hooks/useEnhancedPositionManager";
+import { formationUsesOverlapRules } from "./utils/validationPolicies";
+import {
+  getPlayersInRect,
+  getSelectionRect,
+  translatePlayers,
+} from "./utils/groupPositioning";
 
 /**
  * PlayerLayer component manages all player rendering and interactions
@@ -26,6 +33,20 @@ export function PlayerLayer({
   courtDimensions,
   system = "5-1",
   rotation = 0,
+  ruleSet,
+  serverSlot = 1,
+  overlapRules = formationUsesOverlapRules(formation),
+  positionManager: sharedPositionManager,
+  collaborators = [],
+  multiSelectEnabled = false,
+  selectedPlayers = [],
+  onSelectionChange,
+  onGroupPositionChange,
+  onPlayerContextMenu,
+  onPlayerDoubleClick,
+  keyboardNavigation = false,
+  customAriaLabels,
+  onPlayerKeyboardMove,
   onDragStart,
   onDragEnd,
   onPositionChange,
@@ -45,8 +66,21 @@ export function PlayerLayer({
     [playerId: string]: string[];
   }>({});
 
-  // Create position manager instance for validation
-  const positionManager = useEnhancedPositionManager();
+  // Offset of the selection while one of its players is dragged
+  const [groupDrag, setGroupDrag] = useState<{
+    playerId: string;
+    offset: { x: number; y: number };
+  } | null>(null);
+
+  // Marquee selection corners in court coordinates
+  const [marquee, setMarquee] = useState<{
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+  } | null>(null);
+
+  // Create position manager instance for validation, unless one is shared
+  const ownPositionManager = useEnhancedPositionManager();
+  const positionManager = sharedPositionManager ?? ownPositionManager;
 
   // Create rules integration instance
   const rulesIntegration = useMemo(() => {
@@ -55,14 +89,15 @@ export function PlayerLayer({
       enableRealTimeValidation: true,
       enableConstraintBoundaries: true,
       enablePositionSnapping: true,
-      serverSlot: 1, // Default server slot
+      serverSlot,
+      ruleSet,
     });
-  }, [courtDimensions]);
+  }, [courtDimensions, ruleSet, serverSlot]);
 
   // Calculate visual guidelines for drag operations
   const calculateDragGuidelines = useCallback(
     (draggedPlayerId: string) => {
-      if (!draggedPlayerId || formation === "rotational") {
+      if (!draggedPlayerId || !overlapRules) {
         return { horizontalLines: [], verticalLines: [] };
       }
 
@@ -77,7 +112,7 @@ export function PlayerLayer({
         }
 
         const slot = parseInt(draggedSlot) as RotationSlot;
-        const isServer = slot === 1; // Default server slot
+        const isServer = slot === serverSlot;
 
         // Create validation context
         const context: PositionValidationContext = {
@@ -133,8 +168,10 @@ export function PlayerLayer({
       positions,
       rotationMap,
       formation,
+      overlapRules,
       courtDimensions,
       system,
+      serverSlot,
       rulesIntegration,
     ]
   );
@@ -159,16 +196,19 @@ export function PlayerLayer({
         if (!slotEntry) return;
 
         const slot = parseInt(slotEntry[0]) as RotationSlot;
-        const isServer = slot === 1; // Default server slot
-
-        // Get drag constraints using rules integration
-        const constraints = rulesIntegration.getDragConstraints(
-          playerId,
-          slot,
-          positions,
-          rotationMap,
-          isServer
-        );
+        const isServer = slot === serverSlot;
+
+        // Get drag constraints using rules integration, where the overlap
+        // rules apply
+        const constraints = overlapRules
+          ? rulesIntegration.getDragConstraints(
+              playerId,
+              slot,
+              positions,
+              rotationMap,
+              isServer
+            )
+          : null;
 
         // Store constraints for this player
         if (constraints) {
@@ -184,29 +224,16 @@ export function PlayerLayer({
         onDragStart(playerId);
       }
     },
-    [readOnly, formation, rotationMap, positions, rulesIntegration, onDragStart]
-  );
-
-  // Handle drag end with validation
-  const handleDragEnd = useCallback(
-    (playerId: string, success: boolean) => {
-      // Clear constraints for this player
-      setDragConstraints((prev) => {
-        const updated = { ...prev };
-        delete updated[playerId];
-        return updated;
-      });
-
-      // Clear violations for this player
-      setViolationState((prev) => {
-        const updated = { ...prev };
-        delete updated[playerId];
-        return updated;
-      });
-
-      onDragEnd(playerId, success);
-    },
-    [onDragEnd]
+    [
+      readOnly,
+      formation,
+      overlapRules,
+      rotationMap,
+      positions,
+      serverSlot,
+      rulesIntegration,
+      onDragStart,
+    ]
   );
 
   // Handle position changes with validation
@@ -220,7 +247,7 @@ export function PlayerLayer({
         if (!slotEntry) return;
 
         const slot = parseInt(slotEntry[0]) as RotationSlot;
-        const isServer = slot === 1; // Default server slot
+        const isServer = slot === serverSlot;
 
         // Create updated positions
         const updatedPositions = {
@@ -250,12 +277,13 @@ export function PlayerLayer({
           isServer,
         };
 
-        // Validate using rules integration
-        const validationResult =
-          rulesIntegration.validatePlayerPosition(context);
+        // Validate using rules integration, where the overlap rules apply
+        const validationResult = overlapRules
+          ? rulesIntegration.validatePlayerPosition(context)
+          : null;
 
         // Update violation state
-        if (!validationResult.isValid) {
+        if (validationResult && !validationResult.isValid) {
           const playerViolations = validationResult.violations.map(
             (v) => v.message
           );
@@ -292,11 +320,162 @@ export function PlayerLayer({
       rotationMap,
       system,
       formation,
+      overlapRules,
+      serverSlot,
       rulesIntegration,
       onPositionChange,
     ]
   );
 
+  // Handle drag end with validation
+  const handleDragEnd = useCallback(
+    (
+      playerId: string,
+      success: boolean,
+      position?: { x: number; y: number }
+    ) => {
+      // Clear constraints for this player
+      setDragConstraints((prev) => {
+        const updated = { ...prev };
+        delete updated[playerId];
+        return updated;
+      });
+
+      // Clear violations for this player
+      setViolationState((prev) => {
+        const updated = { ...prev };
+        delete updated[playerId];
+        return updated;
+      });
+
+      // A completed drag is a position change, so it reaches onPositionChange
+      if (success && position) {
+        handlePositionChange(playerId, position);
+      }
+
+      onDragEnd(playerId, success);
+    },
+    [onDragEnd, handlePositionChange]
+  );
+
+  // Locked players can't move, so they stay out of the selection
+  const lockedPlayers = useMemo(
+    () =>
+      new Set(
+        players.filter((player) => player.locked).map((player) => player.id)
+      ),
+    [players]
+  );
+
+  // Selected players that are on court; two or more move as a group
+  const selection = useMemo(
+    () =>
+      multiSelectEnabled
+        ? selectedPlayers.filter(
+            (playerId) => positions[playerId] && !lockedPlayers.has(playerId)
+          )
+        : [],
+    [multiSelectEnabled, selectedPlayers, positions, lockedPlayers]
+  );
+  const isGroupMove = selection.length > 1;
+
+  // Shift-click adds or removes a player, a plain click selects only them
+  const handleSelect = useCallback(
+    (playerId: string, isAdditive: boolean) => {
+      if (lockedPlayers.has(playerId)) {
+        if (!isAdditive) onSelectionChange?.([]);
+      } else if (!isAdditive) {
+        onSelectionChange?.([playerId]);
+      } else if (selection.includes(playerId)) {
+        onSelectionChange?.(selection.filter((id) => id !== playerId));
+      } else {
+        onSelectionChange?.([...selection, playerId]);
+      }
+    },
+    [selection, lockedPlayers, onSelectionChange]
+  );
+
+  const handleGroupDrag = useCallback(
+    (playerId: string, offset: { x: number; y: number }) => {
+      setGroupDrag({ playerId, offset });
+    },
+    []
+  );
+
+  // Moves the whole selection by the dropped offset, snapped or blocked as a
+  // unit by the rules
+  const handleGroupDragEnd = useCallback(
+    (playerId: string, offset: { x: number; y: number }) => {
+      setGroupDrag(null);
+
+      const result = rulesIntegration.constrainGroupMove(
+        selection,
+        offset,
+        positions,
+        rotationMap,
+        overlapRules
+      );
+
+      if (!result.isBlocked) {
+        const moved = translatePlayers(positions, selection, result.delta);
+        Object.entries(moved).forEach(([id, position]) => {
+          positionManager.setPosition(
+            system,
+            rotation,
+            formation,
+            id,
+            position
+          );
+        });
+        onGroupPositionChange?.(moved);
+      }
+
+      onDragEnd(playerId, !result.isBlocked);
+    },
+    [
+      rulesIntegration,
+      selection,
+      positions,
+      rotationMap,
+      overlapRules,
+      positionManager,
+      system,
+      rotation,
+      formation,
+      onGroupPositionChange,
+      onDragEnd,
+    ]
+  );
+
+  // Court coordinates of a pointer event, whatever the CSS scale
+  const getCourtPoint = (event: React.PointerEvent<SVGRectElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = rect.width ? courtDimensions.width / rect.width : 1;
+    return {
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale,
+    };
+  };
+
+  const handleMarqueeEnd = (event: React.PointerEvent<SVGRectElement>) => {
+    if (!marquee) return;
+    setMarquee(null);
+
+    const rect = getSelectionRect(marquee.start, getCourtPoint(event));
+    const inRect = getPlayersInRect(positions, rect).filter(
+      (playerId) =>
+        players.some((player) => player.id === playerId) &&
+        !lockedPlayers.has(playerId)
+    );
+
+    // Shift adds to the selection; a plain click on the court clears it
+    onSelectionChange?.(
+      event.shiftKey
+        ? [...selection, ...inRect.filter((id) => !selection.includes(id))]
+        : inRect
+    );
+  };
+
   // Handle volleyball rule violations
   const handleVolleyballRuleViolation = useCallback(
     (playerId: string, violations: string[]) => {
@@ -357,12 +536,56 @@ export function PlayerLayer({
         )}
       </AnimatePresence>
 
+      {/* Marquee selection area, under the players */}
+      {multiSelectEnabled && !readOnly && (
+        <g className="selection-layer">
+          <rect
+            x={0}
+            y={0}
+            width={courtDimensions.width}
+            height={courtDimensions.height}
+            fill="transparent"
+            style={{ pointerEvents: "auto" }}
+            onPointerDown={(event) => {
+              // Keep the marquee when the pointer passes over players
+              event.currentTarget.setPointerCapture?.(event.pointerId);
+              const point = getCourtPoint(event);
+              setMarquee({ start: point, end: point });
+            }}
+            onPointerMove={(event) => {
+              if (!marquee) return;
+              const end = getCourtPoint(event);
+              setMarquee((prev) => (prev ? { ...prev, end } : prev));
+            }}
+            onPointerUp={handleMarqueeEnd}
+            onPointerCancel={() => setMarquee(null)}
+            data-testid="selection-area"
+          />
+          {marquee && (
+            <rect
+              {...getSelectionRect(marquee.start, marquee.end)}
+              fill="rgba(245, 158, 11, 0.1)"
+              stroke="#f59e0b"
+              strokeWidth={1}
+              strokeDasharray="4 2"
+              style={{ pointerEvents: "none" }}
+              data-testid="selection-marquee"
+            />
+          )}
+        </g>
+      )}
+
       {/* Players Layer */}
       <g className="players-layer">
         {players.map((player) => {
+          // Players without a position are off court (e.g. the libero or
+          // the player the libero is currently replacing)
           const position = positions[player.id];
           if (!position) return null;
 
+          const isSelected = selection.includes(player.id);
+          const isInGroup = isGroupMove && isSelected;
+
           return (
             <EnhancedDraggablePlayer
               key={player.id}
@@ -377,17 +600,88 @@ export function PlayerLayer({
                 courtHeight: courtDimensions.height,
               }}
               rotationMap={rotationMap}
+              ruleSet={ruleSet}
+              serverSlot={serverSlot}
               isReadOnly={readOnly}
               onDragStart={handleDragStart}
               onDragEnd={handleDragEnd}
               onResetPosition={handleResetPosition}
               onVolleyballRuleViolation={handleVolleyballRuleViolationFromChild}
-              enableVolleyballRules={true}
+              enableVolleyballRules={overlapRules}
+              isSelected={isSelected}
+              groupOffset={
+                isInGroup && groupDrag && groupDrag.playerId !== player.id
+                  ? groupDrag.offset
+                  : undefined
+              }
+              onSelect={multiSelectEnabled ? handleSelect : undefined}
+              onGroupDrag={isInGroup ? handleGroupDrag : undefined}
+              onGroupDragEnd={isInGroup ? handleGroupDragEnd : undefined}
+              onContextMenu={onPlayerContextMenu}
+              onDoubleClick={onPlayerDoubleClick}
+              keyboardEnabled={keyboardNavigation}
+              ariaLabel={customAriaLabels?.[player.id]}
+              onKeyboardMove={onPlayerKeyboardMove}
             />
           );
         })}
       </g>
 
+      {/* Collaborators Layer - remote coaches' cursors and dragged players */}
+      {collaborators.length > 0 && (
+        <g className="collaborators-layer" style={{ pointerEvents: "none" }}>
+          {collaborators.map((collaborator) => {
+            const draggedPosition = collaborator.draggedPlayerId
+              ? positions[collaborator.draggedPlayerId]
+              : undefined;
+
+            return (
+              <g
+                key={collaborator.id}
+                data-testid={`collaborator-${collaborator.id}`}
+              >
+                {draggedPosition && (
+                  <circle
+                    cx={draggedPosition.x}
+                    cy={draggedPosition.y}
+                    r={PLAYER_RADIUS + 6}
+                    fill="none"
+                    stroke={collaborator.color}
+                    strokeWidth={3}
+                    strokeDasharray="6 3"
+                    data-testid={`collaborator-drag-${collaborator.id}`}
+                  />
+                )}
+                {collaborator.cursor && (
+                  <g
+                    transform={`translate(${collaborator.cursor.x}, ${collaborator.cursor.y})`}
+                    data-testid={`collaborator-cursor-${collaborator.id}`}
+                  >
+                    <path
+                      d="M0,0 L0,16 L4.5,12 L11,12 Z"
+                      fill={collaborator.color}
+                      stroke="white"
+                      strokeWidth={1}
+                    />
+                    <rect
+                      x={10}
+                      y={14}
+                      width={collaborator.name.length * 6 + 8}
+                      height={14}
+                      rx={3}
+                      fill={collaborator.color}
+                    />
+                    <text x={14} y={24} fontSize={10} fill="white">
+                      {collaborator.name}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      )}
+
       {/* Violation Indicators Layer */}
       <g className="violation-indicators">
         {Object.entries(violationState).map(([playerId, violations]) => {
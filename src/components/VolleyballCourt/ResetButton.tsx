@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { SystemType, FormationType } from "./types";
 import { useNotifications } from "./NotificationSystem";
+import { useLocalization } from "./hooks/useLocalization";
 
 export interface ResetOption {
   id: string;
@@ -83,6 +84,10 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const { addNotification } = useNotifications();
+  const { t } = useLocalization();
+
+  const getRestoredMessage = (count: number) =>
+    t(count === 1 ? "reset.restoredOne" : "reset.restoredMany", { count });
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -175,8 +180,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!hasCustomizations.currentRotation) {
       addNotification({
         type: "info",
-        title: "No Changes to Reset",
-        message: `Rotation ${rotation + 1} is already using default positions.`,
+        title: t("reset.noChanges"),
+        message: t("reset.rotationUnchanged", { rotation: rotation + 1 }),
         duration: 3000,
       });
       return;
@@ -188,28 +193,25 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
       if (result.success) {
         addNotification({
           type: "success",
-          title: "Rotation Reset",
-          message: `Successfully reset rotation ${
-            rotation + 1
-          } to default positions. ${result.affectedPositions} position${
-            result.affectedPositions === 1 ? "" : "s"
-          } restored.`,
+          title: t("reset.rotationDone"),
+          message: `${t("reset.rotationSuccess", {
+            rotation: rotation + 1,
+          })} ${getRestoredMessage(result.affectedPositions)}`,
           duration: 4000,
         });
       } else {
         addNotification({
           type: "error",
-          title: "Reset Failed",
-          message:
-            result.error || "Failed to reset rotation. Please try again.",
+          title: t("reset.failed"),
+          message: result.error || t("reset.rotationFailed"),
           duration: 5000,
         });
       }
     } catch (error) {
       addNotification({
         type: "error",
-        title: "Reset Failed",
-        message: "Failed to reset rotation. Please try again.",
+        title: t("reset.failed"),
+        message: t("reset.rotationFailed"),
         duration: 5000,
       });
     }
@@ -219,43 +221,41 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!hasCustomizations.allRotations) {
       addNotification({
         type: "info",
-        title: "No Changes to Reset",
-        message: "All rotations are already using default positions.",
+        title: t("reset.noChanges"),
+        message: t("reset.allRotationsUnchanged"),
         duration: 3000,
       });
       return;
     }
 
     showConfirmationDialog(
-      "Reset All Rotations",
-      `This will reset all 6 rotations in the ${formation} formation to their default positions. This action cannot be undone automatically.`,
+      t("reset.allRotations"),
+      t("reset.allRotationsConfirm", { formation }),
       async () => {
         try {
           const result = await onResetAllRotations();
           if (result.success) {
             addNotification({
               type: "success",
-              title: "All Rotations Reset",
-              message: `Successfully reset all rotations in ${formation} formation to default positions. ${
-                result.affectedPositions
-              } position${result.affectedPositions === 1 ? "" : "s"} restored.`,
+              title: t("reset.allRotationsDone"),
+              message: `${t("reset.allRotationsSuccess", {
+                formation,
+              })} ${getRestoredMessage(result.affectedPositions)}`,
               duration: 4000,
             });
           } else {
             addNotification({
               type: "error",
-              title: "Reset Failed",
-              message:
-                result.error ||
-                "Failed to reset all rotations. Please try again.",
+              title: t("reset.failed"),
+              message: result.error || t("reset.allRotationsFailed"),
               duration: 5000,
             });
           }
         } catch (error) {
           addNotification({
             type: "error",
-            title: "Reset Failed",
-            message: "Failed to reset all rotations. Please try again.",
+            title: t("reset.failed"),
+            message: t("reset.allRotationsFailed"),
             duration: 5000,
           });
         }
@@ -268,42 +268,41 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!hasCustomizations.currentFormation) {
       addNotification({
         type: "info",
-        title: "No Changes to Reset",
-        message: `The ${formation} formation is already using default positions.`,
+        title: t("reset.noChanges"),
+        message: t("reset.formationUnchanged", { formation }),
         duration: 3000,
       });
       return;
     }
 
     showConfirmationDialog(
-      "Reset Formation",
-      `This will reset all positions in the ${formation} formation across all rotations to their defaults.`,
+      t("reset.formation"),
+      t("reset.formationConfirm", { formation }),
       async () => {
         try {
           const result = await onResetSelectedFormation();
           if (result.success) {
             addNotification({
               type: "success",
-              title: "Formation Reset",
-              message: `Successfully reset ${formation} formation to default positions. ${
-                result.affectedPositions
-              } position${result.affectedPositions === 1 ? "" : "s"} restored.`,
+              title: t("reset.formationDone"),
+              message: `${t("reset.formationSuccess", {
+                formation,
+              })} ${getRestoredMessage(result.affectedPositions)}`,
               duration: 4000,
             });
           } else {
             addNotification({
               type: "error",
-              title: "Reset Failed",
-              message:
-                result.error || "Failed to reset formation. Please try again.",
+              title: t("reset.failed"),
+              message: result.error || t("reset.formationFailed"),
               duration: 5000,
             });
           }
         } catch (error) {
           addNotification({
             type: "error",
-            title: "Reset Failed",
-            message: "Failed to reset formation. Please try again.",
+            title: t("reset.failed"),
+            message: t("reset.formationFailed"),
             duration: 5000,
           });
         }
@@ -316,42 +315,41 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!hasCustomizations.system) {
       addNotification({
         type: "info",
-        title: "No Changes to Reset",
-        message: `The ${system} system is already using default positions.`,
+        title: t("reset.noChanges"),
+        message: t("reset.systemUnchanged", { system }),
         duration: 3000,
       });
       return;
     }
 
     showConfirmationDialog(
-      "Reset Entire System",
-      `This will reset ALL customizations in the ${system} system across all formations and rotations. This is a destructive action that cannot be undone automatically.`,
+      t("reset.system"),
+      t("reset.systemConfirm", { system }),
       async () => {
         try {
           const result = await onResetSystem();
           if (result.success) {
             addNotification({
               type: "success",
-              title: "System Reset",
-              message: `Successfully reset entire ${system} system to default positions. ${
-                result.affectedPositions
-              } position${result.affectedPositions === 1 ? "" : "s"} restored.`,
+              title: t("reset.systemDone"),
+              message: `${t("reset.systemSuccess", {
+                system,
+              })} ${getRestoredMessage(result.affectedPositions)}`,
               duration: 4000,
             });
           } else {
             addNotification({
               type: "error",
-              title: "Reset Failed",
-              message:
-                result.error || "Failed to reset system. Please try again.",
+              title: t("reset.failed"),
+              message: result.error || t("reset.systemFailed"),
               duration: 5000,
             });
           }
         } catch (error) {
           addNotification({
             type: "error",
-            title: "Reset Failed",
-            message: "Failed to reset system. Please try again.",
+            title: t("reset.failed"),
+            message: t("reset.systemFailed"),
             duration: 5000,
           });
         }
@@ -388,8 +386,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!canUndo || !onUndo) {
       addNotification({
         type: "info",
-        title: "Undo Not Available",
-        message: "No actions to undo.",
+        title: t("reset.undoUnavailable"),
+        message: t("reset.undoNothing"),
         duration: 2000,
       });
       return;
@@ -400,23 +398,23 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
       if (success) {
         addNotification({
           type: "success",
-          title: "Action Undone",
-          message: "Successfully undid the last action.",
+          title: t("reset.undoDone"),
+          message: t("reset.undoSuccess"),
           duration: 3000,
         });
       } else {
         addNotification({
           type: "error",
-          title: "Undo Failed",
-          message: "Failed to undo the last action.",
+          title: t("reset.undoFailed"),
+          message: t("reset.undoFailedMessage"),
           duration: 4000,
         });
       }
     } catch (error) {
       addNotification({
         type: "error",
-        title: "Undo Error",
-        message: "An error occurred while undoing the action.",
+        title: t("reset.undoError"),
+        message: t("reset.undoErrorMessage"),
         duration: 4000,
       });
     }
@@ -426,8 +424,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     if (!canRedo || !onRedo) {
       addNotification({
         type: "info",
-        title: "Redo Not Available",
-        message: "No actions to redo.",
+        title: t("reset.redoUnavailable"),
+        message: t("reset.redoNothing"),
         duration: 2000,
       });
       return;
@@ -438,23 +436,23 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
       if (success) {
         addNotification({
           type: "success",
-          title: "Action Redone",
-          message: "Successfully redid the last action.",
+          title: t("reset.redoDone"),
+          message: t("reset.redoSuccess"),
           duration: 3000,
         });
       } else {
         addNotification({
           type: "error",
-          title: "Redo Failed",
-          message: "Failed to redo the last action.",
+          title: t("reset.redoFailed"),
+          message: t("reset.redoFailedMessage"),
           duration: 4000,
         });
       }
     } catch (error) {
       addNotification({
         type: "error",
-        title: "Redo Error",
-        message: "An error occurred while redoing the action.",
+        title: t("reset.redoError"),
+        message: t("reset.redoErrorMessage"),
         duration: 4000,
       });
     }
@@ -475,8 +473,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
       ? [
           {
             id: "undo",
-            label: "Undo Last Action",
-            description: "Undo the most recent reset operation",
+            label: t("reset.undo"),
+            description: t("reset.undoDescription"),
             shortcut: "Ctrl+Z",
             action: handleUndo,
             icon: (
@@ -501,8 +499,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
       ? [
           {
             id: "redo",
-            label: "Redo Last Action",
-            description: "Redo the most recently undone operation",
+            label: t("reset.redo"),
+            description: t("reset.redoDescription"),
             shortcut: "Ctrl+Y",
             action: handleRedo,
             icon: (
@@ -526,8 +524,10 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     // Reset options
     {
       id: "current-rotation",
-      label: "Reset Current Rotation",
-      description: `Reset rotation ${rotation + 1} only`,
+      label: t("reset.currentRotation"),
+      description: t("reset.currentRotationDescription", {
+        rotation: rotation + 1,
+      }),
       shortcut: "Ctrl+R",
       action: handleResetCurrentRotation,
       icon: (
@@ -548,8 +548,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     },
     {
       id: "all-rotations",
-      label: "Reset All Rotations",
-      description: `Reset all 6 rotations in ${formation}`,
+      label: t("reset.allRotations"),
+      description: t("reset.allRotationsDescription", { formation }),
       shortcut: "Ctrl+Shift+R",
       action: handleResetAllRotations,
       destructive: true,
@@ -573,8 +573,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     },
     {
       id: "current-formation",
-      label: "Reset Formation",
-      description: `Reset entire ${formation} formation`,
+      label: t("reset.formation"),
+      description: t("reset.formationDescription", { formation }),
       shortcut: "Ctrl+Alt+R",
       action: handleResetFormation,
       destructive: true,
@@ -597,8 +597,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
     },
     {
       id: "entire-system",
-      label: "Reset Entire System",
-      description: `Reset all customizations in ${system} system`,
+      label: t("reset.system"),
+      description: t("reset.systemDescription", { system }),
       action: handleResetSystem,
       destructive: true,
       requiresConfirmation: true,
@@ -659,8 +659,8 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
           `}
           title={
             !hasAnyAvailableActions
-              ? "No actions available"
-              : "Reset and undo/redo options"
+              ? t("reset.noActions")
+              : t("reset.buttonTitle")
           }
         >
           <svg
@@ -676,7 +676,7 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
               d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
             />
           </svg>
-          Reset
+          {t("reset.label")}
           <svg
             className={`w-4 h-4 transition-transform duration-200 ${
               isOpen ? "rotate-180" : ""
@@ -705,12 +705,12 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
             >
               <div className="p-2">
                 <div className="px-3 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide border-b border-gray-100 dark:border-gray-700 mb-1">
-                  Reset Options
+                  {t("reset.optionsHeading")}
                 </div>
 
                 {availableOptions.length === 0 ? (
                   <div className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400 text-center">
-                    No actions available
+                    {t("reset.noActions")}
                   </div>
                 ) : (
                   <div className="space-y-1">
@@ -777,7 +777,7 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
 
               <div className="px-3 py-2 bg-gray-50 dark:bg-gray-750 border-t border-gray-100 dark:border-gray-700">
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Use keyboard shortcuts for quick access
+                  {t("reset.shortcutsHint")}
                 </p>
               </div>
             </motion.div>
@@ -845,7 +845,7 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
                   onClick={cancelConfirmation}
                   className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors duration-150"
                 >
-                  Cancel
+                  {t("reset.cancel")}
                 </button>
                 <button
                   onClick={executeConfirmedAction}
@@ -855,7 +855,9 @@ export const ResetButton: React.FC<ResetButtonProps> = ({
                       : "bg-blue-600 hover:bg-blue-700 focus:ring-blue-500"
                   } focus:ring-2 focus:ring-opacity-50`}
                 >
-                  {confirmationData.destructive ? "Reset" : "Confirm"}
+                  {confirmationData.destructive
+                    ? t("reset.label")
+                    : t("reset.confirm")}
                 </button>
               </div>
             </motion.div>
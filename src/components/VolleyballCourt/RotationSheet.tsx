@@ -0,0 +1,432 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  RotationSheetProps,
+  BuiltInFormationType,
+  FormationType,
+  PlayerPosition,
+  PLAYER_RADIUS,
+} from "./types";
+import { CourtVisualization } from "./CourtVisualization";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "./courtCoordinates";
+import { getDefaultPositionsWithRotation } from "./utils/defaultPositions";
+import {
+  applyFormationDefaultPositions,
+  getBaseFormation,
+  getFormationDefinition,
+  isBuiltInFormation,
+} from "./utils/customFormations";
+import { formationUsesOverlapRules } from "./utils/validationPolicies";
+import {
+  getLiberoSwap,
+  applyLiberoToRotation,
+  applyLiberoToPositions,
+  isLiberoActive,
+  resolveLiberoConfig,
+} from "./utils/liberoSubstitution";
+import { VolleyballRulesEngine } from "./volleyball-rules-engine/VolleyballRulesEngine";
+import { StateConverter } from "./volleyball-rules-engine/utils/StateConverter";
+import type { Violation } from "./volleyball-rules-engine/types/ValidationResult";
+
+const FORMATION_LABELS: Record<BuiltInFormationType, string> = {
+  rotational: "Rotational",
+  serveReceive: "Serve/Receive",
+  base: "Base",
+};
+
+const DEFAULT_FORMATIONS: FormationType[] = [
+  "rotational",
+  "serveReceive",
+  "base",
+];
+
+interface SheetCell {
+  formation: FormationType;
+  positions: Record<string, PlayerPosition>;
+  violations: Violation[];
+  violatingPlayers: Set<string>;
+}
+
+/**
+ * RotationSheet component - Printable line-up card
+ *
+ * Lays out every rotation of a system in a grid with one court per
+ * formation, marking players involved in overlap violations so the sheet
+ * can be handed to assistants and players before a match.
+ */
+export const RotationSheet: React.FC<RotationSheetProps> = ({
+  system,
+  players,
+  rotations,
+  positionManager,
+  libero,
+  ruleSet,
+  formations = DEFAULT_FORMATIONS,
+  formationDefinitions,
+  validationPolicies,
+  cellDimensions = { width: 300, height: 180 },
+  theme = "light",
+  courtColor,
+  title,
+  showViolations = true,
+  showPrintButton = true,
+  className = "",
+}) => {
+  const resolvedLibero = useMemo(
+    () => resolveLiberoConfig(libero, ruleSet),
+    [libero, ruleSet]
+  );
+
+  const getFormationLabel = (formation: FormationType) =>
+    isBuiltInFormation(formation)
+      ? FORMATION_LABELS[formation]
+      : (getFormationDefinition(formationDefinitions, formation)?.name ??
+        formation);
+
+  // Positions and violations for every rotation × formation
+  const rows = useMemo(
+    () =>
+      rotations.map((rotationMap, rotation) => {
+        const swap = getLiberoSwap(rotationMap, resolvedLibero);
+        const activeRotationMap = applyLiberoToRotation(rotationMap, swap);
+        const roles = Object.fromEntries(
+          players.map((player) => [player.id, player.role])
+        );
+
+        const cells: SheetCell[] = formations.map((formation) => {
+          // Customized positions are keyed by player ID; anything else
+          // falls back to the defaults for this rotation
+          const stored = positionManager.getFormationPositions(
+            system,
+            rotation,
+            formation
+          );
+          const defaults = applyFormationDefaultPositions(
+            getDefaultPositionsWithRotation(
+              getBaseFormation(formation, formationDefinitions),
+              rotation,
+              system,
+              rotations
+            ),
+            getFormationDefinition(formationDefinitions, formation),
+            rotation
+          );
+          const merged: Record<string, PlayerPosition> = { ...defaults };
+          Object.values(rotationMap).forEach((playerId) => {
+            if (stored[playerId]) {
+              merged[playerId] = stored[playerId];
+            }
+          });
+          const positions = applyLiberoToPositions(merged, swap);
+
+          const lineup = StateConverter.formationToVolleyballStates(
+            positions,
+            activeRotationMap,
+            1,
+            roles
+          );
+          // The rotational line-up is always checked, other formations when
+          // their policy applies the overlap rules
+          const { violations } =
+            formation === "rotational" ||
+            formationUsesOverlapRules(
+              formation,
+              formationDefinitions,
+              validationPolicies
+            )
+              ? VolleyballRulesEngine.validateLineup(lineup, {
+                  ruleSet,
+                  enforceLiberoRules:
+                    isLiberoActive(resolvedLibero) || undefined,
+                  allowLiberoServe: resolvedLibero?.allowServe,
+                })
+              : { violations: [] };
+
+          const violatingPlayers = new Set<string>();
+          violations.forEach((violation) =>
+            violation.slots.forEach((slot) =>
+              violatingPlayers.add(activeRotationMap[slot])
+            )
+          );
+
+          return { formation, positions, violations, violatingPlayers };
+        });
+
+        return { rotation, cells };
+      }),
+    [
+      rotations,
+      formations,
+      formationDefinitions,
+      validationPolicies,
+      players,
+      positionManager,
+      system,
+      resolvedLibero,
+      ruleSet,
+    ]
+  );
+
+  const violationCount = rows.reduce(
+    (total, row) =>
+      total +
+      row.cells.reduce((sum, cell) => sum + cell.violations.length, 0),
+    0
+  );
+
+  const renderPlayers = (cell: SheetCell) =>
+    players.map((player) => {
+      const position = cell.positions[player.id];
+      if (!position) return null;
+
+      const isLibero = player.role === "L";
+      const hasViolation = showViolations && cell.violatingPlayers.has(player.id);
+
+      return (
+        <g
+          key={player.id}
+          transform={`translate(${position.x}, ${position.y})`}
+          data-testid={`rotation-sheet-player-${player.id}`}
+        >
+          <circle
+            r={PLAYER_RADIUS}
+            fill={
+              isLibero ? "#f97316" : position.isCustom ? "#10b981" : "#3b82f6"
+            }
+            stroke={
+              hasViolation
+                ? "#dc2626"
+                : isLibero
+                ? "#c2410c"
+                : position.isCustom
+                ? "#065f46"
+                : "#1e40af"
+            }
+            strokeWidth={hasViolation ? 5 : 2}
+          />
+          {isLibero && (
+            <circle
+              r={PLAYER_RADIUS - 4}
+              fill="none"
+              stroke="white"
+              strokeWidth={2}
+            />
+          )}
+          <text
+            y={6}
+            fontSize={16}
+            textAnchor="middle"
+            fill="white"
+            fontWeight="bold"
+          >
+            {player.id}
+          </text>
+          {hasViolation && (
+            <g data-testid={`rotation-sheet-violation-marker-${player.id}`}>
+              <circle
+                cx={PLAYER_RADIUS - 2}
+                cy={-PLAYER_RADIUS + 2}
+                r={9}
+                fill="#dc2626"
+              />
+              <text
+                x={PLAYER_RADIUS - 2}
+                y={-PLAYER_RADIUS + 7}
+                fontSize={14}
+                textAnchor="middle"
+                fill="white"
+                fontWeight="bold"
+              >
+                !
+              </text>
+            </g>
+          )}
+        </g>
+      );
+    });
+
+  return (
+    <div
+      className={`volleyball-rotation-sheet ${className}`}
+      data-testid="rotation-sheet"
+    >
+      <div className="rotation-sheet-header">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            {title ?? `${system} Line-up Card`}
+          </h2>
+          {showViolations && (
+            <p
+              className="text-sm text-gray-600 dark:text-gray-400"
+              data-testid="rotation-sheet-summary"
+            >
+              {violationCount === 0
+                ? "All formations are legal"
+                : `${violationCount} violation${
+                    violationCount === 1 ? "" : "s"
+                  } found`}
+            </p>
+          )}
+        </div>
+        {showPrintButton && (
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rotation-sheet-no-print px-3 py-1 rounded font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600"
+            data-testid="rotation-sheet-print-button"
+          >
+            Print
+          </button>
+        )}
+      </div>
+
+      <table className="rotation-sheet-grid">
+        <thead>
+          <tr>
+            <th scope="col" />
+            {formations.map((formation) => (
+              <th key={formation} scope="col">
+                {getFormationLabel(formation)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ rotation, cells }) => (
+            <tr key={rotation} className="rotation-sheet-row">
+              <th scope="row">Rotation {rotation + 1}</th>
+              {cells.map((cell) => {
+                const isIllegal = showViolations && cell.violations.length > 0;
+
+                return (
+                  <td
+                    key={cell.formation}
+                    className={`rotation-sheet-cell ${
+                      isIllegal ? "rotation-sheet-cell-illegal" : ""
+                    }`}
+                    data-testid={`rotation-sheet-cell-${rotation}-${cell.formation}`}
+                  >
+                    <div
+                      className="relative"
+                      style={{
+                        width: cellDimensions.width,
+                        height: cellDimensions.height,
+                      }}
+                    >
+                      <CourtVisualization
+                        dimensions={cellDimensions}
+                        theme={theme}
+                        courtColor={courtColor}
+                        showZones={false}
+                        className="absolute inset-0"
+                      />
+                      <svg
+                        viewBox={`0 0 ${BASE_COURT_WIDTH} ${BASE_COURT_HEIGHT}`}
+                        width={cellDimensions.width}
+                        height={cellDimensions.height}
+                        className="absolute inset-0"
+                        aria-label={`Rotation ${rotation + 1} ${
+                          getFormationLabel(cell.formation)
+                        }`}
+                      >
+                        {renderPlayers(cell)}
+                      </svg>
+                    </div>
+
+                    {isIllegal && (
+                      <ul
+                        className="rotation-sheet-violations"
+                        data-testid={`rotation-sheet-violations-${rotation}-${cell.formation}`}
+                      >
+                        {cell.violations.map((violation, index) => (
+                          <li key={index}>{violation.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <style jsx>{`
+        .rotation-sheet-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          margin-bottom: 12px;
+        }
+
+        .rotation-sheet-grid {
+          border-collapse: collapse;
+        }
+
+        .rotation-sheet-grid th {
+          padding: 4px 8px;
+          font-size: 13px;
+          font-weight: 600;
+          color: #374151;
+          text-align: center;
+          white-space: nowrap;
+        }
+
+        .rotation-sheet-cell {
+          padding: 6px;
+          vertical-align: top;
+          border: 2px solid transparent;
+        }
+
+        .rotation-sheet-cell-illegal {
+          border-color: #dc2626;
+        }
+
+        .rotation-sheet-violations {
+          margin: 4px 0 0;
+          padding-left: 16px;
+          max-width: ${cellDimensions.width}px;
+          font-size: 11px;
+          color: #b91c1c;
+          list-style: disc;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .rotation-sheet-grid th {
+            color: #d1d5db;
+          }
+        }
+
+        @media print {
+          @page {
+            size: landscape;
+            margin: 10mm;
+          }
+
+          .volleyball-rotation-sheet {
+            color: #000;
+            background: #fff;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+          }
+
+          .rotation-sheet-no-print {
+            display: none;
+          }
+
+          .rotation-sheet-grid th {
+            color: #000;
+          }
+
+          .rotation-sheet-row {
+            break-inside: avoid;
+            page-break-inside: avoid;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default RotationSheet;
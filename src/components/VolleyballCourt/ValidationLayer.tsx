@@ -10,12 +10,17 @@ import {
   ViolationCode,
 } from "./volleyball-rules-engine/types/ValidationResult";
 import { RotationSlot } from "./volleyball-rules-engine/types/PlayerState";
+import { useLocalization } from "./hooks/useLocalization";
 
 export const ValidationLayer: React.FC<ValidationLayerProps> = ({
   violations,
   showDetails,
   onDismiss,
+  onAutoFix,
+  onUndoAutoFix,
 }) => {
+  const { t } = useLocalization();
+
   // Convert ViolationData to OverlapResult format for ValidationDisplay
   const validationResult = useMemo((): OverlapResult => {
     if (violations.length === 0) {
@@ -50,7 +55,19 @@ export const ValidationLayer: React.FC<ValidationLayerProps> = ({
     console.log("Violation clicked:", violation);
   };
 
-  if (violations.length === 0) {
+  // Team-specific rules are listed apart from the volleyball rules
+  const ruleViolations = violations.filter(
+    (violation) => violation.violationType !== "custom"
+  );
+  const customViolations = violations.filter(
+    (violation) => violation.violationType === "custom"
+  );
+
+  const canAutoFix =
+    onAutoFix !== undefined &&
+    violations.some((violation) => violation.metadata?.autoFixAvailable);
+
+  if (violations.length === 0 && !onUndoAutoFix) {
     return null; // Don't render anything if there are no violations
   }
 
@@ -77,14 +94,64 @@ export const ValidationLayer: React.FC<ValidationLayerProps> = ({
 
           {/* ValidationDisplay component - temporarily replaced with simple display */}
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 shadow-lg">
-            <h3 className="text-red-800 font-medium mb-2">
-              Volleyball Rule Violations ({violations.length})
-            </h3>
-            {violations.map((violation, index) => (
-              <div key={index} className="text-red-700 text-sm mb-1">
-                • {violation.message}
+            {onUndoAutoFix && (
+              <div
+                className="flex items-center justify-between gap-2 text-green-800 text-sm mb-2"
+                data-testid="auto-fix-applied"
+              >
+                <span>{t("validation.fixed")}</span>
+                <button
+                  onClick={onUndoAutoFix}
+                  className="px-2 py-1 rounded border border-green-300 bg-white hover:bg-green-100 transition-colors"
+                  data-testid="undo-auto-fix-button"
+                >
+                  {t("validation.undoFix")}
+                </button>
+              </div>
+            )}
+            {canAutoFix && (
+              <button
+                onClick={onAutoFix}
+                title={t("validation.fixTitle")}
+                className="float-right ml-2 px-3 py-1 rounded bg-red-600 text-white text-sm hover:bg-red-700 transition-colors"
+                data-testid="auto-fix-button"
+              >
+                {t("validation.fix")}
+              </button>
+            )}
+            {ruleViolations.length > 0 && (
+              <>
+                <h3 className="text-red-800 font-medium mb-2">
+                  Volleyball Rule Violations ({ruleViolations.length})
+                </h3>
+                {ruleViolations.map((violation, index) => (
+                  <div key={index} className="text-red-700 text-sm mb-1">
+                    • {violation.message}
+                  </div>
+                ))}
+              </>
+            )}
+            {customViolations.length > 0 && (
+              <div data-testid="custom-rule-violations">
+                <h3 className="text-red-800 font-medium mb-2">
+                  Team Rules ({customViolations.length})
+                </h3>
+                {customViolations.map((violation, index) => (
+                  <div
+                    key={index}
+                    className={`text-sm mb-1 ${
+                      violation.severity === "error"
+                        ? "text-red-700"
+                        : "text-amber-700"
+                    }`}
+                  >
+                    •{" "}
+                    {violation.metadata?.rule && `${violation.metadata.rule}: `}
+                    {violation.message}
+                  </div>
+                ))}
               </div>
-            ))}
+            )}
           </div>
         </div>
       </motion.div>
@@ -1,14 +1,26 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
-import { VolleyballCourtProps, ViolationData, ErrorData } from "./types";
+import {
+  VolleyballCourtProps,
+  ViolationData,
+  ErrorData,
+} from "./types";
 import {
   VolleyballCourtProvider,
   useVolleyballCourt,
 } from "./VolleyballCourtProvider";
 import { CourtVisualization } from "./CourtVisualization";
+import { AnnotationLayer } from "./AnnotationLayer";
+import { OpponentLayer } from "./OpponentLayer";
 import { PlayerLayer } from "./PlayerLayer";
 import { ControlsLayer } from "./ControlsLayer";
+import { SelectionToolbar } from "./controls/SelectionToolbar";
+import { CourtDescription } from "./controls/CourtDescription";
+import {
+  PlayerContextMenu,
+  PlayerContextMenuView,
+} from "./controls/PlayerContextMenu";
 import { calculateCourtDimensions } from "./courtCoordinates";
 import { VolleyballCourtErrorBoundary } from "./VolleyballCourtErrorBoundary";
 import { ValidationLayer } from "./ValidationLayer";
@@ -16,7 +28,14 @@ import { NotificationLayer } from "./NotificationLayer";
 import { ReadOnlyIndicator } from "./ReadOnlyIndicator";
 import { BrowserCompatibilityWarning } from "./BrowserCompatibilityWarning";
 import { ConfigurationManager } from "./ConfigurationUtils";
-
+import { NET_LINE_RATIO } from "./utils/fullCourt";
+import { LineupFixResult } from "./utils/lineupFix";
+import { FORMATION_TEMPLATES } from "./utils/formationTemplates";
+import {
+  describePlayerLocation,
+  getFormationLabel,
+  getPlayerLabel,
+} from "./utils/courtDescription";
 
 // Internal component that uses the context
 const VolleyballCourtInternal: React.FC = () => {
@@ -27,15 +46,55 @@ const VolleyballCourtInternal: React.FC = () => {
     persistenceManager,
     positionManager,
     setDraggedPlayer,
-    setSystem,
     setRotationIndex,
     setFormation,
     setIsAnimating,
     handlePositionChange,
     handleViolation,
+    reportedViolations,
     handleRotationChange,
     handleFormationChange,
-    clearStoredData
+    handleSystemChange,
+    clearStoredData,
+    liberoSwap,
+    systemOptions,
+    formationOptions,
+    validationPolicy,
+    activeRotationMap,
+    activePositions,
+    activeSequence,
+    sequencePlayback,
+    playSequence,
+    annotations,
+    updateAnnotation,
+    removeAnnotation,
+    fullCourt,
+    opponentMarkers,
+    opponentPositions,
+    opponentServerId,
+    serverSlot,
+    setOpponentPosition,
+    roster,
+    collaborators,
+    isCollaborating,
+    updateCursor,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    selectedPlayers,
+    setSelectedPlayers,
+    updatePlayer,
+    resetPlayerPosition,
+    rotations,
+    announcement,
+    announce,
+    getCourtDescription,
+    localization,
+    applyLineupFix,
+    templates,
+    applyTemplate,
+    saveTemplate,
   } = useVolleyballCourt();
 
   // Track hydration to prevent SSR/client mismatch
@@ -45,6 +104,27 @@ const VolleyballCourtInternal: React.FC = () => {
   const [errors, setErrors] = useState<ErrorData[]>([]);
   const [violations, setViolations] = useState<ViolationData[]>([]);
 
+  // Player context menu, opened by a right-click, long-press or double-click
+  const [playerMenu, setPlayerMenu] = useState<{
+    playerId: string;
+    position: { x: number; y: number };
+    view: PlayerContextMenuView;
+  } | null>(null);
+
+  // Last Fix, which can be undone until one of its players moves again
+  const [appliedFix, setAppliedFix] = useState<LineupFixResult | null>(null);
+  const canUndoFix =
+    appliedFix !== null &&
+    appliedFix.moves.every(
+      ({ playerId, to }) =>
+        state.positions[playerId]?.x === to.x &&
+        state.positions[playerId]?.y === to.y
+    );
+
+  useEffect(() => {
+    setAppliedFix(null);
+  }, [state.system, state.rotationIndex, state.formation]);
+
   // Get window size for responsive court sizing
   const windowSize = useWindowSize();
 
@@ -53,27 +133,31 @@ const VolleyballCourtInternal: React.FC = () => {
     setIsHydrated(true);
   }, []);
 
-  // Convert state violations to ViolationData format
+  // Convert state violations to ViolationData format. Violations reported
+  // through the provider keep their type and metadata.
   useEffect(() => {
     const violationData: ViolationData[] = state.violations.map(
-      (violation, index) => ({
-        id: `violation_${index}`,
-        code: `VIOLATION_${index}`,
-        message: violation,
-        affectedPlayers: [], // Would need to be populated by rules engine
-        severity: "error" as const,
-        timestamp: Date.now(),
-        violationType: "positioning" as const,
-        context: {
-          system: state.system,
-          rotation: state.rotationIndex,
-          formation: state.formation,
-          positions: state.positions,
-        },
-      })
+      (violation, index) =>
+        reportedViolations[index]?.message === violation
+          ? reportedViolations[index]
+          : {
+              id: `violation_${index}`,
+              code: `VIOLATION_${index}`,
+              message: violation,
+              affectedPlayers: [], // Would need to be populated by rules engine
+              severity: "error" as const,
+              timestamp: Date.now(),
+              violationType: "positioning" as const,
+              context: {
+                system: state.system,
+                rotation: state.rotationIndex,
+                formation: state.formation,
+                positions: state.positions,
+              },
+            }
     );
     setViolations(violationData);
-  }, [state.violations]);
+  }, [state.violations, reportedViolations]);
 
   // Handle errors from state
   useEffect(() => {
@@ -175,8 +259,118 @@ const VolleyballCourtInternal: React.FC = () => {
     }
   };
 
+  const isPlayerLayerReadOnly =
+    state.isReadOnly || sequencePlayback.time !== null;
+
+  // Runs interaction.doubleClickAction on a player
+  const handlePlayerDoubleClick = (
+    playerId: string,
+    position: { x: number; y: number }
+  ) => {
+    switch (config.interaction.doubleClickAction) {
+      case "reset":
+        resetPlayerPosition(playerId);
+        break;
+      case "lock":
+        updatePlayer(playerId, {
+          locked: !roster.find((player) => player.id === playerId)?.locked,
+        });
+        break;
+      case "edit":
+        setPlayerMenu({ playerId, position, view: "edit" });
+        break;
+    }
+  };
+
+  const keyboardNavigation = config.accessibility.enableKeyboardNavigation;
+
+  // Court shortcuts: R and Shift+R step through rotations, F and Shift+F
+  // through formations, D reads out the whole court
+  const handleCourtKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (
+      event.ctrlKey ||
+      event.metaKey ||
+      event.altKey ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+    ) {
+      return;
+    }
+
+    const step = event.shiftKey ? -1 : 1;
+    switch (event.key.toLowerCase()) {
+      case "r": {
+        if (state.isAnimating) return;
+        const count = rotations.length;
+        const rotation = (state.rotationIndex + step + count) % count;
+        handleRotationChange(rotation, "manual", "keyboard");
+        announce(
+          localization.t("announce.rotation", { rotation: rotation + 1 })
+        );
+        break;
+      }
+      case "f": {
+        if (state.isAnimating) return;
+        // Steps through the formations in their order
+        const count = formationOptions.length;
+        const index = formationOptions.findIndex(
+          (option) => option.id === state.formation
+        );
+        const formation = formationOptions[(index + step + count) % count].id;
+        handleFormationChange(formation, "manual", "keyboard");
+        announce(
+          localization.t("announce.formation", {
+            formation: getFormationLabel(
+              formation,
+              localization,
+              formationOptions
+            ),
+          })
+        );
+        break;
+      }
+      case "d":
+        announce(getCourtDescription());
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  // Reads out where an arrow key moved a player
+  const handlePlayerKeyboardMove = (
+    playerId: string,
+    position: { x: number; y: number },
+    moved: boolean
+  ) => {
+    const label = getPlayerLabel(playerId, roster);
+    if (!moved) {
+      announce(localization.t("announce.cantMove", { player: label }));
+    } else if (
+      selectedPlayers.length > 1 &&
+      selectedPlayers.includes(playerId)
+    ) {
+      announce(
+        localization.t("announce.groupMoved", {
+          count: selectedPlayers.length,
+        })
+      );
+    } else {
+      announce(
+        localization.t("announce.playerMoved", {
+          player: label,
+          location: describePlayerLocation(position, localization),
+        })
+      );
+    }
+  };
+
   return (
-    <div className="volleyball-court-container">
+    <div
+      className="volleyball-court-container"
+      dir={localization.direction}
+    >
       {/* Read-only indicator */}
       <ReadOnlyIndicator
         isReadOnly={state.isReadOnly}
@@ -194,8 +388,11 @@ const VolleyballCourtInternal: React.FC = () => {
           isAnimating={state.isAnimating}
           isReadOnly={state.isReadOnly}
           controlsConfig={config.controls}
+          liberoSwap={liberoSwap}
+          systemOptions={systemOptions}
+          formationOptions={formationOptions}
           onSystemChange={(system) => {
-            setSystem(system);
+            handleSystemChange(system);
           }}
           onRotationChange={(rotation) => {
             handleRotationChange(rotation, "manual", "controls");
@@ -219,18 +416,96 @@ const VolleyballCourtInternal: React.FC = () => {
             // Share functionality - could open share dialog
           }}
           onAnimate={() => {
+            if (activeSequence && activeSequence.keyframes.length > 1) {
+              playSequence();
+              return;
+            }
             setIsAnimating(true);
             // Animation logic would go here
             setTimeout(() => setIsAnimating(false), 1000);
           }}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={undo}
+          onRedo={redo}
+          templates={templates}
+          onApplyTemplate={applyTemplate}
+          onSaveTemplate={() => {
+            const savedCount = templates.filter(
+              (template) => !FORMATION_TEMPLATES.includes(template)
+            ).length;
+            saveTemplate(`Template ${savedCount + 1}`);
+          }}
         />
       )}
 
+      {/* Opponent half - drawn down to the net, over the part of our court
+          beyond it */}
+      {fullCourt.enabled && (
+        <div
+          className="volleyball-court-opponent"
+          style={{
+            width: courtDimensions.width,
+            height: courtDimensions.height * (1 - NET_LINE_RATIO),
+            position: "relative",
+            overflow: "hidden",
+            zIndex: 20,
+          }}
+          data-testid="volleyball-court-opponent"
+        >
+          <div
+            className="absolute inset-x-0 top-0"
+            style={{ height: courtDimensions.height }}
+          >
+            <CourtVisualization
+              dimensions={courtDimensions}
+              theme={courtTheme}
+              courtColor={config.appearance.courtColor}
+              side="opponent"
+              className="absolute inset-0"
+            />
+            <OpponentLayer
+              markers={opponentMarkers}
+              positions={opponentPositions}
+              serverId={opponentServerId}
+              readOnly={state.isReadOnly || sequencePlayback.time !== null}
+              onMarkerMove={setOpponentPosition}
+              className="absolute inset-0"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Controls mirror for right-to-left languages; the court does not */}
       <div
         className="volleyball-court"
+        dir="ltr"
+        role="group"
+        aria-label={
+          config.accessibility.customAriaLabels?.court ??
+          localization.t("court.label")
+        }
+        tabIndex={keyboardNavigation ? 0 : undefined}
+        onKeyDown={keyboardNavigation ? handleCourtKeyDown : undefined}
+        onPointerMove={(event) => {
+          if (!isCollaborating) return;
+          // Share the cursor in court coordinates, whatever the CSS scale
+          const rect = event.currentTarget.getBoundingClientRect();
+          const scale = rect.width ? courtDimensions.width / rect.width : 1;
+          updateCursor({
+            x: (event.clientX - rect.left) * scale,
+            y: (event.clientY - rect.top) * scale,
+          });
+        }}
+        onPointerLeave={() => {
+          if (isCollaborating) updateCursor(null);
+        }}
         style={{
           width: courtDimensions.width,
           height: courtDimensions.height,
+          marginTop: fullCourt.enabled
+            ? -courtDimensions.height * NET_LINE_RATIO
+            : undefined,
           position: "relative",
           backgroundColor: courtTheme === "dark" ? "#1f2937" : "#ffffff",
           border: `1px solid ${courtTheme === "dark" ? "#374151" : "#d1d5db"}`,
@@ -248,6 +523,19 @@ const VolleyballCourtInternal: React.FC = () => {
           className="absolute inset-0"
         />
 
+        {/* Annotation Layer - ball, arrows, callouts and zones */}
+        {annotations.length > 0 && (
+          <AnnotationLayer
+            annotations={annotations}
+            positions={activePositions}
+            readOnly={state.isReadOnly || sequencePlayback.time !== null}
+            courtDimensions={courtDimensions}
+            onAnnotationChange={updateAnnotation}
+            onAnnotationRemove={removeAnnotation}
+            className="absolute inset-0"
+          />
+        )}
+
         {/* Player Layer with full functionality - wrapped in SVG overlay */}
         <svg
           viewBox={`0 0 ${courtDimensions.width} ${courtDimensions.height}`}
@@ -259,16 +547,36 @@ const VolleyballCourtInternal: React.FC = () => {
           }}
         >
           <PlayerLayer
-            players={config.players[state.system]}
-            positions={state.positions}
-            rotationMap={config.rotations[state.system][state.rotationIndex]}
+            players={roster}
+            positions={activePositions}
+            rotationMap={activeRotationMap}
             formation={state.formation}
             draggedPlayer={state.draggedPlayer}
             visualGuidelines={state.visualGuidelines}
-            readOnly={state.isReadOnly}
+            readOnly={isPlayerLayerReadOnly}
             courtDimensions={courtDimensions}
             system={state.system}
             rotation={state.rotationIndex}
+            ruleSet={config.validation.ruleSet}
+            serverSlot={serverSlot}
+            overlapRules={validationPolicy.overlap}
+            positionManager={positionManager}
+            collaborators={collaborators.filter(
+              (collaborator) =>
+                collaborator.system === state.system &&
+                collaborator.rotation === state.rotationIndex &&
+                collaborator.formation === state.formation
+            )}
+            multiSelectEnabled={config.interaction.multiSelectEnabled}
+            selectedPlayers={selectedPlayers}
+            onSelectionChange={setSelectedPlayers}
+            onGroupPositionChange={(positions) => {
+              handlePositionChange(
+                { ...state.positions, ...positions },
+                "drag",
+                Object.keys(positions)
+              );
+            }}
             onDragStart={(playerId) => {
               setDraggedPlayer(playerId);
             }}
@@ -281,18 +589,19 @@ const VolleyballCourtInternal: React.FC = () => {
                 [playerId]: position,
               }, "drag", [playerId]);
             }}
-            onResetPosition={(playerId) => {
-              // Reset individual player position
-              const defaultPositions = positionManager.getFormationPositions(
-                state.system,
-                state.rotationIndex,
-                state.formation
-              );
-              handlePositionChange({
-                ...state.positions,
-                [playerId]: defaultPositions[playerId],
-              }, "reset", [playerId]);
-            }}
+            onResetPosition={resetPlayerPosition}
+            onPlayerContextMenu={
+              config.interaction.contextMenuEnabled && !isPlayerLayerReadOnly
+                ? (playerId, position) =>
+                    setPlayerMenu({ playerId, position, view: "actions" })
+                : undefined
+            }
+            onPlayerDoubleClick={
+              isPlayerLayerReadOnly ? undefined : handlePlayerDoubleClick
+            }
+            keyboardNavigation={keyboardNavigation}
+            customAriaLabels={config.accessibility.customAriaLabels}
+            onPlayerKeyboardMove={handlePlayerKeyboardMove}
             onVolleyballRuleViolation={(playerId, violations) => {
               // Handle rule violations
               const violationData = violations.map((message) => ({
@@ -316,16 +625,66 @@ const VolleyballCourtInternal: React.FC = () => {
         </svg>
 
         {/* Validation Layer - Shows rule violations */}
-        {config.validation?.showViolationDetails && violations.length > 0 && (
-          <ValidationLayer
-            violations={violations}
-            showDetails={config.validation.showViolationDetails}
-            onDismiss={() => setViolations([])}
-          />
-        )}
+        {config.validation?.showViolationDetails &&
+          (violations.length > 0 || canUndoFix) && (
+            <ValidationLayer
+              violations={violations}
+              showDetails={config.validation.showViolationDetails}
+              onDismiss={() => {
+                setViolations([]);
+                setAppliedFix(null);
+              }}
+              onAutoFix={() => setAppliedFix(applyLineupFix())}
+              onUndoAutoFix={
+                canUndoFix
+                  ? () => {
+                      undo();
+                      setAppliedFix(null);
+                    }
+                  : undefined
+              }
+            />
+          )}
 
       </div>
 
+      {/* Screen reader announcements; a repeated message differs by a
+          trailing space so it is read again */}
+      {config.accessibility.enableScreenReader && (
+        <div
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+          className="sr-only"
+          data-testid="court-announcer"
+        >
+          {announcement &&
+            `${announcement.message}${announcement.id % 2 ? "" : "\u00a0"}`}
+        </div>
+      )}
+
+      {/* Court description, shown when tabbed to */}
+      {config.accessibility.enableScreenReader && (
+        <CourtDescription className="mt-2" />
+      )}
+
+      {/* Per-player actions */}
+      {playerMenu && (
+        <PlayerContextMenu
+          key={`${playerMenu.playerId}-${playerMenu.view}`}
+          playerId={playerMenu.playerId}
+          position={playerMenu.position}
+          initialView={playerMenu.view}
+          isReadOnly={isPlayerLayerReadOnly}
+          onClose={() => setPlayerMenu(null)}
+        />
+      )}
+
+      {/* Align and distribute the selected players */}
+      {config.interaction.multiSelectEnabled && (
+        <SelectionToolbar isReadOnly={state.isReadOnly} className="mt-2" />
+      )}
+
       {/* Debug info in development */}
       {process.env.NODE_ENV === "development" && (
         <div className="absolute top-2 left-2 text-xs text-gray-400 bg-white/80 dark:bg-gray-800/80 p-1 rounded">
@@ -382,12 +741,16 @@ export const VolleyballCourt: React.FC<VolleyballCourtProps> = ({
   showControls = true,
   enableSharing = true,
   enablePersistence = true,
+  collaboration,
+  remoteAdapter,
   onPositionChange,
   onRotationChange,
   onFormationChange,
   onViolation,
   onShare,
   onError,
+  onSyncStatusChange,
+  onSyncConflict,
   customPlayers,
   customRotations,
   validationConfig,
@@ -449,12 +812,16 @@ export const VolleyballCourt: React.FC<VolleyballCourtProps> = ({
             showControls={showControls}
             enableSharing={enableSharing}
             enablePersistence={enablePersistence}
+            collaboration={collaboration}
+            remoteAdapter={remoteAdapter}
             onPositionChange={onPositionChange}
-            onRotationChange={onRotationChange}
+            onRotationChangeData={onRotationChange}
             onFormationChange={onFormationChange}
             onViolation={onViolation}
             onShare={onShare}
             onError={onError}
+            onSyncStatusChange={onSyncStatusChange}
+            onSyncConflict={onSyncConflict}
           >
             <VolleyballCourtInternal />
           </VolleyballCourtProvider>
@@ -30,13 +30,135 @@ import {
   ValidationStateData,
   ConfigurationChangeData,
   SystemChangeData,
+  LiberoSwap,
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  PlaySequence,
+  SequencePlaybackState,
+  CourtAnnotation,
+  FullCourtState,
+  OpponentMarker,
+  TeamSide,
+  Substitution,
+  SubstitutionState,
+  MatchState,
+  SystemDefinition,
+  SystemOption,
+  FormationDefinition,
+  FormationOption,
+  ValidationPolicy,
+  PlaybookSummary,
+  FormationTemplate,
+  CollaborationConfig,
+  CollaboratorPresence,
+  CourtHistoryState,
+  GroupAlignment,
+  PlayerDetails,
+  CopyPositionResult,
+  CourtAnnouncement,
+  Localization,
+  CustomRuleConfig,
 } from "./types";
+import type { RotationSlot } from "./volleyball-rules-engine/types/PlayerState";
+import type { CustomPositionsState } from "./types/positioning";
 import {
   VolleyballCourtPersistenceManager,
   PersistenceState,
 } from "./PersistenceManager";
-import { ConfigurationManager } from "./ConfigurationUtils";
-import { getDefaultPositionsWithRotation } from "./utils/defaultPositions";
+import type { PersistenceAdapter } from "./utils/storage/PersistenceAdapter";
+import type {
+  RemoteSyncConflict,
+  RemoteSyncState,
+} from "./utils/storage/RemoteSyncQueue";
+import {
+  ConfigurationManager,
+  RotationCustomization,
+} from "./ConfigurationUtils";
+import {
+  getLiberoSwap,
+  applyLiberoToRotation,
+  applyLiberoToPositions,
+  validateLiberoLineup,
+  resolveLiberoConfig,
+} from "./utils/liberoSubstitution";
+import {
+  CourtExportPage,
+  EXPORT_MIME_TYPES,
+  createCourtExport,
+  downloadExport,
+  isImageExportFormat,
+} from "./utils/courtExport";
+import {
+  getPositionsAtTime,
+  getSequenceDuration,
+} from "./utils/playSequence";
+import { useSequencePlayback } from "./hooks/useSequencePlayback";
+import {
+  getFormationAnnotations,
+  setFormationAnnotations,
+} from "./utils/courtAnnotations";
+import {
+  DEFAULT_OPPONENT_MARKERS,
+  createFullCourtState,
+  getOpponentPositions,
+  getOpponentServerId,
+  getServerSlot,
+} from "./utils/fullCourt";
+import {
+  applySubstitutionsToPositions,
+  applySubstitutionsToRotation,
+  applySubstitutionsToRotations,
+  createSubstitutionState,
+  getSubstitutionLimit,
+  getSubstitutionLineup,
+  recordSubstitution,
+  startNewSet as startNextSubstitutionSet,
+  validateSubstitution,
+} from "./utils/substitutions";
+import {
+  createMatchState,
+  getServingFormation,
+  scoreRally,
+  serializeRallyLogToCSV,
+} from "./utils/matchMode";
+import {
+  getSystemDefaultPositions,
+  getSystemDefinition,
+  getSystemOptions,
+  validateGenderAlternation,
+} from "./utils/customSystems";
+import {
+  getFormationDefinition,
+  getFormationOptions,
+} from "./utils/customFormations";
+import {
+  checkValidationPolicy,
+  getValidationPolicy,
+} from "./utils/validationPolicies";
+import { playbookManager } from "./utils/storage/PlaybookManager";
+import { alignPlayers } from "./utils/groupPositioning";
+import { CustomRuleArea, getRuleAreaForPlayer } from "./utils/customRules";
+import { findLineupFix, LineupFixResult } from "./utils/lineupFix";
+import {
+  applyFormationTemplate,
+  createFormationTemplate,
+  getFormationTemplates,
+} from "./utils/formationTemplates";
+import {
+  CourtDescriptionContext,
+  describeCourt,
+  explainLineupViolations,
+} from "./utils/courtDescription";
+import { createLocalization } from "./utils/localization";
+import { LocalizationContext } from "./hooks/useLocalization";
+import { useCollaboration } from "./hooks/useCollaboration";
+import {
+  useUndoRedo,
+  type UndoRedoAction,
+  type UndoRedoEntry,
+} from "./hooks/useUndoRedo";
+import type { PositionOperation } from "./utils/collaboration/lastWriterWins";
 
 // Context interface
 interface VolleyballCourtContextValue {
@@ -66,19 +188,39 @@ interface VolleyballCourtContextValue {
   // Configuration
   config: Required<VolleyballCourtConfig>;
 
+  // Built-in and custom systems; the definition is null for built-ins
+  systemOptions: SystemOption[];
+  systemDefinition: SystemDefinition | null;
+
+  // Built-in and custom formations in order; the definition is null for
+  // built-ins
+  formationOptions: FormationOption[];
+  formationDefinition: FormationDefinition | null;
+
+  // Checks that apply to the current formation
+  validationPolicy: ValidationPolicy;
+
+  // Libero replacement for the current rotation
+  liberoSwap: LiberoSwap | null;
+  activeRotationMap: RotationMapping;
+  activePositions: VolleyballCourtState["positions"];
+
   // Callback handlers
   handlePositionChange: (positions: Record<string, PlayerPosition>) => void;
   handleRotationChange: (
     rotation: number,
     changeType?: RotationChangeData["changeType"],
-    triggeredBy?: string
+    triggeredBy?: string,
+    substitution?: Substitution
   ) => void;
   handleFormationChange: (
     formation: FormationType,
     changeType?: FormationChangeData["changeType"],
     triggeredBy?: string
   ) => void;
+  handleSystemChange: (system: SystemType) => void;
   handleViolation: (violations: ViolationData[]) => void;
+  reportedViolations: ViolationData[]; // Last reported, with type and metadata
   handleShare: (shareData: ShareData) => void;
   handleError: (error: ErrorData) => void;
 
@@ -87,12 +229,138 @@ interface VolleyballCourtContextValue {
   copyShareURL: (url: string) => Promise<void>;
   clearStoredData: () => void;
   hasURLData: () => boolean;
+
+  // Export methods
+  exportCourt: (
+    format: ExportFormat,
+    options?: ExportOptions
+  ) => Promise<ExportResult>;
+
+  // Annotations for the current system/rotation/formation
+  annotations: CourtAnnotation[];
+  setAnnotations: (annotations: CourtAnnotation[]) => void;
+  addAnnotation: (annotation: CourtAnnotation) => void;
+  updateAnnotation: (annotation: CourtAnnotation) => void;
+  removeAnnotation: (annotationId: string) => void;
+
+  // Full court: opponent side and serving team
+  fullCourt: FullCourtState;
+  opponentMarkers: OpponentMarker[];
+  opponentPositions: VolleyballCourtState["positions"];
+  opponentServerId: string | null;
+  serverSlot: RotationSlot | null; // Our serving slot, null when receiving
+  setFullCourtEnabled: (enabled: boolean) => void;
+  setServingTeam: (team: TeamSide) => void;
+  setOpponentRotation: (rotation: number) => void;
+  setOpponentPosition: (
+    markerId: string,
+    position: VolleyballCourtState["positions"][string]
+  ) => void;
+  resetOpponentPositions: () => void;
+
+  // Bench and substitutions for the current system
+  bench: PlayerDefinition[];
+  roster: PlayerDefinition[]; // Starters, libero and bench
+  rotations: RotationMapping[]; // Rotation mappings with substitutes applied
+  substitutionState: SubstitutionState;
+  substitutionLimit: number | null; // Per set, null when unlimited
+  substitutePlayer: (playerInId: string, playerOutId: string) => boolean;
+  startNewSet: () => void;
+
+  // Match mode: rally scoring drives the serving team, rotation and formation
+  match: MatchState;
+  setMatchEnabled: (enabled: boolean) => void;
+  recordRally: (winner: TeamSide) => void;
+  resetMatch: () => void;
+  exportRallyLog: (options?: {
+    filename?: string;
+    download?: boolean;
+  }) => ExportResult;
+
+  // Play sequences
+  sequences: PlaySequence[];
+  activeSequence: PlaySequence | null;
+  sequencePlayback: SequencePlaybackState;
+  setActiveSequence: (sequenceId: string | null) => void;
+  saveSequence: (sequence: PlaySequence) => void;
+  deleteSequence: (sequenceId: string) => void;
+  playSequence: () => void;
+  stopSequence: () => void;
+  scrubSequence: (time: number | null) => void;
+
+  // Playbooks: named sets of saved positions; new copies become active
+  playbooks: PlaybookSummary[];
+  activePlaybookId: string | null;
+  createPlaybook: (name: string) => Promise<void>;
+  renamePlaybook: (playbookId: string, name: string) => Promise<void>;
+  duplicatePlaybook: (playbookId: string) => Promise<void>;
+  deletePlaybook: (playbookId: string) => Promise<void>;
+  switchPlaybook: (playbookId: string) => Promise<void>;
+
+  // Formation templates for the current formation: built-in, from the config
+  // and saved with the active playbook
+  templates: FormationTemplate[];
+  applyTemplate: (templateId: string) => void;
+  saveTemplate: (name: string) => Promise<void>; // Saved to the active playbook
+
+  // Undo history: drags, resets, formation and system changes. Actions
+  // undone before a new one stay in the history as abandoned branches.
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  historyEntries: UndoRedoEntry<CourtHistoryState>[];
+  jumpToHistory: (actionId: string | null) => void; // null for the start
+  clearHistory: () => void;
+
+  // Multi-select: players moved together, when interaction.multiSelectEnabled
+  selectedPlayers: string[];
+  setSelectedPlayers: (playerIds: string[]) => void;
+  alignSelectedPlayers: (alignment: GroupAlignment) => void;
+
+  // Fix action: moves players to the nearest legal lineup as one undoable
+  // change; null when there is nothing to fix
+  lineupFix: LineupFixResult | null;
+  applyLineupFix: () => LineupFixResult | null;
+
+  // Per-player actions from the player context menu
+  updatePlayer: (playerId: string, details: PlayerDetails) => void;
+  resetPlayerPosition: (playerId: string) => void;
+  swapPlayerPositions: (playerId: string, otherPlayerId: string) => boolean;
+  markAsServer: (playerId: string) => boolean; // Rotates them into slot 1 and serves
+  copyPositionToAllRotations: (playerId: string) => CopyPositionResult;
+
+  // Screen reader support: live region messages and a spoken court layout
+  announcement: CourtAnnouncement | null;
+  announce: (message: string) => void;
+  getCourtDescription: () => string;
+
+  // Messages and number formatting for config.localization
+  localization: Localization;
+
+  // Collaboration: other coaches in the session, when config.collaboration is set
+  collaborators: CollaboratorPresence[];
+  isCollaborating: boolean; // Connected to the collaboration session
+  updateCursor: (cursor: { x: number; y: number } | null) => void;
 }
 
 // Create context
 const VolleyballCourtContext =
   createContext<VolleyballCourtContextValue | null>(null);
 
+// Substitution state for systems added after the provider mounted
+const EMPTY_SUBSTITUTION_STATE = createSubstitutionState();
+
+// One entry per system, for the state stored per system
+const createSystemStore = <T,>(
+  systems: SystemType[],
+  create: () => T
+): Record<SystemType, T> =>
+  Object.fromEntries(systems.map((system) => [system, create()])) as Record<
+    SystemType,
+    T
+  >;
+
 // Default configuration
 const DEFAULT_CONFIG: Required<VolleyballCourtConfig> = {
   initialSystem: "5-1",
@@ -134,13 +402,28 @@ const DEFAULT_CONFIG: Required<VolleyballCourtConfig> = {
       { 1: "MB1", 2: "S2", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S1" },
     ],
   },
+  systems: [],
+  formations: [],
+  libero: {},
+  defaultLineup: {},
+  templates: [],
+  bench: {},
+  fullCourt: {},
   controls: {
     showSystemSelector: true,
     showRotationControls: true,
     showFormationSelector: true,
     showResetButton: true,
     showShareButton: true,
+    showExportButton: true,
     showAnimateButton: true,
+    showSequenceEditor: false,
+    showAnnotationTools: false,
+    showFullCourtControls: false,
+    showSubstitutionManager: false,
+    showMatchControls: false,
+    showPlaybookSwitcher: false,
+    showHistoryPanel: false,
     showUndoRedoButtons: false,
     showPositionLockButtons: false,
     showValidationToggle: false,
@@ -160,6 +443,7 @@ const DEFAULT_CONFIG: Required<VolleyballCourtConfig> = {
     enableEducationalMessages: true,
     strictMode: false,
     customRules: [],
+    policies: {},
   },
   appearance: {
     theme: "auto",
@@ -172,6 +456,7 @@ const DEFAULT_CONFIG: Required<VolleyballCourtConfig> = {
       OPP: "#f59e0b", // Amber for opposite
       OH: "#3b82f6", // Blue for outside hitters
       MB: "#ef4444", // Red for middle blockers
+      L: "#f97316", // Orange for the libero jersey
       frontRow: "#1f2937",
       backRow: "#6b7280",
       serving: "#fbbf24",
@@ -227,13 +512,13 @@ const DEFAULT_CONFIG: Required<VolleyballCourtConfig> = {
     throttleDragUpdates: 16,
     enableLazyLoading: false,
     maxHistorySize: 50,
+    persistHistory: false,
     enableCaching: true,
   },
   localization: {
     language: "en",
     translations: {},
     dateFormat: "MM/dd/yyyy",
-    numberFormat: "en-US",
     rtlSupport: false,
   },
   export: {
@@ -256,10 +541,15 @@ interface VolleyballCourtProviderProps {
   enablePersistence?: boolean;
   onPositionChange?: (positions: PositionData) => void;
   onRotationChange?: (rotation: number) => void;
+  onRotationChangeData?: (data: RotationChangeData) => void; // Full change details
   onFormationChange?: (formation: FormationType) => void;
   onViolation?: (violations: ViolationData[]) => void;
   onShare?: (shareData: ShareData) => void;
   onError?: (error: ErrorData) => void;
+  collaboration?: CollaborationConfig;
+  remoteAdapter?: PersistenceAdapter;
+  onSyncStatusChange?: (state: RemoteSyncState) => void;
+  onSyncConflict?: (conflict: RemoteSyncConflict) => void;
 }
 
 // Provider component
@@ -272,10 +562,15 @@ export function VolleyballCourtProvider({
   enablePersistence = true,
   onPositionChange,
   onRotationChange,
+  onRotationChangeData,
   onFormationChange,
   onViolation,
   onShare,
   onError,
+  collaboration,
+  remoteAdapter,
+  onSyncStatusChange,
+  onSyncConflict,
 }: VolleyballCourtProviderProps) {
   // Merge user config with defaults using ConfigurationManager
   const config = useMemo(() => {
@@ -312,17 +607,36 @@ export function VolleyballCourtProvider({
     return mergedConfig;
   }, [userConfig]);
 
-  // Initialize position manager
-  const positionManager = useEnhancedPositionManager();
+  // Initialize position manager; with collaboration its moves are broadcast
+  const {
+    positionManager,
+    collaborators,
+    isConnected: isCollaborating,
+    updatePresence,
+  } = useCollaboration(
+    useEnhancedPositionManager(
+      config.formations,
+      config.validation.policies
+    ),
+    collaboration,
+    (operations) => handleRemoteOperations(operations)
+  );
+
+  // Initialize persistence manager once; constructing it starts remote sync
+  const [persistenceManager] = React.useState(
+    () =>
+      new VolleyballCourtPersistenceManager({
+        enableURLPersistence: enableSharing,
+        enableLocalStorage: enablePersistence,
+        autoSave: !readOnly,
+        remoteAdapter,
+        onSyncStatusChange,
+        onSyncConflict,
+      })
+  );
 
-  // Initialize persistence manager
-  const persistenceManager = useRef(
-    new VolleyballCourtPersistenceManager({
-      enableURLPersistence: enableSharing,
-      enableLocalStorage: enablePersistence,
-      autoSave: !readOnly,
-    })
-  ).current;
+  // Stop remote sync retries and listeners on unmount
+  useEffect(() => () => persistenceManager.dispose(), [persistenceManager]);
 
   // Initialize state
   const [state, setState] = React.useState<VolleyballCourtState>(() => ({
@@ -340,19 +654,302 @@ export function VolleyballCourtProvider({
     showControls,
     shareURL: "",
     showShareDialog: false,
-    positions: getDefaultPositionsWithRotation(
+    positions: getSystemDefaultPositions(
       config.initialFormation,
       config.initialRotation,
       config.initialSystem,
-      config.rotations[config.initialSystem]
+      config
     ),
     isLoading: false,
     error: null,
   }));
 
+  // Data rules from a shared link, checked along with the config's own rules
+  const [sharedCustomRules, setSharedCustomRules] = React.useState<
+    CustomRuleConfig[]
+  >([]);
+  const customRules = useMemo(() => {
+    const configRules = config.validation.customRules ?? [];
+    return [
+      ...configRules,
+      ...sharedCustomRules.filter(
+        (rule) => !configRules.some((own) => own.id === rule.id)
+      ),
+    ];
+  }, [config.validation.customRules, sharedCustomRules]);
+
   // Track if we've initialized from persistence
   const [isInitialized, setIsInitialized] = React.useState(false);
 
+  // Libero for the current system, with serving allowed per the rule set
+  const libero = useMemo(
+    () =>
+      resolveLiberoConfig(
+        config.libero[state.system],
+        config.validation.ruleSet
+      ),
+    [config.libero, config.validation.ruleSet, state.system]
+  );
+
+  const systemOptions = useMemo(
+    () => getSystemOptions(config.systems),
+    [config.systems]
+  );
+
+  const systemDefinition = useMemo(
+    () => getSystemDefinition(config.systems, state.system),
+    [config.systems, state.system]
+  );
+
+  const formationOptions = useMemo(
+    () => getFormationOptions(config.formations),
+    [config.formations]
+  );
+
+  const formationDefinition = useMemo(
+    () => getFormationDefinition(config.formations, state.formation),
+    [config.formations, state.formation]
+  );
+
+  const validationPolicy = useMemo(
+    () =>
+      getValidationPolicy(
+        state.formation,
+        config.formations,
+        config.validation.policies
+      ),
+    [state.formation, config.formations, config.validation.policies]
+  );
+
+  // Opponent side and serving team, used by the full-court view
+  const [fullCourt, setFullCourt] = React.useState<FullCourtState>(() =>
+    createFullCourtState(config.fullCourt)
+  );
+
+  const opponentMarkers =
+    config.fullCourt.opponentMarkers ?? DEFAULT_OPPONENT_MARKERS;
+
+  const opponentPositions = useMemo(
+    () => getOpponentPositions(fullCourt, opponentMarkers),
+    [fullCourt, opponentMarkers]
+  );
+
+  const opponentServerId = useMemo(
+    () => getOpponentServerId(fullCourt, opponentMarkers),
+    [fullCourt, opponentMarkers]
+  );
+
+  // Score and rally log for match mode
+  const [match, setMatch] = React.useState<MatchState>(() =>
+    createMatchState()
+  );
+
+  // Only the serving team's slot 1 gets the server exemption
+  const serverSlot = getServerSlot(fullCourt.servingTeam);
+
+  // Substitutions for the current set, tracked per system
+  const [substitutionStore, setSubstitutionStore] = React.useState<
+    Record<SystemType, SubstitutionState>
+  >(() =>
+    createSystemStore(Object.keys(config.players), createSubstitutionState)
+  );
+
+  const substitutionState =
+    substitutionStore[state.system] ?? EMPTY_SUBSTITUTION_STATE;
+
+  const bench = useMemo(
+    () => config.bench[state.system] ?? [],
+    [config.bench, state.system]
+  );
+
+  // Names, numbers, colors and locks edited on the court
+  const [playerOverrides, setPlayerOverrides] = React.useState<
+    Record<string, PlayerDetails>
+  >({});
+
+  const roster = useMemo(
+    () =>
+      [...config.players[state.system], ...bench].map((player) =>
+        playerOverrides[player.id]
+          ? { ...player, ...playerOverrides[player.id] }
+          : player
+      ),
+    [config.players, state.system, bench, playerOverrides]
+  );
+
+  const substitutionLimit = useMemo(
+    () => getSubstitutionLimit(config.validation.ruleSet),
+    [config.validation.ruleSet]
+  );
+
+  // Starter -> substitute currently on court in their place
+  const substitutionLineup = useMemo(
+    () => getSubstitutionLineup(substitutionState),
+    [substitutionState]
+  );
+
+  // Substitutes follow their starters through every rotation
+  const rotations = useMemo(
+    () =>
+      applySubstitutionsToRotations(
+        config.rotations[state.system],
+        substitutionLineup
+      ),
+    [config.rotations, state.system, substitutionLineup]
+  );
+
+  // Libero replacement for the current rotation
+  const liberoSwap = useMemo(
+    () => getLiberoSwap(rotations[state.rotationIndex], libero, serverSlot),
+    [rotations, libero, serverSlot, state.rotationIndex]
+  );
+
+  const activeRotationMap = useMemo(
+    () => applyLiberoToRotation(rotations[state.rotationIndex], liberoSwap),
+    [rotations, state.rotationIndex, liberoSwap]
+  );
+
+  // Annotations stored per system/rotation/formation, in the same shape
+  // as stored positions
+  const [annotationStore, setAnnotationStore] = React.useState<
+    Record<SystemType, CustomPositionsState>
+  >(() => createSystemStore(Object.keys(config.players), () => ({})));
+
+  const annotations = useMemo(
+    () =>
+      getFormationAnnotations(
+        annotationStore[state.system] ?? {},
+        state.rotationIndex,
+        state.formation
+      ),
+    [annotationStore, state.system, state.rotationIndex, state.formation]
+  );
+
+  // Saved play sequences and the one open in the timeline
+  const [sequences, setSequences] = React.useState<PlaySequence[]>([]);
+  const [activeSequenceId, setActiveSequenceId] = React.useState<
+    string | null
+  >(null);
+
+  const activeSequence = useMemo(
+    () =>
+      sequences.find((sequence) => sequence.id === activeSequenceId) ?? null,
+    [sequences, activeSequenceId]
+  );
+
+  const sequenceDuration = activeSequence
+    ? getSequenceDuration(activeSequence)
+    : 0;
+
+  const {
+    isPlaying: isSequencePlaying,
+    time: sequenceTime,
+    play: playSequencePlayback,
+    stop: stopSequencePlayback,
+    seek: seekSequencePlayback,
+  } = useSequencePlayback(sequenceDuration, () =>
+    setState((prev) => ({ ...prev, isAnimating: false }))
+  );
+
+  const sequencePlayback = useMemo<SequencePlaybackState>(
+    () => ({ isPlaying: isSequencePlaying, time: sequenceTime }),
+    [isSequencePlaying, sequenceTime]
+  );
+
+  // Positions of the players on court, with substitutions and the libero
+  const lineupPositions = useMemo(
+    () =>
+      applyLiberoToPositions(
+        applySubstitutionsToPositions(state.positions, substitutionLineup),
+        liberoSwap
+      ),
+    [state.positions, substitutionLineup, liberoSwap]
+  );
+
+  // While a sequence is playing or scrubbed, show its interpolated frame
+  const activePositions = useMemo(() => {
+    if (
+      activeSequence &&
+      activeSequence.keyframes.length > 0 &&
+      sequenceTime !== null
+    ) {
+      return getPositionsAtTime(
+        activeSequence,
+        sequenceTime,
+        config.animation
+      ) as VolleyballCourtState["positions"];
+    }
+
+    return lineupPositions;
+  }, [activeSequence, sequenceTime, config.animation, lineupPositions]);
+
+  // Screen reader announcements, read from a live region by the court
+  const [announcement, setAnnouncement] =
+    React.useState<CourtAnnouncement | null>(null);
+
+  const announce = useCallback((message: string) => {
+    setAnnouncement((prev) => ({ id: (prev?.id ?? 0) + 1, message }));
+  }, []);
+
+  const localization = useMemo(
+    () => createLocalization(config.localization),
+    [config.localization]
+  );
+
+  const descriptionContext = useMemo(
+    (): CourtDescriptionContext => ({
+      players: roster,
+      positions: activePositions,
+      rotationMap: activeRotationMap,
+      system: state.system,
+      rotation: state.rotationIndex,
+      formation: state.formation,
+      formationOptions,
+      validationPolicy,
+      serverSlot,
+    }),
+    [
+      roster,
+      activePositions,
+      activeRotationMap,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      formationOptions,
+      validationPolicy,
+      serverSlot,
+    ]
+  );
+
+  const getCourtDescription = useCallback(
+    () => describeCourt(descriptionContext, localization),
+    [descriptionContext, localization]
+  );
+
+  // Violations explained in plain language, announced when they change;
+  // not while a sequence plays
+  const violationExplanation = useMemo(
+    () =>
+      config.accessibility.announceViolations && sequenceTime === null
+        ? explainLineupViolations(
+            descriptionContext,
+            config.validation.ruleSet,
+            localization
+          ).join(" ")
+        : "",
+    [
+      config.accessibility.announceViolations,
+      config.validation.ruleSet,
+      descriptionContext,
+      localization,
+      sequenceTime,
+    ]
+  );
+
+  useEffect(() => {
+    if (violationExplanation) announce(violationExplanation);
+  }, [violationExplanation, announce]);
+
   // State update methods
   const setSystem = useCallback((system: SystemType) => {
     setState((prev) => ({ ...prev, system }));
@@ -405,16 +1002,71 @@ export function VolleyballCourtProvider({
     setState((prev) => ({ ...prev, error }));
   }, []);
 
+  // Saved positions (dragged, or moved by a collaborator) over the defaults
+  const getSavedPositions = useCallback(
+    (system: SystemType, rotation: number, formation: FormationType) => ({
+      ...getSystemDefaultPositions(formation, rotation, system, config),
+      ...positionManager.positions[system]?.[rotation]?.[formation],
+    }),
+    [config, positionManager]
+  );
+
+  // Persisted positions go into the position manager once it has loaded its
+  // own, as shown positions are read from it after initialization
+  const [restoredState, setRestoredState] =
+    React.useState<PersistenceState | null>(null);
+  useEffect(() => {
+    if (!restoredState || positionManager.isLoading) return;
+
+    positionManager.setFormationPositions(
+      restoredState.system,
+      restoredState.rotation,
+      restoredState.formation,
+      Object.fromEntries(
+        Object.entries(restoredState.positions).filter(
+          ([, position]) => position.isCustom
+        )
+      ) as Record<string, PlayerPosition>
+    );
+    setRestoredState(null);
+  }, [restoredState, positionManager]);
+
+  // The config the provider mounted with, read once by the restore below
+  const initialConfigRef = useRef(config);
+
   // Initialize from persistence on mount
   useEffect(() => {
     const initializePersistence = async () => {
       if (isInitialized) return;
+      const initialConfig = initialConfigRef.current;
 
       try {
         setState((prev) => ({ ...prev, isLoading: true }));
 
-        const persistedState = await persistenceManager.initialize();
-        if (persistedState) {
+        setSequences(persistenceManager.loadSequences());
+
+        const persistedState = await persistenceManager.initialize({
+          system: initialConfig.initialSystem,
+          rotation: initialConfig.initialRotation,
+          formation: initialConfig.initialFormation,
+        });
+        // Ignore saved or shared state for systems this config doesn't have
+        if (persistedState && initialConfig.players[persistedState.system]) {
+          if (persistedState.config?.validation?.customRules) {
+            setSharedCustomRules(persistedState.config.validation.customRules);
+          }
+          if (persistedState.annotations) {
+            setAnnotationStore((prev) => ({
+              ...prev,
+              [persistedState.system]: setFormationAnnotations(
+                prev[persistedState.system] ?? {},
+                persistedState.rotation,
+                persistedState.formation,
+                persistedState.annotations ?? []
+              ),
+            }));
+          }
+          setRestoredState(persistedState);
           setState((prev) => ({
             ...prev,
             system: persistedState.system,
@@ -425,11 +1077,11 @@ export function VolleyballCourtProvider({
           }));
         } else {
           // No persisted state, use default positions
-          const positions = getDefaultPositionsWithRotation(
-            config.initialFormation,
-            config.initialRotation,
-            config.initialSystem,
-            config.rotations[config.initialSystem]
+          const positions = getSystemDefaultPositions(
+            initialConfig.initialFormation,
+            initialConfig.initialRotation,
+            initialConfig.initialSystem,
+            initialConfig
           );
           setState((prev) => ({ ...prev, positions, isLoading: false }));
         }
@@ -437,11 +1089,11 @@ export function VolleyballCourtProvider({
         console.error("Failed to initialize persistence:", error);
 
         // Fallback to default positions
-        const positions = getDefaultPositionsWithRotation(
-          config.initialFormation,
-          config.initialRotation,
-          config.initialSystem,
-          config.rotations[config.initialSystem]
+        const positions = getSystemDefaultPositions(
+          initialConfig.initialFormation,
+          initialConfig.initialRotation,
+          initialConfig.initialSystem,
+          initialConfig
         );
         setState((prev) => ({
           ...prev,
@@ -455,27 +1107,34 @@ export function VolleyballCourtProvider({
     };
 
     initializePersistence();
-  }, []); // Empty dependency array to run only once on mount
+  }, [isInitialized, persistenceManager]); // Runs once: both settle after mount
 
   // Update positions when state changes (only after initialization)
   useEffect(() => {
     if (!isInitialized) return;
 
-    const positions = getDefaultPositionsWithRotation(
-      state.formation,
-      state.rotationIndex,
+    const positions = getSavedPositions(
       state.system,
-      config.rotations[state.system]
+      state.rotationIndex,
+      state.formation
     );
     setState((prev) => ({ ...prev, positions }));
   }, [
     state.system,
     state.rotationIndex,
     state.formation,
-    positionManager,
+    getSavedPositions,
     isInitialized,
   ]);
 
+  // Leave sequence preview when the court moves to another formation
+  useEffect(() => {
+    stopSequencePlayback();
+    setState((prev) =>
+      prev.isAnimating ? { ...prev, isAnimating: false } : prev
+    );
+  }, [state.system, state.rotationIndex, state.formation, stopSequencePlayback]);
+
   // Auto-save state changes to persistence (disabled for now to prevent test issues)
   // useEffect(() => {
   //   if (!isInitialized || state.isLoading) return;
@@ -506,9 +1165,111 @@ export function VolleyballCourtProvider({
       enableURLPersistence: enableSharing,
       enableLocalStorage: enablePersistence,
       autoSave: !readOnly,
+      remoteAdapter,
+      onSyncStatusChange,
+      onSyncConflict,
     });
     persistenceManager.setReadOnly(readOnly);
-  }, [enableSharing, enablePersistence, readOnly, persistenceManager]);
+  }, [
+    enableSharing,
+    enablePersistence,
+    readOnly,
+    remoteAdapter,
+    onSyncStatusChange,
+    onSyncConflict,
+    persistenceManager,
+  ]);
+
+  // Show a state from the undo history. Positions go back into the position
+  // manager, so they are saved like any other change.
+  const applyHistoryState = useCallback(
+    (
+      action: UndoRedoAction<CourtHistoryState>,
+      historyState: CourtHistoryState
+    ) => {
+      if (action.type === "position" || action.type === "reset") {
+        positionManager.setFormationPositions(
+          historyState.system,
+          historyState.rotation,
+          historyState.formation,
+          Object.fromEntries(
+            Object.entries(historyState.positions).filter(
+              ([, position]) => position.isCustom
+            )
+          ) as Record<string, PlayerPosition>
+        );
+      }
+
+      setState((prev) => ({
+        ...prev,
+        system: historyState.system,
+        rotationIndex: historyState.rotation,
+        formation: historyState.formation,
+        positions: historyState.positions,
+      }));
+    },
+    [positionManager]
+  );
+
+  const {
+    canUndo,
+    canRedo,
+    undo: undoHistory,
+    redo: redoHistory,
+    entries: historyEntries,
+    jumpTo,
+    pushAction: pushHistoryAction,
+    getSnapshot: getHistorySnapshot,
+    restore: restoreHistory,
+    clear: clearHistory,
+  } = useUndoRedo<CourtHistoryState>(
+    config.performance.maxHistorySize,
+    (action) => applyHistoryState(action, action.previousState),
+    (action) => applyHistoryState(action, action.newState)
+  );
+
+  const undo = useCallback(() => {
+    undoHistory();
+  }, [undoHistory]);
+
+  const redo = useCallback(() => {
+    redoHistory();
+  }, [redoHistory]);
+
+  const jumpToHistory = useCallback(
+    (actionId: string | null) => {
+      jumpTo(actionId);
+    },
+    [jumpTo]
+  );
+
+  // Keep the history across reloads when enabled
+  useEffect(() => {
+    if (!config.performance.persistHistory) return;
+
+    const snapshot = persistenceManager.loadHistory();
+    if (snapshot) {
+      restoreHistory(snapshot);
+    }
+  }, [config.performance.persistHistory, persistenceManager, restoreHistory]);
+
+  useEffect(() => {
+    if (config.performance.persistHistory) {
+      persistenceManager.saveHistory(getHistorySnapshot());
+    }
+  }, [
+    historyEntries,
+    config.performance.persistHistory,
+    persistenceManager,
+    getHistorySnapshot,
+  ]);
+
+  // Name of a player for history entries
+  const getPlayerName = useCallback(
+    (playerId: string) =>
+      roster.find((player) => player.id === playerId)?.name ?? playerId,
+    [roster]
+  );
 
   // Callback handlers
   const handlePositionChange = useCallback(
@@ -521,6 +1282,52 @@ export function VolleyballCourtProvider({
       const previousPositions = state.positions;
       setState((prev) => ({ ...prev, positions }));
 
+      // Saved to localStorage and, with a remote adapter, the backend
+      persistenceManager.save({
+        system: state.system,
+        rotation: state.rotationIndex,
+        formation: state.formation,
+        positions,
+        annotations,
+      });
+
+      if (
+        changeType === "drag" ||
+        changeType === "align" ||
+        changeType === "swap" ||
+        changeType === "autoFix" ||
+        changeType === "template" ||
+        changeType === "reset"
+      ) {
+        const formationState = {
+          system: state.system,
+          rotation: state.rotationIndex,
+          formation: state.formation,
+        };
+        const playerNames = !changedPlayers?.length
+          ? null
+          : changedPlayers.length === 1 || changeType === "swap"
+            ? changedPlayers.map(getPlayerName).join(" and ")
+            : `${changedPlayers.length} players`;
+        pushHistoryAction({
+          type: changeType === "reset" ? "reset" : "position",
+          description:
+            changeType === "drag"
+              ? `Move ${playerNames ?? "players"}`
+              : changeType === "align"
+                ? `Align ${playerNames ?? "players"}`
+                : changeType === "swap"
+                  ? `Swap ${playerNames ?? "players"}`
+                  : changeType === "autoFix"
+                    ? `Fix lineup: move ${playerNames ?? "players"}`
+                    : changeType === "template"
+                      ? `Apply template: move ${playerNames ?? "players"}`
+                      : `Reset ${playerNames ?? "formation"}`,
+          previousState: { ...formationState, positions: previousPositions },
+          newState: { ...formationState, positions },
+        });
+      }
+
       if (onPositionChange) {
         const positionData: PositionData = {
           system: state.system,
@@ -543,7 +1350,11 @@ export function VolleyballCourtProvider({
       state.rotationIndex,
       state.formation,
       state.positions,
+      annotations,
+      persistenceManager,
       onPositionChange,
+      pushHistoryAction,
+      getPlayerName,
     ]
   );
 
@@ -551,12 +1362,27 @@ export function VolleyballCourtProvider({
     (
       rotation: number,
       changeType: RotationChangeData["changeType"] = "manual",
-      triggeredBy?: string
+      triggeredBy?: string,
+      substitution?: Substitution
     ) => {
       const previousRotation = state.rotationIndex;
       setRotationIndex(rotation);
 
-      if (onRotationChange) {
+      // A substitution changes the lineup before the rotations update
+      const nextRotationMap = substitution
+        ? applySubstitutionsToRotation(rotations[rotation], {
+            [substitution.playerOutId]: substitution.playerInId,
+          })
+        : rotations[rotation];
+
+      // Libero auto-swaps in or out as the replaced players rotate
+      const nextLiberoSwap = getLiberoSwap(
+        nextRotationMap,
+        libero,
+        serverSlot
+      );
+
+      if (onRotationChange || onRotationChangeData) {
         const rotationData: RotationChangeData = {
           previousRotation,
           newRotation: rotation,
@@ -566,19 +1392,26 @@ export function VolleyballCourtProvider({
           changeType,
           metadata: {
             triggeredBy,
+            liberoSwap: nextLiberoSwap,
+            substitution,
           },
         };
         if (typeof onRotationChange === "function") {
           onRotationChange(rotation);
         }
+        onRotationChangeData?.(rotationData);
       }
     },
     [
       state.rotationIndex,
       state.system,
       state.formation,
+      rotations,
+      libero,
+      serverSlot,
       setRotationIndex,
       onRotationChange,
+      onRotationChangeData,
     ]
   );
 
@@ -591,6 +1424,31 @@ export function VolleyballCourtProvider({
       const previousFormation = state.formation;
       setFormation(formation);
 
+      if (changeType !== "programmatic" && formation !== previousFormation) {
+        const historyState = {
+          system: state.system,
+          rotation: state.rotationIndex,
+        };
+        pushHistoryAction({
+          type: "formation",
+          description: `Switch to ${formation} formation`,
+          previousState: {
+            ...historyState,
+            formation: previousFormation,
+            positions: state.positions,
+          },
+          newState: {
+            ...historyState,
+            formation,
+            positions: getSavedPositions(
+              state.system,
+              state.rotationIndex,
+              formation
+            ),
+          },
+        });
+      }
+
       if (onFormationChange) {
         const formationData: FormationChangeData = {
           previousFormation,
@@ -612,15 +1470,180 @@ export function VolleyballCourtProvider({
       state.formation,
       state.system,
       state.rotationIndex,
+      state.positions,
       setFormation,
       onFormationChange,
+      pushHistoryAction,
+      getSavedPositions,
+    ]
+  );
+
+  const handleSystemChange = useCallback(
+    (system: SystemType) => {
+      const previousSystem = state.system;
+      setSystem(system);
+
+      if (system !== previousSystem) {
+        const historyState = {
+          rotation: state.rotationIndex,
+          formation: state.formation,
+        };
+        pushHistoryAction({
+          type: "system",
+          description: `Switch to ${system} system`,
+          previousState: {
+            ...historyState,
+            system: previousSystem,
+            positions: state.positions,
+          },
+          newState: {
+            ...historyState,
+            system,
+            positions: getSavedPositions(
+              system,
+              state.rotationIndex,
+              state.formation
+            ),
+          },
+        });
+      }
+    },
+    [
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      state.positions,
+      setSystem,
+      pushHistoryAction,
+      getSavedPositions,
+    ]
+  );
+
+  // Selection is per formation
+  const [selectedPlayers, setSelectedPlayers] = React.useState<string[]>([]);
+
+  useEffect(() => {
+    setSelectedPlayers([]);
+  }, [state.system, state.rotationIndex, state.formation]);
+
+  const alignSelectedPlayers = useCallback(
+    (alignment: GroupAlignment) => {
+      const playerIds = selectedPlayers.filter((id) => state.positions[id]);
+      if (
+        playerIds.length < 2 ||
+        state.isReadOnly ||
+        state.formation === "rotational"
+      ) {
+        return;
+      }
+
+      const aligned = alignPlayers(state.positions, playerIds, alignment);
+      Object.entries(aligned).forEach(([playerId, position]) => {
+        positionManager.setPosition(
+          state.system,
+          state.rotationIndex,
+          state.formation,
+          playerId,
+          position
+        );
+      });
+      handlePositionChange(
+        { ...state.positions, ...aligned } as Record<string, PlayerPosition>,
+        "align",
+        playerIds
+      );
+    },
+    [
+      selectedPlayers,
+      state.positions,
+      state.isReadOnly,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      positionManager,
+      handlePositionChange,
     ]
   );
 
+  // Nearest legal lineup, keeping locked players in place and players
+  // inside the areas of data custom rules
+  const lineupFix = useMemo(() => {
+    if (!validationPolicy.overlap || state.isReadOnly || !activeRotationMap) {
+      return null;
+    }
+
+    const areas: Record<string, CustomRuleArea> = {};
+    Object.values(activeRotationMap).forEach((playerId) => {
+      const area = getRuleAreaForPlayer(customRules, playerId, {
+        formation: state.formation,
+        rotationMap: activeRotationMap,
+        players: roster,
+      });
+      if (area) areas[playerId] = area;
+    });
+
+    return findLineupFix(state.positions, activeRotationMap, {
+      serverSlot,
+      lockedPlayers: roster
+        .filter((player) => player.locked)
+        .map((player) => player.id),
+      areas,
+      ruleSet: config.validation.ruleSet,
+    });
+  }, [
+    state.positions,
+    state.formation,
+    state.isReadOnly,
+    activeRotationMap,
+    config.validation.ruleSet,
+    validationPolicy,
+    customRules,
+    roster,
+    serverSlot,
+  ]);
+
+  const applyLineupFix = useCallback(() => {
+    if (!lineupFix) return null;
+
+    Object.entries(lineupFix.positions).forEach(([playerId, position]) => {
+      positionManager.setPosition(
+        state.system,
+        state.rotationIndex,
+        state.formation,
+        playerId,
+        position
+      );
+    });
+    handlePositionChange(
+      { ...state.positions, ...lineupFix.positions } as Record<
+        string,
+        PlayerPosition
+      >,
+      "autoFix",
+      lineupFix.moves.map((move) => move.playerId)
+    );
+    return lineupFix;
+  }, [
+    lineupFix,
+    state.positions,
+    state.system,
+    state.rotationIndex,
+    state.formation,
+    positionManager,
+    handlePositionChange,
+  ]);
+
+  // Full violations behind state.violations, so the court can tell custom
+  // rules and fixable overlaps apart
+  const [reportedViolations, setReportedViolations] = React.useState<
+    ViolationData[]
+  >([]);
+
   const handleViolation = useCallback(
     (violations: ViolationData[]) => {
       const violationMessages = violations.map((v) => v.message);
       setViolations(violationMessages);
+      setReportedViolations(violations);
 
       // Enhance violations with context if not already present
       const enhancedViolations = violations.map((violation) => ({
@@ -708,13 +1731,15 @@ export function VolleyballCourtProvider({
         rotation: state.rotationIndex,
         formation: state.formation,
         positions: state.positions,
+        annotations,
         config,
       };
 
-      const shareData = persistenceManager.generateShareURL(
-        persistenceState,
-        config
-      );
+      // Rules from the link this court was opened with are shared again
+      const shareData = persistenceManager.generateShareURL(persistenceState, {
+        ...config,
+        validation: { ...config.validation, customRules },
+      });
       handleShare(shareData);
       return shareData;
     } catch (error) {
@@ -729,7 +1754,15 @@ export function VolleyballCourtProvider({
       handleError(errorData);
       throw error;
     }
-  }, [state, config, persistenceManager, handleShare, handleError]);
+  }, [
+    state,
+    annotations,
+    config,
+    customRules,
+    persistenceManager,
+    handleShare,
+    handleError,
+  ]);
 
   const copyShareURL = useCallback(
     async (url: string): Promise<void> => {
@@ -754,6 +1787,9 @@ export function VolleyballCourtProvider({
   const clearStoredData = useCallback(() => {
     try {
       persistenceManager.clear();
+      setAnnotationStore(
+        createSystemStore(Object.keys(config.players), () => ({}))
+      );
 
       // Reset to default state
       setState((prev) => ({
@@ -761,11 +1797,11 @@ export function VolleyballCourtProvider({
         system: config.initialSystem,
         rotationIndex: config.initialRotation,
         formation: config.initialFormation,
-        positions: getDefaultPositionsWithRotation(
+        positions: getSystemDefaultPositions(
           config.initialFormation,
           config.initialRotation,
           config.initialSystem,
-          config.rotations[config.initialSystem]
+          config
         ),
       }));
     } catch (error) {
@@ -785,32 +1821,143 @@ export function VolleyballCourtProvider({
     return persistenceManager.hasURLData();
   }, [persistenceManager]);
 
-  // Validate current formation when relevant state changes
-  useEffect(() => {
-    if (
-      config.validation.enableRealTimeValidation &&
-      state.formation !== "rotational" &&
-      state.formation !== "base" &&
-      state.formation !== "serveReceive" // Skip validation for base and serveReceive formations with default config
-    ) {
-      const rotationMap = config.rotations[state.system][state.rotationIndex];
-      const validation = positionManager.validateCurrentFormation(
-        state.system,
-        state.rotationIndex,
-        state.formation,
-        rotationMap
-      );
+  // Export methods
+  const exportCourt = useCallback(
+    async (
+      format: ExportFormat,
+      options: ExportOptions = {}
+    ): Promise<ExportResult> => {
+      try {
+        const exportConfig = config.export;
+        if (!exportConfig.exportFormats?.includes(format)) {
+          throw new Error(`Export format "${format}" is not enabled`);
+        }
+        if (
+          isImageExportFormat(format)
+            ? exportConfig.enableImageExport === false
+            : exportConfig.enableDataExport === false
+        ) {
+          throw new Error(`Export format "${format}" is disabled`);
+        }
 
-      if (!validation.isValid) {
-        const violations: ViolationData[] = validation.violations.map(
-          (message, index) => ({
-            id: `violation_${Date.now()}_${index}`,
-            code: "POSITIONING_VIOLATION",
-            message,
-            affectedPlayers: [],
+        const rotationCount = rotations.length;
+        const {
+          rotations: exportedRotations = format === "pdf" ? "all" : "current",
+        } = options;
+        const rotationIndexes =
+          exportedRotations === "current"
+            ? [state.rotationIndex]
+            : exportedRotations === "all"
+            ? Array.from({ length: rotationCount }, (_, index) => index)
+            : exportedRotations.filter(
+                (rotation) => rotation >= 0 && rotation < rotationCount
+              );
+
+        // The current rotation may hold edits; others use their defaults
+        const pages: CourtExportPage[] = rotationIndexes.map((rotation) => {
+          const positions =
+            rotation === state.rotationIndex
+              ? state.positions
+              : getSystemDefaultPositions(
+                  state.formation,
+                  rotation,
+                  state.system,
+                  config
+                );
+          const swap = getLiberoSwap(rotations[rotation], libero, serverSlot);
+
+          return {
+            players: roster,
+            data: {
+              system: state.system,
+              rotation,
+              formation: state.formation,
+              positions: applyLiberoToPositions(
+                applySubstitutionsToPositions(positions, substitutionLineup),
+                swap
+              ),
+              timestamp: Date.now(),
+            },
+          };
+        });
+
+        const size = options.size ?? exportConfig.defaultImageSize;
+        const result = await createCourtExport(format, pages, {
+          width: size?.width,
+          height: size?.height,
+          theme: config.appearance.theme === "dark" ? "dark" : "light",
+          courtColor: config.appearance.courtColor,
+          showZones: config.appearance.showCourtZones,
+          showGrid: config.appearance.showCourtGrid,
+          includeMetadata: exportConfig.includeMetadata,
+          filename: options.filename,
+        });
+
+        if (options.download !== false) {
+          downloadExport(result);
+        }
+        return result;
+      } catch (error) {
+        const errorData: ErrorData = {
+          id: `error_${Date.now()}`,
+          type: "unknown",
+          message: `Failed to export court as ${format.toUpperCase()}`,
+          details: error,
+          timestamp: Date.now(),
+          severity: "medium",
+        };
+        handleError(errorData);
+        throw error;
+      }
+    },
+    [
+      config,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      state.positions,
+      rotations,
+      roster,
+      substitutionLineup,
+      libero,
+      serverSlot,
+      handleError,
+    ]
+  );
+
+  // Validate current formation when relevant state changes
+  useEffect(() => {
+    const liberoViolations: ViolationData[] = validateLiberoLineup(
+      activeRotationMap,
+      roster,
+      libero,
+      serverSlot
+    ).map((violation, index) => ({
+      id: `violation_${Date.now()}_libero_${index}`,
+      code: violation.code,
+      message: violation.message,
+      affectedPlayers: violation.slots.map((slot) => activeRotationMap[slot]),
+      severity: "error" as const,
+      timestamp: Date.now(),
+      violationType: "rotation" as const,
+      context: {
+        system: state.system,
+        rotation: state.rotationIndex,
+        formation: state.formation,
+        positions: state.positions,
+      },
+    }));
+
+    // Coed systems: genders alternate around the serving order
+    if (systemDefinition?.constraints?.genderAlternation) {
+      validateGenderAlternation(activeRotationMap, roster).forEach(
+        (issue, index) =>
+          liberoViolations.push({
+            id: `violation_${Date.now()}_gender_${index}`,
+            ...issue,
             severity: "error" as const,
             timestamp: Date.now(),
-            violationType: "positioning" as const,
+            violationType: "rotation" as const,
             context: {
               system: state.system,
               rotation: state.rotationIndex,
@@ -818,14 +1965,105 @@ export function VolleyballCourtProvider({
               positions: state.positions,
             },
           })
-        );
-        handleViolation(violations);
+      );
+    }
+
+    // Court boundaries, collisions and switch legality, as the formation's
+    // policy has them
+    checkValidationPolicy(
+      lineupPositions,
+      activeRotationMap,
+      validationPolicy,
+      { players: roster, system: state.system, serverSlot },
+      localization
+    ).forEach((issue, index) =>
+      liberoViolations.push({
+        id: `violation_${Date.now()}_policy_${index}`,
+        ...issue,
+        timestamp: Date.now(),
+        context: {
+          system: state.system,
+          rotation: state.rotationIndex,
+          formation: state.formation,
+          positions: state.positions,
+        },
+      })
+    );
+
+    if (config.validation.enableRealTimeValidation) {
+      const rotationMap = config.rotations[state.system][state.rotationIndex];
+      const validation = positionManager.validateCurrentFormation(
+        state.system,
+        state.rotationIndex,
+        state.formation,
+        rotationMap,
+        serverSlot,
+        { customRules, players: roster }
+      );
+
+      // Overlap is only checked in formations whose policy applies it, serve
+      // receive by default; libero restrictions and custom rules apply to
+      // every formation
+      const overlapViolations: ViolationData[] = validation.violations.map(
+        (message, index) => ({
+          id: `violation_${Date.now()}_${index}`,
+          code: "POSITIONING_VIOLATION",
+          message,
+          affectedPlayers: [],
+          severity: "error" as const,
+          timestamp: Date.now(),
+          violationType: "positioning" as const,
+          context: {
+            system: state.system,
+            rotation: state.rotationIndex,
+            formation: state.formation,
+            positions: state.positions,
+          },
+          metadata: { autoFixAvailable: lineupFix !== null },
+        })
+      );
+      const customViolations: ViolationData[] = (
+        validation.customViolations ?? []
+      ).map((violation, index) => ({
+        id: `violation_${Date.now()}_custom_${index}`,
+        code: violation.ruleId,
+        message: violation.message,
+        affectedPlayers: violation.affectedPlayers,
+        severity: violation.severity,
+        timestamp: Date.now(),
+        violationType: "custom" as const,
+        context: {
+          system: state.system,
+          rotation: state.rotationIndex,
+          formation: state.formation,
+          positions: state.positions,
+        },
+        metadata: {
+          rule: violation.ruleName,
+          // Only data rules have an area the fix can move players into
+          autoFixAvailable:
+            lineupFix !== null &&
+            customRules.some(
+              (rule) => rule.id === violation.ruleId && rule.condition
+            ),
+        },
+      }));
+
+      const allViolations = [
+        ...liberoViolations,
+        ...overlapViolations,
+        ...customViolations,
+      ];
+      if (allViolations.length > 0) {
+        handleViolation(allViolations);
       } else {
         setViolations([]);
+        setReportedViolations([]);
       }
     } else {
-      // Clear violations for base formation or when validation is disabled
+      // Clear violations when validation is disabled
       setViolations([]);
+      setReportedViolations([]);
     }
   }, [
     state.system,
@@ -833,12 +2071,799 @@ export function VolleyballCourtProvider({
     state.formation,
     state.positions,
     config.validation.enableRealTimeValidation,
+    customRules,
+    lineupFix,
     config.rotations,
+    roster,
+    libero,
+    serverSlot,
+    activeRotationMap,
+    lineupPositions,
+    systemDefinition,
+    validationPolicy,
+    localization,
     positionManager,
     handleViolation,
     setViolations,
   ]);
 
+  // Annotation methods
+  const updateCurrentAnnotations = useCallback(
+    (update: (current: CourtAnnotation[]) => CourtAnnotation[]) => {
+      setAnnotationStore((prev) => ({
+        ...prev,
+        [state.system]: setFormationAnnotations(
+          prev[state.system] ?? {},
+          state.rotationIndex,
+          state.formation,
+          update(
+            getFormationAnnotations(
+              prev[state.system] ?? {},
+              state.rotationIndex,
+              state.formation
+            )
+          )
+        ),
+      }));
+    },
+    [state.system, state.rotationIndex, state.formation]
+  );
+
+  const setAnnotations = useCallback(
+    (nextAnnotations: CourtAnnotation[]) =>
+      updateCurrentAnnotations(() => nextAnnotations),
+    [updateCurrentAnnotations]
+  );
+
+  const addAnnotation = useCallback(
+    (annotation: CourtAnnotation) =>
+      updateCurrentAnnotations((current) => [...current, annotation]),
+    [updateCurrentAnnotations]
+  );
+
+  const updateAnnotation = useCallback(
+    (annotation: CourtAnnotation) =>
+      updateCurrentAnnotations((current) =>
+        current.map((existing) =>
+          existing.id === annotation.id ? annotation : existing
+        )
+      ),
+    [updateCurrentAnnotations]
+  );
+
+  const removeAnnotation = useCallback(
+    (annotationId: string) =>
+      updateCurrentAnnotations((current) =>
+        current.filter((annotation) => annotation.id !== annotationId)
+      ),
+    [updateCurrentAnnotations]
+  );
+
+  // Full-court methods
+  const setFullCourtEnabled = useCallback((enabled: boolean) => {
+    setFullCourt((prev) => ({ ...prev, enabled }));
+  }, []);
+
+  const setServingTeam = useCallback((team: TeamSide) => {
+    setFullCourt((prev) => ({ ...prev, servingTeam: team }));
+  }, []);
+
+  const setOpponentRotation = useCallback((rotation: number) => {
+    setFullCourt((prev) => ({
+      ...prev,
+      opponentRotation: ((rotation % 6) + 6) % 6,
+    }));
+  }, []);
+
+  const setOpponentPosition = useCallback(
+    (markerId: string, position: VolleyballCourtState["positions"][string]) => {
+      setFullCourt((prev) => ({
+        ...prev,
+        opponentPositions: {
+          ...prev.opponentPositions,
+          [prev.opponentRotation]: {
+            ...prev.opponentPositions[prev.opponentRotation],
+            [markerId]: position,
+          },
+        },
+      }));
+    },
+    []
+  );
+
+  const resetOpponentPositions = useCallback(() => {
+    setFullCourt((prev) => {
+      const opponentPositions = { ...prev.opponentPositions };
+      delete opponentPositions[prev.opponentRotation];
+      return { ...prev, opponentPositions };
+    });
+  }, []);
+
+  // Per-player actions
+  const updatePlayer = useCallback(
+    (playerId: string, details: PlayerDetails) => {
+      setPlayerOverrides((prev) => ({
+        ...prev,
+        [playerId]: { ...prev[playerId], ...details },
+      }));
+    },
+    []
+  );
+
+  const resetPlayerPosition = useCallback(
+    (playerId: string) => {
+      const defaultPosition = getSystemDefaultPositions(
+        state.formation,
+        state.rotationIndex,
+        state.system,
+        config
+      )[playerId];
+      if (!defaultPosition || state.isReadOnly) return;
+
+      positionManager.resetPosition(
+        state.system,
+        state.rotationIndex,
+        state.formation,
+        playerId
+      );
+      handlePositionChange(
+        { ...state.positions, [playerId]: defaultPosition } as Record<
+          string,
+          PlayerPosition
+        >,
+        "reset",
+        [playerId]
+      );
+    },
+    [
+      state.formation,
+      state.rotationIndex,
+      state.system,
+      state.positions,
+      state.isReadOnly,
+      config,
+      positionManager,
+      handlePositionChange,
+    ]
+  );
+
+  const swapPlayerPositions = useCallback(
+    (playerId: string, otherPlayerId: string): boolean => {
+      const first = state.positions[playerId];
+      const second = state.positions[otherPlayerId];
+      if (
+        !first ||
+        !second ||
+        playerId === otherPlayerId ||
+        state.isReadOnly ||
+        state.formation === "rotational"
+      ) {
+        return false;
+      }
+
+      const positions = {
+        ...state.positions,
+        [playerId]: { ...second, isCustom: true, lastModified: new Date() },
+        [otherPlayerId]: { ...first, isCustom: true, lastModified: new Date() },
+      } as Record<string, PlayerPosition>;
+
+      // Set together: one at a time, each would collide with the other
+      positionManager.setFormationPositions(
+        state.system,
+        state.rotationIndex,
+        state.formation,
+        Object.fromEntries(
+          Object.entries(positions).filter(([, position]) => position.isCustom)
+        ) as Record<string, PlayerPosition>
+      );
+      handlePositionChange(positions, "swap", [playerId, otherPlayerId]);
+      return true;
+    },
+    [
+      state.positions,
+      state.isReadOnly,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      positionManager,
+      handlePositionChange,
+    ]
+  );
+
+  const markAsServer = useCallback(
+    (playerId: string): boolean => {
+      const rotation = rotations.findIndex(
+        (rotationMap) => rotationMap[1] === playerId
+      );
+      if (rotation === -1 || state.isReadOnly) return false;
+
+      if (rotation !== state.rotationIndex) {
+        handleRotationChange(rotation, "manual", "player-context-menu");
+      }
+      setServingTeam("home");
+      return true;
+    },
+    [
+      rotations,
+      state.isReadOnly,
+      state.rotationIndex,
+      handleRotationChange,
+      setServingTeam,
+    ]
+  );
+
+  const copyPositionToAllRotations = useCallback(
+    (playerId: string): CopyPositionResult => {
+      const result: CopyPositionResult = { copied: [], skipped: [] };
+      const position = state.positions[playerId];
+      if (
+        !position ||
+        state.isReadOnly ||
+        state.formation === "rotational"
+      ) {
+        return result;
+      }
+
+      rotations.forEach((rotationMap, rotation) => {
+        if (rotation === state.rotationIndex) return;
+
+        const isOnCourt = Object.values(rotationMap).includes(playerId);
+        const isLegal =
+          isOnCourt &&
+          positionManager.validatePositionWithRules(
+            state.system,
+            rotation,
+            state.formation,
+            playerId,
+            position,
+            rotationMap
+          ).isValid;
+
+        if (
+          isLegal &&
+          positionManager.setPosition(
+            state.system,
+            rotation,
+            state.formation,
+            playerId,
+            { x: position.x, y: position.y }
+          )
+        ) {
+          result.copied.push(rotation);
+        } else {
+          result.skipped.push(rotation);
+        }
+      });
+
+      return result;
+    },
+    [
+      state.positions,
+      state.isReadOnly,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      rotations,
+      positionManager,
+    ]
+  );
+
+  // Substitution methods
+  const substitutePlayer = useCallback(
+    (playerInId: string, playerOutId: string): boolean => {
+      const issues = validateSubstitution(
+        substitutionState,
+        playerInId,
+        playerOutId,
+        rotations[state.rotationIndex],
+        Object.values(config.rotations[state.system][0] ?? {}),
+        bench.map((player) => player.id),
+        substitutionLimit
+      );
+
+      // The substituted rotations must still form a legal sequence, unless
+      // the configured rotations do not follow the standard pattern
+      if (
+        issues.length === 0 &&
+        RotationCustomization.validateRotationSequence(
+          rotations,
+          state.system,
+          roster
+        ).isValid
+      ) {
+        const sequence = RotationCustomization.validateRotationSequence(
+          applySubstitutionsToRotations(rotations, {
+            [playerOutId]: playerInId,
+          }),
+          state.system,
+          roster
+        );
+        issues.push(
+          ...sequence.errors.map((message) => ({
+            code: "SUB_INVALID_ROTATION",
+            message,
+            affectedPlayers: [playerInId, playerOutId],
+          }))
+        );
+      }
+
+      if (issues.length > 0) {
+        handleViolation(
+          issues.map((issue, index) => ({
+            id: `violation_${Date.now()}_substitution_${index}`,
+            code: issue.code,
+            message: issue.message,
+            affectedPlayers: issue.affectedPlayers,
+            severity: "error" as const,
+            timestamp: Date.now(),
+            violationType: "rotation" as const,
+            context: {
+              system: state.system,
+              rotation: state.rotationIndex,
+              formation: state.formation,
+              positions: state.positions,
+            },
+            metadata: { rule: "substitution" },
+          }))
+        );
+        return false;
+      }
+
+      const { state: nextState, substitution } = recordSubstitution(
+        substitutionState,
+        playerInId,
+        playerOutId,
+        state.rotationIndex
+      );
+      setSubstitutionStore((prev) => ({ ...prev, [state.system]: nextState }));
+      handleRotationChange(
+        state.rotationIndex,
+        "programmatic",
+        "substitution",
+        substitution
+      );
+      return true;
+    },
+    [
+      substitutionState,
+      rotations,
+      bench,
+      roster,
+      substitutionLimit,
+      config.rotations,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      state.positions,
+      handleViolation,
+      handleRotationChange,
+    ]
+  );
+
+  const startNewSet = useCallback(() => {
+    setSubstitutionStore((prev) => ({
+      ...prev,
+      [state.system]: startNextSubstitutionSet(prev[state.system]),
+    }));
+  }, [state.system]);
+
+  // Match mode methods
+  const setMatchEnabled = useCallback(
+    (enabled: boolean) => {
+      setMatch((prev) => ({ ...prev, enabled }));
+
+      // Show the formation for whoever is serving
+      const formation = getServingFormation(fullCourt.servingTeam);
+      if (enabled && formation !== state.formation) {
+        handleFormationChange(formation, "programmatic", "match");
+      }
+    },
+    [fullCourt.servingTeam, state.formation, handleFormationChange]
+  );
+
+  const recordRally = useCallback(
+    (winner: TeamSide) => {
+      if (!match.enabled) return;
+
+      const result = scoreRally(match, winner, {
+        servingTeam: fullCourt.servingTeam,
+        rotation: state.rotationIndex,
+        opponentRotation: fullCourt.opponentRotation,
+        rotationCount: rotations.length,
+      });
+
+      setMatch(result.match);
+      setFullCourt((prev) => ({
+        ...prev,
+        servingTeam: result.servingTeam,
+        opponentRotation: result.opponentRotation,
+      }));
+
+      if (result.rotation !== state.rotationIndex) {
+        handleRotationChange(result.rotation, "programmatic", "match");
+      }
+
+      const formation = getServingFormation(result.servingTeam);
+      if (formation !== state.formation) {
+        handleFormationChange(formation, "programmatic", "match");
+      }
+    },
+    [
+      match,
+      fullCourt.servingTeam,
+      fullCourt.opponentRotation,
+      state.rotationIndex,
+      state.formation,
+      rotations.length,
+      handleRotationChange,
+      handleFormationChange,
+    ]
+  );
+
+  const resetMatch = useCallback(() => {
+    setMatch((prev) => createMatchState(prev.enabled));
+  }, []);
+
+  const exportRallyLog = useCallback(
+    (options: { filename?: string; download?: boolean } = {}) => {
+      const result: ExportResult = {
+        format: "csv",
+        filename: `${options.filename ?? "volleyball-rally-log"}.csv`,
+        mimeType: EXPORT_MIME_TYPES.csv,
+        blob: new Blob([serializeRallyLogToCSV(match.rallies)], {
+          type: EXPORT_MIME_TYPES.csv,
+        }),
+      };
+
+      if (options.download !== false) {
+        downloadExport(result);
+      }
+      return result;
+    },
+    [match.rallies]
+  );
+
+  // Play sequence methods
+  const setActiveSequence = useCallback(
+    (sequenceId: string | null) => {
+      stopSequencePlayback();
+      setState((prev) => ({ ...prev, isAnimating: false }));
+      setActiveSequenceId(sequenceId);
+    },
+    [stopSequencePlayback]
+  );
+
+  const saveSequence = useCallback(
+    (sequence: PlaySequence) => {
+      setSequences((prev) => {
+        const next = prev.some((existing) => existing.id === sequence.id)
+          ? prev.map((existing) =>
+              existing.id === sequence.id ? sequence : existing
+            )
+          : [...prev, sequence];
+        persistenceManager.saveSequences(next);
+        return next;
+      });
+    },
+    [persistenceManager]
+  );
+
+  const deleteSequence = useCallback(
+    (sequenceId: string) => {
+      if (sequenceId === activeSequenceId) {
+        setActiveSequence(null);
+      }
+      setSequences((prev) => {
+        const next = prev.filter((sequence) => sequence.id !== sequenceId);
+        persistenceManager.saveSequences(next);
+        return next;
+      });
+    },
+    [activeSequenceId, setActiveSequence, persistenceManager]
+  );
+
+  const playSequence = useCallback(() => {
+    if (!activeSequence || activeSequence.keyframes.length < 2) {
+      return;
+    }
+
+    setState((prev) => ({ ...prev, isAnimating: true }));
+    playSequencePlayback(
+      sequenceTime !== null && sequenceTime < sequenceDuration
+        ? sequenceTime
+        : 0
+    );
+  }, [activeSequence, sequenceTime, sequenceDuration, playSequencePlayback]);
+
+  const stopSequence = useCallback(() => {
+    stopSequencePlayback();
+    setState((prev) => ({ ...prev, isAnimating: false }));
+  }, [stopSequencePlayback]);
+
+  const scrubSequence = useCallback(
+    (time: number | null) => {
+      seekSequencePlayback(time);
+      setState((prev) => ({ ...prev, isAnimating: false }));
+    },
+    [seekSequencePlayback]
+  );
+
+  // Playbooks, kept in sync with the playbook manager after every change
+  const [playbooks, setPlaybooks] = React.useState<PlaybookSummary[]>([]);
+  const [activePlaybookId, setActivePlaybookId] = React.useState<
+    string | null
+  >(null);
+
+  const [playbookTemplates, setPlaybookTemplates] = React.useState<
+    FormationTemplate[]
+  >([]);
+
+  const refreshPlaybooks = useCallback(async () => {
+    const [list, activeId, templates] = await Promise.all([
+      playbookManager.listPlaybooks(),
+      playbookManager.getActivePlaybookId(),
+      playbookManager.getTemplates(),
+    ]);
+    setPlaybooks(list);
+    setActivePlaybookId(activeId);
+    setPlaybookTemplates(templates);
+  }, []);
+
+  useEffect(() => {
+    refreshPlaybooks().catch((error) =>
+      console.error("Failed to load playbooks:", error)
+    );
+  }, [refreshPlaybooks]);
+
+  // Runs a playbook change; when it can change the active playbook, pending
+  // positions are saved first and the court shows the new playbook after
+  const runPlaybookAction = useCallback(
+    async (
+      action: () => Promise<unknown>,
+      message: string,
+      changesActivePlaybook: boolean = true
+    ): Promise<void> => {
+      try {
+        if (changesActivePlaybook) {
+          await positionManager.saveImmediate();
+        }
+
+        await action();
+
+        if (changesActivePlaybook) {
+          await positionManager.reloadPositions();
+          const playbook = await playbookManager.getActivePlaybook();
+          setState((prev) => ({
+            ...prev,
+            positions: {
+              ...getSystemDefaultPositions(
+                prev.formation,
+                prev.rotationIndex,
+                prev.system,
+                config
+              ),
+              ...playbook.positions[prev.system]?.[prev.rotationIndex]?.[
+                prev.formation
+              ],
+            },
+          }));
+        }
+
+        await refreshPlaybooks();
+      } catch (error) {
+        const errorData: ErrorData = {
+          id: `error_${Date.now()}`,
+          type: "storage",
+          message,
+          details: error,
+          timestamp: Date.now(),
+          severity: "medium",
+        };
+        handleError(errorData);
+      }
+    },
+    [positionManager, config, refreshPlaybooks, handleError]
+  );
+
+  const createPlaybook = useCallback(
+    (name: string) =>
+      runPlaybookAction(async () => {
+        const playbook = await playbookManager.createPlaybook(name);
+        await playbookManager.setActivePlaybook(playbook.id);
+      }, "Failed to create playbook"),
+    [runPlaybookAction]
+  );
+
+  const renamePlaybook = useCallback(
+    (playbookId: string, name: string) =>
+      runPlaybookAction(
+        () => playbookManager.renamePlaybook(playbookId, name),
+        "Failed to rename playbook",
+        false
+      ),
+    [runPlaybookAction]
+  );
+
+  const duplicatePlaybook = useCallback(
+    (playbookId: string) =>
+      runPlaybookAction(async () => {
+        const playbook = await playbookManager.duplicatePlaybook(playbookId);
+        await playbookManager.setActivePlaybook(playbook.id);
+      }, "Failed to duplicate playbook"),
+    [runPlaybookAction]
+  );
+
+  const deletePlaybook = useCallback(
+    (playbookId: string) =>
+      runPlaybookAction(
+        () => playbookManager.deletePlaybook(playbookId),
+        "Failed to delete playbook",
+        playbookId === activePlaybookId
+      ),
+    [runPlaybookAction, activePlaybookId]
+  );
+
+  const switchPlaybook = useCallback(
+    (playbookId: string) =>
+      runPlaybookAction(
+        () => playbookManager.setActivePlaybook(playbookId),
+        "Failed to switch playbook"
+      ),
+    [runPlaybookAction]
+  );
+
+  const templates = useMemo(
+    () =>
+      getFormationTemplates(state.formation, [
+        ...config.templates,
+        ...playbookTemplates,
+      ]),
+    [state.formation, config.templates, playbookTemplates]
+  );
+
+  // Places the players of the current rotation with a template, as one
+  // undoable change
+  const applyTemplate = useCallback(
+    (templateId: string) => {
+      const template = templates.find(({ id }) => id === templateId);
+      const rotationMap = config.rotations[state.system]?.[state.rotationIndex];
+      if (!template || !rotationMap || state.isReadOnly) return;
+
+      const positions = applyFormationTemplate(template, rotationMap, {
+        players: roster,
+        system: state.system,
+        liberoSlot: liberoSwap?.slot ?? null,
+        serverSlot,
+        positions: state.positions as Record<string, PlayerPosition>,
+        ruleSet: config.validation.ruleSet,
+      });
+      if (!positions) return;
+
+      Object.entries(positions).forEach(([playerId, position]) => {
+        positionManager.setPosition(
+          state.system,
+          state.rotationIndex,
+          state.formation,
+          playerId,
+          position
+        );
+      });
+      handlePositionChange(
+        { ...state.positions, ...positions } as Record<string, PlayerPosition>,
+        "template",
+        Object.keys(positions)
+      );
+    },
+    [
+      templates,
+      config.rotations,
+      config.validation.ruleSet,
+      state.positions,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      state.isReadOnly,
+      roster,
+      liberoSwap,
+      serverSlot,
+      positionManager,
+      handlePositionChange,
+    ]
+  );
+
+  const saveTemplate = useCallback(
+    async (name: string) => {
+      const rotationMap = config.rotations[state.system]?.[state.rotationIndex];
+      if (!rotationMap || state.formation === "rotational") return;
+
+      const template = createFormationTemplate(
+        name,
+        state.formation,
+        state.positions as Record<string, PlayerPosition>,
+        rotationMap,
+        {
+          players: roster,
+          system: state.system,
+          liberoSlot: liberoSwap?.slot ?? null,
+        }
+      );
+      await runPlaybookAction(
+        () => playbookManager.saveTemplates([...playbookTemplates, template]),
+        "Failed to save template",
+        false
+      );
+    },
+    [
+      config.rotations,
+      state.positions,
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      roster,
+      liberoSwap,
+      playbookTemplates,
+      runPlaybookAction,
+    ]
+  );
+
+  // Show moves made by collaborators on the formation being viewed
+  const handleRemoteOperations = useCallback(
+    (operations: PositionOperation[]) => {
+      const visible = operations.filter(
+        (operation) =>
+          operation.system === state.system &&
+          operation.rotation === state.rotationIndex &&
+          operation.formation === state.formation
+      );
+      if (visible.length === 0) return;
+
+      const positions = { ...state.positions } as Record<
+        string,
+        PlayerPosition
+      >;
+      visible.forEach((operation) => {
+        positions[operation.playerId] = {
+          ...operation.position,
+          isCustom: true,
+          lastModified: new Date(operation.timestamp),
+        };
+      });
+      handlePositionChange(
+        positions,
+        "remote",
+        visible.map((operation) => operation.playerId)
+      );
+    },
+    [
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      state.positions,
+      handlePositionChange,
+    ]
+  );
+
+  // Tell collaborators which formation is shown and who is being dragged
+  useEffect(() => {
+    updatePresence({
+      system: state.system,
+      rotation: state.rotationIndex,
+      formation: state.formation,
+      draggedPlayerId: state.draggedPlayer,
+    });
+  }, [
+    updatePresence,
+    state.system,
+    state.rotationIndex,
+    state.formation,
+    state.draggedPlayer,
+  ]);
+
+  const updateCursor = useCallback(
+    (cursor: { x: number; y: number } | null) => updatePresence({ cursor }),
+    [updatePresence]
+  );
+
   // Context value
   const contextValue = useMemo<VolleyballCourtContextValue>(
     () => ({
@@ -858,16 +2883,97 @@ export function VolleyballCourtProvider({
       setShowShareDialog,
       setError,
       config,
+      systemOptions,
+      systemDefinition,
+      formationOptions,
+      formationDefinition,
+      validationPolicy,
+      liberoSwap,
+      activeRotationMap,
+      activePositions,
       handlePositionChange,
       handleRotationChange,
       handleFormationChange,
+      handleSystemChange,
       handleViolation,
+      reportedViolations,
       handleShare,
       handleError,
       generateShareURL,
       copyShareURL,
       clearStoredData,
       hasURLData,
+      exportCourt,
+      annotations,
+      setAnnotations,
+      addAnnotation,
+      updateAnnotation,
+      removeAnnotation,
+      fullCourt,
+      opponentMarkers,
+      opponentPositions,
+      opponentServerId,
+      serverSlot,
+      setFullCourtEnabled,
+      setServingTeam,
+      setOpponentRotation,
+      setOpponentPosition,
+      resetOpponentPositions,
+      bench,
+      roster,
+      rotations,
+      substitutionState,
+      substitutionLimit,
+      substitutePlayer,
+      startNewSet,
+      match,
+      setMatchEnabled,
+      recordRally,
+      resetMatch,
+      exportRallyLog,
+      sequences,
+      activeSequence,
+      sequencePlayback,
+      setActiveSequence,
+      saveSequence,
+      deleteSequence,
+      playSequence,
+      stopSequence,
+      scrubSequence,
+      playbooks,
+      activePlaybookId,
+      createPlaybook,
+      renamePlaybook,
+      duplicatePlaybook,
+      deletePlaybook,
+      switchPlaybook,
+      templates,
+      applyTemplate,
+      saveTemplate,
+      canUndo,
+      canRedo,
+      undo,
+      redo,
+      historyEntries,
+      jumpToHistory,
+      clearHistory,
+      selectedPlayers,
+      setSelectedPlayers,
+      alignSelectedPlayers,
+      lineupFix,
+      applyLineupFix,
+      updatePlayer,
+      resetPlayerPosition,
+      swapPlayerPositions,
+      markAsServer,
+      copyPositionToAllRotations,
+      announcement,
+      announce,
+      getCourtDescription,
+      localization,
+      collaborators,
+      isCollaborating,
+      updateCursor,
     }),
     [
       state,
@@ -886,22 +2992,105 @@ export function VolleyballCourtProvider({
       setShowShareDialog,
       setError,
       config,
+      systemOptions,
+      systemDefinition,
+      formationOptions,
+      formationDefinition,
+      validationPolicy,
+      liberoSwap,
+      activeRotationMap,
+      activePositions,
       handlePositionChange,
       handleRotationChange,
       handleFormationChange,
+      handleSystemChange,
       handleViolation,
+      reportedViolations,
       handleShare,
       handleError,
       generateShareURL,
       copyShareURL,
       clearStoredData,
       hasURLData,
+      exportCourt,
+      annotations,
+      setAnnotations,
+      addAnnotation,
+      updateAnnotation,
+      removeAnnotation,
+      fullCourt,
+      opponentMarkers,
+      opponentPositions,
+      opponentServerId,
+      serverSlot,
+      setFullCourtEnabled,
+      setServingTeam,
+      setOpponentRotation,
+      setOpponentPosition,
+      resetOpponentPositions,
+      bench,
+      roster,
+      rotations,
+      substitutionState,
+      substitutionLimit,
+      substitutePlayer,
+      startNewSet,
+      match,
+      setMatchEnabled,
+      recordRally,
+      resetMatch,
+      exportRallyLog,
+      sequences,
+      activeSequence,
+      sequencePlayback,
+      setActiveSequence,
+      saveSequence,
+      deleteSequence,
+      playSequence,
+      stopSequence,
+      scrubSequence,
+      playbooks,
+      activePlaybookId,
+      createPlaybook,
+      renamePlaybook,
+      duplicatePlaybook,
+      deletePlaybook,
+      switchPlaybook,
+      templates,
+      applyTemplate,
+      saveTemplate,
+      canUndo,
+      canRedo,
+      undo,
+      redo,
+      historyEntries,
+      jumpToHistory,
+      clearHistory,
+      selectedPlayers,
+      setSelectedPlayers,
+      alignSelectedPlayers,
+      lineupFix,
+      applyLineupFix,
+      updatePlayer,
+      resetPlayerPosition,
+      swapPlayerPositions,
+      markAsServer,
+      copyPositionToAllRotations,
+      announcement,
+      announce,
+      getCourtDescription,
+      localization,
+      collaborators,
+      isCollaborating,
+      updateCursor,
     ]
   );
 
   return (
     <VolleyballCourtContext.Provider value={contextValue}>
-      {children}
+      <LocalizationContext.Provider value={localization}>
+        {children}
+      </LocalizationContext.Provider>
     </VolleyballCourtContext.Provider>
   );
 }
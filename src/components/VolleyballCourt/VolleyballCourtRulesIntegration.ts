@@ -5,6 +5,8 @@
 
 import { VolleyballRulesEngine } from "./volleyball-rules-engine/VolleyballRulesEngine";
 import { ConstraintCalculator } from "./volleyball-rules-engine/validation/ConstraintCalculator";
+import { OptimizedConstraintCalculator } from "./volleyball-rules-engine/validation/OptimizedConstraintCalculator";
+import { RuleSetRegistry } from "./volleyball-rules-engine/validation/RuleSetRegistry";
 import { StateConverter } from "./volleyball-rules-engine/utils/StateConverter";
 import { CoordinateTransformer } from "./volleyball-rules-engine/utils/CoordinateTransformer";
 import type {
@@ -12,6 +14,11 @@ import type {
   RotationSlot,
 } from "./volleyball-rules-engine/types/PlayerState";
 import type { PositionBounds } from "./volleyball-rules-engine/types/ValidationResult";
+import { translatePlayers } from "./utils/groupPositioning";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "./volleyball-rules-engine/types/RuleSet";
 import type {
   PlayerPosition,
   SystemType,
@@ -31,7 +38,8 @@ export interface RulesIntegrationConfig {
   enableRealTimeValidation: boolean;
   enableConstraintBoundaries: boolean;
   enablePositionSnapping: boolean;
-  serverSlot?: RotationSlot;
+  serverSlot?: RotationSlot | null; // null when the other team is serving
+  ruleSet?: RuleSetName | RuleSet;
 }
 
 /**
@@ -44,6 +52,18 @@ export interface ScreenValidationResult {
   snappedPosition?: PlayerPosition;
 }
 
+/**
+ * Offset for a group of players after fitting it to the rules
+ */
+export interface GroupMoveResult {
+  delta: { x: number; y: number };
+  isBlocked: boolean; // No offset near the requested one is legal
+  isSnapped: boolean; // The offset was adjusted to a legal one
+}
+
+// Corrections tried before a group move is blocked
+const MAX_GROUP_SNAP_ATTEMPTS = 3;
+
 /**
  * Position validation context
  */
@@ -70,6 +90,13 @@ export class VolleyballCourtRulesIntegration {
     this.config = config;
   }
 
+  /**
+   * Serving slot of our team (slot 1 unless configured)
+   */
+  private getServerSlot(): RotationSlot | null {
+    return this.config.serverSlot === undefined ? 1 : this.config.serverSlot;
+  }
+
   /**
    * Update configuration
    */
@@ -84,7 +111,7 @@ export class VolleyballCourtRulesIntegration {
   validateLineup(
     positions: Record<string, PlayerPosition>,
     rotationMap: Record<number, string>,
-    serverSlot: RotationSlot = 1
+    serverSlot: RotationSlot | null = 1
   ): ScreenValidationResult {
     try {
       // Convert screen positions to volleyball states
@@ -95,8 +122,10 @@ export class VolleyballCourtRulesIntegration {
       );
 
       // Validate using rules engine
-      const validationResult =
-        VolleyballRulesEngine.validateLineup(volleyballStates);
+      const validationResult = VolleyballRulesEngine.validateLineup(
+        volleyballStates,
+        { ruleSet: this.config.ruleSet }
+      );
 
       // Convert violations to screen format
       const violations: ViolationData[] = validationResult.violations.map(
@@ -172,14 +201,15 @@ export class VolleyballCourtRulesIntegration {
       const volleyballStates = StateConverter.formationToVolleyballStates(
         updatedPositions,
         context.rotationMap,
-        this.config.serverSlot || 1
+        this.getServerSlot()
       );
 
       // Validate the position
       const isValidPosition = VolleyballRulesEngine.isValidPosition(
         context.slot,
         volleyballPosition,
-        volleyballStates
+        volleyballStates,
+        this.config.ruleSet
       );
 
       let violations: ViolationData[] = [];
@@ -188,8 +218,10 @@ export class VolleyballCourtRulesIntegration {
 
       if (!isValidPosition) {
         // Get full lineup validation for detailed violations
-        const fullValidation =
-          VolleyballRulesEngine.validateLineup(volleyballStates);
+        const fullValidation = VolleyballRulesEngine.validateLineup(
+          volleyballStates,
+          { ruleSet: this.config.ruleSet }
+        );
 
         violations = fullValidation.violations
           .filter((v) => v.slots.includes(context.slot))
@@ -263,7 +295,7 @@ export class VolleyballCourtRulesIntegration {
       const volleyballStates = StateConverter.formationToVolleyballStates(
         context.allPositions,
         context.rotationMap,
-        this.config.serverSlot || 1
+        this.getServerSlot()
       );
 
       // Create position map
@@ -276,7 +308,8 @@ export class VolleyballCourtRulesIntegration {
       const constraints = ConstraintCalculator.calculateValidBounds(
         context.slot,
         positionMap,
-        context.isServer
+        context.isServer,
+        this.config.ruleSet
       );
 
       // Convert volleyball constraints to screen coordinates
@@ -309,7 +342,7 @@ export class VolleyballCourtRulesIntegration {
       const volleyballStates = StateConverter.formationToVolleyballStates(
         context.allPositions,
         context.rotationMap,
-        this.config.serverSlot || 1
+        this.getServerSlot()
       );
 
       // Snap to valid position using rules engine
@@ -317,7 +350,8 @@ export class VolleyballCourtRulesIntegration {
         VolleyballRulesEngine.snapToValidPosition(
           context.slot,
           volleyballPosition,
-          volleyballStates
+          volleyballStates,
+          this.config.ruleSet
         );
 
       // Convert back to screen coordinates
@@ -377,6 +411,102 @@ export class VolleyballCourtRulesIntegration {
     }
   }
 
+  /**
+   * Fit a group move to the rules as a unit. All players move by the same
+   * offset, which is snapped to keep every one of them on court and within
+   * their constraints, or blocked when no single nearby offset does.
+   * Players that were already out of bounds before the move are not held
+   * against it. Without the overlap rules the group is only kept on court.
+   */
+  constrainGroupMove(
+    playerIds: string[],
+    delta: { x: number; y: number },
+    positions: Record<string, PlayerPosition>,
+    rotationMap: Record<number, string>,
+    applyOverlapRules: boolean = true
+  ): GroupMoveResult {
+    const { width, height } = this.config.courtDimensions;
+    const moving = playerIds.filter((playerId) => positions[playerId]);
+
+    // Keeps every player of the group on court
+    const clampToCourt = (offset: { x: number; y: number }) => {
+      const xs = moving.map((playerId) => positions[playerId].x);
+      const ys = moving.map((playerId) => positions[playerId].y);
+      return {
+        x: Math.max(
+          -Math.min(...xs),
+          Math.min(width - Math.max(...xs), offset.x)
+        ),
+        y: Math.max(
+          -Math.min(...ys),
+          Math.min(height - Math.max(...ys), offset.y)
+        ),
+      };
+    };
+
+    if (moving.length === 0) {
+      return { delta, isBlocked: false, isSnapped: false };
+    }
+
+    if (!applyOverlapRules) {
+      const offset = clampToCourt(delta);
+      return {
+        delta: offset,
+        isBlocked: false,
+        isSnapped: offset.x !== delta.x || offset.y !== delta.y,
+      };
+    }
+
+    try {
+      const alreadyOutOfBounds = new Set(
+        this.getGroupOutOfBounds(moving, positions, rotationMap).map(
+          ({ playerId }) => playerId
+        )
+      );
+
+      let offset = clampToCourt(delta);
+      for (let attempt = 0; attempt <= MAX_GROUP_SNAP_ATTEMPTS; attempt++) {
+        const outOfBounds = this.getGroupOutOfBounds(
+          moving,
+          { ...positions, ...translatePlayers(positions, moving, offset) },
+          rotationMap
+        ).filter(({ playerId }) => !alreadyOutOfBounds.has(playerId));
+
+        if (outOfBounds.length === 0) {
+          return {
+            delta: offset,
+            isBlocked: false,
+            isSnapped: offset.x !== delta.x || offset.y !== delta.y,
+          };
+        }
+
+        // One offset has to fix every player, so they must agree on a side
+        const correction = { x: 0, y: 0 };
+        for (const axis of ["x", "y"] as const) {
+          const needed = outOfBounds.map((entry) => entry.correction[axis]);
+          const largest = Math.max(...needed);
+          const smallest = Math.min(...needed);
+          if (largest > 0 && smallest < 0) {
+            return { delta, isBlocked: true, isSnapped: false };
+          }
+          correction[axis] = largest > 0 ? largest : smallest;
+        }
+
+        const next = clampToCourt({
+          x: offset.x + correction.x,
+          y: offset.y + correction.y,
+        });
+        if (next.x === offset.x && next.y === offset.y) break;
+        offset = next;
+      }
+
+      return { delta, isBlocked: true, isSnapped: false };
+    } catch (error) {
+      console.warn("Error constraining group move:", error);
+      return { delta, isBlocked: false, isSnapped: false };
+    }
+  }
+
   /**
    * Convert coordinate systems between screen and volleyball
    */
@@ -417,6 +547,58 @@ export class VolleyballCourtRulesIntegration {
 
   // Private helper methods
 
+  /**
+   * Players of the group outside their constraints, with the screen offset
+   * that would bring each back inside
+   */
+  private getGroupOutOfBounds(
+    playerIds: string[],
+    positions: Record<string, PlayerPosition>,
+    rotationMap: Record<number, string>
+  ): Array<{ playerId: string; correction: { x: number; y: number } }> {
+    const volleyballStates = StateConverter.formationToVolleyballStates(
+      positions,
+      rotationMap,
+      this.getServerSlot()
+    );
+    const positionMap = new Map<RotationSlot, PlayerState>();
+    volleyballStates.forEach((state) => {
+      positionMap.set(state.slot, state);
+    });
+
+    const groupStates = volleyballStates.filter((state) =>
+      playerIds.includes(state.id)
+    );
+    // Same rule set as single drags, so both agree on what is legal
+    const constraints = OptimizedConstraintCalculator.batchCalculateConstraints(
+      groupStates.map((state) => state.slot),
+      positionMap,
+      this.config.ruleSet
+    );
+    const { tolerance } = RuleSetRegistry.resolveOptions({
+      ruleSet: this.config.ruleSet,
+    });
+    const getCorrection = (value: number, min: number, max: number) =>
+      value < min - tolerance
+        ? min - value
+        : value > max + tolerance
+          ? max - value
+          : 0;
+
+    return groupStates.flatMap((state) => {
+      const bounds = constraints.get(state.slot);
+      if (!bounds) return [];
+
+      const correction = CoordinateTransformer.volleyballToScreen(
+        getCorrection(state.x, bounds.minX, bounds.maxX),
+        getCorrection(state.y, bounds.minY, bounds.maxY)
+      );
+      return correction.x === 0 && correction.y === 0
+        ? []
+        : [{ playerId: state.id, correction }];
+    });
+  }
+
   private createValidationCacheKey(context: PositionValidationContext): string {
     return `${context.playerId}-${context.slot}-${context.currentPosition.x}-${
       context.currentPosition.y
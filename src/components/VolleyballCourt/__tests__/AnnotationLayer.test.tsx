@@ -0,0 +1,139 @@
+/**
+ * Tests for AnnotationLayer and AnnotationToolbar components
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AnnotationLayer } from "../AnnotationLayer";
+import { AnnotationToolbar } from "../controls/AnnotationToolbar";
+import { VolleyballCourtProvider } from "../VolleyballCourtProvider";
+import { CourtAnnotation } from "../types";
+
+const annotations: CourtAnnotation[] = [
+  { id: "z1", type: "zone", x: 10, y: 10, width: 50, height: 40 },
+  { id: "a1", type: "arrow", fromPlayerId: "S", to: { x: 200, y: 50 } },
+  { id: "a2", type: "arrow", fromPlayerId: "BENCH", to: { x: 1, y: 1 } },
+  { id: "t1", type: "text", x: 300, y: 100, text: "Cover tip" },
+  { id: "b1", type: "ball", x: 300, y: 40 },
+];
+
+const positions = { S: { x: 200, y: 200 } };
+
+describe("AnnotationLayer", () => {
+  it("renders each annotation type", () => {
+    render(
+      <AnnotationLayer
+        annotations={annotations}
+        positions={positions}
+        readOnly={false}
+      />
+    );
+
+    expect(screen.getByTestId("annotation-zone-z1")).toBeInTheDocument();
+    expect(screen.getByTestId("annotation-arrow-a1")).toBeInTheDocument();
+    expect(screen.getByTestId("annotation-text-t1")).toHaveTextContent(
+      "Cover tip"
+    );
+    expect(screen.getByTestId("annotation-ball-b1")).toBeInTheDocument();
+  });
+
+  it("skips arrows whose player is not on court", () => {
+    render(
+      <AnnotationLayer
+        annotations={annotations}
+        positions={positions}
+        readOnly={false}
+      />
+    );
+
+    expect(screen.queryByTestId("annotation-arrow-a2")).not.toBeInTheDocument();
+  });
+
+  it("removes an annotation on double click when editable", () => {
+    const onAnnotationRemove = vi.fn();
+    render(
+      <AnnotationLayer
+        annotations={annotations}
+        positions={positions}
+        readOnly={false}
+        onAnnotationChange={vi.fn()}
+        onAnnotationRemove={onAnnotationRemove}
+      />
+    );
+
+    expect(screen.getByTestId("annotation-arrow-handle-a1")).toBeInTheDocument();
+
+    fireEvent.doubleClick(screen.getByTestId("annotation-ball-b1"));
+
+    expect(onAnnotationRemove).toHaveBeenCalledWith("b1");
+  });
+
+  it("is not editable in read-only mode", () => {
+    const onAnnotationRemove = vi.fn();
+    render(
+      <AnnotationLayer
+        annotations={annotations}
+        positions={positions}
+        readOnly={true}
+        onAnnotationChange={vi.fn()}
+        onAnnotationRemove={onAnnotationRemove}
+      />
+    );
+
+    fireEvent.doubleClick(screen.getByTestId("annotation-ball-b1"));
+
+    expect(
+      screen.queryByTestId("annotation-arrow-handle-a1")
+    ).not.toBeInTheDocument();
+    expect(onAnnotationRemove).not.toHaveBeenCalled();
+  });
+});
+
+describe("AnnotationToolbar", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const renderWithProvider = (ui: React.ReactElement) =>
+    render(
+      <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+        {ui}
+      </VolleyballCourtProvider>
+    );
+
+  it("allows a single ball and clears all annotations", () => {
+    renderWithProvider(<AnnotationToolbar />);
+
+    expect(screen.getByTestId("annotation-clear")).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId("annotation-add-ball"));
+
+    expect(screen.getByTestId("annotation-add-ball")).toBeDisabled();
+    expect(screen.getByTestId("annotation-clear")).not.toBeDisabled();
+
+    fireEvent.click(screen.getByTestId("annotation-clear"));
+
+    expect(screen.getByTestId("annotation-add-ball")).not.toBeDisabled();
+  });
+
+  it("adds callouts only with text", () => {
+    renderWithProvider(<AnnotationToolbar />);
+
+    expect(screen.getByTestId("annotation-add-text")).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId("annotation-callout-text"), {
+      target: { value: "Free ball" },
+    });
+    fireEvent.click(screen.getByTestId("annotation-add-text"));
+
+    expect(screen.getByTestId("annotation-callout-text")).toHaveValue("");
+    expect(screen.getByTestId("annotation-clear")).not.toBeDisabled();
+  });
+
+  it("renders nothing when read-only", () => {
+    renderWithProvider(<AnnotationToolbar isReadOnly={true} />);
+
+    expect(screen.queryByTestId("annotation-toolbar")).not.toBeInTheDocument();
+  });
+});
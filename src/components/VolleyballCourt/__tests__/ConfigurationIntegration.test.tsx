@@ -36,6 +36,7 @@ vi.mock("../PersistenceManager", () => ({
       positions: {},
     })),
     copyToClipboard: vi.fn(),
+    dispose: vi.fn(),
   })),
 }));
 
@@ -16,6 +16,7 @@ import {
   AnimationConfig,
 } from "../types";
 import { SystemType } from "@/types";
+import { SYSTEM_TEMPLATES } from "../utils/customSystems";
 
 describe("ConfigurationManager", () => {
   describe("validateConfig", () => {
@@ -167,6 +168,149 @@ describe("ConfigurationManager", () => {
     });
   });
 
+  describe("validateLiberoConfig", () => {
+    const playersWithLibero = {
+      "5-1": [
+        { id: "S", name: "Setter", role: "S" as const },
+        { id: "Opp", name: "Opposite", role: "OPP" as const },
+        { id: "OH1", name: "Outside 1", role: "OH" as const },
+        { id: "OH2", name: "Outside 2", role: "OH" as const },
+        { id: "MB1", name: "Middle 1", role: "MB" as const },
+        { id: "MB2", name: "Middle 2", role: "MB" as const },
+        { id: "L", name: "Libero", role: "L" as const },
+      ],
+      "6-2": [],
+    };
+
+    it("should accept a libero alongside six court players", () => {
+      const result = ConfigurationManager.validateConfig({
+        players: playersWithLibero,
+        libero: { "5-1": { playerId: "L", replaces: ["MB1", "MB2"] } },
+      });
+
+      expect(result.errors).not.toContain(
+        "5-1 system must have exactly 6 players"
+      );
+      expect(result.errors.some((e) => e.includes("libero"))).toBe(false);
+    });
+
+    it("should reject unknown or non-libero players", () => {
+      const result = ConfigurationManager.validateLiberoConfig(
+        { "5-1": { playerId: "MB1", replaces: ["X9"] } },
+        playersWithLibero
+      );
+
+      expect(result.errors).toContain('5-1 libero MB1 must have role "L"');
+      expect(result.errors).toContain("5-1 libero replaces unknown player: X9");
+    });
+  });
+
+  describe("validateBenchConfig", () => {
+    it("should reject bench players that clash with configured players", () => {
+      const result = ConfigurationManager.validateBenchConfig(
+        {
+          "5-1": [
+            { id: "B1", name: "Bench 1", role: "OH" },
+            { id: "B1", name: "Bench 1 again", role: "MB" },
+            { id: "S", name: "Setter", role: "S" },
+          ],
+        },
+        {
+          "5-1": [{ id: "S", name: "Setter", role: "S" }],
+          "6-2": [],
+        }
+      );
+
+      expect(result.errors).toContain("5-1 bench has duplicate player ID: B1");
+      expect(result.errors).toContain(
+        "5-1 bench player S is already a configured player"
+      );
+    });
+  });
+
+  describe("validateSystemsConfig", () => {
+    it("should accept the system templates", () => {
+      const result = ConfigurationManager.validateSystemsConfig(
+        Object.values(SYSTEM_TEMPLATES)
+      );
+
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it("should reject built-in IDs and incomplete systems", () => {
+      const result = ConfigurationManager.validateSystemsConfig([
+        { ...SYSTEM_TEMPLATES["4-2"], id: "5-1" },
+        {
+          ...SYSTEM_TEMPLATES["4-2"],
+          rotations: SYSTEM_TEMPLATES["4-2"].rotations.slice(0, 3),
+        },
+      ]);
+
+      expect(result.errors).toContain(
+        "System 5-1 is built in; give custom systems a different ID"
+      );
+      expect(result.errors).toContain(
+        "4-2 system must have exactly 6 rotations"
+      );
+    });
+
+    it("should require genders when genders alternate", () => {
+      const coed = SYSTEM_TEMPLATES["coed-4-2"];
+      const result = ConfigurationManager.validateSystemsConfig([
+        {
+          ...coed,
+          players: coed.players.map((p) =>
+            p.id === "S1" ? { ...p, gender: undefined } : p
+          ),
+        },
+      ]);
+
+      expect(result.errors).toContain(
+        "coed-4-2 alternates genders; missing gender for S1"
+      );
+    });
+  });
+
+  describe("validateValidationConfig", () => {
+    it("should accept built-in rule sets", () => {
+      const result = ConfigurationManager.validateValidationConfig({
+        ruleSet: "NFHS",
+      });
+
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it("should reject unknown rule sets", () => {
+      const result = ConfigurationManager.validateValidationConfig({
+        ruleSet: "PRO" as never,
+      });
+
+      expect(result.errors).toContain("Unknown rule set: PRO");
+    });
+  });
+
+  describe("validateExportConfig", () => {
+    it("should reject unsupported formats and invalid sizes", () => {
+      const result = ConfigurationManager.validateExportConfig({
+        exportFormats: ["png", "gif" as never],
+        defaultImageSize: { width: 0, height: 600 },
+      });
+
+      expect(result.errors).toContain("Unsupported export format: gif");
+      expect(result.errors).toContain("Export image size must be positive");
+    });
+
+    it("should warn when listed formats are disabled", () => {
+      const result = ConfigurationManager.validateExportConfig({
+        exportFormats: ["pdf", "csv"],
+        enableImageExport: false,
+      });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
   describe("validateRotationsConfig", () => {
     it("should validate correct rotation mappings", () => {
       const validRotations = {
@@ -598,6 +742,33 @@ describe("RotationCustomization", () => {
       expect(result.errors).toContain("Must have exactly 6 rotations");
     });
 
+    it("should detect players who are not on the roster", () => {
+      const rotations = [
+        { 1: "S", 2: "B1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
+        { 1: "OH2", 2: "S", 3: "B1", 4: "Opp", 5: "MB2", 6: "OH1" },
+        { 1: "OH1", 2: "OH2", 3: "S", 4: "B1", 5: "Opp", 6: "MB2" },
+        { 1: "MB2", 2: "OH1", 3: "OH2", 4: "S", 5: "B1", 6: "Opp" },
+        { 1: "Opp", 2: "MB2", 3: "OH1", 4: "OH2", 5: "S", 6: "B1" },
+        { 1: "B1", 2: "Opp", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S" },
+      ];
+      const roster = ["S", "Opp", "OH1", "OH2", "MB1", "MB2"].map((id) => ({
+        id,
+        name: id,
+        role: "OH" as const,
+      }));
+
+      const result = RotationCustomization.validateRotationSequence(
+        rotations,
+        "5-1",
+        roster
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        "Rotation 1 uses B1, who is not on the roster"
+      );
+    });
+
     it("should detect incorrect rotation pattern", () => {
       const invalidRotations = [
         { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
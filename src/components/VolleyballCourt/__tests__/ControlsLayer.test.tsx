@@ -57,6 +57,7 @@ describe("ControlsLayer", () => {
       showFormationSelector: false,
       showResetButton: false,
       showShareButton: false,
+      showExportButton: false,
       showAnimateButton: false,
     };
 
@@ -68,6 +69,7 @@ describe("ControlsLayer", () => {
     ).not.toBeInTheDocument();
     expect(screen.queryByTestId("formation-selector")).not.toBeInTheDocument();
     expect(screen.queryByTestId("share-button")).not.toBeInTheDocument();
+    expect(screen.queryByTestId("export-button")).not.toBeInTheDocument();
     expect(screen.queryByTestId("animation-button")).not.toBeInTheDocument();
     expect(screen.queryByTestId("reset-button")).not.toBeInTheDocument();
   });
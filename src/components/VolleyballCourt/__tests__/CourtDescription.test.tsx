@@ -0,0 +1,87 @@
+/**
+ * Tests for the CourtDescription component
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { CourtDescription } from "../controls/CourtDescription";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+
+// Shows the last screen reader announcement
+const Announcer: React.FC = () => {
+  const { announcement } = useVolleyballCourt();
+  return <span data-testid="announcement">{announcement?.message}</span>;
+};
+
+describe("CourtDescription", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("shows and announces where every player stands", () => {
+    render(
+      <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+        <Announcer />
+        <CourtDescription />
+      </VolleyballCourtProvider>
+    );
+
+    expect(
+      screen.queryByTestId("court-description-text")
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId("court-description-button"));
+
+    const description = screen.getByTestId("court-description-text");
+    expect(description).toHaveTextContent(/^5-1 system, rotation 1/);
+    expect(description).toHaveTextContent("Zone 1, Right Back:");
+    expect(screen.getByTestId("announcement")).toHaveTextContent(
+      description.textContent!
+    );
+  });
+
+  it("describes the court in the configured language", () => {
+    render(
+      <VolleyballCourtProvider
+        config={{ localization: { language: "es" } }}
+        enableSharing={false}
+        enablePersistence={false}
+      >
+        <CourtDescription />
+      </VolleyballCourtProvider>
+    );
+
+    const button = screen.getByTestId("court-description-button");
+    expect(button).toHaveTextContent("Describir la cancha");
+    fireEvent.click(button);
+
+    const description = screen.getByTestId("court-description-text");
+    expect(description).toHaveTextContent(/^Sistema 5-1, rotación 1/);
+    expect(description).toHaveTextContent("Zona 1, Zaguero derecho:");
+    expect(description).toHaveTextContent(/a \d+,\d m de la red/);
+  });
+
+  it("is only visible while focused unless always visible", () => {
+    const { rerender } = render(
+      <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+        <CourtDescription />
+      </VolleyballCourtProvider>
+    );
+    expect(screen.getByTestId("court-description-button")).toHaveClass(
+      "sr-only"
+    );
+
+    rerender(
+      <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+        <CourtDescription alwaysVisible />
+      </VolleyballCourtProvider>
+    );
+    expect(screen.getByTestId("court-description-button")).not.toHaveClass(
+      "sr-only"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for custom rules in the provider's validation
+ */
+
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { ValidationLayer } from "../ValidationLayer";
+import { CustomRuleConfig } from "../types";
+
+// Shows the violations the provider last reported
+const Violations: React.FC = () => {
+  const { reportedViolations } = useVolleyballCourt();
+  return <ValidationLayer violations={reportedViolations} showDetails />;
+};
+
+const alwaysFails: CustomRuleConfig = {
+  id: "team-rule",
+  name: "Team rule",
+  description: "",
+  enabled: true,
+  severity: "error",
+  validator: () => false,
+  message: "Our setter starts on the right",
+};
+
+describe("custom rules", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("reports failing rules as team rules", () => {
+    render(
+      <VolleyballCourtProvider
+        config={{ validation: { customRules: [alwaysFails] } }}
+        enableSharing={false}
+        enablePersistence={false}
+      >
+        <Violations />
+      </VolleyballCourtProvider>
+    );
+
+    const teamRules = screen.getByTestId("custom-rule-violations");
+    expect(teamRules).toHaveTextContent("Team Rules (1)");
+    expect(teamRules).toHaveTextContent(
+      "Team rule: Our setter starts on the right"
+    );
+  });
+
+  it("leaves out disabled rules", () => {
+    render(
+      <VolleyballCourtProvider
+        config={{
+          validation: { customRules: [{ ...alwaysFails, enabled: false }] },
+        }}
+        enableSharing={false}
+        enablePersistence={false}
+      >
+        <Violations />
+      </VolleyballCourtProvider>
+    );
+
+    expect(
+      screen.queryByTestId("custom-rule-violations")
+    ).not.toBeInTheDocument();
+  });
+});
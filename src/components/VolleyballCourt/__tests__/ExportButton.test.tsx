@@ -0,0 +1,90 @@
+/**
+ * Tests for ExportButton component
+ */
+
+import React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ExportButton } from "../controls/ExportButton";
+import { VolleyballCourtProvider } from "../VolleyballCourtProvider";
+import { VolleyballCourtConfig } from "../types";
+
+const renderWithProvider = (
+  ui: React.ReactElement,
+  config?: VolleyballCourtConfig
+) =>
+  render(
+    <VolleyballCourtProvider
+      config={config}
+      enableSharing={false}
+      enablePersistence={false}
+    >
+      {ui}
+    </VolleyballCourtProvider>
+  );
+
+describe("ExportButton", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // jsdom does not implement object URLs
+    URL.createObjectURL = vi.fn().mockReturnValue("blob:export");
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+  });
+
+  it("lists the formats enabled in the export configuration", () => {
+    renderWithProvider(<ExportButton />);
+
+    fireEvent.click(screen.getByTestId("export-button"));
+
+    expect(screen.getByTestId("export-option-png")).toBeInTheDocument();
+    expect(screen.getByTestId("export-option-svg")).toBeInTheDocument();
+    expect(screen.getByTestId("export-option-json")).toBeInTheDocument();
+    expect(screen.queryByTestId("export-option-pdf")).not.toBeInTheDocument();
+  });
+
+  it("hides data formats when data export is disabled", () => {
+    renderWithProvider(<ExportButton />, {
+      export: { exportFormats: ["svg", "csv"], enableDataExport: false },
+    });
+
+    fireEvent.click(screen.getByTestId("export-button"));
+
+    expect(screen.getByTestId("export-option-svg")).toBeInTheDocument();
+    expect(screen.queryByTestId("export-option-csv")).not.toBeInTheDocument();
+  });
+
+  it("renders nothing when no format is available", () => {
+    renderWithProvider(<ExportButton />, {
+      export: { exportFormats: ["json"], enableDataExport: false },
+    });
+
+    expect(screen.queryByTestId("export-button")).not.toBeInTheDocument();
+  });
+
+  it("exports and downloads the selected format", async () => {
+    const onExport = vi.fn();
+    renderWithProvider(<ExportButton onExport={onExport} />);
+
+    fireEvent.click(screen.getByTestId("export-button"));
+    fireEvent.click(screen.getByTestId("export-option-json"));
+
+    await waitFor(() => expect(onExport).toHaveBeenCalled());
+    expect(onExport.mock.calls[0][0]).toMatchObject({
+      format: "json",
+      filename: "volleyball-5-1-rotation-1-base.json",
+      mimeType: "application/json",
+    });
+    expect(URL.createObjectURL).toHaveBeenCalledWith(
+      onExport.mock.calls[0][0].blob
+    );
+    expect(HTMLAnchorElement.prototype.click).toHaveBeenCalled();
+  });
+
+  it("is disabled while animating", () => {
+    renderWithProvider(<ExportButton isAnimating={true} />);
+
+    expect(screen.getByTestId("export-button")).toBeDisabled();
+  });
+});
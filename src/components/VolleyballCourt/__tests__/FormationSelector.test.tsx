@@ -168,9 +168,72 @@ describe("FormationSelector", () => {
     expect(selector).toHaveValue("serveReceive");
   });
 
+  it("lists custom formations by name", () => {
+    const onFormationChange = vi.fn();
+    render(
+      <FormationSelector
+        {...defaultProps}
+        formations={[
+          { id: "rotational", name: "Rotational" },
+          { id: "defense", name: "Defense" },
+        ]}
+        onFormationChange={onFormationChange}
+      />
+    );
+
+    expect(screen.getAllByRole("option")).toHaveLength(2);
+    expect(screen.getByRole("option", { name: "Defense" })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByTestId("formation-selector"), {
+      target: { value: "defense" },
+    });
+    expect(onFormationChange).toHaveBeenCalledWith("defense");
+  });
+
   it("renders label text", () => {
     render(<FormationSelector {...defaultProps} />);
 
     expect(screen.getByText("Show formation:")).toBeInTheDocument();
   });
+
+  it("applies and saves formation templates", () => {
+    const onApplyTemplate = vi.fn();
+    const onSaveTemplate = vi.fn();
+    render(
+      <FormationSelector
+        {...defaultProps}
+        formation="serveReceive"
+        templates={[{ id: "w", name: "W", formation: "serveReceive" }]}
+        onApplyTemplate={onApplyTemplate}
+        onSaveTemplate={onSaveTemplate}
+      />
+    );
+
+    fireEvent.change(screen.getByTestId("template-selector"), {
+      target: { value: "w" },
+    });
+    expect(onApplyTemplate).toHaveBeenCalledWith("w");
+    expect(screen.getByTestId("template-selector")).toHaveValue("");
+
+    fireEvent.click(screen.getByTestId("save-template-button"));
+    expect(onSaveTemplate).toHaveBeenCalled();
+  });
+
+  it("hides templates in read-only mode", () => {
+    render(
+      <FormationSelector
+        {...defaultProps}
+        formation="serveReceive"
+        isReadOnly={true}
+        templates={[{ id: "w", name: "W", formation: "serveReceive" }]}
+        onApplyTemplate={vi.fn()}
+        onSaveTemplate={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId("template-selector")).not.toBeInTheDocument();
+    expect(
+      screen.queryByTestId("save-template-button")
+    ).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,146 @@
+/**
+ * Tests for FullCourtControls and OpponentLayer components
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FullCourtControls } from "../controls/FullCourtControls";
+import { OpponentLayer } from "../OpponentLayer";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { DEFAULT_OPPONENT_MARKERS } from "../utils/fullCourt";
+
+// Shows the provider state the controls change
+const FullCourtState: React.FC = () => {
+  const { serverSlot, opponentServerId } = useVolleyballCourt();
+  return (
+    <div>
+      <span data-testid="server-slot">{String(serverSlot)}</span>
+      <span data-testid="opponent-server">{String(opponentServerId)}</span>
+    </div>
+  );
+};
+
+const renderWithProvider = (ui: React.ReactElement) =>
+  render(
+    <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+      {ui}
+      <FullCourtState />
+    </VolleyballCourtProvider>
+  );
+
+describe("FullCourtControls", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("moves the server exemption to the serving team", () => {
+    renderWithProvider(<FullCourtControls />);
+
+    expect(screen.getByTestId("serving-team-home")).toHaveAttribute(
+      "aria-pressed",
+      "true"
+    );
+    expect(screen.getByTestId("server-slot")).toHaveTextContent("1");
+
+    fireEvent.click(screen.getByTestId("serving-team-opponent"));
+
+    expect(screen.getByTestId("server-slot")).toHaveTextContent("null");
+    expect(screen.getByTestId("opponent-server")).toHaveTextContent("O1");
+  });
+
+  it("shows opponent rotation controls in full-court mode", () => {
+    renderWithProvider(<FullCourtControls />);
+
+    expect(
+      screen.queryByTestId("opponent-rotation-display")
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId("full-court-toggle"));
+
+    expect(screen.getByTestId("opponent-rotation-display")).toHaveTextContent(
+      "1"
+    );
+
+    fireEvent.click(screen.getByTestId("opponent-rotation-prev"));
+
+    expect(screen.getByTestId("opponent-rotation-display")).toHaveTextContent(
+      "6"
+    );
+    expect(screen.getByTestId("opponent-reset")).toBeDisabled();
+  });
+
+  it("disables changes when read-only", () => {
+    renderWithProvider(<FullCourtControls isReadOnly={true} />);
+
+    expect(screen.getByTestId("serving-team-opponent")).toBeDisabled();
+  });
+});
+
+describe("OpponentLayer", () => {
+  const positions = {
+    O1: { x: 100, y: 60 },
+    O2: { x: 300, y: 150 },
+  };
+
+  it("renders markers mirrored across the net", () => {
+    render(
+      <OpponentLayer
+        markers={DEFAULT_OPPONENT_MARKERS}
+        positions={positions}
+        serverId="O1"
+        readOnly={false}
+      />
+    );
+
+    expect(screen.getByTestId("opponent-marker-O1")).toHaveAttribute(
+      "transform",
+      "translate(500, 300)"
+    );
+    expect(screen.getByTestId("opponent-marker-O1")).toHaveAttribute(
+      "aria-label",
+      "Opponent O1 (serving)"
+    );
+    expect(screen.queryByTestId("opponent-marker-O3")).not.toBeInTheDocument();
+  });
+
+  it("reports dragged markers", () => {
+    const onMarkerMove = vi.fn();
+    render(
+      <OpponentLayer
+        markers={DEFAULT_OPPONENT_MARKERS}
+        positions={positions}
+        readOnly={false}
+        onMarkerMove={onMarkerMove}
+      />
+    );
+
+    fireEvent.pointerDown(screen.getByTestId("opponent-marker-O2"));
+    fireEvent.pointerMove(screen.getByTestId("opponent-layer"));
+
+    expect(onMarkerMove).toHaveBeenCalledWith(
+      "O2",
+      expect.objectContaining({ isCustom: true })
+    );
+  });
+
+  it("does not drag markers when read-only", () => {
+    const onMarkerMove = vi.fn();
+    render(
+      <OpponentLayer
+        markers={DEFAULT_OPPONENT_MARKERS}
+        positions={positions}
+        readOnly={true}
+        onMarkerMove={onMarkerMove}
+      />
+    );
+
+    fireEvent.pointerDown(screen.getByTestId("opponent-marker-O2"));
+    fireEvent.pointerMove(screen.getByTestId("opponent-layer"));
+
+    expect(onMarkerMove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the HistoryPanel component
+ */
+
+import React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { HistoryPanel } from "../controls/HistoryPanel";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import type { VolleyballCourtConfig } from "../types";
+
+// Makes changes the way the court's controls do
+const ChangeButtons: React.FC = () => {
+  const { state, handleFormationChange, handleSystemChange } =
+    useVolleyballCourt();
+
+  return (
+    <div>
+      <span data-testid="current-state">
+        {state.system} {state.formation}
+      </span>
+      <button onClick={() => handleFormationChange("serveReceive")}>
+        Serve receive
+      </button>
+      <button onClick={() => handleFormationChange("rotational")}>
+        Rotational
+      </button>
+      <button onClick={() => handleSystemChange("6-2")}>6-2</button>
+    </div>
+  );
+};
+
+const renderWithProvider = (
+  config?: Partial<VolleyballCourtConfig>,
+  enablePersistence = false
+) =>
+  render(
+    <VolleyballCourtProvider
+      config={config}
+      enableSharing={false}
+      enablePersistence={enablePersistence}
+    >
+      <ChangeButtons />
+      <HistoryPanel />
+    </VolleyballCourtProvider>
+  );
+
+const getEntry = (description: string) =>
+  screen.getByRole("button", { name: description });
+
+describe("HistoryPanel", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("lists named changes and undoes them", async () => {
+    renderWithProvider();
+    expect(screen.getByTestId("history-undo-button")).toBeDisabled();
+
+    fireEvent.click(screen.getByText("Serve receive"));
+    fireEvent.click(screen.getByText("6-2"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("current-state")).toHaveTextContent(
+        "6-2 serveReceive"
+      )
+    );
+    expect(getEntry("Switch to 6-2 system")).toHaveAttribute(
+      "aria-current",
+      "step"
+    );
+
+    fireEvent.click(screen.getByTestId("history-undo-button"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("current-state")).toHaveTextContent(
+        "5-1 serveReceive"
+      )
+    );
+    expect(getEntry("Switch to serveReceive formation")).toHaveAttribute(
+      "aria-current",
+      "step"
+    );
+    expect(screen.getByTestId("history-redo-button")).not.toBeDisabled();
+  });
+
+  it("keeps undone changes as a branch that can be jumped back to", async () => {
+    renderWithProvider();
+
+    fireEvent.click(screen.getByText("Serve receive"));
+    fireEvent.click(screen.getByText("6-2"));
+    fireEvent.click(screen.getByTestId("history-undo-button"));
+    fireEvent.click(screen.getByText("Rotational"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("current-state")).toHaveTextContent(
+        "5-1 rotational"
+      )
+    );
+    expect(screen.getByTestId("history-redo-button")).toBeDisabled();
+    expect(getEntry("Switch to 6-2 system")).toHaveAttribute(
+      "title",
+      "On an abandoned branch; jumping here restores it"
+    );
+
+    fireEvent.click(getEntry("Switch to 6-2 system"));
+    await waitFor(() =>
+      expect(screen.getByTestId("current-state")).toHaveTextContent(
+        "6-2 serveReceive"
+      )
+    );
+
+    fireEvent.click(screen.getByTestId("history-entry-start"));
+    await waitFor(() =>
+      expect(screen.getByTestId("current-state")).toHaveTextContent("5-1 base")
+    );
+  });
+
+  it("keeps the history across reloads when persistHistory is set", async () => {
+    const config = { performance: { persistHistory: true } };
+    const { unmount } = renderWithProvider(config, true);
+
+    fireEvent.click(screen.getByText("Serve receive"));
+    await waitFor(() =>
+      expect(getEntry("Switch to serveReceive formation")).toBeInTheDocument()
+    );
+    unmount();
+
+    renderWithProvider(config, true);
+    await waitFor(() =>
+      expect(getEntry("Switch to serveReceive formation")).toHaveAttribute(
+        "aria-current",
+        "step"
+      )
+    );
+  });
+
+  it("shows its labels in the configured language", () => {
+    renderWithProvider({ localization: { language: "es" } });
+
+    expect(screen.getByText("Historial")).toBeInTheDocument();
+    expect(screen.getByTestId("history-undo-button")).toHaveTextContent(
+      "Deshacer"
+    );
+    expect(screen.getByTestId("history-redo-button")).toHaveTextContent(
+      "Rehacer"
+    );
+    expect(screen.getByText(/^Aún no hay cambios/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the Fix action of the validation panel
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { ValidationLayer } from "../ValidationLayer";
+import { CustomRuleConfig } from "../types";
+import { PlayerPosition } from "../types/positioning";
+import type { RuleSetName } from "../volleyball-rules-engine/types/RuleSet";
+
+// Validation panel wired to the provider, with the opposite's depth
+const FixPanel: React.FC = () => {
+  const { state, reportedViolations, applyLineupFix, canUndo, undo } =
+    useVolleyballCourt();
+  return (
+    <>
+      <span data-testid="opposite-y">{state.positions.Opp?.y}</span>
+      <ValidationLayer
+        violations={reportedViolations}
+        showDetails
+        onAutoFix={applyLineupFix}
+        onUndoAutoFix={canUndo ? undo : undefined}
+      />
+    </>
+  );
+};
+
+// Opposite within 1 m of the net
+const oppositeAtNet: CustomRuleConfig = {
+  id: "opposite-net",
+  name: "Opposite at the net",
+  description: "",
+  enabled: true,
+  severity: "error",
+  condition: { type: "area", target: { role: "OPP" }, maxY: 1 },
+  message: "Opposite starts at the net",
+};
+
+// Moves the middle front 5 cm (2 px) ahead of the middle back and shows
+// whether a fix is offered
+const CloseMiddlesPanel: React.FC = () => {
+  const { state, activeRotationMap, lineupFix, handlePositionChange } =
+    useVolleyballCourt();
+  const positions = state.positions as Record<string, PlayerPosition>;
+  const middleFront = activeRotationMap[3];
+  const middleBack = activeRotationMap[6];
+  const closeMiddles = () =>
+    handlePositionChange({
+      ...positions,
+      [middleFront]: {
+        ...positions[middleFront],
+        y: positions[middleBack].y - 2,
+        isCustom: true,
+      },
+    });
+  return (
+    <>
+      <button data-testid="close-middles" onClick={closeMiddles} />
+      <span data-testid="fix-offered">{String(lineupFix !== null)}</span>
+    </>
+  );
+};
+
+describe("Fix action", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("moves players into a legal lineup and undoes the move", () => {
+    render(
+      <VolleyballCourtProvider
+        config={{
+          initialFormation: "serveReceive",
+          validation: { customRules: [oppositeAtNet] },
+        }}
+        enableSharing={false}
+        enablePersistence={false}
+      >
+        <FixPanel />
+      </VolleyballCourtProvider>
+    );
+
+    const startY = Number(screen.getByTestId("opposite-y").textContent);
+    expect(startY).toBeGreaterThan(40);
+
+    fireEvent.click(screen.getByTestId("auto-fix-button"));
+
+    expect(
+      Number(screen.getByTestId("opposite-y").textContent)
+    ).toBeLessThanOrEqual(40);
+    expect(
+      screen.queryByTestId("custom-rule-violations")
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId("undo-auto-fix-button"));
+
+    expect(Number(screen.getByTestId("opposite-y").textContent)).toBe(startY);
+    expect(screen.getByTestId("custom-rule-violations")).toBeInTheDocument();
+  });
+
+  it("is not offered for rules only a validator can check", () => {
+    render(
+      <VolleyballCourtProvider
+        config={{
+          validation: {
+            customRules: [
+              {
+                ...oppositeAtNet,
+                condition: undefined,
+                validator: () => false,
+              },
+            ],
+          },
+        }}
+        enableSharing={false}
+        enablePersistence={false}
+      >
+        <FixPanel />
+      </VolleyballCourtProvider>
+    );
+
+    expect(screen.getByTestId("custom-rule-violations")).toBeInTheDocument();
+    expect(screen.queryByTestId("auto-fix-button")).not.toBeInTheDocument();
+  });
+
+  it("checks the lineup with the configured rule set", () => {
+    const isFixOffered = (ruleSet: RuleSetName) => {
+      const { unmount } = render(
+        <VolleyballCourtProvider
+          config={{ initialFormation: "serveReceive", validation: { ruleSet } }}
+          enableSharing={false}
+          enablePersistence={false}
+        >
+          <CloseMiddlesPanel />
+        </VolleyballCourtProvider>
+      );
+      fireEvent.click(screen.getByTestId("close-middles"));
+      const offered = screen.getByTestId("fix-offered").textContent;
+      unmount();
+      return offered;
+    };
+
+    // NFHS needs 10 cm between players, FIVB 3 cm
+    expect(isFixOffered("FIVB")).toBe("false");
+    expect(isFixOffered("NFHS")).toBe("true");
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the MatchControls component
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MatchControls } from "../controls/MatchControls";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+
+// Shows the court state match mode drives
+const CourtState: React.FC = () => {
+  const { state, fullCourt } = useVolleyballCourt();
+  return (
+    <div>
+      <span data-testid="rotation">{state.rotationIndex}</span>
+      <span data-testid="formation">{state.formation}</span>
+      <span data-testid="serving-team">{fullCourt.servingTeam}</span>
+    </div>
+  );
+};
+
+const renderWithProvider = (
+  props: Partial<React.ComponentProps<typeof VolleyballCourtProvider>> = {}
+) =>
+  render(
+    <VolleyballCourtProvider
+      enableSharing={false}
+      enablePersistence={false}
+      {...props}
+    >
+      <MatchControls />
+      <CourtState />
+    </VolleyballCourtProvider>
+  );
+
+describe("MatchControls", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("shows the serving formation when match mode starts", () => {
+    renderWithProvider();
+
+    expect(screen.queryByTestId("match-point-home")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId("match-mode-toggle"));
+
+    expect(screen.getByTestId("formation")).toHaveTextContent("base");
+    expect(screen.getByTestId("match-score-home")).toHaveTextContent("0");
+  });
+
+  it("rotates when we win serve back", () => {
+    const onRotationChangeData = vi.fn();
+    renderWithProvider({ onRotationChangeData });
+    fireEvent.click(screen.getByTestId("match-mode-toggle"));
+
+    // We lose the serve, then win it back
+    fireEvent.click(screen.getByTestId("match-point-opponent"));
+
+    expect(screen.getByTestId("serving-team")).toHaveTextContent("opponent");
+    expect(screen.getByTestId("formation")).toHaveTextContent("serveReceive");
+    expect(screen.getByTestId("rotation")).toHaveTextContent("0");
+
+    fireEvent.click(screen.getByTestId("match-point-home"));
+
+    expect(screen.getByTestId("rotation")).toHaveTextContent("1");
+    expect(screen.getByTestId("formation")).toHaveTextContent("base");
+    expect(screen.getByTestId("match-score-home")).toHaveTextContent("1");
+    expect(screen.getByTestId("match-score-opponent")).toHaveTextContent("1");
+    expect(onRotationChangeData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        previousRotation: 0,
+        newRotation: 1,
+        changeType: "programmatic",
+        metadata: expect.objectContaining({ triggeredBy: "match" }),
+      })
+    );
+    expect(screen.getByTestId("match-rally-log")).toHaveTextContent(
+      "2. Us (1-1) – side-out"
+    );
+  });
+
+  it("resets the score", () => {
+    renderWithProvider();
+    fireEvent.click(screen.getByTestId("match-mode-toggle"));
+    fireEvent.click(screen.getByTestId("match-point-home"));
+
+    fireEvent.click(screen.getByTestId("match-reset"));
+
+    expect(screen.getByTestId("match-score-home")).toHaveTextContent("0");
+    expect(screen.queryByTestId("match-rally-log")).not.toBeInTheDocument();
+  });
+});
@@ -402,6 +402,61 @@ describe("VolleyballCourtPersistenceManager", () => {
     });
   });
 
+  describe("play sequences", () => {
+    const sequence = {
+      id: "sequence_1",
+      name: "Quick attack",
+      system: "5-1" as const,
+      rotation: 0,
+      keyframes: [
+        {
+          id: "keyframe_1",
+          label: "serve",
+          positions: mockPersistenceState.positions,
+          duration: 800,
+        },
+      ],
+      createdAt: 1000,
+      updatedAt: 1000,
+    };
+
+    beforeEach(() => {
+      localStorage.removeItem("volleyball-play-sequences");
+    });
+
+    it("should save and load sequences", () => {
+      persistenceManager.saveSequences([sequence]);
+
+      const [loaded] = persistenceManager.loadSequences();
+
+      expect(loaded.name).toBe("Quick attack");
+      expect(loaded.keyframes[0].positions.OH1.x).toBe(150);
+      expect(loaded.keyframes[0].positions.OH1.lastModified).toBeInstanceOf(
+        Date
+      );
+    });
+
+    it("should skip invalid stored sequences", () => {
+      localStorage.setItem(
+        "volleyball-play-sequences",
+        JSON.stringify({ version: "1.0.0", sequences: [sequence, { id: 1 }] })
+      );
+
+      expect(persistenceManager.loadSequences()).toHaveLength(1);
+    });
+
+    it("should not touch storage when localStorage is disabled", () => {
+      const manager = new VolleyballCourtPersistenceManager({
+        enableLocalStorage: false,
+      });
+
+      manager.saveSequences([sequence]);
+
+      expect(localStorage.getItem("volleyball-play-sequences")).toBeNull();
+      expect(manager.loadSequences()).toEqual([]);
+    });
+  });
+
   describe("configuration", () => {
     it("should set read-only mode", () => {
       vi.useFakeTimers();
@@ -0,0 +1,92 @@
+/**
+ * Tests for the PlaybookSwitcher component
+ */
+
+import React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { PlaybookSwitcher } from "../controls/PlaybookSwitcher";
+import { VolleyballCourtProvider } from "../VolleyballCourtProvider";
+import { playbookManager } from "../utils/storage/PlaybookManager";
+
+const renderWithProvider = (ui: React.ReactElement) =>
+  render(
+    <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+      {ui}
+    </VolleyballCourtProvider>
+  );
+
+const getOptionNames = () =>
+  Array.from(
+    (screen.getByTestId("playbook-select") as HTMLSelectElement).options
+  ).map((option) => option.textContent);
+
+describe("PlaybookSwitcher", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("creates a playbook and makes it active", async () => {
+    renderWithProvider(<PlaybookSwitcher />);
+
+    await waitFor(() => expect(getOptionNames()).toEqual(["Default playbook"]));
+    expect(screen.getByTestId("playbook-delete-button")).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId("playbook-new-button"));
+
+    await waitFor(() =>
+      expect(getOptionNames()).toEqual(["Default playbook", "Playbook 2"])
+    );
+    expect(screen.getByTestId("playbook-name-input")).toHaveValue("Playbook 2");
+    expect(screen.getByTestId("playbook-delete-button")).not.toBeDisabled();
+  });
+
+  it("renames the active playbook when the name field loses focus", async () => {
+    renderWithProvider(<PlaybookSwitcher />);
+    await waitFor(() =>
+      expect(screen.getByTestId("playbook-name-input")).toHaveValue(
+        "Default playbook"
+      )
+    );
+
+    const input = screen.getByTestId("playbook-name-input");
+    fireEvent.change(input, { target: { value: "Varsity 2026" } });
+    fireEvent.blur(input);
+
+    await waitFor(() => expect(getOptionNames()).toEqual(["Varsity 2026"]));
+  });
+
+  it("switches, duplicates and deletes playbooks", async () => {
+    const original = await playbookManager.getActivePlaybook();
+    const jv = await playbookManager.createPlaybook("JV");
+    renderWithProvider(<PlaybookSwitcher />);
+    await waitFor(() =>
+      expect(getOptionNames()).toEqual(["Default playbook", "JV"])
+    );
+
+    fireEvent.change(screen.getByTestId("playbook-select"), {
+      target: { value: jv.id },
+    });
+    await waitFor(() =>
+      expect(screen.getByTestId("playbook-select")).toHaveValue(jv.id)
+    );
+
+    fireEvent.click(screen.getByTestId("playbook-duplicate-button"));
+    await waitFor(() =>
+      expect(getOptionNames()).toEqual(["Default playbook", "JV", "JV (copy)"])
+    );
+
+    fireEvent.click(screen.getByTestId("playbook-delete-button"));
+    await waitFor(() =>
+      expect(getOptionNames()).toEqual(["Default playbook", "JV"])
+    );
+    expect(screen.getByTestId("playbook-select")).toHaveValue(original.id);
+  });
+
+  it("hides the editing controls when read-only", async () => {
+    renderWithProvider(<PlaybookSwitcher isReadOnly={true} />);
+
+    await waitFor(() => expect(getOptionNames()).toEqual(["Default playbook"]));
+    expect(screen.queryByTestId("playbook-new-button")).toBeNull();
+  });
+});
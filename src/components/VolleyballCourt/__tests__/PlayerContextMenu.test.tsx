@@ -0,0 +1,141 @@
+/**
+ * Tests for the PlayerContextMenu component
+ */
+
+import React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PlayerContextMenu } from "../controls/PlayerContextMenu";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+
+// Shows what the menu actions change
+const CourtState: React.FC = () => {
+  const { state, roster, historyEntries, positionManager } =
+    useVolleyballCourt();
+  const setter = roster.find((player) => player.id === "S");
+  const position = (playerId: string) =>
+    `${state.positions[playerId]?.x},${state.positions[playerId]?.y}`;
+
+  return (
+    <div>
+      <span data-testid="setter">
+        {setter?.name} #{setter?.number} {setter?.color}
+        {setter?.locked ? " locked" : ""}
+      </span>
+      <span data-testid="loading">
+        {positionManager.isLoading ? "loading" : "ready"}
+      </span>
+      <span data-testid="rotation">{state.rotationIndex}</span>
+      <span data-testid="setter-position">{position("S")}</span>
+      <span data-testid="opposite-position">{position("Opp")}</span>
+      <span data-testid="last-change">
+        {historyEntries[historyEntries.length - 1]?.action.description}
+      </span>
+    </div>
+  );
+};
+
+const renderMenu = (playerId = "S", onClose = vi.fn()) =>
+  render(
+    <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+      <CourtState />
+      <PlayerContextMenu
+        playerId={playerId}
+        position={{ x: 100, y: 100 }}
+        onClose={onClose}
+      />
+    </VolleyballCourtProvider>
+  );
+
+describe("PlayerContextMenu", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("locks the player and edits their name, number and color", async () => {
+    const onClose = vi.fn();
+    renderMenu("S", onClose);
+
+    fireEvent.click(screen.getByTestId("context-menu-lock"));
+    await waitFor(() =>
+      expect(screen.getByTestId("setter")).toHaveTextContent("locked")
+    );
+    expect(screen.getByTestId("context-menu-lock")).toHaveTextContent("Unlock");
+
+    fireEvent.click(screen.getByTestId("context-menu-edit"));
+    fireEvent.change(screen.getByLabelText("Name"), {
+      target: { value: "Alex" },
+    });
+    fireEvent.change(screen.getByLabelText("Number"), {
+      target: { value: "12" },
+    });
+    fireEvent.change(screen.getByLabelText("Color"), {
+      target: { value: "#ff0000" },
+    });
+    fireEvent.click(screen.getByTestId("context-menu-save"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("setter")).toHaveTextContent(
+        "Alex #12 #ff0000 locked"
+      )
+    );
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("swaps two players' positions as one undoable change", async () => {
+    renderMenu();
+    // Stored positions finish loading before the swap is saved
+    await waitFor(() =>
+      expect(screen.getByTestId("loading")).toHaveTextContent("ready")
+    );
+    const setterPosition = screen.getByTestId("setter-position").textContent;
+    const oppositePosition =
+      screen.getByTestId("opposite-position").textContent;
+    fireEvent.click(screen.getByTestId("context-menu-swap"));
+    fireEvent.click(screen.getByTestId("context-menu-swap-Opp"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("setter-position")).toHaveTextContent(
+        oppositePosition!
+      )
+    );
+    expect(screen.getByTestId("opposite-position")).toHaveTextContent(
+      setterPosition!
+    );
+    expect(screen.getByTestId("last-change")).toHaveTextContent(
+      "Swap Setter and Opposite"
+    );
+  });
+
+  it("rotates the player into the serving slot", async () => {
+    renderMenu("OH1");
+
+    fireEvent.click(screen.getByTestId("context-menu-server"));
+
+    await waitFor(() =>
+      expect(screen.getByTestId("rotation")).not.toHaveTextContent("0")
+    );
+  });
+
+  it("reports the rotations a position was copied to", () => {
+    renderMenu();
+
+    fireEvent.click(screen.getByTestId("context-menu-copy"));
+
+    expect(screen.getByTestId("context-menu-message")).toHaveTextContent(
+      /^Copied to \d/
+    );
+  });
+
+  it("closes on Escape", () => {
+    const onClose = vi.fn();
+    renderMenu("S", onClose);
+
+    fireEvent.keyDown(document, { key: "Escape" });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -2,10 +2,11 @@
  * Basic tests for PlayerLayer component
  */
 import React from "react";
-import { render } from "@testing-library/react";
+import { render, screen, fireEvent } from "@testing-library/react";
 import { vi, describe, it, expect } from "vitest";
 import { PlayerLayer } from "../PlayerLayer";
 import { FormationType } from "@/types";
+import { PlayerDefinition } from "../types";
 
 // Mock all dependencies
 vi.mock("@/volleyball-rules-engine/VolleyballRulesEngine");
@@ -20,8 +21,12 @@ vi.mock("framer-motion", () => ({
 }));
 
 describe("PlayerLayer", () => {
+  const players: PlayerDefinition[] = [
+    { id: "1", name: "Player 1", role: "OH" },
+  ];
+
   const defaultProps = {
-    players: [{ id: "1", name: "Player 1", role: "OH" }],
+    players,
     positions: {
       "1": { x: 100, y: 200, isCustom: false, lastModified: new Date() },
     },
@@ -62,4 +67,131 @@ describe("PlayerLayer", () => {
       );
     }).not.toThrow();
   });
+
+  it("shows collaborators' cursors and the players they are dragging", () => {
+    render(
+      <svg>
+        <PlayerLayer
+          {...defaultProps}
+          collaborators={[
+            {
+              id: "coach-2",
+              name: "Sam",
+              color: "#7c3aed",
+              system: "5-1",
+              rotation: 0,
+              formation: "serveReceive",
+              cursor: { x: 140, y: 210 },
+              draggedPlayerId: "1",
+              lastSeen: Date.now(),
+            },
+          ]}
+        />
+      </svg>
+    );
+
+    expect(screen.getByTestId("collaborator-cursor-coach-2")).toHaveAttribute(
+      "transform",
+      "translate(140, 210)"
+    );
+    expect(screen.getByText("Sam")).toBeInTheDocument();
+    expect(screen.getByTestId("collaborator-drag-coach-2")).toHaveAttribute(
+      "cx",
+      "100"
+    );
+  });
+
+  it("selects players with shift-click and a marquee when multi-select is on", () => {
+    const onSelectionChange = vi.fn();
+    const props = {
+      ...defaultProps,
+      players: [
+        { id: "1", name: "Player 1", role: "OH" },
+        { id: "2", name: "Player 2", role: "MB" },
+      ] as PlayerDefinition[],
+      positions: {
+        "1": { x: 100, y: 200, isCustom: false, lastModified: new Date() },
+        "2": { x: 400, y: 200, isCustom: false, lastModified: new Date() },
+      },
+      multiSelectEnabled: true,
+      selectedPlayers: ["1"],
+      onSelectionChange,
+    };
+
+    render(
+      <svg>
+        <PlayerLayer {...props} />
+      </svg>
+    );
+
+    expect(screen.getByTestId("player-selected-1")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText(/^Player 2 in/), { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(["1", "2"]);
+
+    // jsdom has no PointerEvent, which would drop the pointer coordinates
+    if (!window.PointerEvent) {
+      window.PointerEvent = MouseEvent as unknown as typeof PointerEvent;
+    }
+    const area = screen.getByTestId("selection-area");
+    fireEvent.pointerDown(area, { clientX: 300, clientY: 100 });
+    fireEvent.pointerUp(area, { clientX: 500, clientY: 300 });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(["2"]);
+  });
+
+  it("opens player actions on right-click and double-click", () => {
+    const onPlayerContextMenu = vi.fn();
+    const onPlayerDoubleClick = vi.fn();
+    render(
+      <svg>
+        <PlayerLayer
+          {...defaultProps}
+          players={[{ id: "1", name: "Player 1", role: "OH", locked: true }]}
+          onPlayerContextMenu={onPlayerContextMenu}
+          onPlayerDoubleClick={onPlayerDoubleClick}
+        />
+      </svg>
+    );
+
+    const player = screen.getByLabelText(/^Player 1 in/);
+    expect(player).toHaveAccessibleName(/Locked$/);
+    expect(screen.getByTestId("player-locked-1")).toBeInTheDocument();
+
+    fireEvent.contextMenu(player, { clientX: 40, clientY: 60 });
+    expect(onPlayerContextMenu).toHaveBeenCalledWith("1", { x: 40, y: 60 });
+
+    fireEvent.doubleClick(player, { clientX: 40, clientY: 60 });
+    expect(onPlayerDoubleClick).toHaveBeenCalledWith("1", { x: 40, y: 60 });
+  });
+
+  it("nudges a focused player with the arrow keys", () => {
+    const onPlayerKeyboardMove = vi.fn();
+    render(
+      <svg>
+        <PlayerLayer
+          {...defaultProps}
+          keyboardNavigation={true}
+          customAriaLabels={{ "1": "Outside hitter" }}
+          onPlayerKeyboardMove={onPlayerKeyboardMove}
+        />
+      </svg>
+    );
+
+    const player = screen.getByLabelText("Outside hitter");
+    expect(player).toHaveAttribute("tabindex", "0");
+
+    fireEvent.keyDown(player, { key: "ArrowRight" });
+    expect(onPlayerKeyboardMove).toHaveBeenLastCalledWith(
+      "1",
+      { x: 106, y: 200 },
+      true
+    );
+
+    fireEvent.keyDown(player, { key: "ArrowUp", shiftKey: true });
+    expect(onPlayerKeyboardMove).toHaveBeenLastCalledWith(
+      "1",
+      { x: 100, y: 170 },
+      true
+    );
+  });
 });
@@ -0,0 +1,132 @@
+/**
+ * Tests for remote sync through the provider
+ */
+
+import React from "react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { InMemoryPersistenceAdapter } from "../utils/storage/InMemoryPersistenceAdapter";
+import { getPersistenceRecordId } from "../utils/storage/PersistenceAdapter";
+import { PlayerPosition } from "../types/positioning";
+
+const initialFormation = {
+  system: "5-1",
+  rotation: 2,
+  formation: "serveReceive",
+};
+const recordId = getPersistenceRecordId(initialFormation);
+
+// Moves the setter and shows the setter's position, on the court and in the
+// position manager
+const SyncPanel: React.FC = () => {
+  const { state, positionManager, handlePositionChange } = useVolleyballCourt();
+  const moveSetter = () =>
+    handlePositionChange({
+      ...(state.positions as Record<string, PlayerPosition>),
+      S: { x: 320, y: 210, isCustom: true, lastModified: new Date() },
+    });
+  return (
+    <>
+      <button data-testid="move-setter" onClick={moveSetter} />
+      <span data-testid="loading">{String(state.isLoading)}</span>
+      <span data-testid="setter-x">{state.positions.S?.x}</span>
+      <span data-testid="saved-setter-x">
+        {
+          positionManager.getFormationPositions(
+            state.system,
+            state.rotationIndex,
+            state.formation
+          ).S?.x
+        }
+      </span>
+    </>
+  );
+};
+
+const renderWithAdapter = (adapter: InMemoryPersistenceAdapter) =>
+  render(
+    <VolleyballCourtProvider
+      config={{
+        initialRotation: initialFormation.rotation,
+        initialFormation: initialFormation.formation,
+      }}
+      enableSharing={false}
+      remoteAdapter={adapter}
+    >
+      <SyncPanel />
+    </VolleyballCourtProvider>
+  );
+
+describe("Remote sync", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("loads the initial formation from the remote backend", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    adapter.putRecord(recordId, {
+      ...initialFormation,
+      positions: { S: { x: 123, y: 250, isCustom: true } },
+    });
+
+    renderWithAdapter(adapter);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("saved-setter-x").textContent).toBe("123");
+      expect(screen.getByTestId("setter-x").textContent).toBe("123");
+    });
+    expect(adapter.requests[0]).toMatchObject({ method: "load", id: recordId });
+  });
+
+  it("sends position changes to the remote backend", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    renderWithAdapter(adapter);
+    await waitFor(() =>
+      expect(screen.getByTestId("loading").textContent).toBe("false")
+    );
+
+    fireEvent.click(screen.getByTestId("move-setter"));
+
+    await waitFor(() =>
+      expect(adapter.requests).toContainEqual(
+        expect.objectContaining({ method: "save", id: recordId })
+      )
+    );
+    const record = await adapter.load(recordId);
+    expect(record?.state.positions.S).toMatchObject({ x: 320, y: 210 });
+  });
+
+  it("listens for the browser coming online once across renders", async () => {
+    const addEventListener = vi.spyOn(window, "addEventListener");
+    renderWithAdapter(new InMemoryPersistenceAdapter());
+    await waitFor(() =>
+      expect(screen.getByTestId("loading").textContent).toBe("false")
+    );
+
+    fireEvent.click(screen.getByTestId("move-setter"));
+    fireEvent.click(screen.getByTestId("move-setter"));
+
+    const onlineListeners = addEventListener.mock.calls.filter(
+      ([type]) => type === "online"
+    );
+    expect(onlineListeners).toHaveLength(1);
+    addEventListener.mockRestore();
+  });
+
+  it("stops listening for the browser coming online when unmounted", () => {
+    const removeEventListener = vi.spyOn(window, "removeEventListener");
+    const { unmount } = renderWithAdapter(new InMemoryPersistenceAdapter());
+
+    unmount();
+
+    expect(removeEventListener).toHaveBeenCalledWith(
+      "online",
+      expect.any(Function)
+    );
+    removeEventListener.mockRestore();
+  });
+});
@@ -204,4 +204,17 @@ describe("RotationControls", () => {
 
     expect(onRotationChange).not.toHaveBeenCalled();
   });
+
+  it("shows the libero replacement when provided", () => {
+    render(
+      <RotationControls
+        {...defaultProps}
+        liberoSwap={{ liberoId: "L", replacedPlayerId: "MB1", slot: 5 }}
+      />
+    );
+
+    expect(screen.getByTestId("libero-swap-indicator")).toHaveTextContent(
+      "L ⇄ MB1"
+    );
+  });
 });
@@ -0,0 +1,140 @@
+/**
+ * Tests for RotationSheet component
+ */
+
+import React from "react";
+import { render, screen, within, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { RotationSheet } from "../RotationSheet";
+import { PlayerDefinition, PlayerPosition, RotationMapping } from "../types";
+
+describe("RotationSheet", () => {
+  const players: PlayerDefinition[] = [
+    { id: "S", name: "Setter", role: "S" },
+    { id: "Opp", name: "Opposite", role: "OPP" },
+    { id: "OH1", name: "Outside 1", role: "OH" },
+    { id: "OH2", name: "Outside 2", role: "OH" },
+    { id: "MB1", name: "Middle 1", role: "MB" },
+    { id: "MB2", name: "Middle 2", role: "MB" },
+    { id: "L", name: "Libero", role: "L" },
+  ];
+
+  const rotations: RotationMapping[] = [
+    { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
+    { 1: "OH2", 2: "S", 3: "MB1", 4: "Opp", 5: "MB2", 6: "OH1" },
+    { 1: "OH1", 2: "OH2", 3: "S", 4: "MB1", 5: "Opp", 6: "MB2" },
+    { 1: "MB2", 2: "OH1", 3: "OH2", 4: "S", 5: "MB1", 6: "Opp" },
+    { 1: "Opp", 2: "MB2", 3: "OH1", 4: "OH2", 5: "S", 6: "MB1" },
+    { 1: "MB1", 2: "Opp", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S" },
+  ];
+
+  const createPositionManager = (
+    custom: Record<string, PlayerPosition> = {}
+  ) => ({
+    getFormationPositions: vi.fn().mockReturnValue(custom),
+  });
+
+  it("renders every rotation with each formation side by side", () => {
+    const positionManager = createPositionManager();
+    render(
+      <RotationSheet
+        system="5-1"
+        players={players}
+        rotations={rotations}
+        positionManager={positionManager}
+      />
+    );
+
+    expect(screen.getByText("5-1 Line-up Card")).toBeInTheDocument();
+    expect(screen.getByText("Rotation 6")).toBeInTheDocument();
+    expect(screen.getByText("Serve/Receive")).toBeInTheDocument();
+    expect(screen.getByTestId("rotation-sheet-cell-5-base")).toBeInTheDocument();
+    expect(positionManager.getFormationPositions).toHaveBeenCalledTimes(18);
+    expect(positionManager.getFormationPositions).toHaveBeenCalledWith(
+      "5-1",
+      3,
+      "serveReceive"
+    );
+  });
+
+  it("reports legal formations", () => {
+    render(
+      <RotationSheet
+        system="5-1"
+        players={players}
+        rotations={rotations}
+        positionManager={createPositionManager()}
+        formations={["rotational"]}
+      />
+    );
+
+    expect(screen.getByTestId("rotation-sheet-summary")).toHaveTextContent(
+      "All formations are legal"
+    );
+    expect(
+      screen.queryByTestId("rotation-sheet-violations-0-rotational")
+    ).not.toBeInTheDocument();
+  });
+
+  it("marks players involved in violations using stored positions", () => {
+    // Left front (MB2) moved to the right of middle front (Opp)
+    render(
+      <RotationSheet
+        system="5-1"
+        players={players}
+        rotations={rotations.slice(0, 1)}
+        positionManager={createPositionManager({
+          MB2: { x: 400, y: 151, isCustom: true, lastModified: new Date() },
+        })}
+        formations={["rotational"]}
+      />
+    );
+
+    const cell = screen.getByTestId("rotation-sheet-cell-0-rotational");
+    expect(
+      within(cell).getByTestId("rotation-sheet-violation-marker-MB2")
+    ).toBeInTheDocument();
+    expect(
+      within(cell).getByTestId("rotation-sheet-violations-0-rotational")
+    ).toBeInTheDocument();
+    expect(screen.getByTestId("rotation-sheet-summary")).toHaveTextContent(
+      "1 violation found"
+    );
+  });
+
+  it("shows the libero in place of the replaced back-row player", () => {
+    // MB2 is in left back in this rotation
+    render(
+      <RotationSheet
+        system="5-1"
+        players={players}
+        rotations={rotations.slice(1, 2)}
+        positionManager={createPositionManager()}
+        libero={{ playerId: "L", replaces: ["MB1", "MB2"] }}
+        formations={["base"]}
+      />
+    );
+
+    const cell = screen.getByTestId("rotation-sheet-cell-0-base");
+    expect(within(cell).getByTestId("rotation-sheet-player-L")).toBeInTheDocument();
+    expect(
+      within(cell).queryByTestId("rotation-sheet-player-MB2")
+    ).not.toBeInTheDocument();
+  });
+
+  it("prints the sheet", () => {
+    const print = vi.spyOn(window, "print").mockImplementation(() => {});
+    render(
+      <RotationSheet
+        system="5-1"
+        players={players}
+        rotations={rotations}
+        positionManager={createPositionManager()}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId("rotation-sheet-print-button"));
+
+    expect(print).toHaveBeenCalled();
+  });
+});
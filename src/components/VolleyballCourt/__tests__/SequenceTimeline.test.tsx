@@ -0,0 +1,111 @@
+/**
+ * Tests for SequenceTimeline component
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { SequenceTimeline } from "../controls/SequenceTimeline";
+import { VolleyballCourtProvider } from "../VolleyballCourtProvider";
+
+const renderWithProvider = (ui: React.ReactElement) =>
+  render(
+    <VolleyballCourtProvider enableSharing={false} enablePersistence={false}>
+      {ui}
+    </VolleyballCourtProvider>
+  );
+
+const createSequenceWithKeyframes = (count: number) => {
+  fireEvent.click(screen.getByTestId("sequence-new-button"));
+  for (let i = 0; i < count; i++) {
+    fireEvent.click(screen.getByTestId("sequence-add-keyframe-button"));
+  }
+};
+
+describe("SequenceTimeline", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("creates a sequence and captures keyframes", () => {
+    renderWithProvider(<SequenceTimeline />);
+
+    expect(screen.queryByTestId("sequence-keyframes")).not.toBeInTheDocument();
+
+    createSequenceWithKeyframes(2);
+
+    expect(screen.getByTestId("sequence-name-input")).toHaveValue("Play 1");
+    expect(screen.getByTestId("sequence-keyframe-label-0")).toHaveValue(
+      "serve"
+    );
+    expect(screen.getByTestId("sequence-keyframe-label-1")).toHaveValue(
+      "transition"
+    );
+    expect(screen.getByTestId("sequence-time")).toHaveTextContent(
+      "0.0s / 0.3s"
+    );
+  });
+
+  it("edits, reorders and removes keyframes", () => {
+    renderWithProvider(<SequenceTimeline />);
+    createSequenceWithKeyframes(2);
+
+    fireEvent.change(screen.getByTestId("sequence-keyframe-label-1"), {
+      target: { value: "attack" },
+    });
+    fireEvent.change(screen.getByTestId("sequence-keyframe-duration-1"), {
+      target: { value: "1200" },
+    });
+    expect(screen.getByTestId("sequence-time")).toHaveTextContent("/ 1.2s");
+
+    fireEvent.click(screen.getByTestId("sequence-keyframe-earlier-1"));
+    expect(screen.getByTestId("sequence-keyframe-label-0")).toHaveValue(
+      "attack"
+    );
+
+    fireEvent.click(screen.getByTestId("sequence-keyframe-remove-0"));
+    expect(
+      screen.queryByTestId("sequence-keyframe-1")
+    ).not.toBeInTheDocument();
+  });
+
+  it("scrubs the timeline and exits the preview", () => {
+    renderWithProvider(<SequenceTimeline />);
+    createSequenceWithKeyframes(2);
+
+    fireEvent.change(screen.getByTestId("sequence-scrubber"), {
+      target: { value: "150" },
+    });
+
+    expect(screen.getByTestId("sequence-time")).toHaveTextContent("0.1s");
+    expect(screen.getByTestId("sequence-add-keyframe-button")).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId("sequence-exit-preview-button"));
+
+    expect(screen.getByTestId("sequence-add-keyframe-button")).toBeEnabled();
+  });
+
+  it("plays and stops a sequence", () => {
+    renderWithProvider(<SequenceTimeline />);
+    createSequenceWithKeyframes(1);
+
+    const playButton = screen.getByTestId("sequence-play-button");
+    expect(playButton).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId("sequence-add-keyframe-button"));
+    fireEvent.click(playButton);
+    expect(playButton).toHaveTextContent("Stop");
+
+    fireEvent.click(playButton);
+    expect(playButton).toHaveTextContent("Play");
+  });
+
+  it("hides editing controls in read-only mode", () => {
+    renderWithProvider(<SequenceTimeline isReadOnly={true} />);
+
+    expect(
+      screen.queryByTestId("sequence-new-button")
+    ).not.toBeInTheDocument();
+    expect(screen.getByTestId("sequence-select")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the SubstitutionManager component
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SubstitutionManager } from "../controls/SubstitutionManager";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { VolleyballCourtConfig } from "../types";
+
+const config: VolleyballCourtConfig = {
+  bench: {
+    "5-1": [
+      { id: "B1", name: "Bench 1", role: "MB" },
+      { id: "B2", name: "Bench 2", role: "OH" },
+    ],
+  },
+  validation: { ruleSet: "FIVB" },
+};
+
+// Shows the lineup the substitutions produce
+const Lineup: React.FC = () => {
+  const { rotations, activePositions } = useVolleyballCourt();
+  return (
+    <div>
+      <span data-testid="rotation-6">{rotations[5][6]}</span>
+      <span data-testid="has-b1-position">
+        {String(Boolean(activePositions.B1))}
+      </span>
+    </div>
+  );
+};
+
+const renderWithProvider = (
+  ui: React.ReactElement,
+  props: Partial<React.ComponentProps<typeof VolleyballCourtProvider>> = {}
+) =>
+  render(
+    <VolleyballCourtProvider
+      config={config}
+      enableSharing={false}
+      enablePersistence={false}
+      {...props}
+    >
+      {ui}
+      <Lineup />
+    </VolleyballCourtProvider>
+  );
+
+describe("SubstitutionManager", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("puts the substitute into every rotation", () => {
+    const onRotationChange = vi.fn();
+    renderWithProvider(<SubstitutionManager />, { onRotationChange });
+
+    expect(screen.getByTestId("substitution-count")).toHaveTextContent(
+      "Subs: 0 / 6"
+    );
+
+    fireEvent.change(screen.getByTestId("substitution-out"), {
+      target: { value: "S" },
+    });
+    fireEvent.click(screen.getByTestId("substitution-submit"));
+
+    expect(screen.getByTestId("substitution-count")).toHaveTextContent(
+      "Subs: 1 / 6"
+    );
+    expect(screen.getByTestId("rotation-6")).toHaveTextContent("B1");
+    expect(screen.getByTestId("has-b1-position")).toHaveTextContent("true");
+    expect(screen.getByTestId("substitution-log")).toHaveTextContent(
+      "Bench 1 for Setter"
+    );
+    expect(onRotationChange).toHaveBeenCalledWith(0);
+  });
+
+  it("reports illegal substitutions as rotation violations", () => {
+    const onViolation = vi.fn();
+    renderWithProvider(<SubstitutionManager />, { onViolation });
+
+    fireEvent.change(screen.getByTestId("substitution-out"), {
+      target: { value: "S" },
+    });
+    fireEvent.click(screen.getByTestId("substitution-submit"));
+
+    // Bench 2 cannot replace Bench 1; only the setter may come back
+    fireEvent.change(screen.getByTestId("substitution-out"), {
+      target: { value: "B1" },
+    });
+    fireEvent.change(screen.getByTestId("substitution-in"), {
+      target: { value: "B2" },
+    });
+    fireEvent.click(screen.getByTestId("substitution-submit"));
+
+    expect(onViolation).toHaveBeenCalledWith([
+      expect.objectContaining({
+        code: "SUB_POSITION_MISMATCH",
+        violationType: "rotation",
+        affectedPlayers: ["B2", "B1"],
+      }),
+    ]);
+    expect(screen.getByTestId("substitution-count")).toHaveTextContent(
+      "Subs: 1 / 6"
+    );
+  });
+
+  it("clears substitutions for a new set", () => {
+    renderWithProvider(<SubstitutionManager />);
+
+    fireEvent.click(screen.getByTestId("substitution-submit"));
+    fireEvent.click(screen.getByTestId("substitution-new-set"));
+
+    expect(screen.getByText("Set 2")).toBeInTheDocument();
+    expect(screen.getByTestId("substitution-count")).toHaveTextContent(
+      "Subs: 0 / 6"
+    );
+  });
+
+  it("disables changes when read-only", () => {
+    renderWithProvider(<SubstitutionManager isReadOnly={true} />);
+
+    expect(screen.getByTestId("substitution-submit")).toBeDisabled();
+  });
+});
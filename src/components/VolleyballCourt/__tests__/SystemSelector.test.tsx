@@ -72,6 +72,30 @@ describe("SystemSelector", () => {
     expect(selector).toHaveClass("custom-class");
   });
 
+  it("lists custom systems after the built-ins", () => {
+    const onSystemChange = vi.fn();
+    render(
+      <SystemSelector
+        {...defaultProps}
+        systems={[
+          { id: "5-1", name: "5-1" },
+          { id: "6-2", name: "6-2" },
+          { id: "coed-4-2", name: "Coed 4-2" },
+        ]}
+        onSystemChange={onSystemChange}
+      />
+    );
+
+    expect(
+      screen.getByRole("option", { name: "Coed 4-2" })
+    ).toBeInTheDocument();
+
+    fireEvent.change(screen.getByTestId("system-selector"), {
+      target: { value: "coed-4-2" },
+    });
+    expect(onSystemChange).toHaveBeenCalledWith("coed-4-2");
+  });
+
   it("renders with 6-2 system selected", () => {
     render(<SystemSelector {...defaultProps} system="6-2" />);
 
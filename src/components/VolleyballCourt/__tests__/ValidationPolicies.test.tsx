@@ -0,0 +1,80 @@
+/**
+ * Tests for validation policies in the provider's validation pipeline
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  VolleyballCourtProvider,
+  useVolleyballCourt,
+} from "../VolleyballCourtProvider";
+import { FormationType } from "../types";
+import { PlayerPosition } from "../types/positioning";
+
+// Setter (right back in the first rotation) at the net, and left front
+// to the right of middle front
+const moves: Record<string, PlayerPosition> = {
+  S: { x: 450, y: 10, isCustom: true, lastModified: new Date() },
+  MB2: { x: 400, y: 100, isCustom: true, lastModified: new Date() },
+};
+
+// Moves the players and lists the reported violation codes
+const PolicyPanel: React.FC = () => {
+  const { state, reportedViolations, positionManager, handlePositionChange } =
+    useVolleyballCourt();
+  const movePlayers = () => {
+    positionManager.setFormationPositions(
+      state.system,
+      state.rotationIndex,
+      state.formation,
+      moves
+    );
+    handlePositionChange({
+      ...(state.positions as Record<string, PlayerPosition>),
+      ...moves,
+    });
+  };
+  return (
+    <>
+      <button data-testid="move-players" onClick={movePlayers} />
+      <span data-testid="violation-codes">
+        {reportedViolations.map((violation) => violation.code).join(" ")}
+      </span>
+    </>
+  );
+};
+
+const renderPanel = (initialFormation: FormationType) => {
+  render(
+    <VolleyballCourtProvider
+      config={{ initialFormation }}
+      enableSharing={false}
+      enablePersistence={false}
+    >
+      <PolicyPanel />
+    </VolleyballCourtProvider>
+  );
+  fireEvent.click(screen.getByTestId("move-players"));
+  return screen.getByTestId("violation-codes").textContent;
+};
+
+describe("Validation policies", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("checks switch legality instead of overlap after the serve", () => {
+    const codes = renderPanel("base");
+
+    expect(codes).toContain("BACK_ROW_SETTER_AT_NET");
+    expect(codes).not.toContain("POSITIONING_VIOLATION");
+  });
+
+  it("checks overlap at serve contact", () => {
+    const codes = renderPanel("serveReceive");
+
+    expect(codes).toContain("POSITIONING_VIOLATION");
+    expect(codes).not.toContain("BACK_ROW_SETTER_AT_NET");
+  });
+});
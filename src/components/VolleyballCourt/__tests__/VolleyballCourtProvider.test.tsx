@@ -12,6 +12,7 @@ import {
   ShareData,
   ErrorData,
 } from "../types";
+import { SYSTEM_TEMPLATES } from "../utils/customSystems";
 
 // Mock the enhanced position manager
 vi.mock("@/hooks/useEnhancedPositionManager", () => ({
@@ -653,6 +654,7 @@ describe("VolleyballCourtProvider", () => {
       const customConfig: VolleyballCourtConfig = {
         players: {
           "5-1": [{ id: "CustomS", name: "Custom Setter", role: "S" }],
+          "6-2": [],
         },
       };
 
@@ -687,6 +689,7 @@ describe("VolleyballCourtProvider", () => {
               6: "CustomMB2",
             },
           ],
+          "6-2": [],
         },
       };
 
@@ -745,5 +748,70 @@ describe("VolleyballCourtProvider", () => {
       expect(screen.getByTestId("show-rotation")).toHaveTextContent("false");
       expect(screen.getByTestId("show-formation")).toHaveTextContent("true"); // Should keep default
     });
+
+    it("should merge custom systems and flag coed line-ups that do not alternate", async () => {
+      const coed = SYSTEM_TEMPLATES["coed-4-2"];
+      const onViolation = vi.fn();
+      const customConfig: VolleyballCourtConfig = {
+        systems: [
+          {
+            ...coed,
+            rotations: coed.rotations.map((rotation) => ({
+              ...rotation,
+              1: rotation[2],
+              2: rotation[1],
+            })),
+          },
+        ],
+        initialSystem: "coed-4-2",
+      };
+
+      const TestConfigComponent: React.FC = () => {
+        const { config, systemOptions, activePositions } = useVolleyballCourt();
+        return (
+          <div>
+            <div data-testid="custom-system-player">
+              {config.players["coed-4-2"][0].name}
+            </div>
+            <div data-testid="system-options">
+              {systemOptions.map((option) => option.name).join(",")}
+            </div>
+            <div data-testid="has-s1-position">
+              {String(Boolean(activePositions.S1))}
+            </div>
+          </div>
+        );
+      };
+
+      render(
+        <VolleyballCourtProvider
+          config={customConfig}
+          enableSharing={false}
+          enablePersistence={false}
+          onViolation={onViolation}
+        >
+          <TestConfigComponent />
+        </VolleyballCourtProvider>
+      );
+
+      expect(screen.getByTestId("custom-system-player")).toHaveTextContent(
+        "Setter 1"
+      );
+      expect(screen.getByTestId("system-options")).toHaveTextContent(
+        "5-1,6-2,Coed 4-2"
+      );
+      expect(screen.getByTestId("has-s1-position")).toHaveTextContent("true");
+
+      await waitFor(() => {
+        expect(onViolation).toHaveBeenCalledWith(
+          expect.arrayContaining([
+            expect.objectContaining({
+              code: "GENDER_ALTERNATION",
+              violationType: "rotation",
+            }),
+          ])
+        );
+      });
+    });
   });
 });
@@ -3,13 +3,14 @@
  */
 
 import React from "react";
+import { useLocalization } from "../hooks/useLocalization";
 
 export interface AnimationControlsProps {
   onAnimate: () => void;
   isAnimating?: boolean;
   isReadOnly?: boolean;
   className?: string;
-  animationLabel?: string;
+  animationLabel?: string; // Defaults to the localized "Animate SR→Base"
   variant?: "primary" | "secondary";
 }
 
@@ -18,9 +19,11 @@ export const AnimationControls: React.FC<AnimationControlsProps> = ({
   isAnimating = false,
   isReadOnly = false,
   className = "",
-  animationLabel = "Animate SR→Base",
+  animationLabel,
   variant = "primary",
 }) => {
+  const { t } = useLocalization();
+
   const getButtonClasses = () => {
     const baseClasses =
       "px-3 py-1 rounded text-white font-medium transition-colors";
@@ -39,14 +42,14 @@ export const AnimationControls: React.FC<AnimationControlsProps> = ({
   };
 
   const getButtonText = () => {
-    if (isAnimating) return "Animating...";
-    return animationLabel;
+    if (isAnimating) return t("animation.running");
+    return animationLabel ?? t("animation.label");
   };
 
   const getTitle = () => {
-    if (isReadOnly) return "Disabled in read-only mode";
-    if (isAnimating) return "Animation in progress";
-    return "Play scripted animation sequence";
+    if (isReadOnly) return t("common.readOnly");
+    if (isAnimating) return t("animation.runningTitle");
+    return t("animation.title");
   };
 
   return (
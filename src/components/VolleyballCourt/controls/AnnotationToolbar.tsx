@@ -0,0 +1,179 @@
+/**
+ * AnnotationToolbar component - Adds the ball, arrows, callouts and zones to the court
+ */
+
+import React, { useState } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import {
+  createArrowAnnotation,
+  createBallAnnotation,
+  createTextAnnotation,
+  createZoneAnnotation,
+} from "../utils/courtAnnotations";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface AnnotationToolbarProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+// Default run length for a new arrow, towards the net
+const DEFAULT_ARROW_LENGTH = 80;
+
+export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    roster,
+    activePositions,
+    annotations,
+    addAnnotation,
+    setAnnotations,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+  const [arrowPlayerId, setArrowPlayerId] = useState("");
+  const [isCurved, setIsCurved] = useState(false);
+  const [calloutText, setCalloutText] = useState("");
+
+  if (isReadOnly) {
+    return null;
+  }
+
+  const playersOnCourt = roster.filter(
+    (player) => activePositions[player.id]
+  );
+  const arrowPlayer = playersOnCourt.some(
+    (player) => player.id === arrowPlayerId
+  )
+    ? arrowPlayerId
+    : playersOnCourt[0]?.id ?? "";
+  const hasBall = annotations.some((annotation) => annotation.type === "ball");
+  const isDisabled = state.isAnimating;
+
+  const handleAddArrow = () => {
+    const from = activePositions[arrowPlayer];
+    if (!from) return;
+
+    addAnnotation(
+      createArrowAnnotation(
+        arrowPlayer,
+        { x: from.x, y: Math.max(0, from.y - DEFAULT_ARROW_LENGTH) },
+        isCurved
+      )
+    );
+  };
+
+  const handleAddCallout = () => {
+    const text = calloutText.trim();
+    if (!text) return;
+
+    addAnnotation(createTextAnnotation(text));
+    setCalloutText("");
+  };
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClasses =
+    "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div
+      className={`annotation-toolbar flex items-center gap-2 flex-wrap ${className}`}
+      role="toolbar"
+      aria-label={t("annotation.toolbarLabel")}
+      data-testid="annotation-toolbar"
+    >
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        {t("annotation.draw")}
+      </span>
+
+      <button
+        type="button"
+        onClick={() => addAnnotation(createBallAnnotation())}
+        disabled={isDisabled || hasBall}
+        className={buttonClasses}
+        data-testid="annotation-add-ball"
+      >
+        {t("annotation.ball")}
+      </button>
+
+      <select
+        value={arrowPlayer}
+        onChange={(e) => setArrowPlayerId(e.target.value)}
+        disabled={isDisabled || playersOnCourt.length === 0}
+        aria-label={t("annotation.arrowPlayer")}
+        className={inputClasses}
+        data-testid="annotation-arrow-player"
+      >
+        {playersOnCourt.map((player) => (
+          <option key={player.id} value={player.id}>
+            {player.id}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={isCurved}
+          onChange={(e) => setIsCurved(e.target.checked)}
+          data-testid="annotation-arrow-curved"
+        />
+        {t("annotation.curved")}
+      </label>
+      <button
+        type="button"
+        onClick={handleAddArrow}
+        disabled={isDisabled || !arrowPlayer}
+        className={buttonClasses}
+        data-testid="annotation-add-arrow"
+      >
+        {t("annotation.arrow")}
+      </button>
+
+      <input
+        type="text"
+        value={calloutText}
+        onChange={(e) => setCalloutText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleAddCallout();
+        }}
+        placeholder={t("annotation.calloutText")}
+        aria-label={t("annotation.calloutText")}
+        className={`${inputClasses} w-32`}
+        data-testid="annotation-callout-text"
+      />
+      <button
+        type="button"
+        onClick={handleAddCallout}
+        disabled={isDisabled || !calloutText.trim()}
+        className={buttonClasses}
+        data-testid="annotation-add-text"
+      >
+        {t("annotation.callout")}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => addAnnotation(createZoneAnnotation())}
+        disabled={isDisabled}
+        className={buttonClasses}
+        data-testid="annotation-add-zone"
+      >
+        {t("annotation.zone")}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => setAnnotations([])}
+        disabled={isDisabled || annotations.length === 0}
+        title={t("annotation.clearTitle")}
+        className={buttonClasses}
+        data-testid="annotation-clear"
+      >
+        {t("annotation.clear")}
+      </button>
+    </div>
+  );
+};
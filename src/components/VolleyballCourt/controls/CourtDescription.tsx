@@ -0,0 +1,50 @@
+/**
+ * CourtDescription component - Reads out where every player stands
+ */
+
+import React, { useState } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface CourtDescriptionProps {
+  alwaysVisible?: boolean; // Otherwise only shown while it has keyboard focus
+  className?: string;
+}
+
+export const CourtDescription: React.FC<CourtDescriptionProps> = ({
+  alwaysVisible = false,
+  className = "",
+}) => {
+  const { announce, getCourtDescription } = useVolleyballCourt();
+  const { t } = useLocalization();
+  const [description, setDescription] = useState<string | null>(null);
+
+  const handleDescribe = () => {
+    const text = getCourtDescription();
+    setDescription(text);
+    announce(text);
+  };
+
+  return (
+    <div className={`court-description ${className}`}>
+      <button
+        type="button"
+        onClick={handleDescribe}
+        className={`px-3 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 ${
+          alwaysVisible ? "" : "sr-only focus:not-sr-only"
+        }`}
+        data-testid="court-description-button"
+      >
+        {t("court.describe")}
+      </button>
+      {description && (
+        <p
+          className="mt-2 text-sm text-gray-700 dark:text-gray-300"
+          data-testid="court-description-text"
+        >
+          {description}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * ExportButton component - Menu for exporting the court as an image or data file
+ */
+
+import React, { useState, useCallback } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { ExportFormat, ExportResult } from "../types";
+import { isImageExportFormat } from "../utils/courtExport";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface ExportButtonProps {
+  onExport?: (result: ExportResult) => void;
+  isAnimating?: boolean;
+  className?: string;
+  variant?: "primary" | "secondary";
+  size?: "sm" | "md" | "lg";
+  formats?: ExportFormat[]; // Defaults to the formats enabled in config.export
+}
+
+const FORMAT_LABEL_KEYS: Record<ExportFormat, string> = {
+  png: "export.format.png",
+  svg: "export.format.svg",
+  pdf: "export.format.pdf",
+  json: "export.format.json",
+  csv: "export.format.csv",
+};
+
+export const ExportButton: React.FC<ExportButtonProps> = ({
+  onExport,
+  isAnimating = false,
+  className = "",
+  variant = "secondary",
+  size = "md",
+  formats,
+}) => {
+  const { config, exportCourt } = useVolleyballCourt();
+  const { t } = useLocalization();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const {
+    enableImageExport = true,
+    enableDataExport = true,
+    exportFormats = [],
+  } = config.export;
+  const availableFormats = (formats ?? exportFormats).filter((format) =>
+    isImageExportFormat(format) ? enableImageExport : enableDataExport
+  );
+
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      if (isAnimating || isExporting) return;
+
+      setIsOpen(false);
+      setIsExporting(true);
+      try {
+        const result = await exportCourt(format);
+
+        // Call external callback if provided
+        if (onExport) {
+          onExport(result);
+        }
+      } catch (error) {
+        console.error("Export failed:", error);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [exportCourt, onExport, isAnimating, isExporting]
+  );
+
+  if (availableFormats.length === 0) {
+    return null;
+  }
+
+  const getButtonClasses = () => {
+    const baseClasses =
+      "rounded font-medium transition-colors flex items-center gap-2";
+
+    const sizeClasses = {
+      sm: "px-2 py-1 text-sm",
+      md: "px-3 py-1",
+      lg: "px-4 py-2 text-lg",
+    };
+
+    const variantClasses = {
+      primary: "bg-blue-600 text-white hover:bg-blue-700",
+      secondary:
+        "bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600",
+    };
+
+    const disabledClasses =
+      isAnimating || isExporting ? "opacity-50 cursor-not-allowed" : "";
+
+    return `${baseClasses} ${sizeClasses[size]} ${variantClasses[variant]} ${disabledClasses} ${className}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className={getButtonClasses()}
+        disabled={isAnimating || isExporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={
+          isAnimating
+            ? t("common.waitForAnimation")
+            : isExporting
+            ? t("export.exportingTitle")
+            : t("export.title")
+        }
+        data-testid="export-button"
+      >
+        <svg
+          className={`w-4 h-4 ${isExporting ? "animate-pulse" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+          />
+        </svg>
+        {isExporting ? t("export.exporting") : t("export.label")}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-1 z-20 min-w-[10rem] rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 shadow-lg py-1"
+          data-testid="export-menu"
+        >
+          {availableFormats.map((format) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-3 py-1 text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700"
+              data-testid={`export-option-${format}`}
+            >
+              {t(FORMAT_LABEL_KEYS[format])}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
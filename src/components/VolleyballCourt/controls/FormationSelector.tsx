@@ -1,37 +1,47 @@
 /**
- * FormationSelector component - Dropdown for selecting formation type
+ * FormationSelector component - Dropdown for selecting formation type, and
+ * the formation templates to place players with
  */
 
 import React from "react";
 import { FormationType } from "@/types";
+import { FormationOption, FormationTemplate } from "../types";
+import { BUILT_IN_FORMATION_OPTIONS } from "../utils/customFormations";
+import { useLocalization } from "../hooks/useLocalization";
 
 export interface FormationSelectorProps {
   formation: FormationType;
   onFormationChange: (formation: FormationType) => void;
+  formations?: FormationOption[]; // Built-in and custom formations, in order
   isReadOnly?: boolean;
   className?: string;
   showCustomizationIndicator?: boolean;
   isFormationCustomized?: (formation: FormationType) => boolean;
+  templates?: FormationTemplate[];
+  onApplyTemplate?: (templateId: string) => void;
+  onSaveTemplate?: () => void;
 }
 
 export const FormationSelector: React.FC<FormationSelectorProps> = ({
   formation,
   onFormationChange,
+  formations = BUILT_IN_FORMATION_OPTIONS,
   isReadOnly = false,
   className = "",
   showCustomizationIndicator = true,
   isFormationCustomized = () => false,
+  templates = [],
+  onApplyTemplate,
+  onSaveTemplate,
 }) => {
-  const getFormationLabel = (formationType: FormationType) => {
-    const labels = {
-      rotational: "Rotational Position",
-      serveReceive: "Serve/Receive",
-      base: "Base (Attack)",
-    };
+  const { t } = useLocalization();
 
-    const label = labels[formationType];
-    const isCustom =
-      showCustomizationIndicator && isFormationCustomized(formationType);
+  // Custom formations show their own name
+  const getFormationLabel = ({ id, name }: FormationOption) => {
+    const key = `formation.option.${id}`;
+    const translated = t(key);
+    const label = translated === key ? name : translated;
+    const isCustom = showCustomizationIndicator && isFormationCustomized(id);
 
     return isCustom ? `${label} ●` : label;
   };
@@ -39,7 +49,7 @@ export const FormationSelector: React.FC<FormationSelectorProps> = ({
   return (
     <div className={`flex items-center gap-3 ${className}`}>
       <label className="text-sm text-gray-900 dark:text-gray-100">
-        Show formation:
+        {t("formation.selectLabel")}
       </label>
       <div className="relative">
         <select
@@ -49,16 +59,14 @@ export const FormationSelector: React.FC<FormationSelectorProps> = ({
             isReadOnly ? "opacity-50 cursor-not-allowed" : ""
           }`}
           disabled={isReadOnly}
-          title={
-            isReadOnly ? "Disabled in read-only mode" : "Select formation type"
-          }
+          title={isReadOnly ? t("common.readOnly") : t("formation.selectTitle")}
           data-testid="formation-selector"
         >
-          <option value="rotational">{getFormationLabel("rotational")}</option>
-          <option value="serveReceive">
-            {getFormationLabel("serveReceive")}
-          </option>
-          <option value="base">{getFormationLabel("base")}</option>
+          {formations.map((option) => (
+            <option key={option.id} value={option.id}>
+              {getFormationLabel(option)}
+            </option>
+          ))}
         </select>
 
         {/* Visual indicator for customized formations */}
@@ -69,9 +77,42 @@ export const FormationSelector: React.FC<FormationSelectorProps> = ({
 
       {showCustomizationIndicator && (
         <div className="text-xs text-gray-500 dark:text-gray-400">
-          (● indicates custom positions)
+          {t("formation.customLegend")}
         </div>
       )}
+
+      {/* Templates place every player; the selection resets after applying */}
+      {!isReadOnly && onApplyTemplate && templates.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onApplyTemplate(e.target.value)}
+          className="px-3 py-1 border rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-600"
+          title={t("formation.templateTitle")}
+          data-testid="template-selector"
+        >
+          <option value="">{t("formation.applyTemplate")}</option>
+          {templates.map((template) => (
+            <option
+              key={template.id}
+              value={template.id}
+              title={template.description}
+            >
+              {template.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {!isReadOnly && onSaveTemplate && formation !== "rotational" && (
+        <button
+          type="button"
+          onClick={onSaveTemplate}
+          className="px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600"
+          data-testid="save-template-button"
+        >
+          {t("formation.saveTemplate")}
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,131 @@
+/**
+ * FullCourtControls component - Full-court view, serving team and opponent rotation
+ */
+
+import React from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { TeamSide } from "../types";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface FullCourtControlsProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+const SERVING_TEAM_LABEL_KEYS: Record<TeamSide, string> = {
+  home: "team.home",
+  opponent: "team.opponent",
+};
+
+export const FullCourtControls: React.FC<FullCourtControlsProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    fullCourt,
+    setFullCourtEnabled,
+    setServingTeam,
+    setOpponentRotation,
+    resetOpponentPositions,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const isDisabled = isReadOnly || state.isAnimating;
+  const hasPlacedMarkers =
+    Object.keys(fullCourt.opponentPositions[fullCourt.opponentRotation] ?? {})
+      .length > 0;
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`full-court-controls flex items-center gap-3 flex-wrap ${className}`}
+      data-testid="full-court-controls"
+    >
+      <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={fullCourt.enabled}
+          onChange={(e) => setFullCourtEnabled(e.target.checked)}
+          data-testid="full-court-toggle"
+        />
+        {t("fullCourt.toggle")}
+      </label>
+
+      <div
+        className="flex items-center gap-1"
+        role="group"
+        aria-label={t("fullCourt.servingTeam")}
+      >
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t("fullCourt.serving")}
+        </span>
+        {(Object.keys(SERVING_TEAM_LABEL_KEYS) as TeamSide[]).map((team) => {
+          const isSelected = fullCourt.servingTeam === team;
+          return (
+            <button
+              key={team}
+              type="button"
+              onClick={() => setServingTeam(team)}
+              disabled={isDisabled}
+              aria-pressed={isSelected}
+              className={
+                isSelected
+                  ? "px-2 py-1 rounded text-sm font-medium bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  : buttonClasses
+              }
+              data-testid={`serving-team-${team}`}
+            >
+              {t(SERVING_TEAM_LABEL_KEYS[team])}
+            </button>
+          );
+        })}
+      </div>
+
+      {fullCourt.enabled && (
+        <div className="flex items-center gap-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {t("fullCourt.opponentRotation")}
+          </span>
+          <button
+            type="button"
+            onClick={() => setOpponentRotation(fullCourt.opponentRotation - 1)}
+            disabled={isDisabled}
+            aria-label={t("fullCourt.previousOpponentRotation")}
+            className={buttonClasses}
+            data-testid="opponent-rotation-prev"
+          >
+            ←
+          </button>
+          <span
+            className="px-2 text-sm font-semibold text-gray-900 dark:text-gray-100"
+            data-testid="opponent-rotation-display"
+          >
+            {fullCourt.opponentRotation + 1}
+          </span>
+          <button
+            type="button"
+            onClick={() => setOpponentRotation(fullCourt.opponentRotation + 1)}
+            disabled={isDisabled}
+            aria-label={t("fullCourt.nextOpponentRotation")}
+            className={buttonClasses}
+            data-testid="opponent-rotation-next"
+          >
+            →
+          </button>
+          <button
+            type="button"
+            onClick={resetOpponentPositions}
+            disabled={isDisabled || !hasPlacedMarkers}
+            className={buttonClasses}
+            data-testid="opponent-reset"
+          >
+            {t("fullCourt.resetOpponents")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+/**
+ * HistoryPanel component - Lists undo history and jumps to any point in it
+ */
+
+import React from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import type { UndoRedoEntryStatus } from "../hooks/useUndoRedo";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface HistoryPanelProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+const ENTRY_STATUS_CLASSES: Record<UndoRedoEntryStatus, string> = {
+  done: "text-gray-900 dark:text-gray-100",
+  current:
+    "font-semibold bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200",
+  undone: "text-gray-500 dark:text-gray-400",
+  abandoned: "italic text-gray-400 dark:text-gray-500",
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const { state, canUndo, canRedo, undo, redo, historyEntries, jumpToHistory } =
+    useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const isDisabled = isReadOnly || state.isAnimating;
+  const isAtStart = !historyEntries.some((entry) => entry.status === "current");
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+  const entryClasses =
+    "w-full text-left px-2 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`history-panel space-y-2 ${className}`}
+      data-testid="history-panel"
+    >
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t("history.title")}
+        </h3>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={isDisabled || !canUndo}
+          className={buttonClasses}
+          data-testid="history-undo-button"
+        >
+          {t("history.undo")}
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={isDisabled || !canRedo}
+          className={buttonClasses}
+          data-testid="history-redo-button"
+        >
+          {t("history.redo")}
+        </button>
+      </div>
+
+      {historyEntries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t("history.empty")}
+        </p>
+      ) : (
+        <ol className="max-h-64 overflow-y-auto space-y-0.5">
+          <li>
+            <button
+              type="button"
+              onClick={() => jumpToHistory(null)}
+              disabled={isDisabled}
+              aria-current={isAtStart ? "step" : undefined}
+              className={`${entryClasses} ${
+                isAtStart
+                  ? ENTRY_STATUS_CLASSES.current
+                  : ENTRY_STATUS_CLASSES.done
+              }`}
+              data-testid="history-entry-start"
+            >
+              {t("history.start")}
+            </button>
+          </li>
+          {historyEntries.map(({ action, depth, status }) => (
+            <li key={action.id} style={{ paddingLeft: depth * 12 }}>
+              <button
+                type="button"
+                onClick={() => jumpToHistory(action.id)}
+                disabled={isDisabled}
+                aria-current={status === "current" ? "step" : undefined}
+                title={
+                  status === "abandoned"
+                    ? t("history.abandonedTitle")
+                    : undefined
+                }
+                className={`${entryClasses} ${ENTRY_STATUS_CLASSES[status]}`}
+                data-testid={`history-entry-${action.id}`}
+              >
+                {action.description}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * MatchControls component - Rally-by-rally scoring that drives the rotation
+ */
+
+import React from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { TeamSide } from "../types";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface MatchControlsProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+const TEAM_LABEL_KEYS: Record<TeamSide, string> = {
+  home: "team.home",
+  opponent: "team.opponent",
+};
+
+// Rallies shown in the log; the export has all of them
+const RECENT_RALLY_COUNT = 5;
+
+export const MatchControls: React.FC<MatchControlsProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    fullCourt,
+    match,
+    setMatchEnabled,
+    recordRally,
+    resetMatch,
+    exportRallyLog,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const isDisabled = isReadOnly || state.isAnimating;
+  const recentRallies = match.rallies.slice(-RECENT_RALLY_COUNT).reverse();
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`match-controls flex flex-col gap-2 ${className}`}
+      data-testid="match-controls"
+    >
+      <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={match.enabled}
+          onChange={(e) => setMatchEnabled(e.target.checked)}
+          disabled={isReadOnly}
+          data-testid="match-mode-toggle"
+        />
+        {t("match.mode")}
+      </label>
+
+      {match.enabled && (
+        <>
+          <div className="flex items-center gap-3 flex-wrap">
+            {(Object.keys(TEAM_LABEL_KEYS) as TeamSide[]).map((team) => (
+              <div key={team} className="flex items-center gap-1">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t(TEAM_LABEL_KEYS[team])}
+                  {fullCourt.servingTeam === team && (
+                    <span
+                      aria-label={t("match.servingLabel")}
+                      title={t("match.servingTitle")}
+                    >
+                      {" "}
+                      ●
+                    </span>
+                  )}
+                </span>
+                <span
+                  className="px-2 text-lg font-semibold text-gray-900 dark:text-gray-100"
+                  data-testid={`match-score-${team}`}
+                >
+                  {match.score[team]}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => recordRally(team)}
+                  disabled={isDisabled}
+                  aria-label={t("match.pointTo", {
+                    team: t(TEAM_LABEL_KEYS[team]),
+                  })}
+                  className={buttonClasses}
+                  data-testid={`match-point-${team}`}
+                >
+                  +1
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={resetMatch}
+              disabled={isDisabled || match.rallies.length === 0}
+              className={buttonClasses}
+              data-testid="match-reset"
+            >
+              {t("match.resetScore")}
+            </button>
+            <button
+              type="button"
+              onClick={() => exportRallyLog()}
+              disabled={match.rallies.length === 0}
+              className={buttonClasses}
+              data-testid="match-export-log"
+            >
+              {t("match.exportLog")}
+            </button>
+          </div>
+
+          {recentRallies.length > 0 && (
+            <ol
+              className="text-xs text-gray-600 dark:text-gray-400"
+              data-testid="match-rally-log"
+            >
+              {recentRallies.map((entry) => (
+                <li key={entry.id}>
+                  {entry.rally}. {t(TEAM_LABEL_KEYS[entry.winner])} (
+                  {entry.score.home}-{entry.score.opponent})
+                  {entry.sideOut ? ` – ${t("match.sideOut")}` : ""}
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
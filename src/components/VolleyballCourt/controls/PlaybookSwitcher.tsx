@@ -0,0 +1,136 @@
+/**
+ * PlaybookSwitcher component - Switch between and manage named playbooks
+ */
+
+import React, { useState } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface PlaybookSwitcherProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+export const PlaybookSwitcher: React.FC<PlaybookSwitcherProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    playbooks,
+    activePlaybookId,
+    createPlaybook,
+    renamePlaybook,
+    duplicatePlaybook,
+    deletePlaybook,
+    switchPlaybook,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const activePlaybook =
+    playbooks.find((playbook) => playbook.id === activePlaybookId) ?? null;
+  const isDisabled = state.isAnimating;
+
+  // Name being typed, null when not editing; saved when the field loses focus
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  const commitRename = () => {
+    const name = draftName?.trim();
+    setDraftName(null);
+    if (activePlaybook && name && name !== activePlaybook.name) {
+      renamePlaybook(activePlaybook.id, name);
+    }
+  };
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`playbook-switcher flex items-center gap-2 flex-wrap ${className}`}
+      data-testid="playbook-switcher"
+    >
+      <label
+        htmlFor="playbook-select"
+        className="text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        {t("playbook.label")}
+      </label>
+      <select
+        id="playbook-select"
+        value={activePlaybookId ?? ""}
+        onChange={(e) => switchPlaybook(e.target.value)}
+        disabled={isDisabled || playbooks.length === 0}
+        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        data-testid="playbook-select"
+      >
+        {playbooks.map((playbook) => (
+          <option key={playbook.id} value={playbook.id}>
+            {playbook.name}
+          </option>
+        ))}
+      </select>
+
+      {!isReadOnly && (
+        <>
+          <button
+            type="button"
+            onClick={() =>
+              createPlaybook(
+                t("playbook.defaultName", { number: playbooks.length + 1 })
+              )
+            }
+            disabled={isDisabled}
+            className={buttonClasses}
+            data-testid="playbook-new-button"
+          >
+            {t("playbook.new")}
+          </button>
+
+          {activePlaybook && (
+            <>
+              <input
+                type="text"
+                value={draftName ?? activePlaybook.name}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.currentTarget.blur();
+                  }
+                }}
+                disabled={isDisabled}
+                aria-label={t("playbook.nameLabel")}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                data-testid="playbook-name-input"
+              />
+              <button
+                type="button"
+                onClick={() => duplicatePlaybook(activePlaybook.id)}
+                disabled={isDisabled}
+                className={buttonClasses}
+                data-testid="playbook-duplicate-button"
+              >
+                {t("playbook.duplicate")}
+              </button>
+              <button
+                type="button"
+                onClick={() => deletePlaybook(activePlaybook.id)}
+                disabled={isDisabled || playbooks.length <= 1}
+                title={
+                  playbooks.length <= 1
+                    ? t("playbook.deleteLastTitle")
+                    : undefined
+                }
+                className={buttonClasses}
+                data-testid="playbook-delete-button"
+              >
+                {t("playbook.delete")}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,285 @@
+/**
+ * PlayerContextMenu component - Per-player actions from a right-click or long-press
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { useLocalization } from "../hooks/useLocalization";
+
+export type PlayerContextMenuView = "actions" | "swap" | "edit";
+
+export interface PlayerContextMenuProps {
+  playerId: string;
+  position: { x: number; y: number }; // Viewport coordinates of the click
+  initialView?: PlayerContextMenuView;
+  isReadOnly?: boolean;
+  onClose: () => void;
+  className?: string;
+}
+
+export const PlayerContextMenu: React.FC<PlayerContextMenuProps> = ({
+  playerId,
+  position,
+  initialView = "actions",
+  isReadOnly = false,
+  onClose,
+  className = "",
+}) => {
+  const {
+    state,
+    roster,
+    rotations,
+    activeRotationMap,
+    updatePlayer,
+    resetPlayerPosition,
+    swapPlayerPositions,
+    markAsServer,
+    copyPositionToAllRotations,
+  } = useVolleyballCourt();
+  const { t, formatNumber } = useLocalization();
+
+  const [view, setView] = useState<PlayerContextMenuView>(initialView);
+  const [message, setMessage] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const player = roster.find((candidate) => candidate.id === playerId);
+  const [name, setName] = useState(player?.name ?? "");
+  const [number, setNumber] = useState(player?.number?.toString() ?? "");
+  const [color, setColor] = useState(player?.color ?? "#3b82f6");
+
+  // Close on Escape or a click anywhere else
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("pointerdown", handlePointerDown);
+    };
+  }, [onClose]);
+
+  if (!player) return null;
+
+  const canMove = !isReadOnly && state.formation !== "rotational";
+  const canServe =
+    !isReadOnly && rotations.some((rotationMap) => rotationMap[1] === playerId);
+  const swapCandidates = roster.filter(
+    (candidate) =>
+      candidate.id !== playerId &&
+      state.positions[candidate.id] &&
+      Object.values(activeRotationMap).includes(candidate.id)
+  );
+
+  const handleCopyToAllRotations = () => {
+    const { copied, skipped } = copyPositionToAllRotations(playerId);
+    setMessage(
+      skipped.length === 0
+        ? t("playerMenu.copied", { count: copied.length })
+        : t("playerMenu.copiedSkipped", {
+            count: copied.length,
+            rotations: skipped
+              .map((rotation) => formatNumber(rotation + 1, 0))
+              .join(", "),
+          })
+    );
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsedNumber = parseInt(number, 10);
+    updatePlayer(playerId, {
+      name: name.trim() || player.name,
+      number: Number.isNaN(parsedNumber) ? undefined : parsedNumber,
+      color,
+    });
+    onClose();
+  };
+
+  const itemClasses =
+    "w-full text-left px-3 py-1.5 text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClasses =
+    "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-gray-100";
+
+  return (
+    <div
+      ref={menuRef}
+      className={`player-context-menu min-w-48 py-1 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 ${className}`}
+      style={{
+        position: "fixed",
+        left: position.x,
+        top: position.y,
+        zIndex: 50,
+      }}
+      role="menu"
+      aria-label={t("playerMenu.label", { player: player.name })}
+      data-testid="player-context-menu"
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      <div className="px-3 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400">
+        {player.number !== undefined && `#${player.number} `}
+        {player.name}
+      </div>
+
+      {view === "actions" && (
+        <>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              resetPlayerPosition(playerId);
+              onClose();
+            }}
+            disabled={!canMove}
+            className={itemClasses}
+            data-testid="context-menu-reset"
+          >
+            {t("playerMenu.reset")}
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              updatePlayer(playerId, { locked: !player.locked });
+              onClose();
+            }}
+            disabled={isReadOnly}
+            className={itemClasses}
+            data-testid="context-menu-lock"
+          >
+            {t(player.locked ? "playerMenu.unlock" : "playerMenu.lock")}
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => setView("swap")}
+            disabled={!canMove || swapCandidates.length === 0}
+            className={itemClasses}
+            data-testid="context-menu-swap"
+          >
+            {t("playerMenu.swap")}
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              markAsServer(playerId);
+              onClose();
+            }}
+            disabled={!canServe}
+            className={itemClasses}
+            data-testid="context-menu-server"
+          >
+            {t("playerMenu.server")}
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => setView("edit")}
+            disabled={isReadOnly}
+            className={itemClasses}
+            data-testid="context-menu-edit"
+          >
+            {t("playerMenu.edit")}
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleCopyToAllRotations}
+            disabled={!canMove}
+            className={itemClasses}
+            data-testid="context-menu-copy"
+          >
+            {t("playerMenu.copy")}
+          </button>
+          {message && (
+            <p
+              className="px-3 py-1 text-xs text-gray-600 dark:text-gray-400"
+              role="status"
+              data-testid="context-menu-message"
+            >
+              {message}
+            </p>
+          )}
+        </>
+      )}
+
+      {view === "swap" &&
+        swapCandidates.map((candidate) => (
+          <button
+            key={candidate.id}
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              swapPlayerPositions(playerId, candidate.id);
+              onClose();
+            }}
+            className={itemClasses}
+            data-testid={`context-menu-swap-${candidate.id}`}
+          >
+            {candidate.name}
+          </button>
+        ))}
+
+      {view === "edit" && (
+        <form
+          onSubmit={handleSave}
+          className="px-3 py-2 space-y-2"
+          data-testid="context-menu-edit-form"
+        >
+          <label className="block text-xs text-gray-700 dark:text-gray-300">
+            {t("playerMenu.name")}
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className={inputClasses}
+              autoFocus
+            />
+          </label>
+          <label className="block text-xs text-gray-700 dark:text-gray-300">
+            {t("playerMenu.number")}
+            <input
+              type="number"
+              min={0}
+              max={99}
+              value={number}
+              onChange={(event) => setNumber(event.target.value)}
+              className={inputClasses}
+            />
+          </label>
+          <label className="block text-xs text-gray-700 dark:text-gray-300">
+            {t("playerMenu.color")}
+            <input
+              type="color"
+              value={color}
+              onChange={(event) => setColor(event.target.value)}
+              className="block h-7 w-full"
+            />
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-2 py-1 rounded text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {t("playerMenu.cancel")}
+            </button>
+            <button
+              type="submit"
+              className="px-2 py-1 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              data-testid="context-menu-save"
+            >
+              {t("playerMenu.save")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
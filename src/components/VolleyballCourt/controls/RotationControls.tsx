@@ -3,6 +3,8 @@
  */
 
 import React from "react";
+import { LiberoSwap } from "../types";
+import { useLocalization } from "../hooks/useLocalization";
 
 export interface RotationControlsProps {
   rotationIndex: number;
@@ -12,6 +14,7 @@ export interface RotationControlsProps {
   className?: string;
   showRotationIndicators?: boolean;
   isRotationCustomized?: (rotation: number) => boolean;
+  liberoSwap?: LiberoSwap | null;
 }
 
 export const RotationControls: React.FC<RotationControlsProps> = ({
@@ -22,7 +25,10 @@ export const RotationControls: React.FC<RotationControlsProps> = ({
   className = "",
   showRotationIndicators = true,
   isRotationCustomized = () => false,
+  liberoSwap = null,
 }) => {
+  const { t } = useLocalization();
+
   const nextRotation = () => {
     if (isAnimating || isReadOnly) return;
     onRotationChange((rotationIndex + 1) % 6);
@@ -49,10 +55,10 @@ export const RotationControls: React.FC<RotationControlsProps> = ({
             : "hover:bg-gray-100 dark:hover:bg-gray-700"
         }`}
         disabled={isAnimating || isReadOnly}
-        title={isReadOnly ? "Disabled in read-only mode" : "Previous rotation"}
+        title={isReadOnly ? t("common.readOnly") : t("rotation.previousTitle")}
         data-testid="prev-rotation-button"
       >
-        Prev Rotation
+        {t("rotation.previous")}
       </button>
 
       {/* Next rotation button */}
@@ -64,17 +70,17 @@ export const RotationControls: React.FC<RotationControlsProps> = ({
             : "hover:bg-gray-100 dark:hover:bg-gray-700"
         }`}
         disabled={isAnimating || isReadOnly}
-        title={isReadOnly ? "Disabled in read-only mode" : "Next rotation"}
+        title={isReadOnly ? t("common.readOnly") : t("rotation.nextTitle")}
         data-testid="next-rotation-button"
       >
-        Next Rotation
+        {t("rotation.next")}
       </button>
 
       {/* Rotation indicators */}
       {showRotationIndicators && (
         <div className="flex items-center gap-1 px-2 py-1 bg-gray-50 dark:bg-gray-800 rounded">
           <span className="text-xs text-gray-600 dark:text-gray-400">
-            Rotations:
+            {t("rotation.indicators")}
           </span>
           {[0, 1, 2, 3, 4, 5].map((rot) => (
             <button
@@ -89,9 +95,12 @@ export const RotationControls: React.FC<RotationControlsProps> = ({
               } ${isReadOnly ? "opacity-50 cursor-not-allowed" : ""}`}
               disabled={isAnimating || isReadOnly}
               title={
-                isRotationCustomized(rot)
-                  ? `Rotation ${rot + 1} (Custom positions)`
-                  : `Rotation ${rot + 1}`
+                t(
+                  isRotationCustomized(rot)
+                    ? "rotation.indicatorTitleCustom"
+                    : "rotation.indicatorTitle",
+                  { rotation: rot + 1 }
+                )
               }
               data-testid={`rotation-indicator-${rot}`}
             >
@@ -100,6 +109,21 @@ export const RotationControls: React.FC<RotationControlsProps> = ({
           ))}
         </div>
       )}
+
+      {/* Libero replacement indicator */}
+      {liberoSwap && (
+        <span
+          className="px-2 py-1 text-xs rounded bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300"
+          title={t("rotation.liberoSwap", {
+            libero: liberoSwap.liberoId,
+            player: liberoSwap.replacedPlayerId,
+            slot: liberoSwap.slot,
+          })}
+          data-testid="libero-swap-indicator"
+        >
+          {liberoSwap.liberoId} ⇄ {liberoSwap.replacedPlayerId}
+        </span>
+      )}
     </div>
   );
 };
@@ -0,0 +1,74 @@
+/**
+ * SelectionToolbar component - Align and distribute the selected players
+ */
+
+import React from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface SelectionToolbarProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const { state, selectedPlayers, setSelectedPlayers, alignSelectedPlayers } =
+    useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const canAlign =
+    !isReadOnly &&
+    !state.isAnimating &&
+    state.formation !== "rotational" &&
+    selectedPlayers.length > 1;
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`selection-toolbar flex items-center gap-2 flex-wrap ${className}`}
+      data-testid="selection-toolbar"
+    >
+      <span
+        className="text-sm text-gray-700 dark:text-gray-300"
+        data-testid="selection-count"
+      >
+        {selectedPlayers.length === 0
+          ? t("selection.hint")
+          : t("selection.count", { count: selectedPlayers.length })}
+      </span>
+      <button
+        type="button"
+        onClick={() => alignSelectedPlayers("row")}
+        disabled={!canAlign}
+        className={buttonClasses}
+        data-testid="align-row-button"
+      >
+        {t("selection.alignRow")}
+      </button>
+      <button
+        type="button"
+        onClick={() => alignSelectedPlayers("distribute")}
+        disabled={!canAlign}
+        className={buttonClasses}
+        data-testid="distribute-button"
+      >
+        {t("selection.distribute")}
+      </button>
+      {selectedPlayers.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setSelectedPlayers([])}
+          className={buttonClasses}
+          data-testid="clear-selection-button"
+        >
+          {t("selection.clear")}
+        </button>
+      )}
+    </div>
+  );
+};
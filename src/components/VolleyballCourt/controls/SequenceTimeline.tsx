@@ -0,0 +1,336 @@
+/**
+ * SequenceTimeline component - Keyframe editor and playback for play sequences
+ */
+
+import React, { useCallback } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import {
+  SEQUENCE_KEYFRAME_LABELS,
+  addKeyframe,
+  createKeyframe,
+  createPlaySequence,
+  getKeyframeTimes,
+  getSequenceDuration,
+  moveKeyframe,
+  removeKeyframe,
+  updateKeyframe,
+} from "../utils/playSequence";
+import { PlaySequence } from "../types";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface SequenceTimelineProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+const formatSeconds = (milliseconds: number) =>
+  `${(milliseconds / 1000).toFixed(1)}s`;
+
+export const SequenceTimeline: React.FC<SequenceTimelineProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    config,
+    activePositions,
+    sequences,
+    activeSequence,
+    sequencePlayback,
+    setActiveSequence,
+    saveSequence,
+    deleteSequence,
+    playSequence,
+    stopSequence,
+    scrubSequence,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+
+  const { isPlaying, time } = sequencePlayback;
+  const canEdit = !isReadOnly && !isPlaying;
+  const duration = activeSequence ? getSequenceDuration(activeSequence) : 0;
+  const keyframeTimes = activeSequence ? getKeyframeTimes(activeSequence) : [];
+
+  const update = useCallback(
+    (updater: (sequence: PlaySequence) => PlaySequence) => {
+      if (activeSequence) {
+        saveSequence(updater(activeSequence));
+      }
+    },
+    [activeSequence, saveSequence]
+  );
+
+  const handleNewSequence = () => {
+    const sequence = createPlaySequence(
+      t("sequence.defaultName", { number: sequences.length + 1 }),
+      state.system,
+      state.rotationIndex
+    );
+    saveSequence(sequence);
+    setActiveSequence(sequence.id);
+  };
+
+  const handleAddKeyframe = () => {
+    // The first keyframe is the starting formation, later ones default
+    // to the configured animation duration
+    const label = activeSequence?.keyframes.length ? "transition" : "serve";
+    const keyframe = createKeyframe(
+      activePositions,
+      label,
+      config.animation.animationDuration
+    );
+    update((sequence) => addKeyframe(sequence, keyframe));
+  };
+
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`sequence-timeline space-y-2 p-3 rounded border border-gray-200 dark:border-gray-700 ${className}`}
+      data-testid="sequence-timeline"
+    >
+      <div className="flex items-center gap-2 flex-wrap">
+        <label
+          htmlFor="sequence-select"
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          {t("sequence.label")}
+        </label>
+        <select
+          id="sequence-select"
+          value={activeSequence?.id ?? ""}
+          onChange={(e) => setActiveSequence(e.target.value || null)}
+          disabled={isPlaying}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          data-testid="sequence-select"
+        >
+          <option value="">{t("sequence.none")}</option>
+          {sequences.map((sequence) => (
+            <option key={sequence.id} value={sequence.id}>
+              {sequence.name}
+            </option>
+          ))}
+        </select>
+
+        {!isReadOnly && (
+          <button
+            type="button"
+            onClick={handleNewSequence}
+            disabled={isPlaying}
+            className={buttonClasses}
+            data-testid="sequence-new-button"
+          >
+            {t("sequence.new")}
+          </button>
+        )}
+
+        {activeSequence && !isReadOnly && (
+          <>
+            <input
+              type="text"
+              value={activeSequence.name}
+              onChange={(e) =>
+                update((sequence) => ({
+                  ...sequence,
+                  name: e.target.value,
+                  updatedAt: Date.now(),
+                }))
+              }
+              disabled={!canEdit}
+              aria-label={t("sequence.nameLabel")}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              data-testid="sequence-name-input"
+            />
+            <button
+              type="button"
+              onClick={() => deleteSequence(activeSequence.id)}
+              disabled={isPlaying}
+              className={buttonClasses}
+              data-testid="sequence-delete-button"
+            >
+              {t("sequence.delete")}
+            </button>
+          </>
+        )}
+      </div>
+
+      {activeSequence && (
+        <>
+          <ol className="flex gap-2 flex-wrap" data-testid="sequence-keyframes">
+            {activeSequence.keyframes.map((keyframe, index) => (
+              <li
+                key={keyframe.id}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-800 text-sm"
+                data-testid={`sequence-keyframe-${index}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => scrubSequence(keyframeTimes[index])}
+                  disabled={isPlaying}
+                  title={t("sequence.jumpTo", {
+                    time: formatSeconds(keyframeTimes[index]),
+                  })}
+                  className="font-semibold text-gray-700 dark:text-gray-300"
+                >
+                  {index + 1}
+                </button>
+                <select
+                  value={keyframe.label}
+                  onChange={(e) =>
+                    update((sequence) =>
+                      updateKeyframe(sequence, keyframe.id, {
+                        label: e.target.value,
+                      })
+                    )
+                  }
+                  disabled={!canEdit}
+                  aria-label={t("sequence.keyframeLabel", {
+                    keyframe: index + 1,
+                  })}
+                  className="px-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                  data-testid={`sequence-keyframe-label-${index}`}
+                >
+                  {SEQUENCE_KEYFRAME_LABELS.map((label) => (
+                    <option key={label} value={label}>
+                      {t(`sequence.keyframe.${label}`)}
+                    </option>
+                  ))}
+                </select>
+                {index > 0 && (
+                  <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={keyframe.duration}
+                    onChange={(e) =>
+                      update((sequence) =>
+                        updateKeyframe(sequence, keyframe.id, {
+                          duration: Number(e.target.value) || 0,
+                        })
+                      )
+                    }
+                    disabled={!canEdit}
+                    aria-label={t("sequence.keyframeDuration", {
+                      keyframe: index + 1,
+                    })}
+                    className="w-20 px-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                    data-testid={`sequence-keyframe-duration-${index}`}
+                  />
+                )}
+                {!isReadOnly && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update((sequence) =>
+                          moveKeyframe(sequence, index, index - 1)
+                        )
+                      }
+                      disabled={!canEdit || index === 0}
+                      aria-label={t("sequence.keyframeEarlier", {
+                        keyframe: index + 1,
+                      })}
+                      data-testid={`sequence-keyframe-earlier-${index}`}
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update((sequence) =>
+                          moveKeyframe(sequence, index, index + 1)
+                        )
+                      }
+                      disabled={
+                        !canEdit ||
+                        index === activeSequence.keyframes.length - 1
+                      }
+                      aria-label={t("sequence.keyframeLater", {
+                        keyframe: index + 1,
+                      })}
+                      data-testid={`sequence-keyframe-later-${index}`}
+                    >
+                      →
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update((sequence) =>
+                          removeKeyframe(sequence, keyframe.id)
+                        )
+                      }
+                      disabled={!canEdit}
+                      aria-label={t("sequence.keyframeRemove", {
+                        keyframe: index + 1,
+                      })}
+                      data-testid={`sequence-keyframe-remove-${index}`}
+                    >
+                      ×
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex items-center gap-2">
+            {!isReadOnly && (
+              <button
+                type="button"
+                onClick={handleAddKeyframe}
+                disabled={!canEdit || time !== null}
+                title={
+                  time !== null
+                    ? t("sequence.addKeyframePreviewTitle")
+                    : t("sequence.addKeyframeTitle")
+                }
+                className={buttonClasses}
+                data-testid="sequence-add-keyframe-button"
+              >
+                {t("sequence.addKeyframe")}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={isPlaying ? stopSequence : playSequence}
+              disabled={!isPlaying && activeSequence.keyframes.length < 2}
+              className="px-3 py-1 rounded text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+              data-testid="sequence-play-button"
+            >
+              {isPlaying ? t("sequence.stop") : t("sequence.play")}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={10}
+              value={time ?? 0}
+              onChange={(e) => scrubSequence(Number(e.target.value))}
+              disabled={activeSequence.keyframes.length === 0}
+              aria-label={t("sequence.time")}
+              className="flex-1"
+              data-testid="sequence-scrubber"
+            />
+            <span
+              className="text-sm tabular-nums text-gray-600 dark:text-gray-400"
+              data-testid="sequence-time"
+            >
+              {formatSeconds(time ?? 0)} / {formatSeconds(duration)}
+            </span>
+            {time !== null && !isPlaying && (
+              <button
+                type="button"
+                onClick={() => scrubSequence(null)}
+                className={buttonClasses}
+                data-testid="sequence-exit-preview-button"
+              >
+                {t("sequence.exitPreview")}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@
 
 import React, { useState, useCallback } from "react";
 import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { useLocalization } from "../hooks/useLocalization";
 
 export interface ShareButtonProps {
   onShare?: () => void;
@@ -23,6 +24,7 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
   showCopyFeedback = true,
 }) => {
   const { generateShareURL, copyShareURL } = useVolleyballCourt();
+  const { t } = useLocalization();
   const [isSharing, setIsSharing] = useState(false);
   const [showCopied, setShowCopied] = useState(false);
 
@@ -90,12 +92,12 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
       disabled={isAnimating || isSharing}
       title={
         showCopied
-          ? "URL copied to clipboard!"
+          ? t("share.copiedTitle")
           : isAnimating
-          ? "Please wait for animation to complete"
+          ? t("common.waitForAnimation")
           : isSharing
-          ? "Generating share URL..."
-          : "Share current configuration"
+          ? t("share.sharingTitle")
+          : t("share.title")
       }
       data-testid="share-button"
     >
@@ -114,7 +116,7 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
               d="M5 13l4 4L19 7"
             />
           </svg>
-          Copied!
+          {t("share.copied")}
         </>
       ) : isSharing ? (
         <>
@@ -131,7 +133,7 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
               d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
             />
           </svg>
-          Sharing...
+          {t("share.sharing")}
         </>
       ) : (
         <>
@@ -148,7 +150,7 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
               d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z"
             />
           </svg>
-          Share
+          {t("share.label")}
         </>
       )}
     </button>
@@ -0,0 +1,150 @@
+/**
+ * SubstitutionManager component - Bench substitutions with per-set counts
+ */
+
+import React, { useState } from "react";
+import { useVolleyballCourt } from "../VolleyballCourtProvider";
+import { getSubstitutionCounts } from "../utils/substitutions";
+import { useLocalization } from "../hooks/useLocalization";
+
+export interface SubstitutionManagerProps {
+  isReadOnly?: boolean;
+  className?: string;
+}
+
+export const SubstitutionManager: React.FC<SubstitutionManagerProps> = ({
+  isReadOnly = false,
+  className = "",
+}) => {
+  const {
+    state,
+    roster,
+    rotations,
+    substitutionState,
+    substitutionLimit,
+    substitutePlayer,
+    startNewSet,
+  } = useVolleyballCourt();
+  const { t } = useLocalization();
+  const [playerOutId, setPlayerOutId] = useState("");
+  const [playerInId, setPlayerInId] = useState("");
+
+  const onCourtIds = Object.values(rotations[state.rotationIndex] ?? {});
+  const playersOnCourt = roster.filter((player) =>
+    onCourtIds.includes(player.id)
+  );
+  // The libero comes on through libero replacement, not substitution
+  const playersOffCourt = roster.filter(
+    (player) => !onCourtIds.includes(player.id) && player.role !== "L"
+  );
+
+  const selectedOut = playersOnCourt.some((p) => p.id === playerOutId)
+    ? playerOutId
+    : playersOnCourt[0]?.id ?? "";
+  const selectedIn = playersOffCourt.some((p) => p.id === playerInId)
+    ? playerInId
+    : playersOffCourt[0]?.id ?? "";
+
+  const counts = getSubstitutionCounts(substitutionState, substitutionLimit);
+  const isDisabled = isReadOnly || state.isAnimating;
+  const getName = (playerId: string) =>
+    roster.find((player) => player.id === playerId)?.name ?? playerId;
+
+  const selectClasses =
+    "px-2 py-1 rounded text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 disabled:opacity-50";
+  const buttonClasses =
+    "px-2 py-1 rounded text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={`substitution-manager flex flex-col gap-2 ${className}`}
+      data-testid="substitution-manager"
+    >
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t("substitution.set", { set: substitutionState.set })}
+        </span>
+        <span
+          className="text-sm text-gray-700 dark:text-gray-300"
+          data-testid="substitution-count"
+        >
+          {counts.limit !== null
+            ? t("substitution.countLimited", {
+                used: counts.used,
+                limit: counts.limit,
+              })
+            : t("substitution.count", { used: counts.used })}
+        </span>
+        <button
+          type="button"
+          onClick={startNewSet}
+          disabled={isDisabled}
+          className={buttonClasses}
+          data-testid="substitution-new-set"
+        >
+          {t("substitution.newSet")}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value={selectedOut}
+          onChange={(e) => setPlayerOutId(e.target.value)}
+          disabled={isDisabled}
+          aria-label={t("substitution.playerOut")}
+          className={selectClasses}
+          data-testid="substitution-out"
+        >
+          {playersOnCourt.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500" aria-hidden="true">
+          ⇄
+        </span>
+        <select
+          value={selectedIn}
+          onChange={(e) => setPlayerInId(e.target.value)}
+          disabled={isDisabled}
+          aria-label={t("substitution.playerIn")}
+          className={selectClasses}
+          data-testid="substitution-in"
+        >
+          {playersOffCourt.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => substitutePlayer(selectedIn, selectedOut)}
+          disabled={isDisabled || !selectedIn || !selectedOut}
+          className={buttonClasses}
+          data-testid="substitution-submit"
+        >
+          {t("substitution.submit")}
+        </button>
+      </div>
+
+      {substitutionState.substitutions.length > 0 && (
+        <ol
+          className="text-xs text-gray-600 dark:text-gray-400 list-decimal list-inside"
+          data-testid="substitution-log"
+        >
+          {substitutionState.substitutions.map((substitution) => (
+            <li key={substitution.id}>
+              {t("substitution.logEntry", {
+                playerIn: getName(substitution.playerInId),
+                playerOut: getName(substitution.playerOutId),
+                rotation: substitution.rotation + 1,
+              })}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,17 @@
 /**
- * SystemSelector component - Dropdown for selecting volleyball system (5-1 or 6-2)
+ * SystemSelector component - Dropdown for selecting volleyball system (5-1,
+ * 6-2 or a custom system)
  */
 
 import React from "react";
-import { SystemType } from "@/types";
+import { SystemOption, SystemType } from "../types";
+import { BUILT_IN_SYSTEM_OPTIONS } from "../utils/customSystems";
+import { useLocalization } from "../hooks/useLocalization";
 
 export interface SystemSelectorProps {
   system: SystemType;
   onSystemChange: (system: SystemType) => void;
+  systems?: SystemOption[]; // Defaults to 5-1 and 6-2
   isReadOnly?: boolean;
   className?: string;
 }
@@ -15,9 +19,12 @@ export interface SystemSelectorProps {
 export const SystemSelector: React.FC<SystemSelectorProps> = ({
   system,
   onSystemChange,
+  systems = BUILT_IN_SYSTEM_OPTIONS,
   isReadOnly = false,
   className = "",
 }) => {
+  const { t } = useLocalization();
+
   return (
     <select
       value={system}
@@ -26,13 +33,14 @@ export const SystemSelector: React.FC<SystemSelectorProps> = ({
         isReadOnly ? "opacity-50 cursor-not-allowed" : ""
       } ${className}`}
       disabled={isReadOnly}
-      title={
-        isReadOnly ? "Disabled in read-only mode" : "Select volleyball system"
-      }
+      title={isReadOnly ? t("common.readOnly") : t("system.selectTitle")}
       data-testid="system-selector"
     >
-      <option value="5-1">5-1</option>
-      <option value="6-2">6-2</option>
+      {systems.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.name}
+        </option>
+      ))}
     </select>
   );
 };
@@ -6,10 +6,35 @@ export { SystemSelector } from "./SystemSelector";
 export { RotationControls } from "./RotationControls";
 export { FormationSelector } from "./FormationSelector";
 export { ShareButton } from "./ShareButton";
+export { ExportButton } from "./ExportButton";
 export { AnimationControls } from "./AnimationControls";
+export { SequenceTimeline } from "./SequenceTimeline";
+export { AnnotationToolbar } from "./AnnotationToolbar";
+export { FullCourtControls } from "./FullCourtControls";
+export { SubstitutionManager } from "./SubstitutionManager";
+export { MatchControls } from "./MatchControls";
+export { PlaybookSwitcher } from "./PlaybookSwitcher";
+export { HistoryPanel } from "./HistoryPanel";
+export { SelectionToolbar } from "./SelectionToolbar";
+export { PlayerContextMenu } from "./PlayerContextMenu";
+export { CourtDescription } from "./CourtDescription";
 
 export type { SystemSelectorProps } from "./SystemSelector";
 export type { RotationControlsProps } from "./RotationControls";
 export type { FormationSelectorProps } from "./FormationSelector";
 export type { ShareButtonProps } from "./ShareButton";
+export type { ExportButtonProps } from "./ExportButton";
 export type { AnimationControlsProps } from "./AnimationControls";
+export type { SequenceTimelineProps } from "./SequenceTimeline";
+export type { AnnotationToolbarProps } from "./AnnotationToolbar";
+export type { FullCourtControlsProps } from "./FullCourtControls";
+export type { SubstitutionManagerProps } from "./SubstitutionManager";
+export type { MatchControlsProps } from "./MatchControls";
+export type { PlaybookSwitcherProps } from "./PlaybookSwitcher";
+export type { HistoryPanelProps } from "./HistoryPanel";
+export type { SelectionToolbarProps } from "./SelectionToolbar";
+export type {
+  PlayerContextMenuProps,
+  PlayerContextMenuView,
+} from "./PlayerContextMenu";
+export type { CourtDescriptionProps } from "./CourtDescription";
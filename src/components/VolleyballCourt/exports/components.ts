@@ -15,7 +15,10 @@ export { VolleyballCourtErrorBoundary } from "../VolleyballCourtErrorBoundary";
 
 // Layer components
 export { CourtVisualization } from "../CourtVisualization";
+export { RotationSheet } from "../RotationSheet";
 export { PlayerLayer } from "../PlayerLayer";
+export { AnnotationLayer } from "../AnnotationLayer";
+export { OpponentLayer } from "../OpponentLayer";
 export { ControlsLayer } from "../ControlsLayer";
 export { ValidationLayer } from "../ValidationLayer";
 export { NotificationLayer } from "../NotificationLayer";
@@ -14,6 +14,17 @@ export {
   FormationSelector,
   AnimationControls,
   ShareButton,
+  ExportButton,
+  SequenceTimeline,
+  AnnotationToolbar,
+  FullCourtControls,
+  SubstitutionManager,
+  MatchControls,
+  PlaybookSwitcher,
+  HistoryPanel,
+  SelectionToolbar,
+  PlayerContextMenu,
+  CourtDescription,
 } from "../controls";
 
 // Control-related types
@@ -23,6 +23,7 @@ export const VolleyballCourtPresets = {
       showFormationSelector: false,
       showResetButton: false,
       showShareButton: false,
+      showExportButton: false,
       showAnimateButton: false,
     },
     validation: {
@@ -153,7 +154,14 @@ export const VolleyballCourtPresets = {
       showResetButton: true,
       showShareButton: true,
       showAnimateButton: true,
+      showSequenceEditor: true,
+      showAnnotationTools: true,
+      showFullCourtControls: true,
+      showSubstitutionManager: true,
+      showMatchControls: true,
+      showPlaybookSwitcher: true,
       showUndoRedoButtons: true,
+      showHistoryPanel: true,
     },
     validation: {
       enableRealTimeValidation: true,
@@ -35,13 +35,63 @@ export type {
   CustomPlayersConfig,
   CustomRotationsConfig,
   ValidationConfig,
+  ValidationPolicy,
+  CustomRuleConfig,
   AnimationConfig,
   ControlsConfig,
   AppearanceConfig,
   AccessibilityConfig,
   PerformanceConfig,
   ExportConfig,
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  SequenceKeyframe,
+  PlaySequence,
+  SequencePlaybackState,
+  AnnotationPoint,
+  AnnotationType,
+  BallAnnotation,
+  ArrowAnnotation,
+  TextAnnotation,
+  ZoneAnnotation,
+  CourtAnnotation,
+  FormationAnnotations,
+  TeamSide,
+  OpponentMarker,
+  FullCourtConfig,
+  FullCourtState,
+  Substitution,
+  SubstitutionState,
+  SubstitutionIssue,
+  MatchState,
+  RallyLogEntry,
+  SystemDefinition,
+  SystemConstraints,
+  SystemOption,
+  FormationDefinition,
+  FormationOption,
+  PlayerGender,
+  Playbook,
+  PlaybookSummary,
+  StorageBackend,
+  CollaborationUser,
+  CollaboratorPresence,
+  CollaborationConfig,
+  GroupAlignment,
+  PlayerDetails,
+  CopyPositionResult,
+  CourtAnnouncement,
   LocalizationConfig,
+  Localization,
+  CustomRuleTarget,
+  CustomRuleCondition,
+  CustomRuleViolation,
+  CourtLine,
+  ReceivePattern,
+  DefaultLineupConfig,
+  TemplateSpot,
+  FormationTemplate,
   
   // Visual and layout types
   PlayerColorConfig,
@@ -52,11 +102,15 @@ export type {
   
   // Control component types
   ControlsLayerProps,
+  AnnotationLayerProps,
+  OpponentLayerProps,
   ResetType,
   
   // System and formation types
   SystemType,
+  BuiltInSystemType,
   FormationType,
+  BuiltInFormationType,
 } from "../types";
 
 // Rules integration types
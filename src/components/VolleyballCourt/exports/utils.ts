@@ -26,23 +26,145 @@ export { VolleyballCourtRulesIntegration } from "../VolleyballCourtRulesIntegrat
 // Court coordinate utilities
 export * from "../courtCoordinates";
 
+// Court export utilities
+export * from "../utils/courtExport";
+export * from "../utils/pdfBuilder";
+
+// Play sequence utilities
+export * from "../utils/playSequence";
+
+// Court annotation utilities
+export * from "../utils/courtAnnotations";
+
+// Full-court utilities
+export * from "../utils/fullCourt";
+
+// Substitution utilities
+export * from "../utils/substitutions";
+
+// Match mode utilities
+export * from "../utils/matchMode";
+
+// Custom system utilities
+export * from "../utils/customSystems";
+
+// Custom formation utilities
+export * from "../utils/customFormations";
+
+// Validation policies per formation
+export * from "../utils/validationPolicies";
+
+// Playbook storage
+export * from "../utils/storage/StorageAdapter";
+export * from "../utils/storage/LocalStorageAdapter";
+export * from "../utils/storage/IndexedDBAdapter";
+export * from "../utils/storage/PlaybookManager";
+
+// Remote sync for the persistence manager
+export type {
+  PersistenceState,
+  PersistenceOptions,
+} from "../PersistenceManager";
+export * from "../utils/storage/PersistenceAdapter";
+export * from "../utils/storage/RemoteSyncQueue";
+export * from "../utils/storage/InMemoryPersistenceAdapter";
+export * from "../utils/storage/HttpPersistenceAdapter";
+
+// Real-time collaboration
+export * from "../utils/collaboration/CollaborationTransport";
+export * from "../utils/collaboration/lastWriterWins";
+export * from "../utils/collaboration/WebSocketTransport";
+export * from "../utils/collaboration/LocalCollaborationServer";
+
+// Multi-select group moves
+export * from "../utils/groupPositioning";
+
+// Screen reader descriptions and keyboard steps
+export * from "../utils/courtDescription";
+
+// Localization
+export * from "../utils/localization";
+
+// Custom rules: evaluation, drag areas and sharing
+export * from "../utils/customRules";
+
+// Lineup fix: nearest legal lineup for the Fix action
+export * from "../utils/lineupFix";
+
+// Default lineups generated from player roles
+export * from "../utils/lineupGenerator";
+
+// Formation templates: named serve receive and defensive patterns
+export * from "../utils/formationTemplates";
+
 // Utility types
 export type {
   RulesIntegrationConfig,
   ScreenValidationResult,
   PositionValidationContext,
+  GroupMoveResult,
 } from "../VolleyballCourtRulesIntegration";
 
 export type {
   CustomPlayersConfig,
   CustomRotationsConfig,
   ValidationConfig,
+  ValidationPolicy,
+  CustomRuleConfig,
   AnimationConfig,
   AppearanceConfig,
   AccessibilityConfig,
   PerformanceConfig,
   ExportConfig,
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  SequenceKeyframe,
+  PlaySequence,
+  SequencePlaybackState,
+  AnnotationPoint,
+  AnnotationType,
+  BallAnnotation,
+  ArrowAnnotation,
+  TextAnnotation,
+  ZoneAnnotation,
+  CourtAnnotation,
+  FormationAnnotations,
+  TeamSide,
+  OpponentMarker,
+  FullCourtConfig,
+  FullCourtState,
+  Substitution,
+  SubstitutionState,
+  SubstitutionIssue,
+  MatchState,
+  RallyLogEntry,
+  SystemDefinition,
+  SystemConstraints,
+  SystemOption,
+  FormationDefinition,
+  FormationOption,
+  PlayerGender,
+  Playbook,
+  PlaybookSummary,
+  StorageBackend,
+  CollaborationUser,
+  CollaboratorPresence,
+  CollaborationConfig,
+  GroupAlignment,
+  PlayerDetails,
+  CopyPositionResult,
+  CourtAnnouncement,
   LocalizationConfig,
+  Localization,
+  CustomRuleTarget,
+  CustomRuleCondition,
+  CustomRuleViolation,
+  CourtLine,
+  ReceivePattern,
+  DefaultLineupConfig,
+  TemplateSpot,
+  FormationTemplate,
   PlayerColorConfig,
   CourtDimensions,
   ConstraintBoundaries,
@@ -0,0 +1,133 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { useCollaboration } from "../useCollaboration";
+import type { PositionManager } from "../usePositionManager";
+import type { CollaborationConfig } from "../../types";
+import { WebSocketTransport } from "../../utils/collaboration/WebSocketTransport";
+import { LocalCollaborationServer } from "../../utils/collaboration/LocalCollaborationServer";
+
+const createPositionManager = () =>
+  ({ setPosition: vi.fn(() => true) }) as unknown as PositionManager;
+
+const createConfig = (
+  server: LocalCollaborationServer,
+  id: string
+): CollaborationConfig => ({
+  user: { id, name: id },
+  cursorThrottle: 0,
+  transport: new WebSocketTransport({
+    url: "ws://localhost/session",
+    createWebSocket: server.createWebSocket,
+  }),
+});
+
+const renderClient = (server: LocalCollaborationServer, id: string) => {
+  const positionManager = createPositionManager();
+  const onRemoteOperations = vi.fn();
+  const config = createConfig(server, id);
+  const hook = renderHook(() =>
+    useCollaboration(positionManager, config, onRemoteOperations)
+  );
+  return { ...hook, positionManager, onRemoteOperations };
+};
+
+describe("useCollaboration", () => {
+  it("returns the position manager unchanged without a config", () => {
+    const positionManager = createPositionManager();
+    const { result } = renderHook(() =>
+      useCollaboration(positionManager, undefined)
+    );
+
+    expect(result.current.positionManager).toBe(positionManager);
+    expect(result.current.isConnected).toBe(false);
+  });
+
+  it("applies moves from other coaches", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = renderClient(server, "alice");
+    const bob = renderClient(server, "bob");
+    await waitFor(() => {
+      expect(alice.result.current.collaborators).toHaveLength(1);
+      expect(bob.result.current.collaborators).toHaveLength(1);
+    });
+
+    act(() => {
+      alice.result.current.positionManager.setPosition("5-1", 0, "base", "S", {
+        x: 120,
+        y: 240,
+      });
+    });
+
+    await waitFor(() =>
+      expect(bob.positionManager.setPosition).toHaveBeenCalledWith(
+        "5-1",
+        0,
+        "base",
+        "S",
+        { x: 120, y: 240 }
+      )
+    );
+    expect(bob.onRemoteOperations).toHaveBeenCalledWith([
+      expect.objectContaining({ clientId: "alice", playerId: "S" }),
+    ]);
+
+    alice.unmount();
+    bob.unmount();
+  });
+
+  it("brings late joiners up to date", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = renderClient(server, "alice");
+    await waitFor(() => expect(alice.result.current.isConnected).toBe(true));
+
+    act(() => {
+      alice.result.current.positionManager.setPosition(
+        "5-1",
+        0,
+        "base",
+        "OH1",
+        { x: 50, y: 60 }
+      );
+    });
+    const bob = renderClient(server, "bob");
+
+    await waitFor(() =>
+      expect(bob.positionManager.setPosition).toHaveBeenCalledWith(
+        "5-1",
+        0,
+        "base",
+        "OH1",
+        { x: 50, y: 60 }
+      )
+    );
+
+    alice.unmount();
+    bob.unmount();
+  });
+
+  it("shares cursors and dragged players, and forgets coaches who leave", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = renderClient(server, "alice");
+    const bob = renderClient(server, "bob");
+    await waitFor(() =>
+      expect(bob.result.current.collaborators).toHaveLength(1)
+    );
+
+    act(() => {
+      alice.result.current.updatePresence({ draggedPlayerId: "MB1" });
+      alice.result.current.updatePresence({ cursor: { x: 10, y: 20 } });
+    });
+
+    await waitFor(() =>
+      expect(bob.result.current.collaborators[0]).toMatchObject({
+        id: "alice",
+        draggedPlayerId: "MB1",
+        cursor: { x: 10, y: 20 },
+      })
+    );
+
+    alice.unmount();
+    await waitFor(() => expect(bob.result.current.collaborators).toEqual([]));
+    bob.unmount();
+  });
+});
@@ -1,18 +1,15 @@
 import { renderHook, act } from "@testing-library/react";
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { usePositionManager } from "../usePositionManager";
-import { localStorageManager } from "../../utils/storage/LocalStorageManager";
+import { playbookManager } from "../../utils/storage/PlaybookManager";
 import type { PlayerPosition, CustomPositionsState } from "../../types";
 
-// Mock the LocalStorageManager
-vi.mock("../../utils/storage/LocalStorageManager", () => ({
-  localStorageManager: {
-    load: vi.fn(),
-    save: vi.fn(),
+// Mock the PlaybookManager
+vi.mock("../../utils/storage/PlaybookManager", () => ({
+  playbookManager: {
+    getActivePlaybook: vi.fn(),
+    savePositions: vi.fn(),
     saveImmediate: vi.fn(),
-    clear: vi.fn(),
-    hasStoredData: vi.fn(),
-    getStorageInfo: vi.fn(),
   },
 }));
 
@@ -43,11 +40,22 @@ vi.mock("../../utils/positionValidation", () => ({
 }));
 
 describe("usePositionManager", () => {
-  const mockStorageManager = localStorageManager as any;
+  const mockPlaybookManager = playbookManager as any;
+
+  // Resolves the active playbook with these positions, or empty ones
+  const mockActivePlaybook = (positions: unknown) => {
+    mockPlaybookManager.getActivePlaybook.mockResolvedValue({
+      id: "playbook_1",
+      name: "Default playbook",
+      positions: positions ?? { "5-1": {}, "6-2": {} },
+      createdAt: 0,
+      updatedAt: 0,
+    });
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockStorageManager.load.mockReturnValue(null);
+    mockActivePlaybook(null);
   });
 
   afterEach(() => {
@@ -56,7 +64,7 @@ describe("usePositionManager", () => {
 
   describe("Initialization", () => {
     it("should initialize with empty positions when no stored data", async () => {
-      mockStorageManager.load.mockReturnValue(null);
+      mockActivePlaybook(null);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -92,7 +100,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -105,9 +113,9 @@ describe("usePositionManager", () => {
     });
 
     it("should handle storage loading errors", async () => {
-      mockStorageManager.load.mockImplementation(() => {
-        throw new Error("Storage error");
-      });
+      mockPlaybookManager.getActivePlaybook.mockRejectedValue(
+        new Error("Storage error")
+      );
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -161,7 +169,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -197,7 +205,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -448,7 +456,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -483,7 +491,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -518,7 +526,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -549,7 +557,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -582,7 +590,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -622,7 +630,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -662,7 +670,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -698,7 +706,7 @@ describe("usePositionManager", () => {
         "6-2": {},
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -740,7 +748,7 @@ describe("usePositionManager", () => {
         },
       };
 
-      mockStorageManager.load.mockReturnValue(storedPositions);
+      mockActivePlaybook(storedPositions);
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -804,7 +812,7 @@ describe("usePositionManager", () => {
         result.current.saveImmediate();
       });
 
-      expect(mockStorageManager.saveImmediate).toHaveBeenCalledWith(
+      expect(mockPlaybookManager.saveImmediate).toHaveBeenCalledWith(
         result.current.positions
       );
     });
@@ -830,13 +838,13 @@ describe("usePositionManager", () => {
         await new Promise((resolve) => setTimeout(resolve, 0));
       });
 
-      expect(mockStorageManager.save).toHaveBeenCalled();
+      expect(mockPlaybookManager.savePositions).toHaveBeenCalled();
     });
 
     it("should not auto-save when loading or in error state", async () => {
-      mockStorageManager.load.mockImplementation(() => {
-        throw new Error("Storage error");
-      });
+      mockPlaybookManager.getActivePlaybook.mockRejectedValue(
+        new Error("Storage error")
+      );
 
       const { result } = renderHook(() => usePositionManager());
 
@@ -845,7 +853,7 @@ describe("usePositionManager", () => {
       });
 
       expect(result.current.error).toBeTruthy();
-      expect(mockStorageManager.save).not.toHaveBeenCalled();
+      expect(mockPlaybookManager.savePositions).not.toHaveBeenCalled();
     });
   });
 });
@@ -385,4 +385,90 @@ describe('useUndoRedo', () => {
     });
     expect(result.current.historySize).toBe(0);
   });
-});
\ No newline at end of file
+
+  describe('branching history', () => {
+    const step = (from: number, to: number) => ({
+      description: `Step ${to}`,
+      previousState: { value: from, text: `step${from}` },
+      newState: { value: to, text: `step${to}` },
+      type: 'position' as const,
+    });
+
+    // 0 -> 1 -> 2, undo, then 1 -> 3 abandons the branch with 2
+    const renderBranched = () => {
+      const hook = renderHook(() => useUndoRedo<TestState>(50, mockOnUndo, mockOnRedo));
+      act(() => {
+        hook.result.current.pushAction(step(0, 1));
+        hook.result.current.pushAction(step(1, 2));
+        hook.result.current.undo();
+        hook.result.current.pushAction(step(1, 3));
+      });
+      mockOnUndo.mockClear();
+      mockOnRedo.mockClear();
+      return hook;
+    };
+
+    it('keeps abandoned branches in the entries', () => {
+      const { result } = renderBranched();
+
+      expect(result.current.entries.map(entry => [
+        entry.action.description,
+        entry.status,
+        entry.depth,
+      ])).toEqual([
+        ['Step 1', 'done', 0],
+        ['Step 2', 'abandoned', 1],
+        ['Step 3', 'current', 0],
+      ]);
+    });
+
+    it('jumps to an abandoned branch through the common ancestor', () => {
+      const { result } = renderBranched();
+      const abandoned = result.current.entries[1].action;
+
+      act(() => {
+        expect(result.current.jumpTo(abandoned.id)).toBe(true);
+      });
+
+      expect(mockOnUndo).toHaveBeenCalledTimes(1);
+      expect(mockOnUndo).toHaveBeenCalledWith(expect.objectContaining({ description: 'Step 3' }));
+      expect(mockOnRedo).toHaveBeenCalledTimes(1);
+      expect(mockOnRedo).toHaveBeenCalledWith(expect.objectContaining({ description: 'Step 2' }));
+      expect(result.current.currentAction?.description).toBe('Step 2');
+      expect(result.current.entries.map(entry => entry.status)).toEqual([
+        'done',
+        'current',
+        'abandoned',
+      ]);
+    });
+
+    it('jumps back to the initial state and redoes along the active branch', () => {
+      const { result } = renderBranched();
+
+      act(() => {
+        result.current.jumpTo(null);
+      });
+      expect(result.current.canUndo).toBe(false);
+      expect(mockOnUndo).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        result.current.redo();
+        result.current.redo();
+      });
+      expect(result.current.currentAction?.description).toBe('Step 3');
+    });
+
+    it('restores a saved snapshot', () => {
+      const { result } = renderBranched();
+      const snapshot = result.current.getSnapshot();
+
+      const { result: restored } = renderHook(() => useUndoRedo<TestState>());
+      act(() => {
+        restored.current.restore(JSON.parse(JSON.stringify(snapshot)));
+      });
+
+      expect(restored.current.entries).toEqual(result.current.entries);
+      expect(restored.current.canUndo).toBe(true);
+    });
+  });
+});
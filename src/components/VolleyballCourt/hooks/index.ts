@@ -12,3 +12,11 @@ export type {
   VolleyballValidationResult,
   DragConstraints,
 } from "./useEnhancedPositionManager";
+
+export { useSequencePlayback } from "./useSequencePlayback";
+export type { SequencePlaybackControls } from "./useSequencePlayback";
+
+export { useCollaboration } from "./useCollaboration";
+export type { CollaborationControls, PresenceUpdate } from "./useCollaboration";
+
+export { useLocalization, LocalizationContext } from "./useLocalization";
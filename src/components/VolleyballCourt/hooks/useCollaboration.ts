@@ -0,0 +1,266 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import type { CollaborationConfig, CollaboratorPresence } from "../types";
+import type { PositionManager } from "./usePositionManager";
+import {
+  LastWriterWinsMap,
+  type PositionOperation,
+} from "../utils/collaboration/lastWriterWins";
+
+// Presence fields that change as the coach works
+export type PresenceUpdate = Partial<
+  Pick<
+    CollaboratorPresence,
+    "system" | "rotation" | "formation" | "cursor" | "draggedPlayerId"
+  >
+>;
+
+export interface CollaborationControls<T extends PositionManager> {
+  positionManager: T; // setPosition also broadcasts the move
+  collaborators: CollaboratorPresence[];
+  isConnected: boolean;
+  updatePresence: (update: PresenceUpdate) => void;
+}
+
+const DEFAULT_CURSOR_THROTTLE = 50;
+
+const COLLABORATOR_COLORS = [
+  "#e11d48",
+  "#7c3aed",
+  "#0891b2",
+  "#ca8a04",
+  "#16a34a",
+  "#db2777",
+];
+
+// Same color for a user on every client
+function getCollaboratorColor(id: string): string {
+  let hash = 0;
+  for (const char of id) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * Shares position edits with other coaches over `config.transport`. Moves
+ * made through the returned position manager's setPosition are broadcast;
+ * remote moves are merged last-writer-wins per player, applied to the
+ * position manager and reported through `onRemoteOperations`. Without a
+ * config the position manager is returned unchanged.
+ */
+export function useCollaboration<T extends PositionManager>(
+  positionManager: T,
+  config: CollaborationConfig | undefined,
+  onRemoteOperations?: (operations: PositionOperation[]) => void
+): CollaborationControls<T> {
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>(
+    []
+  );
+  const [isConnected, setIsConnected] = useState(false);
+
+  const transport = config?.transport;
+  const userId = config?.user.id;
+  const cursorThrottle = config?.cursorThrottle ?? DEFAULT_CURSOR_THROTTLE;
+
+  const positionManagerRef = useRef(positionManager);
+  positionManagerRef.current = positionManager;
+  const onRemoteOperationsRef = useRef(onRemoteOperations);
+  onRemoteOperationsRef.current = onRemoteOperations;
+  const cursorTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Latest move per player, kept for the whole session
+  const operations = useMemo(
+    () => (userId === undefined ? null : new LastWriterWinsMap(userId)),
+    [userId]
+  );
+
+  // Own presence; the formation fields are filled in by updatePresence
+  const presenceRef = useRef<CollaboratorPresence | null>(null);
+  presenceRef.current = config
+    ? {
+        system: "5-1",
+        rotation: 0,
+        formation: "rotational",
+        cursor: null,
+        draggedPlayerId: null,
+        lastSeen: 0,
+        ...presenceRef.current,
+        id: config.user.id,
+        name: config.user.name,
+        color: config.user.color ?? getCollaboratorColor(config.user.id),
+      }
+    : null;
+
+  const sendPresence = useCallback(
+    (type: "hello" | "presence") => {
+      const presence = presenceRef.current;
+      if (transport && presence) {
+        transport.send({
+          type,
+          presence: { ...presence, lastSeen: Date.now() },
+        });
+      }
+    },
+    [transport]
+  );
+
+  // Cursor moves are sent at most once per cursorThrottle ms; other changes
+  // right away
+  const updatePresence = useCallback(
+    (update: PresenceUpdate) => {
+      const presence = presenceRef.current;
+      if (!presence) return;
+
+      presenceRef.current = { ...presence, ...update };
+
+      const isCursorMove = Object.keys(update).every((key) => key === "cursor");
+      if (!isCursorMove) {
+        sendPresence("presence");
+      } else if (!cursorTimeoutRef.current) {
+        cursorTimeoutRef.current = setTimeout(() => {
+          cursorTimeoutRef.current = null;
+          sendPresence("presence");
+        }, cursorThrottle);
+      }
+    },
+    [sendPresence, cursorThrottle]
+  );
+
+  useEffect(() => {
+    if (!transport || !operations || userId === undefined) return;
+
+    const applyOperations = (incoming: PositionOperation[]) => {
+      const applied = incoming.filter((operation) => {
+        if (!operations.apply(operation)) return false;
+
+        positionManagerRef.current.setPosition(
+          operation.system,
+          operation.rotation,
+          operation.formation,
+          operation.playerId,
+          operation.position
+        );
+        return true;
+      });
+
+      if (applied.length > 0) {
+        onRemoteOperationsRef.current?.(applied);
+      }
+    };
+
+    const sendSnapshot = () => {
+      const known = operations.getOperations();
+      if (known.length > 0) {
+        transport.send({
+          type: "snapshot",
+          clientId: userId,
+          operations: known,
+        });
+      }
+    };
+
+    const upsertCollaborator = (presence: CollaboratorPresence) => {
+      if (presence.id === userId) return;
+
+      setCollaborators((prev) =>
+        prev.some((collaborator) => collaborator.id === presence.id)
+          ? prev.map((collaborator) =>
+              collaborator.id === presence.id ? presence : collaborator
+            )
+          : [...prev, presence]
+      );
+    };
+
+    const unsubscribeMessages = transport.onMessage((message) => {
+      switch (message.type) {
+        case "hello":
+          upsertCollaborator(message.presence);
+          sendPresence("presence");
+          sendSnapshot();
+          break;
+        case "presence":
+          upsertCollaborator(message.presence);
+          break;
+        case "position":
+          applyOperations([message.operation]);
+          break;
+        case "snapshot":
+          applyOperations(message.operations);
+          break;
+        case "leave":
+          setCollaborators((prev) =>
+            prev.filter((collaborator) => collaborator.id !== message.clientId)
+          );
+          break;
+      }
+    });
+
+    const unsubscribeConnection = transport.onConnectionChange((connected) => {
+      setIsConnected(connected);
+      if (connected) {
+        sendPresence("hello");
+        // Moves made while disconnected
+        sendSnapshot();
+      } else {
+        setCollaborators([]);
+      }
+    });
+
+    transport.connect().catch((error) => {
+      console.warn("Failed to connect to collaboration session:", error);
+    });
+
+    return () => {
+      transport.send({ type: "leave", clientId: userId });
+      unsubscribeMessages();
+      unsubscribeConnection();
+      transport.disconnect();
+
+      if (cursorTimeoutRef.current) {
+        clearTimeout(cursorTimeoutRef.current);
+        cursorTimeoutRef.current = null;
+      }
+      setIsConnected(false);
+      setCollaborators([]);
+    };
+  }, [transport, operations, userId, sendPresence]);
+
+  const broadcastingManager = useMemo(() => {
+    if (!transport || !operations) return positionManager;
+
+    const setPosition: PositionManager["setPosition"] = (
+      system,
+      rotation,
+      formation,
+      playerId,
+      position
+    ) => {
+      const success = positionManager.setPosition(
+        system,
+        rotation,
+        formation,
+        playerId,
+        position
+      );
+      if (success) {
+        transport.send({
+          type: "position",
+          operation: operations.createOperation(
+            { system, rotation, formation, playerId },
+            position
+          ),
+        });
+      }
+      return success;
+    };
+
+    return { ...positionManager, setPosition };
+  }, [positionManager, transport, operations]);
+
+  return {
+    positionManager: broadcastingManager,
+    collaborators,
+    isConnected,
+    updatePresence,
+  };
+}
@@ -5,6 +5,10 @@ import {
   SystemType,
   CustomPositionsState,
   FormationPositions,
+  CustomRuleConfig,
+  CustomRuleViolation,
+  PlayerDefinition,
+  FormationDefinition,
 } from "../types";
 import { usePositionManager, PositionManager } from "./usePositionManager";
 import { OverlapValidator } from "../volleyball-rules-engine/validation/OverlapValidator";
@@ -13,11 +17,29 @@ import { StateConverter } from "../volleyball-rules-engine/utils/StateConverter"
 import { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
 import { OverlapResult } from "../volleyball-rules-engine/types/ValidationResult";
 import { PositionBounds } from "../volleyball-rules-engine/types/ValidationResult";
+import { COURT_DIMENSIONS } from "../types/positioning";
+import { getDefaultPositions } from "../utils/defaultPositions";
+import { getBaseFormation } from "../utils/customFormations";
+import {
+  formationUsesOverlapRules,
+  ValidationPolicies,
+} from "../utils/validationPolicies";
+import {
+  evaluateCustomRules,
+  getCustomRuleArea,
+} from "../utils/customRules";
 
 export interface VolleyballValidationResult {
   isValid: boolean;
   violations: string[];
   detailedResult?: OverlapResult;
+  customViolations?: CustomRuleViolation[];
+}
+
+// Team-specific rules checked along with the overlap rules
+export interface CustomRuleOptions {
+  customRules: CustomRuleConfig[];
+  players?: PlayerDefinition[]; // Roster, for rules that target a role
 }
 
 export interface DragConstraints {
@@ -32,7 +54,9 @@ export interface EnhancedPositionManagerActions {
     system: SystemType,
     rotation: number,
     formation: FormationType,
-    rotationMap?: Record<number, string>
+    rotationMap?: Record<number, string>,
+    serverSlot?: RotationSlot | null,
+    customRuleOptions?: CustomRuleOptions
   ) => VolleyballValidationResult;
 
   // Real-time constraint calculation
@@ -42,7 +66,8 @@ export interface EnhancedPositionManagerActions {
     formation: FormationType,
     playerId: string,
     rotationMap?: Record<number, string>,
-    serverSlot?: RotationSlot
+    serverSlot?: RotationSlot | null,
+    customRuleOptions?: CustomRuleOptions
   ) => DragConstraints;
 
   // Enhanced position validation
@@ -96,10 +121,19 @@ export interface EnhancedPositionManagerActions {
 export type EnhancedPositionManager = PositionManager &
   EnhancedPositionManagerActions;
 
+// Shared defaults, so the callbacks stay stable without a config
+const NO_FORMATIONS: FormationDefinition[] = [];
+const NO_POLICIES: ValidationPolicies = {};
+
 /**
- * Enhanced position manager with volleyball rules integration
+ * Enhanced position manager with volleyball rules integration. Overlap rules
+ * are checked in the formations whose validation policy turns them on: serve
+ * receive by default.
  */
-export function useEnhancedPositionManager(): EnhancedPositionManager {
+export function useEnhancedPositionManager(
+  formations: FormationDefinition[] = NO_FORMATIONS,
+  policies: ValidationPolicies = NO_POLICIES
+): EnhancedPositionManager {
   const baseManager = usePositionManager();
   const [volleyballRulesEnabled, setVolleyballRulesEnabledState] =
     useState(true);
@@ -110,26 +144,46 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
       system: SystemType,
       rotation: number,
       formation: FormationType,
-      rotationMap?: Record<number, string>
+      rotationMap?: Record<number, string>,
+      serverSlot: RotationSlot | null = 1,
+      customRuleOptions?: CustomRuleOptions
     ): VolleyballValidationResult => {
-      if (
-        !volleyballRulesEnabled ||
-        !rotationMap ||
-        formation === "rotational"
-      ) {
+      if (!volleyballRulesEnabled || !rotationMap) {
         return { isValid: true, violations: [] };
       }
 
       try {
-        // Get current positions
-        const positions = baseManager.getFormationPositions(
-          system,
-          rotation,
-          formation
+        // Get current positions, with defaults keyed by player
+        const positions = {
+          ...getDefaultPositions(
+            getBaseFormation(formation, formations),
+            rotation,
+            system,
+            rotationMap
+          ),
+          ...baseManager.getFormationPositions(system, rotation, formation),
+        };
+
+        // Custom rules apply to every formation they list
+        const customViolations = customRuleOptions
+          ? evaluateCustomRules(customRuleOptions.customRules, positions, {
+              system,
+              rotation,
+              formation,
+              courtDimensions: COURT_DIMENSIONS,
+              rotationMap,
+              players: customRuleOptions.players,
+            })
+          : [];
+        const customRulesPass = !customViolations.some(
+          (violation) => violation.severity === "error"
         );
 
+        if (!formationUsesOverlapRules(formation, formations, policies)) {
+          return { isValid: customRulesPass, violations: [], customViolations };
+        }
+
         // Convert to volleyball states
-        const serverSlot: RotationSlot = 1; // Default server slot
         const volleyballStates = StateConverter.formationToVolleyballStates(
           positions,
           rotationMap,
@@ -140,9 +194,10 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         const result = OverlapValidator.checkOverlap(volleyballStates);
 
         return {
-          isValid: result.isLegal,
+          isValid: result.isLegal && customRulesPass,
           violations: result.violations.map((v) => v.message),
           detailedResult: result,
+          customViolations,
         };
       } catch (error) {
         console.warn(
@@ -152,7 +207,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         return { isValid: true, violations: [] };
       }
     },
-    [volleyballRulesEnabled, baseManager]
+    [volleyballRulesEnabled, formations, policies, baseManager]
   );
 
   // Get constraints for a specific player
@@ -163,7 +218,8 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
       formation: FormationType,
       playerId: string,
       rotationMap?: Record<number, string>,
-      serverSlot: RotationSlot = 1
+      serverSlot: RotationSlot | null = 1,
+      customRuleOptions?: CustomRuleOptions
     ): DragConstraints => {
       const defaultConstraints: DragConstraints = {
         isValid: () => true,
@@ -173,7 +229,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
       if (
         !volleyballRulesEnabled ||
         !rotationMap ||
-        formation === "rotational"
+        !formationUsesOverlapRules(formation, formations, policies)
       ) {
         return defaultConstraints;
       }
@@ -211,12 +267,40 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         });
 
         // Calculate constraints
-        const bounds = ConstraintCalculator.calculateValidBounds(
+        const ruleBounds = ConstraintCalculator.calculateValidBounds(
           playerSlot,
           positionMap,
           isServer
         );
 
+        // Custom rules with constrainDrag narrow the bounds further
+        const ruleArea = customRuleOptions
+          ? getCustomRuleArea(customRuleOptions.customRules, playerId, {
+              formation,
+              rotationMap,
+              players: customRuleOptions.players,
+            })
+          : null;
+        const bounds: PositionBounds = ruleArea
+          ? {
+              minX: Math.max(ruleBounds.minX, ruleArea.minX),
+              maxX: Math.min(ruleBounds.maxX, ruleArea.maxX),
+              minY: Math.max(ruleBounds.minY, ruleArea.minY),
+              maxY: Math.min(ruleBounds.maxY, ruleArea.maxY),
+              isConstrained: true,
+              constraintReasons: [
+                ...ruleBounds.constraintReasons,
+                "Custom rule area",
+              ],
+            }
+          : ruleBounds;
+        const isInRuleArea = (vbX: number, vbY: number) =>
+          !ruleArea ||
+          (vbX >= ruleArea.minX &&
+            vbX <= ruleArea.maxX &&
+            vbY >= ruleArea.minY &&
+            vbY <= ruleArea.maxY);
+
         return {
           bounds: bounds.isConstrained ? bounds : undefined,
           isValid: (x, y) => {
@@ -227,11 +311,14 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
               isCustom: true,
               lastModified: new Date(),
             });
-            return ConstraintCalculator.isPositionValid(
-              playerSlot,
-              vbCoords,
-              positionMap,
-              isServer
+            return (
+              isInRuleArea(vbCoords.x, vbCoords.y) &&
+              ConstraintCalculator.isPositionValid(
+                playerSlot,
+                vbCoords,
+                positionMap,
+                isServer
+              )
             );
           },
           snapToValid: (x, y) => {
@@ -244,7 +331,12 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
             });
             const snappedVb = ConstraintCalculator.snapToValidPosition(
               playerSlot,
-              vbCoords,
+              ruleArea
+                ? {
+                    x: Math.min(Math.max(vbCoords.x, bounds.minX), bounds.maxX),
+                    y: Math.min(Math.max(vbCoords.y, bounds.minY), bounds.maxY),
+                  }
+                : vbCoords,
               positionMap,
               isServer
             );
@@ -259,7 +351,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         return defaultConstraints;
       }
     },
-    [volleyballRulesEnabled, baseManager]
+    [volleyballRulesEnabled, formations, policies, baseManager]
   );
 
   // Enhanced position validation with volleyball rules
@@ -297,7 +389,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
       if (
         !volleyballRulesEnabled ||
         !rotationMap ||
-        formation === "rotational"
+        !formationUsesOverlapRules(formation, formations, policies)
       ) {
         return baseValidation;
       }
@@ -344,7 +436,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         return baseValidation;
       }
     },
-    [volleyballRulesEnabled, baseManager]
+    [volleyballRulesEnabled, formations, policies, baseManager]
   );
 
   // Set position with volleyball rules validation
@@ -405,7 +497,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
         enforceRules &&
         volleyballRulesEnabled &&
         rotationMap &&
-        formation !== "rotational"
+        formationUsesOverlapRules(formation, formations, policies)
       ) {
         try {
           // Convert to volleyball states
@@ -439,7 +531,7 @@ export function useEnhancedPositionManager(): EnhancedPositionManager {
 
       return { success };
     },
-    [volleyballRulesEnabled, baseManager]
+    [volleyballRulesEnabled, formations, policies, baseManager]
   );
 
   // Get volleyball validation summary
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import { Localization } from "../types";
+import { DEFAULT_LOCALIZATION } from "../utils/localization";
+
+/**
+ * Localization of the surrounding VolleyballCourtProvider. Kept apart from
+ * the court context so controls that take their state as props can still be
+ * rendered on their own, in English.
+ */
+export const LocalizationContext =
+  createContext<Localization>(DEFAULT_LOCALIZATION);
+
+/**
+ * Messages and number formatting for the configured language
+ */
+export function useLocalization(): Localization {
+  return useContext(LocalizationContext);
+}
@@ -16,13 +16,19 @@ import {
   checkCollision,
   findNearestValidPosition,
 } from "../utils/positionValidation";
-import { localStorageManager } from "../utils/storage/LocalStorageManager";
+import { playbookManager } from "../utils/storage/PlaybookManager";
+import {
+  isBuiltInFormation,
+  RESERVED_FORMATION_IDS,
+} from "../utils/customFormations";
+import {
+  getFormationAnnotations as getStoredAnnotations,
+  setFormationAnnotations as setStoredAnnotations,
+} from "../utils/courtAnnotations";
+import type { CourtAnnotation } from "../types/positioning";
 
 export interface PositionManagerState {
-  positions: {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  };
+  positions: Record<SystemType, CustomPositionsState>;
   isLoading: boolean;
   error: string | null;
 }
@@ -57,6 +63,19 @@ export interface PositionManagerActions {
     positions: Record<string, PlayerPosition>
   ) => boolean;
 
+  // Annotations (ball, arrows, callouts, zones)
+  getFormationAnnotations: (
+    system: SystemType,
+    rotation: number,
+    formation: FormationType
+  ) => CourtAnnotation[];
+  setFormationAnnotations: (
+    system: SystemType,
+    rotation: number,
+    formation: FormationType,
+    annotations: CourtAnnotation[]
+  ) => void;
+
   // Position validation
   validatePosition: (
     system: SystemType,
@@ -101,7 +120,8 @@ export interface PositionManagerActions {
 
   // Utility methods
   clearError: () => void;
-  saveImmediate: () => void;
+  saveImmediate: () => Promise<void>;
+  reloadPositions: () => Promise<void>; // After switching playbooks
 }
 
 export type PositionManager = PositionManagerState & PositionManagerActions;
@@ -119,40 +139,35 @@ export function usePositionManager(): PositionManager {
     error: null,
   });
 
+  // Load positions from the active playbook
+  const loadStoredPositions = useCallback(async (): Promise<void> => {
+    try {
+      const playbook = await playbookManager.getActivePlaybook();
+      setState((prev) => ({
+        ...prev,
+        positions: playbook.positions,
+        isLoading: false,
+        error: null,
+      }));
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error ? error.message : "Failed to load positions",
+        isLoading: false,
+      }));
+    }
+  }, []);
+
   // Initialize positions from storage on mount
   useEffect(() => {
-    const loadStoredPositions = async () => {
-      try {
-        const stored = localStorageManager.load();
-        if (stored) {
-          setState((prev) => ({
-            ...prev,
-            positions: stored,
-            isLoading: false,
-          }));
-        } else {
-          setState((prev) => ({
-            ...prev,
-            isLoading: false,
-          }));
-        }
-      } catch (error) {
-        setState((prev) => ({
-          ...prev,
-          error:
-            error instanceof Error ? error.message : "Failed to load positions",
-          isLoading: false,
-        }));
-      }
-    };
-
     loadStoredPositions();
-  }, []);
+  }, [loadStoredPositions]);
 
   // Auto-save positions when they change
   useEffect(() => {
     if (!state.isLoading && !state.error) {
-      localStorageManager.save(state.positions);
+      playbookManager.savePositions(state.positions);
     }
   }, [state.positions, state.isLoading, state.error]);
 
@@ -201,7 +216,7 @@ export function usePositionManager(): PositionManager {
         return defaultPositions[playerId] || null;
       }
 
-      const customPosition = rotationData[formation][playerId];
+      const customPosition = rotationData[formation]?.[playerId];
       if (customPosition) {
         return customPosition;
       }
@@ -401,6 +416,41 @@ export function usePositionManager(): PositionManager {
     [ensureRotationExists]
   );
 
+  // Get the annotations drawn on a formation
+  const getFormationAnnotations = useCallback(
+    (
+      system: SystemType,
+      rotation: number,
+      formation: FormationType
+    ): CourtAnnotation[] =>
+      getStoredAnnotations(state.positions[system], rotation, formation),
+    [state.positions]
+  );
+
+  // Replace the annotations drawn on a formation
+  const setFormationAnnotations = useCallback(
+    (
+      system: SystemType,
+      rotation: number,
+      formation: FormationType,
+      annotations: CourtAnnotation[]
+    ): void => {
+      setState((prev) => ({
+        ...prev,
+        positions: {
+          ...prev.positions,
+          [system]: setStoredAnnotations(
+            prev.positions[system],
+            rotation,
+            formation,
+            annotations
+          ),
+        },
+      }));
+    },
+    []
+  );
+
   // Validate a position
   const validatePosition = useCallback(
     (
@@ -492,16 +542,24 @@ export function usePositionManager(): PositionManager {
   // Check if a rotation has any customized positions
   const isRotationCustomized = useCallback(
     (system: SystemType, rotation: number): boolean => {
+      // Custom formations are stored under their ID next to the built-ins
+      const customFormations = Object.keys(
+        state.positions[system]?.[rotation] ?? {}
+      ).filter(
+        (key) =>
+          !isBuiltInFormation(key) && !RESERVED_FORMATION_IDS.includes(key)
+      );
       const formations: FormationType[] = [
         "rotational",
         "serveReceive",
         "base",
+        ...customFormations,
       ];
       return formations.some((formation) =>
         isFormationCustomized(system, rotation, formation)
       );
     },
-    [isFormationCustomized]
+    [state.positions, isFormationCustomized]
   );
 
   // Check if a system has any customized positions
@@ -600,6 +658,7 @@ export function usePositionManager(): PositionManager {
               rotational: {},
               serveReceive: {},
               base: {},
+              annotations: prev.positions[system][rotation]?.annotations,
             },
           },
         },
@@ -639,12 +698,18 @@ export function usePositionManager(): PositionManager {
   }, []);
 
   // Save immediately (bypass debouncing)
-  const saveImmediate = useCallback((): void => {
+  const saveImmediate = useCallback(async (): Promise<void> => {
     if (!state.isLoading && !state.error) {
-      localStorageManager.saveImmediate(state.positions);
+      await playbookManager.saveImmediate(state.positions);
     }
   }, [state.positions, state.isLoading, state.error]);
 
+  // Reload from the active playbook, e.g. after switching playbooks
+  const reloadPositions = useCallback(async (): Promise<void> => {
+    setState((prev) => ({ ...prev, isLoading: true }));
+    await loadStoredPositions();
+  }, [loadStoredPositions]);
+
   // Memoize the return object to prevent unnecessary re-renders
   return useMemo(
     () => ({
@@ -662,6 +727,10 @@ export function usePositionManager(): PositionManager {
       setPosition,
       setFormationPositions,
 
+      // Annotations
+      getFormationAnnotations,
+      setFormationAnnotations,
+
       // Position validation
       validatePosition,
 
@@ -681,6 +750,7 @@ export function usePositionManager(): PositionManager {
       // Utility methods
       clearError,
       saveImmediate,
+      reloadPositions,
     }),
     [
       state,
@@ -689,6 +759,8 @@ export function usePositionManager(): PositionManager {
       getAllPositions,
       setPosition,
       setFormationPositions,
+      getFormationAnnotations,
+      setFormationAnnotations,
       validatePosition,
       isPositionCustomized,
       isFormationCustomized,
@@ -701,6 +773,7 @@ export function usePositionManager(): PositionManager {
       resetAll,
       clearError,
       saveImmediate,
+      reloadPositions,
     ]
   );
 }
@@ -0,0 +1,77 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { animate } from "framer-motion";
+import { SequencePlaybackState } from "../types";
+
+type PlaybackControls = ReturnType<typeof animate>;
+
+export interface SequencePlaybackControls extends SequencePlaybackState {
+  play: (from?: number) => void;
+  stop: () => void;
+  seek: (time: number | null) => void;
+}
+
+/**
+ * Drives a playhead from 0 to `totalDuration` milliseconds with
+ * framer-motion. Positions are derived from the playhead by the caller,
+ * so scrubbing and playback share one code path.
+ */
+export function useSequencePlayback(
+  totalDuration: number,
+  onComplete?: () => void
+): SequencePlaybackControls {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState<number | null>(null);
+  const controlsRef = useRef<PlaybackControls | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const stopControls = useCallback(() => {
+    controlsRef.current?.stop();
+    controlsRef.current = null;
+  }, []);
+
+  const play = useCallback(
+    (from: number = 0) => {
+      stopControls();
+
+      const start = Math.max(0, Math.min(from, totalDuration));
+      setTime(start);
+      setIsPlaying(true);
+
+      controlsRef.current = animate(start, totalDuration, {
+        duration: (totalDuration - start) / 1000,
+        ease: "linear",
+        onUpdate: (latest) => setTime(latest),
+        onComplete: () => {
+          controlsRef.current = null;
+          setTime(totalDuration);
+          setIsPlaying(false);
+          onCompleteRef.current?.();
+        },
+      });
+    },
+    [totalDuration, stopControls]
+  );
+
+  const stop = useCallback(() => {
+    stopControls();
+    setIsPlaying(false);
+    setTime(null);
+  }, [stopControls]);
+
+  const seek = useCallback(
+    (nextTime: number | null) => {
+      stopControls();
+      setIsPlaying(false);
+      setTime(
+        nextTime === null ? null : Math.max(0, Math.min(nextTime, totalDuration))
+      );
+    },
+    [totalDuration, stopControls]
+  );
+
+  // Stop any running animation on unmount
+  useEffect(() => stopControls, [stopControls]);
+
+  return { isPlaying, time, play, stop, seek };
+}
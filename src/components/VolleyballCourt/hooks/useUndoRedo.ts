@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo } from 'react';
 
 export interface UndoRedoAction<T> {
   id: string;
@@ -9,9 +9,34 @@ export interface UndoRedoAction<T> {
   type: 'reset' | 'position' | 'formation' | 'system';
 }
 
-interface UndoRedoState<T> {
-  history: UndoRedoAction<T>[];
-  currentIndex: number;
+// Where an action sits relative to the current state
+export type UndoRedoEntryStatus =
+  | 'done' // Applied, before the current action
+  | 'current'
+  | 'undone' // Would be redone
+  | 'abandoned'; // On a branch left by a new action after an undo
+
+export interface UndoRedoEntry<T> {
+  action: UndoRedoAction<T>;
+  parentId: string | null; // null when pushed onto the initial state
+  depth: number; // 0 on the active branch, +1 per branch off it
+  status: UndoRedoEntryStatus;
+}
+
+interface UndoRedoNode<T> {
+  action: UndoRedoAction<T>;
+  parentId: string | null;
+  redoChildId: string | null; // Child that redo moves to
+}
+
+// History tree in a form that can be saved and restored
+export interface UndoRedoSnapshot<T> {
+  nodes: UndoRedoNode<T>[]; // Oldest first
+  currentId: string | null; // null at the initial state
+  rootRedoId: string | null; // Action redo applies from the initial state
+}
+
+interface UndoRedoState<T> extends UndoRedoSnapshot<T> {
   maxHistorySize: number;
 }
 
@@ -20,32 +45,101 @@ interface UseUndoRedoReturn<T> {
   canUndo: boolean;
   canRedo: boolean;
   currentAction: UndoRedoAction<T> | null;
-  historySize: number;
-  
+  historySize: number; // Actions on the active branch
+
   // Actions
   pushAction: (action: Omit<UndoRedoAction<T>, 'id' | 'timestamp'>) => void;
   undo: () => UndoRedoAction<T> | null;
   redo: () => UndoRedoAction<T> | null;
   clear: () => void;
   getHistory: () => UndoRedoAction<T>[];
-  
+
+  // Branching history
+  entries: UndoRedoEntry<T>[]; // Every kept action, oldest first
+  jumpTo: (actionId: string | null) => boolean; // null for the initial state
+  getSnapshot: () => UndoRedoSnapshot<T>;
+  restore: (snapshot: UndoRedoSnapshot<T>) => void;
+
   // Batch operations
   startBatch: (description: string) => void;
   endBatch: () => void;
   discardBatch: () => void;
 }
 
+const EMPTY_SNAPSHOT = {
+  nodes: [],
+  currentId: null,
+  rootRedoId: null,
+};
+
+function findNode<T>(
+  state: UndoRedoSnapshot<T>,
+  id: string | null
+): UndoRedoNode<T> | undefined {
+  return id === null ? undefined : state.nodes.find(node => node.action.id === id);
+}
+
+// Actions from the oldest kept ancestor down to `id`
+function getPath<T>(state: UndoRedoSnapshot<T>, id: string | null): UndoRedoNode<T>[] {
+  const path: UndoRedoNode<T>[] = [];
+  let node = findNode(state, id);
+  while (node) {
+    path.unshift(node);
+    node = findNode(state, node.parentId);
+  }
+  return path;
+}
+
+// An action can be undone unless the state before it was trimmed away
+function canUndoNode<T>(state: UndoRedoSnapshot<T>, node: UndoRedoNode<T>): boolean {
+  return node.parentId === null || findNode(state, node.parentId) !== undefined;
+}
+
+function getRedoNode<T>(state: UndoRedoSnapshot<T>): UndoRedoNode<T> | undefined {
+  const current = findNode(state, state.currentId);
+  return findNode(state, current ? current.redoChildId : state.rootRedoId);
+}
+
+// Points redo along the path to `id`, so it becomes the active branch
+function activatePath<T>(state: UndoRedoSnapshot<T>, id: string | null): UndoRedoNode<T>[] {
+  const path = getPath(state, id);
+  const pathIds = new Map(path.map(node => [node.parentId, node.action.id]));
+
+  return state.nodes.map(node =>
+    pathIds.has(node.action.id)
+      ? { ...node, redoChildId: pathIds.get(node.action.id) ?? null }
+      : node
+  );
+}
+
+// Drops the oldest actions beyond maxHistorySize; children of a dropped
+// action can no longer be undone
+function trimHistory<T>(nodes: UndoRedoNode<T>[], currentId: string | null, maxHistorySize: number) {
+  const trimmed = [...nodes];
+  while (trimmed.length > maxHistorySize && trimmed[0].action.id !== currentId) {
+    trimmed.shift();
+  }
+  return trimmed;
+}
+
 export function useUndoRedo<T>(
   maxHistorySize: number = 50,
   onUndo?: (action: UndoRedoAction<T>) => void,
   onRedo?: (action: UndoRedoAction<T>) => void
 ): UseUndoRedoReturn<T> {
   const [state, setState] = useState<UndoRedoState<T>>({
-    history: [],
-    currentIndex: -1,
+    ...EMPTY_SNAPSHOT,
     maxHistorySize,
   });
-  
+
+  // Latest state, so several undos in one event see each other's changes
+  const stateRef = useRef(state);
+
+  const commit = useCallback((next: UndoRedoState<T>) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
   const batchRef = useRef<{
     isActive: boolean;
     description: string;
@@ -64,7 +158,7 @@ export function useUndoRedo<T>(
 
   const pushAction = useCallback((action: Omit<UndoRedoAction<T>, 'id' | 'timestamp'>) => {
     const batch = batchRef.current;
-    
+
     if (batch.isActive) {
       // Store action in batch instead of immediately adding to history
       batch.actions.push(action);
@@ -74,97 +168,163 @@ export function useUndoRedo<T>(
       return;
     }
 
-    setState(prev => {
-      const newAction: UndoRedoAction<T> = {
-        ...action,
-        id: generateId(),
-        timestamp: Date.now(),
-      };
-
-      // Remove any actions after current index (when redoing after undo)
-      const newHistory = prev.history.slice(0, prev.currentIndex + 1);
-      
-      // Add new action
-      newHistory.push(newAction);
-      
-      // Trim history if it exceeds max size
-      if (newHistory.length > prev.maxHistorySize) {
-        newHistory.shift();
-        return {
-          ...prev,
-          history: newHistory,
-          currentIndex: newHistory.length - 1,
-        };
-      }
-      
-      return {
-        ...prev,
-        history: newHistory,
-        currentIndex: newHistory.length - 1,
-      };
+    const prev = stateRef.current;
+    const newAction: UndoRedoAction<T> = {
+      ...action,
+      id: generateId(),
+      timestamp: Date.now(),
+    };
+
+    // The new action becomes the redo target of the current one; whatever
+    // was undone before stays in the tree as an abandoned branch
+    const nodes = prev.nodes.map(node =>
+      node.action.id === prev.currentId
+        ? { ...node, redoChildId: newAction.id }
+        : node
+    );
+    nodes.push({ action: newAction, parentId: prev.currentId, redoChildId: null });
+
+    commit({
+      ...prev,
+      nodes: trimHistory(nodes, newAction.id, prev.maxHistorySize),
+      currentId: newAction.id,
+      rootRedoId: prev.currentId === null ? newAction.id : prev.rootRedoId,
     });
-  }, [generateId]);
+  }, [generateId, commit]);
 
   const undo = useCallback(() => {
-    let actionToUndo: UndoRedoAction<T> | null = null;
-    
-    setState(prev => {
-      if (prev.currentIndex < 0) return prev;
-      
-      actionToUndo = prev.history[prev.currentIndex];
-      
-      return {
-        ...prev,
-        currentIndex: prev.currentIndex - 1,
-      };
-    });
-    
-    if (actionToUndo && onUndo) {
-      onUndo(actionToUndo);
-    }
-    
-    return actionToUndo;
-  }, [onUndo]);
+    const prev = stateRef.current;
+    const current = findNode(prev, prev.currentId);
+    if (!current || !canUndoNode(prev, current)) return null;
+
+    commit({ ...prev, currentId: current.parentId });
+    onUndo?.(current.action);
+
+    return current.action;
+  }, [onUndo, commit]);
 
   const redo = useCallback(() => {
-    let actionToRedo: UndoRedoAction<T> | null = null;
-    
-    setState(prev => {
-      if (prev.currentIndex >= prev.history.length - 1) return prev;
-      
-      const nextIndex = prev.currentIndex + 1;
-      actionToRedo = prev.history[nextIndex];
-      
-      return {
-        ...prev,
-        currentIndex: nextIndex,
-      };
-    });
-    
-    if (actionToRedo && onRedo) {
-      onRedo(actionToRedo);
+    const prev = stateRef.current;
+    const next = getRedoNode(prev);
+    if (!next) return null;
+
+    commit({ ...prev, currentId: next.action.id });
+    onRedo?.(next.action);
+
+    return next.action;
+  }, [onRedo, commit]);
+
+  /**
+   * Moves to any kept action, on any branch: undoes back to the common
+   * ancestor, then redoes down to the target
+   */
+  const jumpTo = useCallback((actionId: string | null) => {
+    const prev = stateRef.current;
+    if (actionId === prev.currentId) return true;
+
+    const targetPath = getPath(prev, actionId);
+    if (actionId !== null && targetPath.length === 0) return false;
+    // The initial state is only reachable while its first action is kept
+    if (actionId === null && !prev.nodes.some(node => node.parentId === null)) {
+      return false;
     }
-    
-    return actionToRedo;
-  }, [onRedo]);
 
-  const clear = useCallback(() => {
-    setState(prev => ({
+    const currentPath = getPath(prev, prev.currentId);
+    let shared = 0;
+    while (
+      shared < currentPath.length &&
+      shared < targetPath.length &&
+      currentPath[shared] === targetPath[shared]
+    ) {
+      shared++;
+    }
+
+    const toUndo = currentPath.slice(shared).reverse();
+    const toRedo = targetPath.slice(shared);
+    // Different trimmed roots have no state in common
+    if (toUndo.some(node => !canUndoNode(prev, node))) return false;
+
+    commit({
       ...prev,
-      history: [],
-      currentIndex: -1,
-    }));
+      nodes: activatePath(prev, actionId),
+      currentId: actionId,
+      rootRedoId: targetPath[0]?.parentId === null ? targetPath[0].action.id : prev.rootRedoId,
+    });
+    toUndo.forEach(node => onUndo?.(node.action));
+    toRedo.forEach(node => onRedo?.(node.action));
+
+    return true;
+  }, [onUndo, onRedo, commit]);
+
+  const clear = useCallback(() => {
+    commit({
+      ...stateRef.current,
+      ...EMPTY_SNAPSHOT,
+    });
     batchRef.current = {
       isActive: false,
       description: '',
       actions: [],
       initialState: null,
     };
-  }, []);
+  }, [commit]);
+
+  // Actions on the active branch, from the oldest to the last redoable one
+  const activeBranch = useMemo(() => {
+    const branch = getPath(state, state.currentId);
+    let next = getRedoNode(state);
+    while (next) {
+      branch.push(next);
+      next = findNode(state, next.redoChildId);
+    }
+    return branch;
+  }, [state]);
 
   const getHistory = useCallback(() => {
-    return [...state.history];
-  }, [state.history]);
+    return activeBranch.map(node => node.action);
+  }, [activeBranch]);
+
+  const entries = useMemo(() => {
+    const done = new Set(getPath(state, state.currentId).map(node => node.action.id));
+    const active = new Set(activeBranch.map(node => node.action.id));
+    const depths = new Map<string, number>();
+
+    // Parents are older than their children, so their depth is known first
+    return state.nodes.map((node): UndoRedoEntry<T> => {
+      const parent = findNode(state, node.parentId);
+      const isRedoChild = parent
+        ? parent.redoChildId === node.action.id
+        : node.parentId !== null || state.rootRedoId === node.action.id;
+      const depth = (parent ? depths.get(parent.action.id) ?? 0 : 0) + (isRedoChild ? 0 : 1);
+      depths.set(node.action.id, depth);
+
+      const status: UndoRedoEntryStatus =
+        node.action.id === state.currentId
+          ? 'current'
+          : done.has(node.action.id)
+            ? 'done'
+            : active.has(node.action.id)
+              ? 'undone'
+              : 'abandoned';
+
+      return { action: node.action, parentId: node.parentId, depth, status };
+    });
+  }, [state, activeBranch]);
+
+  const getSnapshot = useCallback((): UndoRedoSnapshot<T> => {
+    const { nodes, currentId, rootRedoId } = stateRef.current;
+    return { nodes, currentId, rootRedoId };
+  }, []);
+
+  const restore = useCallback((snapshot: UndoRedoSnapshot<T>) => {
+    const prev = stateRef.current;
+    commit({
+      ...prev,
+      nodes: trimHistory(snapshot.nodes, snapshot.currentId, prev.maxHistorySize),
+      currentId: snapshot.currentId,
+      rootRedoId: snapshot.rootRedoId,
+    });
+  }, [commit]);
 
   const startBatch = useCallback((description: string) => {
     batchRef.current = {
@@ -177,7 +337,7 @@ export function useUndoRedo<T>(
 
   const endBatch = useCallback(() => {
     const batch = batchRef.current;
-    
+
     if (!batch.isActive || batch.actions.length === 0) {
       batchRef.current.isActive = false;
       return;
@@ -213,23 +373,31 @@ export function useUndoRedo<T>(
     };
   }, []);
 
+  const currentNode = findNode(state, state.currentId);
+
   return {
     // State
-    canUndo: state.currentIndex >= 0,
-    canRedo: state.currentIndex < state.history.length - 1,
-    currentAction: state.currentIndex >= 0 ? state.history[state.currentIndex] : null,
-    historySize: state.history.length,
-    
+    canUndo: currentNode !== undefined && canUndoNode(state, currentNode),
+    canRedo: getRedoNode(state) !== undefined,
+    currentAction: currentNode?.action ?? null,
+    historySize: activeBranch.length,
+
     // Actions
     pushAction,
     undo,
     redo,
     clear,
     getHistory,
-    
+
+    // Branching history
+    entries,
+    jumpTo,
+    getSnapshot,
+    restore,
+
     // Batch operations
     startBatch,
     endBatch,
     discardBatch,
   };
-}
\ No newline at end of file
+}
@@ -7,11 +7,14 @@
 
 export { VolleyballCourt } from "./VolleyballCourt";
 export { CourtVisualization } from "./CourtVisualization";
+export { RotationSheet } from "./RotationSheet";
 export {
   VolleyballCourtProvider,
   useVolleyballCourt,
 } from "./VolleyballCourtProvider";
 export { PlayerLayer } from "./PlayerLayer";
+export { AnnotationLayer } from "./AnnotationLayer";
+export { OpponentLayer } from "./OpponentLayer";
 export { ControlsLayer } from "./ControlsLayer";
 export { VolleyballCourtErrorBoundary } from "./VolleyballCourtErrorBoundary";
 export { ValidationLayer } from "./ValidationLayer";
@@ -47,6 +50,8 @@ export type {
   ConstraintLine,
   BoundingBox,
   ControlsLayerProps,
+  AnnotationLayerProps,
+  OpponentLayerProps,
   ResetType,
 } from "./types";
 
@@ -44,7 +44,10 @@ export { VolleyballCourtErrorBoundary } from "./VolleyballCourtErrorBoundary";
  * These can be imported separately for custom court implementations.
  */
 export { CourtVisualization } from "./CourtVisualization";
+export { RotationSheet } from "./RotationSheet";
 export { PlayerLayer } from "./PlayerLayer";
+export { AnnotationLayer } from "./AnnotationLayer";
+export { OpponentLayer } from "./OpponentLayer";
 export { ControlsLayer } from "./ControlsLayer";
 export { ValidationLayer } from "./ValidationLayer";
 export { NotificationLayer } from "./NotificationLayer";
@@ -84,6 +87,17 @@ export {
   FormationSelector,
   AnimationControls,
   ShareButton,
+  ExportButton,
+  SequenceTimeline,
+  AnnotationToolbar,
+  FullCourtControls,
+  SubstitutionManager,
+  MatchControls,
+  PlaybookSwitcher,
+  HistoryPanel,
+  SelectionToolbar,
+  PlayerContextMenu,
+  CourtDescription,
 } from "./controls";
 
 // =============================================================================
@@ -94,6 +108,42 @@ export {
  * Persistence manager for state saving and URL sharing
  */
 export { VolleyballCourtPersistenceManager } from "./PersistenceManager";
+export type {
+  PersistenceState,
+  PersistenceOptions,
+} from "./PersistenceManager";
+
+/**
+ * Remote backends for the persistence manager
+ */
+export { InMemoryPersistenceAdapter } from "./utils/storage/InMemoryPersistenceAdapter";
+export { HttpPersistenceAdapter } from "./utils/storage/HttpPersistenceAdapter";
+export type {
+  PersistenceAdapter,
+  PersistenceRecord,
+  PersistenceRecordSummary,
+  PersistenceWriteResult,
+} from "./utils/storage/PersistenceAdapter";
+export type {
+  RemoteSyncState,
+  RemoteSyncStatus,
+  RemoteSyncConflict,
+} from "./utils/storage/RemoteSyncQueue";
+
+/**
+ * Real-time collaboration transports
+ */
+export { WebSocketTransport } from "./utils/collaboration/WebSocketTransport";
+export { LocalCollaborationServer } from "./utils/collaboration/LocalCollaborationServer";
+export type {
+  WebSocketLike,
+  WebSocketTransportOptions,
+} from "./utils/collaboration/WebSocketTransport";
+export type {
+  CollaborationMessage,
+  CollaborationTransport,
+} from "./utils/collaboration/CollaborationTransport";
+export type { PositionOperation } from "./utils/collaboration/lastWriterWins";
 
 // =============================================================================
 // RULES ENGINE INTEGRATION
@@ -147,13 +197,63 @@ export type {
   CustomPlayersConfig,
   CustomRotationsConfig,
   ValidationConfig,
+  ValidationPolicy,
+  CustomRuleConfig,
   AnimationConfig,
   ControlsConfig,
   AppearanceConfig,
   AccessibilityConfig,
   PerformanceConfig,
   ExportConfig,
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  SequenceKeyframe,
+  PlaySequence,
+  SequencePlaybackState,
+  AnnotationPoint,
+  AnnotationType,
+  BallAnnotation,
+  ArrowAnnotation,
+  TextAnnotation,
+  ZoneAnnotation,
+  CourtAnnotation,
+  FormationAnnotations,
+  TeamSide,
+  OpponentMarker,
+  FullCourtConfig,
+  FullCourtState,
+  Substitution,
+  SubstitutionState,
+  SubstitutionIssue,
+  MatchState,
+  RallyLogEntry,
+  SystemDefinition,
+  SystemConstraints,
+  SystemOption,
+  FormationDefinition,
+  FormationOption,
+  PlayerGender,
+  Playbook,
+  PlaybookSummary,
+  StorageBackend,
+  CollaborationUser,
+  CollaboratorPresence,
+  CollaborationConfig,
+  GroupAlignment,
+  PlayerDetails,
+  CopyPositionResult,
+  CourtAnnouncement,
   LocalizationConfig,
+  Localization,
+  CustomRuleTarget,
+  CustomRuleCondition,
+  CustomRuleViolation,
+  CourtLine,
+  ReceivePattern,
+  DefaultLineupConfig,
+  TemplateSpot,
+  FormationTemplate,
 
   // Visual and layout types
   PlayerColorConfig,
@@ -164,11 +264,15 @@ export type {
 
   // Control component types
   ControlsLayerProps,
+  AnnotationLayerProps,
+  OpponentLayerProps,
   ResetType,
 
   // System and formation types
   SystemType,
+  BuiltInSystemType,
   FormationType,
+  BuiltInFormationType,
 } from "./types";
 
 /**
@@ -178,6 +282,7 @@ export type {
   RulesIntegrationConfig,
   ScreenValidationResult,
   PositionValidationContext,
+  GroupMoveResult,
 } from "./VolleyballCourtRulesIntegration";
 
 // =============================================================================
@@ -198,6 +303,7 @@ export const VolleyballCourtPresets = {
       showFormationSelector: false,
       showResetButton: false,
       showShareButton: false,
+      showExportButton: false,
       showAnimateButton: false,
     },
     validation: {
@@ -353,7 +459,14 @@ export function validateVolleyballCourtConfig(config: VolleyballCourtConfig) {
   const warnings: string[] = [];
 
   // Basic validation
-  if (config.initialSystem && !["5-1", "6-2"].includes(config.initialSystem)) {
+  const systemIds = [
+    "5-1",
+    "6-2",
+    ...(config.systems ?? []).map(
+      (definition: { id: string }) => definition.id
+    ),
+  ];
+  if (config.initialSystem && !systemIds.includes(config.initialSystem)) {
     errors.push(`Invalid system: ${config.initialSystem}`);
   }
 
@@ -364,9 +477,17 @@ export function validateVolleyballCourtConfig(config: VolleyballCourtConfig) {
     errors.push(`Invalid rotation: ${config.initialRotation}`);
   }
 
+  const formationIds = [
+    "rotational",
+    "serveReceive",
+    "base",
+    ...(config.formations ?? []).map(
+      (definition: { id: string }) => definition.id
+    ),
+  ];
   if (
     config.initialFormation &&
-    !["rotational", "serveReceive", "base"].includes(config.initialFormation)
+    !formationIds.includes(config.initialFormation)
   ) {
     errors.push(`Invalid formation: ${config.initialFormation}`);
   }
@@ -3,9 +3,27 @@
  */
 
 import React from "react";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "./volleyball-rules-engine/types/RuleSet";
+import type { RotationSlot } from "./volleyball-rules-engine/types/PlayerState";
+import type {
+  CourtAnnotation,
+  CustomPositionsState as SavedPositions,
+} from "./types/positioning";
+import type { CollaborationTransport } from "./utils/collaboration/CollaborationTransport";
+import type { PersistenceAdapter } from "./utils/storage/PersistenceAdapter";
+import type {
+  RemoteSyncConflict,
+  RemoteSyncState,
+} from "./utils/storage/RemoteSyncQueue";
+import type { EnhancedPositionManager } from "./hooks/useEnhancedPositionManager";
 // Import common types that should be defined within this package
-export type SystemType = "5-1" | "6-2";
-export type FormationType = "rotational" | "serveReceive" | "base";
+export type BuiltInSystemType = "5-1" | "6-2";
+export type SystemType = BuiltInSystemType | (string & {}); // Custom systems use their SystemDefinition ID
+export type BuiltInFormationType = "rotational" | "serveReceive" | "base";
+export type FormationType = BuiltInFormationType | (string & {}); // Custom formations use their FormationDefinition ID
 
 export interface PlayerPosition {
   x: number;
@@ -20,6 +38,18 @@ export const PLAYER_RADIUS = 20;
 // Re-export types for consistency
 export type { SystemType, FormationType, PlayerPosition };
 
+// Court annotations are stored next to positions, see types/positioning
+export type {
+  AnnotationPoint,
+  AnnotationType,
+  BallAnnotation,
+  ArrowAnnotation,
+  TextAnnotation,
+  ZoneAnnotation,
+  CourtAnnotation,
+  FormationAnnotations,
+} from "./types/positioning";
+
 // Core component props
 export interface VolleyballCourtProps {
   // Configuration
@@ -35,6 +65,8 @@ export interface VolleyballCourtProps {
   showControls?: boolean;
   enableSharing?: boolean;
   enablePersistence?: boolean;
+  collaboration?: CollaborationConfig;
+  remoteAdapter?: PersistenceAdapter; // Syncs saved formations to a backend after localStorage
 
   // Event callbacks
   onPositionChange?: (data: PositionData) => void;
@@ -43,6 +75,8 @@ export interface VolleyballCourtProps {
   onViolation?: (violations: ViolationData[]) => void;
   onShare?: (shareData: ShareData) => void;
   onError?: (error: ErrorData) => void;
+  onSyncStatusChange?: (state: RemoteSyncState) => void;
+  onSyncConflict?: (conflict: RemoteSyncConflict) => void;
 
   // Extended callbacks
   onPlayerDragStart?: (data: PlayerDragData) => void;
@@ -66,16 +100,31 @@ export interface VolleyballCourtConfig {
   initialFormation?: FormationType;
 
   // Player configuration
-  players?: {
-    "5-1": PlayerDefinition[];
-    "6-2": PlayerDefinition[];
-  };
+  players?: Record<SystemType, PlayerDefinition[]>;
 
   // Rotation configuration
-  rotations?: {
-    "5-1": RotationMapping[];
-    "6-2": RotationMapping[];
-  };
+  rotations?: Record<SystemType, RotationMapping[]>;
+
+  // Custom systems beyond 5-1 and 6-2 (merged into players and rotations)
+  systems?: SystemDefinition[];
+
+  // Custom formations beyond rotational, serve receive and base
+  formations?: FormationDefinition[];
+
+  // Libero configuration (per system)
+  libero?: Partial<Record<SystemType, LiberoConfig>>;
+
+  // Default positions generated from player roles
+  defaultLineup?: DefaultLineupConfig;
+
+  // Formation templates listed after the built-in ones
+  templates?: FormationTemplate[];
+
+  // Bench players available for substitution (per system)
+  bench?: Partial<Record<SystemType, PlayerDefinition[]>>;
+
+  // Full-court (opponent side and serving team) configuration
+  fullCourt?: FullCourtConfig;
 
   // UI configuration
   controls?: ControlsConfig;
@@ -113,6 +162,7 @@ export interface PlayerDefinition {
   id: string;
   name: string;
   role: PlayerRole;
+  gender?: PlayerGender;
   color?: string;
   number?: number;
   avatar?: string; // URL to player image
@@ -122,7 +172,165 @@ export interface PlayerDefinition {
   size?: number; // Custom size multiplier
 }
 
-export type PlayerRole = "S" | "OPP" | "OH" | "MB";
+export type PlayerRole = "S" | "OPP" | "OH" | "MB" | "L";
+
+// Player gender, used by coed constraints
+export type PlayerGender = "M" | "F";
+
+// Player details edited on the court, layered over the configured players
+export type PlayerDetails = Partial<
+  Pick<PlayerDefinition, "name" | "number" | "color" | "locked">
+>;
+
+// User-defined system, e.g. 4-2, 6-0, 6-6 or a coed line-up
+export interface SystemDefinition {
+  id: string; // Used as the SystemType; must not be "5-1" or "6-2"
+  name: string; // Shown in the system selector
+  players: PlayerDefinition[];
+  rotations: RotationMapping[]; // Six rotation mappings, like the built-ins
+  defaultPositions?: Record<
+    number,
+    Partial<Record<FormationType, Record<string, PlayerPosition>>>
+  >; // Per rotation index and formation, keyed by player ID; others use the zone defaults
+  constraints?: SystemConstraints;
+}
+
+export interface SystemConstraints {
+  genderAlternation?: boolean; // Serving order must alternate genders (coed)
+}
+
+// Entry in the system selector
+export interface SystemOption {
+  id: SystemType;
+  name: string;
+}
+
+// User-defined formation phase, e.g. serve, defense, free ball or transition
+export interface FormationDefinition {
+  id: string; // Used as the FormationType; must not be a built-in formation
+  name: string; // Shown in the formation selector
+  overlapRules?: boolean; // Overlap rules apply, as at the serve; off by default
+  order?: number; // Rotational, serve receive and base are 0, 1 and 2; after them by default
+  basedOn?: BuiltInFormationType; // Formation the default positions start from; base by default
+  defaultPositions?: Record<number, Record<string, PlayerPosition>>; // Per rotation index, keyed by player ID
+}
+
+// Entry in the formation selector
+export interface FormationOption {
+  id: FormationType;
+  name: string;
+}
+
+// Libero definition
+export interface LiberoConfig {
+  enabled?: boolean;
+  playerId: string; // Player with role "L" who comes on as the libero
+  replaces: string[]; // Player IDs the libero replaces while in the back row
+  allowServe?: boolean; // Whether the libero may serve (rule-set dependent)
+}
+
+// Result of applying the libero to a rotation
+export interface LiberoSwap {
+  liberoId: string;
+  replacedPlayerId: string;
+  slot: number;
+}
+
+// Substitution made during a set
+export interface Substitution {
+  id: string;
+  playerInId: string; // Player coming on
+  playerOutId: string; // Player leaving the court
+  rotation: number; // Rotation index when the substitution was made
+  timestamp: number;
+}
+
+// Substitutions made in the current set
+export interface SubstitutionState {
+  set: number; // 1-based set number
+  substitutions: Substitution[];
+}
+
+// Reason a substitution is not allowed
+export interface SubstitutionIssue {
+  code: string;
+  message: string;
+  affectedPlayers: string[];
+}
+
+// Side of the net ("home" is the team being positioned)
+export type TeamSide = "home" | "opponent";
+
+// Opponent marker shown in full-court mode
+export interface OpponentMarker {
+  id: string;
+  label: string;
+}
+
+// Passers in serve receive
+export type ReceivePattern = "3-person" | "4-person" | "5-person";
+
+// Default lineup definition
+export interface DefaultLineupConfig {
+  roleAware?: boolean; // Place players by role for each rotation instead of by zone
+  receivePattern?: ReceivePattern; // Defaults to "3-person"
+}
+
+// Spot in a formation template, in meters from the left sideline and the net
+export interface TemplateSpot {
+  x: number;
+  y: number;
+}
+
+// Named serve receive or defensive pattern, placed by role rather than by
+// pixels so it applies to any rotation. Players without a spot keep their
+// positions.
+export interface FormationTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  formation: FormationType; // Formation the template is applied in
+  setter?: TemplateSpot; // The player setting this rotation
+  passers?: TemplateSpot[]; // Serve receive passers, from left to right
+  front?: TemplateSpot[]; // Other front row players by zone: left, middle, right
+  back?: TemplateSpot[]; // Other back row players by zone: left, middle, right
+}
+
+// Full-court definition
+export interface FullCourtConfig {
+  enabled?: boolean; // Start with both halves shown
+  initialServingTeam?: TeamSide;
+  initialOpponentRotation?: number;
+  opponentMarkers?: OpponentMarker[]; // Six markers in rotation order, defaults to O1-O6
+}
+
+// Full-court state
+export interface FullCourtState {
+  enabled: boolean;
+  servingTeam: TeamSide;
+  opponentRotation: number;
+  opponentPositions: Record<number, Record<string, PlayerPosition>>; // Placed markers per opponent rotation, from their side
+}
+
+// Rally recorded in match mode
+export interface RallyLogEntry {
+  id: string;
+  rally: number; // 1-based rally number
+  servingTeam: TeamSide; // Team that served the rally
+  winner: TeamSide;
+  sideOut: boolean; // The receiving team won serve back
+  score: Record<TeamSide, number>; // Score after the rally
+  rotation: number; // Our rotation index after the rally
+  opponentRotation: number; // Opponent rotation index after the rally
+  timestamp: number;
+}
+
+// Match mode: score and rally log; the serving team is FullCourtState.servingTeam
+export interface MatchState {
+  enabled: boolean;
+  score: Record<TeamSide, number>;
+  rallies: RallyLogEntry[];
+}
 
 // Rotation mapping
 export interface RotationMapping {
@@ -142,7 +350,12 @@ export interface PositionData {
     | "formation-change"
     | "rotation-change"
     | "reset"
-    | "manual";
+    | "manual"
+    | "remote" // Moved by a collaborator
+    | "align" // Selected players aligned or distributed
+    | "swap" // Two players traded places
+    | "autoFix" // Moved to the nearest legal lineup
+    | "template"; // Placed by a formation template
   metadata?: {
     previousPositions?: Record<string, PlayerPosition>;
     draggedPlayerId?: string;
@@ -235,6 +448,8 @@ export interface RotationChangeData {
   metadata?: {
     triggeredBy?: string; // Component or user action that triggered the change
     animationDuration?: number;
+    liberoSwap?: LiberoSwap | null; // Libero replacement after the change
+    substitution?: Substitution; // Substitution that changed the lineup
   };
 }
 
@@ -318,7 +533,15 @@ export interface ControlsConfig {
   showFormationSelector?: boolean;
   showResetButton?: boolean;
   showShareButton?: boolean;
+  showExportButton?: boolean;
   showAnimateButton?: boolean;
+  showSequenceEditor?: boolean;
+  showAnnotationTools?: boolean;
+  showFullCourtControls?: boolean;
+  showSubstitutionManager?: boolean;
+  showMatchControls?: boolean;
+  showPlaybookSwitcher?: boolean;
+  showHistoryPanel?: boolean;
   showUndoRedoButtons?: boolean;
   showPositionLockButtons?: boolean;
   showValidationToggle?: boolean;
@@ -348,7 +571,17 @@ export interface ValidationConfig {
   violationDisplayDuration?: number;
   enableEducationalMessages?: boolean;
   strictMode?: boolean; // Enforce all rules strictly
+  ruleSet?: RuleSetName | RuleSet; // Rulebook profile (FIVB, NCAA, NFHS, USAV_YOUTH or custom)
   customRules?: CustomRuleConfig[];
+  policies?: Partial<Record<FormationType, Partial<ValidationPolicy>>>; // Checks per formation, over the defaults
+}
+
+// Checks that apply in a formation
+export interface ValidationPolicy {
+  overlap: boolean; // Overlap rules, which only apply at serve contact
+  courtBoundaries: boolean; // Players other than the server stay on the court
+  collisions: boolean; // Players don't stand on top of each other
+  switchLegality: boolean; // The back row setter stays off the net after the switch
 }
 
 export interface CustomRuleConfig {
@@ -357,11 +590,51 @@ export interface CustomRuleConfig {
   description: string;
   enabled: boolean;
   severity: "error" | "warning" | "info";
-  validator: (
+  validator?: (
     positions: Record<string, PlayerPosition>,
     context: ValidationContext
-  ) => boolean;
+  ) => boolean; // Not kept in shared links; use condition for that
+  condition?: CustomRuleCondition; // Rule as data, kept in shared links
+  formations?: FormationType[]; // Formations the rule applies to; all by default
+  constrainDrag?: boolean; // Keep dragged players inside the condition's area
+  message: string;
+}
+
+// Players a data rule applies to: by ID, role or rotation slot
+export interface CustomRuleTarget {
+  playerId?: string;
+  role?: PlayerRole;
+  slot?: RotationSlot;
+}
+
+export type CourtLine = "leftSideline" | "rightSideline" | "net" | "endline";
+
+// Where the target players must stand, in meters from the left sideline (x)
+// and the net (y)
+export type CustomRuleCondition =
+  | {
+      type: "distanceFromLine";
+      target: CustomRuleTarget;
+      line: CourtLine;
+      min?: number;
+      max?: number;
+    }
+  | {
+      type: "area";
+      target: CustomRuleTarget;
+      minX?: number;
+      maxX?: number;
+      minY?: number;
+      maxY?: number;
+    };
+
+// A custom rule the lineup breaks
+export interface CustomRuleViolation {
+  ruleId: string;
+  ruleName: string;
   message: string;
+  severity: "error" | "warning" | "info";
+  affectedPlayers: string[]; // Empty for validator rules
 }
 
 export interface ValidationContext {
@@ -369,6 +642,8 @@ export interface ValidationContext {
   rotation: number;
   formation: FormationType;
   courtDimensions: CourtDimensions;
+  rotationMap?: Record<number, string>; // Player ID by rotation slot
+  players?: PlayerDefinition[]; // Roster, for role targets
 }
 
 export interface AppearanceConfig {
@@ -400,6 +675,7 @@ export interface PlayerColorConfig {
   OPP?: string; // Opposite
   OH?: string; // Outside Hitter
   MB?: string; // Middle Blocker
+  L?: string; // Libero jersey
   // System-based colors
   frontRow?: string;
   backRow?: string;
@@ -454,7 +730,7 @@ export interface AccessibilityConfig {
   enableKeyboardNavigation?: boolean;
   enableHighContrast?: boolean;
   announceViolations?: boolean;
-  customAriaLabels?: Record<string, string>;
+  customAriaLabels?: Record<string, string>; // By player ID, or "court" for the court
   focusIndicatorStyle?: "outline" | "highlight" | "glow";
 }
 
@@ -464,25 +740,135 @@ export interface PerformanceConfig {
   throttleDragUpdates?: number;
   enableLazyLoading?: boolean;
   maxHistorySize?: number;
+  persistHistory?: boolean; // Keep the undo history across reloads
   enableCaching?: boolean;
 }
 
 export interface LocalizationConfig {
-  language?: string;
-  translations?: Record<string, Record<string, string>>;
+  language?: string; // e.g. "es" or "pt-BR"; bundled: en, es, fr, pt
+  translations?: Record<string, Record<string, string>>; // Message overrides by language, then key
   dateFormat?: string;
-  numberFormat?: string;
-  rtlSupport?: boolean;
+  numberFormat?: string; // Locale for numbers such as meters; defaults to the language
+  rtlSupport?: boolean; // Mirror the layout for right-to-left languages
+}
+
+// Messages and number formatting for the configured language
+export interface Localization {
+  locale: string;
+  direction: "ltr" | "rtl";
+  t: (key: string, params?: Record<string, string | number>) => string;
+  formatNumber: (value: number, fractionDigits?: number) => string;
 }
 
+export type ExportFormat = "png" | "svg" | "pdf" | "json" | "csv";
+
 export interface ExportConfig {
   enableImageExport?: boolean;
   enableDataExport?: boolean;
-  exportFormats?: ("png" | "svg" | "pdf" | "json" | "csv")[];
+  exportFormats?: ExportFormat[];
   defaultImageSize?: { width: number; height: number };
   includeMetadata?: boolean;
 }
 
+// Options for a programmatic export of the court
+export interface ExportOptions {
+  rotations?: "current" | "all" | number[]; // Defaults to "all" for PDF, "current" otherwise
+  size?: { width: number; height: number }; // Defaults to export.defaultImageSize
+  filename?: string; // File name without extension
+  download?: boolean; // Trigger a browser download (default true)
+}
+
+// Result of an export
+export interface ExportResult {
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+// Play sequence keyframe: a full formation reached after `duration` ms
+export interface SequenceKeyframe {
+  id: string;
+  label: string; // e.g. "serve", "pass", "set", "attack", "transition"
+  positions: Record<string, PlayerPosition>;
+  duration: number; // Milliseconds to move from the previous keyframe
+}
+
+// Ordered keyframes describing a whole play
+export interface PlaySequence {
+  id: string;
+  name: string;
+  system: SystemType;
+  rotation: number;
+  keyframes: SequenceKeyframe[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Playback state of the active sequence
+export interface SequencePlaybackState {
+  isPlaying: boolean;
+  time: number | null; // Playhead in ms, null when not previewing
+}
+
+// Named set of saved positions, e.g. "Varsity 2026"
+export interface Playbook {
+  id: string;
+  name: string;
+  positions: Record<SystemType, SavedPositions>;
+  templates?: FormationTemplate[]; // User templates saved with the playbook
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Playbook without its positions and templates, for the playbook switcher
+export type PlaybookSummary = Omit<Playbook, "positions" | "templates">;
+
+// Where playbooks are stored
+export type StorageBackend = "localStorage" | "indexedDB";
+
+// Court state recorded in the undo history
+export interface CourtHistoryState {
+  system: SystemType;
+  rotation: number;
+  formation: FormationType;
+  positions: Record<string, PlayerPosition>;
+}
+
+// Message for the screen reader live region; the ID changes with every
+// announcement, so a repeated message is read again
+export interface CourtAnnouncement {
+  id: number;
+  message: string;
+}
+
+// Coach taking part in a collaborative editing session
+export interface CollaborationUser {
+  id: string; // Unique per browser tab
+  name: string;
+  color?: string; // Cursor color, derived from the ID when missing
+}
+
+// Where a collaborator is on the court and what they are dragging
+export interface CollaboratorPresence {
+  id: string;
+  name: string;
+  color: string;
+  system: SystemType;
+  rotation: number;
+  formation: FormationType;
+  cursor: { x: number; y: number } | null; // Court coordinates, null off court
+  draggedPlayerId: string | null;
+  lastSeen: number;
+}
+
+// Real-time collaboration between coaches editing the same formations
+export interface CollaborationConfig {
+  transport: CollaborationTransport; // e.g. a WebSocketTransport
+  user: CollaborationUser;
+  cursorThrottle?: number; // Min ms between cursor updates (default 50)
+}
+
 // Court dimensions
 export interface CourtDimensions {
   width: number;
@@ -542,6 +928,33 @@ export interface CourtVisualizationProps {
   courtColor?: string;
   showGrid?: boolean;
   showZones?: boolean;
+  side?: TeamSide; // "opponent" draws the far half, mirrored across the net
+  className?: string;
+}
+
+export interface RotationSheetProps {
+  system: SystemType;
+  players: PlayerDefinition[];
+  rotations: RotationMapping[]; // Usually config.rotations[system]
+  positionManager: {
+    // Matches usePositionManager().getFormationPositions
+    getFormationPositions: (
+      system: SystemType,
+      rotation: number,
+      formation: FormationType
+    ) => Record<string, PlayerPosition>;
+  };
+  libero?: LiberoConfig;
+  ruleSet?: RuleSetName | RuleSet;
+  formations?: FormationType[]; // Columns, defaults to all three formations
+  formationDefinitions?: FormationDefinition[]; // Names, defaults and overlap rules of custom formation columns
+  validationPolicies?: Partial<Record<FormationType, Partial<ValidationPolicy>>>; // Formations other than rotational are checked for overlap as their policy has it
+  cellDimensions?: CourtDimensions; // Size of each court, defaults to 300x180
+  theme?: "light" | "dark";
+  courtColor?: string;
+  title?: string;
+  showViolations?: boolean;
+  showPrintButton?: boolean;
   className?: string;
 }
 
@@ -556,6 +969,20 @@ export interface PlayerLayerProps {
   courtDimensions: CourtDimensions;
   system?: SystemType;
   rotation?: number;
+  ruleSet?: RuleSetName | RuleSet;
+  serverSlot?: RotationSlot | null; // null when the opponent is serving
+  overlapRules?: boolean; // Overlap rules constrain drags in this formation
+  positionManager?: EnhancedPositionManager; // Shared manager, e.g. one that broadcasts moves
+  collaborators?: CollaboratorPresence[]; // Remote coaches on this formation
+  multiSelectEnabled?: boolean; // Shift-click and marquee selection
+  selectedPlayers?: string[];
+  onSelectionChange?: (playerIds: string[]) => void;
+  onGroupPositionChange?: (positions: Record<string, PlayerPosition>) => void; // Selected players moved together
+  onPlayerContextMenu?: (playerId: string, point: { x: number; y: number }) => void; // Right-click or long-press, in viewport coordinates
+  onPlayerDoubleClick?: (playerId: string, point: { x: number; y: number }) => void;
+  keyboardNavigation?: boolean; // Tab between players, arrow keys to nudge
+  customAriaLabels?: Record<string, string>; // By player ID
+  onPlayerKeyboardMove?: (playerId: string, position: { x: number; y: number }, moved: boolean) => void;
   onDragStart: (playerId: string) => void;
   onDragEnd: (playerId: string, success: boolean) => void;
   onPositionChange: (playerId: string, position: PlayerPosition) => void;
@@ -570,18 +997,60 @@ export interface ControlsLayerProps {
   isAnimating: boolean;
   isReadOnly: boolean;
   controlsConfig: ControlsConfig;
+  liberoSwap?: LiberoSwap | null;
+  systemOptions?: SystemOption[]; // Built-in and custom systems
+  formationOptions?: FormationOption[]; // Built-in and custom formations, in order
   onSystemChange: (system: SystemType) => void;
   onRotationChange: (rotation: number) => void;
   onFormationChange: (formation: FormationType) => void;
   onReset: (type: ResetType) => void;
   onShare: () => void;
   onAnimate: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  templates?: FormationTemplate[]; // Templates for the current formation
+  onApplyTemplate?: (templateId: string) => void;
+  onSaveTemplate?: () => void; // Saves the current positions as a template
 }
 
 export type ResetType = "current" | "all" | "formation" | "system";
 
+// Align actions for selected players: one row at their average depth, or
+// spread evenly across the court width
+export type GroupAlignment = "row" | "distribute";
+
+// Rotations, by index, a player's position was copied to; skipped rotations
+// don't have the player on court or would break the overlap rules
+export interface CopyPositionResult {
+  copied: number[];
+  skipped: number[];
+}
+
 export interface ValidationLayerProps {
   violations: ViolationData[];
   showDetails: boolean;
   onDismiss?: () => void;
+  onAutoFix?: () => void; // Shown for violations with autoFixAvailable
+  onUndoAutoFix?: () => void; // Set while the last fix can be undone
+}
+
+export interface AnnotationLayerProps {
+  annotations: CourtAnnotation[];
+  positions: Record<string, PlayerPosition>; // Arrow start points
+  readOnly: boolean;
+  courtDimensions?: CourtDimensions; // viewBox, matching the player layer
+  onAnnotationChange?: (annotation: CourtAnnotation) => void;
+  onAnnotationRemove?: (annotationId: string) => void;
+  className?: string;
+}
+
+export interface OpponentLayerProps {
+  markers: OpponentMarker[];
+  positions: Record<string, PlayerPosition>; // From the opponent's side of the net
+  serverId?: string | null; // Opponent marker serving, if any
+  readOnly: boolean;
+  onMarkerMove?: (markerId: string, position: PlayerPosition) => void;
+  className?: string;
 }
@@ -2,6 +2,8 @@
  * Core data structures for customizable player positioning
  */
 
+import type { CustomRuleConfig } from "../types";
+
 export interface PlayerPosition {
   x: number;
   y: number;
@@ -13,26 +15,84 @@ export interface FormationPositions {
   rotational: Record<string, PlayerPosition>;
   serveReceive: Record<string, PlayerPosition>;
   base: Record<string, PlayerPosition>;
+  annotations?: FormationAnnotations;
+  // Custom formations, by FormationDefinition ID
+  [formation: string]:
+    | Record<string, PlayerPosition>
+    | FormationAnnotations
+    | undefined;
+}
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface BallAnnotation {
+  id: string;
+  type: "ball";
+  x: number;
+  y: number;
+}
+
+export interface ArrowAnnotation {
+  id: string;
+  type: "arrow";
+  fromPlayerId: string;
+  to: AnnotationPoint;
+  curved?: boolean;
+  curvature?: number; // Bend as a fraction of the arrow length
+  color?: string;
 }
 
+export interface TextAnnotation {
+  id: string;
+  type: "text";
+  x: number;
+  y: number;
+  text: string;
+  color?: string;
+}
+
+export interface ZoneAnnotation {
+  id: string;
+  type: "zone";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  opacity?: number;
+}
+
+export type CourtAnnotation =
+  | BallAnnotation
+  | ArrowAnnotation
+  | TextAnnotation
+  | ZoneAnnotation;
+
+export type AnnotationType = CourtAnnotation["type"];
+
+export type FormationAnnotations = Partial<
+  Record<FormationType, CourtAnnotation[]>
+>;
+
 export interface CustomPositionsState {
   [rotationIndex: number]: FormationPositions;
 }
 
 export interface URLPositionData {
-  system: "5-1" | "6-2";
+  system: SystemType;
   rotation: number;
   positions: CustomPositionsState;
   version: string;
+  customRules?: CustomRuleConfig[]; // Data rules only
 }
 
 export interface StoredPositions {
   version: string;
   lastModified: Date;
-  positions: {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  };
+  positions: Record<SystemType, CustomPositionsState>;
 }
 
 export interface URLParams {
@@ -42,8 +102,10 @@ export interface URLParams {
   r: string; // rotation
 }
 
-export type FormationType = "rotational" | "serveReceive" | "base";
-export type SystemType = "5-1" | "6-2";
+export type BuiltInFormationType = "rotational" | "serveReceive" | "base";
+export type FormationType = BuiltInFormationType | (string & {}); // Custom formations use their FormationDefinition ID
+export type BuiltInSystemType = "5-1" | "6-2";
+export type SystemType = BuiltInSystemType | (string & {}); // Custom systems use their SystemDefinition ID
 
 // Court dimensions (matching current implementation)
 export const COURT_DIMENSIONS = {
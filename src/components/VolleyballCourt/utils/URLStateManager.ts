@@ -1,5 +1,12 @@
 /**
  * URLStateManager - Handles URL encoding/decoding of position data for sharing
+ *
+ * Version 2 links carry a compact binary payload: player IDs become indices
+ * into a table, formation keys a bitmask, coordinates tenths of a unit and
+ * dates whole seconds after the earliest one, all LZSS-compressed. Custom
+ * formations follow the built-in ones by ID, and custom rules declared as
+ * data follow the rotations as JSON. Version 1 links (base64
+ * JSON) can still be decoded.
  */
 
 import {
@@ -8,10 +15,33 @@ import {
   SystemType,
   PlayerPosition,
   FormationPositions,
-} from "../types";
+} from "../types/positioning";
+import type { CustomRuleConfig } from "../types";
+import { isValidCourtAnnotation } from "./courtAnnotations";
+import { parseCustomRules, serializeCustomRules } from "./customRules";
+import {
+  ByteReader,
+  ByteWriter,
+  base64URLToBytes,
+  bytesToBase64URL,
+  compressBytes,
+  decompressBytes,
+} from "./compactEncoding";
 
 // Current version for backward compatibility
-const CURRENT_VERSION = "1.0.0";
+const CURRENT_VERSION = "2.0.0";
+
+// Base64 JSON links from before the compact format
+const LEGACY_VERSION = "1.0.0";
+
+// Formation keys in the order of the per-rotation presence bits
+const FORMATION_KEYS = ["rotational", "serveReceive", "base"] as const;
+const ANNOTATIONS_BIT = 1 << FORMATION_KEYS.length;
+// Custom formations follow the annotations, each with its ID
+const CUSTOM_FORMATIONS_BIT = ANNOTATIONS_BIT << 1;
+
+// Coordinates are stored in tenths of a court unit
+const COORDINATE_SCALE = 10;
 
 // Maximum URL length to stay within browser limits
 const MAX_URL_LENGTH = 2000;
@@ -24,7 +54,8 @@ export class URLStateManager {
     baseURL: string,
     system: SystemType,
     rotation: number,
-    positions: CustomPositionsState
+    positions: CustomPositionsState,
+    customRules?: CustomRuleConfig[]
   ): string {
     try {
       // Validate input parameters
@@ -38,16 +69,13 @@ export class URLStateManager {
         throw new Error("Invalid input parameters");
       }
 
-      const urlData: URLPositionData = {
+      const compressed = this.compressData({
         system,
         rotation,
         positions,
         version: CURRENT_VERSION,
-      };
-
-      // Convert to JSON and compress
-      const jsonString = JSON.stringify(urlData, this.dateReplacer);
-      const compressed = this.compressData(jsonString);
+        customRules,
+      });
 
       // Create URL parameters
       const params = new URLSearchParams({
@@ -61,7 +89,13 @@ export class URLStateManager {
 
       // Check URL length and use fallback if too long
       if (fullURL.length > MAX_URL_LENGTH) {
-        return this.createFallbackURL(baseURL, system, rotation, positions);
+        return this.createFallbackURL(
+          baseURL,
+          system,
+          rotation,
+          positions,
+          customRules
+        );
       }
 
       return fullURL;
@@ -88,9 +122,13 @@ export class URLStateManager {
         return null;
       }
 
-      // Decompress and parse data
-      const jsonString = this.decompressData(compressed);
-      const data = JSON.parse(jsonString, this.dateReviver) as URLPositionData;
+      // Decompress and parse data; version 1 links hold base64 JSON
+      const data = version.startsWith("1.")
+        ? (JSON.parse(
+            this.decompressLegacyData(compressed),
+            this.dateReviver
+          ) as URLPositionData)
+        : this.decompressData(compressed, version);
 
       // Validate version compatibility
       if (!this.isVersionCompatible(data.version)) {
@@ -155,27 +193,246 @@ export class URLStateManager {
   }
 
   /**
-   * Compress data using base64 encoding with JSON minification
+   * Pack position data into the compact binary format and compress it
    */
-  private static compressData(data: string): string {
+  private static compressData(data: URLPositionData): string {
     try {
-      // First, minify the JSON by removing unnecessary whitespace
-      const minified = JSON.stringify(JSON.parse(data));
+      const writer = new ByteWriter();
+      writer.writeString(data.system);
+      writer.writeVarUint(data.rotation);
+
+      const rotations = Object.entries(data.positions);
+
+      // Player IDs are written once and referenced by index
+      const playerIds: string[] = [];
+      const playerIndexes = new Map<string, number>();
+      // Dates are stored as seconds after the earliest one
+      let baseTime = Infinity;
+      for (const [, rotationData] of rotations) {
+        for (const formation of [
+          ...FORMATION_KEYS,
+          ...this.getCustomFormations(rotationData),
+        ]) {
+          for (const [playerId, position] of Object.entries<PlayerPosition>(
+            rotationData?.[formation] ?? {}
+          )) {
+            if (!playerIndexes.has(playerId)) {
+              playerIndexes.set(playerId, playerIds.length);
+              playerIds.push(playerId);
+            }
+            const time = this.getTime(position.lastModified);
+            if (time !== null) baseTime = Math.min(baseTime, time);
+          }
+        }
+      }
+      if (baseTime === Infinity) baseTime = 0;
+
+      writer.writeVarUint(playerIds.length);
+      playerIds.forEach((playerId) => writer.writeString(playerId));
+      writer.writeVarUint(baseTime);
+
+      writer.writeVarUint(rotations.length);
+      for (const [rotationKey, rotationData] of rotations) {
+        let mask = 0;
+        FORMATION_KEYS.forEach((formation, bit) => {
+          if (rotationData?.[formation]) mask |= 1 << bit;
+        });
+        if (rotationData?.annotations) mask |= ANNOTATIONS_BIT;
+        const customFormations = this.getCustomFormations(rotationData);
+        if (customFormations.length > 0) mask |= CUSTOM_FORMATIONS_BIT;
+
+        writer.writeVarUint(Number(rotationKey));
+        writer.writeByte(mask);
+
+        for (const formation of FORMATION_KEYS) {
+          const formationData = rotationData?.[formation];
+          if (!formationData) continue;
+
+          this.writeFormation(writer, formationData, playerIndexes, baseTime);
+        }
 
-      // Convert to base64
-      const base64 = btoa(minified);
+        if (rotationData?.annotations) {
+          writer.writeString(JSON.stringify(rotationData.annotations));
+        }
 
-      // Make URL-safe
-      return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+        if (customFormations.length > 0) {
+          writer.writeVarUint(customFormations.length);
+          for (const formation of customFormations) {
+            writer.writeString(formation);
+            this.writeFormation(
+              writer,
+              rotationData[formation] as Record<string, PlayerPosition>,
+              playerIndexes,
+              baseTime
+            );
+          }
+        }
+      }
+
+      // Optional trailing section, so links without rules decode as before
+      const sharedRules = serializeCustomRules(data.customRules ?? []);
+      if (sharedRules.length > 0) {
+        writer.writeString(JSON.stringify(sharedRules));
+      }
+
+      return bytesToBase64URL(compressBytes(writer.toBytes()));
     } catch {
       throw new Error("Failed to compress data");
     }
   }
 
   /**
-   * Decompress base64 encoded data
+   * Unpack data written by compressData
+   */
+  private static decompressData(
+    compressed: string,
+    version: string
+  ): URLPositionData {
+    try {
+      const reader = new ByteReader(
+        decompressBytes(base64URLToBytes(compressed))
+      );
+      const system = reader.readString();
+      const rotation = reader.readVarUint();
+
+      const playerIds = Array.from({ length: reader.readVarUint() }, () =>
+        reader.readString()
+      );
+      const baseTime = reader.readVarUint();
+
+      const positions: CustomPositionsState = {};
+      const rotationCount = reader.readVarUint();
+      for (let r = 0; r < rotationCount; r++) {
+        const rotationKey = reader.readVarUint();
+        const mask = reader.readByte();
+        const rotationData: Partial<FormationPositions> = {};
+
+        FORMATION_KEYS.forEach((formation, bit) => {
+          if (!(mask & (1 << bit))) return;
+          rotationData[formation] = this.readFormation(
+            reader,
+            playerIds,
+            baseTime
+          );
+        });
+
+        if (mask & ANNOTATIONS_BIT) {
+          rotationData.annotations = JSON.parse(reader.readString());
+        }
+
+        if (mask & CUSTOM_FORMATIONS_BIT) {
+          const customCount = reader.readVarUint();
+          for (let f = 0; f < customCount; f++) {
+            const formation = reader.readString();
+            rotationData[formation] = this.readFormation(
+              reader,
+              playerIds,
+              baseTime
+            );
+          }
+        }
+
+        positions[rotationKey] = rotationData as FormationPositions;
+      }
+
+      const customRules = reader.isAtEnd
+        ? undefined
+        : parseCustomRules(JSON.parse(reader.readString()));
+
+      return { system, rotation, positions, version, customRules };
+    } catch {
+      throw new Error("Failed to decompress data");
+    }
+  }
+
+  /**
+   * Custom formations stored in a rotation: every key other than the
+   * built-in formations and the annotations
+   */
+  private static getCustomFormations(
+    rotationData: FormationPositions | undefined
+  ): string[] {
+    return Object.keys(rotationData ?? {}).filter(
+      (key) =>
+        !(FORMATION_KEYS as readonly string[]).includes(key) &&
+        key !== "annotations" &&
+        rotationData?.[key]
+    );
+  }
+
+  /**
+   * Write the positions of one formation
+   */
+  private static writeFormation(
+    writer: ByteWriter,
+    formationData: Record<string, PlayerPosition>,
+    playerIndexes: Map<string, number>,
+    baseTime: number
+  ): void {
+    const entries = Object.entries<PlayerPosition>(formationData);
+    writer.writeVarUint(entries.length);
+    for (const [playerId, position] of entries) {
+      const time = this.getTime(position.lastModified);
+      // Low bits: isCustom, then whether a date follows
+      writer.writeVarUint(
+        (playerIndexes.get(playerId)! << 2) |
+          (time !== null ? 2 : 0) |
+          (position.isCustom ? 1 : 0)
+      );
+      writer.writeVarInt(position.x * COORDINATE_SCALE);
+      writer.writeVarInt(position.y * COORDINATE_SCALE);
+      if (time !== null) {
+        writer.writeVarUint((time - baseTime) / 1000);
+      }
+    }
+  }
+
+  /**
+   * Read the positions of one formation written by writeFormation
    */
-  private static decompressData(compressed: string): string {
+  private static readFormation(
+    reader: ByteReader,
+    playerIds: string[],
+    baseTime: number
+  ): Record<string, PlayerPosition> {
+    const formationData: Record<string, PlayerPosition> = {};
+    const count = reader.readVarUint();
+    for (let p = 0; p < count; p++) {
+      const header = reader.readVarUint();
+      const playerId = playerIds[Math.floor(header / 4)];
+      if (playerId === undefined) {
+        throw new Error("Unknown player index");
+      }
+      const x = reader.readVarInt() / COORDINATE_SCALE;
+      const y = reader.readVarInt() / COORDINATE_SCALE;
+      const lastModified =
+        header & 2
+          ? new Date(baseTime + reader.readVarUint() * 1000)
+          : new Date(0);
+
+      formationData[playerId] = {
+        x,
+        y,
+        isCustom: Boolean(header & 1),
+        lastModified,
+      };
+    }
+    return formationData;
+  }
+
+  /**
+   * Milliseconds for a date or date string, null when missing or invalid
+   */
+  private static getTime(value: Date | string | undefined): number | null {
+    if (value === undefined) return null;
+    const time = new Date(value).getTime();
+    return isNaN(time) ? null : time;
+  }
+
+  /**
+   * Decompress base64 encoded JSON from version 1 links
+   */
+  private static decompressLegacyData(compressed: string): string {
     try {
       // Restore base64 padding and characters
       let base64 = compressed.replace(/-/g, "+").replace(/_/g, "/");
@@ -199,7 +456,8 @@ export class URLStateManager {
     baseURL: string,
     system: SystemType,
     rotation: number,
-    positions: CustomPositionsState
+    positions: CustomPositionsState,
+    customRules?: CustomRuleConfig[]
   ): string {
     // Try to compress more aggressively by removing empty formations
     const compactPositions: CustomPositionsState = {};
@@ -222,15 +480,13 @@ export class URLStateManager {
       }
     }
 
-    const essentialData = {
+    const compressed = this.compressData({
       system,
       rotation,
       positions: compactPositions,
       version: CURRENT_VERSION,
-    };
-
-    const jsonString = JSON.stringify(essentialData, this.dateReplacer);
-    const compressed = this.compressData(jsonString);
+      customRules,
+    });
 
     const params = new URLSearchParams({
       d: compressed,
@@ -244,18 +500,15 @@ export class URLStateManager {
 
     // If still too long, just include current rotation
     if (fallbackURL.length > MAX_URL_LENGTH) {
-      const currentRotationData = {
+      const currentCompressed = this.compressData({
         system,
         rotation,
-        positions: { [rotation]: positions[rotation] || {} },
+        positions: {
+          [rotation]: positions[rotation] || ({} as FormationPositions),
+        },
         version: CURRENT_VERSION,
-      };
-
-      const currentJsonString = JSON.stringify(
-        currentRotationData,
-        this.dateReplacer
-      );
-      const currentCompressed = this.compressData(currentJsonString);
+        customRules,
+      });
 
       const currentParams = new URLSearchParams({
         d: currentCompressed,
@@ -275,6 +528,8 @@ export class URLStateManager {
    * Check version compatibility
    */
   private static isVersionCompatible(version: string): boolean {
+    if (version === LEGACY_VERSION) return true;
+
     const [major, minor] = version.split(".").map(Number);
     const [currentMajor, currentMinor] = CURRENT_VERSION.split(".").map(Number);
 
@@ -290,8 +545,8 @@ export class URLStateManager {
     if (!data || typeof data !== "object") return false;
 
     const dataObj = data as Record<string, unknown>;
-    if (!dataObj.system || !["5-1", "6-2"].includes(dataObj.system as string))
-      return false;
+    // Custom systems are checked against the config when the data is used
+    if (!dataObj.system || typeof dataObj.system !== "string") return false;
     if (
       typeof dataObj.rotation !== "number" ||
       dataObj.rotation < 0 ||
@@ -310,7 +565,10 @@ export class URLStateManager {
 
       if (!rotationData || typeof rotationData !== "object") return false;
 
-      const formations = ["rotational", "serveReceive", "base"];
+      // Custom formations are validated like the built-in ones
+      const formations = Object.keys(rotationData).filter(
+        (key) => key !== "annotations"
+      );
       for (const formation of formations) {
         const formationData = (rotationData as Record<string, unknown>)[
           formation
@@ -328,6 +586,24 @@ export class URLStateManager {
           }
         }
       }
+
+      // Validate annotations if they exist
+      const annotations = (rotationData as Record<string, unknown>)
+        .annotations;
+      if (annotations !== undefined) {
+        if (!annotations || typeof annotations !== "object") return false;
+
+        for (const formationAnnotations of Object.values(
+          annotations as Record<string, unknown>
+        )) {
+          if (
+            !Array.isArray(formationAnnotations) ||
+            !formationAnnotations.every(isValidCourtAnnotation)
+          ) {
+            return false;
+          }
+        }
+      }
     }
 
     return true;
@@ -354,16 +630,6 @@ export class URLStateManager {
     return true;
   }
 
-  /**
-   * JSON replacer function to handle Date objects
-   */
-  private static dateReplacer(key: string, value: unknown): unknown {
-    if (value instanceof Date) {
-      return { __date: value.toISOString() };
-    }
-    return value;
-  }
-
   /**
    * JSON reviver function to restore Date objects
    */
@@ -388,14 +654,21 @@ export class URLStateManager {
   static generateShareableURL(
     system: SystemType,
     rotation: number,
-    positions: CustomPositionsState
+    positions: CustomPositionsState,
+    customRules?: CustomRuleConfig[]
   ): string {
     const baseURL =
       typeof window !== "undefined"
         ? `${window.location.protocol}//${window.location.host}${window.location.pathname}`
         : "";
 
-    return this.encodePositionsToURL(baseURL, system, rotation, positions);
+    return this.encodePositionsToURL(
+      baseURL,
+      system,
+      rotation,
+      positions,
+      customRules
+    );
   }
 
   /**
@@ -414,12 +687,18 @@ export class URLStateManager {
     system: SystemType,
     rotation: number,
     positions: CustomPositionsState,
-    replace: boolean = false
+    replace: boolean = false,
+    customRules?: CustomRuleConfig[]
   ): void {
     if (typeof window === "undefined") return;
 
     try {
-      const url = this.generateShareableURL(system, rotation, positions);
+      const url = this.generateShareableURL(
+        system,
+        rotation,
+        positions,
+        customRules
+      );
 
       if (replace) {
         window.history.replaceState({}, "", url);
@@ -70,7 +70,7 @@ describe("URLStateManager", () => {
 
       expect(result).toContain(baseURL);
       expect(result).toContain("d="); // compressed data
-      expect(result).toContain("v=1.0.0"); // version
+      expect(result).toContain("v=2.0.0"); // version
       expect(result).toContain("s=5-1"); // system
       expect(result).toContain("r=0"); // rotation
     });
@@ -130,7 +130,7 @@ describe("URLStateManager", () => {
       expect(result).not.toBeNull();
       expect(result!.system).toBe(system);
       expect(result!.rotation).toBe(rotation);
-      expect(result!.version).toBe("1.0.0");
+      expect(result!.version).toBe("2.0.0");
 
       // Check structure but handle Date conversion
       expect(result!.positions[0]).toBeDefined();
@@ -217,7 +217,7 @@ describe("URLStateManager", () => {
       expect(result).not.toBeNull();
       expect(result!.system).toBe(system);
       expect(result!.rotation).toBe(rotation);
-      expect(result!.version).toBe("1.0.0");
+      expect(result!.version).toBe("2.0.0");
     });
 
     it("should return null for URL without required parameters", () => {
@@ -354,6 +354,114 @@ describe("URLStateManager", () => {
     });
   });
 
+  describe("compact format", () => {
+    const baseURL = "https://example.com/volleyball";
+    const players = ["S", "Opp", "OH1", "OH2", "MB1", "MB2"];
+
+    // Every player moved in every formation of every rotation, each at a
+    // different time
+    const buildFullyCustomized = (): CustomPositionsState => {
+      const positions: CustomPositionsState = {};
+      let minute = 0;
+      for (let rotation = 0; rotation < 6; rotation++) {
+        const formation = () =>
+          Object.fromEntries(
+            players.map((playerId, index) => [
+              playerId,
+              {
+                x: 50 + index * 83.3 + rotation,
+                y: 40 + index * 47.7,
+                isCustom: true,
+                lastModified: new Date(Date.UTC(2024, 0, 1, 12, minute++, 17)),
+              },
+            ])
+          );
+        positions[rotation] = {
+          rotational: formation(),
+          serveReceive: formation(),
+          base: formation(),
+        };
+      }
+      return positions;
+    };
+
+    it("should fit a fully customized system without falling back", () => {
+      const positions = buildFullyCustomized();
+      const encodedURL = URLStateManager.encodePositionsToURL(
+        baseURL,
+        "5-1",
+        2,
+        positions
+      );
+
+      expect(encodedURL.length).toBeLessThanOrEqual(2000);
+      expect(encodedURL).not.toContain("fallback=");
+
+      const decoded = URLStateManager.decodePositionsFromURL(encodedURL);
+      const position = decoded!.positions[5].base.MB2;
+      expect(position.x).toBeCloseTo(positions[5].base.MB2.x, 1);
+      expect(position.y).toBeCloseTo(positions[5].base.MB2.y, 1);
+      expect(position.lastModified.toISOString()).toBe(
+        positions[5].base.MB2.lastModified.toISOString()
+      );
+      expect(Object.keys(decoded!.positions)).toHaveLength(6);
+    });
+
+    it("should keep custom formations", () => {
+      const positions: CustomPositionsState = {
+        0: {
+          ...mockPositions[0],
+          defense: { player3: { ...mockPosition, x: 40, y: 300 } },
+        },
+      };
+
+      const decoded = URLStateManager.decodePositionsFromURL(
+        URLStateManager.encodePositionsToURL(baseURL, "5-1", 0, positions)
+      );
+
+      expect(decoded!.positions[0].defense).toEqual(positions[0].defense);
+      expect(decoded!.positions[0].serveReceive).toEqual(
+        mockPositions[0].serveReceive
+      );
+    });
+
+    it("should decode version 1.0.0 links", () => {
+      const legacyData = {
+        system: "6-2",
+        rotation: 1,
+        positions: {
+          1: {
+            rotational: {
+              S1: {
+                x: 123.456,
+                y: 200,
+                isCustom: true,
+                lastModified: "2024-01-01T00:00:00.123Z",
+              },
+            },
+            serveReceive: {},
+            base: {},
+          },
+        },
+        version: "1.0.0",
+      };
+      const encoded = btoa(JSON.stringify(legacyData))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=/g, "");
+
+      const result = URLStateManager.decodePositionsFromURL(
+        `${baseURL}?d=${encoded}&v=1.0.0&s=6-2&r=1`
+      );
+
+      expect(result!.version).toBe("1.0.0");
+      expect(result!.positions[1].rotational.S1.x).toBe(123.456);
+      expect(
+        result!.positions[1].rotational.S1.lastModified.toISOString()
+      ).toBe("2024-01-01T00:00:00.123Z");
+    });
+  });
+
   describe("version compatibility", () => {
     it("should handle compatible versions", () => {
       // This test would require mocking the version compatibility logic
@@ -369,7 +477,7 @@ describe("URLStateManager", () => {
       const result = URLStateManager.decodePositionsFromURL(encodedURL);
 
       expect(result).not.toBeNull();
-      expect(result!.version).toBe("1.0.0");
+      expect(result!.version).toBe("2.0.0");
     });
   });
 
@@ -430,4 +538,131 @@ describe("URLStateManager", () => {
       expect(decodedData!.positions).toEqual(emptyFormations);
     });
   });
+
+  describe("annotations", () => {
+    const baseURL = "https://example.com/volleyball";
+
+    it("should round-trip annotations stored next to positions", () => {
+      const annotated: CustomPositionsState = {
+        0: {
+          ...mockPositions[0],
+          annotations: {
+            serveReceive: [
+              { id: "ball_1", type: "ball", x: 300, y: 40 },
+              {
+                id: "arrow_1",
+                type: "arrow",
+                fromPlayerId: "player1",
+                to: { x: 140, y: 90 },
+                curved: true,
+              },
+            ],
+          },
+        },
+      };
+
+      const encodedURL = URLStateManager.encodePositionsToURL(
+        baseURL,
+        "5-1",
+        0,
+        annotated
+      );
+      const decodedData = URLStateManager.decodePositionsFromURL(encodedURL);
+
+      expect(decodedData!.positions[0].annotations).toEqual(
+        annotated[0].annotations
+      );
+    });
+
+    it("should reject malformed annotations", () => {
+      const malformed = {
+        0: {
+          ...mockPositions[0],
+          annotations: { base: [{ id: "zone_1", type: "zone", x: 1 }] },
+        },
+      } as unknown as CustomPositionsState;
+
+      const encodedURL = URLStateManager.encodePositionsToURL(
+        baseURL,
+        "5-1",
+        0,
+        malformed
+      );
+
+      expect(URLStateManager.decodePositionsFromURL(encodedURL)).toBeNull();
+    });
+  });
+
+  describe("custom rules", () => {
+    const baseURL = "https://example.com/volleyball";
+
+    it("should keep data rules and drop validator-only rules", () => {
+      const encodedURL = URLStateManager.encodePositionsToURL(
+        baseURL,
+        "5-1",
+        0,
+        mockPositions,
+        [
+          {
+            id: "setter-right",
+            name: "Setter on the right",
+            description: "Setter starts near the right sideline",
+            enabled: true,
+            severity: "warning",
+            condition: {
+              type: "distanceFromLine",
+              target: { role: "S" },
+              line: "rightSideline",
+              max: 1,
+            },
+            formations: ["serveReceive"],
+            validator: () => true,
+            message: "Setter must start within 1 m of the right sideline",
+          },
+          {
+            id: "function-only",
+            name: "Function only",
+            description: "Cannot be shared",
+            enabled: true,
+            severity: "error",
+            validator: () => true,
+            message: "Never shared",
+          },
+        ]
+      );
+      const decodedData = URLStateManager.decodePositionsFromURL(encodedURL);
+
+      expect(decodedData!.positions).toEqual(mockPositions);
+      expect(decodedData!.customRules).toEqual([
+        {
+          id: "setter-right",
+          name: "Setter on the right",
+          description: "Setter starts near the right sideline",
+          enabled: true,
+          severity: "warning",
+          condition: {
+            type: "distanceFromLine",
+            target: { role: "S" },
+            line: "rightSideline",
+            max: 1,
+          },
+          formations: ["serveReceive"],
+          message: "Setter must start within 1 m of the right sideline",
+        },
+      ]);
+    });
+
+    it("should decode links without rules as before", () => {
+      const encodedURL = URLStateManager.encodePositionsToURL(
+        baseURL,
+        "5-1",
+        0,
+        mockPositions
+      );
+
+      expect(
+        URLStateManager.decodePositionsFromURL(encodedURL)!.customRules
+      ).toBeUndefined();
+    });
+  });
 });
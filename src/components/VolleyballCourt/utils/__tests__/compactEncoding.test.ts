@@ -0,0 +1,79 @@
+/**
+ * Tests for compact binary encoding helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ByteReader,
+  ByteWriter,
+  base64URLToBytes,
+  bytesToBase64URL,
+  compressBytes,
+  decompressBytes,
+} from "../compactEncoding";
+
+describe("compactEncoding", () => {
+  it("round-trips variable-length integers and strings", () => {
+    const writer = new ByteWriter();
+    writer.writeVarUint(0);
+    writer.writeVarUint(300);
+    writer.writeVarUint(1704110400000); // A timestamp above 2^32
+    writer.writeVarInt(-1);
+    writer.writeVarInt(-12345);
+    writer.writeString("Outside 1 – ñ");
+
+    const reader = new ByteReader(writer.toBytes());
+    expect(reader.readVarUint()).toBe(0);
+    expect(reader.readVarUint()).toBe(300);
+    expect(reader.readVarUint()).toBe(1704110400000);
+    expect(reader.readVarInt()).toBe(-1);
+    expect(reader.readVarInt()).toBe(-12345);
+    expect(reader.readString()).toBe("Outside 1 – ñ");
+    expect(reader.isAtEnd).toBe(true);
+    expect(() => reader.readByte()).toThrow("Unexpected end of data");
+  });
+
+  it("shrinks repetitive data and restores it exactly", () => {
+    const input = new TextEncoder().encode(
+      JSON.stringify(
+        Array.from({ length: 40 }, (_, index) => ({
+          id: `arrow_${index}`,
+          type: "arrow",
+          curved: true,
+        }))
+      )
+    );
+
+    const compressed = compressBytes(input);
+
+    expect(compressed.length).toBeLessThan(input.length / 2);
+    expect(Array.from(decompressBytes(compressed))).toEqual(Array.from(input));
+  });
+
+  it("stores data that doesn't compress", () => {
+    const input = Uint8Array.from([7, 200, 13, 99]);
+
+    const compressed = compressBytes(input);
+
+    expect(compressed.length).toBe(input.length + 1);
+    expect(Array.from(decompressBytes(compressed))).toEqual([7, 200, 13, 99]);
+  });
+
+  it("rejects corrupted data", () => {
+    // LZSS header for 10 bytes, then a back-reference before the start
+    expect(() => decompressBytes(Uint8Array.from([1, 10, 1, 0, 0]))).toThrow(
+      "Invalid back-reference in compressed data"
+    );
+    expect(() => decompressBytes(Uint8Array.from([9]))).toThrow(
+      "Unknown compression method: 9"
+    );
+  });
+
+  it("converts bytes to URL-safe base64 and back", () => {
+    const bytes = Uint8Array.from([251, 255, 190, 0, 1]);
+    const encoded = bytesToBase64URL(bytes);
+
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(Array.from(base64URLToBytes(encoded))).toEqual(Array.from(bytes));
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for court annotation utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  clampAnnotationPoint,
+  createArrowAnnotation,
+  createBallAnnotation,
+  createTextAnnotation,
+  createZoneAnnotation,
+  getArrowPath,
+  getFormationAnnotations,
+  isValidCourtAnnotation,
+  moveAnnotation,
+  setFormationAnnotations,
+} from "../courtAnnotations";
+import { CustomPositionsState } from "../../types/positioning";
+
+describe("courtAnnotations", () => {
+  it("creates annotations with unique IDs", () => {
+    const ball = createBallAnnotation();
+    const zone = createZoneAnnotation(10, 20, 30, 40);
+
+    expect(ball).toMatchObject({ type: "ball", x: 300, y: 180 });
+    expect(zone).toMatchObject({ x: 10, y: 20, width: 30, height: 40 });
+    expect(ball.id).not.toBe(createBallAnnotation().id);
+  });
+
+  describe("getArrowPath", () => {
+    it("draws straight arrows as a line", () => {
+      expect(getArrowPath({ x: 0, y: 100 }, { x: 0, y: 0 })).toBe(
+        "M 0 100 L 0 0"
+      );
+    });
+
+    it("bends curved arrows to the left of travel", () => {
+      // Travelling up the court, left is towards smaller x
+      expect(getArrowPath({ x: 0, y: 100 }, { x: 0, y: 0 }, true, 0.5)).toBe(
+        "M 0 100 Q -50 50 0 0"
+      );
+    });
+  });
+
+  describe("moveAnnotation", () => {
+    it("moves arrows by their target and clamps to the court", () => {
+      const arrow = createArrowAnnotation("S", { x: 100, y: 100 });
+
+      expect(moveAnnotation(arrow, 20, -150)).toMatchObject({
+        fromPlayerId: "S",
+        to: { x: 120, y: 0 },
+      });
+    });
+
+    it("respects custom bounds", () => {
+      const text = createTextAnnotation("Cover", { x: 500, y: 300 });
+
+      expect(moveAnnotation(text, 400, 0, { width: 900, height: 540 })).toMatchObject(
+        { x: 900, y: 300, text: "Cover" }
+      );
+      expect(clampAnnotationPoint({ x: -5, y: 400 })).toEqual({ x: 0, y: 360 });
+    });
+  });
+
+  describe("formation storage", () => {
+    const positions: CustomPositionsState = {
+      2: {
+        rotational: {},
+        serveReceive: {},
+        base: { S: { x: 1, y: 2, isCustom: true, lastModified: new Date() } },
+      },
+    };
+
+    it("stores annotations per formation next to positions", () => {
+      const ball = createBallAnnotation();
+      const updated = setFormationAnnotations(positions, 2, "base", [ball]);
+
+      expect(updated[2].base).toBe(positions[2].base);
+      expect(getFormationAnnotations(updated, 2, "base")).toEqual([ball]);
+      expect(getFormationAnnotations(updated, 2, "serveReceive")).toEqual([]);
+      expect(positions[2].annotations).toBeUndefined();
+    });
+
+    it("creates the rotation when it has no stored positions", () => {
+      const updated = setFormationAnnotations({}, 4, "rotational", [
+        createZoneAnnotation(),
+      ]);
+
+      expect(updated[4].base).toEqual({});
+      expect(getFormationAnnotations(updated, 4, "rotational")).toHaveLength(1);
+    });
+  });
+
+  it("validates annotations loaded from URLs or storage", () => {
+    expect(isValidCourtAnnotation(createTextAnnotation("Hit line"))).toBe(true);
+    expect(
+      isValidCourtAnnotation(createArrowAnnotation("OH1", { x: 1, y: 2 }))
+    ).toBe(true);
+    expect(isValidCourtAnnotation({ id: "a", type: "arrow", to: {} })).toBe(
+      false
+    );
+    expect(isValidCourtAnnotation({ id: "b", type: "laser", x: 1, y: 1 })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for court description utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CourtDescriptionContext,
+  describeCourt,
+  describePlayerLocation,
+  explainLineupViolations,
+  getPlayerLabel,
+} from "../courtDescription";
+import { VALIDATION_POLICIES } from "../validationPolicies";
+import { PlayerDefinition, PlayerPosition } from "../../types";
+
+const at = (x: number, y: number): PlayerPosition => ({
+  x,
+  y,
+  isCustom: false,
+});
+
+const players: PlayerDefinition[] = [
+  { id: "LF", name: "Left Front", role: "OH", number: 4 },
+  { id: "MF", name: "Middle Front", role: "MB", number: 3 },
+  { id: "RF", name: "Right Front", role: "OPP", number: 2 },
+  { id: "LB", name: "Left Back", role: "OH", number: 5 },
+  { id: "MB", name: "Middle Back", role: "MB", number: 6 },
+  { id: "RB", name: "Right Back", role: "S", number: 1 },
+];
+
+// A legal lineup: front row at y=100, back row at y=250
+const context: CourtDescriptionContext = {
+  players,
+  positions: {
+    LF: at(100, 100),
+    MF: at(300, 100),
+    RF: at(500, 100),
+    LB: at(100, 250),
+    MB: at(300, 250),
+    RB: at(500, 250),
+  },
+  rotationMap: { 1: "RB", 2: "RF", 3: "MF", 4: "LF", 5: "LB", 6: "MB" },
+  system: "5-1",
+  rotation: 0,
+  formation: "base",
+  serverSlot: null,
+};
+
+describe("courtDescription", () => {
+  it("labels players with their number", () => {
+    expect(getPlayerLabel("LF", players)).toBe("Left Front (#4)");
+    expect(getPlayerLabel("unknown", players)).toBe("unknown");
+  });
+
+  it("describes a location in meters from the sideline and the net", () => {
+    expect(describePlayerLocation({ x: 300, y: 0 })).toBe(
+      "4.5 m from the left sideline, 0.0 m from the net"
+    );
+  });
+
+  it("describes every player by zone, front row first", () => {
+    const description = describeCourt({ ...context, serverSlot: 1 });
+
+    expect(description).toMatch(/^5-1 system, rotation 1, base formation\./);
+    expect(description.indexOf("Zone 4")).toBeLessThan(
+      description.indexOf("Zone 5")
+    );
+    expect(description).toContain(
+      "Zone 1, Right Back: Right Back (#1), serving,"
+    );
+  });
+
+  it("has nothing to explain for a legal lineup", () => {
+    expect(explainLineupViolations(context)).toEqual([]);
+  });
+
+  it("names the players in an overlap", () => {
+    const explanations = explainLineupViolations({
+      ...context,
+      formation: "serveReceive",
+      positions: { ...context.positions, LF: at(400, 100) },
+    });
+
+    expect(explanations.length).toBeGreaterThan(0);
+    expect(explanations.join(" ")).toContain("Left Front (#4)");
+  });
+
+  it("only checks formations whose policy applies the overlap rules", () => {
+    (["rotational", "base"] as const).forEach((formation) =>
+      expect(
+        explainLineupViolations({
+          ...context,
+          formation,
+          positions: { ...context.positions, LF: at(400, 100) },
+        })
+      ).toEqual([])
+    );
+    expect(
+      explainLineupViolations({
+        ...context,
+        positions: { ...context.positions, LF: at(400, 100) },
+        validationPolicy: { ...VALIDATION_POLICIES.base, overlap: true },
+      })
+    ).not.toEqual([]);
+  });
+});
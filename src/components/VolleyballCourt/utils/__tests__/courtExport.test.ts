@@ -0,0 +1,186 @@
+/**
+ * Tests for court export utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createCourtSVG,
+  createCourtExport,
+  serializePositionsToJSON,
+  serializePositionsToCSV,
+  getDefaultPageTitle,
+  isImageExportFormat,
+  CourtExportPage,
+} from "../courtExport";
+import { createPDFDocument } from "../pdfBuilder";
+import { PlayerDefinition, PositionData } from "../../types";
+
+function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+describe("courtExport", () => {
+  const players: PlayerDefinition[] = [
+    { id: "S", name: "Setter", role: "S" },
+    { id: "OH1", name: "Outside, Left", role: "OH" },
+    { id: "L", name: "Libero", role: "L" },
+  ];
+
+  const data: PositionData = {
+    system: "5-1",
+    rotation: 2,
+    formation: "base",
+    positions: {
+      S: { x: 100, y: 200, isCustom: false, lastModified: new Date() },
+      OH1: { x: 150.123, y: 250, isCustom: true, lastModified: new Date() },
+      L: { x: 300, y: 300, isCustom: false, lastModified: new Date() },
+    },
+    timestamp: 1000,
+    changeType: "drag",
+  };
+
+  const page: CourtExportPage = { data, players };
+
+  describe("createCourtSVG", () => {
+    it("renders a standalone SVG with every positioned player", () => {
+      const svg = createCourtSVG(page, { width: 800, height: 600 });
+
+      expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+      expect(svg).toContain('width="800" height="600"');
+      expect(svg).toContain('viewBox="0 0 600 360"');
+      expect(svg).toContain('class="net-line"');
+      expect(svg).toContain('data-player-id="S"');
+      expect(svg).toContain("translate(150.12, 250)");
+      expect(svg).toContain("<title>5-1 · Rotation 3 · Base</title>");
+    });
+
+    it("skips players without a position and styles the libero", () => {
+      const svg = createCourtSVG({
+        data: { ...data, positions: { L: data.positions.L } },
+        players,
+      });
+
+      expect(svg).not.toContain('data-player-id="S"');
+      expect(svg).toContain('fill="#f97316"');
+    });
+
+    it("escapes player IDs", () => {
+      const svg = createCourtSVG({
+        data: { ...data, positions: { "A&B": data.positions.S } },
+        players: [{ id: "A&B", name: "A and B", role: "OH" }],
+      });
+
+      expect(svg).toContain("A&amp;B");
+      expect(svg).not.toContain(">A&B<");
+    });
+  });
+
+  describe("serialization", () => {
+    it("serializes positions to JSON with metadata", () => {
+      const json = JSON.parse(serializePositionsToJSON([data]));
+
+      expect(json.exportedAt).toBeDefined();
+      expect(json.rotations[0]).toMatchObject({
+        system: "5-1",
+        rotation: 2,
+        formation: "base",
+        timestamp: 1000,
+        changeType: "drag",
+      });
+      expect(json.rotations[0].positions.OH1).toEqual({
+        x: 150.12,
+        y: 250,
+        isCustom: true,
+      });
+    });
+
+    it("omits metadata from JSON when disabled", () => {
+      const json = JSON.parse(serializePositionsToJSON([data], false));
+
+      expect(json.exportedAt).toBeUndefined();
+      expect(json.rotations[0].timestamp).toBeUndefined();
+    });
+
+    it("serializes positions to CSV with one row per player", () => {
+      const lines = serializePositionsToCSV([data], players).split("\n");
+
+      expect(lines[0]).toBe(
+        "system,rotation,formation,playerId,name,role,x,y,isCustom"
+      );
+      expect(lines).toHaveLength(4);
+      expect(lines[2]).toBe('5-1,2,base,OH1,"Outside, Left",OH,150.12,250,true');
+    });
+  });
+
+  describe("createPDFDocument", () => {
+    it("writes one page per entry with a valid cross-reference table", () => {
+      const image = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 4, height: 3 };
+      const pdf = createPDFDocument([
+        { title: "Rotation (1)", image },
+        { title: "Rotation 2", image },
+      ]);
+      const text = Array.from(pdf, (byte) => String.fromCharCode(byte)).join("");
+
+      expect(text.startsWith("%PDF-1.4")).toBe(true);
+      expect(text).toContain("/Count 2");
+      expect(text).toContain("(Rotation \\(1\\)) Tj");
+      expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+
+      // Every xref entry must point at the start of its object
+      const xrefStart = Number(text.match(/startxref\n(\d+)/)![1]);
+      const entries = text
+        .slice(xrefStart)
+        .split("\n")
+        .filter((line) => / 00000 n $/.test(line));
+      expect(entries).toHaveLength(9);
+      entries.forEach((entry, index) => {
+        const offset = Number(entry.slice(0, 10));
+        expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it("rejects an empty document", () => {
+      expect(() => createPDFDocument([])).toThrow();
+    });
+  });
+
+  describe("createCourtExport", () => {
+    it("exports SVG with a default file name", async () => {
+      const result = await createCourtExport("svg", [page]);
+
+      expect(result.filename).toBe("volleyball-5-1-rotation-3-base.svg");
+      expect(result.mimeType).toBe("image/svg+xml");
+      expect(await readBlobText(result.blob)).toContain("<svg");
+    });
+
+    it("exports data for every page", async () => {
+      const result = await createCourtExport(
+        "csv",
+        [page, { ...page, data: { ...data, rotation: 3 } }],
+        { filename: "lineup" }
+      );
+
+      expect(result.filename).toBe("lineup.csv");
+      expect((await readBlobText(result.blob)).split("\n")).toHaveLength(7);
+    });
+
+    it("rejects an export without pages", async () => {
+      await expect(createCourtExport("json", [])).rejects.toThrow(
+        "Nothing to export"
+      );
+    });
+  });
+
+  it("classifies image and data formats", () => {
+    expect(isImageExportFormat("pdf")).toBe(true);
+    expect(isImageExportFormat("csv")).toBe(false);
+    expect(getDefaultPageTitle({ ...data, formation: "serveReceive" })).toBe(
+      "5-1 · Rotation 3 · Serve/Receive"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for custom formation utilities
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  applyFormationDefaultPositions,
+  getBaseFormation,
+  getFormationOptions,
+} from "../customFormations";
+import { getSystemDefaultPositions } from "../customSystems";
+import { FormationDefinition } from "../../types";
+
+const formations: FormationDefinition[] = [
+  { id: "defense", name: "Defense" },
+  { id: "serve", name: "Serve", order: -1, basedOn: "rotational" },
+  {
+    id: "freeBall",
+    name: "Free ball",
+    overlapRules: true,
+    basedOn: "serveReceive",
+    defaultPositions: { 0: { S: { x: 400, y: 60 } } },
+  },
+];
+
+describe("customFormations", () => {
+  // Default positions are stamped with the current time
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lists custom formations after the built-ins unless ordered", () => {
+    expect(getFormationOptions(formations).map((option) => option.id)).toEqual([
+      "serve",
+      "rotational",
+      "serveReceive",
+      "base",
+      "defense",
+      "freeBall",
+    ]);
+  });
+
+  it("starts default positions from the base formation", () => {
+    expect(getBaseFormation("defense", formations)).toBe("base");
+    expect(getBaseFormation("serve", formations)).toBe("rotational");
+    expect(getBaseFormation("serveReceive", formations)).toBe("serveReceive");
+  });
+
+  it("overrides default positions of players in the rotation", () => {
+    const positions = { S: { x: 100, y: 100, isCustom: false } };
+
+    const merged = applyFormationDefaultPositions(positions, formations[2], 0);
+    expect(merged.S).toEqual({ x: 400, y: 60, isCustom: false });
+    expect(applyFormationDefaultPositions(positions, formations[2], 1)).toBe(
+      positions
+    );
+  });
+
+  it("gives custom formations system default positions", () => {
+    const rotations = {
+      "5-1": [{ 1: "S", 2: "OH1", 3: "MB1", 4: "OPP", 5: "OH2", 6: "MB2" }],
+    };
+
+    const freeBall = getSystemDefaultPositions("freeBall", 0, "5-1", {
+      rotations,
+      formations,
+    });
+    const serveReceive = getSystemDefaultPositions("serveReceive", 0, "5-1", {
+      rotations,
+    });
+    expect(freeBall.S).toMatchObject({ x: 400, y: 60 });
+    expect(freeBall.OH1).toEqual(serveReceive.OH1);
+
+    expect(
+      getSystemDefaultPositions("defense", 0, "5-1", { rotations, formations })
+    ).toEqual(getSystemDefaultPositions("base", 0, "5-1", { rotations }));
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for custom rule utilities
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  evaluateCustomRules,
+  getCustomRuleArea,
+  parseCustomRules,
+  serializeCustomRules,
+} from "../customRules";
+import { ConfigurationManager } from "../../ConfigurationUtils";
+import {
+  CustomRuleConfig,
+  PlayerDefinition,
+  PlayerPosition,
+  ValidationContext,
+} from "../../types";
+
+const at = (x: number, y: number): PlayerPosition => ({
+  x,
+  y,
+  isCustom: false,
+});
+
+const players: PlayerDefinition[] = [
+  { id: "S", name: "Setter", role: "S" },
+  { id: "OPP", name: "Opposite", role: "OPP" },
+];
+
+// Setter 0.45 m from the right sideline, opposite in the middle
+const positions: Record<string, PlayerPosition> = {
+  S: at(570, 200),
+  OPP: at(300, 100),
+};
+
+const context: ValidationContext = {
+  system: "5-1",
+  rotation: 0,
+  formation: "serveReceive",
+  courtDimensions: { width: 600, height: 360 },
+  rotationMap: { 1: "S", 2: "OPP" },
+  players,
+};
+
+const setterRule = ConfigurationManager.createConditionRule(
+  "setter-right",
+  "Setter on the right",
+  "Setter starts near the right sideline in serve receive",
+  {
+    type: "distanceFromLine",
+    target: { role: "S" },
+    line: "rightSideline",
+    max: 1,
+  },
+  "Setter must start within 1 m of the right sideline",
+  { formations: ["serveReceive"], constrainDrag: true }
+);
+
+describe("customRules", () => {
+  it("checks data rules against the players they target", () => {
+    const frontRule: CustomRuleConfig = {
+      id: "opposite-front",
+      name: "Opposite at the net",
+      description: "",
+      enabled: true,
+      severity: "warning",
+      condition: { type: "area", target: { slot: 2 }, maxY: 1 },
+      message: "Opposite must stand within 1 m of the net",
+    };
+
+    expect(
+      evaluateCustomRules([setterRule, frontRule], positions, context)
+    ).toEqual([
+      {
+        ruleId: "opposite-front",
+        ruleName: "Opposite at the net",
+        message: "Opposite must stand within 1 m of the net",
+        severity: "warning",
+        affectedPlayers: ["OPP"],
+      },
+    ]);
+
+    const moved = { ...positions, S: at(450, 200) };
+    expect(evaluateCustomRules([setterRule], moved, context)).toMatchObject([
+      { ruleId: "setter-right", affectedPlayers: ["S"] },
+    ]);
+  });
+
+  it("skips disabled rules and rules for other formations", () => {
+    const moved = { ...positions, S: at(450, 200) };
+
+    expect(
+      evaluateCustomRules([setterRule], moved, {
+        ...context,
+        formation: "base",
+      })
+    ).toEqual([]);
+    expect(
+      evaluateCustomRules([{ ...setterRule, enabled: false }], moved, context)
+    ).toEqual([]);
+  });
+
+  it("runs validator rules and treats a throwing validator as passing", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const validatorRule = ConfigurationManager.createCustomRule(
+      "two-players",
+      "Two players",
+      "",
+      (_, ruleContext) => Object.keys(ruleContext.rotationMap ?? {}).length > 2,
+      "Needs more players"
+    );
+    const throwingRule = ConfigurationManager.createCustomRule(
+      "broken",
+      "Broken",
+      "",
+      () => {
+        throw new Error("broken");
+      },
+      "Never reported"
+    );
+
+    expect(
+      evaluateCustomRules([validatorRule, throwingRule], positions, context)
+    ).toMatchObject([{ ruleId: "two-players", affectedPlayers: [] }]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("limits dragging to the overlap of constraining rule areas", () => {
+    const backRule: CustomRuleConfig = {
+      ...setterRule,
+      id: "setter-back",
+      condition: {
+        type: "distanceFromLine",
+        target: { playerId: "S" },
+        line: "endline",
+        min: 1,
+        max: 3,
+      },
+    };
+
+    expect(getCustomRuleArea([setterRule, backRule], "S", context)).toEqual({
+      minX: 8,
+      maxX: Infinity,
+      minY: 6,
+      maxY: 8,
+    });
+    expect(getCustomRuleArea([setterRule], "OPP", context)).toBeNull();
+  });
+
+  it("shares data rules as JSON and skips malformed ones", () => {
+    const shared = JSON.parse(
+      JSON.stringify(serializeCustomRules([setterRule]))
+    );
+
+    expect(parseCustomRules(shared)).toEqual([setterRule]);
+    expect(
+      parseCustomRules([
+        ...shared,
+        { ...shared[0], condition: { type: "circle" } },
+        "not a rule",
+      ])
+    ).toHaveLength(1);
+  });
+});
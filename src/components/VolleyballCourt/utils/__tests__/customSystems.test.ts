@@ -0,0 +1,118 @@
+/**
+ * Tests for custom system utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SYSTEM_TEMPLATES,
+  applySystemDefaultPositions,
+  createSystemRotations,
+  getSystemDefaultPositions,
+  getSystemOptions,
+  validateGenderAlternation,
+} from "../customSystems";
+import { generateDefaultLineup } from "../lineupGenerator";
+
+const COED = SYSTEM_TEMPLATES["coed-4-2"];
+
+describe("customSystems", () => {
+  it("lists custom systems after the built-ins", () => {
+    expect(getSystemOptions([COED])).toEqual([
+      { id: "5-1", name: "5-1" },
+      { id: "6-2", name: "6-2" },
+      { id: "coed-4-2", name: "Coed 4-2" },
+    ]);
+  });
+
+  it("moves every player one slot clockwise per rotation", () => {
+    const rotations = createSystemRotations({
+      1: "A",
+      2: "B",
+      3: "C",
+      4: "D",
+      5: "E",
+      6: "F",
+    });
+
+    expect(rotations).toHaveLength(6);
+    expect(rotations[1]).toEqual({
+      1: "F",
+      2: "A",
+      3: "B",
+      4: "C",
+      5: "D",
+      6: "E",
+    });
+    expect(rotations[5][1]).toBe("B");
+  });
+
+  it("keeps genders alternating through the coed template rotations", () => {
+    for (const rotationMap of COED.rotations) {
+      expect(validateGenderAlternation(rotationMap, COED.players)).toEqual([]);
+    }
+  });
+
+  it("flags players of the same gender next to each other", () => {
+    const issues = validateGenderAlternation(
+      { ...COED.rotations[0], 1: "OH1", 2: "S1" },
+      COED.players
+    );
+
+    expect(issues.map((issue) => issue.code)).toContain("GENDER_ALTERNATION");
+    expect(issues[0].affectedPlayers).toEqual(["S1", "MB1"]);
+  });
+
+  it("applies default position overrides for the rotation and formation", () => {
+    const definition = {
+      ...SYSTEM_TEMPLATES["4-2"],
+      defaultPositions: { 0: { base: { S1: { x: 500, y: 100 } } } },
+    };
+    const config = {
+      rotations: { "4-2": definition.rotations },
+      systems: [definition],
+    };
+
+    const base = getSystemDefaultPositions("base", 0, "4-2", config);
+    expect(base.S1).toEqual({ x: 500, y: 100, isCustom: false });
+
+    const serveReceive = getSystemDefaultPositions(
+      "serveReceive",
+      0,
+      "4-2",
+      config
+    );
+    expect(serveReceive.S1).not.toEqual(base.S1);
+
+    expect(applySystemDefaultPositions(base, null, 0, "base")).toBe(base);
+  });
+
+  it("places players by role when role-aware defaults are enabled", () => {
+    const config = {
+      players: { "4-2": COED.players },
+      rotations: { "4-2": COED.rotations },
+      defaultLineup: { roleAware: true },
+    };
+
+    const positions = getSystemDefaultPositions(
+      "serveReceive",
+      0,
+      "4-2",
+      config
+    );
+
+    const generated = generateDefaultLineup("serveReceive", COED.rotations[0], {
+      players: COED.players,
+      system: "4-2",
+    })!;
+    expect(positions.S1).toMatchObject({
+      x: generated.S1.x,
+      y: generated.S1.y,
+    });
+    expect(positions.S1).not.toMatchObject({
+      x: getSystemDefaultPositions("serveReceive", 0, "4-2", {
+        ...config,
+        defaultLineup: {},
+      }).S1.x,
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for formation templates
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyFormationTemplate,
+  createFormationTemplate,
+  FORMATION_TEMPLATES,
+  getFormationTemplates,
+} from "../formationTemplates";
+import {
+  FormationTemplate,
+  PlayerDefinition,
+  PlayerPosition,
+  RotationMapping,
+} from "../../types";
+import { StateConverter } from "../../volleyball-rules-engine/utils/StateConverter";
+import { OverlapValidator } from "../../volleyball-rules-engine/validation/OverlapValidator";
+
+const players: PlayerDefinition[] = [
+  { id: "S", name: "Setter", role: "S" },
+  { id: "Opp", name: "Opposite", role: "OPP" },
+  { id: "OH1", name: "Outside 1", role: "OH" },
+  { id: "OH2", name: "Outside 2", role: "OH" },
+  { id: "MB1", name: "Middle 1", role: "MB" },
+  { id: "MB2", name: "Middle 2", role: "MB" },
+];
+
+const rotations: RotationMapping[] = [
+  { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
+  { 1: "OH2", 2: "S", 3: "MB1", 4: "Opp", 5: "MB2", 6: "OH1" },
+  { 1: "OH1", 2: "OH2", 3: "S", 4: "MB1", 5: "Opp", 6: "MB2" },
+  { 1: "MB2", 2: "OH1", 3: "OH2", 4: "S", 5: "MB1", 6: "Opp" },
+  { 1: "Opp", 2: "MB2", 3: "OH1", 4: "OH2", 5: "S", 6: "MB1" },
+  { 1: "MB1", 2: "Opp", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S" },
+];
+
+// Court coordinates: 600 wide and 360 deep map to 9 m by 9 m
+const meters = (position: PlayerPosition) => ({
+  x: (position.x / 600) * 9,
+  y: (position.y / 360) * 9,
+});
+
+const isLegal = (
+  positions: Record<string, PlayerPosition>,
+  rotationMap: RotationMapping
+) =>
+  OverlapValidator.checkOverlap(
+    StateConverter.formationToVolleyballStates(positions, rotationMap)
+  ).isLegal;
+
+describe("formation templates", () => {
+  it("lists the built-in templates of a formation before the given ones", () => {
+    const custom: FormationTemplate = {
+      id: "custom",
+      name: "Custom",
+      formation: "base",
+    };
+
+    expect(getFormationTemplates("serveReceive").map(({ id }) => id)).toEqual([
+      "w",
+      "cup",
+      "three-passer",
+      "two-passer",
+    ]);
+    expect(getFormationTemplates("base", [custom]).map(({ id }) => id)).toEqual(
+      ["perimeter", "rotation", "middle-middle", "custom"]
+    );
+    expect(getFormationTemplates("rotational")).toEqual([]);
+  });
+
+  it("fits every built-in template to a legal lineup in every rotation", () => {
+    FORMATION_TEMPLATES.forEach((template) => {
+      rotations.forEach((rotationMap) => {
+        const positions = applyFormationTemplate(template, rotationMap, {
+          players,
+          system: "5-1",
+        });
+
+        expect(positions).not.toBeNull();
+        expect(Object.keys(positions!)).toHaveLength(6);
+        expect(isLegal(positions!, rotationMap)).toBe(true);
+      });
+    });
+  });
+
+  it("puts the setter and the passers on their spots", () => {
+    const rotationMap = rotations[1];
+    const positions = applyFormationTemplate(
+      FORMATION_TEMPLATES.find(({ id }) => id === "three-passer")!,
+      rotationMap,
+      { players, liberoSlot: 5 }
+    )!;
+
+    expect(meters(positions.S)).toEqual({ x: 6, y: 1 });
+    // Libero on the left, outsides in the middle and on the right
+    expect(meters(positions.MB2).y).toBeCloseTo(6.5);
+    expect(meters(positions.OH1).y).toBeCloseTo(6.5);
+    expect(meters(positions.OH2).y).toBeCloseTo(6.5);
+    expect(meters(positions.MB1).y).toBeCloseTo(1);
+  });
+
+  it("saves a rotation as a template for the other rotations", () => {
+    const source = applyFormationTemplate(
+      FORMATION_TEMPLATES.find(({ id }) => id === "perimeter")!,
+      rotations[0],
+      { players }
+    )!;
+    const template = createFormationTemplate(
+      "My perimeter",
+      "base",
+      source,
+      rotations[0],
+      { players }
+    );
+
+    expect(template).toMatchObject({ name: "My perimeter", formation: "base" });
+    expect(template.setter).toEqual(meters(source.S));
+
+    const positions = applyFormationTemplate(template, rotations[3], {
+      players,
+    })!;
+    expect(isLegal(positions, rotations[3])).toBe(true);
+  });
+
+  it("returns null for incomplete rotations", () => {
+    expect(
+      applyFormationTemplate(FORMATION_TEMPLATES[0], { 1: "S" }, { players })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for full-court utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_OPPONENT_MARKERS,
+  createFullCourtState,
+  getDefaultOpponentPositions,
+  getOpponentPositions,
+  getOpponentRotationMap,
+  getOpponentServerId,
+  getServerSlot,
+  mirrorCourtPoint,
+} from "../fullCourt";
+
+describe("fullCourt", () => {
+  it("creates state from the configuration", () => {
+    expect(createFullCourtState()).toEqual({
+      enabled: false,
+      servingTeam: "home",
+      opponentRotation: 0,
+      opponentPositions: {},
+    });
+    expect(
+      createFullCourtState({
+        enabled: true,
+        initialServingTeam: "opponent",
+        initialOpponentRotation: 3,
+      })
+    ).toMatchObject({ enabled: true, servingTeam: "opponent", opponentRotation: 3 });
+  });
+
+  it("gives the server exemption to our slot 1 only when we serve", () => {
+    expect(getServerSlot("home")).toBe(1);
+    expect(getServerSlot("opponent")).toBeNull();
+  });
+
+  describe("getOpponentRotationMap", () => {
+    it("places markers in order at rotation 0", () => {
+      expect(getOpponentRotationMap(DEFAULT_OPPONENT_MARKERS, 0)).toEqual({
+        1: "O1",
+        2: "O2",
+        3: "O3",
+        4: "O4",
+        5: "O5",
+        6: "O6",
+      });
+    });
+
+    it("moves the marker in slot 2 to slot 1 when rotating", () => {
+      const rotationMap = getOpponentRotationMap(DEFAULT_OPPONENT_MARKERS, 1);
+
+      expect(rotationMap[1]).toBe("O2");
+      expect(rotationMap[6]).toBe("O1");
+    });
+  });
+
+  describe("opponent positions", () => {
+    it("puts the opponent server behind their endline", () => {
+      const receiving = getDefaultOpponentPositions(
+        DEFAULT_OPPONENT_MARKERS,
+        0,
+        "home"
+      );
+      const serving = getDefaultOpponentPositions(
+        DEFAULT_OPPONENT_MARKERS,
+        0,
+        "opponent"
+      );
+
+      expect(serving.O1.y).toBeGreaterThan(receiving.O1.y);
+      expect(serving.O2).toEqual(receiving.O2);
+    });
+
+    it("prefers placed markers for the current rotation", () => {
+      const state = {
+        ...createFullCourtState(),
+        opponentRotation: 2,
+        opponentPositions: { 2: { O4: { x: 10, y: 20 } } },
+      };
+
+      const positions = getOpponentPositions(state, DEFAULT_OPPONENT_MARKERS);
+
+      expect(positions.O4).toEqual({ x: 10, y: 20 });
+      expect(Object.keys(positions)).toHaveLength(6);
+    });
+
+    it("reports the serving marker only when the opponent serves", () => {
+      const state = { ...createFullCourtState(), opponentRotation: 1 };
+
+      expect(getOpponentServerId(state, DEFAULT_OPPONENT_MARKERS)).toBeNull();
+      expect(
+        getOpponentServerId(
+          { ...state, servingTeam: "opponent" },
+          DEFAULT_OPPONENT_MARKERS
+        )
+      ).toBe("O2");
+    });
+  });
+
+  it("mirrors points across the net", () => {
+    expect(mirrorCourtPoint({ x: 100, y: 60 })).toEqual({ x: 500, y: 300 });
+  });
+});
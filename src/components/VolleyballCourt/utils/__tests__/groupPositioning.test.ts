@@ -0,0 +1,169 @@
+/**
+ * Tests for group positioning utilities and group move validation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getSelectionRect,
+  getPlayersInRect,
+  translatePlayers,
+  alignPlayersToRow,
+  distributePlayersAcrossWidth,
+} from "../groupPositioning";
+import { VolleyballCourtRulesIntegration } from "../../VolleyballCourtRulesIntegration";
+import { PlayerPosition } from "../../types";
+
+const at = (x: number, y: number): PlayerPosition => ({
+  x,
+  y,
+  isCustom: false,
+});
+
+// A legal lineup: front row at y=100, back row at y=250
+const positions: Record<string, PlayerPosition> = {
+  LF: at(100, 100),
+  MF: at(300, 100),
+  RF: at(500, 100),
+  LB: at(100, 250),
+  MB: at(300, 250),
+  RB: at(500, 250),
+};
+
+const rotationMap = { 1: "RB", 2: "RF", 3: "MF", 4: "LF", 5: "LB", 6: "MB" };
+
+describe("groupPositioning", () => {
+  it("finds the players inside a marquee dragged in any direction", () => {
+    const rect = getSelectionRect({ x: 350, y: 300 }, { x: 50, y: 50 });
+
+    expect(rect).toEqual({ x: 50, y: 50, width: 300, height: 250 });
+    expect(getPlayersInRect(positions, rect)).toEqual(["LF", "MF", "LB", "MB"]);
+  });
+
+  it("moves a group by the same offset and marks it custom", () => {
+    const moved = translatePlayers(positions, ["LF", "MF", "missing"], {
+      x: 20,
+      y: -10,
+    });
+
+    expect(Object.keys(moved)).toEqual(["LF", "MF"]);
+    expect(moved.LF).toMatchObject({ x: 120, y: 90, isCustom: true });
+    expect(moved.MF.x - moved.LF.x).toBe(200);
+  });
+
+  it("aligns players to their average depth", () => {
+    const aligned = alignPlayersToRow(positions, ["LF", "MB"]);
+
+    expect(aligned.LF).toMatchObject({ x: 100, y: 175 });
+    expect(aligned.MB).toMatchObject({ x: 300, y: 175 });
+  });
+
+  it("distributes players evenly across the width in left-to-right order", () => {
+    const crowded = { ...positions, MF: at(450, 100) };
+    const distributed = distributePlayersAcrossWidth(
+      crowded,
+      ["RF", "LF", "MF"],
+      600
+    );
+
+    expect(distributed.LF.x).toBe(100);
+    expect(distributed.MF.x).toBe(300);
+    expect(distributed.RF.x).toBe(500);
+    expect(distributed.MF.y).toBe(100);
+  });
+});
+
+describe("VolleyballCourtRulesIntegration.constrainGroupMove", () => {
+  const integration = new VolleyballCourtRulesIntegration({
+    courtDimensions: { width: 600, height: 360 },
+    enableRealTimeValidation: true,
+    enableConstraintBoundaries: true,
+    enablePositionSnapping: true,
+    serverSlot: null,
+  });
+
+  it("keeps a legal group move as is", () => {
+    const result = integration.constrainGroupMove(
+      Object.keys(positions),
+      { x: -66, y: 0 },
+      positions,
+      rotationMap
+    );
+
+    expect(result).toEqual({
+      delta: { x: -66, y: 0 },
+      isBlocked: false,
+      isSnapped: false,
+    });
+  });
+
+  it("snaps the whole group back inside the court", () => {
+    const result = integration.constrainGroupMove(
+      Object.keys(positions),
+      { x: -200, y: 0 },
+      positions,
+      rotationMap
+    );
+
+    expect(result.isBlocked).toBe(false);
+    expect(result.isSnapped).toBe(true);
+    expect(result.delta.x).toBe(-100);
+  });
+
+  it("snaps a group that would pass its neighbors to the legal limit", () => {
+    const result = integration.constrainGroupMove(
+      ["LF", "MF", "RF"],
+      { x: 0, y: 200 },
+      positions,
+      rotationMap
+    );
+
+    expect(result.isBlocked).toBe(false);
+    expect(result.isSnapped).toBe(true);
+    expect(result.delta.y).toBeGreaterThan(0);
+    expect(result.delta.y).toBeLessThan(150);
+  });
+
+  it("keeps the group apart by the rule set's tolerance", () => {
+    const nfhs = new VolleyballCourtRulesIntegration({
+      courtDimensions: { width: 600, height: 360 },
+      enableRealTimeValidation: true,
+      enableConstraintBoundaries: true,
+      enablePositionSnapping: true,
+      serverSlot: null,
+      ruleSet: "NFHS",
+    });
+    const move = (rules: VolleyballCourtRulesIntegration) =>
+      rules.constrainGroupMove(
+        ["LF", "MF", "RF"],
+        { x: 0, y: 200 },
+        positions,
+        rotationMap
+      );
+
+    // NFHS keeps players 0.1 m apart instead of 0.03 m
+    expect(move(nfhs).isSnapped).toBe(true);
+    expect(move(nfhs).delta.y).toBeLessThan(move(integration).delta.y);
+  });
+
+  it("only keeps the group on court without the overlap rules", () => {
+    const move = (delta: { x: number; y: number }) =>
+      integration.constrainGroupMove(
+        ["LF", "MF", "RF"],
+        delta,
+        positions,
+        rotationMap,
+        false
+      );
+
+    expect(move({ x: 0, y: 200 })).toEqual({
+      delta: { x: 0, y: 200 },
+      isBlocked: false,
+      isSnapped: false,
+    });
+    expect(move({ x: -200, y: 0 })).toEqual({
+      delta: { x: -100, y: 0 },
+      isBlocked: false,
+      isSnapped: true,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for libero substitution utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isLiberoActive,
+  getLiberoSwap,
+  applyLiberoToRotation,
+  applyLiberoToPositions,
+  validateLiberoLineup,
+  resolveLiberoConfig,
+} from "../liberoSubstitution";
+import { LiberoConfig, PlayerDefinition, RotationMapping } from "../../types";
+
+describe("liberoSubstitution", () => {
+  const libero: LiberoConfig = {
+    playerId: "L",
+    replaces: ["MB1", "MB2"],
+  };
+
+  const players: PlayerDefinition[] = [
+    { id: "S", name: "Setter", role: "S" },
+    { id: "Opp", name: "Opposite", role: "OPP" },
+    { id: "OH1", name: "Outside 1", role: "OH" },
+    { id: "OH2", name: "Outside 2", role: "OH" },
+    { id: "MB1", name: "Middle 1", role: "MB" },
+    { id: "MB2", name: "Middle 2", role: "MB" },
+    { id: "L", name: "Libero", role: "L" },
+  ];
+
+  // MB1 in left back, MB2 in middle front
+  const rotation: RotationMapping = {
+    1: "Opp",
+    2: "MB2",
+    3: "OH1",
+    4: "OH2",
+    5: "MB1",
+    6: "S",
+  };
+
+  describe("isLiberoActive", () => {
+    it("requires a player and at least one replaced player", () => {
+      expect(isLiberoActive(undefined)).toBe(false);
+      expect(isLiberoActive({ playerId: "L", replaces: [] })).toBe(false);
+      expect(isLiberoActive({ ...libero, enabled: false })).toBe(false);
+      expect(isLiberoActive(libero)).toBe(true);
+    });
+  });
+
+  describe("resolveLiberoConfig", () => {
+    it("takes libero serving from the rule set", () => {
+      expect(resolveLiberoConfig(libero, "FIVB")?.allowServe).toBe(false);
+      expect(resolveLiberoConfig(libero, "NFHS")?.allowServe).toBe(true);
+    });
+
+    it("keeps an explicit libero setting", () => {
+      const explicit = { ...libero, allowServe: false };
+      expect(resolveLiberoConfig(explicit, "NFHS")).toBe(explicit);
+    });
+
+    it("ignores unknown rule sets", () => {
+      expect(resolveLiberoConfig(libero, "UNKNOWN" as never)).toBe(libero);
+    });
+  });
+
+  describe("getLiberoSwap", () => {
+    it("replaces the back row middle", () => {
+      expect(getLiberoSwap(rotation, libero)).toEqual({
+        liberoId: "L",
+        replacedPlayerId: "MB1",
+        slot: 5,
+      });
+    });
+
+    it("does not replace front row players", () => {
+      const frontOnly: RotationMapping = { ...rotation, 5: "OH1", 3: "MB1" };
+      expect(getLiberoSwap(frontOnly, libero)).toBeNull();
+    });
+
+    it("only takes the serving slot when the libero may serve", () => {
+      const serving: RotationMapping = { ...rotation, 1: "MB1", 5: "Opp" };
+
+      expect(getLiberoSwap(serving, libero)).toBeNull();
+      expect(getLiberoSwap(serving, { ...libero, allowServe: true })).toEqual({
+        liberoId: "L",
+        replacedPlayerId: "MB1",
+        slot: 1,
+      });
+    });
+  });
+
+  describe("applying a swap", () => {
+    const swap = { liberoId: "L", replacedPlayerId: "MB1", slot: 5 };
+
+    it("puts the libero into the replaced slot", () => {
+      const active = applyLiberoToRotation(rotation, swap);
+      expect(active[5]).toBe("L");
+      expect(Object.values(active)).not.toContain("MB1");
+    });
+
+    it("moves the replaced player's position to the libero", () => {
+      const positions = {
+        MB1: { x: 100, y: 300, isCustom: false },
+        S: { x: 300, y: 300, isCustom: false },
+      };
+
+      const active = applyLiberoToPositions(positions, swap);
+      expect(active.L).toEqual(positions.MB1);
+      expect(active.MB1).toBeUndefined();
+      expect(active.S).toEqual(positions.S);
+    });
+
+    it("returns inputs unchanged without a swap", () => {
+      const positions = { MB1: { x: 100, y: 300 } };
+      expect(applyLiberoToRotation(rotation, null)).toBe(rotation);
+      expect(applyLiberoToPositions(positions, null)).toBe(positions);
+    });
+  });
+
+  describe("validateLiberoLineup", () => {
+    it("reports a libero in the front row", () => {
+      const illegal: RotationMapping = { ...rotation, 3: "L" };
+      const violations = validateLiberoLineup(illegal, players, libero);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].code).toBe("LIBERO_FRONT_ROW");
+    });
+
+    it("reports a serving libero according to the rule set", () => {
+      const serving: RotationMapping = { ...rotation, 1: "L" };
+
+      expect(validateLiberoLineup(serving, players, libero)[0].code).toBe(
+        "LIBERO_SERVING"
+      );
+      expect(
+        validateLiberoLineup(serving, players, { ...libero, allowServe: true })
+      ).toHaveLength(0);
+    });
+  });
+});
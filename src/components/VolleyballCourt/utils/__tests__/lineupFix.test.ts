@@ -0,0 +1,74 @@
+/**
+ * Tests for lineup fix utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { findLineupFix } from "../lineupFix";
+import { PlayerPosition } from "../../types";
+import { StateConverter } from "../../volleyball-rules-engine/utils/StateConverter";
+import { OverlapValidator } from "../../volleyball-rules-engine/validation/OverlapValidator";
+
+// Court coordinates: 600 wide and 360 deep map to 9 m by 9 m
+const at = (xMeters: number, yMeters: number): PlayerPosition => ({
+  x: (xMeters / 9) * 600,
+  y: (yMeters / 9) * 360,
+  isCustom: false,
+});
+
+const rotationMap = {
+  1: "S",
+  2: "MB1",
+  3: "Opp",
+  4: "MB2",
+  5: "OH1",
+  6: "OH2",
+};
+
+// Slot 1 serving, Left Front crossed to the right of Middle Front
+const positions: Record<string, PlayerPosition> = {
+  S: at(7.5, 9.5),
+  MB1: at(7, 2),
+  Opp: at(4.5, 2),
+  MB2: at(5, 2),
+  OH1: at(1.5, 7),
+  OH2: at(4.5, 7),
+};
+
+const isLegal = (fixed: Record<string, PlayerPosition>) =>
+  OverlapValidator.checkOverlap(
+    StateConverter.formationToVolleyballStates(fixed, rotationMap)
+  ).isLegal;
+
+describe("findLineupFix", () => {
+  it("moves the crossed players the least needed", () => {
+    const fix = findLineupFix(positions, rotationMap);
+
+    expect(fix).not.toBeNull();
+    expect(Object.keys(fix!.positions).sort()).toEqual(["MB2", "Opp"]);
+    expect(fix!.moves.find((move) => move.playerId === "MB2")!.from).toBe(
+      positions.MB2
+    );
+    expect(fix!.totalDistance).toBeCloseTo(0.54, 2);
+    expect(isLegal({ ...positions, ...fix!.positions })).toBe(true);
+  });
+
+  it("keeps locked players and rule areas", () => {
+    const fix = findLineupFix(positions, rotationMap, {
+      lockedPlayers: ["MB2"],
+      areas: { OH2: { minX: -Infinity, maxX: Infinity, minY: 8, maxY: 9 } },
+    });
+
+    expect(Object.keys(fix!.positions).sort()).toEqual(["OH2", "Opp"]);
+    expect(fix!.positions.OH2.y).toBeCloseTo(320);
+    expect(isLegal({ ...positions, ...fix!.positions })).toBe(true);
+  });
+
+  it("returns null when there is nothing to fix or no legal lineup", () => {
+    const legal = { ...positions, MB2: at(2, 2) };
+
+    expect(findLineupFix(legal, rotationMap)).toBeNull();
+    expect(
+      findLineupFix(positions, rotationMap, { lockedPlayers: ["MB2", "Opp"] })
+    ).toBeNull();
+  });
+});
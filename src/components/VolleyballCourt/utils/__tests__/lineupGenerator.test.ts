@@ -0,0 +1,119 @@
+/**
+ * Tests for role-aware default lineups
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateDefaultLineup } from "../lineupGenerator";
+import { PlayerDefinition, PlayerPosition, RotationMapping } from "../../types";
+import { StateConverter } from "../../volleyball-rules-engine/utils/StateConverter";
+import { OverlapValidator } from "../../volleyball-rules-engine/validation/OverlapValidator";
+
+const players: PlayerDefinition[] = [
+  { id: "S", name: "Setter", role: "S" },
+  { id: "Opp", name: "Opposite", role: "OPP" },
+  { id: "OH1", name: "Outside 1", role: "OH" },
+  { id: "OH2", name: "Outside 2", role: "OH" },
+  { id: "MB1", name: "Middle 1", role: "MB" },
+  { id: "MB2", name: "Middle 2", role: "MB" },
+];
+
+const rotations: RotationMapping[] = [
+  { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
+  { 1: "OH2", 2: "S", 3: "MB1", 4: "Opp", 5: "MB2", 6: "OH1" },
+  { 1: "OH1", 2: "OH2", 3: "S", 4: "MB1", 5: "Opp", 6: "MB2" },
+  { 1: "MB2", 2: "OH1", 3: "OH2", 4: "S", 5: "MB1", 6: "Opp" },
+  { 1: "Opp", 2: "MB2", 3: "OH1", 4: "OH2", 5: "S", 6: "MB1" },
+  { 1: "MB1", 2: "Opp", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S" },
+];
+
+// Court coordinates: 360 deep maps to 9 m
+const depth = (position: PlayerPosition) => (position.y / 360) * 9;
+
+// Players between the attack line and the back of the passing line
+const countPassers = (positions: Record<string, PlayerPosition>) =>
+  Object.values(positions).filter(
+    (position) => depth(position) > 3 && depth(position) < 7
+  ).length;
+
+describe("generateDefaultLineup", () => {
+  it("generates legal lineups for every 5-1 rotation, with the setter released", () => {
+    rotations.forEach((rotationMap) => {
+      (["serveReceive", "base"] as const).forEach((formation) => {
+        const positions = generateDefaultLineup(formation, rotationMap, {
+          players,
+          system: "5-1",
+        });
+
+        expect(positions).not.toBeNull();
+        const lineup = StateConverter.formationToVolleyballStates(
+          positions!,
+          rotationMap
+        );
+        expect(OverlapValidator.checkOverlap(lineup).isLegal).toBe(true);
+        expect(depth(positions!.S)).toBeLessThan(4);
+      });
+    });
+  });
+
+  it("keeps middles off the pass and puts the libero in receive", () => {
+    const rotationMap = rotations[1];
+
+    const withoutLibero = generateDefaultLineup("serveReceive", rotationMap, {
+      players,
+    })!;
+    expect(depth(withoutLibero.MB1)).toBeLessThanOrEqual(1);
+    expect(depth(withoutLibero.MB2)).toBeGreaterThan(7);
+
+    // The libero comes on for the back row middle in slot 5
+    const withLibero = generateDefaultLineup("serveReceive", rotationMap, {
+      players,
+      liberoSlot: 5,
+    })!;
+    expect(depth(withLibero.MB2)).toBeCloseTo(6.5);
+  });
+
+  it("uses the selected receive pattern", () => {
+    const rotationMap = rotations[1];
+
+    expect(
+      countPassers(
+        generateDefaultLineup("serveReceive", rotationMap, { players })!
+      )
+    ).toBe(3);
+    expect(
+      countPassers(
+        generateDefaultLineup("serveReceive", rotationMap, {
+          players,
+          receivePattern: "5-person",
+        })!
+      )
+    ).toBe(5);
+  });
+
+  it("sets from the back row in a 6-2", () => {
+    const positions = generateDefaultLineup(
+      "serveReceive",
+      { 1: "S1", 2: "MB1", 3: "S2", 4: "MB2", 5: "OH1", 6: "OH2" },
+      {
+        players: [
+          { id: "S1", name: "Setter 1", role: "S" },
+          { id: "S2", name: "Setter 2", role: "S" },
+          ...players.filter((player) => player.role !== "S"),
+        ],
+        system: "6-2",
+      }
+    )!;
+
+    expect(depth(positions.S1)).toBeLessThan(2);
+    expect(depth(positions.S2)).toBeGreaterThan(5);
+  });
+
+  it("leaves the rotational formation and incomplete rotations to the zone defaults", () => {
+    expect(
+      generateDefaultLineup("rotational", rotations[0], { players })
+    ).toBeNull();
+    expect(
+      generateDefaultLineup("base", { 1: "S", 2: "MB1" }, { players })
+    ).toBeNull();
+  });
+});
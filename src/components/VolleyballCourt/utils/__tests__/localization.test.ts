@@ -0,0 +1,64 @@
+/**
+ * Tests for localization utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { createLocalization, DEFAULT_LOCALIZATION } from "../localization";
+import { describePlayerLocation, getFormationLabel } from "../courtDescription";
+
+describe("createLocalization", () => {
+  it("defaults to English, left to right", () => {
+    expect(DEFAULT_LOCALIZATION.locale).toBe("en");
+    expect(DEFAULT_LOCALIZATION.direction).toBe("ltr");
+    expect(DEFAULT_LOCALIZATION.t("selection.count", { count: 3 })).toBe(
+      "3 selected"
+    );
+  });
+
+  it("uses the bundled messages of the language, then English", () => {
+    const localization = createLocalization({ language: "pt-BR" });
+
+    expect(localization.t("court.label")).toBe("Quadra de vôlei");
+    expect(localization.t("slot.4")).toBe("Ataque esquerda");
+    expect(createLocalization({ language: "de" }).t("court.label")).toBe(
+      "Volleyball court"
+    );
+    expect(localization.t("no.such.key")).toBe("no.such.key");
+  });
+
+  it("prefers the configured translations", () => {
+    const localization = createLocalization({
+      language: "es-MX",
+      translations: {
+        es: { "court.label": "Cancha", "court.describe": "Describir" },
+        "es-MX": { "court.label": "Cancha de vóleibol" },
+      },
+    });
+
+    expect(localization.t("court.label")).toBe("Cancha de vóleibol");
+    expect(localization.t("court.describe")).toBe("Describir");
+    expect(localization.t("selection.clear")).toBe("Quitar selección");
+  });
+
+  it("formats meters with the locale's decimal separator", () => {
+    const spanish = createLocalization({ language: "es" });
+
+    expect(spanish.formatNumber(2.25)).toBe("2,3");
+    expect(describePlayerLocation({ x: 150, y: 100 }, spanish)).toBe(
+      "a 2,3 m de la línea lateral izquierda y a 2,5 m de la red"
+    );
+    expect(
+      createLocalization({
+        language: "es",
+        numberFormat: "en-US",
+      }).formatNumber(2.25)
+    ).toBe("2.3");
+  });
+
+  it("translates formation names and mirrors for right-to-left", () => {
+    const french = createLocalization({ language: "fr", rtlSupport: true });
+
+    expect(getFormationLabel("serveReceive", french)).toBe("de réception");
+    expect(french.direction).toBe("rtl");
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for match mode utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createMatchState,
+  getServingFormation,
+  scoreRally,
+  serializeRallyLogToCSV,
+} from "../matchMode";
+
+const current = {
+  servingTeam: "home" as const,
+  rotation: 5,
+  opponentRotation: 2,
+};
+
+describe("matchMode", () => {
+  it("keeps the rotation when the serving team wins the rally", () => {
+    const result = scoreRally(createMatchState(true), "home", current);
+
+    expect(result.match.score).toEqual({ home: 1, opponent: 0 });
+    expect(result.servingTeam).toBe("home");
+    expect(result.rotation).toBe(5);
+    expect(result.entry.sideOut).toBe(false);
+  });
+
+  it("rotates the team that wins serve back", () => {
+    const lost = scoreRally(createMatchState(true), "opponent", current);
+
+    expect(lost.servingTeam).toBe("opponent");
+    expect(lost.rotation).toBe(5);
+    expect(lost.opponentRotation).toBe(3);
+    expect(lost.entry.sideOut).toBe(true);
+
+    const won = scoreRally(lost.match, "home", {
+      servingTeam: lost.servingTeam,
+      rotation: lost.rotation,
+      opponentRotation: lost.opponentRotation,
+    });
+
+    expect(won.servingTeam).toBe("home");
+    expect(won.rotation).toBe(0);
+    expect(won.opponentRotation).toBe(3);
+    expect(won.match.rallies.map((entry) => entry.rally)).toEqual([1, 2]);
+  });
+
+  it("shows base when serving and serve receive when receiving", () => {
+    expect(getServingFormation("home")).toBe("base");
+    expect(getServingFormation("opponent")).toBe("serveReceive");
+  });
+
+  it("serializes the rally log to CSV", () => {
+    const { match } = scoreRally(createMatchState(true), "opponent", current);
+    const [header, row] = serializeRallyLogToCSV(match.rallies).split("\n");
+
+    expect(header).toBe(
+      "rally,servingTeam,winner,sideOut,homeScore,opponentScore,rotation,opponentRotation,timestamp"
+    );
+    expect(row).toMatch(/^1,home,opponent,true,0,1,6,4,/);
+  });
+});
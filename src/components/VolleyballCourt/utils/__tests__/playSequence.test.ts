@@ -0,0 +1,150 @@
+/**
+ * Tests for play sequence utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addKeyframe,
+  createKeyframe,
+  createPlaySequence,
+  getKeyframeTimes,
+  getPositionsAtTime,
+  getSequenceDuration,
+  interpolatePositions,
+  isValidPlaySequence,
+  moveKeyframe,
+  removeKeyframe,
+  resolveEasing,
+  updateKeyframe,
+} from "../playSequence";
+import { PlayerPosition } from "../../types";
+
+describe("playSequence", () => {
+  const at = (x: number, y: number): PlayerPosition => ({ x, y });
+
+  const serve = { S: at(100, 100), OH1: at(200, 200) };
+  const pass = { S: at(300, 100), OH1: at(200, 300) };
+  const attack = { S: at(300, 200), OH1: at(400, 300) };
+
+  const buildSequence = () => {
+    let sequence = createPlaySequence("Quick attack", "5-1", 0);
+    sequence = addKeyframe(sequence, createKeyframe(serve, "serve"));
+    sequence = addKeyframe(sequence, createKeyframe(pass, "pass", 1000));
+    sequence = addKeyframe(sequence, createKeyframe(attack, "attack", 500));
+    return sequence;
+  };
+
+  describe("editing", () => {
+    it("creates keyframes from a copy of the positions", () => {
+      const positions = { S: at(1, 2) };
+      const keyframe = createKeyframe(positions, "set", 400);
+
+      positions.S.x = 50;
+
+      expect(keyframe.positions.S.x).toBe(1);
+      expect(keyframe).toMatchObject({ label: "set", duration: 400 });
+    });
+
+    it("adds, updates and removes keyframes without mutating", () => {
+      const sequence = buildSequence();
+      const [first, second] = sequence.keyframes;
+
+      const updated = updateKeyframe(sequence, second.id, {
+        label: "set",
+        duration: -10,
+      });
+      expect(updated.keyframes[1]).toMatchObject({ label: "set", duration: 0 });
+      expect(sequence.keyframes[1].label).toBe("pass");
+
+      const removed = removeKeyframe(sequence, first.id);
+      expect(removed.keyframes.map((keyframe) => keyframe.label)).toEqual([
+        "pass",
+        "attack",
+      ]);
+
+      const inserted = addKeyframe(sequence, createKeyframe(serve, "set"), 1);
+      expect(inserted.keyframes[1].label).toBe("set");
+    });
+
+    it("reorders keyframes and ignores out-of-range moves", () => {
+      const sequence = buildSequence();
+
+      const moved = moveKeyframe(sequence, 2, 0);
+      expect(moved.keyframes.map((keyframe) => keyframe.label)).toEqual([
+        "attack",
+        "serve",
+        "pass",
+      ]);
+      expect(moveKeyframe(sequence, 0, 3)).toBe(sequence);
+    });
+  });
+
+  describe("timing", () => {
+    it("skips the duration of the starting keyframe", () => {
+      const sequence = buildSequence();
+
+      expect(getKeyframeTimes(sequence)).toEqual([0, 1000, 1500]);
+      expect(getSequenceDuration(sequence)).toBe(1500);
+      expect(getSequenceDuration(createPlaySequence("Empty", "6-2", 1))).toBe(0);
+    });
+
+    it("resolves easing names used by AnimationConfig", () => {
+      expect(resolveEasing("linear")(0.25)).toBe(0.25);
+      expect(resolveEasing("ease-in")(0.5)).toBeLessThan(0.5);
+      expect(resolveEasing("ease-out")(0.5)).toBeGreaterThan(0.5);
+      expect(resolveEasing("cubic-bezier(0, 0, 1, 1)")(0.5)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe("interpolation", () => {
+    it("interpolates positions and holds players missing on one side", () => {
+      const positions = interpolatePositions(
+        { S: at(0, 0), L: at(50, 50) },
+        { S: at(100, 200), OH1: at(10, 10) },
+        0.5
+      );
+
+      expect(positions.S).toMatchObject({ x: 50, y: 100 });
+      expect(positions.L).toMatchObject({ x: 50, y: 50 });
+      expect(positions.OH1).toMatchObject({ x: 10, y: 10 });
+    });
+
+    it("returns positions at any point of the sequence", () => {
+      const sequence = buildSequence();
+      const linear = { easing: "linear" };
+
+      expect(getPositionsAtTime(sequence, -5, linear)).toEqual(serve);
+      expect(getPositionsAtTime(sequence, 500, linear).S.x).toBe(200);
+      expect(getPositionsAtTime(sequence, 1250, linear).OH1.x).toBe(300);
+      expect(getPositionsAtTime(sequence, 5000, linear)).toEqual(attack);
+    });
+
+    it("applies custom transitions by keyframe label", () => {
+      const positions = getPositionsAtTime(buildSequence(), 500, {
+        easing: "linear",
+        customTransitions: { pass: { duration: 1000, easing: "ease-in" } },
+      });
+
+      expect(positions.S.x).toBeLessThan(200);
+    });
+
+    it("jumps between keyframes when animations are disabled", () => {
+      const sequence = buildSequence();
+      const animation = { enableAnimations: false };
+
+      expect(getPositionsAtTime(sequence, 999, animation).S.x).toBe(100);
+      expect(getPositionsAtTime(sequence, 1000, animation).S.x).toBe(300);
+    });
+  });
+
+  it("validates stored sequences", () => {
+    expect(isValidPlaySequence(buildSequence())).toBe(true);
+    expect(isValidPlaySequence({ ...buildSequence(), system: "4-2" })).toBe(
+      true
+    );
+    expect(isValidPlaySequence({ ...buildSequence(), system: 42 })).toBe(
+      false
+    );
+    expect(isValidPlaySequence({ id: "x", keyframes: [{}] })).toBe(false);
+  });
+});
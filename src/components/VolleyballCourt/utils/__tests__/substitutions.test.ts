@@ -0,0 +1,128 @@
+/**
+ * Tests for substitution utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applySubstitutionsToPositions,
+  applySubstitutionsToRotation,
+  applySubstitutionsToRotations,
+  createSubstitutionState,
+  getSubstitutionCounts,
+  getSubstitutionLimit,
+  getSubstitutionLineup,
+  recordSubstitution,
+  startNewSet,
+  validateSubstitution,
+} from "../substitutions";
+import { SubstitutionState } from "../../types";
+
+const ROTATION = { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" };
+const STARTERS = Object.values(ROTATION);
+const BENCH = ["B1", "B2"];
+
+const substitute = (
+  state: SubstitutionState,
+  playerInId: string,
+  playerOutId: string
+) => recordSubstitution(state, playerInId, playerOutId, 0).state;
+
+describe("substitutions", () => {
+  it("tracks the player on court for each starter", () => {
+    let state = substitute(createSubstitutionState(), "B1", "MB1");
+    expect(getSubstitutionLineup(state)).toEqual({ MB1: "B1" });
+
+    state = substitute(state, "MB1", "B1");
+    expect(getSubstitutionLineup(state)).toEqual({});
+  });
+
+  it("applies substitutes to every rotation", () => {
+    const rotations = [ROTATION, { ...ROTATION, 1: "MB1", 2: "S" }];
+
+    expect(applySubstitutionsToRotations(rotations, { MB1: "B1" })).toEqual([
+      { ...ROTATION, 2: "B1" },
+      { ...ROTATION, 1: "B1", 2: "S" },
+    ]);
+  });
+
+  it("moves the starter's position to the substitute", () => {
+    const positions = { MB1: { x: 10, y: 20 }, S: { x: 30, y: 40 } };
+
+    expect(applySubstitutionsToPositions(positions, { MB1: "B1" })).toEqual({
+      B1: { x: 10, y: 20 },
+      S: { x: 30, y: 40 },
+    });
+  });
+
+  it("counts substitutions against the rule set limit", () => {
+    expect(getSubstitutionLimit("FIVB")).toBe(6);
+    expect(getSubstitutionLimit()).toBeNull();
+
+    const state = substitute(createSubstitutionState(), "B1", "MB1");
+    expect(getSubstitutionCounts(state, 6)).toEqual({
+      used: 1,
+      limit: 6,
+      remaining: 5,
+    });
+  });
+
+  it("starts the next set with no substitutions", () => {
+    const state = substitute(createSubstitutionState(), "B1", "MB1");
+    expect(startNewSet(state)).toEqual({ set: 2, substitutions: [] });
+  });
+
+  describe("validateSubstitution", () => {
+    const validate = (
+      state: SubstitutionState,
+      playerInId: string,
+      playerOutId: string,
+      limit: number | null = null
+    ) =>
+      validateSubstitution(
+        state,
+        playerInId,
+        playerOutId,
+        applySubstitutionsToRotation(ROTATION, getSubstitutionLineup(state)),
+        STARTERS,
+        BENCH,
+        limit
+      ).map((issue) => issue.code);
+
+    it("allows a bench player in for a starter", () => {
+      expect(validate(createSubstitutionState(), "B1", "MB1")).toEqual([]);
+    });
+
+    it("rejects players not on court or not on the roster", () => {
+      const state = createSubstitutionState();
+
+      expect(validate(state, "B1", "B2")).toContain("SUB_PLAYER_NOT_ON_COURT");
+      expect(validate(state, "S", "MB1")).toContain(
+        "SUB_PLAYER_ALREADY_ON_COURT"
+      );
+      expect(validate(state, "X", "MB1")).toContain("SUB_PLAYER_NOT_ON_ROSTER");
+    });
+
+    it("enforces the per-set limit", () => {
+      const state = substitute(createSubstitutionState(), "B1", "MB1");
+      expect(validate(state, "B2", "OH1", 1)).toEqual(["SUB_LIMIT_REACHED"]);
+    });
+
+    it("only lets a starter return for their own substitute", () => {
+      let state = substitute(createSubstitutionState(), "B1", "MB1");
+      state = substitute(state, "B2", "OH1");
+
+      expect(validate(state, "MB1", "B2")).toEqual(["SUB_POSITION_MISMATCH"]);
+      expect(validate(state, "MB1", "B1")).toEqual([]);
+    });
+
+    it("lets a starter leave and a substitute enter only once", () => {
+      let state = substitute(createSubstitutionState(), "B1", "MB1");
+      state = substitute(state, "MB1", "B1");
+
+      expect(validate(state, "B2", "MB1")).toEqual([
+        "SUB_STARTER_ALREADY_REPLACED",
+      ]);
+      expect(validate(state, "B1", "OH1")).toEqual(["SUB_ALREADY_USED"]);
+    });
+  });
+});
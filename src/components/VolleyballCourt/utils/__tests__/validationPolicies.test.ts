@@ -0,0 +1,175 @@
+/**
+ * Tests for validation policies
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  checkValidationPolicy,
+  formationUsesOverlapRules,
+  getValidationPolicy,
+  VALIDATION_POLICIES,
+} from "../validationPolicies";
+import { getDefaultPositions } from "../defaultPositions";
+import { createLocalization } from "../localization";
+import {
+  FormationDefinition,
+  PlayerDefinition,
+  RotationMapping,
+} from "../../types";
+
+const players: PlayerDefinition[] = [
+  { id: "S", name: "Setter", role: "S" },
+  { id: "Opp", name: "Opposite", role: "OPP" },
+  { id: "OH1", name: "Outside 1", role: "OH" },
+  { id: "OH2", name: "Outside 2", role: "OH" },
+  { id: "MB1", name: "Middle 1", role: "MB" },
+  { id: "MB2", name: "Middle 2", role: "MB" },
+];
+
+const rotations: RotationMapping[] = [
+  { 1: "S", 2: "MB1", 3: "Opp", 4: "MB2", 5: "OH1", 6: "OH2" },
+  { 1: "OH2", 2: "S", 3: "MB1", 4: "Opp", 5: "MB2", 6: "OH1" },
+  { 1: "OH1", 2: "OH2", 3: "S", 4: "MB1", 5: "Opp", 6: "MB2" },
+  { 1: "MB2", 2: "OH1", 3: "OH2", 4: "S", 5: "MB1", 6: "Opp" },
+  { 1: "Opp", 2: "MB2", 3: "OH1", 4: "OH2", 5: "S", 6: "MB1" },
+  { 1: "MB1", 2: "Opp", 3: "MB2", 4: "OH1", 5: "OH2", 6: "S" },
+];
+
+const formations: FormationDefinition[] = [
+  { id: "defense", name: "Defense" },
+  { id: "serve", name: "Serve", basedOn: "rotational", overlapRules: true },
+];
+
+describe("validationPolicies", () => {
+  it("only applies overlap rules at serve contact", () => {
+    expect(formationUsesOverlapRules("rotational", formations)).toBe(false);
+    expect(formationUsesOverlapRules("serveReceive", formations)).toBe(true);
+    expect(formationUsesOverlapRules("base", formations)).toBe(false);
+    expect(formationUsesOverlapRules("defense", formations)).toBe(false);
+    expect(formationUsesOverlapRules("serve", formations)).toBe(true);
+    expect(formationUsesOverlapRules("unknown", formations)).toBe(false);
+  });
+
+  it("bases custom formation policies on their formation and overrides them by check", () => {
+    expect(getValidationPolicy("defense", formations)).toEqual(
+      VALIDATION_POLICIES.base
+    );
+    expect(
+      getValidationPolicy("base", formations, {
+        base: { overlap: true, collisions: false },
+      })
+    ).toEqual({
+      overlap: true,
+      courtBoundaries: true,
+      collisions: false,
+      switchLegality: true,
+    });
+  });
+
+  it("reports nothing for the default positions of any formation", () => {
+    rotations.forEach((rotationMap, rotation) => {
+      (["rotational", "serveReceive", "base"] as const).forEach((formation) => {
+        const positions = getDefaultPositions(
+          formation,
+          rotation,
+          "5-1",
+          rotationMap
+        );
+        expect(
+          checkValidationPolicy(
+            positions,
+            rotationMap,
+            VALIDATION_POLICIES[formation],
+            { players, serverSlot: 1 }
+          )
+        ).toEqual([]);
+      });
+    });
+  });
+
+  it("reports players off the court and on top of each other", () => {
+    const rotationMap = rotations[0];
+    const positions = getDefaultPositions("base", 0, "5-1", rotationMap);
+
+    const violations = checkValidationPolicy(
+      {
+        ...positions,
+        MB1: { x: 620, y: 40, isCustom: true },
+        OH1: { ...positions.OH2, x: positions.OH2.x + 10 },
+        // The server stands behind the end line
+        S: { x: 500, y: 400, isCustom: true },
+      },
+      rotationMap,
+      VALIDATION_POLICIES.base,
+      { players, serverSlot: 1 }
+    );
+
+    expect(violations.map((violation) => violation.code)).toEqual([
+      "OUT_OF_BOUNDS",
+      "PLAYER_COLLISION",
+    ]);
+    expect(violations[0].affectedPlayers).toEqual(["MB1"]);
+    expect(violations[1].affectedPlayers).toEqual(["OH1", "OH2"]);
+    expect(violations[1].message).toBe(
+      "Outside 1 and Outside 2 are standing on top of each other"
+    );
+  });
+
+  it("writes messages in the localization's language", () => {
+    const rotationMap = rotations[0];
+    const positions = getDefaultPositions("base", 0, "5-1", rotationMap);
+
+    const violations = checkValidationPolicy(
+      { ...positions, MB1: { x: 620, y: 40, isCustom: true } },
+      rotationMap,
+      VALIDATION_POLICIES.base,
+      { players, serverSlot: 1 },
+      createLocalization({ language: "es" })
+    );
+
+    expect(violations.map((violation) => violation.message)).toEqual([
+      "Middle 1 está fuera de la cancha",
+    ]);
+  });
+
+  it("keeps the back row setter off the net after the switch", () => {
+    const rotationMap = rotations[0];
+    const positions = {
+      ...getDefaultPositions("base", 0, "5-1", rotationMap),
+      S: { x: 450, y: 10, isCustom: true },
+    };
+
+    const violations = checkValidationPolicy(
+      positions,
+      rotationMap,
+      VALIDATION_POLICIES.base,
+      { players, serverSlot: null }
+    );
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      code: "BACK_ROW_SETTER_AT_NET",
+      affectedPlayers: ["S"],
+    });
+
+    // Front row setters can block, and serve receive has no switch yet
+    expect(
+      checkValidationPolicy(
+        {
+          ...getDefaultPositions("base", 3, "5-1", rotations[3]),
+          S: { x: 100, y: 10, isCustom: true },
+        },
+        rotations[3],
+        VALIDATION_POLICIES.base,
+        { players }
+      )
+    ).toEqual([]);
+    expect(
+      checkValidationPolicy(
+        positions,
+        rotationMap,
+        VALIDATION_POLICIES.serveReceive,
+        { players, serverSlot: null }
+      )
+    ).toEqual([]);
+  });
+});
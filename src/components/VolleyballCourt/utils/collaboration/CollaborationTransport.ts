@@ -0,0 +1,27 @@
+import type { CollaboratorPresence } from "../../types";
+import type { PositionOperation } from "./lastWriterWins";
+
+/**
+ * Messages exchanged in a collaboration session. A client says hello when
+ * it connects; the others reply with their presence and a snapshot of the
+ * operations they know, so late joiners and reconnecting clients catch up.
+ */
+export type CollaborationMessage =
+  | { type: "hello"; presence: CollaboratorPresence }
+  | { type: "presence"; presence: CollaboratorPresence }
+  | { type: "position"; operation: PositionOperation }
+  | { type: "snapshot"; clientId: string; operations: PositionOperation[] }
+  | { type: "leave"; clientId: string };
+
+/**
+ * Network channel for a collaboration session. Implementations relay every
+ * sent message to the other clients in the session. Messages sent while
+ * disconnected are dropped; clients resync with a snapshot on reconnect.
+ */
+export interface CollaborationTransport {
+  connect(): Promise<void>;
+  disconnect(): void;
+  send(message: CollaborationMessage): void;
+  onMessage(listener: (message: CollaborationMessage) => void): () => void;
+  onConnectionChange(listener: (isConnected: boolean) => void): () => void;
+}
@@ -0,0 +1,86 @@
+import type { WebSocketLike } from "./WebSocketTransport";
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Socket connected to a LocalCollaborationServer room. Opening, delivery and
+ * closing happen on a later tick, like a real WebSocket.
+ */
+class LocalWebSocket implements WebSocketLike {
+  public readyState = CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+
+  constructor(private readonly room: Set<LocalWebSocket>) {
+    setTimeout(() => {
+      if (this.readyState !== CONNECTING) return;
+
+      this.readyState = OPEN;
+      room.add(this);
+      this.onopen?.(new Event("open"));
+    }, 0);
+  }
+
+  public send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error("WebSocket is not open");
+    }
+
+    this.room.forEach((socket) => {
+      if (socket !== this) {
+        socket.receive(data);
+      }
+    });
+  }
+
+  public close(): void {
+    if (this.readyState === CLOSED) return;
+
+    this.readyState = CLOSED;
+    this.room.delete(this);
+    setTimeout(() => this.onclose?.(new CloseEvent("close")), 0);
+  }
+
+  private receive(data: string): void {
+    setTimeout(() => {
+      if (this.readyState === OPEN) {
+        this.onmessage?.(new MessageEvent("message", { data }));
+      }
+    }, 0);
+  }
+}
+
+/**
+ * In-memory stand-in for a collaboration relay server, for tests and
+ * offline demos. Each URL is a room; every message is forwarded to the other
+ * sockets in the room. Pass createWebSocket to WebSocketTransport.
+ */
+export class LocalCollaborationServer {
+  private rooms = new Map<string, Set<LocalWebSocket>>();
+
+  public createWebSocket = (url: string): WebSocketLike => {
+    let room = this.rooms.get(url);
+    if (!room) {
+      room = new Set();
+      this.rooms.set(url, room);
+    }
+    return new LocalWebSocket(room);
+  };
+
+  public getConnectionCount(url: string): number {
+    return this.rooms.get(url)?.size ?? 0;
+  }
+
+  /**
+   * Closes every socket, as if the server restarted
+   */
+  public disconnectAll(): void {
+    this.rooms.forEach((room) =>
+      Array.from(room).forEach((socket) => socket.close())
+    );
+  }
+}
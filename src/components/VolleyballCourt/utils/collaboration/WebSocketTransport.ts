@@ -0,0 +1,159 @@
+import type {
+  CollaborationMessage,
+  CollaborationTransport,
+} from "./CollaborationTransport";
+
+// Part of the browser WebSocket the transport uses
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface WebSocketTransportOptions {
+  url: string; // e.g. "wss://club.example.com/collaboration/varsity"
+  reconnectDelay?: number; // ms before reconnecting after the connection drops
+  createWebSocket?: (url: string) => WebSocketLike; // e.g. a LocalCollaborationServer
+}
+
+const WEB_SOCKET_OPEN = 1;
+const DEFAULT_RECONNECT_DELAY = 2000;
+
+/**
+ * CollaborationTransport over a WebSocket relay. Messages are sent as JSON;
+ * the server forwards each one to the other sockets connected to the same
+ * URL. Reconnects after the connection drops until disconnect is called.
+ */
+export class WebSocketTransport implements CollaborationTransport {
+  private socket: WebSocketLike | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private shouldReconnect = false;
+  private messageListeners = new Set<(message: CollaborationMessage) => void>();
+  private connectionListeners = new Set<(isConnected: boolean) => void>();
+
+  constructor(private readonly options: WebSocketTransportOptions) {}
+
+  public isConnected(): boolean {
+    return this.socket?.readyState === WEB_SOCKET_OPEN;
+  }
+
+  /**
+   * Opens the socket. Rejects when the first attempt fails; reconnecting
+   * carries on in the background.
+   */
+  public connect(): Promise<void> {
+    this.shouldReconnect = true;
+    this.clearReconnect();
+    this.socket?.close();
+
+    return new Promise((resolve, reject) => {
+      const createWebSocket =
+        this.options.createWebSocket ?? ((url: string) => new WebSocket(url));
+      const socket = createWebSocket(this.options.url);
+      let isOpen = false;
+      this.socket = socket;
+
+      socket.onopen = () => {
+        isOpen = true;
+        this.notifyConnectionChange(true);
+        resolve();
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+      socket.onerror = () => {
+        if (!isOpen) {
+          reject(new Error(`Could not connect to ${this.options.url}`));
+        }
+      };
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+
+        this.socket = null;
+        if (isOpen) {
+          this.notifyConnectionChange(false);
+        } else {
+          reject(new Error(`Could not connect to ${this.options.url}`));
+        }
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  public disconnect(): void {
+    this.shouldReconnect = false;
+    this.clearReconnect();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      const wasOpen = socket.readyState === WEB_SOCKET_OPEN;
+      socket.close();
+      if (wasOpen) {
+        this.notifyConnectionChange(false);
+      }
+    }
+  }
+
+  public send(message: CollaborationMessage): void {
+    if (this.socket && this.isConnected()) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  public onMessage(
+    listener: (message: CollaborationMessage) => void
+  ): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  public onConnectionChange(
+    listener: (isConnected: boolean) => void
+  ): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== "string") return;
+
+    let message: CollaborationMessage;
+    try {
+      message = JSON.parse(data) as CollaborationMessage;
+    } catch (error) {
+      console.warn("Ignoring malformed collaboration message:", error);
+      return;
+    }
+
+    this.messageListeners.forEach((listener) => listener(message));
+  }
+
+  private notifyConnectionChange(isConnected: boolean): void {
+    this.connectionListeners.forEach((listener) => listener(isConnected));
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect || this.reconnectTimeout) return;
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect().catch(() => {
+        // Keeps retrying from onclose
+      });
+    }, this.options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  LastWriterWinsMap,
+  compareOperations,
+  getOperationKey,
+  type PositionOperation,
+} from "../lastWriterWins";
+import { WebSocketTransport } from "../WebSocketTransport";
+import { LocalCollaborationServer } from "../LocalCollaborationServer";
+import type { CollaborationMessage } from "../CollaborationTransport";
+
+const target = {
+  system: "5-1",
+  rotation: 0,
+  formation: "base" as const,
+  playerId: "S",
+};
+
+const createOperation = (
+  clientId: string,
+  clock: number,
+  x: number
+): PositionOperation => ({
+  ...target,
+  clientId,
+  clock,
+  position: { x, y: 200 },
+  timestamp: Date.now(),
+});
+
+describe("LastWriterWinsMap", () => {
+  it("keys operations by formation and player", () => {
+    expect(getOperationKey(target)).toBe("5-1:0:base:S");
+  });
+
+  it("orders by clock, then by client ID", () => {
+    expect(
+      compareOperations(createOperation("a", 2, 0), createOperation("b", 1, 0))
+    ).toBeGreaterThan(0);
+    expect(
+      compareOperations(createOperation("b", 1, 0), createOperation("a", 1, 0))
+    ).toBeGreaterThan(0);
+    expect(
+      compareOperations(createOperation("a", 1, 0), createOperation("a", 1, 0))
+    ).toBe(0);
+  });
+
+  it("settles concurrent moves of the same player the same way on both clients", () => {
+    const alice = new LastWriterWinsMap("alice");
+    const bob = new LastWriterWinsMap("bob");
+
+    const fromAlice = alice.createOperation(target, { x: 100, y: 200 });
+    const fromBob = bob.createOperation(target, { x: 300, y: 200 });
+
+    expect(alice.apply(fromBob)).toBe(true);
+    expect(bob.apply(fromAlice)).toBe(false);
+    expect(alice.getOperations()).toEqual(bob.getOperations());
+    expect(alice.getOperations()[0].position.x).toBe(300);
+  });
+
+  it("puts local moves after every operation seen", () => {
+    const alice = new LastWriterWinsMap("alice");
+    alice.apply(createOperation("bob", 7, 300));
+
+    const operation = alice.createOperation(target, { x: 100, y: 200 });
+
+    expect(operation.clock).toBe(8);
+    expect(alice.apply(createOperation("bob", 7, 300))).toBe(false);
+  });
+});
+
+describe("WebSocketTransport with LocalCollaborationServer", () => {
+  const url = "ws://localhost/collaboration/varsity";
+  let transports: WebSocketTransport[] = [];
+
+  const createTransport = (
+    server: LocalCollaborationServer,
+    reconnectDelay?: number
+  ) => {
+    const transport = new WebSocketTransport({
+      url,
+      reconnectDelay,
+      createWebSocket: server.createWebSocket,
+    });
+    transports.push(transport);
+    return transport;
+  };
+
+  afterEach(() => {
+    transports.forEach((transport) => transport.disconnect());
+    transports = [];
+  });
+
+  it("relays messages to the other clients in the room", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = createTransport(server);
+    const bob = createTransport(server);
+    const aliceReceived: CollaborationMessage[] = [];
+    const bobReceived: CollaborationMessage[] = [];
+    alice.onMessage((message) => aliceReceived.push(message));
+    bob.onMessage((message) => bobReceived.push(message));
+
+    await Promise.all([alice.connect(), bob.connect()]);
+    expect(server.getConnectionCount(url)).toBe(2);
+
+    alice.send({ type: "leave", clientId: "alice" });
+
+    await vi.waitFor(() =>
+      expect(bobReceived).toEqual([{ type: "leave", clientId: "alice" }])
+    );
+    expect(aliceReceived).toEqual([]);
+  });
+
+  it("drops messages sent while disconnected", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = createTransport(server);
+    const bob = createTransport(server);
+    const bobReceived: CollaborationMessage[] = [];
+    bob.onMessage((message) => bobReceived.push(message));
+    await bob.connect();
+
+    alice.send({ type: "leave", clientId: "alice" });
+    await alice.connect();
+    alice.send({ type: "leave", clientId: "alice-2" });
+
+    await vi.waitFor(() => expect(bobReceived).toHaveLength(1));
+    expect(bobReceived[0]).toEqual({ type: "leave", clientId: "alice-2" });
+  });
+
+  it("reconnects after the connection drops", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = createTransport(server, 10);
+    const changes: boolean[] = [];
+    alice.onConnectionChange((isConnected) => changes.push(isConnected));
+    await alice.connect();
+
+    server.disconnectAll();
+
+    await vi.waitFor(() => expect(changes).toEqual([true, false, true]));
+    expect(alice.isConnected()).toBe(true);
+    expect(server.getConnectionCount(url)).toBe(1);
+  });
+
+  it("does not reconnect after disconnect", async () => {
+    const server = new LocalCollaborationServer();
+    const alice = createTransport(server, 10);
+    await alice.connect();
+
+    alice.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(alice.isConnected()).toBe(false);
+    expect(server.getConnectionCount(url)).toBe(0);
+  });
+});
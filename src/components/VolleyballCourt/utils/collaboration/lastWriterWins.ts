@@ -0,0 +1,97 @@
+import type { FormationType, SystemType } from "../../types";
+
+/**
+ * A player moved by one collaborator. Operations are ordered by a Lamport
+ * clock with the client ID as tiebreak, so every client settles on the same
+ * position when two coaches drag the same player at once.
+ */
+export interface PositionOperation {
+  clientId: string;
+  clock: number;
+  system: SystemType;
+  rotation: number;
+  formation: FormationType;
+  playerId: string;
+  position: { x: number; y: number };
+  timestamp: number;
+}
+
+// Player and formation an operation writes to
+export type PositionOperationTarget = Pick<
+  PositionOperation,
+  "system" | "rotation" | "formation" | "playerId"
+>;
+
+/**
+ * Key of the register an operation writes to, e.g. "5-1:0:base:s1"
+ */
+export function getOperationKey(target: PositionOperationTarget): string {
+  return `${target.system}:${target.rotation}:${target.formation}:${target.playerId}`;
+}
+
+/**
+ * Positive when `a` wins over `b`, negative when `b` wins, 0 for the same
+ * operation
+ */
+export function compareOperations(
+  a: PositionOperation,
+  b: PositionOperation
+): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+  return a.clientId > b.clientId ? 1 : -1;
+}
+
+/**
+ * Last-writer-wins register per player and formation. Local moves get a
+ * clock above every operation seen so far; remote ones only apply when they
+ * win over the latest operation for the same player.
+ */
+export class LastWriterWinsMap {
+  private operations = new Map<string, PositionOperation>();
+  private clock = 0;
+
+  constructor(private readonly clientId: string) {}
+
+  public createOperation(
+    target: PositionOperationTarget,
+    position: { x: number; y: number }
+  ): PositionOperation {
+    this.clock += 1;
+
+    const operation: PositionOperation = {
+      ...target,
+      clientId: this.clientId,
+      clock: this.clock,
+      position: { x: position.x, y: position.y },
+      timestamp: Date.now(),
+    };
+    this.operations.set(getOperationKey(operation), operation);
+    return operation;
+  }
+
+  /**
+   * Applies a remote operation. Returns false when a newer one already won.
+   */
+  public apply(operation: PositionOperation): boolean {
+    this.clock = Math.max(this.clock, operation.clock);
+
+    const key = getOperationKey(operation);
+    const current = this.operations.get(key);
+    if (current && compareOperations(operation, current) <= 0) {
+      return false;
+    }
+
+    this.operations.set(key, operation);
+    return true;
+  }
+
+  // Latest operation per player, for bringing new collaborators up to date
+  public getOperations(): PositionOperation[] {
+    return Array.from(this.operations.values());
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Compact binary encoding helpers for share URLs
+ *
+ * ByteWriter/ByteReader pack values as variable-length integers, and
+ * compressBytes is an LZSS compressor (the LZ77 sliding-window scheme that
+ * deflate builds on). The output is made URL-safe with base64url.
+ */
+
+// Sliding window and match lengths that fit a 2-byte back-reference
+const WINDOW_SIZE = 4096;
+const MIN_MATCH = 3;
+const MAX_MATCH = 18;
+
+// Candidates checked per position; bounds the time on repetitive input
+const MAX_CHAIN_LENGTH = 64;
+
+// First byte of compressed data: how the rest is stored
+const METHOD_STORED = 0;
+const METHOD_LZSS = 1;
+
+/**
+ * Writes bytes and variable-length integers into a growing buffer
+ */
+export class ByteWriter {
+  private bytes: number[] = [];
+
+  writeByte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  writeBytes(values: Uint8Array): void {
+    values.forEach((value) => this.bytes.push(value));
+  }
+
+  /**
+   * Unsigned integer, 7 bits per byte. Uses arithmetic rather than bit
+   * operations so values up to 2^53 (e.g. timestamps) survive.
+   */
+  writeVarUint(value: number): void {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  /**
+   * Signed integer, zigzag-coded so small negative numbers stay short
+   */
+  writeVarInt(value: number): void {
+    const rounded = Math.round(value);
+    this.writeVarUint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  writeString(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.writeVarUint(encoded.length);
+    this.writeBytes(encoded);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Reads values written by ByteWriter; throws when the data runs out
+ */
+export class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get isAtEnd(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of data");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of data");
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readVarUint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+      if (multiplier > Number.MAX_SAFE_INTEGER) {
+        throw new Error("Variable-length integer is too large");
+      }
+    }
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readString(): string {
+    return new TextDecoder().decode(this.readBytes(this.readVarUint()));
+  }
+}
+
+/**
+ * Compresses bytes with LZSS. Each group of up to eight items starts with a
+ * flag byte; a set bit marks a 2-byte back-reference (12-bit distance,
+ * 4-bit length) and a clear bit a literal byte. Input that doesn't shrink
+ * is stored as-is.
+ */
+export function compressBytes(input: Uint8Array): Uint8Array {
+  const writer = new ByteWriter();
+  writer.writeByte(METHOD_LZSS);
+  writer.writeVarUint(input.length);
+
+  // Hash chains of earlier positions with the same 3-byte prefix
+  const head = new Map<number, number>();
+  const previous = new Int32Array(input.length).fill(-1);
+  const hashAt = (index: number) =>
+    (input[index] << 16) | (input[index + 1] << 8) | input[index + 2];
+  const insert = (index: number) => {
+    if (index + MIN_MATCH > input.length) return;
+    const hash = hashAt(index);
+    previous[index] = head.get(hash) ?? -1;
+    head.set(hash, index);
+  };
+
+  let group: number[] = [];
+  let flags = 0;
+  const flushGroup = () => {
+    writer.writeByte(flags);
+    group.forEach((byte) => writer.writeByte(byte));
+    group = [];
+    flags = 0;
+  };
+
+  let index = 0;
+  let item = 0;
+  while (index < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (index + MIN_MATCH <= input.length) {
+      let candidate = head.get(hashAt(index)) ?? -1;
+      let chain = 0;
+      while (
+        candidate >= 0 &&
+        index - candidate <= WINDOW_SIZE &&
+        chain++ < MAX_CHAIN_LENGTH
+      ) {
+        let length = 0;
+        while (
+          length < MAX_MATCH &&
+          index + length < input.length &&
+          input[candidate + length] === input[index + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = index - candidate;
+          if (length === MAX_MATCH) break;
+        }
+        candidate = previous[candidate];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const distance = bestDistance - 1;
+      flags |= 1 << item;
+      group.push(distance >> 4, ((distance & 0xf) << 4) | (bestLength - 3));
+      for (let i = 0; i < bestLength; i++) insert(index + i);
+      index += bestLength;
+    } else {
+      group.push(input[index]);
+      insert(index);
+      index++;
+    }
+
+    if (++item === 8) {
+      flushGroup();
+      item = 0;
+    }
+  }
+  if (item > 0) flushGroup();
+
+  const compressed = writer.toBytes();
+  if (compressed.length <= input.length) return compressed;
+
+  const stored = new ByteWriter();
+  stored.writeByte(METHOD_STORED);
+  stored.writeBytes(input);
+  return stored.toBytes();
+}
+
+/**
+ * Restores bytes compressed with compressBytes
+ */
+export function decompressBytes(input: Uint8Array): Uint8Array {
+  const reader = new ByteReader(input);
+  const method = reader.readByte();
+
+  if (method === METHOD_STORED) {
+    return input.slice(1);
+  }
+  if (method !== METHOD_LZSS) {
+    throw new Error(`Unknown compression method: ${method}`);
+  }
+
+  const length = reader.readVarUint();
+  const output = new Uint8Array(length);
+  let index = 0;
+
+  while (index < length) {
+    const flags = reader.readByte();
+    for (let item = 0; item < 8 && index < length; item++) {
+      if (flags & (1 << item)) {
+        const high = reader.readByte();
+        const low = reader.readByte();
+        const distance = ((high << 4) | (low >> 4)) + 1;
+        const matchLength = (low & 0xf) + 3;
+        if (distance > index || index + matchLength > length) {
+          throw new Error("Invalid back-reference in compressed data");
+        }
+        for (let i = 0; i < matchLength; i++) {
+          output[index] = output[index - distance];
+          index++;
+        }
+      } else {
+        output[index++] = reader.readByte();
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * URL-safe base64 without padding
+ */
+export function bytesToBase64URL(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+export function base64URLToBytes(encoded: string): Uint8Array {
+  let base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  while (base64.length % 4) {
+    base64 += "=";
+  }
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
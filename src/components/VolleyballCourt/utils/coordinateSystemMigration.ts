@@ -3,11 +3,11 @@
  * Provides tools to migrate between different coordinate systems and versions
  */
 
+import { PlayerPosition, Playbook } from "../types";
 import {
   CustomPositionsState,
-  PlayerPosition,
   StoredPositions,
-} from "../types";
+} from "../types/positioning";
 import { StateConverter } from "../volleyball-rules-engine/utils/StateConverter";
 import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
 import { COORDINATE_SYSTEM } from "../volleyball-rules-engine/types/CoordinateSystem";
@@ -108,6 +108,11 @@ export class CoordinateSystemMigration {
           for (const [formationKey, formationData] of Object.entries(
             rotationData
           )) {
+            // Annotations are stored next to formations and have no positions
+            if (formationKey === "annotations") {
+              continue;
+            }
+
             if (!formationData || typeof formationData !== "object") {
               warnings.push(
                 `Invalid formation data for ${systemKey}-${rotationKey}-${formationKey}`
@@ -188,6 +193,38 @@ export class CoordinateSystemMigration {
     }
   }
 
+  /**
+   * Migrate the single stored positions blob from before playbooks into a
+   * playbook. Positions that fail to migrate are kept as they were, so a
+   * partial failure never loses data.
+   * @param existingData - Stored positions from LocalStorageManager
+   * @param playbook - ID and name of the playbook to create
+   * @returns The playbook and the migration result
+   */
+  static migrateToPlaybook(
+    existingData: StoredPositions,
+    playbook: { id: string; name: string }
+  ): { playbook: Playbook; result: MigrationResult } {
+    const result = this.migrateToVolleyballSupport(existingData, {
+      addMetadata: false,
+    });
+    const positions =
+      result.migratedPositions?.positions ??
+      JSON.parse(JSON.stringify(existingData.positions));
+    const now = Date.now();
+
+    return {
+      playbook: {
+        id: playbook.id,
+        name: playbook.name,
+        positions,
+        createdAt: now,
+        updatedAt: now,
+      },
+      result,
+    };
+  }
+
   /**
    * Migrate a single player position
    * @param position - Original player position
@@ -298,10 +335,9 @@ export class CoordinateSystemMigration {
           for (const [formationKey, formationData] of Object.entries(
             rotationData
           )) {
-            if (
-              !["rotational", "serveReceive", "base"].includes(formationKey)
-            ) {
-              warnings.push(`Unknown formation: ${formationKey}`);
+            // Custom formations are stored under their ID like the built-ins
+            if (formationKey === "annotations") {
+              continue;
             }
 
             if (!formationData || typeof formationData !== "object") {
@@ -0,0 +1,209 @@
+/**
+ * Court annotation utilities
+ *
+ * Annotations (ball, movement arrows, text callouts and shaded zones) are
+ * stored per formation under `annotations` next to the positions of each
+ * rotation in CustomPositionsState, so they travel with stored and shared
+ * positions. Coordinates use the same court space as player positions.
+ */
+
+import {
+  AnnotationPoint,
+  ArrowAnnotation,
+  BallAnnotation,
+  CourtAnnotation,
+  CustomPositionsState,
+  FormationType,
+  TextAnnotation,
+  ZoneAnnotation,
+} from "../types/positioning";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "../courtCoordinates";
+
+export const DEFAULT_ARROW_CURVATURE = 0.25;
+
+const BASE_BOUNDS = { width: BASE_COURT_WIDTH, height: BASE_COURT_HEIGHT };
+
+let idCounter = 0;
+
+function createAnnotationId(type: CourtAnnotation["type"]): string {
+  idCounter += 1;
+  return `${type}_${Date.now()}_${idCounter}`;
+}
+
+/**
+ * Keeps a point inside the court
+ */
+export function clampAnnotationPoint(
+  point: AnnotationPoint,
+  bounds: { width: number; height: number } = BASE_BOUNDS
+): AnnotationPoint {
+  return {
+    x: Math.max(0, Math.min(bounds.width, point.x)),
+    y: Math.max(0, Math.min(bounds.height, point.y)),
+  };
+}
+
+export function createBallAnnotation(
+  point: AnnotationPoint = {
+    x: BASE_COURT_WIDTH / 2,
+    y: BASE_COURT_HEIGHT / 2,
+  }
+): BallAnnotation {
+  return { id: createAnnotationId("ball"), type: "ball", ...point };
+}
+
+export function createArrowAnnotation(
+  fromPlayerId: string,
+  to: AnnotationPoint,
+  curved: boolean = false
+): ArrowAnnotation {
+  return {
+    id: createAnnotationId("arrow"),
+    type: "arrow",
+    fromPlayerId,
+    to: { ...to },
+    curved,
+  };
+}
+
+export function createTextAnnotation(
+  text: string,
+  point: AnnotationPoint = {
+    x: BASE_COURT_WIDTH / 2,
+    y: BASE_COURT_HEIGHT / 2,
+  }
+): TextAnnotation {
+  return { id: createAnnotationId("text"), type: "text", text, ...point };
+}
+
+export function createZoneAnnotation(
+  x: number = BASE_COURT_WIDTH / 2 - 60,
+  y: number = BASE_COURT_HEIGHT / 2 - 40,
+  width: number = 120,
+  height: number = 80
+): ZoneAnnotation {
+  return { id: createAnnotationId("zone"), type: "zone", x, y, width, height };
+}
+
+/**
+ * SVG path for an arrow. Curved arrows bend to the left of the direction
+ * of travel by `curvature` times their length.
+ */
+export function getArrowPath(
+  from: AnnotationPoint,
+  to: AnnotationPoint,
+  curved: boolean = false,
+  curvature: number = DEFAULT_ARROW_CURVATURE
+): string {
+  if (!curved) {
+    return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+  }
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const controlX = (from.x + to.x) / 2 + dy * curvature;
+  const controlY = (from.y + to.y) / 2 - dx * curvature;
+
+  return `M ${from.x} ${from.y} Q ${controlX} ${controlY} ${to.x} ${to.y}`;
+}
+
+/**
+ * Moves an annotation by an offset (arrows move their target)
+ */
+export function moveAnnotation(
+  annotation: CourtAnnotation,
+  dx: number,
+  dy: number,
+  bounds: { width: number; height: number } = BASE_BOUNDS
+): CourtAnnotation {
+  if (annotation.type === "arrow") {
+    return {
+      ...annotation,
+      to: clampAnnotationPoint(
+        { x: annotation.to.x + dx, y: annotation.to.y + dy },
+        bounds
+      ),
+    };
+  }
+
+  return {
+    ...annotation,
+    ...clampAnnotationPoint(
+      { x: annotation.x + dx, y: annotation.y + dy },
+      bounds
+    ),
+  };
+}
+
+/**
+ * Annotations stored for a formation
+ */
+export function getFormationAnnotations(
+  positions: CustomPositionsState,
+  rotation: number,
+  formation: FormationType
+): CourtAnnotation[] {
+  return positions[rotation]?.annotations?.[formation] ?? [];
+}
+
+/**
+ * Returns a copy of the state with the annotations of a formation replaced
+ */
+export function setFormationAnnotations(
+  positions: CustomPositionsState,
+  rotation: number,
+  formation: FormationType,
+  annotations: CourtAnnotation[]
+): CustomPositionsState {
+  const rotationData = positions[rotation] ?? {
+    rotational: {},
+    serveReceive: {},
+    base: {},
+  };
+
+  return {
+    ...positions,
+    [rotation]: {
+      ...rotationData,
+      annotations: {
+        ...rotationData.annotations,
+        [formation]: annotations,
+      },
+    },
+  };
+}
+
+const isPoint = (value: unknown): value is AnnotationPoint =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as AnnotationPoint).x === "number" &&
+  typeof (value as AnnotationPoint).y === "number";
+
+/**
+ * Type guard for annotations loaded from URLs or storage
+ */
+export function isValidCourtAnnotation(
+  value: unknown
+): value is CourtAnnotation {
+  if (typeof value !== "object" || value === null) return false;
+
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.id !== "string") return false;
+
+  switch (obj.type) {
+    case "ball":
+      return isPoint(obj);
+    case "arrow":
+      return typeof obj.fromPlayerId === "string" && isPoint(obj.to);
+    case "text":
+      return isPoint(obj) && typeof obj.text === "string";
+    case "zone":
+      return (
+        isPoint(obj) &&
+        typeof obj.width === "number" &&
+        typeof obj.height === "number"
+      );
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Court description utilities
+ *
+ * Text for screen readers and keyboard users: where each player stands, in
+ * meters from the left sideline and the net, and plain-language explanations
+ * of overlap violations. Positions are in court coordinates. Text is in the
+ * language of the given localization, English by default.
+ */
+
+import {
+  FormationOption,
+  FormationType,
+  Localization,
+  PlayerDefinition,
+  PlayerPosition,
+  SystemType,
+  ValidationPolicy,
+} from "../types";
+import type { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "../volleyball-rules-engine/types/RuleSet";
+import { VolleyballRulesEngine } from "../volleyball-rules-engine/VolleyballRulesEngine";
+import { PositionHelpers } from "../volleyball-rules-engine/utils/PositionHelpers";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+import { StateConverter } from "../volleyball-rules-engine/utils/StateConverter";
+import { DEFAULT_LOCALIZATION } from "./localization";
+import { getValidationPolicy } from "./validationPolicies";
+
+// Arrow key steps in court coordinates: about 10 cm, or 50 cm with Shift
+export const KEYBOARD_NUDGE_STEP = 6;
+export const KEYBOARD_COARSE_NUDGE_STEP = 30;
+
+// Front row left to right, then back row left to right
+const DESCRIPTION_SLOT_ORDER: RotationSlot[] = [4, 3, 2, 5, 6, 1];
+
+// Players and lineup being described
+export interface CourtDescriptionContext {
+  players: PlayerDefinition[];
+  positions: Record<string, PlayerPosition>;
+  rotationMap: Record<number, string>;
+  system: SystemType;
+  rotation: number; // 0-based
+  formation: FormationType;
+  formationOptions?: FormationOption[]; // Names of custom formations
+  validationPolicy?: ValidationPolicy; // Default policy of the formation if missing
+  serverSlot?: RotationSlot | null; // null when the other team serves
+}
+
+/**
+ * Formation name as it is read out, e.g. "serve receive". Custom formations
+ * use the name of their option, or their ID.
+ */
+export function getFormationLabel(
+  formation: FormationType,
+  localization: Localization = DEFAULT_LOCALIZATION,
+  formationOptions: FormationOption[] = []
+): string {
+  const key = `formation.name.${formation}`;
+  const label = localization.t(key);
+  if (label !== key) return label;
+
+  return (
+    formationOptions.find((option) => option.id === formation)?.name ??
+    formation
+  );
+}
+
+/**
+ * Player name with their number, e.g. "Outside 1 (#3)"
+ */
+export function getPlayerLabel(
+  playerId: string,
+  players: PlayerDefinition[]
+): string {
+  const player = players.find((candidate) => candidate.id === playerId);
+  if (!player) return playerId;
+  return player.number !== undefined
+    ? `${player.name} (#${player.number})`
+    : player.name;
+}
+
+/**
+ * Distance from the left sideline and the net, e.g.
+ * "2.3 m from the left sideline, 1.5 m from the net"
+ */
+export function describePlayerLocation(
+  position: { x: number; y: number },
+  localization: Localization = DEFAULT_LOCALIZATION
+): string {
+  const { x, y } = CoordinateTransformer.screenToVolleyball(
+    position.x,
+    position.y
+  );
+  return localization.t("court.location", {
+    x: localization.formatNumber(x),
+    y: localization.formatNumber(y),
+  });
+}
+
+/**
+ * The whole court as one paragraph: system, rotation and formation, then
+ * every player on court by zone, front row first
+ */
+export function describeCourt(
+  context: CourtDescriptionContext,
+  localization: Localization = DEFAULT_LOCALIZATION
+): string {
+  const { players, positions, rotationMap, serverSlot } = context;
+
+  const playerLines = DESCRIPTION_SLOT_ORDER.flatMap((slot) => {
+    const playerId = rotationMap[slot];
+    const position = playerId ? positions[playerId] : undefined;
+    if (!position) return [];
+
+    const { fullName } = PositionHelpers.getPositionDescription(
+      slot,
+      localization.locale
+    );
+    return [
+      localization.t(
+        slot === serverSlot ? "court.playerServing" : "court.player",
+        {
+          slot,
+          position: fullName,
+          player: getPlayerLabel(playerId, players),
+          location: describePlayerLocation(position, localization),
+        }
+      ),
+    ];
+  });
+
+  return [
+    localization.t("court.summary", {
+      system: context.system,
+      rotation: context.rotation + 1,
+      formation: getFormationLabel(
+        context.formation,
+        localization,
+        context.formationOptions
+      ),
+    }),
+    ...playerLines,
+  ].join(" ");
+}
+
+/**
+ * Plain-language explanation of every overlap violation in the lineup,
+ * naming the players involved. Nothing when the formation's policy doesn't
+ * apply the overlap rules.
+ */
+export function explainLineupViolations(
+  context: CourtDescriptionContext,
+  ruleSet?: RuleSetName | RuleSet,
+  localization: Localization = DEFAULT_LOCALIZATION
+): string[] {
+  const policy =
+    context.validationPolicy ?? getValidationPolicy(context.formation);
+  if (!policy.overlap) return [];
+
+  try {
+    // The rules engine needs a server, so a receiving lineup is checked as
+    // if slot 1 served
+    const lineup = StateConverter.formationToVolleyballStates(
+      context.positions,
+      context.rotationMap,
+      context.serverSlot ?? 1
+    ).map((state) => ({
+      ...state,
+      displayName: getPlayerLabel(state.id, context.players),
+    }));
+    if (lineup.length < DESCRIPTION_SLOT_ORDER.length) return [];
+
+    const { violations } = VolleyballRulesEngine.validateLineup(lineup, {
+      ruleSet,
+    });
+    return violations.map((violation) =>
+      VolleyballRulesEngine.explainViolation(
+        violation,
+        lineup,
+        ruleSet,
+        localization.locale
+      )
+    );
+  } catch (error) {
+    console.warn("Error explaining lineup violations:", error);
+    return [];
+  }
+}
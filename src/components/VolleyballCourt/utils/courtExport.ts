@@ -0,0 +1,504 @@
+/**
+ * Court export utilities
+ *
+ * Renders the court and players to a standalone SVG document and serializes
+ * position data, so formations can be saved as SVG, PNG, PDF, JSON or CSV
+ * without relying on the live DOM.
+ */
+
+import {
+  PLAYER_RADIUS,
+  PositionData,
+  PlayerDefinition,
+  ExportFormat,
+  ExportResult,
+} from "../types";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "../courtCoordinates";
+import { createPDFDocument, PDFPage } from "./pdfBuilder";
+
+/**
+ * A single rotation to export
+ */
+export interface CourtExportPage {
+  data: PositionData;
+  players: PlayerDefinition[];
+  title?: string;
+}
+
+/**
+ * Visual options for the exported court
+ */
+export interface CourtSVGOptions {
+  width?: number;
+  height?: number;
+  theme?: "light" | "dark";
+  courtColor?: string;
+  showZones?: boolean;
+  showGrid?: boolean;
+}
+
+/**
+ * Options for producing an export file
+ */
+export interface CourtExportOptions extends CourtSVGOptions {
+  filename?: string;
+  includeMetadata?: boolean;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  json: "application/json",
+  csv: "text/csv",
+};
+
+const IMAGE_EXPORT_FORMATS: ExportFormat[] = ["png", "svg", "pdf"];
+
+const FONT_FAMILY = "system-ui, -apple-system, sans-serif";
+
+/**
+ * Whether the format produces an image (as opposed to position data)
+ */
+export function isImageExportFormat(format: ExportFormat): boolean {
+  return IMAGE_EXPORT_FORMATS.includes(format);
+}
+
+/**
+ * Escapes text for use in SVG/XML content and attributes
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Renders the court markings, matching CourtVisualization
+ */
+function renderCourt(options: CourtSVGOptions): string {
+  const {
+    theme = "light",
+    courtColor,
+    showZones = true,
+    showGrid = false,
+  } = options;
+  const isDark = theme === "dark";
+  const width = BASE_COURT_WIDTH;
+  const height = BASE_COURT_HEIGHT;
+
+  const colors = {
+    courtBackground: courtColor || (isDark ? "#374151" : "#f7f7f9"),
+    courtBorder: isDark ? "#6b7280" : "#ccc",
+    netLine: isDark ? "#e5e7eb" : "#333",
+    attackLine: isDark ? "#9ca3af" : "#aaa",
+    positionMarker: isDark ? "#4b5563" : "#ddd",
+    positionText: isDark ? "#9ca3af" : "#666",
+    gridLines: isDark ? "#4b5563" : "#e5e7eb",
+  };
+
+  const basePositions: Record<number, { x: number; y: number }> = {
+    1: { x: width * 0.78, y: height * 0.82 },
+    2: { x: width * 0.78, y: height * 0.42 },
+    3: { x: width * 0.5, y: height * 0.42 },
+    4: { x: width * 0.22, y: height * 0.42 },
+    5: { x: width * 0.22, y: height * 0.82 },
+    6: { x: width * 0.5, y: height * 0.82 },
+  };
+
+  const parts: string[] = [
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="${colors.courtBackground}" stroke="${colors.courtBorder}" stroke-width="2" rx="8" ry="8"/>`,
+  ];
+
+  if (showGrid) {
+    parts.push(
+      `<g class="court-grid" opacity="0.3">`,
+      ...[0.33, 0.67].map(
+        (ratio) =>
+          `<line x1="${round(width * ratio)}" y1="0" x2="${round(
+            width * ratio
+          )}" y2="${height}" stroke="${colors.gridLines}" stroke-width="1" stroke-dasharray="2 2"/>`
+      ),
+      ...[0.5, 0.7].map(
+        (ratio) =>
+          `<line x1="0" y1="${round(height * ratio)}" x2="${width}" y2="${round(
+            height * ratio
+          )}" stroke="${colors.gridLines}" stroke-width="1" stroke-dasharray="2 2"/>`
+      ),
+      `</g>`
+    );
+  }
+
+  parts.push(
+    `<line class="net-line" x1="0" y1="${round(height * 0.12)}" x2="${width}" y2="${round(
+      height * 0.12
+    )}" stroke="${colors.netLine}" stroke-width="3"/>`,
+    `<line class="attack-line" x1="0" y1="${round(height * 0.3)}" x2="${width}" y2="${round(
+      height * 0.3
+    )}" stroke="${colors.attackLine}" stroke-width="2" stroke-dasharray="6 4"/>`
+  );
+
+  if (showZones) {
+    parts.push(
+      `<g class="court-zones" opacity="0.1">`,
+      `<rect x="0" y="${round(height * 0.12)}" width="${width}" height="${round(
+        height * 0.18
+      )}" fill="${colors.attackLine}"/>`,
+      `<rect x="0" y="${round(height * 0.3)}" width="${width}" height="${round(
+        height * 0.7
+      )}" fill="${colors.positionMarker}"/>`,
+      `</g>`
+    );
+  }
+
+  parts.push(`<g class="position-markers">`);
+  Object.entries(basePositions).forEach(([position, coords]) => {
+    parts.push(
+      `<circle cx="${round(coords.x)}" cy="${round(coords.y)}" r="6" fill="${
+        colors.positionMarker
+      }" stroke="${colors.courtBorder}" stroke-width="1" opacity="0.6"/>`,
+      `<text x="${round(coords.x + 12)}" y="${round(
+        coords.y + 4
+      )}" font-size="12" fill="${
+        colors.positionText
+      }" font-family="${FONT_FAMILY}" font-weight="500">${position}</text>`
+    );
+  });
+  parts.push(`</g>`);
+
+  parts.push(
+    `<g class="court-labels" opacity="0.7">`,
+    `<text x="${width / 2}" y="${round(height * 0.06)}" font-size="14" fill="${
+      colors.positionText
+    }" text-anchor="middle" font-family="${FONT_FAMILY}" font-weight="600">Net</text>`,
+    `<text x="${width / 2}" y="${round(height * 0.25)}" font-size="12" fill="${
+      colors.positionText
+    }" text-anchor="middle" font-family="${FONT_FAMILY}" opacity="0.8">Attack Line</text>`,
+    `</g>`
+  );
+
+  return parts.join("");
+}
+
+/**
+ * Renders the players, matching the resting style of EnhancedDraggablePlayer
+ */
+function renderPlayers(page: CourtExportPage): string {
+  const { positions } = page.data;
+
+  return page.players
+    .filter((player) => positions[player.id])
+    .map((player) => {
+      const position = positions[player.id];
+      const isLibero = player.role === "L";
+      const fill = isLibero
+        ? "#f97316"
+        : position.isCustom
+        ? "#10b981"
+        : "#3b82f6";
+      const stroke = isLibero
+        ? "#c2410c"
+        : position.isCustom
+        ? "#065f46"
+        : "#1e40af";
+
+      return [
+        `<g class="player" data-player-id="${escapeXML(
+          player.id
+        )}" transform="translate(${round(position.x)}, ${round(
+          position.y
+        )})">`,
+        `<circle cx="0" cy="0" r="${PLAYER_RADIUS}" fill="${fill}" stroke="${stroke}" stroke-width="2"/>`,
+        isLibero
+          ? `<circle cx="0" cy="0" r="${
+              PLAYER_RADIUS - 4
+            }" fill="none" stroke="white" stroke-width="2"/>`
+          : "",
+        `<text x="0" y="6" font-size="12" text-anchor="middle" fill="white" font-family="${FONT_FAMILY}" font-weight="bold">${escapeXML(
+          player.id
+        )}</text>`,
+        `</g>`,
+      ].join("");
+    })
+    .join("");
+}
+
+/**
+ * Renders a rotation to a standalone SVG document
+ */
+export function createCourtSVG(
+  page: CourtExportPage,
+  options: CourtSVGOptions = {}
+): string {
+  const { width = BASE_COURT_WIDTH, height = BASE_COURT_HEIGHT } = options;
+  const title = page.title ?? getDefaultPageTitle(page.data);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${BASE_COURT_WIDTH} ${BASE_COURT_HEIGHT}" preserveAspectRatio="xMidYMid meet">`,
+    `<title>${escapeXML(title)}</title>`,
+    renderCourt(options),
+    `<g class="players-layer">${renderPlayers(page)}</g>`,
+    `</svg>`,
+  ].join("");
+}
+
+/**
+ * Default heading for an exported rotation, e.g. "5-1 · Rotation 1 · Base"
+ */
+export function getDefaultPageTitle(data: PositionData): string {
+  const formationLabels: Record<PositionData["formation"], string> = {
+    rotational: "Rotational",
+    serveReceive: "Serve/Receive",
+    base: "Base",
+  };
+
+  return `${data.system} · Rotation ${data.rotation + 1} · ${
+    formationLabels[data.formation]
+  }`;
+}
+
+/**
+ * Serializes position data to JSON
+ */
+export function serializePositionsToJSON(
+  data: PositionData[],
+  includeMetadata: boolean = true
+): string {
+  const rotations = data.map((entry) => ({
+    system: entry.system,
+    rotation: entry.rotation,
+    formation: entry.formation,
+    positions: Object.fromEntries(
+      Object.entries(entry.positions).map(([playerId, position]) => [
+        playerId,
+        { x: round(position.x), y: round(position.y), isCustom: position.isCustom },
+      ])
+    ),
+    ...(includeMetadata
+      ? { timestamp: entry.timestamp, changeType: entry.changeType }
+      : {}),
+  }));
+
+  return JSON.stringify(
+    includeMetadata
+      ? { exportedAt: new Date().toISOString(), rotations }
+      : { rotations },
+    null,
+    2
+  );
+}
+
+function escapeCSV(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes position data to CSV with one row per player per rotation
+ */
+export function serializePositionsToCSV(
+  data: PositionData[],
+  players: PlayerDefinition[] = []
+): string {
+  const header = [
+    "system",
+    "rotation",
+    "formation",
+    "playerId",
+    "name",
+    "role",
+    "x",
+    "y",
+    "isCustom",
+  ];
+
+  const rows = data.flatMap((entry) =>
+    Object.entries(entry.positions).map(([playerId, position]) => {
+      const player = players.find((p) => p.id === playerId);
+      return [
+        entry.system,
+        entry.rotation,
+        entry.formation,
+        playerId,
+        player?.name ?? "",
+        player?.role ?? "",
+        round(position.x),
+        round(position.y),
+        Boolean(position.isCustom),
+      ]
+        .map(escapeCSV)
+        .join(",");
+    })
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * Rasterizes an SVG document to an image blob using a canvas
+ */
+export function rasterizeSVG(
+  svg: string,
+  width: number,
+  height: number,
+  mimeType: "image/png" | "image/jpeg" = "image/png",
+  quality: number = 0.92
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+
+      // JPEG has no alpha channel, so paint a white page first
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0, width, height);
+
+      canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(new Error("Failed to rasterize court image")),
+        mimeType,
+        quality
+      );
+    };
+    image.onerror = () => reject(new Error("Failed to load court SVG"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/**
+ * Reads a blob into bytes (Blob.arrayBuffer is missing in some environments)
+ */
+function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Produces an export file for the given rotations
+ *
+ * SVG, PNG, JSON and CSV use the first page for images and all pages for
+ * data; PDF renders one page per rotation.
+ */
+export async function createCourtExport(
+  format: ExportFormat,
+  pages: CourtExportPage[],
+  options: CourtExportOptions = {}
+): Promise<ExportResult> {
+  if (pages.length === 0) {
+    throw new Error("Nothing to export");
+  }
+
+  const {
+    width = BASE_COURT_WIDTH,
+    height = BASE_COURT_HEIGHT,
+    includeMetadata = true,
+  } = options;
+  const mimeType = EXPORT_MIME_TYPES[format];
+  const filename = `${options.filename ?? getDefaultFilename(pages[0].data)}.${format}`;
+
+  let blob: Blob;
+  switch (format) {
+    case "svg":
+      blob = new Blob([createCourtSVG(pages[0], options)], { type: mimeType });
+      break;
+    case "png":
+      blob = await rasterizeSVG(
+        createCourtSVG(pages[0], options),
+        width,
+        height
+      );
+      break;
+    case "pdf": {
+      const pdfPages: PDFPage[] = [];
+      for (const page of pages) {
+        const jpeg = await rasterizeSVG(
+          createCourtSVG(page, options),
+          width,
+          height,
+          "image/jpeg"
+        );
+        pdfPages.push({
+          title: page.title ?? getDefaultPageTitle(page.data),
+          image: { data: await readBlobBytes(jpeg), width, height },
+        });
+      }
+      blob = new Blob([createPDFDocument(pdfPages) as BlobPart], {
+        type: mimeType,
+      });
+      break;
+    }
+    case "json":
+      blob = new Blob(
+        [
+          serializePositionsToJSON(
+            pages.map((page) => page.data),
+            includeMetadata
+          ),
+        ],
+        { type: mimeType }
+      );
+      break;
+    case "csv":
+      blob = new Blob(
+        [
+          serializePositionsToCSV(
+            pages.map((page) => page.data),
+            pages[0].players
+          ),
+        ],
+        { type: mimeType }
+      );
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  return { format, filename, mimeType, blob };
+}
+
+/**
+ * Default file name (without extension) for an export
+ */
+export function getDefaultFilename(data: PositionData): string {
+  return `volleyball-${data.system}-rotation-${data.rotation + 1}-${
+    data.formation
+  }`;
+}
+
+/**
+ * Triggers a browser download of the exported file
+ */
+export function downloadExport(result: ExportResult): void {
+  const url = URL.createObjectURL(result.blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = result.filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
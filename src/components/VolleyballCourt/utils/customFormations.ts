@@ -0,0 +1,111 @@
+/**
+ * Custom formation utilities
+ *
+ * Custom formations (serve, defense, free ball, down ball, coverage,
+ * transition, ...) are defined with a FormationDefinition. Their positions
+ * are stored next to the built-in formations under the formation ID, and
+ * their default positions start from a built-in formation with optional
+ * per-player overrides from the definition. Which checks apply to a
+ * formation is up to its validation policy (see validationPolicies).
+ */
+
+import {
+  BuiltInFormationType,
+  FormationDefinition,
+  FormationOption,
+  FormationType,
+  PlayerPosition,
+} from "../types";
+
+export const BUILT_IN_FORMATIONS: BuiltInFormationType[] = [
+  "rotational",
+  "serveReceive",
+  "base",
+];
+
+export const BUILT_IN_FORMATION_OPTIONS: FormationOption[] = [
+  { id: "rotational", name: "Rotational" },
+  { id: "serveReceive", name: "Serve/Receive" },
+  { id: "base", name: "Base" },
+];
+
+// Keys of stored formation positions that are not formations
+export const RESERVED_FORMATION_IDS = ["annotations"];
+
+/**
+ * Checks whether a formation is one of the built-in rotational, serve receive
+ * and base formations
+ */
+export function isBuiltInFormation(
+  formation: FormationType
+): formation is BuiltInFormationType {
+  return (BUILT_IN_FORMATIONS as string[]).includes(formation);
+}
+
+/**
+ * Finds the definition of a custom formation
+ */
+export function getFormationDefinition(
+  formations: FormationDefinition[] = [],
+  formation: FormationType
+): FormationDefinition | null {
+  if (isBuiltInFormation(formation)) return null;
+  return formations.find((definition) => definition.id === formation) ?? null;
+}
+
+/**
+ * Formations for the formation selector, in order. Custom formations go
+ * after the built-ins unless their order puts them in between.
+ */
+export function getFormationOptions(
+  formations: FormationDefinition[] = []
+): FormationOption[] {
+  const custom = formations.filter(
+    (definition) =>
+      !isBuiltInFormation(definition.id) &&
+      !RESERVED_FORMATION_IDS.includes(definition.id)
+  );
+
+  return [
+    ...BUILT_IN_FORMATION_OPTIONS.map((option, order) => ({ option, order })),
+    ...custom.map((definition, index) => ({
+      option: { id: definition.id, name: definition.name },
+      order: definition.order ?? BUILT_IN_FORMATIONS.length + index,
+    })),
+  ]
+    .sort((a, b) => a.order - b.order)
+    .map(({ option }) => option);
+}
+
+/**
+ * Built-in formation a formation's default positions start from
+ */
+export function getBaseFormation(
+  formation: FormationType,
+  formations: FormationDefinition[] = []
+): BuiltInFormationType {
+  if (isBuiltInFormation(formation)) return formation;
+  return getFormationDefinition(formations, formation)?.basedOn ?? "base";
+}
+
+/**
+ * Applies a custom formation's default position overrides for a rotation
+ */
+export function applyFormationDefaultPositions(
+  positions: Record<string, PlayerPosition>,
+  definition: FormationDefinition | null,
+  rotation: number
+): Record<string, PlayerPosition> {
+  const overrides = definition?.defaultPositions?.[rotation];
+  if (!overrides) return positions;
+
+  const merged = { ...positions };
+  for (const [playerId, position] of Object.entries(overrides)) {
+    // Only players in this rotation have positions to override
+    if (merged[playerId]) {
+      merged[playerId] = { ...position, isCustom: false };
+    }
+  }
+
+  return merged;
+}
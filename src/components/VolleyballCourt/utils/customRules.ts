@@ -0,0 +1,291 @@
+/**
+ * Custom rule utilities
+ *
+ * Team-specific rules from ValidationConfig.customRules, checked alongside the
+ * overlap rules. A rule is either a validator function or a condition written
+ * as data ("the setter stands within 1 m of the right sideline"), which can be
+ * shared in links. Conditions are in meters from the left sideline (x) and the
+ * net (y); positions are in court coordinates.
+ */
+
+import {
+  CustomRuleCondition,
+  CustomRuleConfig,
+  CustomRuleTarget,
+  CustomRuleViolation,
+  FormationType,
+  PlayerPosition,
+  ValidationContext,
+} from "../types";
+import { COORDINATE_SYSTEM } from "../volleyball-rules-engine/types/CoordinateSystem";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+
+// Area a condition keeps players in, in meters
+export interface CustomRuleArea {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+const SEVERITIES = ["error", "warning", "info"];
+const COURT_LINES = ["leftSideline", "rightSideline", "net", "endline"];
+
+/**
+ * Whether a rule is checked in the formation
+ */
+export function isCustomRuleActive(
+  rule: CustomRuleConfig,
+  formation: FormationType
+): boolean {
+  return (
+    rule.enabled && (!rule.formations || rule.formations.includes(formation))
+  );
+}
+
+/**
+ * The area a condition allows, unbounded sides extending past the court
+ */
+export function getConditionArea(
+  condition: CustomRuleCondition
+): CustomRuleArea {
+  const { COURT_WIDTH, COURT_LENGTH } = COORDINATE_SYSTEM;
+
+  if (condition.type === "area") {
+    return {
+      minX: condition.minX ?? -Infinity,
+      maxX: condition.maxX ?? Infinity,
+      minY: condition.minY ?? -Infinity,
+      maxY: condition.maxY ?? Infinity,
+    };
+  }
+
+  const min = condition.min ?? -Infinity;
+  const max = condition.max ?? Infinity;
+  const area = {
+    minX: -Infinity,
+    maxX: Infinity,
+    minY: -Infinity,
+    maxY: Infinity,
+  };
+  switch (condition.line) {
+    case "leftSideline":
+      return { ...area, minX: min, maxX: max };
+    case "rightSideline":
+      return { ...area, minX: COURT_WIDTH - max, maxX: COURT_WIDTH - min };
+    case "net":
+      return { ...area, minY: min, maxY: max };
+    case "endline":
+      return { ...area, minY: COURT_LENGTH - max, maxY: COURT_LENGTH - min };
+  }
+}
+
+/**
+ * Players on court that a condition applies to
+ */
+export function resolveRuleTargets(
+  target: CustomRuleTarget,
+  context: Pick<ValidationContext, "rotationMap" | "players">
+): string[] {
+  const onCourt = Object.entries(context.rotationMap ?? {});
+
+  return onCourt
+    .filter(([slot, playerId]) => {
+      if (target.playerId !== undefined && playerId !== target.playerId)
+        return false;
+      if (target.slot !== undefined && Number(slot) !== target.slot)
+        return false;
+      if (target.role !== undefined) {
+        const player = context.players?.find(
+          (candidate) => candidate.id === playerId
+        );
+        if (player?.role !== target.role) return false;
+      }
+      return true;
+    })
+    .map(([, playerId]) => playerId);
+}
+
+const isInArea = (position: PlayerPosition, area: CustomRuleArea) => {
+  const { x, y } = CoordinateTransformer.screenToVolleyball(
+    position.x,
+    position.y
+  );
+  return x >= area.minX && x <= area.maxX && y >= area.minY && y <= area.maxY;
+};
+
+/**
+ * Checks the lineup against every active rule. A validator that throws is
+ * reported and treated as passing.
+ */
+export function evaluateCustomRules(
+  rules: CustomRuleConfig[],
+  positions: Record<string, PlayerPosition>,
+  context: ValidationContext
+): CustomRuleViolation[] {
+  const violations: CustomRuleViolation[] = [];
+
+  rules
+    .filter((rule) => isCustomRuleActive(rule, context.formation))
+    .forEach((rule) => {
+      const affectedPlayers = new Set<string>();
+      let passes = true;
+
+      if (rule.condition) {
+        const area = getConditionArea(rule.condition);
+        resolveRuleTargets(rule.condition.target, context).forEach(
+          (playerId) => {
+            const position = positions[playerId];
+            if (position && !isInArea(position, area)) {
+              affectedPlayers.add(playerId);
+              passes = false;
+            }
+          }
+        );
+      }
+
+      if (rule.validator) {
+        try {
+          passes = rule.validator(positions, context) && passes;
+        } catch (error) {
+          console.warn(`Error in custom rule ${rule.id}:`, error);
+        }
+      }
+
+      if (!passes) {
+        violations.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          message: rule.message,
+          severity: rule.severity,
+          affectedPlayers: Array.from(affectedPlayers),
+        });
+      }
+    });
+
+  return violations;
+}
+
+/**
+ * Where the data rules let a player stand: the overlap of their areas, or
+ * null when no such rule applies to the player
+ */
+export function getRuleAreaForPlayer(
+  rules: CustomRuleConfig[],
+  playerId: string,
+  context: Pick<ValidationContext, "formation" | "rotationMap" | "players">
+): CustomRuleArea | null {
+  let result: CustomRuleArea | null = null;
+
+  rules.forEach((rule) => {
+    if (
+      !rule.condition ||
+      !isCustomRuleActive(rule, context.formation) ||
+      !resolveRuleTargets(rule.condition.target, context).includes(playerId)
+    ) {
+      return;
+    }
+
+    const area = getConditionArea(rule.condition);
+    result = result
+      ? {
+          minX: Math.max(result.minX, area.minX),
+          maxX: Math.min(result.maxX, area.maxX),
+          minY: Math.max(result.minY, area.minY),
+          maxY: Math.min(result.maxY, area.maxY),
+        }
+      : area;
+  });
+
+  return result;
+}
+
+/**
+ * Where the drag-constraining rules let a player stand, or null when no
+ * such rule applies to the player
+ */
+export function getCustomRuleArea(
+  rules: CustomRuleConfig[],
+  playerId: string,
+  context: Pick<ValidationContext, "formation" | "rotationMap" | "players">
+): CustomRuleArea | null {
+  return getRuleAreaForPlayer(
+    rules.filter((rule) => rule.constrainDrag),
+    playerId,
+    context
+  );
+}
+
+/**
+ * Rules that can be shared in a link: data rules without their validator
+ * functions. Rules that are only a validator are left out.
+ */
+export function serializeCustomRules(
+  rules: CustomRuleConfig[]
+): CustomRuleConfig[] {
+  return rules
+    .filter((rule) => rule.condition)
+    .map((rule) => {
+      const shared = { ...rule };
+      delete shared.validator;
+      return shared;
+    });
+}
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || typeof value === "number";
+
+const isValidTarget = (value: unknown): value is CustomRuleTarget => {
+  if (!value || typeof value !== "object") return false;
+  const target = value as Record<string, unknown>;
+  return (
+    (target.playerId === undefined || typeof target.playerId === "string") &&
+    (target.role === undefined || typeof target.role === "string") &&
+    isOptionalNumber(target.slot)
+  );
+};
+
+const isValidCondition = (value: unknown): value is CustomRuleCondition => {
+  if (!value || typeof value !== "object") return false;
+  const condition = value as Record<string, unknown>;
+  if (!isValidTarget(condition.target)) return false;
+
+  if (condition.type === "distanceFromLine") {
+    return (
+      COURT_LINES.includes(condition.line as string) &&
+      isOptionalNumber(condition.min) &&
+      isOptionalNumber(condition.max)
+    );
+  }
+  return (
+    condition.type === "area" &&
+    ["minX", "maxX", "minY", "maxY"].every((key) =>
+      isOptionalNumber(condition[key])
+    )
+  );
+};
+
+/**
+ * Data rules from a shared link or other JSON, skipping malformed entries
+ */
+export function parseCustomRules(value: unknown): CustomRuleConfig[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((rule): rule is CustomRuleConfig => {
+    if (!rule || typeof rule !== "object") return false;
+    const candidate = rule as Record<string, unknown>;
+    return (
+      typeof candidate.id === "string" &&
+      typeof candidate.name === "string" &&
+      typeof candidate.description === "string" &&
+      typeof candidate.enabled === "boolean" &&
+      typeof candidate.message === "string" &&
+      SEVERITIES.includes(candidate.severity as string) &&
+      isValidCondition(candidate.condition) &&
+      (candidate.formations === undefined ||
+        Array.isArray(candidate.formations)) &&
+      (candidate.constrainDrag === undefined ||
+        typeof candidate.constrainDrag === "boolean")
+    );
+  });
+}
@@ -0,0 +1,300 @@
+/**
+ * Custom system utilities
+ *
+ * Custom systems (4-2, 6-0, 6-6, coed line-ups, ...) are defined with a
+ * SystemDefinition. Their players and rotations are merged into the config
+ * under the system ID, so the rest of the component treats them like 5-1 and
+ * 6-2. Default positions come from the zone defaults for each rotation slot,
+ * or from player roles with config.defaultLineup.roleAware, with optional
+ * per-player overrides from the definition. Custom formations start from the
+ * defaults of the formation they are based on.
+ */
+
+import {
+  BuiltInSystemType,
+  DefaultLineupConfig,
+  FormationDefinition,
+  FormationType,
+  LiberoConfig,
+  PlayerDefinition,
+  PlayerPosition,
+  RotationMapping,
+  SystemDefinition,
+  SystemOption,
+  SystemType,
+  ViolationData,
+} from "../types";
+import {
+  applyFormationDefaultPositions,
+  getBaseFormation,
+  getFormationDefinition,
+} from "./customFormations";
+import { getDefaultPositionsWithRotation } from "./defaultPositions";
+import { getLiberoSwap } from "./liberoSubstitution";
+import { generateDefaultLineup } from "./lineupGenerator";
+
+export const BUILT_IN_SYSTEMS: BuiltInSystemType[] = ["5-1", "6-2"];
+
+export const BUILT_IN_SYSTEM_OPTIONS: SystemOption[] = BUILT_IN_SYSTEMS.map(
+  (id) => ({ id, name: id })
+);
+
+/**
+ * Checks whether a system is one of the built-in 5-1 and 6-2 systems
+ */
+export function isBuiltInSystem(
+  system: SystemType
+): system is BuiltInSystemType {
+  return (BUILT_IN_SYSTEMS as string[]).includes(system);
+}
+
+/**
+ * Systems for the system selector: the built-ins followed by custom systems
+ */
+export function getSystemOptions(
+  systems: SystemDefinition[] = []
+): SystemOption[] {
+  return [
+    ...BUILT_IN_SYSTEM_OPTIONS,
+    ...systems
+      .filter((definition) => !isBuiltInSystem(definition.id))
+      .map((definition) => ({ id: definition.id, name: definition.name })),
+  ];
+}
+
+/**
+ * Finds the definition of a custom system
+ */
+export function getSystemDefinition(
+  systems: SystemDefinition[] = [],
+  system: SystemType
+): SystemDefinition | null {
+  return systems.find((definition) => definition.id === system) ?? null;
+}
+
+/**
+ * Six rotations from a starting line-up, moving each player one slot
+ * clockwise per rotation
+ */
+export function createSystemRotations(
+  startingLineup: RotationMapping
+): RotationMapping[] {
+  return Array.from({ length: 6 }, (_, rotation) => {
+    const rotationMap: RotationMapping = {};
+    for (let slot = 1; slot <= 6; slot++) {
+      rotationMap[slot] = startingLineup[((slot - rotation - 1 + 6) % 6) + 1];
+    }
+    return rotationMap;
+  });
+}
+
+/**
+ * Applies a definition's default position overrides for a rotation and
+ * formation on top of the zone defaults
+ */
+export function applySystemDefaultPositions(
+  positions: Record<string, PlayerPosition>,
+  definition: SystemDefinition | null,
+  rotation: number,
+  formation: FormationType
+): Record<string, PlayerPosition> {
+  const overrides = definition?.defaultPositions?.[rotation]?.[formation];
+  if (!overrides) return positions;
+
+  const merged = { ...positions };
+  for (const [playerId, position] of Object.entries(overrides)) {
+    // Only players in this rotation have positions to override
+    if (merged[playerId]) {
+      merged[playerId] = { ...position, isCustom: false };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Checks that genders alternate around the serving order (coed rules).
+ * Players without a gender are skipped.
+ */
+export function validateGenderAlternation(
+  rotationMap: RotationMapping,
+  players: PlayerDefinition[]
+): Pick<ViolationData, "code" | "message" | "affectedPlayers">[] {
+  const issues: Pick<ViolationData, "code" | "message" | "affectedPlayers">[] =
+    [];
+
+  for (let slot = 1; slot <= 6; slot++) {
+    const nextSlot = (slot % 6) + 1;
+    const player = players.find((p) => p.id === rotationMap[slot]);
+    const nextPlayer = players.find((p) => p.id === rotationMap[nextSlot]);
+
+    if (!player?.gender || !nextPlayer?.gender) continue;
+    if (player.gender === nextPlayer.gender) {
+      issues.push({
+        code: "GENDER_ALTERNATION",
+        message: `${player.name} and ${nextPlayer.name} are next to each other in the serving order; genders must alternate`,
+        affectedPlayers: [player.id, nextPlayer.id],
+      });
+    }
+  }
+
+  return issues;
+}
+
+const createPlayers = (
+  players: [string, string, PlayerDefinition["role"], ("M" | "F")?][]
+): PlayerDefinition[] =>
+  players.map(([id, name, role, gender]) => ({
+    id,
+    name,
+    role,
+    ...(gender && { gender }),
+  }));
+
+/**
+ * Ready-made definitions for common systems. Copy one and replace the
+ * players with your own roster, keeping the IDs in the rotations in sync.
+ */
+export const SYSTEM_TEMPLATES: Record<
+  "4-2" | "6-0" | "6-6" | "coed-4-2",
+  SystemDefinition
+> = {
+  // Two setters opposite each other; the front-row setter sets
+  "4-2": {
+    id: "4-2",
+    name: "4-2",
+    players: createPlayers([
+      ["S1", "Setter 1", "S"],
+      ["S2", "Setter 2", "S"],
+      ["OH1", "Outside 1", "OH"],
+      ["OH2", "Outside 2", "OH"],
+      ["MB1", "Middle 1", "MB"],
+      ["MB2", "Middle 2", "MB"],
+    ]),
+    rotations: createSystemRotations({
+      1: "S1",
+      2: "OH1",
+      3: "MB1",
+      4: "S2",
+      5: "OH2",
+      6: "MB2",
+    }),
+  },
+  // Six hitters; whoever is in right back sets
+  "6-0": {
+    id: "6-0",
+    name: "6-0",
+    players: createPlayers([
+      ["OPP1", "Opposite 1", "OPP"],
+      ["OPP2", "Opposite 2", "OPP"],
+      ["OH1", "Outside 1", "OH"],
+      ["OH2", "Outside 2", "OH"],
+      ["MB1", "Middle 1", "MB"],
+      ["MB2", "Middle 2", "MB"],
+    ]),
+    rotations: createSystemRotations({
+      1: "OPP1",
+      2: "OH1",
+      3: "MB1",
+      4: "OPP2",
+      5: "OH2",
+      6: "MB2",
+    }),
+  },
+  // Everyone sets and hits; whoever is in middle front sets (youth)
+  "6-6": {
+    id: "6-6",
+    name: "6-6",
+    players: createPlayers([
+      ["P1", "Player 1", "OH"],
+      ["P2", "Player 2", "OH"],
+      ["P3", "Player 3", "OH"],
+      ["P4", "Player 4", "OH"],
+      ["P5", "Player 5", "OH"],
+      ["P6", "Player 6", "OH"],
+    ]),
+    rotations: createSystemRotations({
+      1: "P1",
+      2: "P2",
+      3: "P3",
+      4: "P4",
+      5: "P5",
+      6: "P6",
+    }),
+  },
+  // 4-2 with genders alternating around the serving order
+  "coed-4-2": {
+    id: "coed-4-2",
+    name: "Coed 4-2",
+    players: createPlayers([
+      ["S1", "Setter 1", "S", "M"],
+      ["S2", "Setter 2", "S", "F"],
+      ["OH1", "Outside 1", "OH", "F"],
+      ["OH2", "Outside 2", "OH", "M"],
+      ["MB1", "Middle 1", "MB", "M"],
+      ["MB2", "Middle 2", "MB", "F"],
+    ]),
+    rotations: createSystemRotations({
+      1: "S1",
+      2: "OH1",
+      3: "MB1",
+      4: "S2",
+      5: "OH2",
+      6: "MB2",
+    }),
+    constraints: { genderAlternation: true },
+  },
+};
+
+/**
+ * Zone defaults for a rotation with the system's default position overrides
+ * applied. Works for built-in systems too, which have no overrides.
+ */
+export function getSystemDefaultPositions(
+  formation: FormationType,
+  rotationIndex: number,
+  system: SystemType,
+  config: {
+    players?: Partial<Record<SystemType, PlayerDefinition[]>>;
+    rotations?: Partial<Record<SystemType, RotationMapping[]>>;
+    systems?: SystemDefinition[];
+    formations?: FormationDefinition[];
+    libero?: Partial<Record<SystemType, LiberoConfig>>;
+    defaultLineup?: DefaultLineupConfig;
+  }
+): Record<string, PlayerPosition> {
+  const rotationMap = config.rotations?.[system]?.[rotationIndex];
+  const baseFormation = getBaseFormation(formation, config.formations);
+  const generated =
+    config.defaultLineup?.roleAware && rotationMap
+      ? generateDefaultLineup(baseFormation, rotationMap, {
+          players: config.players?.[system] ?? [],
+          system,
+          receivePattern: config.defaultLineup.receivePattern,
+          // The libero can take any back row slot while receiving
+          liberoSlot:
+            getLiberoSwap(
+              rotationMap,
+              config.libero?.[system],
+              baseFormation === "serveReceive" ? null : 1
+            )?.slot ?? null,
+        })
+      : null;
+
+  return applySystemDefaultPositions(
+    applyFormationDefaultPositions(
+      generated ??
+        getDefaultPositionsWithRotation(
+          baseFormation,
+          rotationIndex,
+          system,
+          config.rotations?.[system]
+        ),
+      getFormationDefinition(config.formations, formation),
+      rotationIndex
+    ),
+    getSystemDefinition(config.systems, system),
+    rotationIndex,
+    formation
+  );
+}
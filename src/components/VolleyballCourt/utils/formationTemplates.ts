@@ -0,0 +1,313 @@
+/**
+ * Formation templates
+ *
+ * Named serve receive and defensive patterns are written relative to roles:
+ * a spot for the setter, spots for the passers, and spots by zone for the
+ * rest of each row. Applying a template to a rotation puts every player on
+ * their spot, then fits the spot into the legal region with
+ * ConstraintCalculator.snapToValidPosition. Snapping stops within the
+ * engine's tolerance of a neighbor, so the rules engine's solver settles the
+ * last few centimeters.
+ */
+
+import {
+  FormationTemplate,
+  FormationType,
+  PlayerDefinition,
+  PlayerPosition,
+  RotationMapping,
+  SystemType,
+  TemplateSpot,
+} from "../types";
+import type {
+  PlayerState,
+  RotationSlot,
+} from "../volleyball-rules-engine/types/PlayerState";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "../volleyball-rules-engine/types/RuleSet";
+import { ConstraintCalculator } from "../volleyball-rules-engine/validation/ConstraintCalculator";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+import { findLineupFix } from "./lineupFix";
+import { getPasserSlots, getRotationRoles } from "./lineupGenerator";
+
+export interface ApplyTemplateOptions {
+  players: PlayerDefinition[];
+  system?: SystemType;
+  liberoSlot?: number | null; // Back row slot the libero takes
+  serverSlot?: RotationSlot | null; // No server by default
+  positions?: Record<string, PlayerPosition>; // Kept for players without a spot
+  ruleSet?: RuleSetName | RuleSet;
+}
+
+// Slots by zone, from left to right
+const FRONT_ROW: RotationSlot[] = [4, 3, 2];
+const BACK_ROW: RotationSlot[] = [5, 6, 1];
+
+// Middles first, so every later player is bounded on one side per axis and
+// always has a legal spot
+const FIT_ORDER: RotationSlot[] = [3, 6, 4, 2, 5, 1];
+
+const SETTER_RELEASE: TemplateSpot = { x: 6, y: 1 };
+
+// Front row players who don't pass wait at the net; the back row stays deep
+const RECEIVE_FRONT: TemplateSpot[] = [
+  { x: 1.5, y: 1 },
+  { x: 4.5, y: 1 },
+  { x: 7.5, y: 1 },
+];
+const RECEIVE_BACK: TemplateSpot[] = [
+  { x: 1.5, y: 8 },
+  { x: 4.5, y: 8 },
+  { x: 7.5, y: 8 },
+];
+
+// Blockers at the net in the defensive templates
+const BLOCKERS: TemplateSpot[] = [
+  { x: 1, y: 0.5 },
+  { x: 4.5, y: 0.5 },
+  { x: 8, y: 0.5 },
+];
+
+export const FORMATION_TEMPLATES: FormationTemplate[] = [
+  {
+    id: "w",
+    name: "W",
+    description: "Five passers in a W; only the setter stays out of the pass",
+    formation: "serveReceive",
+    setter: SETTER_RELEASE,
+    passers: [
+      { x: 1.5, y: 6.5 },
+      { x: 3, y: 4 },
+      { x: 4.5, y: 6.5 },
+      { x: 6, y: 4 },
+      { x: 7.5, y: 6.5 },
+    ],
+    front: RECEIVE_FRONT,
+    back: RECEIVE_BACK,
+  },
+  {
+    id: "cup",
+    name: "Cup",
+    description: "Four passers in a U, the outer two shorter",
+    formation: "serveReceive",
+    setter: SETTER_RELEASE,
+    passers: [
+      { x: 1.5, y: 5.5 },
+      { x: 3.5, y: 6.5 },
+      { x: 5.5, y: 6.5 },
+      { x: 7.5, y: 5.5 },
+    ],
+    front: RECEIVE_FRONT,
+    back: RECEIVE_BACK,
+  },
+  {
+    id: "three-passer",
+    name: "3-passer",
+    description: "Libero and outsides split the court in thirds",
+    formation: "serveReceive",
+    setter: SETTER_RELEASE,
+    passers: [
+      { x: 1.5, y: 6.5 },
+      { x: 4.5, y: 6.5 },
+      { x: 7.5, y: 6.5 },
+    ],
+    front: RECEIVE_FRONT,
+    back: RECEIVE_BACK,
+  },
+  {
+    id: "two-passer",
+    name: "2-passer",
+    description: "Two passers split the court in halves",
+    formation: "serveReceive",
+    setter: SETTER_RELEASE,
+    passers: [
+      { x: 2.5, y: 6.5 },
+      { x: 6.5, y: 6.5 },
+    ],
+    front: RECEIVE_FRONT,
+    back: RECEIVE_BACK,
+  },
+  {
+    id: "perimeter",
+    name: "Perimeter defense",
+    description: "Back row along the sidelines and the end line",
+    formation: "base",
+    front: BLOCKERS,
+    back: [
+      { x: 1, y: 6.5 },
+      { x: 4.5, y: 8.5 },
+      { x: 8, y: 6.5 },
+    ],
+  },
+  {
+    id: "rotation",
+    name: "Rotation defense",
+    description: "Right back rotates up for tips, middle back covers the line",
+    formation: "base",
+    front: BLOCKERS,
+    back: [
+      { x: 1, y: 6.5 },
+      { x: 6.5, y: 8 },
+      { x: 8, y: 3.5 },
+    ],
+  },
+  {
+    id: "middle-middle",
+    name: "Middle-middle defense",
+    description: "Middle back plays up behind the block",
+    formation: "base",
+    front: BLOCKERS,
+    back: [
+      { x: 1, y: 6.5 },
+      { x: 4.5, y: 4 },
+      { x: 8, y: 6.5 },
+    ],
+  },
+];
+
+let idCounter = 0;
+
+function createTemplateId(): string {
+  idCounter += 1;
+  return `template_${Date.now()}_${idCounter}`;
+}
+
+/**
+ * A player's current spot in meters, or the middle of their zone
+ */
+function getCurrentSpot(
+  position: PlayerPosition | undefined,
+  slot: RotationSlot
+): TemplateSpot {
+  if (position) {
+    return CoordinateTransformer.screenToVolleyball(position.x, position.y);
+  }
+
+  const isFrontRow = FRONT_ROW.includes(slot);
+  const zone = (isFrontRow ? FRONT_ROW : BACK_ROW).indexOf(slot);
+  return { x: 1.5 + zone * 3, y: isFrontRow ? 2 : 7 };
+}
+
+/**
+ * Templates for a formation, built-in ones first
+ */
+export function getFormationTemplates(
+  formation: FormationType,
+  templates: FormationTemplate[] = []
+): FormationTemplate[] {
+  return [...FORMATION_TEMPLATES, ...templates].filter(
+    (template) => template.formation === formation
+  );
+}
+
+/**
+ * Places the players of a rotation with a template, fitted to the legal
+ * region. Returns null for incomplete rotations.
+ */
+export function applyFormationTemplate(
+  template: FormationTemplate,
+  rotationMap: RotationMapping,
+  options: ApplyTemplateOptions
+): Record<string, PlayerPosition> | null {
+  if ([...FRONT_ROW, ...BACK_ROW].some((slot) => !rotationMap[slot])) {
+    return null;
+  }
+
+  const { roles, setterSlot } = getRotationRoles(rotationMap, options);
+  const spots = new Map<RotationSlot, TemplateSpot>();
+
+  if (template.setter && setterSlot !== null) {
+    spots.set(setterSlot, template.setter);
+  }
+  if (template.passers) {
+    const passers = template.passers;
+    getPasserSlots(roles, setterSlot, passers.length).forEach((slot, index) =>
+      spots.set(slot, passers[index])
+    );
+  }
+  FRONT_ROW.forEach((slot, zone) => {
+    const spot = template.front?.[zone];
+    if (spot && !spots.has(slot)) spots.set(slot, spot);
+  });
+  BACK_ROW.forEach((slot, zone) => {
+    const spot = template.back?.[zone];
+    if (spot && !spots.has(slot)) spots.set(slot, spot);
+  });
+
+  const placed = new Map<RotationSlot, PlayerState>();
+  FIT_ORDER.forEach((slot) => {
+    const playerId = rotationMap[slot];
+    const spot =
+      spots.get(slot) ?? getCurrentSpot(options.positions?.[playerId], slot);
+    const player: PlayerState = {
+      id: playerId,
+      displayName: playerId,
+      role: "Unknown",
+      slot,
+      ...spot,
+      isServer: slot === options.serverSlot,
+    };
+
+    // The player goes in before snapping, as front/back constraints are
+    // only applied to players in the lineup
+    placed.set(slot, player);
+    const { x, y } = ConstraintCalculator.snapToValidPosition(
+      slot,
+      spot,
+      placed,
+      player.isServer,
+      options.ruleSet
+    );
+    placed.set(slot, { ...player, x, y });
+  });
+
+  const positions: Record<string, PlayerPosition> = {};
+  placed.forEach((player) => {
+    const { x, y } = CoordinateTransformer.volleyballToScreen(
+      player.x,
+      player.y
+    );
+    positions[player.id] = { x, y, isCustom: true };
+  });
+
+  const fix = findLineupFix(positions, rotationMap, {
+    serverSlot: options.serverSlot ?? null,
+    ruleSet: options.ruleSet,
+  });
+
+  return Object.fromEntries(
+    Object.entries({ ...positions, ...fix?.positions }).map(
+      ([playerId, { x, y }]) => [
+        playerId,
+        { x, y, isCustom: true, lastModified: new Date() },
+      ]
+    )
+  );
+}
+
+/**
+ * Template from the positions of a rotation, to apply to other rotations:
+ * the setter keeps their spot and everyone else the spot of their zone
+ */
+export function createFormationTemplate(
+  name: string,
+  formation: FormationType,
+  positions: Record<string, PlayerPosition>,
+  rotationMap: RotationMapping,
+  options: Pick<ApplyTemplateOptions, "players" | "system" | "liberoSlot">
+): FormationTemplate {
+  const { setterSlot } = getRotationRoles(rotationMap, options);
+  const getSpot = (slot: RotationSlot) =>
+    getCurrentSpot(positions[rotationMap[slot]], slot);
+
+  return {
+    id: createTemplateId(),
+    name,
+    formation,
+    setter: setterSlot !== null ? getSpot(setterSlot) : undefined,
+    front: FRONT_ROW.map(getSpot),
+    back: BACK_ROW.map(getSpot),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Full-court utilities
+ *
+ * In full-court mode the opponent half is drawn above ours, mirrored across
+ * the net. Opponent markers are stored from the opponent's own side of the
+ * net (net at the top, like our positions) in base court coordinates and
+ * mirrored for display.
+ */
+
+import {
+  FullCourtConfig,
+  FullCourtState,
+  OpponentMarker,
+  PlayerPosition,
+  RotationMapping,
+  TeamSide,
+} from "../types";
+import { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
+import { BASE_COURT_WIDTH, BASE_COURT_HEIGHT } from "../courtCoordinates";
+
+// Net line as a fraction of the court height (see CourtVisualization)
+export const NET_LINE_RATIO = 0.12;
+
+export const DEFAULT_OPPONENT_MARKERS: OpponentMarker[] = [1, 2, 3, 4, 5, 6].map(
+  (n) => ({ id: `O${n}`, label: `O${n}` })
+);
+
+// Zone centres as fractions of the court, matching the court markers
+const SLOT_RATIOS: Record<RotationSlot, { x: number; y: number }> = {
+  1: { x: 0.78, y: 0.82 },
+  2: { x: 0.78, y: 0.42 },
+  3: { x: 0.5, y: 0.42 },
+  4: { x: 0.22, y: 0.42 },
+  5: { x: 0.22, y: 0.82 },
+  6: { x: 0.5, y: 0.82 },
+};
+
+// Where the opponent server stands, behind their endline
+const SERVER_RATIO_Y = 0.96;
+
+/**
+ * Initial full-court state from the configuration
+ */
+export function createFullCourtState(
+  config: FullCourtConfig = {}
+): FullCourtState {
+  return {
+    enabled: config.enabled ?? false,
+    servingTeam: config.initialServingTeam ?? "home",
+    opponentRotation: config.initialOpponentRotation ?? 0,
+    opponentPositions: {},
+  };
+}
+
+/**
+ * Our serving slot: slot 1 when we serve, none when the opponent serves
+ */
+export function getServerSlot(servingTeam: TeamSide): RotationSlot | null {
+  return servingTeam === "home" ? 1 : null;
+}
+
+/**
+ * Slot -> marker mapping for an opponent rotation. Rotating moves the
+ * marker in slot 2 to slot 1, like our own rotations.
+ */
+export function getOpponentRotationMap(
+  markers: OpponentMarker[],
+  rotation: number
+): RotationMapping {
+  const rotationMap: RotationMapping = {};
+  if (markers.length === 0) return rotationMap;
+
+  for (let slot = 1; slot <= 6; slot++) {
+    const marker = markers[(slot - 1 + rotation) % markers.length];
+    rotationMap[slot] = marker.id;
+  }
+
+  return rotationMap;
+}
+
+/**
+ * Default marker positions for an opponent rotation. The opponent server
+ * stands behind their endline when they are serving.
+ */
+export function getDefaultOpponentPositions(
+  markers: OpponentMarker[],
+  rotation: number,
+  servingTeam: TeamSide
+): Record<string, PlayerPosition> {
+  const positions: Record<string, PlayerPosition> = {};
+  const rotationMap = getOpponentRotationMap(markers, rotation);
+
+  for (const [slotStr, markerId] of Object.entries(rotationMap)) {
+    const slot = parseInt(slotStr) as RotationSlot;
+    const ratio = SLOT_RATIOS[slot];
+    const isServing = slot === 1 && servingTeam === "opponent";
+
+    positions[markerId] = {
+      x: ratio.x * BASE_COURT_WIDTH,
+      y: (isServing ? SERVER_RATIO_Y : ratio.y) * BASE_COURT_HEIGHT,
+      isCustom: false,
+    };
+  }
+
+  return positions;
+}
+
+/**
+ * Marker positions for the current opponent rotation, with placed markers
+ * taking precedence over the defaults
+ */
+export function getOpponentPositions(
+  state: FullCourtState,
+  markers: OpponentMarker[]
+): Record<string, PlayerPosition> {
+  return {
+    ...getDefaultOpponentPositions(
+      markers,
+      state.opponentRotation,
+      state.servingTeam
+    ),
+    ...state.opponentPositions[state.opponentRotation],
+  };
+}
+
+/**
+ * Marker serving for the opponent, if they are serving
+ */
+export function getOpponentServerId(
+  state: FullCourtState,
+  markers: OpponentMarker[]
+): string | null {
+  if (state.servingTeam !== "opponent") return null;
+  return getOpponentRotationMap(markers, state.opponentRotation)[1] ?? null;
+}
+
+/**
+ * Converts a point between the two sides of the net. Teams face each
+ * other, so both axes are mirrored.
+ */
+export function mirrorCourtPoint(
+  point: { x: number; y: number },
+  width: number = BASE_COURT_WIDTH,
+  height: number = BASE_COURT_HEIGHT
+): { x: number; y: number } {
+  return { x: width - point.x, y: height - point.y };
+}
@@ -0,0 +1,137 @@
+/**
+ * Group positioning utilities
+ *
+ * Helpers for moving several selected players at once: marquee hit testing,
+ * moving a group while keeping its spacing, and the align/distribute actions.
+ * Positions are in court coordinates; the results only contain the players
+ * that were moved.
+ */
+
+import { GroupAlignment, PlayerPosition } from "../types";
+import { COURT_DIMENSIONS } from "../types/positioning";
+
+// Marquee selection area in court coordinates
+export interface SelectionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rectangle spanned by two corners, in any drag direction
+ */
+export function getSelectionRect(
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): SelectionRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/**
+ * Players whose center lies inside the rectangle
+ */
+export function getPlayersInRect(
+  positions: Record<string, PlayerPosition>,
+  rect: SelectionRect
+): string[] {
+  return Object.entries(positions)
+    .filter(
+      ([, position]) =>
+        position.x >= rect.x &&
+        position.x <= rect.x + rect.width &&
+        position.y >= rect.y &&
+        position.y <= rect.y + rect.height
+    )
+    .map(([playerId]) => playerId);
+}
+
+const movedPosition = (x: number, y: number): PlayerPosition => ({
+  x,
+  y,
+  isCustom: true,
+  lastModified: new Date(),
+});
+
+/**
+ * Moves every player by the same offset, so their spacing is kept
+ */
+export function translatePlayers(
+  positions: Record<string, PlayerPosition>,
+  playerIds: string[],
+  delta: { x: number; y: number }
+): Record<string, PlayerPosition> {
+  const moved: Record<string, PlayerPosition> = {};
+  playerIds.forEach((playerId) => {
+    const position = positions[playerId];
+    if (position) {
+      moved[playerId] = movedPosition(
+        position.x + delta.x,
+        position.y + delta.y
+      );
+    }
+  });
+  return moved;
+}
+
+/**
+ * Puts the players on one row at their average depth
+ */
+export function alignPlayersToRow(
+  positions: Record<string, PlayerPosition>,
+  playerIds: string[]
+): Record<string, PlayerPosition> {
+  const present = playerIds.filter((playerId) => positions[playerId]);
+  if (present.length === 0) return {};
+
+  const rowY =
+    present.reduce((sum, playerId) => sum + positions[playerId].y, 0) /
+    present.length;
+
+  return Object.fromEntries(
+    present.map((playerId) => [
+      playerId,
+      movedPosition(positions[playerId].x, rowY),
+    ])
+  );
+}
+
+/**
+ * Spreads the players evenly across the court width, in their current
+ * left-to-right order so nobody swaps sides with a neighbor
+ */
+export function distributePlayersAcrossWidth(
+  positions: Record<string, PlayerPosition>,
+  playerIds: string[],
+  courtWidth: number = COURT_DIMENSIONS.width
+): Record<string, PlayerPosition> {
+  const ordered = playerIds
+    .filter((playerId) => positions[playerId])
+    .sort((a, b) => positions[a].x - positions[b].x);
+  const laneWidth = courtWidth / ordered.length;
+
+  return Object.fromEntries(
+    ordered.map((playerId, index) => [
+      playerId,
+      movedPosition(laneWidth * (index + 0.5), positions[playerId].y),
+    ])
+  );
+}
+
+/**
+ * New positions for an align action
+ */
+export function alignPlayers(
+  positions: Record<string, PlayerPosition>,
+  playerIds: string[],
+  alignment: GroupAlignment
+): Record<string, PlayerPosition> {
+  return alignment === "row"
+    ? alignPlayersToRow(positions, playerIds)
+    : distributePlayersAcrossWidth(positions, playerIds);
+}
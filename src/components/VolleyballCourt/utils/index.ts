@@ -3,4 +3,34 @@ export * from "./positionValidation";
 export * from "./coordinateTransforms";
 export * from "./defaultPositions";
 export * from "./storage/LocalStorageManager";
+export * from "./storage/StorageAdapter";
+export * from "./storage/LocalStorageAdapter";
+export * from "./storage/IndexedDBAdapter";
+export * from "./storage/PlaybookManager";
+export * from "./storage/PersistenceAdapter";
+export * from "./storage/RemoteSyncQueue";
+export * from "./storage/InMemoryPersistenceAdapter";
+export * from "./storage/HttpPersistenceAdapter";
+export * from "./collaboration/CollaborationTransport";
+export * from "./collaboration/lastWriterWins";
+export * from "./collaboration/WebSocketTransport";
+export * from "./collaboration/LocalCollaborationServer";
 export * from "./URLStateManager";
+export * from "./liberoSubstitution";
+export * from "./courtExport";
+export * from "./pdfBuilder";
+export * from "./playSequence";
+export * from "./courtAnnotations";
+export * from "./fullCourt";
+export * from "./substitutions";
+export * from "./matchMode";
+export * from "./customSystems";
+export * from "./customFormations";
+export * from "./validationPolicies";
+export * from "./groupPositioning";
+export * from "./courtDescription";
+export * from "./localization";
+export * from "./customRules";
+export * from "./lineupFix";
+export * from "./lineupGenerator";
+export * from "./formationTemplates";
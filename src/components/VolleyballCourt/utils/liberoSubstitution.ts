@@ -0,0 +1,151 @@
+import {
+  LiberoConfig,
+  LiberoSwap,
+  PlayerDefinition,
+  PlayerPosition,
+  RotationMapping,
+} from "../types";
+import { OverlapValidator } from "../volleyball-rules-engine/validation/OverlapValidator";
+import type {
+  PlayerState,
+  RotationSlot,
+} from "../volleyball-rules-engine/types/PlayerState";
+import type { Violation } from "../volleyball-rules-engine/types/ValidationResult";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "../volleyball-rules-engine/types/RuleSet";
+import { RuleSetRegistry } from "../volleyball-rules-engine/validation/RuleSetRegistry";
+
+/**
+ * Back row slots the libero may take over, in rotation order
+ */
+const BACK_ROW_SLOTS: RotationSlot[] = [5, 6, 1];
+
+/**
+ * Checks whether a libero configuration is enabled and usable
+ */
+export function isLiberoActive(
+  libero?: LiberoConfig
+): libero is LiberoConfig {
+  return (
+    !!libero &&
+    libero.enabled !== false &&
+    !!libero.playerId &&
+    libero.replaces.length > 0
+  );
+}
+
+/**
+ * Fills in whether the libero may serve from the rule set, unless the libero
+ * configuration sets it explicitly
+ */
+export function resolveLiberoConfig(
+  libero?: LiberoConfig,
+  ruleSet?: RuleSetName | RuleSet
+): LiberoConfig | undefined {
+  const resolved =
+    typeof ruleSet === "string" ? RuleSetRegistry.get(ruleSet) : ruleSet;
+
+  if (!libero || libero.allowServe !== undefined || !resolved) {
+    return libero;
+  }
+
+  return { ...libero, allowServe: resolved.allowLiberoServe };
+}
+
+/**
+ * Finds which replaced player the libero comes on for in a rotation.
+ * The libero only takes back row slots, and only takes the serving slot
+ * when the rule set allows the libero to serve.
+ */
+export function getLiberoSwap(
+  rotationMap: RotationMapping | undefined,
+  libero?: LiberoConfig,
+  serverSlot: RotationSlot | null = 1
+): LiberoSwap | null {
+  if (!rotationMap || !isLiberoActive(libero)) {
+    return null;
+  }
+
+  for (const slot of BACK_ROW_SLOTS) {
+    const playerId = rotationMap[slot];
+    if (!playerId || !libero.replaces.includes(playerId)) continue;
+    if (slot === serverSlot && !libero.allowServe) continue;
+
+    return {
+      liberoId: libero.playerId,
+      replacedPlayerId: playerId,
+      slot,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Returns the rotation mapping with the libero swapped in, if applicable
+ */
+export function applyLiberoToRotation(
+  rotationMap: RotationMapping,
+  swap: LiberoSwap | null
+): RotationMapping {
+  if (!swap) return rotationMap;
+
+  return {
+    ...rotationMap,
+    [swap.slot]: swap.liberoId,
+  };
+}
+
+/**
+ * Moves the replaced player's position to the libero. A position already
+ * stored for the libero (e.g. after a drag) takes precedence.
+ */
+export function applyLiberoToPositions(
+  positions: Record<string, PlayerPosition>,
+  swap: LiberoSwap | null
+): Record<string, PlayerPosition> {
+  if (!swap) return positions;
+
+  const { [swap.replacedPlayerId]: replacedPosition, ...rest } = positions;
+  const liberoPosition = rest[swap.liberoId] || replacedPosition;
+
+  if (!liberoPosition) return positions;
+
+  return {
+    ...rest,
+    [swap.liberoId]: liberoPosition,
+  };
+}
+
+/**
+ * Checks the libero restrictions for a rotation mapping using the rules engine
+ */
+export function validateLiberoLineup(
+  rotationMap: RotationMapping,
+  players: PlayerDefinition[],
+  libero?: LiberoConfig,
+  serverSlot: RotationSlot | null = 1
+): Violation[] {
+  const lineup: PlayerState[] = Object.entries(rotationMap).map(
+    ([slotStr, playerId]) => {
+      const slot = parseInt(slotStr) as RotationSlot;
+      const player = players.find((p) => p.id === playerId);
+
+      return {
+        id: playerId,
+        displayName: player?.name || playerId,
+        role: player?.role === "L" ? "L" : "Unknown",
+        slot,
+        x: 0,
+        y: 0,
+        isServer: slot === serverSlot,
+      };
+    }
+  );
+
+  return OverlapValidator.validateLiberoRules(lineup, {
+    allowLiberoServe: libero?.allowServe ?? false,
+  });
+}
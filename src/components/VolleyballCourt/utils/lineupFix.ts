@@ -0,0 +1,99 @@
+/**
+ * Lineup fix utilities
+ *
+ * The one-click Fix action: moves the players on court to the nearest legal
+ * lineup with the rules engine's solver, keeping locked players in place and
+ * players inside the areas of data custom rules. Positions are in court
+ * coordinates; distances are in meters.
+ */
+
+import { PlayerPosition } from "../types";
+import type { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
+import type { CoordinateBounds } from "../volleyball-rules-engine/types/CoordinateSystem";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "../volleyball-rules-engine/types/RuleSet";
+import { VolleyballRulesEngine } from "../volleyball-rules-engine/VolleyballRulesEngine";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+import { StateConverter } from "../volleyball-rules-engine/utils/StateConverter";
+import { CustomRuleArea } from "./customRules";
+
+// Player moved by a fix
+export interface LineupFixMove {
+  playerId: string;
+  from: PlayerPosition;
+  to: PlayerPosition;
+  distance: number; // Meters
+}
+
+// Moves that make a lineup legal
+export interface LineupFixResult {
+  positions: Record<string, PlayerPosition>; // Moved players only
+  moves: LineupFixMove[];
+  totalDistance: number; // Meters
+}
+
+export interface FindLineupFixOptions {
+  serverSlot?: RotationSlot | null; // null when the other team serves
+  lockedPlayers?: string[];
+  areas?: Record<string, CustomRuleArea>; // Where players must end up
+  ruleSet?: RuleSetName | RuleSet;
+}
+
+/**
+ * The moves that make the lineup legal with the least movement, or null when
+ * it already is or locked players leave no legal lineup
+ */
+export function findLineupFix(
+  positions: Record<string, PlayerPosition>,
+  rotationMap: Record<number, string>,
+  options: FindLineupFixOptions = {}
+): LineupFixResult | null {
+  try {
+    const lineup = StateConverter.formationToVolleyballStates(
+      positions,
+      rotationMap,
+      options.serverSlot === undefined ? 1 : options.serverSlot
+    );
+
+    const slotBounds: Partial<Record<RotationSlot, CoordinateBounds>> = {};
+    lineup.forEach((player) => {
+      const area = options.areas?.[player.id];
+      if (area) slotBounds[player.slot] = area;
+    });
+
+    const fix = VolleyballRulesEngine.fixLineup(lineup, {
+      ruleSet: options.ruleSet,
+      lockedSlots: lineup
+        .filter((player) => options.lockedPlayers?.includes(player.id))
+        .map((player) => player.slot),
+      slotBounds,
+    });
+    if (!fix.isLegal || fix.displacements.length === 0) return null;
+
+    const moves = fix.displacements.map((displacement) => {
+      const { x, y } = CoordinateTransformer.volleyballToScreen(
+        displacement.to.x,
+        displacement.to.y
+      );
+      return {
+        playerId: displacement.id,
+        from: positions[displacement.id],
+        to: { x, y, isCustom: true, lastModified: new Date() },
+        distance: displacement.distance,
+      };
+    });
+
+    return {
+      positions: Object.fromEntries(
+        moves.map((move) => [move.playerId, move.to])
+      ),
+      moves,
+      totalDistance: fix.totalDisplacement,
+    };
+  } catch (error) {
+    console.warn("Error finding a legal lineup:", error);
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Role-aware default lineups
+ *
+ * Generates default positions for a rotation from the players' roles: the
+ * setter releases toward the net, middles stay off the pass, and the libero
+ * and outsides take serve receive in a 3-, 4- or 5-person pattern. Role
+ * targets are moved to the nearest legal lineup by the rules engine's solver
+ * and checked with VolleyballRulesEngine.validateLineup.
+ */
+
+import {
+  FormationType,
+  PlayerDefinition,
+  PlayerPosition,
+  PlayerRole,
+  ReceivePattern,
+  RotationMapping,
+  SystemType,
+} from "../types";
+import type { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
+import { VolleyballRulesEngine } from "../volleyball-rules-engine/VolleyballRulesEngine";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+import { StateConverter } from "../volleyball-rules-engine/utils/StateConverter";
+import { findLineupFix } from "./lineupFix";
+
+export const RECEIVE_PATTERNS: ReceivePattern[] = [
+  "3-person",
+  "4-person",
+  "5-person",
+];
+
+export interface DefaultLineupOptions {
+  players: PlayerDefinition[];
+  system?: SystemType; // In a 6-2 the back row setter sets
+  receivePattern?: ReceivePattern;
+  liberoSlot?: number | null; // Back row slot the libero takes
+}
+
+const FRONT_ROW: RotationSlot[] = [4, 3, 2];
+const BACK_ROW: RotationSlot[] = [5, 6, 1];
+
+// Meters from the left sideline of each slot's zone
+const ZONE_X: Record<RotationSlot, number> = {
+  1: 7.5,
+  2: 7.5,
+  3: 4.5,
+  4: 1.5,
+  5: 1.5,
+  6: 4.5,
+};
+
+// The setter releases to the right of the middle, just off the net
+const SETTER_TARGET = { x: 6, y: 1 };
+
+// Depth of each passer from left to right, in meters from the net
+const RECEIVE_DEPTHS: Record<ReceivePattern, number[]> = {
+  "3-person": [6.5, 6.5, 6.5],
+  "4-person": [5.5, 6.5, 6.5, 5.5],
+  "5-person": [6.5, 4, 6.5, 4, 6.5],
+};
+
+// Who passes first; the setter never passes
+const PASSING_ORDER: PlayerRole[] = ["L", "OH", "OPP", "MB"];
+
+/**
+ * Finds the slot of the player who sets in this rotation: the back row
+ * setter in a 6-2, otherwise the front row one when there are two
+ */
+function findSetterSlot(
+  roles: Record<RotationSlot, PlayerRole>,
+  system?: SystemType
+): RotationSlot | null {
+  const settingRow = system === "6-2" ? BACK_ROW : FRONT_ROW;
+  const setterSlots = [...FRONT_ROW, ...BACK_ROW].filter(
+    (slot) => roles[slot] === "S"
+  );
+
+  return (
+    setterSlots.find((slot) => settingRow.includes(slot)) ??
+    setterSlots[0] ??
+    null
+  );
+}
+
+/**
+ * Roles of the players in each slot of a rotation, with the libero in their
+ * slot, and the slot of the player who sets. Setters who don't set this
+ * rotation play opposite.
+ */
+export function getRotationRoles(
+  rotationMap: RotationMapping,
+  options: Omit<DefaultLineupOptions, "receivePattern">
+): {
+  roles: Record<RotationSlot, PlayerRole>;
+  setterSlot: RotationSlot | null;
+} {
+  const slots = [...FRONT_ROW, ...BACK_ROW];
+  const roles = {} as Record<RotationSlot, PlayerRole>;
+  slots.forEach((slot) => {
+    const player = options.players.find((p) => p.id === rotationMap[slot]);
+    roles[slot] = slot === options.liberoSlot ? "L" : (player?.role ?? "OH");
+  });
+
+  const setterSlot = findSetterSlot(roles, options.system);
+  slots.forEach((slot) => {
+    if (roles[slot] === "S" && slot !== setterSlot) roles[slot] = "OPP";
+  });
+
+  return { roles, setterSlot };
+}
+
+/**
+ * Slots of the players who pass in serve receive, from left to right
+ */
+export function getPasserSlots(
+  roles: Record<RotationSlot, PlayerRole>,
+  setterSlot: RotationSlot | null,
+  count: number
+): RotationSlot[] {
+  return [...FRONT_ROW, ...BACK_ROW]
+    .filter((slot) => slot !== setterSlot)
+    .sort(
+      (a, b) =>
+        PASSING_ORDER.indexOf(roles[a]) - PASSING_ORDER.indexOf(roles[b]) ||
+        Number(BACK_ROW.includes(b)) - Number(BACK_ROW.includes(a))
+    )
+    .slice(0, count)
+    .sort((a, b) => ZONE_X[a] - ZONE_X[b]);
+}
+
+/**
+ * Role targets in meters for every slot
+ */
+function getRoleTargets(
+  formation: FormationType,
+  roles: Record<RotationSlot, PlayerRole>,
+  setterSlot: RotationSlot | null,
+  receivePattern: ReceivePattern
+): Record<RotationSlot, { x: number; y: number }> {
+  const targets = {} as Record<RotationSlot, { x: number; y: number }>;
+
+  FRONT_ROW.forEach((slot) => {
+    const y = formation === "base" && roles[slot] !== "MB" ? 2 : 1;
+    targets[slot] = { x: ZONE_X[slot], y };
+  });
+  BACK_ROW.forEach((slot) => {
+    targets[slot] = { x: ZONE_X[slot], y: formation === "base" ? 7 : 8 };
+  });
+
+  if (formation === "serveReceive") {
+    const depths = RECEIVE_DEPTHS[receivePattern];
+    const passers = getPasserSlots(roles, setterSlot, depths.length);
+
+    passers.forEach((slot, index) => {
+      targets[slot] = {
+        x: passers.length > 1 ? 1.5 + (6 * index) / (passers.length - 1) : 4.5,
+        y: depths[index],
+      };
+    });
+  }
+
+  if (setterSlot !== null) {
+    targets[setterSlot] = { ...SETTER_TARGET };
+  }
+
+  return targets;
+}
+
+/**
+ * Generates legal default positions for a rotation from the players' roles.
+ * Returns null for the rotational formation, for incomplete rotations, or
+ * when no legal lineup is found, so callers can fall back to zone defaults.
+ */
+export function generateDefaultLineup(
+  formation: FormationType,
+  rotationMap: RotationMapping,
+  options: DefaultLineupOptions
+): Record<string, PlayerPosition> | null {
+  const slots = [...FRONT_ROW, ...BACK_ROW];
+  if (formation === "rotational" || slots.some((slot) => !rotationMap[slot])) {
+    return null;
+  }
+
+  const { roles, setterSlot } = getRotationRoles(rotationMap, options);
+  const targets = getRoleTargets(
+    formation,
+    roles,
+    setterSlot,
+    options.receivePattern ?? "3-person"
+  );
+
+  const positions: Record<string, PlayerPosition> = {};
+  slots.forEach((slot) => {
+    const { x, y } = CoordinateTransformer.volleyballToScreen(
+      targets[slot].x,
+      targets[slot].y
+    );
+    positions[rotationMap[slot]] = { x, y, isCustom: false };
+  });
+
+  // Solved without the server exemption, so the defaults are legal
+  // whichever team serves
+  const fix = findLineupFix(positions, rotationMap, { serverSlot: null });
+  const legalPositions = { ...positions, ...fix?.positions };
+
+  const { isLegal } = VolleyballRulesEngine.validateLineup(
+    StateConverter.formationToVolleyballStates(legalPositions, rotationMap)
+  );
+  if (!isLegal) return null;
+
+  return Object.fromEntries(
+    Object.entries(legalPositions).map(([playerId, { x, y }]) => [
+      playerId,
+      { x, y, isCustom: false, lastModified: new Date() },
+    ])
+  );
+}
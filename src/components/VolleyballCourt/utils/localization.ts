@@ -0,0 +1,66 @@
+/**
+ * Localization utilities
+ *
+ * Builds the translator for a LocalizationConfig: court and control messages
+ * from the bundled catalogs, rules engine messages from its MessageCatalog,
+ * and numbers with the locale's decimal separator.
+ */
+
+import { Localization, LocalizationConfig } from "../types";
+import {
+  DEFAULT_LOCALE,
+  MessageCatalog,
+  type MessageParams,
+  type Messages,
+} from "../volleyball-rules-engine/i18n";
+import { EN_COURT_MESSAGES } from "./messages/en";
+import { ES_COURT_MESSAGES } from "./messages/es";
+import { FR_COURT_MESSAGES } from "./messages/fr";
+import { PT_COURT_MESSAGES } from "./messages/pt";
+
+export type { CourtMessageKey } from "./messages/en";
+
+// Court and control messages by language
+export const COURT_MESSAGES: Record<string, Messages> = {
+  en: EN_COURT_MESSAGES,
+  es: ES_COURT_MESSAGES,
+  fr: FR_COURT_MESSAGES,
+  pt: PT_COURT_MESSAGES,
+};
+
+/**
+ * Translator for a localization config. Lookups try the config's
+ * translations, then the bundled messages for the locale, its language
+ * ("pt" for "pt-BR") and English, and finally fall back to the key.
+ */
+export function createLocalization(
+  config: LocalizationConfig = {}
+): Localization {
+  const locale = config.language || DEFAULT_LOCALE;
+  const language = locale.split("-")[0];
+  const numberLocale = config.numberFormat || locale;
+  const overrides: Messages = {
+    ...config.translations?.[language],
+    ...config.translations?.[locale],
+  };
+
+  const getMessage = (key: string) =>
+    overrides[key] ??
+    COURT_MESSAGES[locale]?.[key] ??
+    COURT_MESSAGES[language]?.[key] ??
+    COURT_MESSAGES[DEFAULT_LOCALE][key] ??
+    MessageCatalog.getMessage(key, locale) ??
+    key;
+
+  return {
+    locale,
+    direction: config.rtlSupport ? "rtl" : "ltr",
+    t: (key: string, params?: MessageParams) =>
+      MessageCatalog.interpolate(getMessage(key), params),
+    formatNumber: (value: number, fractionDigits = 1) =>
+      MessageCatalog.formatNumber(value, numberLocale, fractionDigits),
+  };
+}
+
+// English, for components rendered without a localization config
+export const DEFAULT_LOCALIZATION = createLocalization();
@@ -0,0 +1,127 @@
+/**
+ * Match mode utilities
+ *
+ * Rally scoring: the winner of every rally scores a point. When the
+ * receiving team wins (a side-out) they take the serve and rotate, so our
+ * rotation advances when we win serve back and the opponent's advances when
+ * they do.
+ */
+
+import {
+  FormationType,
+  MatchState,
+  RallyLogEntry,
+  TeamSide,
+} from "../types";
+
+/**
+ * Match state before the first rally
+ */
+export function createMatchState(enabled: boolean = false): MatchState {
+  return {
+    enabled,
+    score: { home: 0, opponent: 0 },
+    rallies: [],
+  };
+}
+
+/**
+ * Formation shown for the serving team: base when we serve, serve receive
+ * when the opponent serves
+ */
+export function getServingFormation(servingTeam: TeamSide): FormationType {
+  return servingTeam === "home" ? "base" : "serveReceive";
+}
+
+/**
+ * Result of scoring a rally
+ */
+export interface RallyResult {
+  match: MatchState;
+  servingTeam: TeamSide;
+  rotation: number;
+  opponentRotation: number;
+  entry: RallyLogEntry;
+}
+
+/**
+ * Scores a rally won by `winner` and works out who serves next and which
+ * rotations each team is in
+ */
+export function scoreRally(
+  match: MatchState,
+  winner: TeamSide,
+  current: {
+    servingTeam: TeamSide;
+    rotation: number;
+    opponentRotation: number;
+    rotationCount?: number;
+  }
+): RallyResult {
+  const { servingTeam, rotationCount = 6 } = current;
+  const sideOut = winner !== servingTeam;
+
+  const rotation =
+    sideOut && winner === "home"
+      ? (current.rotation + 1) % rotationCount
+      : current.rotation;
+  const opponentRotation =
+    sideOut && winner === "opponent"
+      ? (current.opponentRotation + 1) % 6
+      : current.opponentRotation;
+
+  const score = { ...match.score, [winner]: match.score[winner] + 1 };
+  const entry: RallyLogEntry = {
+    id: `rally_${Date.now()}_${match.rallies.length + 1}`,
+    rally: match.rallies.length + 1,
+    servingTeam,
+    winner,
+    sideOut,
+    score,
+    rotation,
+    opponentRotation,
+    timestamp: Date.now(),
+  };
+
+  return {
+    match: { ...match, score, rallies: [...match.rallies, entry] },
+    servingTeam: winner,
+    rotation,
+    opponentRotation,
+    entry,
+  };
+}
+
+/**
+ * Serializes the rally log to CSV with one row per rally. Rotations are
+ * written 1-based, as shown in the controls.
+ */
+export function serializeRallyLogToCSV(rallies: RallyLogEntry[]): string {
+  const header = [
+    "rally",
+    "servingTeam",
+    "winner",
+    "sideOut",
+    "homeScore",
+    "opponentScore",
+    "rotation",
+    "opponentRotation",
+    "timestamp",
+  ];
+
+  const rows = rallies.map((entry) =>
+    [
+      entry.rally,
+      entry.servingTeam,
+      entry.winner,
+      entry.sideOut,
+      entry.score.home,
+      entry.score.opponent,
+      entry.rotation + 1,
+      entry.opponentRotation + 1,
+      new Date(entry.timestamp).toISOString(),
+    ].join(",")
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
@@ -0,0 +1,360 @@
+/**
+ * English messages for the court and its controls
+ */
+
+export const EN_COURT_MESSAGES = {
+  "common.readOnly": "Disabled in read-only mode",
+  "common.waitForAnimation": "Please wait for animation to complete",
+
+  // Rotation controls
+  "rotation.previous": "Prev Rotation",
+  "rotation.previousTitle": "Previous rotation",
+  "rotation.next": "Next Rotation",
+  "rotation.nextTitle": "Next rotation",
+  "rotation.indicators": "Rotations:",
+  "rotation.indicatorTitle": "Rotation {rotation}",
+  "rotation.indicatorTitleCustom": "Rotation {rotation} (Custom positions)",
+  "rotation.liberoSwap": "Libero {libero} replaces {player} in position {slot}",
+
+  // Formation and system selectors
+  "formation.selectLabel": "Show formation:",
+  "formation.selectTitle": "Select formation type",
+  "formation.option.rotational": "Rotational Position",
+  "formation.option.serveReceive": "Serve/Receive",
+  "formation.option.base": "Base (Attack)",
+  "formation.customLegend": "(● indicates custom positions)",
+  "formation.applyTemplate": "Apply template…",
+  "formation.templateTitle": "Place players with a formation template",
+  "formation.saveTemplate": "Save as template",
+  "formation.name.rotational": "rotational",
+  "formation.name.serveReceive": "serve receive",
+  "formation.name.base": "base",
+  "system.selectTitle": "Select volleyball system",
+
+  // Animation
+  "animation.label": "Animate SR→Base",
+  "animation.running": "Animating...",
+  "animation.runningTitle": "Animation in progress",
+  "animation.title": "Play scripted animation sequence",
+
+  // Multi-select
+  "selection.hint":
+    "Shift-click players or drag a box around them to move them together",
+  "selection.count": "{count} selected",
+  "selection.alignRow": "Align to row",
+  "selection.distribute": "Distribute across width",
+  "selection.clear": "Clear selection",
+
+  // Player context menu
+  "playerMenu.label": "Actions for {player}",
+  "playerMenu.reset": "Reset to default",
+  "playerMenu.lock": "Lock",
+  "playerMenu.unlock": "Unlock",
+  "playerMenu.swap": "Swap with…",
+  "playerMenu.server": "Mark as server",
+  "playerMenu.edit": "Edit name, number and color…",
+  "playerMenu.copy": "Copy this position to all rotations",
+  "playerMenu.copied": "Copied to {count} other rotations",
+  "playerMenu.copiedSkipped":
+    "Copied to {count} rotations; skipped {rotations}, where it would break the rules",
+  "playerMenu.name": "Name",
+  "playerMenu.number": "Number",
+  "playerMenu.color": "Color",
+  "playerMenu.cancel": "Cancel",
+  "playerMenu.save": "Save",
+
+  // Validation panel
+  "validation.fix": "Fix",
+  "validation.fixTitle": "Move players to the nearest legal lineup",
+  "validation.fixed": "Players moved to the nearest legal lineup.",
+  "validation.undoFix": "Undo",
+  "validation.outOfBounds": "{player} is outside the court",
+  "validation.playerCollision":
+    "{player} and {other} are standing on top of each other",
+  "validation.backRowSetterAtNet":
+    "{player} is a back row setter at the net; after the switch they can't block or attack above the net",
+
+  // Court description and screen reader announcements
+  "court.label": "Volleyball court",
+  "court.describe": "Describe court",
+  "court.summary":
+    "{system} system, rotation {rotation}, {formation} formation.",
+  "court.player": "Zone {slot}, {position}: {player}, {location}.",
+  "court.playerServing":
+    "Zone {slot}, {position}: {player}, serving, {location}.",
+  "court.location": "{x} m from the left sideline, {y} m from the net",
+  "announce.rotation": "Rotation {rotation}",
+  "announce.formation": "{formation} formation",
+  "announce.cantMove": "{player} can't move that way",
+  "announce.groupMoved": "Moved {count} selected players",
+  "announce.playerMoved": "{player}: {location}",
+  // Reset button
+  "reset.label": "Reset",
+  "reset.buttonTitle": "Reset and undo/redo options",
+  "reset.optionsHeading": "Reset Options",
+  "reset.noActions": "No actions available",
+  "reset.shortcutsHint": "Use keyboard shortcuts for quick access",
+  "reset.cancel": "Cancel",
+  "reset.confirm": "Confirm",
+  "reset.noChanges": "No Changes to Reset",
+  "reset.failed": "Reset Failed",
+  "reset.restoredOne": "{count} position restored.",
+  "reset.restoredMany": "{count} positions restored.",
+  "reset.currentRotation": "Reset Current Rotation",
+  "reset.currentRotationDescription": "Reset rotation {rotation} only",
+  "reset.rotationUnchanged":
+    "Rotation {rotation} is already using default positions.",
+  "reset.rotationDone": "Rotation Reset",
+  "reset.rotationSuccess":
+    "Successfully reset rotation {rotation} to default positions.",
+  "reset.rotationFailed": "Failed to reset rotation. Please try again.",
+  "reset.allRotations": "Reset All Rotations",
+  "reset.allRotationsDescription": "Reset all 6 rotations in {formation}",
+  "reset.allRotationsUnchanged":
+    "All rotations are already using default positions.",
+  "reset.allRotationsConfirm":
+    "This will reset all 6 rotations in the {formation} formation to their default positions. This action cannot be undone automatically.",
+  "reset.allRotationsDone": "All Rotations Reset",
+  "reset.allRotationsSuccess":
+    "Successfully reset all rotations in {formation} formation to default positions.",
+  "reset.allRotationsFailed":
+    "Failed to reset all rotations. Please try again.",
+  "reset.formation": "Reset Formation",
+  "reset.formationDescription": "Reset entire {formation} formation",
+  "reset.formationUnchanged":
+    "The {formation} formation is already using default positions.",
+  "reset.formationConfirm":
+    "This will reset all positions in the {formation} formation across all rotations to their defaults.",
+  "reset.formationDone": "Formation Reset",
+  "reset.formationSuccess":
+    "Successfully reset {formation} formation to default positions.",
+  "reset.formationFailed": "Failed to reset formation. Please try again.",
+  "reset.system": "Reset Entire System",
+  "reset.systemDescription": "Reset all customizations in {system} system",
+  "reset.systemUnchanged":
+    "The {system} system is already using default positions.",
+  "reset.systemConfirm":
+    "This will reset ALL customizations in the {system} system across all formations and rotations. This is a destructive action that cannot be undone automatically.",
+  "reset.systemDone": "System Reset",
+  "reset.systemSuccess":
+    "Successfully reset entire {system} system to default positions.",
+  "reset.systemFailed": "Failed to reset system. Please try again.",
+  "reset.undo": "Undo Last Action",
+  "reset.undoDescription": "Undo the most recent reset operation",
+  "reset.undoUnavailable": "Undo Not Available",
+  "reset.undoNothing": "No actions to undo.",
+  "reset.undoDone": "Action Undone",
+  "reset.undoSuccess": "Successfully undid the last action.",
+  "reset.undoFailed": "Undo Failed",
+  "reset.undoFailedMessage": "Failed to undo the last action.",
+  "reset.undoError": "Undo Error",
+  "reset.undoErrorMessage": "An error occurred while undoing the action.",
+  "reset.redo": "Redo Last Action",
+  "reset.redoDescription": "Redo the most recently undone operation",
+  "reset.redoUnavailable": "Redo Not Available",
+  "reset.redoNothing": "No actions to redo.",
+  "reset.redoDone": "Action Redone",
+  "reset.redoSuccess": "Successfully redid the last action.",
+  "reset.redoFailed": "Redo Failed",
+  "reset.redoFailedMessage": "Failed to redo the last action.",
+  "reset.redoError": "Redo Error",
+  "reset.redoErrorMessage": "An error occurred while redoing the action.",
+
+  // History panel
+  "history.title": "History",
+  "history.undo": "Undo",
+  "history.redo": "Redo",
+  "history.empty":
+    "No changes yet. Moves, resets and formation or system changes show up here.",
+  "history.start": "Start",
+  "history.abandonedTitle": "On an abandoned branch; jumping here restores it",
+
+  // Share and export
+  "share.label": "Share",
+  "share.title": "Share current configuration",
+  "share.sharing": "Sharing...",
+  "share.sharingTitle": "Generating share URL...",
+  "share.copied": "Copied!",
+  "share.copiedTitle": "URL copied to clipboard!",
+  "export.label": "Export",
+  "export.title": "Export court",
+  "export.exporting": "Exporting...",
+  "export.exportingTitle": "Exporting...",
+  "export.format.png": "PNG image",
+  "export.format.svg": "SVG image",
+  "export.format.pdf": "PDF (all rotations)",
+  "export.format.json": "JSON data",
+  "export.format.csv": "CSV data",
+
+  // Teams, full court and match scoring
+  "team.home": "Us",
+  "team.opponent": "Opponent",
+  "fullCourt.toggle": "Full court",
+  "fullCourt.servingTeam": "Serving team",
+  "fullCourt.serving": "Serving:",
+  "fullCourt.opponentRotation": "Opponent rotation:",
+  "fullCourt.previousOpponentRotation": "Previous opponent rotation",
+  "fullCourt.nextOpponentRotation": "Next opponent rotation",
+  "fullCourt.resetOpponents": "Reset opponents",
+  "match.mode": "Match mode",
+  "match.servingLabel": "serving",
+  "match.servingTitle": "Serving",
+  "match.pointTo": "Point to {team}",
+  "match.resetScore": "Reset score",
+  "match.exportLog": "Export rally log",
+  "match.sideOut": "side-out",
+
+  // Substitutions
+  "substitution.set": "Set {set}",
+  "substitution.count": "Subs: {used}",
+  "substitution.countLimited": "Subs: {used} / {limit}",
+  "substitution.newSet": "New set",
+  "substitution.playerOut": "Player leaving the court",
+  "substitution.playerIn": "Player coming on",
+  "substitution.submit": "Substitute",
+  "substitution.logEntry": "{playerIn} for {playerOut} (rotation {rotation})",
+
+  // Playbooks
+  "playbook.label": "Playbook:",
+  "playbook.defaultName": "Playbook {number}",
+  "playbook.new": "New",
+  "playbook.nameLabel": "Playbook name",
+  "playbook.duplicate": "Duplicate",
+  "playbook.delete": "Delete",
+  "playbook.deleteLastTitle": "The only playbook can't be deleted",
+
+  // Annotations
+  "annotation.toolbarLabel": "Court annotations",
+  "annotation.draw": "Draw:",
+  "annotation.ball": "Ball",
+  "annotation.arrowPlayer": "Arrow start player",
+  "annotation.curved": "Curved",
+  "annotation.arrow": "Arrow",
+  "annotation.calloutText": "Callout text",
+  "annotation.callout": "Callout",
+  "annotation.zone": "Zone",
+  "annotation.clear": "Clear",
+  "annotation.clearTitle":
+    "Double-click an annotation on the court to remove just that one",
+
+  // Sequence timeline
+  "sequence.label": "Play:",
+  "sequence.defaultName": "Play {number}",
+  "sequence.none": "None",
+  "sequence.new": "New",
+  "sequence.nameLabel": "Sequence name",
+  "sequence.delete": "Delete",
+  "sequence.jumpTo": "Jump to {time}",
+  "sequence.keyframeLabel": "Keyframe {keyframe} label",
+  "sequence.keyframeDuration": "Keyframe {keyframe} duration (ms)",
+  "sequence.keyframeEarlier": "Move keyframe {keyframe} earlier",
+  "sequence.keyframeLater": "Move keyframe {keyframe} later",
+  "sequence.keyframeRemove": "Remove keyframe {keyframe}",
+  "sequence.keyframe.serve": "serve",
+  "sequence.keyframe.pass": "pass",
+  "sequence.keyframe.set": "set",
+  "sequence.keyframe.attack": "attack",
+  "sequence.keyframe.transition": "transition",
+  "sequence.addKeyframe": "Add keyframe",
+  "sequence.addKeyframeTitle": "Capture the current court as a keyframe",
+  "sequence.addKeyframePreviewTitle": "Exit preview to capture the court",
+  "sequence.play": "Play",
+  "sequence.stop": "Stop",
+  "sequence.time": "Sequence time",
+  "sequence.exitPreview": "Exit preview",
+
+  // Configuration panel
+  "config.title": "Court Configuration",
+  "config.description":
+    "Customize the volleyball court appearance and behavior",
+  "config.section.general": "General",
+  "config.section.players": "Players",
+  "config.section.appearance": "Appearance",
+  "config.section.controls": "Controls",
+  "config.section.validation": "Validation",
+  "config.section.animation": "Animation",
+  "config.section.presets": "Presets",
+  "config.system.5-1": "5-1 System",
+  "config.system.6-2": "6-2 System",
+  "config.formation.rotational": "Rotational",
+  "config.formation.serveReceive": "Serve Receive",
+  "config.formation.base": "Base Attack",
+  "config.general.initialSystem": "Initial System",
+  "config.general.initialRotation": "Initial Rotation",
+  "config.general.initialFormation": "Initial Formation",
+  "config.general.rotation": "Rotation {rotation}",
+  "config.players.system": "System",
+  "config.players.colorScheme": "Color Scheme",
+  "config.players.byRole": "By Role",
+  "config.players.byPosition": "By Position",
+  "config.players.name": "Name",
+  "config.players.number": "Number",
+  "config.players.color": "Color",
+  "config.appearance.theme": "Theme",
+  "config.appearance.theme.auto": "Auto",
+  "config.appearance.theme.light": "Light",
+  "config.appearance.theme.dark": "Dark",
+  "config.appearance.courtColor": "Court Color",
+  "config.appearance.playerSize": "Player Size",
+  "config.appearance.colorSchemes": "Color Schemes",
+  "config.appearance.showPlayerNames": "Show Player Names",
+  "config.appearance.showPlayerNumbers": "Show Player Numbers",
+  "config.appearance.showPositionLabels": "Show Position Labels",
+  "config.appearance.showCourtGrid": "Show Court Grid",
+  "config.controls.position": "Controls Position",
+  "config.controls.position.top": "Top",
+  "config.controls.position.bottom": "Bottom",
+  "config.controls.position.left": "Left",
+  "config.controls.position.right": "Right",
+  "config.controls.position.overlay": "Overlay",
+  "config.controls.style": "Controls Style",
+  "config.controls.style.minimal": "Minimal",
+  "config.controls.style.compact": "Compact",
+  "config.controls.style.expanded": "Expanded",
+  "config.controls.showSystemSelector": "System Selector",
+  "config.controls.showRotationControls": "Rotation Controls",
+  "config.controls.showFormationSelector": "Formation Selector",
+  "config.controls.showResetButton": "Reset Button",
+  "config.controls.showShareButton": "Share Button",
+  "config.controls.showExportButton": "Export Button",
+  "config.controls.showAnimateButton": "Animate Button",
+  "config.controls.showSequenceEditor": "Sequence Editor",
+  "config.controls.showAnnotationTools": "Annotation Tools",
+  "config.controls.showFullCourtControls": "Full Court Controls",
+  "config.controls.showSubstitutionManager": "Substitution Manager",
+  "config.controls.showMatchControls": "Match Controls",
+  "config.controls.showPlaybookSwitcher": "Playbook Switcher",
+  "config.controls.showHistoryPanel": "History Panel",
+  "config.validation.realTime": "Real-time Validation",
+  "config.validation.showConstraintBoundaries": "Show Constraint Boundaries",
+  "config.validation.positionSnapping": "Position Snapping",
+  "config.validation.showViolationDetails": "Show Violation Details",
+  "config.validation.educationalMessages": "Educational Messages",
+  "config.validation.strictMode": "Strict Mode",
+  "config.validation.ruleSet": "Rule Set",
+  "config.validation.ruleSet.default": "Default",
+  "config.validation.snapTolerance": "Snap Tolerance",
+  "config.animation.enable": "Enable Animations",
+  "config.animation.drag": "Drag Animations",
+  "config.animation.formationTransitions": "Formation Transitions",
+  "config.animation.rotationAnimations": "Rotation Animations",
+  "config.animation.bounceOnViolation": "Bounce on Violation",
+  "config.animation.highlightOnHover": "Highlight on Hover",
+  "config.animation.duration": "Animation Duration",
+  "config.animation.staggerDelay": "Stagger Delay",
+  "config.presets.description":
+    "Apply predefined configurations for common use cases",
+  "config.presets.apply": "Apply",
+  "config.preset.minimal": "Clean, simple interface for embedding",
+  "config.preset.educational": "Full validation and educational features",
+  "config.preset.presentation": "Optimized for coaching and presentations",
+  "config.preset.highContrast": "High contrast colors for accessibility",
+  "config.preset.performance": "Optimized for performance on large displays",
+  "config.preset.tournament": "Competition-ready with strict validation",
+  "config.preset.training": "Full-featured training environment",
+  "config.preset.mobile": "Optimized for mobile devices",
+  "config.preset.print": "Print and export friendly styling",
+  "config.preset.custom": "Custom configuration preset",
+};
+
+export type CourtMessageKey = keyof typeof EN_COURT_MESSAGES;
@@ -0,0 +1,357 @@
+/**
+ * Spanish messages for the court and its controls
+ */
+
+import type { CourtMessageKey } from "./en";
+
+export const ES_COURT_MESSAGES: Record<CourtMessageKey, string> = {
+  "common.readOnly": "Desactivado en modo de solo lectura",
+  "common.waitForAnimation": "Espera a que termine la animación",
+
+  "rotation.previous": "Rotación anterior",
+  "rotation.previousTitle": "Rotación anterior",
+  "rotation.next": "Rotación siguiente",
+  "rotation.nextTitle": "Rotación siguiente",
+  "rotation.indicators": "Rotaciones:",
+  "rotation.indicatorTitle": "Rotación {rotation}",
+  "rotation.indicatorTitleCustom":
+    "Rotación {rotation} (posiciones personalizadas)",
+  "rotation.liberoSwap":
+    "El líbero {libero} reemplaza a {player} en la posición {slot}",
+
+  "formation.selectLabel": "Mostrar formación:",
+  "formation.selectTitle": "Elegir tipo de formación",
+  "formation.option.rotational": "Posición de rotación",
+  "formation.option.serveReceive": "Saque/Recepción",
+  "formation.option.base": "Base (Ataque)",
+  "formation.customLegend": "(● indica posiciones personalizadas)",
+  "formation.applyTemplate": "Aplicar plantilla…",
+  "formation.templateTitle":
+    "Colocar a los jugadores con una plantilla de formación",
+  "formation.saveTemplate": "Guardar como plantilla",
+  "formation.name.rotational": "de rotación",
+  "formation.name.serveReceive": "de recepción",
+  "formation.name.base": "base",
+  "system.selectTitle": "Elegir sistema de juego",
+
+  "animation.label": "Animar Recepción→Base",
+  "animation.running": "Animando...",
+  "animation.runningTitle": "Animación en curso",
+  "animation.title": "Reproducir la secuencia animada",
+
+  "selection.hint":
+    "Haz Mayús+clic en los jugadores o arrastra un recuadro para moverlos juntos",
+  "selection.count": "{count} seleccionados",
+  "selection.alignRow": "Alinear en fila",
+  "selection.distribute": "Repartir a lo ancho",
+  "selection.clear": "Quitar selección",
+
+  "playerMenu.label": "Acciones para {player}",
+  "playerMenu.reset": "Volver a la posición inicial",
+  "playerMenu.lock": "Bloquear",
+  "playerMenu.unlock": "Desbloquear",
+  "playerMenu.swap": "Intercambiar con…",
+  "playerMenu.server": "Marcar como sacador",
+  "playerMenu.edit": "Editar nombre, número y color…",
+  "playerMenu.copy": "Copiar esta posición a todas las rotaciones",
+  "playerMenu.copied": "Copiado a otras {count} rotaciones",
+  "playerMenu.copiedSkipped":
+    "Copiado a {count} rotaciones; se omitieron {rotations}, donde rompería las reglas",
+  "playerMenu.name": "Nombre",
+  "playerMenu.number": "Número",
+  "playerMenu.color": "Color",
+  "playerMenu.cancel": "Cancelar",
+  "playerMenu.save": "Guardar",
+
+  "validation.fix": "Corregir",
+  "validation.fixTitle":
+    "Mover a los jugadores a la alineación legal más cercana",
+  "validation.fixed": "Jugadores movidos a la alineación legal más cercana.",
+  "validation.undoFix": "Deshacer",
+  "validation.outOfBounds": "{player} está fuera de la cancha",
+  "validation.playerCollision": "{player} y {other} están uno encima del otro",
+  "validation.backRowSetterAtNet":
+    "{player} es un colocador de zaguero en la red; tras el cambio no puede bloquear ni atacar por encima de la red",
+
+  "court.label": "Cancha de voleibol",
+  "court.describe": "Describir la cancha",
+  "court.summary":
+    "Sistema {system}, rotación {rotation}, formación {formation}.",
+  "court.player": "Zona {slot}, {position}: {player}, {location}.",
+  "court.playerServing":
+    "Zona {slot}, {position}: {player}, al saque, {location}.",
+  "court.location": "a {x} m de la línea lateral izquierda y a {y} m de la red",
+  "announce.rotation": "Rotación {rotation}",
+  "announce.formation": "Formación {formation}",
+  "announce.cantMove": "{player} no puede moverse en esa dirección",
+  "announce.groupMoved": "Se movieron {count} jugadores seleccionados",
+  "announce.playerMoved": "{player}: {location}",
+
+  "reset.label": "Restablecer",
+  "reset.buttonTitle": "Opciones de restablecer y deshacer/rehacer",
+  "reset.optionsHeading": "Opciones de restablecimiento",
+  "reset.noActions": "No hay acciones disponibles",
+  "reset.shortcutsHint": "Usa los atajos de teclado para acceder rápidamente",
+  "reset.cancel": "Cancelar",
+  "reset.confirm": "Confirmar",
+  "reset.noChanges": "No hay cambios que restablecer",
+  "reset.failed": "Error al restablecer",
+  "reset.restoredOne": "{count} posición restaurada.",
+  "reset.restoredMany": "{count} posiciones restauradas.",
+  "reset.currentRotation": "Restablecer la rotación actual",
+  "reset.currentRotationDescription": "Restablecer solo la rotación {rotation}",
+  "reset.rotationUnchanged":
+    "La rotación {rotation} ya usa las posiciones predeterminadas.",
+  "reset.rotationDone": "Rotación restablecida",
+  "reset.rotationSuccess":
+    "La rotación {rotation} se restableció a las posiciones predeterminadas.",
+  "reset.rotationFailed":
+    "No se pudo restablecer la rotación. Inténtalo de nuevo.",
+  "reset.allRotations": "Restablecer todas las rotaciones",
+  "reset.allRotationsDescription":
+    "Restablecer las 6 rotaciones de {formation}",
+  "reset.allRotationsUnchanged":
+    "Todas las rotaciones ya usan las posiciones predeterminadas.",
+  "reset.allRotationsConfirm":
+    "Se restablecerán las 6 rotaciones de la formación {formation} a sus posiciones predeterminadas. Esta acción no se puede deshacer automáticamente.",
+  "reset.allRotationsDone": "Rotaciones restablecidas",
+  "reset.allRotationsSuccess":
+    "Todas las rotaciones de la formación {formation} se restablecieron a las posiciones predeterminadas.",
+  "reset.allRotationsFailed":
+    "No se pudieron restablecer las rotaciones. Inténtalo de nuevo.",
+  "reset.formation": "Restablecer la formación",
+  "reset.formationDescription": "Restablecer toda la formación {formation}",
+  "reset.formationUnchanged":
+    "La formación {formation} ya usa las posiciones predeterminadas.",
+  "reset.formationConfirm":
+    "Se restablecerán todas las posiciones de la formación {formation} en todas las rotaciones a sus valores predeterminados.",
+  "reset.formationDone": "Formación restablecida",
+  "reset.formationSuccess":
+    "La formación {formation} se restableció a las posiciones predeterminadas.",
+  "reset.formationFailed":
+    "No se pudo restablecer la formación. Inténtalo de nuevo.",
+  "reset.system": "Restablecer todo el sistema",
+  "reset.systemDescription":
+    "Restablecer todas las personalizaciones del sistema {system}",
+  "reset.systemUnchanged":
+    "El sistema {system} ya usa las posiciones predeterminadas.",
+  "reset.systemConfirm":
+    "Se restablecerán TODAS las personalizaciones del sistema {system} en todas las formaciones y rotaciones. Es una acción destructiva que no se puede deshacer automáticamente.",
+  "reset.systemDone": "Sistema restablecido",
+  "reset.systemSuccess":
+    "Todo el sistema {system} se restableció a las posiciones predeterminadas.",
+  "reset.systemFailed":
+    "No se pudo restablecer el sistema. Inténtalo de nuevo.",
+  "reset.undo": "Deshacer la última acción",
+  "reset.undoDescription": "Deshacer el restablecimiento más reciente",
+  "reset.undoUnavailable": "No se puede deshacer",
+  "reset.undoNothing": "No hay acciones que deshacer.",
+  "reset.undoDone": "Acción deshecha",
+  "reset.undoSuccess": "Se deshizo la última acción.",
+  "reset.undoFailed": "Error al deshacer",
+  "reset.undoFailedMessage": "No se pudo deshacer la última acción.",
+  "reset.undoError": "Error al deshacer",
+  "reset.undoErrorMessage": "Se produjo un error al deshacer la acción.",
+  "reset.redo": "Rehacer la última acción",
+  "reset.redoDescription": "Rehacer la última operación deshecha",
+  "reset.redoUnavailable": "No se puede rehacer",
+  "reset.redoNothing": "No hay acciones que rehacer.",
+  "reset.redoDone": "Acción rehecha",
+  "reset.redoSuccess": "Se rehízo la última acción.",
+  "reset.redoFailed": "Error al rehacer",
+  "reset.redoFailedMessage": "No se pudo rehacer la última acción.",
+  "reset.redoError": "Error al rehacer",
+  "reset.redoErrorMessage": "Se produjo un error al rehacer la acción.",
+
+  "history.title": "Historial",
+  "history.undo": "Deshacer",
+  "history.redo": "Rehacer",
+  "history.empty":
+    "Aún no hay cambios. Aquí aparecen los movimientos, los restablecimientos y los cambios de formación o de sistema.",
+  "history.start": "Inicio",
+  "history.abandonedTitle": "En una rama abandonada; saltar aquí la restaura",
+
+  "share.label": "Compartir",
+  "share.title": "Compartir la configuración actual",
+  "share.sharing": "Compartiendo...",
+  "share.sharingTitle": "Generando la URL para compartir...",
+  "share.copied": "¡Copiada!",
+  "share.copiedTitle": "¡URL copiada al portapapeles!",
+  "export.label": "Exportar",
+  "export.title": "Exportar la cancha",
+  "export.exporting": "Exportando...",
+  "export.exportingTitle": "Exportando...",
+  "export.format.png": "Imagen PNG",
+  "export.format.svg": "Imagen SVG",
+  "export.format.pdf": "PDF (todas las rotaciones)",
+  "export.format.json": "Datos JSON",
+  "export.format.csv": "Datos CSV",
+
+  "team.home": "Nosotros",
+  "team.opponent": "Rival",
+  "fullCourt.toggle": "Cancha completa",
+  "fullCourt.servingTeam": "Equipo al saque",
+  "fullCourt.serving": "Saca:",
+  "fullCourt.opponentRotation": "Rotación del rival:",
+  "fullCourt.previousOpponentRotation": "Rotación anterior del rival",
+  "fullCourt.nextOpponentRotation": "Rotación siguiente del rival",
+  "fullCourt.resetOpponents": "Restablecer rivales",
+  "match.mode": "Modo partido",
+  "match.servingLabel": "al saque",
+  "match.servingTitle": "Al saque",
+  "match.pointTo": "Punto para {team}",
+  "match.resetScore": "Reiniciar marcador",
+  "match.exportLog": "Exportar registro de jugadas",
+  "match.sideOut": "cambio de saque",
+
+  "substitution.set": "Set {set}",
+  "substitution.count": "Cambios: {used}",
+  "substitution.countLimited": "Cambios: {used} / {limit}",
+  "substitution.newSet": "Nuevo set",
+  "substitution.playerOut": "Jugador que sale de la cancha",
+  "substitution.playerIn": "Jugador que entra",
+  "substitution.submit": "Sustituir",
+  "substitution.logEntry": "{playerIn} por {playerOut} (rotación {rotation})",
+
+  "playbook.label": "Libro de jugadas:",
+  "playbook.defaultName": "Libro de jugadas {number}",
+  "playbook.new": "Nuevo",
+  "playbook.nameLabel": "Nombre del libro de jugadas",
+  "playbook.duplicate": "Duplicar",
+  "playbook.delete": "Eliminar",
+  "playbook.deleteLastTitle": "No se puede eliminar el único libro de jugadas",
+
+  "annotation.toolbarLabel": "Anotaciones de la cancha",
+  "annotation.draw": "Dibujar:",
+  "annotation.ball": "Balón",
+  "annotation.arrowPlayer": "Jugador de inicio de la flecha",
+  "annotation.curved": "Curva",
+  "annotation.arrow": "Flecha",
+  "annotation.calloutText": "Texto de la nota",
+  "annotation.callout": "Nota",
+  "annotation.zone": "Zona",
+  "annotation.clear": "Borrar",
+  "annotation.clearTitle":
+    "Haz doble clic en una anotación de la cancha para quitar solo esa",
+
+  "sequence.label": "Jugada:",
+  "sequence.defaultName": "Jugada {number}",
+  "sequence.none": "Ninguna",
+  "sequence.new": "Nueva",
+  "sequence.nameLabel": "Nombre de la secuencia",
+  "sequence.delete": "Eliminar",
+  "sequence.jumpTo": "Ir a {time}",
+  "sequence.keyframeLabel": "Etiqueta del fotograma clave {keyframe}",
+  "sequence.keyframeDuration": "Duración del fotograma clave {keyframe} (ms)",
+  "sequence.keyframeEarlier": "Mover el fotograma clave {keyframe} antes",
+  "sequence.keyframeLater": "Mover el fotograma clave {keyframe} después",
+  "sequence.keyframeRemove": "Quitar el fotograma clave {keyframe}",
+  "sequence.keyframe.serve": "saque",
+  "sequence.keyframe.pass": "recepción",
+  "sequence.keyframe.set": "colocación",
+  "sequence.keyframe.attack": "ataque",
+  "sequence.keyframe.transition": "transición",
+  "sequence.addKeyframe": "Añadir fotograma clave",
+  "sequence.addKeyframeTitle": "Capturar la cancha actual como fotograma clave",
+  "sequence.addKeyframePreviewTitle":
+    "Sal de la vista previa para capturar la cancha",
+  "sequence.play": "Reproducir",
+  "sequence.stop": "Detener",
+  "sequence.time": "Tiempo de la secuencia",
+  "sequence.exitPreview": "Salir de la vista previa",
+
+  "config.title": "Configuración de la cancha",
+  "config.description":
+    "Personaliza la apariencia y el comportamiento de la cancha de voleibol",
+  "config.section.general": "General",
+  "config.section.players": "Jugadores",
+  "config.section.appearance": "Apariencia",
+  "config.section.controls": "Controles",
+  "config.section.validation": "Validación",
+  "config.section.animation": "Animación",
+  "config.section.presets": "Ajustes predefinidos",
+  "config.system.5-1": "Sistema 5-1",
+  "config.system.6-2": "Sistema 6-2",
+  "config.formation.rotational": "Rotación",
+  "config.formation.serveReceive": "Saque y recepción",
+  "config.formation.base": "Base de ataque",
+  "config.general.initialSystem": "Sistema inicial",
+  "config.general.initialRotation": "Rotación inicial",
+  "config.general.initialFormation": "Formación inicial",
+  "config.general.rotation": "Rotación {rotation}",
+  "config.players.system": "Sistema",
+  "config.players.colorScheme": "Esquema de colores",
+  "config.players.byRole": "Por función",
+  "config.players.byPosition": "Por posición",
+  "config.players.name": "Nombre",
+  "config.players.number": "Número",
+  "config.players.color": "Color",
+  "config.appearance.theme": "Tema",
+  "config.appearance.theme.auto": "Automático",
+  "config.appearance.theme.light": "Claro",
+  "config.appearance.theme.dark": "Oscuro",
+  "config.appearance.courtColor": "Color de la cancha",
+  "config.appearance.playerSize": "Tamaño de los jugadores",
+  "config.appearance.colorSchemes": "Esquemas de colores",
+  "config.appearance.showPlayerNames": "Mostrar nombres de jugadores",
+  "config.appearance.showPlayerNumbers": "Mostrar números de jugadores",
+  "config.appearance.showPositionLabels": "Mostrar etiquetas de posición",
+  "config.appearance.showCourtGrid": "Mostrar cuadrícula de la cancha",
+  "config.controls.position": "Posición de los controles",
+  "config.controls.position.top": "Arriba",
+  "config.controls.position.bottom": "Abajo",
+  "config.controls.position.left": "Izquierda",
+  "config.controls.position.right": "Derecha",
+  "config.controls.position.overlay": "Superpuestos",
+  "config.controls.style": "Estilo de los controles",
+  "config.controls.style.minimal": "Mínimo",
+  "config.controls.style.compact": "Compacto",
+  "config.controls.style.expanded": "Expandido",
+  "config.controls.showSystemSelector": "Selector de sistema",
+  "config.controls.showRotationControls": "Controles de rotación",
+  "config.controls.showFormationSelector": "Selector de formación",
+  "config.controls.showResetButton": "Botón de restablecer",
+  "config.controls.showShareButton": "Botón de compartir",
+  "config.controls.showExportButton": "Botón de exportar",
+  "config.controls.showAnimateButton": "Botón de animar",
+  "config.controls.showSequenceEditor": "Editor de secuencias",
+  "config.controls.showAnnotationTools": "Herramientas de anotación",
+  "config.controls.showFullCourtControls": "Controles de cancha completa",
+  "config.controls.showSubstitutionManager": "Gestor de sustituciones",
+  "config.controls.showMatchControls": "Controles de partido",
+  "config.controls.showPlaybookSwitcher": "Selector de libro de jugadas",
+  "config.controls.showHistoryPanel": "Panel de historial",
+  "config.validation.realTime": "Validación en tiempo real",
+  "config.validation.showConstraintBoundaries":
+    "Mostrar límites de restricción",
+  "config.validation.positionSnapping": "Ajuste de posición",
+  "config.validation.showViolationDetails": "Mostrar detalles de infracciones",
+  "config.validation.educationalMessages": "Mensajes educativos",
+  "config.validation.strictMode": "Modo estricto",
+  "config.validation.ruleSet": "Reglamento",
+  "config.validation.ruleSet.default": "Predeterminado",
+  "config.validation.snapTolerance": "Tolerancia de ajuste",
+  "config.animation.enable": "Activar animaciones",
+  "config.animation.drag": "Animaciones al arrastrar",
+  "config.animation.formationTransitions": "Transiciones de formación",
+  "config.animation.rotationAnimations": "Animaciones de rotación",
+  "config.animation.bounceOnViolation": "Rebotar al infringir",
+  "config.animation.highlightOnHover": "Resaltar al pasar el cursor",
+  "config.animation.duration": "Duración de la animación",
+  "config.animation.staggerDelay": "Retraso escalonado",
+  "config.presets.description":
+    "Aplica configuraciones predefinidas para casos de uso comunes",
+  "config.presets.apply": "Aplicar",
+  "config.preset.minimal": "Interfaz limpia y sencilla para insertar",
+  "config.preset.educational": "Validación completa y funciones educativas",
+  "config.preset.presentation":
+    "Optimizado para entrenamientos y presentaciones",
+  "config.preset.highContrast": "Colores de alto contraste para accesibilidad",
+  "config.preset.performance":
+    "Optimizado para el rendimiento en pantallas grandes",
+  "config.preset.tournament": "Listo para competición con validación estricta",
+  "config.preset.training": "Entorno de entrenamiento completo",
+  "config.preset.mobile": "Optimizado para dispositivos móviles",
+  "config.preset.print": "Estilo apto para imprimir y exportar",
+  "config.preset.custom": "Ajuste de configuración personalizado",
+};
@@ -0,0 +1,363 @@
+/**
+ * French messages for the court and its controls
+ */
+
+import type { CourtMessageKey } from "./en";
+
+export const FR_COURT_MESSAGES: Record<CourtMessageKey, string> = {
+  "common.readOnly": "Désactivé en mode lecture seule",
+  "common.waitForAnimation": "Veuillez attendre la fin de l'animation",
+
+  "rotation.previous": "Rotation précédente",
+  "rotation.previousTitle": "Rotation précédente",
+  "rotation.next": "Rotation suivante",
+  "rotation.nextTitle": "Rotation suivante",
+  "rotation.indicators": "Rotations :",
+  "rotation.indicatorTitle": "Rotation {rotation}",
+  "rotation.indicatorTitleCustom":
+    "Rotation {rotation} (positions personnalisées)",
+  "rotation.liberoSwap": "Le libéro {libero} remplace {player} au poste {slot}",
+
+  "formation.selectLabel": "Afficher la formation :",
+  "formation.selectTitle": "Choisir le type de formation",
+  "formation.option.rotational": "Position de rotation",
+  "formation.option.serveReceive": "Service/Réception",
+  "formation.option.base": "Base (Attaque)",
+  "formation.customLegend": "(● indique des positions personnalisées)",
+  "formation.applyTemplate": "Appliquer un modèle…",
+  "formation.templateTitle": "Placer les joueurs avec un modèle de formation",
+  "formation.saveTemplate": "Enregistrer comme modèle",
+  "formation.name.rotational": "de rotation",
+  "formation.name.serveReceive": "de réception",
+  "formation.name.base": "de base",
+  "system.selectTitle": "Choisir le système de jeu",
+
+  "animation.label": "Animer Réception→Base",
+  "animation.running": "Animation...",
+  "animation.runningTitle": "Animation en cours",
+  "animation.title": "Lire la séquence animée",
+
+  "selection.hint":
+    "Maj+clic sur les joueurs ou tracez un cadre autour d'eux pour les déplacer ensemble",
+  "selection.count": "{count} sélectionnés",
+  "selection.alignRow": "Aligner sur une ligne",
+  "selection.distribute": "Répartir sur la largeur",
+  "selection.clear": "Effacer la sélection",
+
+  "playerMenu.label": "Actions pour {player}",
+  "playerMenu.reset": "Revenir à la position par défaut",
+  "playerMenu.lock": "Verrouiller",
+  "playerMenu.unlock": "Déverrouiller",
+  "playerMenu.swap": "Échanger avec…",
+  "playerMenu.server": "Désigner comme serveur",
+  "playerMenu.edit": "Modifier le nom, le numéro et la couleur…",
+  "playerMenu.copy": "Copier cette position dans toutes les rotations",
+  "playerMenu.copied": "Copié dans {count} autres rotations",
+  "playerMenu.copiedSkipped":
+    "Copié dans {count} rotations ; {rotations} ignorées, car les règles seraient enfreintes",
+  "playerMenu.name": "Nom",
+  "playerMenu.number": "Numéro",
+  "playerMenu.color": "Couleur",
+  "playerMenu.cancel": "Annuler",
+  "playerMenu.save": "Enregistrer",
+
+  "validation.fix": "Corriger",
+  "validation.fixTitle":
+    "Déplacer les joueurs vers la composition légale la plus proche",
+  "validation.fixed":
+    "Joueurs déplacés vers la composition légale la plus proche.",
+  "validation.undoFix": "Annuler",
+  "validation.outOfBounds": "{player} est hors du terrain",
+  "validation.playerCollision": "{player} et {other} se chevauchent",
+  "validation.backRowSetterAtNet":
+    "{player} est un passeur arrière au filet ; après la permutation, il ne peut ni contrer ni attaquer au-dessus du filet",
+
+  "court.label": "Terrain de volley-ball",
+  "court.describe": "Décrire le terrain",
+  "court.summary":
+    "Système {system}, rotation {rotation}, formation {formation}.",
+  "court.player": "Zone {slot}, {position} : {player}, {location}.",
+  "court.playerServing":
+    "Zone {slot}, {position} : {player}, au service, {location}.",
+  "court.location": "à {x} m de la ligne de côté gauche et à {y} m du filet",
+  "announce.rotation": "Rotation {rotation}",
+  "announce.formation": "Formation {formation}",
+  "announce.cantMove": "{player} ne peut pas aller dans cette direction",
+  "announce.groupMoved": "{count} joueurs sélectionnés déplacés",
+  "announce.playerMoved": "{player} : {location}",
+
+  "reset.label": "Réinitialiser",
+  "reset.buttonTitle":
+    "Options de réinitialisation et d'annulation/rétablissement",
+  "reset.optionsHeading": "Options de réinitialisation",
+  "reset.noActions": "Aucune action disponible",
+  "reset.shortcutsHint": "Utilisez les raccourcis clavier pour un accès rapide",
+  "reset.cancel": "Annuler",
+  "reset.confirm": "Confirmer",
+  "reset.noChanges": "Aucune modification à réinitialiser",
+  "reset.failed": "Échec de la réinitialisation",
+  "reset.restoredOne": "{count} position restaurée.",
+  "reset.restoredMany": "{count} positions restaurées.",
+  "reset.currentRotation": "Réinitialiser la rotation actuelle",
+  "reset.currentRotationDescription":
+    "Réinitialiser uniquement la rotation {rotation}",
+  "reset.rotationUnchanged":
+    "La rotation {rotation} utilise déjà les positions par défaut.",
+  "reset.rotationDone": "Rotation réinitialisée",
+  "reset.rotationSuccess":
+    "La rotation {rotation} a été remise aux positions par défaut.",
+  "reset.rotationFailed":
+    "Impossible de réinitialiser la rotation. Veuillez réessayer.",
+  "reset.allRotations": "Réinitialiser toutes les rotations",
+  "reset.allRotationsDescription":
+    "Réinitialiser les 6 rotations de {formation}",
+  "reset.allRotationsUnchanged":
+    "Toutes les rotations utilisent déjà les positions par défaut.",
+  "reset.allRotationsConfirm":
+    "Les 6 rotations de la formation {formation} seront remises à leurs positions par défaut. Cette action ne peut pas être annulée automatiquement.",
+  "reset.allRotationsDone": "Rotations réinitialisées",
+  "reset.allRotationsSuccess":
+    "Toutes les rotations de la formation {formation} ont été remises aux positions par défaut.",
+  "reset.allRotationsFailed":
+    "Impossible de réinitialiser les rotations. Veuillez réessayer.",
+  "reset.formation": "Réinitialiser la formation",
+  "reset.formationDescription": "Réinitialiser toute la formation {formation}",
+  "reset.formationUnchanged":
+    "La formation {formation} utilise déjà les positions par défaut.",
+  "reset.formationConfirm":
+    "Toutes les positions de la formation {formation} seront remises à leurs valeurs par défaut dans toutes les rotations.",
+  "reset.formationDone": "Formation réinitialisée",
+  "reset.formationSuccess":
+    "La formation {formation} a été remise aux positions par défaut.",
+  "reset.formationFailed":
+    "Impossible de réinitialiser la formation. Veuillez réessayer.",
+  "reset.system": "Réinitialiser tout le système",
+  "reset.systemDescription":
+    "Réinitialiser toutes les personnalisations du système {system}",
+  "reset.systemUnchanged":
+    "Le système {system} utilise déjà les positions par défaut.",
+  "reset.systemConfirm":
+    "TOUTES les personnalisations du système {system} seront réinitialisées dans toutes les formations et rotations. Cette action destructive ne peut pas être annulée automatiquement.",
+  "reset.systemDone": "Système réinitialisé",
+  "reset.systemSuccess":
+    "Tout le système {system} a été remis aux positions par défaut.",
+  "reset.systemFailed":
+    "Impossible de réinitialiser le système. Veuillez réessayer.",
+  "reset.undo": "Annuler la dernière action",
+  "reset.undoDescription": "Annuler la réinitialisation la plus récente",
+  "reset.undoUnavailable": "Annulation impossible",
+  "reset.undoNothing": "Aucune action à annuler.",
+  "reset.undoDone": "Action annulée",
+  "reset.undoSuccess": "La dernière action a été annulée.",
+  "reset.undoFailed": "Échec de l'annulation",
+  "reset.undoFailedMessage": "Impossible d'annuler la dernière action.",
+  "reset.undoError": "Erreur d'annulation",
+  "reset.undoErrorMessage":
+    "Une erreur s'est produite lors de l'annulation de l'action.",
+  "reset.redo": "Rétablir la dernière action",
+  "reset.redoDescription": "Rétablir la dernière opération annulée",
+  "reset.redoUnavailable": "Rétablissement impossible",
+  "reset.redoNothing": "Aucune action à rétablir.",
+  "reset.redoDone": "Action rétablie",
+  "reset.redoSuccess": "La dernière action a été rétablie.",
+  "reset.redoFailed": "Échec du rétablissement",
+  "reset.redoFailedMessage": "Impossible de rétablir la dernière action.",
+  "reset.redoError": "Erreur de rétablissement",
+  "reset.redoErrorMessage":
+    "Une erreur s'est produite lors du rétablissement de l'action.",
+
+  "history.title": "Historique",
+  "history.undo": "Annuler",
+  "history.redo": "Rétablir",
+  "history.empty":
+    "Aucune modification pour l'instant. Les déplacements, réinitialisations et changements de formation ou de système apparaissent ici.",
+  "history.start": "Début",
+  "history.abandonedTitle":
+    "Sur une branche abandonnée ; y revenir la restaure",
+
+  "share.label": "Partager",
+  "share.title": "Partager la configuration actuelle",
+  "share.sharing": "Partage...",
+  "share.sharingTitle": "Génération de l'URL de partage...",
+  "share.copied": "Copiée !",
+  "share.copiedTitle": "URL copiée dans le presse-papiers !",
+  "export.label": "Exporter",
+  "export.title": "Exporter le terrain",
+  "export.exporting": "Exportation...",
+  "export.exportingTitle": "Exportation...",
+  "export.format.png": "Image PNG",
+  "export.format.svg": "Image SVG",
+  "export.format.pdf": "PDF (toutes les rotations)",
+  "export.format.json": "Données JSON",
+  "export.format.csv": "Données CSV",
+
+  "team.home": "Nous",
+  "team.opponent": "Adversaire",
+  "fullCourt.toggle": "Terrain complet",
+  "fullCourt.servingTeam": "Équipe au service",
+  "fullCourt.serving": "Au service :",
+  "fullCourt.opponentRotation": "Rotation adverse :",
+  "fullCourt.previousOpponentRotation": "Rotation adverse précédente",
+  "fullCourt.nextOpponentRotation": "Rotation adverse suivante",
+  "fullCourt.resetOpponents": "Réinitialiser les adversaires",
+  "match.mode": "Mode match",
+  "match.servingLabel": "au service",
+  "match.servingTitle": "Au service",
+  "match.pointTo": "Point pour {team}",
+  "match.resetScore": "Remettre le score à zéro",
+  "match.exportLog": "Exporter le journal des échanges",
+  "match.sideOut": "changement de service",
+
+  "substitution.set": "Set {set}",
+  "substitution.count": "Remplacements : {used}",
+  "substitution.countLimited": "Remplacements : {used} / {limit}",
+  "substitution.newSet": "Nouveau set",
+  "substitution.playerOut": "Joueur qui quitte le terrain",
+  "substitution.playerIn": "Joueur qui entre",
+  "substitution.submit": "Remplacer",
+  "substitution.logEntry": "{playerIn} pour {playerOut} (rotation {rotation})",
+
+  "playbook.label": "Cahier de jeu :",
+  "playbook.defaultName": "Cahier de jeu {number}",
+  "playbook.new": "Nouveau",
+  "playbook.nameLabel": "Nom du cahier de jeu",
+  "playbook.duplicate": "Dupliquer",
+  "playbook.delete": "Supprimer",
+  "playbook.deleteLastTitle": "Le seul cahier de jeu ne peut pas être supprimé",
+
+  "annotation.toolbarLabel": "Annotations du terrain",
+  "annotation.draw": "Dessiner :",
+  "annotation.ball": "Ballon",
+  "annotation.arrowPlayer": "Joueur de départ de la flèche",
+  "annotation.curved": "Courbe",
+  "annotation.arrow": "Flèche",
+  "annotation.calloutText": "Texte de la bulle",
+  "annotation.callout": "Bulle",
+  "annotation.zone": "Zone",
+  "annotation.clear": "Effacer",
+  "annotation.clearTitle":
+    "Double-cliquez sur une annotation du terrain pour ne supprimer qu'elle",
+
+  "sequence.label": "Action :",
+  "sequence.defaultName": "Action {number}",
+  "sequence.none": "Aucune",
+  "sequence.new": "Nouvelle",
+  "sequence.nameLabel": "Nom de la séquence",
+  "sequence.delete": "Supprimer",
+  "sequence.jumpTo": "Aller à {time}",
+  "sequence.keyframeLabel": "Libellé de l'image clé {keyframe}",
+  "sequence.keyframeDuration": "Durée de l'image clé {keyframe} (ms)",
+  "sequence.keyframeEarlier": "Avancer l'image clé {keyframe}",
+  "sequence.keyframeLater": "Reculer l'image clé {keyframe}",
+  "sequence.keyframeRemove": "Supprimer l'image clé {keyframe}",
+  "sequence.keyframe.serve": "service",
+  "sequence.keyframe.pass": "réception",
+  "sequence.keyframe.set": "passe",
+  "sequence.keyframe.attack": "attaque",
+  "sequence.keyframe.transition": "transition",
+  "sequence.addKeyframe": "Ajouter une image clé",
+  "sequence.addKeyframeTitle": "Capturer le terrain actuel comme image clé",
+  "sequence.addKeyframePreviewTitle":
+    "Quittez l'aperçu pour capturer le terrain",
+  "sequence.play": "Lire",
+  "sequence.stop": "Arrêter",
+  "sequence.time": "Temps de la séquence",
+  "sequence.exitPreview": "Quitter l'aperçu",
+
+  "config.title": "Configuration du terrain",
+  "config.description":
+    "Personnalisez l'apparence et le comportement du terrain de volley-ball",
+  "config.section.general": "Général",
+  "config.section.players": "Joueurs",
+  "config.section.appearance": "Apparence",
+  "config.section.controls": "Commandes",
+  "config.section.validation": "Validation",
+  "config.section.animation": "Animation",
+  "config.section.presets": "Préréglages",
+  "config.system.5-1": "Système 5-1",
+  "config.system.6-2": "Système 6-2",
+  "config.formation.rotational": "Rotation",
+  "config.formation.serveReceive": "Service et réception",
+  "config.formation.base": "Base d'attaque",
+  "config.general.initialSystem": "Système initial",
+  "config.general.initialRotation": "Rotation initiale",
+  "config.general.initialFormation": "Formation initiale",
+  "config.general.rotation": "Rotation {rotation}",
+  "config.players.system": "Système",
+  "config.players.colorScheme": "Jeu de couleurs",
+  "config.players.byRole": "Par rôle",
+  "config.players.byPosition": "Par position",
+  "config.players.name": "Nom",
+  "config.players.number": "Numéro",
+  "config.players.color": "Couleur",
+  "config.appearance.theme": "Thème",
+  "config.appearance.theme.auto": "Automatique",
+  "config.appearance.theme.light": "Clair",
+  "config.appearance.theme.dark": "Sombre",
+  "config.appearance.courtColor": "Couleur du terrain",
+  "config.appearance.playerSize": "Taille des joueurs",
+  "config.appearance.colorSchemes": "Jeux de couleurs",
+  "config.appearance.showPlayerNames": "Afficher le nom des joueurs",
+  "config.appearance.showPlayerNumbers": "Afficher le numéro des joueurs",
+  "config.appearance.showPositionLabels": "Afficher les libellés de position",
+  "config.appearance.showCourtGrid": "Afficher la grille du terrain",
+  "config.controls.position": "Position des commandes",
+  "config.controls.position.top": "En haut",
+  "config.controls.position.bottom": "En bas",
+  "config.controls.position.left": "À gauche",
+  "config.controls.position.right": "À droite",
+  "config.controls.position.overlay": "Superposées",
+  "config.controls.style": "Style des commandes",
+  "config.controls.style.minimal": "Minimal",
+  "config.controls.style.compact": "Compact",
+  "config.controls.style.expanded": "Étendu",
+  "config.controls.showSystemSelector": "Sélecteur de système",
+  "config.controls.showRotationControls": "Commandes de rotation",
+  "config.controls.showFormationSelector": "Sélecteur de formation",
+  "config.controls.showResetButton": "Bouton de réinitialisation",
+  "config.controls.showShareButton": "Bouton de partage",
+  "config.controls.showExportButton": "Bouton d'exportation",
+  "config.controls.showAnimateButton": "Bouton d'animation",
+  "config.controls.showSequenceEditor": "Éditeur de séquences",
+  "config.controls.showAnnotationTools": "Outils d'annotation",
+  "config.controls.showFullCourtControls": "Commandes du terrain complet",
+  "config.controls.showSubstitutionManager": "Gestion des remplacements",
+  "config.controls.showMatchControls": "Commandes de match",
+  "config.controls.showPlaybookSwitcher": "Sélecteur de cahier de jeu",
+  "config.controls.showHistoryPanel": "Panneau d'historique",
+  "config.validation.realTime": "Validation en temps réel",
+  "config.validation.showConstraintBoundaries":
+    "Afficher les limites de contrainte",
+  "config.validation.positionSnapping": "Magnétisme des positions",
+  "config.validation.showViolationDetails": "Afficher le détail des fautes",
+  "config.validation.educationalMessages": "Messages pédagogiques",
+  "config.validation.strictMode": "Mode strict",
+  "config.validation.ruleSet": "Règlement",
+  "config.validation.ruleSet.default": "Par défaut",
+  "config.validation.snapTolerance": "Tolérance du magnétisme",
+  "config.animation.enable": "Activer les animations",
+  "config.animation.drag": "Animations de glissement",
+  "config.animation.formationTransitions": "Transitions de formation",
+  "config.animation.rotationAnimations": "Animations de rotation",
+  "config.animation.bounceOnViolation": "Rebond en cas de faute",
+  "config.animation.highlightOnHover": "Surbrillance au survol",
+  "config.animation.duration": "Durée de l'animation",
+  "config.animation.staggerDelay": "Décalage entre joueurs",
+  "config.presets.description":
+    "Appliquez des configurations prédéfinies pour les usages courants",
+  "config.presets.apply": "Appliquer",
+  "config.preset.minimal": "Interface épurée et simple à intégrer",
+  "config.preset.educational": "Validation complète et fonctions pédagogiques",
+  "config.preset.presentation":
+    "Optimisé pour l'entraînement et les présentations",
+  "config.preset.highContrast":
+    "Couleurs à fort contraste pour l'accessibilité",
+  "config.preset.performance":
+    "Optimisé pour les performances sur grands écrans",
+  "config.preset.tournament":
+    "Prêt pour la compétition avec validation stricte",
+  "config.preset.training": "Environnement d'entraînement complet",
+  "config.preset.mobile": "Optimisé pour les appareils mobiles",
+  "config.preset.print": "Style adapté à l'impression et à l'exportation",
+  "config.preset.custom": "Préréglage de configuration personnalisé",
+};
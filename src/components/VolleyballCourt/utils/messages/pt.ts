@@ -0,0 +1,352 @@
+/**
+ * Portuguese messages for the court and its controls
+ */
+
+import type { CourtMessageKey } from "./en";
+
+export const PT_COURT_MESSAGES: Record<CourtMessageKey, string> = {
+  "common.readOnly": "Desativado no modo somente leitura",
+  "common.waitForAnimation": "Aguarde o fim da animação",
+
+  "rotation.previous": "Rodízio anterior",
+  "rotation.previousTitle": "Rodízio anterior",
+  "rotation.next": "Próximo rodízio",
+  "rotation.nextTitle": "Próximo rodízio",
+  "rotation.indicators": "Rodízios:",
+  "rotation.indicatorTitle": "Rodízio {rotation}",
+  "rotation.indicatorTitleCustom":
+    "Rodízio {rotation} (posições personalizadas)",
+  "rotation.liberoSwap":
+    "O líbero {libero} substitui {player} na posição {slot}",
+
+  "formation.selectLabel": "Mostrar formação:",
+  "formation.selectTitle": "Escolher o tipo de formação",
+  "formation.option.rotational": "Posição de rodízio",
+  "formation.option.serveReceive": "Saque/Recepção",
+  "formation.option.base": "Base (Ataque)",
+  "formation.customLegend": "(● indica posições personalizadas)",
+  "formation.applyTemplate": "Aplicar modelo…",
+  "formation.templateTitle":
+    "Posicionar os jogadores com um modelo de formação",
+  "formation.saveTemplate": "Salvar como modelo",
+  "formation.name.rotational": "de rodízio",
+  "formation.name.serveReceive": "de recepção",
+  "formation.name.base": "base",
+  "system.selectTitle": "Escolher o sistema de jogo",
+
+  "animation.label": "Animar Recepção→Base",
+  "animation.running": "Animando...",
+  "animation.runningTitle": "Animação em andamento",
+  "animation.title": "Reproduzir a sequência animada",
+
+  "selection.hint":
+    "Use Shift+clique nos jogadores ou arraste uma caixa ao redor deles para movê-los juntos",
+  "selection.count": "{count} selecionados",
+  "selection.alignRow": "Alinhar na linha",
+  "selection.distribute": "Distribuir na largura",
+  "selection.clear": "Limpar seleção",
+
+  "playerMenu.label": "Ações para {player}",
+  "playerMenu.reset": "Voltar à posição padrão",
+  "playerMenu.lock": "Bloquear",
+  "playerMenu.unlock": "Desbloquear",
+  "playerMenu.swap": "Trocar com…",
+  "playerMenu.server": "Marcar como sacador",
+  "playerMenu.edit": "Editar nome, número e cor…",
+  "playerMenu.copy": "Copiar esta posição para todos os rodízios",
+  "playerMenu.copied": "Copiado para outros {count} rodízios",
+  "playerMenu.copiedSkipped":
+    "Copiado para {count} rodízios; {rotations} ignorados, onde violaria as regras",
+  "playerMenu.name": "Nome",
+  "playerMenu.number": "Número",
+  "playerMenu.color": "Cor",
+  "playerMenu.cancel": "Cancelar",
+  "playerMenu.save": "Salvar",
+
+  "validation.fix": "Corrigir",
+  "validation.fixTitle":
+    "Mover os jogadores para a formação legal mais próxima",
+  "validation.fixed": "Jogadores movidos para a formação legal mais próxima.",
+  "validation.undoFix": "Desfazer",
+  "validation.outOfBounds": "{player} está fora da quadra",
+  "validation.playerCollision": "{player} e {other} estão um em cima do outro",
+  "validation.backRowSetterAtNet":
+    "{player} é um levantador de fundo na rede; após a troca não pode bloquear nem atacar acima da rede",
+
+  "court.label": "Quadra de vôlei",
+  "court.describe": "Descrever a quadra",
+  "court.summary":
+    "Sistema {system}, rodízio {rotation}, formação {formation}.",
+  "court.player": "Zona {slot}, {position}: {player}, {location}.",
+  "court.playerServing":
+    "Zona {slot}, {position}: {player}, no saque, {location}.",
+  "court.location": "a {x} m da linha lateral esquerda e a {y} m da rede",
+  "announce.rotation": "Rodízio {rotation}",
+  "announce.formation": "Formação {formation}",
+  "announce.cantMove": "{player} não pode se mover nessa direção",
+  "announce.groupMoved": "{count} jogadores selecionados movidos",
+  "announce.playerMoved": "{player}: {location}",
+
+  "reset.label": "Redefinir",
+  "reset.buttonTitle": "Opções de redefinir e desfazer/refazer",
+  "reset.optionsHeading": "Opções de redefinição",
+  "reset.noActions": "Nenhuma ação disponível",
+  "reset.shortcutsHint": "Use os atalhos de teclado para acesso rápido",
+  "reset.cancel": "Cancelar",
+  "reset.confirm": "Confirmar",
+  "reset.noChanges": "Nenhuma alteração para redefinir",
+  "reset.failed": "Falha ao redefinir",
+  "reset.restoredOne": "{count} posição restaurada.",
+  "reset.restoredMany": "{count} posições restauradas.",
+  "reset.currentRotation": "Redefinir a rotação atual",
+  "reset.currentRotationDescription": "Redefinir apenas a rotação {rotation}",
+  "reset.rotationUnchanged": "A rotação {rotation} já usa as posições padrão.",
+  "reset.rotationDone": "Rotação redefinida",
+  "reset.rotationSuccess":
+    "A rotação {rotation} foi redefinida para as posições padrão.",
+  "reset.rotationFailed":
+    "Não foi possível redefinir a rotação. Tente novamente.",
+  "reset.allRotations": "Redefinir todas as rotações",
+  "reset.allRotationsDescription": "Redefinir as 6 rotações de {formation}",
+  "reset.allRotationsUnchanged":
+    "Todas as rotações já usam as posições padrão.",
+  "reset.allRotationsConfirm":
+    "As 6 rotações da formação {formation} voltarão às posições padrão. Esta ação não pode ser desfeita automaticamente.",
+  "reset.allRotationsDone": "Rotações redefinidas",
+  "reset.allRotationsSuccess":
+    "Todas as rotações da formação {formation} foram redefinidas para as posições padrão.",
+  "reset.allRotationsFailed":
+    "Não foi possível redefinir as rotações. Tente novamente.",
+  "reset.formation": "Redefinir a formação",
+  "reset.formationDescription": "Redefinir toda a formação {formation}",
+  "reset.formationUnchanged":
+    "A formação {formation} já usa as posições padrão.",
+  "reset.formationConfirm":
+    "Todas as posições da formação {formation} voltarão aos valores padrão em todas as rotações.",
+  "reset.formationDone": "Formação redefinida",
+  "reset.formationSuccess":
+    "A formação {formation} foi redefinida para as posições padrão.",
+  "reset.formationFailed":
+    "Não foi possível redefinir a formação. Tente novamente.",
+  "reset.system": "Redefinir todo o sistema",
+  "reset.systemDescription":
+    "Redefinir todas as personalizações do sistema {system}",
+  "reset.systemUnchanged": "O sistema {system} já usa as posições padrão.",
+  "reset.systemConfirm":
+    "TODAS as personalizações do sistema {system} serão redefinidas em todas as formações e rotações. Esta é uma ação destrutiva que não pode ser desfeita automaticamente.",
+  "reset.systemDone": "Sistema redefinido",
+  "reset.systemSuccess":
+    "Todo o sistema {system} foi redefinido para as posições padrão.",
+  "reset.systemFailed":
+    "Não foi possível redefinir o sistema. Tente novamente.",
+  "reset.undo": "Desfazer a última ação",
+  "reset.undoDescription": "Desfazer a redefinição mais recente",
+  "reset.undoUnavailable": "Não é possível desfazer",
+  "reset.undoNothing": "Nenhuma ação para desfazer.",
+  "reset.undoDone": "Ação desfeita",
+  "reset.undoSuccess": "A última ação foi desfeita.",
+  "reset.undoFailed": "Falha ao desfazer",
+  "reset.undoFailedMessage": "Não foi possível desfazer a última ação.",
+  "reset.undoError": "Erro ao desfazer",
+  "reset.undoErrorMessage": "Ocorreu um erro ao desfazer a ação.",
+  "reset.redo": "Refazer a última ação",
+  "reset.redoDescription": "Refazer a última operação desfeita",
+  "reset.redoUnavailable": "Não é possível refazer",
+  "reset.redoNothing": "Nenhuma ação para refazer.",
+  "reset.redoDone": "Ação refeita",
+  "reset.redoSuccess": "A última ação foi refeita.",
+  "reset.redoFailed": "Falha ao refazer",
+  "reset.redoFailedMessage": "Não foi possível refazer a última ação.",
+  "reset.redoError": "Erro ao refazer",
+  "reset.redoErrorMessage": "Ocorreu um erro ao refazer a ação.",
+
+  "history.title": "Histórico",
+  "history.undo": "Desfazer",
+  "history.redo": "Refazer",
+  "history.empty":
+    "Nenhuma alteração ainda. Movimentos, redefinições e mudanças de formação ou de sistema aparecem aqui.",
+  "history.start": "Início",
+  "history.abandonedTitle": "Em um ramo abandonado; voltar aqui o restaura",
+
+  "share.label": "Compartilhar",
+  "share.title": "Compartilhar a configuração atual",
+  "share.sharing": "Compartilhando...",
+  "share.sharingTitle": "Gerando a URL de compartilhamento...",
+  "share.copied": "Copiada!",
+  "share.copiedTitle": "URL copiada para a área de transferência!",
+  "export.label": "Exportar",
+  "export.title": "Exportar a quadra",
+  "export.exporting": "Exportando...",
+  "export.exportingTitle": "Exportando...",
+  "export.format.png": "Imagem PNG",
+  "export.format.svg": "Imagem SVG",
+  "export.format.pdf": "PDF (todas as rotações)",
+  "export.format.json": "Dados JSON",
+  "export.format.csv": "Dados CSV",
+
+  "team.home": "Nós",
+  "team.opponent": "Adversário",
+  "fullCourt.toggle": "Quadra inteira",
+  "fullCourt.servingTeam": "Equipe no saque",
+  "fullCourt.serving": "Saque:",
+  "fullCourt.opponentRotation": "Rotação do adversário:",
+  "fullCourt.previousOpponentRotation": "Rotação anterior do adversário",
+  "fullCourt.nextOpponentRotation": "Próxima rotação do adversário",
+  "fullCourt.resetOpponents": "Redefinir adversários",
+  "match.mode": "Modo partida",
+  "match.servingLabel": "no saque",
+  "match.servingTitle": "No saque",
+  "match.pointTo": "Ponto para {team}",
+  "match.resetScore": "Zerar placar",
+  "match.exportLog": "Exportar registro de ralis",
+  "match.sideOut": "virada de saque",
+
+  "substitution.set": "Set {set}",
+  "substitution.count": "Substituições: {used}",
+  "substitution.countLimited": "Substituições: {used} / {limit}",
+  "substitution.newSet": "Novo set",
+  "substitution.playerOut": "Jogador que sai da quadra",
+  "substitution.playerIn": "Jogador que entra",
+  "substitution.submit": "Substituir",
+  "substitution.logEntry":
+    "{playerIn} no lugar de {playerOut} (rotação {rotation})",
+
+  "playbook.label": "Caderno de jogadas:",
+  "playbook.defaultName": "Caderno de jogadas {number}",
+  "playbook.new": "Novo",
+  "playbook.nameLabel": "Nome do caderno de jogadas",
+  "playbook.duplicate": "Duplicar",
+  "playbook.delete": "Excluir",
+  "playbook.deleteLastTitle":
+    "O único caderno de jogadas não pode ser excluído",
+
+  "annotation.toolbarLabel": "Anotações da quadra",
+  "annotation.draw": "Desenhar:",
+  "annotation.ball": "Bola",
+  "annotation.arrowPlayer": "Jogador de início da seta",
+  "annotation.curved": "Curva",
+  "annotation.arrow": "Seta",
+  "annotation.calloutText": "Texto do balão",
+  "annotation.callout": "Balão",
+  "annotation.zone": "Zona",
+  "annotation.clear": "Limpar",
+  "annotation.clearTitle":
+    "Clique duas vezes em uma anotação na quadra para remover só ela",
+
+  "sequence.label": "Jogada:",
+  "sequence.defaultName": "Jogada {number}",
+  "sequence.none": "Nenhuma",
+  "sequence.new": "Nova",
+  "sequence.nameLabel": "Nome da sequência",
+  "sequence.delete": "Excluir",
+  "sequence.jumpTo": "Ir para {time}",
+  "sequence.keyframeLabel": "Rótulo do quadro-chave {keyframe}",
+  "sequence.keyframeDuration": "Duração do quadro-chave {keyframe} (ms)",
+  "sequence.keyframeEarlier": "Mover o quadro-chave {keyframe} para antes",
+  "sequence.keyframeLater": "Mover o quadro-chave {keyframe} para depois",
+  "sequence.keyframeRemove": "Remover o quadro-chave {keyframe}",
+  "sequence.keyframe.serve": "saque",
+  "sequence.keyframe.pass": "recepção",
+  "sequence.keyframe.set": "levantamento",
+  "sequence.keyframe.attack": "ataque",
+  "sequence.keyframe.transition": "transição",
+  "sequence.addKeyframe": "Adicionar quadro-chave",
+  "sequence.addKeyframeTitle": "Capturar a quadra atual como quadro-chave",
+  "sequence.addKeyframePreviewTitle": "Saia da prévia para capturar a quadra",
+  "sequence.play": "Reproduzir",
+  "sequence.stop": "Parar",
+  "sequence.time": "Tempo da sequência",
+  "sequence.exitPreview": "Sair da prévia",
+
+  "config.title": "Configuração da quadra",
+  "config.description":
+    "Personalize a aparência e o comportamento da quadra de vôlei",
+  "config.section.general": "Geral",
+  "config.section.players": "Jogadores",
+  "config.section.appearance": "Aparência",
+  "config.section.controls": "Controles",
+  "config.section.validation": "Validação",
+  "config.section.animation": "Animação",
+  "config.section.presets": "Predefinições",
+  "config.system.5-1": "Sistema 5-1",
+  "config.system.6-2": "Sistema 6-2",
+  "config.formation.rotational": "Rodízio",
+  "config.formation.serveReceive": "Saque e recepção",
+  "config.formation.base": "Base de ataque",
+  "config.general.initialSystem": "Sistema inicial",
+  "config.general.initialRotation": "Rotação inicial",
+  "config.general.initialFormation": "Formação inicial",
+  "config.general.rotation": "Rotação {rotation}",
+  "config.players.system": "Sistema",
+  "config.players.colorScheme": "Esquema de cores",
+  "config.players.byRole": "Por função",
+  "config.players.byPosition": "Por posição",
+  "config.players.name": "Nome",
+  "config.players.number": "Número",
+  "config.players.color": "Cor",
+  "config.appearance.theme": "Tema",
+  "config.appearance.theme.auto": "Automático",
+  "config.appearance.theme.light": "Claro",
+  "config.appearance.theme.dark": "Escuro",
+  "config.appearance.courtColor": "Cor da quadra",
+  "config.appearance.playerSize": "Tamanho dos jogadores",
+  "config.appearance.colorSchemes": "Esquemas de cores",
+  "config.appearance.showPlayerNames": "Mostrar nomes dos jogadores",
+  "config.appearance.showPlayerNumbers": "Mostrar números dos jogadores",
+  "config.appearance.showPositionLabels": "Mostrar rótulos de posição",
+  "config.appearance.showCourtGrid": "Mostrar grade da quadra",
+  "config.controls.position": "Posição dos controles",
+  "config.controls.position.top": "Em cima",
+  "config.controls.position.bottom": "Embaixo",
+  "config.controls.position.left": "À esquerda",
+  "config.controls.position.right": "À direita",
+  "config.controls.position.overlay": "Sobrepostos",
+  "config.controls.style": "Estilo dos controles",
+  "config.controls.style.minimal": "Mínimo",
+  "config.controls.style.compact": "Compacto",
+  "config.controls.style.expanded": "Expandido",
+  "config.controls.showSystemSelector": "Seletor de sistema",
+  "config.controls.showRotationControls": "Controles de rotação",
+  "config.controls.showFormationSelector": "Seletor de formação",
+  "config.controls.showResetButton": "Botão de redefinir",
+  "config.controls.showShareButton": "Botão de compartilhar",
+  "config.controls.showExportButton": "Botão de exportar",
+  "config.controls.showAnimateButton": "Botão de animar",
+  "config.controls.showSequenceEditor": "Editor de sequências",
+  "config.controls.showAnnotationTools": "Ferramentas de anotação",
+  "config.controls.showFullCourtControls": "Controles da quadra inteira",
+  "config.controls.showSubstitutionManager": "Gerenciador de substituições",
+  "config.controls.showMatchControls": "Controles de partida",
+  "config.controls.showPlaybookSwitcher": "Seletor de caderno de jogadas",
+  "config.controls.showHistoryPanel": "Painel de histórico",
+  "config.validation.realTime": "Validação em tempo real",
+  "config.validation.showConstraintBoundaries": "Mostrar limites de restrição",
+  "config.validation.positionSnapping": "Encaixe de posição",
+  "config.validation.showViolationDetails": "Mostrar detalhes das infrações",
+  "config.validation.educationalMessages": "Mensagens educativas",
+  "config.validation.strictMode": "Modo estrito",
+  "config.validation.ruleSet": "Regulamento",
+  "config.validation.ruleSet.default": "Padrão",
+  "config.validation.snapTolerance": "Tolerância de encaixe",
+  "config.animation.enable": "Ativar animações",
+  "config.animation.drag": "Animações ao arrastar",
+  "config.animation.formationTransitions": "Transições de formação",
+  "config.animation.rotationAnimations": "Animações de rotação",
+  "config.animation.bounceOnViolation": "Quicar em infrações",
+  "config.animation.highlightOnHover": "Destacar ao passar o cursor",
+  "config.animation.duration": "Duração da animação",
+  "config.animation.staggerDelay": "Atraso escalonado",
+  "config.presets.description":
+    "Aplique configurações predefinidas para usos comuns",
+  "config.presets.apply": "Aplicar",
+  "config.preset.minimal": "Interface limpa e simples para incorporar",
+  "config.preset.educational": "Validação completa e recursos educativos",
+  "config.preset.presentation": "Otimizado para treinos e apresentações",
+  "config.preset.highContrast": "Cores de alto contraste para acessibilidade",
+  "config.preset.performance": "Otimizado para desempenho em telas grandes",
+  "config.preset.tournament": "Pronto para competição com validação estrita",
+  "config.preset.training": "Ambiente de treino completo",
+  "config.preset.mobile": "Otimizado para dispositivos móveis",
+  "config.preset.print": "Estilo adequado para impressão e exportação",
+  "config.preset.custom": "Predefinição de configuração personalizada",
+};
@@ -0,0 +1,177 @@
+/**
+ * Minimal PDF writer
+ *
+ * Builds a PDF document with one landscape page per entry, each holding a
+ * heading and a JPEG image scaled to fit. Only what court exports need is
+ * supported, which keeps the package free of a PDF dependency.
+ */
+
+export interface PDFImage {
+  data: Uint8Array; // JPEG bytes
+  width: number; // Pixel width of the JPEG
+  height: number; // Pixel height of the JPEG
+}
+
+export interface PDFPage {
+  title?: string;
+  image: PDFImage;
+}
+
+export interface PDFPageSize {
+  width: number; // Points (1/72 inch)
+  height: number;
+}
+
+// A4 landscape
+export const DEFAULT_PDF_PAGE_SIZE: PDFPageSize = { width: 842, height: 595 };
+
+const PAGE_MARGIN = 36;
+const TITLE_FONT_SIZE = 18;
+const TITLE_GAP = 12;
+
+/**
+ * Encodes text as single-byte (Latin-1) characters, replacing anything else
+ */
+function encodeText(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code <= 0xff ? code : 0x3f; // "?"
+  }
+  return bytes;
+}
+
+/**
+ * Escapes a string for use inside a PDF literal string
+ */
+function escapePDFString(text: string): string {
+  return text.replace(/[\\()]/g, (match) => `\\${match}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Creates a PDF document with one page per entry
+ */
+export function createPDFDocument(
+  pages: PDFPage[],
+  pageSize: PDFPageSize = DEFAULT_PDF_PAGE_SIZE
+): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error("A PDF document needs at least one page");
+  }
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (content: string | Uint8Array) => {
+    const bytes = typeof content === "string" ? encodeText(content) : content;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === "string") {
+      write(body);
+    } else {
+      body.forEach(write);
+    }
+    write("\nendobj\n");
+  };
+
+  // Object layout: catalog, page tree, font, then page/content/image per page
+  const pageObjectId = (index: number) => 4 + index * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${pageObjectId(index)} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`
+  );
+  writeObject(
+    3,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectId(index);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    // Scale the image to fit below the title while keeping its aspect ratio
+    const titleHeight = page.title ? TITLE_FONT_SIZE + TITLE_GAP : 0;
+    const availableWidth = pageSize.width - PAGE_MARGIN * 2;
+    const availableHeight = pageSize.height - PAGE_MARGIN * 2 - titleHeight;
+    const scale = Math.min(
+      availableWidth / page.image.width,
+      availableHeight / page.image.height
+    );
+    const drawWidth = page.image.width * scale;
+    const drawHeight = page.image.height * scale;
+    const drawX = (pageSize.width - drawWidth) / 2;
+    const drawY = PAGE_MARGIN + (availableHeight - drawHeight) / 2;
+
+    const operations = [
+      "q",
+      `${formatNumber(drawWidth)} 0 0 ${formatNumber(
+        drawHeight
+      )} ${formatNumber(drawX)} ${formatNumber(drawY)} cm`,
+      "/Im0 Do",
+      "Q",
+    ];
+    if (page.title) {
+      operations.push(
+        "BT",
+        `/F1 ${TITLE_FONT_SIZE} Tf`,
+        `${PAGE_MARGIN} ${formatNumber(
+          pageSize.height - PAGE_MARGIN - TITLE_FONT_SIZE
+        )} Td`,
+        `(${escapePDFString(page.title)}) Tj`,
+        "ET"
+      );
+    }
+    const content = operations.join("\n");
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.width} ${pageSize.height}] /Resources << /Font << /F1 3 0 R >> /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    writeObject(
+      contentId,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+    writeObject(imageId, [
+      encodeText(
+        `<< /Type /XObject /Subtype /Image /Width ${page.image.width} /Height ${page.image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.image.data.length} >>\nstream\n`
+      ),
+      page.image.data,
+      encodeText("\nendstream"),
+    ]);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const document = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    document.set(chunk, position);
+    position += chunk.length;
+  });
+  return document;
+}
@@ -0,0 +1,331 @@
+/**
+ * Play sequence utilities
+ *
+ * A play sequence is an ordered list of keyframes, each a full formation
+ * with a duration and a label. These helpers create and edit sequences
+ * immutably and interpolate player positions at any point in time so a
+ * sequence can be played back or scrubbed.
+ */
+
+import { easeIn, easeOut, easeInOut, cubicBezier } from "framer-motion";
+import {
+  AnimationConfig,
+  PlaySequence,
+  PlayerPosition,
+  SequenceKeyframe,
+  SystemType,
+} from "../types";
+
+export const SEQUENCE_KEYFRAME_LABELS = [
+  "serve",
+  "pass",
+  "set",
+  "attack",
+  "transition",
+] as const;
+
+export const DEFAULT_KEYFRAME_DURATION = 800;
+
+export type EasingFunction = (progress: number) => number;
+
+let idCounter = 0;
+
+function createId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}_${Date.now()}_${idCounter}`;
+}
+
+/**
+ * Copies positions so keyframes never share objects with live state
+ */
+function clonePositions(
+  positions: Record<string, PlayerPosition>
+): Record<string, PlayerPosition> {
+  return Object.fromEntries(
+    Object.entries(positions).map(([playerId, position]) => [
+      playerId,
+      { ...position },
+    ])
+  );
+}
+
+/**
+ * Creates an empty play sequence
+ */
+export function createPlaySequence(
+  name: string,
+  system: SystemType,
+  rotation: number
+): PlaySequence {
+  const now = Date.now();
+  return {
+    id: createId("sequence"),
+    name,
+    system,
+    rotation,
+    keyframes: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Creates a keyframe from a snapshot of player positions
+ */
+export function createKeyframe(
+  positions: Record<string, PlayerPosition>,
+  label: string = "transition",
+  duration: number = DEFAULT_KEYFRAME_DURATION
+): SequenceKeyframe {
+  return {
+    id: createId("keyframe"),
+    label,
+    positions: clonePositions(positions),
+    duration: Math.max(0, duration),
+  };
+}
+
+function withKeyframes(
+  sequence: PlaySequence,
+  keyframes: SequenceKeyframe[]
+): PlaySequence {
+  return { ...sequence, keyframes, updatedAt: Date.now() };
+}
+
+/**
+ * Inserts a keyframe (appends when no index is given)
+ */
+export function addKeyframe(
+  sequence: PlaySequence,
+  keyframe: SequenceKeyframe,
+  index: number = sequence.keyframes.length
+): PlaySequence {
+  const keyframes = [...sequence.keyframes];
+  keyframes.splice(Math.max(0, Math.min(index, keyframes.length)), 0, keyframe);
+  return withKeyframes(sequence, keyframes);
+}
+
+/**
+ * Updates a keyframe's label, duration or positions
+ */
+export function updateKeyframe(
+  sequence: PlaySequence,
+  keyframeId: string,
+  changes: Partial<Omit<SequenceKeyframe, "id">>
+): PlaySequence {
+  return withKeyframes(
+    sequence,
+    sequence.keyframes.map((keyframe) =>
+      keyframe.id === keyframeId
+        ? {
+            ...keyframe,
+            ...changes,
+            positions: changes.positions
+              ? clonePositions(changes.positions)
+              : keyframe.positions,
+            duration: Math.max(0, changes.duration ?? keyframe.duration),
+          }
+        : keyframe
+    )
+  );
+}
+
+/**
+ * Removes a keyframe
+ */
+export function removeKeyframe(
+  sequence: PlaySequence,
+  keyframeId: string
+): PlaySequence {
+  return withKeyframes(
+    sequence,
+    sequence.keyframes.filter((keyframe) => keyframe.id !== keyframeId)
+  );
+}
+
+/**
+ * Moves a keyframe to a new index
+ */
+export function moveKeyframe(
+  sequence: PlaySequence,
+  fromIndex: number,
+  toIndex: number
+): PlaySequence {
+  const count = sequence.keyframes.length;
+  if (
+    fromIndex < 0 ||
+    fromIndex >= count ||
+    toIndex < 0 ||
+    toIndex >= count ||
+    fromIndex === toIndex
+  ) {
+    return sequence;
+  }
+
+  const keyframes = [...sequence.keyframes];
+  const [keyframe] = keyframes.splice(fromIndex, 1);
+  keyframes.splice(toIndex, 0, keyframe);
+  return withKeyframes(sequence, keyframes);
+}
+
+/**
+ * Time at which each keyframe is reached. The first keyframe is the
+ * starting formation, so its duration is not played.
+ */
+export function getKeyframeTimes(sequence: PlaySequence): number[] {
+  const times: number[] = [];
+  let elapsed = 0;
+  sequence.keyframes.forEach((keyframe, index) => {
+    if (index > 0) {
+      elapsed += keyframe.duration;
+    }
+    times.push(elapsed);
+  });
+  return times;
+}
+
+/**
+ * Total playback time of a sequence in milliseconds
+ */
+export function getSequenceDuration(sequence: PlaySequence): number {
+  const times = getKeyframeTimes(sequence);
+  return times.length > 0 ? times[times.length - 1] : 0;
+}
+
+/**
+ * Resolves an easing name from AnimationConfig to an easing function
+ */
+export function resolveEasing(easing: string = "ease-out"): EasingFunction {
+  const bezier = easing.match(
+    /^cubic-bezier\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)$/
+  );
+  if (bezier) {
+    const [x1, y1, x2, y2] = bezier.slice(1).map(Number);
+    return cubicBezier(x1, y1, x2, y2);
+  }
+
+  switch (easing) {
+    case "linear":
+      return (progress) => progress;
+    case "ease-in":
+    case "easeIn":
+      return easeIn;
+    case "ease-in-out":
+    case "easeInOut":
+    case "ease":
+      return easeInOut;
+    default:
+      return easeOut;
+  }
+}
+
+/**
+ * Timing for the segment ending at a keyframe. A custom transition named
+ * after the keyframe label overrides the configured easing.
+ */
+function getSegmentEasing(
+  keyframe: SequenceKeyframe,
+  animation: AnimationConfig
+): EasingFunction {
+  if (animation.enableAnimations === false) {
+    // Jump straight to the keyframe at the end of the segment
+    return (progress) => (progress < 1 ? 0 : 1);
+  }
+
+  const custom = animation.customTransitions?.[keyframe.label];
+  return resolveEasing(custom?.easing ?? animation.easing);
+}
+
+/**
+ * Interpolates between two formations. Players missing from either side
+ * hold the position they have.
+ */
+export function interpolatePositions(
+  from: Record<string, PlayerPosition>,
+  to: Record<string, PlayerPosition>,
+  progress: number
+): Record<string, PlayerPosition> {
+  const t = Math.max(0, Math.min(1, progress));
+  const result: Record<string, PlayerPosition> = {};
+
+  new Set([...Object.keys(from), ...Object.keys(to)]).forEach((playerId) => {
+    const start = from[playerId] ?? to[playerId];
+    const end = to[playerId] ?? from[playerId];
+
+    result[playerId] = {
+      ...(t < 1 ? start : end),
+      x: start.x + (end.x - start.x) * t,
+      y: start.y + (end.y - start.y) * t,
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Player positions at a point in time of the sequence
+ */
+export function getPositionsAtTime(
+  sequence: PlaySequence,
+  time: number,
+  animation: AnimationConfig = {}
+): Record<string, PlayerPosition> {
+  const { keyframes } = sequence;
+  if (keyframes.length === 0) {
+    return {};
+  }
+
+  const times = getKeyframeTimes(sequence);
+  if (time <= 0 || keyframes.length === 1) {
+    return keyframes[0].positions;
+  }
+
+  const index = times.findIndex((keyframeTime) => keyframeTime >= time);
+  if (index === -1) {
+    return keyframes[keyframes.length - 1].positions;
+  }
+  if (index === 0) {
+    return keyframes[0].positions;
+  }
+
+  const keyframe = keyframes[index];
+  const progress =
+    keyframe.duration > 0
+      ? (time - times[index - 1]) / keyframe.duration
+      : 1;
+  const easing = getSegmentEasing(keyframe, animation);
+
+  return interpolatePositions(
+    keyframes[index - 1].positions,
+    keyframe.positions,
+    easing(Math.max(0, Math.min(1, progress)))
+  );
+}
+
+/**
+ * Type guard for sequences loaded from storage
+ */
+export function isValidPlaySequence(value: unknown): value is PlaySequence {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.id === "string" &&
+    typeof obj.name === "string" &&
+    typeof obj.system === "string" && // Custom system IDs are allowed
+    obj.system !== "" &&
+    typeof obj.rotation === "number" &&
+    Array.isArray(obj.keyframes) &&
+    obj.keyframes.every(
+      (keyframe: unknown) =>
+        typeof keyframe === "object" &&
+        keyframe !== null &&
+        typeof (keyframe as SequenceKeyframe).id === "string" &&
+        typeof (keyframe as SequenceKeyframe).label === "string" &&
+        typeof (keyframe as SequenceKeyframe).duration === "number" &&
+        typeof (keyframe as SequenceKeyframe).positions === "object"
+    )
+  );
+}
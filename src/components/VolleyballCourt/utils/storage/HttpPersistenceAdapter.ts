@@ -0,0 +1,124 @@
+import type { PersistenceState } from "../../PersistenceManager";
+import {
+  PersistenceAdapter,
+  PersistenceRecord,
+  PersistenceRecordSummary,
+  PersistenceWriteResult,
+  deserializeRecordDates,
+} from "./PersistenceAdapter";
+
+export interface HttpPersistenceAdapterOptions {
+  baseUrl: string; // e.g. "https://club.example.com/api/formations"
+  headers?: Record<string, string> | (() => Record<string, string>); // e.g. auth
+  fetch?: typeof fetch;
+}
+
+/**
+ * PersistenceAdapter for a REST backend:
+ *
+ * - `GET    {baseUrl}`      lists record summaries
+ * - `GET    {baseUrl}/{id}` returns a record, 404 when missing
+ * - `PUT    {baseUrl}/{id}` with `{ state, expectedRevision }` returns the
+ *   saved record, or 409 with the current record as `{ remote }`
+ * - `DELETE {baseUrl}/{id}?expectedRevision=N` returns 204, or 409 with
+ *   `{ remote }`
+ */
+export class HttpPersistenceAdapter implements PersistenceAdapter {
+  constructor(private readonly options: HttpPersistenceAdapterOptions) {}
+
+  public async load(id: string): Promise<PersistenceRecord | null> {
+    const response = await this.request(this.getRecordUrl(id));
+    if (response.status === 404) {
+      return null;
+    }
+
+    await this.assertOk(response);
+    return deserializeRecordDates((await response.json()) as PersistenceRecord);
+  }
+
+  public async save(
+    id: string,
+    state: PersistenceState,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult> {
+    const response = await this.request(this.getRecordUrl(id), {
+      method: "PUT",
+      body: JSON.stringify({ state, expectedRevision }),
+    });
+    if (response.status === 409) {
+      return this.toConflict(response);
+    }
+
+    await this.assertOk(response);
+    return {
+      status: "ok",
+      record: deserializeRecordDates(
+        (await response.json()) as PersistenceRecord
+      ),
+    };
+  }
+
+  public async list(): Promise<PersistenceRecordSummary[]> {
+    const response = await this.request(this.options.baseUrl);
+    await this.assertOk(response);
+    return (await response.json()) as PersistenceRecordSummary[];
+  }
+
+  public async delete(
+    id: string,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult> {
+    const query =
+      expectedRevision === null ? "" : `?expectedRevision=${expectedRevision}`;
+    const response = await this.request(`${this.getRecordUrl(id)}${query}`, {
+      method: "DELETE",
+    });
+    if (response.status === 409) {
+      return this.toConflict(response);
+    }
+
+    await this.assertOk(response);
+    return { status: "ok", record: null };
+  }
+
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const headers =
+      typeof this.options.headers === "function"
+        ? this.options.headers()
+        : this.options.headers;
+
+    return fetchImpl(url, {
+      ...init,
+      headers: {
+        Accept: "application/json",
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+        ...headers,
+      },
+    });
+  }
+
+  private async toConflict(
+    response: Response
+  ): Promise<PersistenceWriteResult> {
+    const body = (await response.json()) as {
+      remote: PersistenceRecord | null;
+    };
+    return {
+      status: "conflict",
+      remote: body.remote && deserializeRecordDates(body.remote),
+    };
+  }
+
+  private async assertOk(response: Response): Promise<void> {
+    if (!response.ok) {
+      throw new Error(
+        `Request failed: ${response.status} ${response.statusText}`.trim()
+      );
+    }
+  }
+
+  private getRecordUrl(id: string): string {
+    return `${this.options.baseUrl.replace(/\/$/, "")}/${encodeURIComponent(id)}`;
+  }
+}
@@ -0,0 +1,109 @@
+import type { PersistenceState } from "../../PersistenceManager";
+import type {
+  PersistenceAdapter,
+  PersistenceRecord,
+  PersistenceRecordSummary,
+  PersistenceWriteResult,
+} from "./PersistenceAdapter";
+
+/**
+ * PersistenceAdapter that keeps records in memory. It is the reference for
+ * the revision rules a backend should follow, and doubles as a test double:
+ * failNextRequests makes requests reject as if the network were down.
+ */
+export class InMemoryPersistenceAdapter implements PersistenceAdapter {
+  private records = new Map<string, PersistenceRecord>();
+  private failuresLeft = 0;
+
+  // Every request, in order, for assertions in tests
+  public readonly requests: {
+    method: "load" | "save" | "list" | "delete";
+    id?: string;
+    expectedRevision?: number | null;
+  }[] = [];
+
+  constructor(records: PersistenceRecord[] = []) {
+    records.forEach((record) => this.records.set(record.id, this.copy(record)));
+  }
+
+  /**
+   * Makes the next `count` requests reject
+   */
+  public failNextRequests(count: number = 1): void {
+    this.failuresLeft = count;
+  }
+
+  /**
+   * Writes a record directly, as another client would
+   */
+  public putRecord(id: string, state: PersistenceState): PersistenceRecord {
+    const record: PersistenceRecord = {
+      id,
+      state: this.copy(state),
+      revision: (this.records.get(id)?.revision ?? 0) + 1,
+      updatedAt: Date.now(),
+    };
+    this.records.set(id, record);
+    return this.copy(record);
+  }
+
+  public async load(id: string): Promise<PersistenceRecord | null> {
+    this.request({ method: "load", id });
+    const record = this.records.get(id);
+    return record ? this.copy(record) : null;
+  }
+
+  public async save(
+    id: string,
+    state: PersistenceState,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult> {
+    this.request({ method: "save", id, expectedRevision });
+
+    const current = this.records.get(id) ?? null;
+    if ((current?.revision ?? null) !== expectedRevision) {
+      return { status: "conflict", remote: current && this.copy(current) };
+    }
+
+    return { status: "ok", record: this.putRecord(id, state) };
+  }
+
+  public async list(): Promise<PersistenceRecordSummary[]> {
+    this.request({ method: "list" });
+    return Array.from(this.records.values(), ({ id, revision, updatedAt }) => ({
+      id,
+      revision,
+      updatedAt,
+    }));
+  }
+
+  public async delete(
+    id: string,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult> {
+    this.request({ method: "delete", id, expectedRevision });
+
+    const current = this.records.get(id) ?? null;
+    if (current && current.revision !== expectedRevision) {
+      return { status: "conflict", remote: this.copy(current) };
+    }
+
+    this.records.delete(id);
+    return { status: "ok", record: null };
+  }
+
+  private request(request: InMemoryPersistenceAdapter["requests"][number]) {
+    this.requests.push(request);
+    if (this.failuresLeft > 0) {
+      this.failuresLeft -= 1;
+      throw new Error("Network request failed");
+    }
+  }
+
+  // Records are copied in and out so callers can't change stored data
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value), (key, item) =>
+      key === "lastModified" && typeof item === "string" ? new Date(item) : item
+    );
+  }
+}
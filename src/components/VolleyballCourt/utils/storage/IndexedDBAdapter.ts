@@ -0,0 +1,88 @@
+import type { StorageAdapter } from "./StorageAdapter";
+
+const DATABASE_VERSION = 1;
+const STORE_NAME = "entries";
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * StorageAdapter backed by IndexedDB, for playbooks too large for
+ * localStorage. Entries live in a single object store keyed by string.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  public readonly backend = "indexedDB" as const;
+
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName: string = "volleyball-position-manager"
+  ) {}
+
+  public isAvailable(): boolean {
+    try {
+      return typeof indexedDB !== "undefined" && indexedDB !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const store = await this.getStore("readonly");
+    const value = await requestToPromise(store.get(key));
+    return value === undefined ? null : (value as T);
+  }
+
+  public async set<T>(key: string, value: T): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await requestToPromise(store.put(value, key));
+  }
+
+  public async remove(key: string): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await requestToPromise(store.delete(key));
+  }
+
+  /**
+   * Opens the database once and creates the object store on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () =>
+          reject(new Error("IndexedDB upgrade is blocked by another tab"));
+      });
+
+      // Let a later call retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.openDatabase();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
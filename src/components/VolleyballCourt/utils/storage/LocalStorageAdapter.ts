@@ -0,0 +1,52 @@
+import type { StorageAdapter } from "./StorageAdapter";
+
+/**
+ * StorageAdapter backed by localStorage. Values are stored as JSON under
+ * prefixed keys so they don't collide with other data on the page.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  public readonly backend = "localStorage" as const;
+
+  constructor(private readonly prefix: string = "volleyball-") {}
+
+  public isAvailable(): boolean {
+    try {
+      const test = "__storage_test__";
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    if (!this.isAvailable()) {
+      throw new Error("LocalStorage is not available");
+    }
+
+    const stored = localStorage.getItem(this.prefix + key);
+    return stored === null ? null : (JSON.parse(stored) as T);
+  }
+
+  public async set<T>(key: string, value: T): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error("LocalStorage is not available");
+    }
+
+    try {
+      localStorage.setItem(this.prefix + key, JSON.stringify(value));
+    } catch (error) {
+      if (error instanceof Error && error.name === "QuotaExceededError") {
+        throw new Error("Storage quota exceeded");
+      }
+      throw error;
+    }
+  }
+
+  public async remove(key: string): Promise<void> {
+    if (this.isAvailable()) {
+      localStorage.removeItem(this.prefix + key);
+    }
+  }
+}
@@ -1,4 +1,8 @@
-import type { StoredPositions, CustomPositionsState } from "../../types";
+import type {
+  StoredPositions,
+  CustomPositionsState,
+  SystemType,
+} from "../../types";
 
 /**
  * LocalStorageManager handles persistence of custom player positions to browser storage
@@ -16,10 +20,7 @@ export class LocalStorageManager {
   /**
    * Save position data to localStorage with debouncing
    */
-  public save(positions: {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  }): void {
+  public save(positions: Record<SystemType, CustomPositionsState>): void {
     const dataToSave: StoredPositions = {
       version: LocalStorageManager.STORAGE_VERSION,
       lastModified: new Date(),
@@ -44,10 +45,9 @@ export class LocalStorageManager {
   /**
    * Immediately save data without debouncing (for critical saves)
    */
-  public saveImmediate(positions: {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  }): void {
+  public saveImmediate(
+    positions: Record<SystemType, CustomPositionsState>
+  ): void {
     // Clear any pending debounced save
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
@@ -66,10 +66,7 @@ export class LocalStorageManager {
   /**
    * Load position data from localStorage
    */
-  public load(): {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  } | null {
+  public load(): Record<SystemType, CustomPositionsState> | null {
     try {
       if (!this.isStorageAvailable()) {
         console.warn("LocalStorage is not available");
@@ -291,10 +288,9 @@ export class LocalStorageManager {
   /**
    * Convert ISO strings back to Date objects after loading
    */
-  private deserializeDates(positions: {
-    "5-1": CustomPositionsState;
-    "6-2": CustomPositionsState;
-  }): void {
+  private deserializeDates(
+    positions: Record<SystemType, CustomPositionsState>
+  ): void {
     Object.values(positions).forEach((systemPositions) => {
       Object.values(systemPositions).forEach((rotationPositions) => {
         Object.values(rotationPositions).forEach((formationPositions) => {
@@ -0,0 +1,67 @@
+import type { PersistenceState } from "../../PersistenceManager";
+
+/**
+ * Formation saved on a remote backend. The revision goes up by one on every
+ * write, so a client can tell when someone else saved in the meantime.
+ */
+export interface PersistenceRecord {
+  id: string;
+  state: PersistenceState;
+  revision: number;
+  updatedAt: number;
+}
+
+// Record without its state, for listing
+export type PersistenceRecordSummary = Omit<PersistenceRecord, "state">;
+
+/**
+ * Result of a write. A conflict means the remote revision no longer matches
+ * the expected one; `remote` is the current record, or null when it was
+ * deleted remotely.
+ */
+export type PersistenceWriteResult =
+  | { status: "ok"; record: PersistenceRecord | null } // null after a delete
+  | { status: "conflict"; remote: PersistenceRecord | null };
+
+/**
+ * Remote backend for VolleyballCourtPersistenceManager. Writes pass the
+ * revision the client last saw (null for a new record) and report a
+ * conflict instead of overwriting a newer one. Network failures reject and
+ * are retried by the manager.
+ */
+export interface PersistenceAdapter {
+  load(id: string): Promise<PersistenceRecord | null>;
+  save(
+    id: string,
+    state: PersistenceState,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult>;
+  list(): Promise<PersistenceRecordSummary[]>;
+  delete(
+    id: string,
+    expectedRevision: number | null
+  ): Promise<PersistenceWriteResult>;
+}
+
+/**
+ * ID of the record a formation is saved under, e.g. "5-1:0:base"
+ */
+export function getPersistenceRecordId(
+  state: Pick<PersistenceState, "system" | "rotation" | "formation">
+): string {
+  return `${state.system}:${state.rotation}:${state.formation}`;
+}
+
+/**
+ * Convert ISO strings back to Date objects in a record parsed from JSON
+ */
+export function deserializeRecordDates<T extends { state: PersistenceState }>(
+  record: T
+): T {
+  Object.values(record.state.positions).forEach((position) => {
+    if (typeof position.lastModified === "string") {
+      position.lastModified = new Date(position.lastModified);
+    }
+  });
+  return record;
+}
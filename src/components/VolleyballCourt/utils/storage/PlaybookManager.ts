@@ -0,0 +1,459 @@
+import type {
+  FormationTemplate,
+  Playbook,
+  PlaybookSummary,
+  StorageBackend,
+  SystemType,
+} from "../../types";
+import type { CustomPositionsState } from "../../types/positioning";
+import { CoordinateSystemMigration } from "../coordinateSystemMigration";
+import { localStorageManager } from "./LocalStorageManager";
+import { StorageAdapter, createStorageAdapter } from "./StorageAdapter";
+
+/**
+ * List of playbooks and which one is active, stored under INDEX_KEY. Each
+ * playbook's positions are stored separately so switching only reads one.
+ */
+interface PlaybookIndex {
+  version: string;
+  activeId: string;
+  playbooks: PlaybookSummary[];
+}
+
+const createEmptyPositions = (): Record<SystemType, CustomPositionsState> => ({
+  "5-1": {},
+  "6-2": {},
+});
+
+/**
+ * PlaybookManager keeps any number of named playbooks, each with its own
+ * custom positions, on top of a StorageAdapter. On first use the positions
+ * saved by LocalStorageManager before playbooks existed are migrated into a
+ * default playbook.
+ */
+export class PlaybookManager {
+  private static readonly INDEX_KEY = "playbooks";
+  private static readonly INDEX_VERSION = "1.0.0";
+  private static readonly DEBOUNCE_DELAY = 500; // 500ms debounce
+  public static readonly DEFAULT_PLAYBOOK_NAME = "Default playbook";
+
+  private adapter: StorageAdapter | null;
+  private initializing: Promise<PlaybookIndex> | null = null;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private pendingSave: {
+    id: string;
+    positions: Record<SystemType, CustomPositionsState>;
+  } | null = null;
+  private idCounter = 0;
+
+  /**
+   * @param adapter - Storage to use; by default IndexedDB when the browser
+   * has it, otherwise localStorage. Resolved on first use so the manager can
+   * be created during server rendering.
+   */
+  constructor(adapter?: StorageAdapter) {
+    this.adapter = adapter ?? null;
+  }
+
+  /**
+   * Backend the playbooks are stored in
+   */
+  public getBackend(): StorageBackend {
+    return this.getAdapter().backend;
+  }
+
+  /**
+   * All playbooks, oldest first
+   */
+  public async listPlaybooks(): Promise<PlaybookSummary[]> {
+    const index = await this.loadIndex();
+    return index.playbooks;
+  }
+
+  /**
+   * ID of the playbook positions are loaded from and saved to
+   */
+  public async getActivePlaybookId(): Promise<string> {
+    const index = await this.loadIndex();
+    return index.activeId;
+  }
+
+  /**
+   * The active playbook with its positions
+   */
+  public async getActivePlaybook(): Promise<Playbook> {
+    const index = await this.loadIndex();
+    const playbook = await this.getPlaybook(index.activeId);
+    if (playbook) {
+      return playbook;
+    }
+
+    // The index points at a missing entry; start it again empty
+    const summary = index.playbooks.find(({ id }) => id === index.activeId);
+    const recreated: Playbook = {
+      id: index.activeId,
+      name: summary?.name ?? PlaybookManager.DEFAULT_PLAYBOOK_NAME,
+      positions: createEmptyPositions(),
+      createdAt: summary?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+    };
+    await this.writePlaybook(recreated);
+    return recreated;
+  }
+
+  /**
+   * A playbook with its positions, or null when it doesn't exist
+   */
+  public async getPlaybook(id: string): Promise<Playbook | null> {
+    const playbook = await this.getAdapter().get<Playbook>(
+      this.getPlaybookKey(id)
+    );
+    return playbook ? this.deserializeDates(playbook) : null;
+  }
+
+  /**
+   * Creates a playbook, empty unless positions or templates are given
+   */
+  public async createPlaybook(
+    name: string,
+    positions: Record<
+      SystemType,
+      CustomPositionsState
+    > = createEmptyPositions(),
+    templates: FormationTemplate[] = []
+  ): Promise<PlaybookSummary> {
+    const index = await this.loadIndex();
+    const now = Date.now();
+    const playbook: Playbook = {
+      id: this.createId(),
+      name: this.validateName(name),
+      positions,
+      templates,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.writePlaybook(playbook);
+    await this.saveIndex({
+      ...index,
+      playbooks: [...index.playbooks, this.toSummary(playbook)],
+    });
+
+    return this.toSummary(playbook);
+  }
+
+  public async renamePlaybook(id: string, name: string): Promise<void> {
+    const validName = this.validateName(name);
+    const index = await this.loadIndex();
+    const playbook = await this.requirePlaybook(index, id);
+
+    const renamed = { ...playbook, name: validName, updatedAt: Date.now() };
+    await this.writePlaybook(renamed);
+    await this.saveIndex({
+      ...index,
+      playbooks: index.playbooks.map((summary) =>
+        summary.id === id ? this.toSummary(renamed) : summary
+      ),
+    });
+  }
+
+  /**
+   * Copies a playbook's positions and templates into a new playbook, named
+   * "<name> (copy)" unless a name is given
+   */
+  public async duplicatePlaybook(
+    id: string,
+    name?: string
+  ): Promise<PlaybookSummary> {
+    // Include changes still waiting to be saved
+    await this.flush();
+
+    const index = await this.loadIndex();
+    const playbook = await this.requirePlaybook(index, id);
+
+    return this.createPlaybook(
+      name ?? `${playbook.name} (copy)`,
+      JSON.parse(JSON.stringify(playbook.positions)),
+      JSON.parse(JSON.stringify(playbook.templates ?? []))
+    );
+  }
+
+  /**
+   * Deletes a playbook. The last playbook can't be deleted; when the active
+   * one is deleted the first remaining playbook becomes active.
+   */
+  public async deletePlaybook(id: string): Promise<void> {
+    const index = await this.loadIndex();
+    await this.requirePlaybook(index, id);
+
+    if (index.playbooks.length <= 1) {
+      throw new Error("Cannot delete the only playbook");
+    }
+
+    if (this.pendingSave?.id === id) {
+      this.cancelPendingSave();
+    }
+
+    const playbooks = index.playbooks.filter((summary) => summary.id !== id);
+    await this.saveIndex({
+      ...index,
+      activeId: index.activeId === id ? playbooks[0].id : index.activeId,
+      playbooks,
+    });
+    await this.getAdapter().remove(this.getPlaybookKey(id));
+  }
+
+  /**
+   * Makes a playbook active; saves pending changes to the previous one first
+   */
+  public async setActivePlaybook(id: string): Promise<void> {
+    await this.flush();
+
+    const index = await this.loadIndex();
+    await this.requirePlaybook(index, id);
+    await this.saveIndex({ ...index, activeId: id });
+  }
+
+  /**
+   * User templates of the active playbook
+   */
+  public async getTemplates(): Promise<FormationTemplate[]> {
+    const playbook = await this.getActivePlaybook();
+    return playbook.templates ?? [];
+  }
+
+  /**
+   * Replaces the user templates of the active playbook
+   */
+  public async saveTemplates(templates: FormationTemplate[]): Promise<void> {
+    // Positions waiting to be saved are written first, so they aren't lost
+    await this.flush();
+
+    const index = await this.loadIndex();
+    const playbook = await this.requirePlaybook(index, index.activeId);
+
+    const updated = { ...playbook, templates, updatedAt: Date.now() };
+    await this.writePlaybook(updated);
+    await this.saveIndex({
+      ...index,
+      playbooks: index.playbooks.map((summary) =>
+        summary.id === index.activeId ? this.toSummary(updated) : summary
+      ),
+    });
+  }
+
+  /**
+   * Save positions to the active playbook with debouncing
+   */
+  public savePositions(
+    positions: Record<SystemType, CustomPositionsState>
+  ): void {
+    this.loadIndex()
+      .then((index) => {
+        this.pendingSave = { id: index.activeId, positions };
+
+        if (this.saveTimeout) {
+          clearTimeout(this.saveTimeout);
+        }
+        this.saveTimeout = setTimeout(() => {
+          this.saveTimeout = null;
+          this.flush().catch((error) =>
+            console.error("Error saving playbook:", error)
+          );
+        }, PlaybookManager.DEBOUNCE_DELAY);
+      })
+      .catch((error) => console.error("Error saving playbook:", error));
+  }
+
+  /**
+   * Immediately save positions to the active playbook (for critical saves)
+   */
+  public async saveImmediate(
+    positions: Record<SystemType, CustomPositionsState>
+  ): Promise<void> {
+    const index = await this.loadIndex();
+    this.cancelPendingSave();
+    await this.writePositions(index.activeId, positions);
+  }
+
+  /**
+   * Writes a debounced save right away
+   */
+  public async flush(): Promise<void> {
+    const pending = this.pendingSave;
+    this.cancelPendingSave();
+
+    if (pending) {
+      await this.writePositions(pending.id, pending.positions);
+    }
+  }
+
+  /**
+   * Loads the playbook index, creating it on first use
+   */
+  private loadIndex(): Promise<PlaybookIndex> {
+    return this.getAdapter()
+      .get<PlaybookIndex>(PlaybookManager.INDEX_KEY)
+      .then((index) => {
+        if (index && index.playbooks.length > 0) {
+          return index;
+        }
+
+        // Several callers can ask at once on first use; create it only once
+        if (!this.initializing) {
+          this.initializing = this.createIndex().finally(() => {
+            this.initializing = null;
+          });
+        }
+        return this.initializing;
+      });
+  }
+
+  /**
+   * Creates the index with one playbook holding any positions saved before
+   * playbooks existed
+   */
+  private async createIndex(): Promise<PlaybookIndex> {
+    const legacyPositions = localStorageManager.load();
+    let playbook: Playbook;
+
+    if (legacyPositions) {
+      const { playbook: migrated, result } =
+        CoordinateSystemMigration.migrateToPlaybook(
+          {
+            version: "1.0.0",
+            lastModified: new Date(),
+            positions: legacyPositions,
+          },
+          { id: this.createId(), name: PlaybookManager.DEFAULT_PLAYBOOK_NAME }
+        );
+      if (result.errors) {
+        console.warn("Some positions were not migrated:", result.errors);
+      }
+      playbook = migrated;
+    } else {
+      const now = Date.now();
+      playbook = {
+        id: this.createId(),
+        name: PlaybookManager.DEFAULT_PLAYBOOK_NAME,
+        positions: createEmptyPositions(),
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    const index: PlaybookIndex = {
+      version: PlaybookManager.INDEX_VERSION,
+      activeId: playbook.id,
+      playbooks: [this.toSummary(playbook)],
+    };
+    await this.writePlaybook(playbook);
+    await this.saveIndex(index);
+
+    return index;
+  }
+
+  private async saveIndex(index: PlaybookIndex): Promise<void> {
+    await this.getAdapter().set(PlaybookManager.INDEX_KEY, index);
+  }
+
+  private async writePlaybook(playbook: Playbook): Promise<void> {
+    await this.getAdapter().set(this.getPlaybookKey(playbook.id), playbook);
+  }
+
+  private async writePositions(
+    id: string,
+    positions: Record<SystemType, CustomPositionsState>
+  ): Promise<void> {
+    const playbook = await this.getPlaybook(id);
+    // Deleted while the save was pending
+    if (!playbook) return;
+
+    const updated = { ...playbook, positions, updatedAt: Date.now() };
+    await this.writePlaybook(updated);
+
+    const index = await this.loadIndex();
+    await this.saveIndex({
+      ...index,
+      playbooks: index.playbooks.map((summary) =>
+        summary.id === id ? this.toSummary(updated) : summary
+      ),
+    });
+  }
+
+  private async requirePlaybook(
+    index: PlaybookIndex,
+    id: string
+  ): Promise<Playbook> {
+    const playbook = index.playbooks.some((summary) => summary.id === id)
+      ? await this.getPlaybook(id)
+      : null;
+    if (!playbook) {
+      throw new Error(`Playbook not found: ${id}`);
+    }
+    return playbook;
+  }
+
+  private cancelPendingSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    this.pendingSave = null;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Playbook name is required");
+    }
+    return trimmed;
+  }
+
+  private createId(): string {
+    this.idCounter += 1;
+    return `playbook_${Date.now()}_${this.idCounter}`;
+  }
+
+  private getPlaybookKey(id: string): string {
+    return `playbook:${id}`;
+  }
+
+  private getAdapter(): StorageAdapter {
+    if (!this.adapter) {
+      this.adapter = createStorageAdapter();
+    }
+    return this.adapter;
+  }
+
+  private toSummary({ id, name, createdAt, updatedAt }: Playbook) {
+    return { id, name, createdAt, updatedAt };
+  }
+
+  /**
+   * Convert ISO strings back to Date objects after loading from JSON
+   */
+  private deserializeDates(playbook: Playbook): Playbook {
+    Object.values(playbook.positions).forEach((systemPositions) => {
+      Object.values(systemPositions).forEach((rotationPositions) => {
+        Object.entries(rotationPositions).forEach(
+          ([formation, formationPositions]) => {
+            if (formation === "annotations") return;
+            Object.values(
+              formationPositions as Record<string, Record<string, unknown>>
+            ).forEach((position) => {
+              if (typeof position.lastModified === "string") {
+                position.lastModified = new Date(position.lastModified);
+              }
+            });
+          }
+        );
+      });
+    });
+
+    return playbook;
+  }
+}
+
+// Export a singleton instance for convenience
+export const playbookManager = new PlaybookManager();
@@ -0,0 +1,392 @@
+import type { PersistenceState } from "../../PersistenceManager";
+import {
+  PersistenceAdapter,
+  PersistenceRecord,
+  PersistenceRecordSummary,
+  PersistenceWriteResult,
+  deserializeRecordDates,
+  getPersistenceRecordId,
+} from "./PersistenceAdapter";
+
+export type RemoteSyncStatus =
+  | "idle" // Nothing waiting to be sent
+  | "syncing"
+  | "offline" // Waiting for the browser to come back online
+  | "retrying" // A request failed; retrying after a backoff
+  | "conflict"; // Waiting for resolveConflict
+
+export interface RemoteSyncState {
+  status: RemoteSyncStatus;
+  pending: number; // Records waiting to be sent
+  attempts: number; // Failed attempts since the last successful sync
+  lastError: string | null;
+  lastSyncedAt: number | null;
+}
+
+/**
+ * A local save the backend rejected because its revision moved on
+ */
+export interface RemoteSyncConflict {
+  id: string;
+  local: PersistenceState;
+  baseRevision: number | null; // Revision the local change was based on
+  remote: PersistenceRecord | null; // Null when deleted remotely
+}
+
+export interface RemoteSyncOptions {
+  retryDelay: number; // First retry in ms, doubled after every failure
+  maxRetryDelay: number;
+  storageKey?: string; // localStorage key of the offline queue
+  onStatusChange?: (state: RemoteSyncState) => void;
+  onConflict?: (conflict: RemoteSyncConflict) => void;
+}
+
+interface PendingWrite {
+  id: string;
+  state: PersistenceState;
+  baseRevision: number | null;
+}
+
+const QUEUE_STORAGE_VERSION = "1.0.0";
+
+/**
+ * Backoff before retry `attempt` (1-based): retryDelay, 2x, 4x, ... capped
+ * at maxRetryDelay
+ */
+export function getRetryDelay(
+  attempt: number,
+  retryDelay: number,
+  maxRetryDelay: number
+): number {
+  return Math.min(maxRetryDelay, retryDelay * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * RemoteSyncQueue sends saved formations to a PersistenceAdapter. Saves are
+ * queued per record (the latest one wins) and kept in localStorage, so
+ * changes made offline are sent when the browser is back online or the page
+ * is reloaded. Failed requests are retried with exponential backoff.
+ */
+export class RemoteSyncQueue {
+  private pending = new Map<string, PendingWrite>();
+  private revisions = new Map<string, number>();
+  private conflicts = new Map<string, RemoteSyncConflict>();
+  private retryTimeout: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private flushRequested = false;
+  private state: RemoteSyncState = {
+    status: "idle",
+    pending: 0,
+    attempts: 0,
+    lastError: null,
+    lastSyncedAt: null,
+  };
+
+  constructor(
+    private readonly adapter: PersistenceAdapter,
+    private readonly options: RemoteSyncOptions
+  ) {
+    this.restoreQueue();
+    this.updateState({ pending: this.pending.size });
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+    }
+  }
+
+  public getState(): RemoteSyncState {
+    return this.state;
+  }
+
+  public getConflicts(): RemoteSyncConflict[] {
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Last revision seen for a record, null when it was never synced
+   */
+  public getRevision(id: string): number | null {
+    return this.revisions.get(id) ?? null;
+  }
+
+  /**
+   * Queues a save and starts sending it
+   */
+  public enqueue(state: PersistenceState): void {
+    const id = getPersistenceRecordId(state);
+    const baseRevision =
+      this.pending.get(id)?.baseRevision ?? this.getRevision(id);
+
+    this.pending.set(id, { id, state, baseRevision });
+    this.saveQueue();
+    this.updateState({ pending: this.pending.size });
+    void this.flush();
+  }
+
+  /**
+   * Sends queued saves. Records in conflict wait for resolveConflict.
+   */
+  public async flush(): Promise<void> {
+    if (this.isFlushing) {
+      this.flushRequested = true;
+      return;
+    }
+
+    if (this.isOffline()) {
+      this.updateState({ status: this.getIdleStatus() });
+      return;
+    }
+
+    this.clearRetry();
+    this.isFlushing = true;
+    this.updateState({ status: "syncing" });
+
+    try {
+      for (const write of Array.from(this.pending.values())) {
+        if (this.conflicts.has(write.id)) continue;
+
+        const result = await this.adapter.save(
+          write.id,
+          write.state,
+          write.baseRevision
+        );
+        this.applySaveResult(write, result);
+      }
+
+      this.updateState({
+        attempts: 0,
+        lastError: null,
+        lastSyncedAt: Date.now(),
+      });
+    } catch (error) {
+      this.scheduleRetry(error);
+    } finally {
+      this.isFlushing = false;
+    }
+
+    this.updateState({
+      status: this.getIdleStatus(),
+      pending: this.pending.size,
+    });
+
+    if (this.flushRequested) {
+      this.flushRequested = false;
+      await this.flush();
+    }
+  }
+
+  /**
+   * Resolves a conflict by keeping the local change (sent again over the
+   * remote revision) or the remote one (local change dropped). Returns the
+   * state to show: the remote state, or null when keeping the local one or
+   * when the record was deleted remotely.
+   */
+  public resolveConflict(
+    id: string,
+    resolution: "local" | "remote"
+  ): PersistenceState | null {
+    const conflict = this.conflicts.get(id);
+    if (!conflict) {
+      throw new Error(`No sync conflict for ${id}`);
+    }
+
+    this.conflicts.delete(id);
+    const remoteRevision = conflict.remote?.revision ?? null;
+
+    if (resolution === "local") {
+      this.pending.set(id, {
+        id,
+        state: this.pending.get(id)?.state ?? conflict.local,
+        baseRevision: remoteRevision,
+      });
+    } else {
+      this.pending.delete(id);
+      this.setRevision(id, remoteRevision);
+    }
+
+    this.saveQueue();
+    this.updateState({
+      status: this.getIdleStatus(),
+      pending: this.pending.size,
+    });
+    void this.flush();
+
+    return resolution === "remote" ? (conflict.remote?.state ?? null) : null;
+  }
+
+  /**
+   * Loads a record and remembers its revision for later saves
+   */
+  public async load(id: string): Promise<PersistenceRecord | null> {
+    const record = await this.adapter.load(id);
+    if (record && !this.pending.has(id)) {
+      this.setRevision(id, record.revision);
+      this.saveQueue();
+    }
+    return record;
+  }
+
+  public list(): Promise<PersistenceRecordSummary[]> {
+    return this.adapter.list();
+  }
+
+  /**
+   * Deletes a record at the last seen revision and drops queued saves
+   */
+  public async delete(id: string): Promise<PersistenceWriteResult> {
+    const result = await this.adapter.delete(id, this.getRevision(id));
+    if (result.status === "ok") {
+      this.pending.delete(id);
+      this.conflicts.delete(id);
+      this.setRevision(id, null);
+      this.saveQueue();
+      this.updateState({
+        status: this.getIdleStatus(),
+        pending: this.pending.size,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Stops retries and listening for the browser coming back online
+   */
+  public dispose(): void {
+    this.clearRetry();
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+    }
+  }
+
+  private handleOnline = () => {
+    void this.flush();
+  };
+
+  private applySaveResult(
+    write: PendingWrite,
+    result: PersistenceWriteResult
+  ): void {
+    // A newer save may have been queued while this one was in flight
+    const current = this.pending.get(write.id);
+
+    if (result.status === "ok") {
+      const revision = result.record?.revision ?? null;
+      this.setRevision(write.id, revision);
+      if (current === write) {
+        this.pending.delete(write.id);
+      } else if (current) {
+        current.baseRevision = revision;
+      }
+    } else {
+      const conflict: RemoteSyncConflict = {
+        id: write.id,
+        local: current?.state ?? write.state,
+        baseRevision: write.baseRevision,
+        remote: result.remote,
+      };
+      this.conflicts.set(write.id, conflict);
+      this.options.onConflict?.(conflict);
+    }
+
+    this.saveQueue();
+  }
+
+  private scheduleRetry(error: unknown): void {
+    const attempts = this.state.attempts + 1;
+    this.updateState({
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+
+    this.retryTimeout = setTimeout(
+      () => {
+        this.retryTimeout = null;
+        void this.flush();
+      },
+      getRetryDelay(
+        attempts,
+        this.options.retryDelay,
+        this.options.maxRetryDelay
+      )
+    );
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  private getIdleStatus(): RemoteSyncStatus {
+    if (this.conflicts.size > 0) return "conflict";
+    if (this.retryTimeout) return "retrying";
+    if (this.pending.size > 0 && this.isOffline()) return "offline";
+    return "idle";
+  }
+
+  private isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false;
+  }
+
+  private setRevision(id: string, revision: number | null): void {
+    if (revision === null) {
+      this.revisions.delete(id);
+    } else {
+      this.revisions.set(id, revision);
+    }
+  }
+
+  private updateState(update: Partial<RemoteSyncState>): void {
+    const next = { ...this.state, ...update };
+    const changed = (Object.keys(next) as (keyof RemoteSyncState)[]).some(
+      (key) => next[key] !== this.state[key]
+    );
+    if (!changed) return;
+
+    this.state = next;
+    this.options.onStatusChange?.(next);
+  }
+
+  /**
+   * Keeps queued saves and known revisions across page loads
+   */
+  private saveQueue(): void {
+    if (!this.options.storageKey || typeof window === "undefined") return;
+
+    try {
+      localStorage.setItem(
+        this.options.storageKey,
+        JSON.stringify({
+          version: QUEUE_STORAGE_VERSION,
+          pending: Array.from(this.pending.values()),
+          revisions: Object.fromEntries(this.revisions),
+        })
+      );
+    } catch (error) {
+      console.error("Failed to save sync queue:", error);
+    }
+  }
+
+  private restoreQueue(): void {
+    if (!this.options.storageKey || typeof window === "undefined") return;
+
+    try {
+      const stored = localStorage.getItem(this.options.storageKey);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored) as {
+        pending?: PendingWrite[];
+        revisions?: Record<string, number>;
+      };
+      parsed.pending?.forEach((write) =>
+        this.pending.set(write.id, deserializeRecordDates(write))
+      );
+      Object.entries(parsed.revisions ?? {}).forEach(([id, revision]) =>
+        this.revisions.set(id, revision)
+      );
+    } catch (error) {
+      console.error("Failed to restore sync queue:", error);
+    }
+  }
+}
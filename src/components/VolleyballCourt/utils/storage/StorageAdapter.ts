@@ -0,0 +1,35 @@
+import type { StorageBackend } from "../../types";
+import { IndexedDBAdapter } from "./IndexedDBAdapter";
+import { LocalStorageAdapter } from "./LocalStorageAdapter";
+
+/**
+ * Async key-value store behind playbook persistence. Values must be
+ * JSON-serializable so every backend can hold them.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  isAvailable(): boolean;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Creates the adapter for a backend. "auto" prefers IndexedDB, which has
+ * far more room than localStorage, and falls back when it is missing
+ * (older browsers, private modes, server rendering).
+ */
+export function createStorageAdapter(
+  backend: StorageBackend | "auto" = "auto"
+): StorageAdapter {
+  if (backend === "localStorage") {
+    return new LocalStorageAdapter();
+  }
+
+  const indexedDBAdapter = new IndexedDBAdapter();
+  if (backend === "indexedDB" || indexedDBAdapter.isAvailable()) {
+    return indexedDBAdapter;
+  }
+
+  return new LocalStorageAdapter();
+}
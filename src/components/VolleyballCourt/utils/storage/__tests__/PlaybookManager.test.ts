@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PlaybookManager } from "../PlaybookManager";
+import { LocalStorageManager } from "../LocalStorageManager";
+import { LocalStorageAdapter } from "../LocalStorageAdapter";
+import { createStorageAdapter } from "../StorageAdapter";
+import type { CustomPositionsState } from "../../../types/positioning";
+
+const createPositions = (x: number): Record<string, CustomPositionsState> => ({
+  "5-1": {
+    0: {
+      rotational: {},
+      serveReceive: {
+        S: { x, y: 200, isCustom: true, lastModified: new Date(0) },
+      },
+      base: {},
+      annotations: {
+        serveReceive: [{ id: "a1", type: "ball", x: 100, y: 100 }],
+      },
+    },
+  },
+  "6-2": {},
+});
+
+describe("PlaybookManager", () => {
+  let manager: PlaybookManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new PlaybookManager(new LocalStorageAdapter());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts with an empty default playbook", async () => {
+    const playbook = await manager.getActivePlaybook();
+
+    expect(playbook.name).toBe(PlaybookManager.DEFAULT_PLAYBOOK_NAME);
+    expect(playbook.positions).toEqual({ "5-1": {}, "6-2": {} });
+    expect(await manager.listPlaybooks()).toHaveLength(1);
+  });
+
+  it("migrates positions saved before playbooks into the default playbook", async () => {
+    new LocalStorageManager().saveImmediate(createPositions(150));
+
+    const playbook = await manager.getActivePlaybook();
+
+    expect(playbook.name).toBe(PlaybookManager.DEFAULT_PLAYBOOK_NAME);
+    expect(playbook.positions["5-1"][0].serveReceive.S).toEqual({
+      x: 150,
+      y: 200,
+      isCustom: true,
+      lastModified: new Date(0),
+    });
+    expect(playbook.positions["5-1"][0].annotations).toEqual({
+      serveReceive: [{ id: "a1", type: "ball", x: 100, y: 100 }],
+    });
+  });
+
+  it("creates, renames, duplicates and deletes playbooks", async () => {
+    const original = await manager.getActivePlaybook();
+    await manager.saveImmediate(createPositions(150));
+
+    const varsity = await manager.createPlaybook("  Varsity 2026 ");
+    expect(varsity.name).toBe("Varsity 2026");
+    expect((await manager.getPlaybook(varsity.id))?.positions).toEqual({
+      "5-1": {},
+      "6-2": {},
+    });
+
+    await manager.renamePlaybook(varsity.id, "JV serve-receive experiments");
+    const copy = await manager.duplicatePlaybook(original.id);
+    expect(copy.name).toBe("Default playbook (copy)");
+    expect(
+      (await manager.getPlaybook(copy.id))?.positions["5-1"][0].serveReceive.S.x
+    ).toBe(150);
+
+    await manager.deletePlaybook(original.id);
+    expect((await manager.listPlaybooks()).map(({ name }) => name)).toEqual([
+      "JV serve-receive experiments",
+      "Default playbook (copy)",
+    ]);
+    // The first remaining playbook becomes active
+    expect(await manager.getActivePlaybookId()).toBe(varsity.id);
+    expect(await manager.getPlaybook(original.id)).toBeNull();
+  });
+
+  it("rejects empty names and deleting the only playbook", async () => {
+    const playbook = await manager.getActivePlaybook();
+
+    await expect(manager.createPlaybook("   ")).rejects.toThrow(
+      "Playbook name is required"
+    );
+    await expect(manager.deletePlaybook(playbook.id)).rejects.toThrow(
+      "Cannot delete the only playbook"
+    );
+    await expect(manager.setActivePlaybook("missing")).rejects.toThrow(
+      "Playbook not found: missing"
+    );
+  });
+
+  it("saves pending changes to the previous playbook before switching", async () => {
+    const first = await manager.getActivePlaybook();
+    const second = await manager.createPlaybook("Second");
+
+    vi.useFakeTimers();
+    manager.savePositions(createPositions(300));
+    await vi.advanceTimersByTimeAsync(0);
+    await manager.setActivePlaybook(second.id);
+
+    expect(
+      (await manager.getPlaybook(first.id))?.positions["5-1"][0].serveReceive.S
+        .x
+    ).toBe(300);
+    expect((await manager.getActivePlaybook()).positions).toEqual({
+      "5-1": {},
+      "6-2": {},
+    });
+  });
+
+  it("saves templates with the active playbook and copies them with it", async () => {
+    const template = {
+      id: "template_1",
+      name: "Tight cup",
+      formation: "serveReceive" as const,
+      front: [{ x: 1, y: 1 }],
+    };
+    const original = await manager.getActivePlaybook();
+    await manager.saveTemplates([template]);
+
+    expect(await manager.getTemplates()).toEqual([template]);
+    expect((await manager.listPlaybooks())[0]).not.toHaveProperty("templates");
+
+    const copy = await manager.duplicatePlaybook(original.id);
+    expect((await manager.getPlaybook(copy.id))?.templates).toEqual([template]);
+
+    const empty = await manager.createPlaybook("Empty");
+    await manager.setActivePlaybook(empty.id);
+    expect(await manager.getTemplates()).toEqual([]);
+  });
+
+  it("falls back to localStorage when IndexedDB is missing", () => {
+    expect(createStorageAdapter("auto").backend).toBe("localStorage");
+    expect(createStorageAdapter("indexedDB").backend).toBe("indexedDB");
+  });
+});
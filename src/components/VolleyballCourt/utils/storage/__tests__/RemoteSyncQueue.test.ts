@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RemoteSyncQueue, getRetryDelay } from "../RemoteSyncQueue";
+import { InMemoryPersistenceAdapter } from "../InMemoryPersistenceAdapter";
+import { HttpPersistenceAdapter } from "../HttpPersistenceAdapter";
+import { VolleyballCourtPersistenceManager } from "../../../PersistenceManager";
+import type { PersistenceState } from "../../../PersistenceManager";
+
+const createState = (x: number): PersistenceState => ({
+  system: "5-1",
+  rotation: 0,
+  formation: "base",
+  positions: { S: { x, y: 200, isCustom: true } },
+});
+
+const options = { retryDelay: 1000, maxRetryDelay: 8000 };
+
+describe("RemoteSyncQueue", () => {
+  let adapter: InMemoryPersistenceAdapter;
+  let queue: RemoteSyncQueue;
+
+  beforeEach(() => {
+    localStorage.clear();
+    adapter = new InMemoryPersistenceAdapter();
+  });
+
+  afterEach(() => {
+    queue?.dispose();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("saves with the last seen revision", async () => {
+    queue = new RemoteSyncQueue(adapter, options);
+
+    queue.enqueue(createState(100));
+    await queue.flush();
+    queue.enqueue(createState(150));
+    await queue.flush();
+
+    expect(
+      adapter.requests
+        .filter(({ method }) => method === "save")
+        .map(({ expectedRevision }) => expectedRevision)
+    ).toEqual([null, 1]);
+    expect(queue.getRevision("5-1:0:base")).toBe(2);
+    expect(queue.getState()).toMatchObject({ status: "idle", pending: 0 });
+  });
+
+  it("retries failed saves with exponential backoff", async () => {
+    vi.useFakeTimers();
+    queue = new RemoteSyncQueue(adapter, options);
+    adapter.failNextRequests(2);
+
+    queue.enqueue(createState(100));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getState()).toMatchObject({
+      status: "retrying",
+      attempts: 1,
+      lastError: "Network request failed",
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queue.getState().attempts).toBe(2);
+
+    // The second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(queue.getState().pending).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(queue.getState()).toMatchObject({
+      status: "idle",
+      pending: 0,
+      attempts: 0,
+    });
+    expect(getRetryDelay(10, 1000, 8000)).toBe(8000);
+  });
+
+  it("queues saves while offline and sends them when back online", async () => {
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    queue = new RemoteSyncQueue(adapter, {
+      ...options,
+      storageKey: "sync-queue",
+    });
+
+    queue.enqueue(createState(100));
+    queue.enqueue(createState(150));
+    await queue.flush();
+    expect(queue.getState()).toMatchObject({ status: "offline", pending: 1 });
+    expect(adapter.requests).toEqual([]);
+
+    // The queue survives a reload
+    queue.dispose();
+    queue = new RemoteSyncQueue(adapter, {
+      ...options,
+      storageKey: "sync-queue",
+    });
+    expect(queue.getState().pending).toBe(1);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event("online"));
+    await vi.waitFor(() => expect(queue.getState().pending).toBe(0));
+    expect((await adapter.load("5-1:0:base"))?.state.positions.S.x).toBe(150);
+  });
+
+  it("reports a conflict when the remote revision moved on", async () => {
+    const onConflict = vi.fn();
+    queue = new RemoteSyncQueue(adapter, { ...options, onConflict });
+    queue.enqueue(createState(100));
+    await queue.flush();
+
+    // Another coach saves in the meantime
+    adapter.putRecord("5-1:0:base", createState(300));
+    queue.enqueue(createState(150));
+    await queue.flush();
+
+    expect(queue.getState().status).toBe("conflict");
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "5-1:0:base",
+        baseRevision: 1,
+        remote: expect.objectContaining({ revision: 2 }),
+      })
+    );
+
+    // Keeping the remote change drops the local one
+    expect(queue.resolveConflict("5-1:0:base", "remote")).toEqual(
+      createState(300)
+    );
+    expect(queue.getState()).toMatchObject({ status: "idle", pending: 0 });
+    expect(queue.getRevision("5-1:0:base")).toBe(2);
+  });
+
+  it("overwrites the remote change when keeping the local one", async () => {
+    queue = new RemoteSyncQueue(adapter, options);
+    adapter.putRecord("5-1:0:base", createState(300));
+
+    queue.enqueue(createState(150));
+    await queue.flush();
+    expect(queue.getConflicts()).toHaveLength(1);
+
+    queue.resolveConflict("5-1:0:base", "local");
+    await vi.waitFor(() => expect(queue.getState().pending).toBe(0));
+
+    const record = await adapter.load("5-1:0:base");
+    expect(record).toMatchObject({ revision: 2, state: createState(150) });
+  });
+});
+
+describe("VolleyballCourtPersistenceManager remote sync", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("chains remote saves after localStorage", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    const onSyncStatusChange = vi.fn();
+    const manager = new VolleyballCourtPersistenceManager({
+      enableURLPersistence: false,
+      remoteAdapter: adapter,
+      onSyncStatusChange,
+    });
+
+    manager.saveImmediate(createState(120));
+    await manager.syncNow();
+
+    expect(manager.loadFromLocalStorage()?.positions.S.x).toBe(120);
+    expect((await adapter.load("5-1:0:base"))?.revision).toBe(1);
+    expect(onSyncStatusChange).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "syncing" })
+    );
+    expect(manager.getSyncState()).toMatchObject({ status: "idle" });
+    manager.dispose();
+  });
+
+  it("loads from the remote backend when nothing is stored locally", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    adapter.putRecord("5-1:0:base", createState(220));
+    const manager = new VolleyballCourtPersistenceManager({
+      enableURLPersistence: false,
+      remoteAdapter: adapter,
+    });
+
+    expect((await manager.initialize())?.positions.S.x).toBe(220);
+    manager.dispose();
+  });
+
+  it("loads the initial formation from the remote backend", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    adapter.putRecord("6-2:3:serveReceive", {
+      ...createState(240),
+      system: "6-2",
+      rotation: 3,
+      formation: "serveReceive",
+    });
+    const manager = new VolleyballCourtPersistenceManager({
+      enableURLPersistence: false,
+      remoteAdapter: adapter,
+    });
+
+    const state = await manager.initialize({
+      system: "6-2",
+      rotation: 3,
+      formation: "serveReceive",
+    });
+    expect(state?.positions.S.x).toBe(240);
+    manager.dispose();
+  });
+
+  it("restarts remote sync when options are updated after dispose", async () => {
+    const adapter = new InMemoryPersistenceAdapter();
+    const manager = new VolleyballCourtPersistenceManager({
+      enableURLPersistence: false,
+      remoteAdapter: adapter,
+    });
+
+    manager.dispose();
+    expect(manager.getSyncState()).toBeNull();
+
+    manager.updateOptions({ remoteAdapter: adapter });
+    manager.saveImmediate(createState(130));
+    await manager.syncNow();
+    expect((await adapter.load("5-1:0:base"))?.state.positions.S.x).toBe(130);
+    manager.dispose();
+  });
+});
+
+describe("HttpPersistenceAdapter", () => {
+  const respond = (status: number, body?: unknown) =>
+    new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+    });
+
+  it("sends the expected revision and reads conflicts", async () => {
+    const remote = {
+      id: "5-1:0:base",
+      state: createState(300),
+      revision: 4,
+      updatedAt: 0,
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(respond(409, { remote }))
+      .mockResolvedValueOnce(respond(404));
+    const adapter = new HttpPersistenceAdapter({
+      baseUrl: "https://club.example.com/api/formations/",
+      headers: () => ({ Authorization: "Bearer token" }),
+      fetch: fetchMock,
+    });
+
+    const result = await adapter.save("5-1:0:base", createState(150), 3);
+    expect(result).toEqual({ status: "conflict", remote });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://club.example.com/api/formations/5-1%3A0%3Abase",
+      expect.objectContaining({
+        method: "PUT",
+        body: JSON.stringify({
+          state: createState(150),
+          expectedRevision: 3,
+        }),
+        headers: expect.objectContaining({ Authorization: "Bearer token" }),
+      })
+    );
+
+    expect(await adapter.load("missing")).toBeNull();
+  });
+
+  it("rejects on server errors so saves are retried", async () => {
+    const adapter = new HttpPersistenceAdapter({
+      baseUrl: "/api/formations",
+      fetch: vi.fn().mockResolvedValue(respond(503)),
+    });
+
+    await expect(adapter.list()).rejects.toThrow("Request failed: 503");
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Substitution utilities
+ *
+ * Substitutions are recorded per set. The lineup derived from them maps each
+ * starter to the player currently on court in their place, and is applied to
+ * every rotation mapping so a substitute follows the starter's rotation.
+ *
+ * Pairing rule: a starter may leave once and return once, only for the
+ * substitute who replaced them. A substitute may enter once and may only be
+ * replaced by the starter they came on for.
+ */
+
+import {
+  PlayerPosition,
+  RotationMapping,
+  Substitution,
+  SubstitutionIssue,
+  SubstitutionState,
+} from "../types";
+import type {
+  RuleSet,
+  RuleSetName,
+} from "../volleyball-rules-engine/types/RuleSet";
+import { RuleSetRegistry } from "../volleyball-rules-engine/validation/RuleSetRegistry";
+
+/**
+ * Empty substitution state for a set
+ */
+export function createSubstitutionState(set: number = 1): SubstitutionState {
+  return { set, substitutions: [] };
+}
+
+/**
+ * Clears the substitutions and moves on to the next set
+ */
+export function startNewSet(state: SubstitutionState): SubstitutionState {
+  return createSubstitutionState(state.set + 1);
+}
+
+/**
+ * Maximum substitutions per set for a rule set, null when unlimited
+ */
+export function getSubstitutionLimit(
+  ruleSet?: RuleSetName | RuleSet
+): number | null {
+  const resolved =
+    typeof ruleSet === "string" ? RuleSetRegistry.get(ruleSet) : ruleSet;
+  return resolved?.maxSubstitutionsPerSet ?? null;
+}
+
+/**
+ * Substitutions used and remaining in the set
+ */
+export function getSubstitutionCounts(
+  state: SubstitutionState,
+  limit: number | null
+): { used: number; limit: number | null; remaining: number | null } {
+  const used = state.substitutions.length;
+
+  return {
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Starter -> player currently on court in their place. Starters who are on
+ * court themselves are left out.
+ */
+export function getSubstitutionLineup(
+  state: SubstitutionState
+): Record<string, string> {
+  const lineup: Record<string, string> = {};
+
+  for (const substitution of state.substitutions) {
+    const starterId =
+      Object.keys(lineup).find(
+        (id) => lineup[id] === substitution.playerOutId
+      ) ?? substitution.playerOutId;
+
+    if (substitution.playerInId === starterId) {
+      delete lineup[starterId];
+    } else {
+      lineup[starterId] = substitution.playerInId;
+    }
+  }
+
+  return lineup;
+}
+
+/**
+ * Starter -> substitute who first replaced them in the set
+ */
+export function getSubstitutionPairs(
+  state: SubstitutionState
+): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  const substitutes = new Set<string>();
+
+  for (const { playerInId, playerOutId } of state.substitutions) {
+    if (substitutes.has(playerOutId) || pairs[playerOutId]) continue;
+    pairs[playerOutId] = playerInId;
+    substitutes.add(playerInId);
+  }
+
+  return pairs;
+}
+
+/**
+ * Returns the rotation mapping with substitutes in their starters' slots
+ */
+export function applySubstitutionsToRotation(
+  rotationMap: RotationMapping,
+  lineup: Record<string, string>
+): RotationMapping {
+  if (Object.keys(lineup).length === 0) return rotationMap;
+
+  const substituted: RotationMapping = {};
+  for (const [slot, playerId] of Object.entries(rotationMap)) {
+    substituted[Number(slot)] = lineup[playerId] ?? playerId;
+  }
+
+  return substituted;
+}
+
+/**
+ * Applies the lineup to every rotation mapping
+ */
+export function applySubstitutionsToRotations(
+  rotations: RotationMapping[],
+  lineup: Record<string, string>
+): RotationMapping[] {
+  if (Object.keys(lineup).length === 0) return rotations;
+  return rotations.map((rotationMap) =>
+    applySubstitutionsToRotation(rotationMap, lineup)
+  );
+}
+
+/**
+ * Moves each replaced starter's position to their substitute. A position
+ * already stored for the substitute (e.g. after a drag) takes precedence.
+ */
+export function applySubstitutionsToPositions(
+  positions: Record<string, PlayerPosition>,
+  lineup: Record<string, string>
+): Record<string, PlayerPosition> {
+  const entries = Object.entries(lineup);
+  if (entries.length === 0) return positions;
+
+  const substituted = { ...positions };
+  for (const [starterId, substituteId] of entries) {
+    const position = positions[substituteId] || positions[starterId];
+    delete substituted[starterId];
+    if (position) {
+      substituted[substituteId] = position;
+    }
+  }
+
+  return substituted;
+}
+
+/**
+ * Checks a substitution against the current lineup, the roster and the
+ * pairing rule. Returns an empty list when the substitution is legal.
+ */
+export function validateSubstitution(
+  state: SubstitutionState,
+  playerInId: string,
+  playerOutId: string,
+  rotationMap: RotationMapping,
+  starterIds: string[],
+  benchIds: string[],
+  limit: number | null
+): SubstitutionIssue[] {
+  const issues: SubstitutionIssue[] = [];
+  const onCourt = Object.values(rotationMap);
+  const pairs = getSubstitutionPairs(state);
+  const lineup = getSubstitutionLineup(state);
+  const affectedPlayers = [playerInId, playerOutId];
+
+  if (!onCourt.includes(playerOutId)) {
+    issues.push({
+      code: "SUB_PLAYER_NOT_ON_COURT",
+      message: `${playerOutId} is not on the court`,
+      affectedPlayers,
+    });
+  }
+
+  if (onCourt.includes(playerInId)) {
+    issues.push({
+      code: "SUB_PLAYER_ALREADY_ON_COURT",
+      message: `${playerInId} is already on the court`,
+      affectedPlayers,
+    });
+  } else if (
+    !starterIds.includes(playerInId) &&
+    !benchIds.includes(playerInId)
+  ) {
+    issues.push({
+      code: "SUB_PLAYER_NOT_ON_ROSTER",
+      message: `${playerInId} is not on the roster`,
+      affectedPlayers,
+    });
+  }
+
+  if (limit !== null && state.substitutions.length >= limit) {
+    issues.push({
+      code: "SUB_LIMIT_REACHED",
+      message: `All ${limit} substitutions for set ${state.set} have been used`,
+      affectedPlayers,
+    });
+  }
+
+  if (issues.length > 0) return issues;
+
+  const isStarterOut = starterIds.includes(playerOutId);
+  const isStarterIn = starterIds.includes(playerInId);
+
+  if (isStarterOut && pairs[playerOutId]) {
+    // The starter has already left and come back this set
+    issues.push({
+      code: "SUB_STARTER_ALREADY_REPLACED",
+      message: `${playerOutId} has already been substituted this set`,
+      affectedPlayers,
+    });
+  } else if (isStarterOut && isStarterIn) {
+    issues.push({
+      code: "SUB_POSITION_MISMATCH",
+      message: `${playerInId} can only return in place of their own substitute`,
+      affectedPlayers,
+    });
+  } else if (isStarterOut && Object.values(pairs).includes(playerInId)) {
+    issues.push({
+      code: "SUB_ALREADY_USED",
+      message: `${playerInId} has already entered this set`,
+      affectedPlayers,
+    });
+  } else if (!isStarterOut) {
+    // A substitute may only be replaced by the starter they came on for
+    const starterId = Object.keys(lineup).find(
+      (id) => lineup[id] === playerOutId
+    );
+    if (starterId !== playerInId) {
+      issues.push({
+        code: "SUB_POSITION_MISMATCH",
+        message: `${playerOutId} can only be replaced by ${
+          starterId ?? "the starter they replaced"
+        }`,
+        affectedPlayers,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Records a substitution in the set
+ */
+export function recordSubstitution(
+  state: SubstitutionState,
+  playerInId: string,
+  playerOutId: string,
+  rotation: number
+): { state: SubstitutionState; substitution: Substitution } {
+  const substitution: Substitution = {
+    id: `sub_${Date.now()}_${state.substitutions.length}`,
+    playerInId,
+    playerOutId,
+    rotation,
+    timestamp: Date.now(),
+  };
+
+  return {
+    state: {
+      ...state,
+      substitutions: [...state.substitutions, substitution],
+    },
+    substitution,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Validation policies
+ *
+ * Each formation has a policy of the checks that apply to it. Overlap rules
+ * only apply at serve contact: in serve receive, and in custom formations
+ * that turn them on. After contact players are free to switch, so base
+ * checks that the back row setter stays off the net instead. Court
+ * boundaries and collisions are checked in every formation.
+ */
+
+import {
+  BuiltInFormationType,
+  FormationDefinition,
+  FormationType,
+  Localization,
+  PlayerDefinition,
+  PlayerPosition,
+  RotationMapping,
+  SystemType,
+  ValidationPolicy,
+  ViolationData,
+} from "../types";
+import { MIN_PLAYER_DISTANCE } from "../types/positioning";
+import type { RotationSlot } from "../volleyball-rules-engine/types/PlayerState";
+import { CoordinateTransformer } from "../volleyball-rules-engine/utils/CoordinateTransformer";
+import {
+  getBaseFormation,
+  getFormationDefinition,
+  isBuiltInFormation,
+} from "./customFormations";
+import { getRotationRoles } from "./lineupGenerator";
+import { DEFAULT_LOCALIZATION } from "./localization";
+import { calculateDistance, isWithinCourtBounds } from "./positionValidation";
+
+export type ValidationPolicies = Partial<
+  Record<FormationType, Partial<ValidationPolicy>>
+>;
+
+export type PolicyViolation = Pick<
+  ViolationData,
+  "code" | "message" | "affectedPlayers" | "severity" | "violationType"
+>;
+
+export interface PolicyCheckOptions {
+  players: PlayerDefinition[];
+  system?: SystemType;
+  serverSlot?: RotationSlot | null; // The server stands behind the end line
+}
+
+export const VALIDATION_POLICIES: Record<
+  BuiltInFormationType,
+  ValidationPolicy
+> = {
+  rotational: {
+    overlap: false,
+    courtBoundaries: true,
+    collisions: true,
+    switchLegality: false,
+  },
+  serveReceive: {
+    overlap: true,
+    courtBoundaries: true,
+    collisions: true,
+    switchLegality: false,
+  },
+  base: {
+    overlap: false,
+    courtBoundaries: true,
+    collisions: true,
+    switchLegality: true,
+  },
+};
+
+const BACK_ROW: RotationSlot[] = [1, 5, 6];
+
+// Meters from the net within which a player can block or attack above it
+const NET_ZONE_DEPTH = 0.5;
+
+/**
+ * Policy of a formation. Custom formations take the policy of the formation
+ * they are based on, with overlap rules only when they turn them on.
+ * Configured policies override the defaults check by check.
+ */
+export function getValidationPolicy(
+  formation: FormationType,
+  formations: FormationDefinition[] = [],
+  policies: ValidationPolicies = {}
+): ValidationPolicy {
+  const defaults = isBuiltInFormation(formation)
+    ? VALIDATION_POLICIES[formation]
+    : {
+        ...VALIDATION_POLICIES[getBaseFormation(formation, formations)],
+        overlap:
+          getFormationDefinition(formations, formation)?.overlapRules ?? false,
+      };
+
+  return { ...defaults, ...policies[formation] };
+}
+
+/**
+ * Checks whether the overlap rules apply to a formation
+ */
+export function formationUsesOverlapRules(
+  formation: FormationType,
+  formations: FormationDefinition[] = [],
+  policies: ValidationPolicies = {}
+): boolean {
+  return getValidationPolicy(formation, formations, policies).overlap;
+}
+
+/**
+ * Runs the court boundary, collision and switch legality checks a policy
+ * turns on, with messages in the localization's language. Overlap is
+ * checked by the rules engine.
+ */
+export function checkValidationPolicy(
+  positions: Record<string, PlayerPosition>,
+  rotationMap: RotationMapping,
+  policy: ValidationPolicy,
+  options: PolicyCheckOptions,
+  localization: Localization = DEFAULT_LOCALIZATION
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const { t } = localization;
+  const getName = (playerId: string) =>
+    options.players.find((player) => player.id === playerId)?.name ?? playerId;
+
+  const onCourt = Object.entries(rotationMap)
+    .map(([slot, playerId]) => ({
+      slot: Number(slot) as RotationSlot,
+      playerId,
+      position: positions[playerId],
+    }))
+    .filter(({ position }) => position);
+
+  if (policy.courtBoundaries) {
+    onCourt.forEach(({ slot, playerId, position }) => {
+      if (slot === options.serverSlot) return;
+      if (!isWithinCourtBounds(position.x, position.y)) {
+        violations.push({
+          code: "OUT_OF_BOUNDS",
+          message: t("validation.outOfBounds", { player: getName(playerId) }),
+          affectedPlayers: [playerId],
+          severity: "error",
+          violationType: "court-boundary",
+        });
+      }
+    });
+  }
+
+  if (policy.collisions) {
+    onCourt.forEach((player, index) => {
+      onCourt.slice(index + 1).forEach((other) => {
+        if (
+          calculateDistance(player.position, other.position) <
+          MIN_PLAYER_DISTANCE
+        ) {
+          violations.push({
+            code: "PLAYER_COLLISION",
+            message: t("validation.playerCollision", {
+              player: getName(player.playerId),
+              other: getName(other.playerId),
+            }),
+            affectedPlayers: [player.playerId, other.playerId],
+            severity: "warning",
+            violationType: "positioning",
+          });
+        }
+      });
+    });
+  }
+
+  if (policy.switchLegality) {
+    const { setterSlot } = getRotationRoles(rotationMap, options);
+    const setter = onCourt.find(({ slot }) => slot === setterSlot);
+
+    if (setter && BACK_ROW.includes(setter.slot)) {
+      const { y } = CoordinateTransformer.screenToVolleyball(
+        setter.position.x,
+        setter.position.y
+      );
+      if (y <= NET_ZONE_DEPTH) {
+        violations.push({
+          code: "BACK_ROW_SETTER_AT_NET",
+          message: t("validation.backRowSetterAtNet", {
+            player: getName(setter.playerId),
+          }),
+          affectedPlayers: [setter.playerId],
+          severity: "warning",
+          violationType: "formation",
+        });
+      }
+    }
+  }
+
+  return violations;
+}
@@ -27,13 +27,21 @@ import type {
   RotationSlot,
   Role,
   OverlapResult,
+  OverlapCheckOptions,
   PositionBounds,
   Violation,
+  RuleSet,
+  RuleSetName,
+  LineupFix,
+  LineupFixOptions,
 } from "./types/index";
 
 import { OverlapValidator } from "./validation/OverlapValidator";
 import { ConstraintCalculator } from "./validation/ConstraintCalculator";
+import { LineupSolver } from "./validation/LineupSolver";
+import { RuleSetRegistry } from "./validation/RuleSetRegistry";
 import { PositionHelpers } from "./utils/PositionHelpers";
+import { MessageCatalog } from "./i18n/MessageCatalog";
 import { CoordinateTransformer } from "./utils/CoordinateTransformer";
 import { StateConverter } from "./utils/StateConverter";
 import { validateLineup, createSlotMap } from "./utils/ValidationUtils";
@@ -56,8 +64,13 @@ export class VolleyballRulesEngine {
    * - Back row order (LB < MB < RB)
    * - Front/back relationships (front players in front of back counterparts)
    * - Server exemptions
+   * - Libero restrictions when enabled (no front row, serving only when allowed)
+   *
+   * Pass `options.ruleSet` to validate under a specific rulebook (FIVB, NCAA,
+   * NFHS, USAV_YOUTH or a registered custom rule set).
    *
    * @param lineup - Array of exactly 6 players with positions and rotation slots
+   * @param options - Optional rule set and rule toggles (e.g. libero restrictions)
    * @returns Validation result indicating if lineup is legal and any violations
    *
    * @example
@@ -73,9 +86,15 @@ export class VolleyballRulesEngine {
    * } else {
    *   result.violations.forEach(v => console.log(v.message));
    * }
+   *
+   * // Validate under high school rules
+   * VolleyballRulesEngine.validateLineup(players, { ruleSet: 'NFHS' });
    * ```
    */
-  static validateLineup(lineup: PlayerState[]): OverlapResult {
+  static validateLineup(
+    lineup: PlayerState[],
+    options: OverlapCheckOptions = {}
+  ): OverlapResult {
     // First validate basic lineup structure
     const structuralErrors = validateLineup(lineup);
     if (structuralErrors.length > 0) {
@@ -90,7 +109,7 @@ export class VolleyballRulesEngine {
     }
 
     // Perform overlap validation
-    return OverlapValidator.checkOverlap(lineup);
+    return OverlapValidator.checkOverlap(lineup, options);
   }
 
   /**
@@ -99,6 +118,7 @@ export class VolleyballRulesEngine {
    * @param slot - The rotation slot to test
    * @param position - The position coordinates to test
    * @param lineup - Current lineup of all players
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns True if the position would be valid, false otherwise
    *
    * @example
@@ -113,7 +133,8 @@ export class VolleyballRulesEngine {
   static isValidPosition(
     slot: RotationSlot,
     position: { x: number; y: number },
-    lineup: PlayerState[]
+    lineup: PlayerState[],
+    ruleSet?: RuleSetName | RuleSet
   ): boolean {
     const slotMap = createSlotMap(lineup);
     const player = slotMap.get(slot);
@@ -123,7 +144,8 @@ export class VolleyballRulesEngine {
       slot,
       position,
       slotMap,
-      player.isServer
+      player.isServer,
+      ruleSet
     );
   }
 
@@ -139,6 +161,7 @@ export class VolleyballRulesEngine {
    *
    * @param slot - The rotation slot to calculate constraints for
    * @param lineup - Current lineup of all players
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Position bounds with min/max coordinates and constraint reasons
    *
    * @example
@@ -151,7 +174,8 @@ export class VolleyballRulesEngine {
    */
   static getPlayerConstraints(
     slot: RotationSlot,
-    lineup: PlayerState[]
+    lineup: PlayerState[],
+    ruleSet?: RuleSetName | RuleSet
   ): PositionBounds {
     const slotMap = createSlotMap(lineup);
     const player = slotMap.get(slot);
@@ -162,7 +186,8 @@ export class VolleyballRulesEngine {
     return ConstraintCalculator.calculateValidBounds(
       slot,
       slotMap,
-      player.isServer
+      player.isServer,
+      ruleSet
     );
   }
 
@@ -172,6 +197,7 @@ export class VolleyballRulesEngine {
    * @param slot - The rotation slot
    * @param targetPosition - The desired position
    * @param lineup - Current lineup of all players
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns The nearest valid position within constraints
    *
    * @example
@@ -186,7 +212,8 @@ export class VolleyballRulesEngine {
   static snapToValidPosition(
     slot: RotationSlot,
     targetPosition: { x: number; y: number },
-    lineup: PlayerState[]
+    lineup: PlayerState[],
+    ruleSet?: RuleSetName | RuleSet
   ): { x: number; y: number } {
     const slotMap = createSlotMap(lineup);
     const player = slotMap.get(slot);
@@ -198,10 +225,37 @@ export class VolleyballRulesEngine {
       slot,
       targetPosition,
       slotMap,
-      player.isServer
+      player.isServer,
+      ruleSet
     );
   }
 
+  /**
+   * Moves an illegal lineup to the nearest legal one.
+   *
+   * Players are put back in order within each row and column with the least
+   * total movement. The server is never moved, locked slots keep their place
+   * and players are kept on court and within any given areas.
+   *
+   * @param lineup - Current lineup of all players
+   * @param options - Optional rule set, locked slots and areas per slot
+   * @returns The fixed lineup with each moved player's displacement
+   *
+   * @example
+   * ```typescript
+   * const fix = VolleyballRulesEngine.fixLineup(players, { lockedSlots: [3] });
+   * if (fix.isLegal) {
+   *   fix.displacements.forEach(d => console.log(`${d.id}: ${d.distance}m`));
+   * }
+   * ```
+   */
+  static fixLineup(
+    lineup: PlayerState[],
+    options: LineupFixOptions = {}
+  ): LineupFix {
+    return LineupSolver.solve(lineup, options);
+  }
+
   // ============================================================================
   // POSITION LABELING AND HELPER METHODS
   // ============================================================================
@@ -258,6 +312,7 @@ export class VolleyballRulesEngine {
    * Gets detailed position information for a rotation slot.
    *
    * @param slot - Rotation slot (1-6)
+   * @param locale - Optional locale for the full name (defaults to English)
    * @returns Complete position description with label, full name, column, row, etc.
    *
    * @example
@@ -265,10 +320,12 @@ export class VolleyballRulesEngine {
    * const desc = VolleyballRulesEngine.getPositionDescription(4);
    * console.log(desc.fullName); // "Left Front"
    * console.log(desc.abbreviation); // "LF"
+   *
+   * VolleyballRulesEngine.getPositionDescription(4, 'es').fullName; // "Delantero izquierdo"
    * ```
    */
-  static getPositionDescription(slot: RotationSlot) {
-    return PositionHelpers.getPositionDescription(slot);
+  static getPositionDescription(slot: RotationSlot, locale?: string) {
+    return PositionHelpers.getPositionDescription(slot, locale);
   }
 
   // ============================================================================
@@ -309,6 +366,9 @@ export class VolleyballRulesEngine {
    *
    * @param violation - The violation to explain
    * @param lineup - The lineup where the violation occurred
+   * @param ruleSet - Optional rule set whose rulebook notes are appended
+   * @param locale - Optional locale of the explanation (defaults to English);
+   *   rulebook notes stay in the rule set's language
    * @returns Detailed explanation string
    *
    * @example
@@ -316,27 +376,77 @@ export class VolleyballRulesEngine {
    * const result = VolleyballRulesEngine.validateLineup(players);
    * if (!result.isLegal) {
    *   result.violations.forEach(violation => {
-   *     const explanation = VolleyballRulesEngine.explainViolation(violation, players);
+   *     const explanation = VolleyballRulesEngine.explainViolation(violation, players, 'NCAA');
    *     console.log(explanation);
+   *     console.log(VolleyballRulesEngine.explainViolation(violation, players, 'NCAA', 'pt'));
    *   });
    * }
    * ```
    */
-  static explainViolation(violation: Violation, lineup: PlayerState[]): string {
-    const slotMap = createSlotMap(lineup);
+  static explainViolation(
+    violation: Violation,
+    lineup: PlayerState[],
+    ruleSet?: RuleSetName | RuleSet,
+    locale?: string
+  ): string {
+    const explanation = this.explainViolationBase(violation, lineup, locale);
+    const note = RuleSetRegistry.resolve(ruleSet)?.explanations?.[
+      violation.code
+    ];
 
-    switch (violation.code) {
-      case "ROW_ORDER":
-        return this.explainRowOrderViolation(violation, slotMap);
-      case "FRONT_BACK":
-        return this.explainFrontBackViolation(violation, slotMap);
-      case "MULTIPLE_SERVERS":
-        return this.explainMultipleServersViolation(violation, slotMap);
-      case "INVALID_LINEUP":
-        return violation.message;
-      default:
-        return `Unknown violation: ${violation.message}`;
-    }
+    return note ? `${explanation} ${note}` : explanation;
+  }
+
+  // ============================================================================
+  // RULE SET METHODS
+  // ============================================================================
+
+  /**
+   * Gets a rule set profile by name.
+   *
+   * @param name - Rule set name (e.g. "FIVB", "NFHS")
+   * @returns The rule set, or undefined if not registered
+   *
+   * @example
+   * ```typescript
+   * const nfhs = VolleyballRulesEngine.getRuleSet('NFHS');
+   * console.log(nfhs?.allowLiberoServe); // true
+   * ```
+   */
+  static getRuleSet(name: RuleSetName | string): RuleSet | undefined {
+    return RuleSetRegistry.get(name);
+  }
+
+  /**
+   * Lists all available rule set profiles, built-in profiles first.
+   *
+   * @returns Array of rule sets
+   */
+  static listRuleSets(): RuleSet[] {
+    return RuleSetRegistry.list();
+  }
+
+  /**
+   * Registers a custom rule set so it is listed alongside the built-in profiles
+   * and can be looked up by name.
+   *
+   * @param ruleSet - Rule set definition
+   * @throws Error if the name collides with a built-in profile
+   *
+   * @example
+   * ```typescript
+   * const league: RuleSet = {
+   *   ...VolleyballRulesEngine.getRuleSet('NFHS')!,
+   *   name: 'LEAGUE',
+   *   label: 'Local League',
+   *   tolerance: 0.2,
+   * };
+   * VolleyballRulesEngine.registerRuleSet(league);
+   * VolleyballRulesEngine.validateLineup(players, { ruleSet: league });
+   * ```
+   */
+  static registerRuleSet(ruleSet: RuleSet): void {
+    RuleSetRegistry.register(ruleSet);
   }
 
   // ============================================================================
@@ -361,9 +471,38 @@ export class VolleyballRulesEngine {
   // PRIVATE HELPER METHODS
   // ============================================================================
 
+  private static explainViolationBase(
+    violation: Violation,
+    lineup: PlayerState[],
+    locale?: string
+  ): string {
+    const slotMap = createSlotMap(lineup);
+
+    switch (violation.code) {
+      case "ROW_ORDER":
+        return this.explainRowOrderViolation(violation, slotMap, locale);
+      case "FRONT_BACK":
+        return this.explainFrontBackViolation(violation, slotMap, locale);
+      case "MULTIPLE_SERVERS":
+        return this.explainMultipleServersViolation(violation, slotMap, locale);
+      case "INVALID_LINEUP":
+        return violation.message;
+      case "LIBERO_FRONT_ROW":
+      case "LIBERO_SERVING":
+        return this.explainLiberoViolation(violation, slotMap, locale);
+      default:
+        return MessageCatalog.format(
+          "violation.unknown",
+          { message: violation.message },
+          locale
+        );
+    }
+  }
+
   private static explainRowOrderViolation(
     violation: Violation,
-    slotMap: Map<RotationSlot, PlayerState>
+    slotMap: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string {
     const [slot1, slot2] = violation.slots;
     const player1 = slotMap.get(slot1);
@@ -376,18 +515,24 @@ export class VolleyballRulesEngine {
     const pos1 = PositionHelpers.getSlotLabel(slot1);
     const pos2 = PositionHelpers.getSlotLabel(slot2);
 
-    return `Row order violation: ${
-      player1.displayName
-    } (${pos1}) at x=${player1.x.toFixed(2)} must be left of ${
-      player2.displayName
-    } (${pos2}) at x=${player2.x.toFixed(
-      2
-    )}. Current positions violate the left-to-right ordering rule.`;
+    return MessageCatalog.format(
+      "violation.rowOrder",
+      {
+        player1: player1.displayName,
+        position1: pos1,
+        x1: MessageCatalog.formatNumber(player1.x, locale),
+        player2: player2.displayName,
+        position2: pos2,
+        x2: MessageCatalog.formatNumber(player2.x, locale),
+      },
+      locale
+    );
   }
 
   private static explainFrontBackViolation(
     violation: Violation,
-    slotMap: Map<RotationSlot, PlayerState>
+    slotMap: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string {
     const [frontSlot, backSlot] = violation.slots;
     const frontPlayer = slotMap.get(frontSlot);
@@ -400,28 +545,61 @@ export class VolleyballRulesEngine {
     const frontPos = PositionHelpers.getSlotLabel(frontSlot);
     const backPos = PositionHelpers.getSlotLabel(backSlot);
 
-    return `Front/back violation: ${
-      frontPlayer.displayName
-    } (${frontPos}) at y=${frontPlayer.y.toFixed(2)} must be in front of ${
-      backPlayer.displayName
-    } (${backPos}) at y=${backPlayer.y.toFixed(
-      2
-    )}. Front row players must have smaller y-coordinates than their back row counterparts.`;
+    return MessageCatalog.format(
+      "violation.frontBack",
+      {
+        frontPlayer: frontPlayer.displayName,
+        frontPosition: frontPos,
+        frontY: MessageCatalog.formatNumber(frontPlayer.y, locale),
+        backPlayer: backPlayer.displayName,
+        backPosition: backPos,
+        backY: MessageCatalog.formatNumber(backPlayer.y, locale),
+      },
+      locale
+    );
   }
 
   private static explainMultipleServersViolation(
     violation: Violation,
-    slotMap: Map<RotationSlot, PlayerState>
+    slotMap: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string {
     const serverNames = violation.slots
       .map((slot) => {
         const player = slotMap.get(slot);
         return player
           ? `${player.displayName} (${PositionHelpers.getSlotLabel(slot)})`
-          : `Slot ${slot}`;
+          : MessageCatalog.format("violation.slot", { slot }, locale);
       })
       .join(", ");
 
-    return `Multiple servers detected: ${serverNames}. Only one player may be designated as the server.`;
+    return MessageCatalog.format(
+      "violation.multipleServers",
+      { servers: serverNames },
+      locale
+    );
+  }
+
+  private static explainLiberoViolation(
+    violation: Violation,
+    slotMap: Map<RotationSlot, PlayerState>,
+    locale?: string
+  ): string {
+    const [slot] = violation.slots;
+    const libero = slot ? slotMap.get(slot) : undefined;
+
+    if (!libero) {
+      return violation.message;
+    }
+
+    const position = PositionHelpers.getSlotLabel(slot);
+
+    return MessageCatalog.format(
+      violation.code === "LIBERO_SERVING"
+        ? "violation.liberoServing"
+        : "violation.liberoFrontRow",
+      { player: libero.displayName, position },
+      locale
+    );
   }
 }
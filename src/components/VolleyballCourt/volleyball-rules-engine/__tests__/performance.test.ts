@@ -527,6 +527,28 @@ describe("Performance Tests", () => {
 
       expect(invalidationTime.averageTime).toBeLessThan(0.1); // Should be very fast
     });
+
+    test("should cache constraints separately per rule set", () => {
+      const lineup = PerformanceTestData.generateValidLineup();
+      const positionMap = new Map<RotationSlot, PlayerState>();
+      lineup.forEach((player) => positionMap.set(player.slot, player));
+
+      const standard =
+        OptimizedConstraintCalculator.calculateOptimizedConstraints(
+          3,
+          positionMap,
+          false
+        );
+      const nfhs = OptimizedConstraintCalculator.calculateOptimizedConstraints(
+        3,
+        positionMap,
+        false,
+        "NFHS"
+      );
+
+      // NFHS needs 0.1 m between players instead of 0.03 m
+      expect(nfhs.maxY).toBeCloseTo(standard.maxY - 0.07);
+    });
   });
 
   describe("Memory Usage", () => {
@@ -19,6 +19,7 @@ import {
   isValidPosition,
   isWithinCourtBounds,
   isInServiceZone,
+  mirrorAcrossNet,
   COORDINATE_SYSTEM,
   validateLineup,
   isValidLineup,
@@ -131,6 +132,13 @@ describe("Coordinate System", () => {
       expect(isInServiceZone(-1, 10)).toBe(false);
     });
   });
+
+  describe("mirrorAcrossNet", () => {
+    test("should map a position to the opponent half", () => {
+      expect(mirrorAcrossNet(2, 3)).toEqual({ x: 7, y: -3 });
+      expect(mirrorAcrossNet(9, 9).y).toBe(COORDINATE_SYSTEM.OPPONENT_ENDLINE_Y);
+    });
+  });
 });
 
 describe("Validation Results", () => {
@@ -0,0 +1,171 @@
+/**
+ * Message catalogs for volleyball rules engine
+ *
+ * Keyed messages with {name} placeholders, so violation explanations,
+ * suggested fixes and position names can be shown in the reader's language.
+ *
+ * Bundled locales:
+ * - en: English (the fallback for missing messages)
+ * - es: Spanish
+ * - fr: French
+ * - pt: Portuguese
+ */
+
+import { EN_MESSAGES, type MessageKey } from "./messages/en";
+import { ES_MESSAGES } from "./messages/es";
+import { FR_MESSAGES } from "./messages/fr";
+import { PT_MESSAGES } from "./messages/pt";
+
+/**
+ * Messages of one locale, by key
+ */
+export type Messages = Record<string, string>;
+
+/**
+ * Values for the {name} placeholders of a message
+ */
+export type MessageParams = Record<string, string | number>;
+
+export type BundledLocale = "en" | "es" | "fr" | "pt";
+
+export const DEFAULT_LOCALE: BundledLocale = "en";
+
+/**
+ * Bundled message catalogs
+ */
+export const BUNDLED_MESSAGES: Record<
+  BundledLocale,
+  Record<MessageKey, string>
+> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+  fr: FR_MESSAGES,
+  pt: PT_MESSAGES,
+};
+
+/**
+ * Registry for looking up messages by key and locale
+ */
+export class MessageCatalog {
+  private static customMessages = new Map<string, Messages>();
+
+  /**
+   * Register messages for a locale, added to any registered before. Registered
+   * messages take precedence over the bundled ones.
+   * @param locale - Locale such as "es" or "pt-BR"
+   * @param messages - Messages by key
+   */
+  static register(locale: string, messages: Messages): void {
+    this.customMessages.set(locale, {
+      ...this.customMessages.get(locale),
+      ...messages,
+    });
+  }
+
+  /**
+   * Remove the messages registered for a locale
+   * @param locale - Locale of the messages
+   * @returns True if messages were removed
+   */
+  static unregister(locale: string): boolean {
+    return this.customMessages.delete(locale);
+  }
+
+  /**
+   * Check whether a locale has bundled or registered messages
+   * @param locale - Locale such as "es" or "pt-BR"
+   * @returns True if the locale has messages
+   */
+  static has(locale: string): boolean {
+    return locale in BUNDLED_MESSAGES || this.customMessages.has(locale);
+  }
+
+  /**
+   * List all locales with messages, bundled locales first
+   * @returns Array of locales
+   */
+  static list(): string[] {
+    return [
+      ...Object.keys(BUNDLED_MESSAGES),
+      ...Array.from(this.customMessages.keys()).filter(
+        (locale) => !(locale in BUNDLED_MESSAGES)
+      ),
+    ];
+  }
+
+  /**
+   * Find a message, trying the locale, then its language ("pt" for "pt-BR"),
+   * then English
+   * @param key - Message key
+   * @param locale - Locale of the reader
+   * @returns The message template, or undefined if no catalog has the key
+   */
+  static getMessage(
+    key: string,
+    locale: string = DEFAULT_LOCALE
+  ): string | undefined {
+    const language = locale.split("-")[0];
+    const candidates = [locale, language, DEFAULT_LOCALE];
+
+    for (const candidate of candidates) {
+      const message =
+        this.customMessages.get(candidate)?.[key] ??
+        (BUNDLED_MESSAGES as Record<string, Messages>)[candidate]?.[key];
+      if (message !== undefined) {
+        return message;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Format a message in the reader's language
+   * @param key - Message key
+   * @param params - Values for the placeholders
+   * @param locale - Locale of the reader
+   * @returns The formatted message, or the key if no catalog has it
+   */
+  static format(
+    key: MessageKey | string,
+    params?: MessageParams,
+    locale?: string
+  ): string {
+    return this.interpolate(this.getMessage(key, locale) ?? key, params);
+  }
+
+  /**
+   * Fill the {name} placeholders of a template. Unknown placeholders are kept.
+   * @param template - Message template
+   * @param params - Values for the placeholders
+   * @returns The filled-in message
+   */
+  static interpolate(template: string, params: MessageParams = {}): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }
+
+  /**
+   * Format a number with the locale's decimal separator
+   * @param value - Number to format
+   * @param locale - Locale of the reader
+   * @param fractionDigits - Digits after the decimal separator
+   * @returns The formatted number
+   */
+  static formatNumber(
+    value: number,
+    locale: string = DEFAULT_LOCALE,
+    fractionDigits = 2
+  ): string {
+    try {
+      return new Intl.NumberFormat(locale, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+        useGrouping: false,
+      }).format(value);
+    } catch {
+      // Unknown locale
+      return value.toFixed(fractionDigits);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Tests for message catalogs and localized explanations
+ */
+
+import { describe, test, expect, afterEach } from "vitest";
+import { MessageCatalog } from "../MessageCatalog";
+import { VolleyballRulesEngine } from "../../VolleyballRulesEngine";
+import { PositionHelpers } from "../../utils/PositionHelpers";
+import { LazyViolationAnalyzer } from "../../validation/LazyViolationAnalyzer";
+import type { PlayerState, RotationSlot } from "../../types/PlayerState";
+
+/**
+ * Helper function to create a test player
+ */
+function createPlayer(
+  slot: RotationSlot,
+  x: number,
+  y: number,
+  isServer: boolean = false
+): PlayerState {
+  return {
+    id: `player-${slot}`,
+    displayName: `Player ${slot}`,
+    role: "Unknown",
+    slot,
+    x,
+    y,
+    isServer,
+  };
+}
+
+/**
+ * Left Front has crossed to the right of Middle Front
+ */
+function createRowOrderFault(): PlayerState[] {
+  return [
+    createPlayer(1, 7.0, 6.0, true),
+    createPlayer(2, 7.5, 3.0),
+    createPlayer(3, 4.0, 3.0),
+    createPlayer(4, 5.0, 3.0),
+    createPlayer(5, 2.0, 6.0),
+    createPlayer(6, 4.5, 6.0),
+  ];
+}
+
+describe("MessageCatalog", () => {
+  afterEach(() => {
+    MessageCatalog.unregister("de");
+    MessageCatalog.unregister("es");
+  });
+
+  test("should fill in placeholders and keep unknown ones", () => {
+    expect(
+      MessageCatalog.interpolate("{player} in {slot}, {missing}", {
+        player: "Ana",
+        slot: 4,
+      })
+    ).toBe("Ana in 4, {missing}");
+  });
+
+  test("should fall back from region to language to English", () => {
+    expect(MessageCatalog.format("slot.1", undefined, "pt-BR")).toBe(
+      MessageCatalog.format("slot.1", undefined, "pt")
+    );
+    expect(MessageCatalog.format("slot.1", undefined, "de")).toBe("Right Back");
+    expect(MessageCatalog.format("no.such.key", undefined, "es")).toBe(
+      "no.such.key"
+    );
+  });
+
+  test("should prefer registered messages over bundled ones", () => {
+    MessageCatalog.register("de", { "slot.1": "Hinten rechts" });
+    MessageCatalog.register("es", { "slot.1": "Zaguero 1" });
+
+    expect(MessageCatalog.has("de")).toBe(true);
+    expect(MessageCatalog.list()).toEqual(["en", "es", "fr", "pt", "de"]);
+    expect(PositionHelpers.getSlotFullName(1, "de")).toBe("Hinten rechts");
+    expect(PositionHelpers.getSlotFullName(1, "es")).toBe("Zaguero 1");
+    expect(PositionHelpers.getSlotFullName(2, "es")).toBe("Delantero derecho");
+  });
+
+  test("should format numbers with the locale's decimal separator", () => {
+    expect(MessageCatalog.formatNumber(2.345, "en")).toBe("2.35");
+    expect(MessageCatalog.formatNumber(2.345, "fr")).toBe("2,35");
+    expect(MessageCatalog.formatNumber(1234.5, "es", 1)).toBe("1234,5");
+  });
+});
+
+describe("localized explanations", () => {
+  test("should explain a violation in Spanish", () => {
+    const lineup = createRowOrderFault();
+    const { violations } = VolleyballRulesEngine.validateLineup(lineup);
+
+    const explanation = VolleyballRulesEngine.explainViolation(
+      violations[0],
+      lineup,
+      undefined,
+      "es"
+    );
+
+    expect(explanation).toBe(
+      "Falta de orden en la fila: Player 4 (LF) en x=5,00 debe estar a la izquierda de Player 3 (MF) en x=4,00. Las posiciones actuales no respetan el orden de izquierda a derecha."
+    );
+  });
+
+  test("should suggest fixes in the requested locale", () => {
+    LazyViolationAnalyzer.clearCache();
+    const lineup = createRowOrderFault();
+
+    const [english] =
+      LazyViolationAnalyzer.createLazyOverlapResult(lineup).violations;
+    const [spanish] = LazyViolationAnalyzer.createLazyOverlapResult(
+      lineup,
+      "es"
+    ).violations;
+
+    expect(english.getSuggestedFix()).toBe(
+      "Increase separation between Middle Front and Left Front to at least 3cm."
+    );
+    expect(spanish.getSuggestedFix()).toBe(
+      "Aumenta la separación entre Delantero centro y Delantero izquierdo a por lo menos 3 cm."
+    );
+  });
+});
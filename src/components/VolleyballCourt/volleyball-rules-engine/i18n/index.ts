@@ -0,0 +1,11 @@
+/**
+ * Localization module exports
+ */
+
+export {
+  MessageCatalog,
+  BUNDLED_MESSAGES,
+  DEFAULT_LOCALE,
+} from "./MessageCatalog";
+export type { Messages, MessageParams, BundledLocale } from "./MessageCatalog";
+export type { MessageKey } from "./messages/en";
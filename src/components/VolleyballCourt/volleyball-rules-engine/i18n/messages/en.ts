@@ -0,0 +1,49 @@
+/**
+ * English messages for volleyball rules engine
+ */
+
+export const EN_MESSAGES = {
+  // Full position names by rotation slot
+  "slot.1": "Right Back",
+  "slot.2": "Right Front",
+  "slot.3": "Middle Front",
+  "slot.4": "Left Front",
+  "slot.5": "Left Back",
+  "slot.6": "Middle Back",
+
+  // Violation explanations
+  "violation.rowOrder":
+    "Row order violation: {player1} ({position1}) at x={x1} must be left of {player2} ({position2}) at x={x2}. Current positions violate the left-to-right ordering rule.",
+  "violation.frontBack":
+    "Front/back violation: {frontPlayer} ({frontPosition}) at y={frontY} must be in front of {backPlayer} ({backPosition}) at y={backY}. Front row players must have smaller y-coordinates than their back row counterparts.",
+  "violation.multipleServers":
+    "Multiple servers detected: {servers}. Only one player may be designated as the server.",
+  "violation.slot": "Slot {slot}",
+  "violation.liberoServing":
+    "Libero violation: {player} ({position}) is designated as the server. The libero may only serve when the active rule set allows it.",
+  "violation.liberoFrontRow":
+    "Libero violation: {player} is in {position}. The libero may only replace back row players and must leave the court before rotating to the front row.",
+  "violation.unknown": "Unknown violation: {message}",
+
+  // Suggested fixes
+  "fix.rowOrder": "Adjust player positions to maintain proper row order.",
+  "fix.rowOrderMove":
+    "Move {position1} ({player1}) to the left of {position2} ({player2}).",
+  "fix.rowOrderSeparate":
+    "Increase separation between {position1} and {position2} to at least 3cm.",
+  "fix.frontBack":
+    "Adjust player positions to maintain proper front/back order.",
+  "fix.frontBackMove":
+    "Move {frontPosition} ({frontPlayer}) closer to the net than {backPosition} ({backPlayer}).",
+  "fix.frontBackSeparate":
+    "Increase front/back separation between {frontPosition} and {backPosition} to at least 3cm.",
+  "fix.multipleServers": "Designate only one player as the server.",
+  "fix.invalidLineup":
+    "Ensure exactly 6 players with unique rotation slots (1-6).",
+  "fix.liberoFrontRow":
+    "Swap the libero out for the player they replaced before that player rotates to the front row.",
+  "fix.liberoServing":
+    "Bring the replaced player back in to serve, or enable libero serving for this rule set.",
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
@@ -0,0 +1,47 @@
+/**
+ * Spanish messages for volleyball rules engine
+ */
+
+import type { MessageKey } from "./en";
+
+export const ES_MESSAGES: Record<MessageKey, string> = {
+  "slot.1": "Zaguero derecho",
+  "slot.2": "Delantero derecho",
+  "slot.3": "Delantero centro",
+  "slot.4": "Delantero izquierdo",
+  "slot.5": "Zaguero izquierdo",
+  "slot.6": "Zaguero centro",
+
+  "violation.rowOrder":
+    "Falta de orden en la fila: {player1} ({position1}) en x={x1} debe estar a la izquierda de {player2} ({position2}) en x={x2}. Las posiciones actuales no respetan el orden de izquierda a derecha.",
+  "violation.frontBack":
+    "Falta delantero/zaguero: {frontPlayer} ({frontPosition}) en y={frontY} debe estar delante de {backPlayer} ({backPosition}) en y={backY}. Los delanteros deben estar más cerca de la red que sus zagueros.",
+  "violation.multipleServers":
+    "Se detectaron varios sacadores: {servers}. Solo un jugador puede ser el sacador.",
+  "violation.slot": "Posición {slot}",
+  "violation.liberoServing":
+    "Falta del líbero: {player} ({position}) está designado como sacador. El líbero solo puede sacar cuando el reglamento activo lo permite.",
+  "violation.liberoFrontRow":
+    "Falta del líbero: {player} está en {position}. El líbero solo puede reemplazar a zagueros y debe salir de la cancha antes de rotar a la línea delantera.",
+  "violation.unknown": "Falta desconocida: {message}",
+
+  "fix.rowOrder":
+    "Ajusta las posiciones para mantener el orden correcto en la fila.",
+  "fix.rowOrderMove":
+    "Mueve a {position1} ({player1}) a la izquierda de {position2} ({player2}).",
+  "fix.rowOrderSeparate":
+    "Aumenta la separación entre {position1} y {position2} a por lo menos 3 cm.",
+  "fix.frontBack":
+    "Ajusta las posiciones para mantener el orden entre delanteros y zagueros.",
+  "fix.frontBackMove":
+    "Acerca a {frontPosition} ({frontPlayer}) a la red más que {backPosition} ({backPlayer}).",
+  "fix.frontBackSeparate":
+    "Aumenta la separación entre {frontPosition} y {backPosition} a por lo menos 3 cm.",
+  "fix.multipleServers": "Designa a un solo jugador como sacador.",
+  "fix.invalidLineup":
+    "Asegúrate de tener exactamente 6 jugadores con posiciones de rotación únicas (1-6).",
+  "fix.liberoFrontRow":
+    "Cambia al líbero por el jugador que reemplazó antes de que ese jugador rote a la línea delantera.",
+  "fix.liberoServing":
+    "Haz entrar de nuevo al jugador reemplazado para sacar, o permite el saque del líbero en este reglamento.",
+};
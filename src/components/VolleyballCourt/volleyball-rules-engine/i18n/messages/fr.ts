@@ -0,0 +1,46 @@
+/**
+ * French messages for volleyball rules engine
+ */
+
+import type { MessageKey } from "./en";
+
+export const FR_MESSAGES: Record<MessageKey, string> = {
+  "slot.1": "Arrière droit",
+  "slot.2": "Avant droit",
+  "slot.3": "Avant centre",
+  "slot.4": "Avant gauche",
+  "slot.5": "Arrière gauche",
+  "slot.6": "Arrière centre",
+
+  "violation.rowOrder":
+    "Faute d'ordre dans la ligne : {player1} ({position1}) à x={x1} doit être à gauche de {player2} ({position2}) à x={x2}. Les positions actuelles ne respectent pas l'ordre de gauche à droite.",
+  "violation.frontBack":
+    "Faute avant/arrière : {frontPlayer} ({frontPosition}) à y={frontY} doit être devant {backPlayer} ({backPosition}) à y={backY}. Les joueurs avant doivent être plus près du filet que leurs arrières.",
+  "violation.multipleServers":
+    "Plusieurs serveurs détectés : {servers}. Un seul joueur peut être désigné comme serveur.",
+  "violation.slot": "Poste {slot}",
+  "violation.liberoServing":
+    "Faute du libéro : {player} ({position}) est désigné comme serveur. Le libéro ne peut servir que si le règlement actif le permet.",
+  "violation.liberoFrontRow":
+    "Faute du libéro : {player} est en {position}. Le libéro ne peut remplacer que des arrières et doit quitter le terrain avant de passer à l'avant.",
+  "violation.unknown": "Faute inconnue : {message}",
+
+  "fix.rowOrder": "Ajustez les positions pour respecter l'ordre dans la ligne.",
+  "fix.rowOrderMove":
+    "Déplacez {position1} ({player1}) à gauche de {position2} ({player2}).",
+  "fix.rowOrderSeparate":
+    "Augmentez l'écart entre {position1} et {position2} à au moins 3 cm.",
+  "fix.frontBack":
+    "Ajustez les positions pour respecter l'ordre avant/arrière.",
+  "fix.frontBackMove":
+    "Rapprochez {frontPosition} ({frontPlayer}) du filet par rapport à {backPosition} ({backPlayer}).",
+  "fix.frontBackSeparate":
+    "Augmentez l'écart avant/arrière entre {frontPosition} et {backPosition} à au moins 3 cm.",
+  "fix.multipleServers": "Désignez un seul joueur comme serveur.",
+  "fix.invalidLineup":
+    "Vérifiez qu'il y a exactement 6 joueurs avec des postes de rotation uniques (1-6).",
+  "fix.liberoFrontRow":
+    "Faites sortir le libéro au profit du joueur remplacé avant que celui-ci ne passe à l'avant.",
+  "fix.liberoServing":
+    "Faites revenir le joueur remplacé pour servir, ou autorisez le service du libéro dans ce règlement.",
+};
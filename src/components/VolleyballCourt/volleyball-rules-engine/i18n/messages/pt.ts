@@ -0,0 +1,46 @@
+/**
+ * Portuguese messages for volleyball rules engine
+ */
+
+import type { MessageKey } from "./en";
+
+export const PT_MESSAGES: Record<MessageKey, string> = {
+  "slot.1": "Defesa direita",
+  "slot.2": "Ataque direita",
+  "slot.3": "Ataque centro",
+  "slot.4": "Ataque esquerda",
+  "slot.5": "Defesa esquerda",
+  "slot.6": "Defesa centro",
+
+  "violation.rowOrder":
+    "Falta de ordem na linha: {player1} ({position1}) em x={x1} deve estar à esquerda de {player2} ({position2}) em x={x2}. As posições atuais não respeitam a ordem da esquerda para a direita.",
+  "violation.frontBack":
+    "Falta de ataque/defesa: {frontPlayer} ({frontPosition}) em y={frontY} deve estar à frente de {backPlayer} ({backPosition}) em y={backY}. Os jogadores de ataque devem estar mais perto da rede que os de defesa correspondentes.",
+  "violation.multipleServers":
+    "Vários sacadores detectados: {servers}. Apenas um jogador pode ser o sacador.",
+  "violation.slot": "Posição {slot}",
+  "violation.liberoServing":
+    "Falta do líbero: {player} ({position}) está marcado como sacador. O líbero só pode sacar quando o regulamento ativo permitir.",
+  "violation.liberoFrontRow":
+    "Falta do líbero: {player} está em {position}. O líbero só pode substituir jogadores de defesa e deve sair da quadra antes de rodar para o ataque.",
+  "violation.unknown": "Falta desconhecida: {message}",
+
+  "fix.rowOrder": "Ajuste as posições para manter a ordem correta na linha.",
+  "fix.rowOrderMove":
+    "Mova {position1} ({player1}) para a esquerda de {position2} ({player2}).",
+  "fix.rowOrderSeparate":
+    "Aumente a distância entre {position1} e {position2} para pelo menos 3 cm.",
+  "fix.frontBack":
+    "Ajuste as posições para manter a ordem entre ataque e defesa.",
+  "fix.frontBackMove":
+    "Coloque {frontPosition} ({frontPlayer}) mais perto da rede que {backPosition} ({backPlayer}).",
+  "fix.frontBackSeparate":
+    "Aumente a distância entre {frontPosition} e {backPosition} para pelo menos 3 cm.",
+  "fix.multipleServers": "Marque apenas um jogador como sacador.",
+  "fix.invalidLineup":
+    "Garanta exatamente 6 jogadores com posições de rodízio únicas (1-6).",
+  "fix.liberoFrontRow":
+    "Troque o líbero pelo jogador que ele substituiu antes que esse jogador rode para o ataque.",
+  "fix.liberoServing":
+    "Coloque de volta o jogador substituído para sacar, ou permita o saque do líbero neste regulamento.",
+};
@@ -51,11 +51,22 @@ export type {
   ViolationCode,
   Violation,
   OverlapResult,
+  OverlapCheckOptions,
   PositionBounds,
+  LineupFixOptions,
+  PlayerDisplacement,
+  LineupFix,
 } from "./types/ValidationResult";
 
 export type { CoordinateBounds } from "./types/CoordinateSystem";
 
+export type {
+  RuleSet,
+  RuleSetName,
+  RuleSetCheck,
+  OverlapInterpretation,
+} from "./types/RuleSet";
+
 // ============================================================================
 // CONSTANTS AND CONFIGURATION
 // ============================================================================
@@ -65,6 +76,7 @@ export {
   SCREEN_COORDINATE_SYSTEM,
   COURT_BOUNDS,
   EXTENDED_BOUNDS,
+  FULL_COURT_BOUNDS,
 } from "./types/CoordinateSystem";
 
 // ============================================================================
@@ -85,10 +97,13 @@ export {
   isValidPositionBounds,
 } from "./types/ValidationResult";
 
+export { isValidRuleSet } from "./types/RuleSet";
+
 export {
   isWithinCourtBounds,
   isWithinExtendedBounds,
   isInServiceZone,
+  mirrorAcrossNet,
   isValidPosition,
   isValidCoordinateBounds,
 } from "./types/CoordinateSystem";
@@ -111,6 +126,11 @@ export {
 // Core validation and constraint engines
 export { OverlapValidator } from "./validation/OverlapValidator";
 export { ConstraintCalculator } from "./validation/ConstraintCalculator";
+export { LineupSolver } from "./validation/LineupSolver";
+
+// Rule set profiles
+export type { ResolvedRuleOptions } from "./validation/RuleSetRegistry";
+export { RuleSetRegistry, RULE_SETS } from "./validation/RuleSetRegistry";
 
 // Utility classes
 export type { Point } from "./utils/CoordinateTransformer";
@@ -118,6 +138,15 @@ export { CoordinateTransformer } from "./utils/CoordinateTransformer";
 export { ToleranceUtils } from "./utils/ToleranceUtils";
 export { NeighborCalculator } from "./utils/NeighborCalculator";
 
+// Message catalogs for localized explanations
+export type {
+  Messages,
+  MessageParams,
+  MessageKey,
+  BundledLocale,
+} from "./i18n";
+export { MessageCatalog, BUNDLED_MESSAGES, DEFAULT_LOCALE } from "./i18n";
+
 // Position helpers
 export type {
   Column,
@@ -62,7 +62,9 @@ declare module "./volleyball-rules-engine" {
     | "ROW_ORDER" // Left-to-right ordering violation within a row
     | "FRONT_BACK" // Front player behind back counterpart
     | "MULTIPLE_SERVERS" // More than one server designated
-    | "INVALID_LINEUP"; // Structural lineup issues
+    | "INVALID_LINEUP" // Structural lineup issues
+    | "LIBERO_FRONT_ROW" // Libero in a front row slot
+    | "LIBERO_SERVING"; // Libero serving where not permitted
 
   /**
    * Individual violation with details
@@ -88,6 +90,61 @@ declare module "./volleyball-rules-engine" {
     violations: Violation[];
   }
 
+  /**
+   * Options controlling optional rules during validation
+   */
+  export interface OverlapCheckOptions {
+    /** Rule set profile supplying the defaults below */
+    ruleSet?: RuleSetName | RuleSet;
+    /** Minimum separation in meters for overlap comparisons */
+    tolerance?: number;
+    /** Enforce libero restrictions for players with role "L" */
+    enforceLiberoRules?: boolean;
+    /** Whether a libero may serve when libero rules are enforced */
+    allowLiberoServe?: boolean;
+  }
+
+  /**
+   * Built-in rule set profile names
+   */
+  export type RuleSetName = "FIVB" | "NCAA" | "NFHS" | "USAV_YOUTH";
+
+  /**
+   * How player positions are judged for overlap
+   */
+  export type OverlapInterpretation = "foot-contact" | "position-of-feet";
+
+  /**
+   * Additional check contributed by a rule set
+   */
+  export type RuleSetCheck = (lineup: PlayerState[]) => Violation[];
+
+  /**
+   * Rulebook profile controlling validation
+   */
+  export interface RuleSet {
+    /** Unique identifier used to select the rule set */
+    name: string;
+    /** Display label */
+    label: string;
+    /** Short description of the rulebook */
+    description: string;
+    /** How player positions are judged for overlap */
+    overlapInterpretation: OverlapInterpretation;
+    /** Minimum separation in meters for overlap comparisons */
+    tolerance: number;
+    /** Whether libero restrictions are enforced */
+    enforceLiberoRules: boolean;
+    /** Whether the libero may serve */
+    allowLiberoServe: boolean;
+    /** Maximum team substitutions per set (null for unlimited) */
+    maxSubstitutionsPerSet: number | null;
+    /** Additional checks run after the standard overlap checks */
+    checks?: RuleSetCheck[];
+    /** Rulebook-specific notes appended to violation explanations */
+    explanations?: Partial<Record<ViolationCode, string>>;
+  }
+
   /**
    * Position bounds for constraint-based movement
    */
@@ -207,22 +264,28 @@ declare module "./volleyball-rules-engine" {
    */
   export class VolleyballRulesEngine {
     // Core validation methods
-    static validateLineup(lineup: PlayerState[]): OverlapResult;
+    static validateLineup(
+      lineup: PlayerState[],
+      options?: OverlapCheckOptions
+    ): OverlapResult;
     static isValidPosition(
       slot: RotationSlot,
       position: Point,
-      lineup: PlayerState[]
+      lineup: PlayerState[],
+      ruleSet?: RuleSetName | RuleSet
     ): boolean;
 
     // Constraint calculation methods
     static getPlayerConstraints(
       slot: RotationSlot,
-      lineup: PlayerState[]
+      lineup: PlayerState[],
+      ruleSet?: RuleSetName | RuleSet
     ): PositionBounds;
     static snapToValidPosition(
       slot: RotationSlot,
       targetPosition: Point,
-      lineup: PlayerState[]
+      lineup: PlayerState[],
+      ruleSet?: RuleSetName | RuleSet
     ): Point;
 
     // Position labeling methods
@@ -238,9 +301,15 @@ declare module "./volleyball-rules-engine" {
     // Error explanation
     static explainViolation(
       violation: Violation,
-      lineup: PlayerState[]
+      lineup: PlayerState[],
+      ruleSet?: RuleSetName | RuleSet
     ): string;
 
+    // Rule sets
+    static getRuleSet(name: RuleSetName | string): RuleSet | undefined;
+    static listRuleSets(): RuleSet[];
+    static registerRuleSet(ruleSet: RuleSet): void;
+
     // Constants
     static COORDINATE_SYSTEM: typeof COORDINATE_SYSTEM;
   }
@@ -310,7 +379,14 @@ declare module "./volleyball-rules-engine" {
    * Core overlap validation engine
    */
   export class OverlapValidator {
-    static checkOverlap(lineup: PlayerState[]): OverlapResult;
+    static checkOverlap(
+      lineup: PlayerState[],
+      options?: OverlapCheckOptions
+    ): OverlapResult;
+    static validateLiberoRules(
+      lineup: PlayerState[],
+      options?: OverlapCheckOptions
+    ): Violation[];
   }
 
   /**
@@ -320,22 +396,42 @@ declare module "./volleyball-rules-engine" {
     static calculateValidBounds(
       draggedSlot: RotationSlot,
       currentPositions: Map<RotationSlot, PlayerState>,
-      isServer?: boolean
+      isServer?: boolean,
+      ruleSet?: RuleSetName | RuleSet
     ): PositionBounds;
     static isPositionValid(
       slot: RotationSlot,
       testPosition: Point,
       otherPositions: Map<RotationSlot, PlayerState>,
-      isServer?: boolean
+      isServer?: boolean,
+      ruleSet?: RuleSetName | RuleSet
     ): boolean;
     static snapToValidPosition(
       slot: RotationSlot,
       targetPosition: Point,
       otherPositions: Map<RotationSlot, PlayerState>,
-      isServer?: boolean
+      isServer?: boolean,
+      ruleSet?: RuleSetName | RuleSet
     ): Point;
   }
 
+  /**
+   * Registry of rule set profiles
+   */
+  export class RuleSetRegistry {
+    static register(ruleSet: RuleSet): void;
+    static unregister(name: string): boolean;
+    static get(name: string): RuleSet | undefined;
+    static has(name: string): boolean;
+    static list(): RuleSet[];
+    static resolve(ruleSet?: RuleSetName | RuleSet | string): RuleSet | undefined;
+  }
+
+  /**
+   * Built-in rule set profiles
+   */
+  export const RULE_SETS: Record<RuleSetName, RuleSet>;
+
   // ============================================================================
   // PERFORMANCE OPTIMIZATION CLASSES
   // ============================================================================
@@ -389,6 +485,10 @@ declare module "./volleyball-rules-engine" {
     readonly LEFT_SIDELINE_X: 0.0;
     readonly RIGHT_SIDELINE_X: 9.0;
     readonly TOLERANCE: 0.03;
+    readonly ATTACK_LINE_Y: 3.0;
+    readonly CENTER_LINE_X: 4.5;
+    readonly OPPONENT_ENDLINE_Y: -9.0;
+    readonly OPPONENT_SERVICE_ZONE_END: -11.0;
   };
 
   /**
@@ -404,6 +504,7 @@ declare module "./volleyball-rules-engine" {
    */
   export const COURT_BOUNDS: CoordinateBounds;
   export const EXTENDED_BOUNDS: CoordinateBounds;
+  export const FULL_COURT_BOUNDS: CoordinateBounds;
 
   // ============================================================================
   // TYPE GUARDS AND VALIDATION FUNCTIONS
@@ -421,6 +522,10 @@ declare module "./volleyball-rules-engine" {
   export function isWithinCourtBounds(x: number, y: number): boolean;
   export function isWithinExtendedBounds(x: number, y: number): boolean;
   export function isInServiceZone(y: number): boolean;
+  export function mirrorAcrossNet(
+    x: number,
+    y: number
+  ): { x: number; y: number };
   export function isValidPosition(
     x: number,
     y: number,
@@ -8,6 +8,7 @@
  * - X-axis: 0 (left sideline) to 9.0 (right sideline) meters
  * - Y-axis: 0 (net) to 9.0 (endline) meters, service zone extends to 11.0 meters
  * - Origin (0,0) is at the intersection of left sideline and net
+ * - The opponent half mirrors ours across the net, at negative Y
  */
 export const COORDINATE_SYSTEM = {
   /** Court width in meters */
@@ -42,6 +43,12 @@ export const COORDINATE_SYSTEM = {
 
   /** Center line position on X-axis */
   CENTER_LINE_X: 4.5,
+
+  /** Opponent endline position on Y-axis */
+  OPPONENT_ENDLINE_Y: -9.0,
+
+  /** Opponent service zone end (2 meters behind their endline) */
+  OPPONENT_SERVICE_ZONE_END: -11.0,
 } as const;
 
 /**
@@ -93,6 +100,16 @@ export const EXTENDED_BOUNDS: CoordinateBounds = {
   maxY: COORDINATE_SYSTEM.SERVICE_ZONE_END,
 } as const;
 
+/**
+ * Full court bounds (both halves, including both service zones)
+ */
+export const FULL_COURT_BOUNDS: CoordinateBounds = {
+  minX: COORDINATE_SYSTEM.LEFT_SIDELINE_X,
+  maxX: COORDINATE_SYSTEM.RIGHT_SIDELINE_X,
+  minY: COORDINATE_SYSTEM.OPPONENT_SERVICE_ZONE_END,
+  maxY: COORDINATE_SYSTEM.SERVICE_ZONE_END,
+} as const;
+
 /**
  * Type guard to check if coordinates are within court bounds
  */
@@ -127,6 +144,20 @@ export function isInServiceZone(y: number): boolean {
   );
 }
 
+/**
+ * Convert a position on one half to the same spot seen from the other half.
+ * Teams face each other, so both axes are mirrored across the net.
+ */
+export function mirrorAcrossNet(
+  x: number,
+  y: number
+): { x: number; y: number } {
+  return {
+    x: COORDINATE_SYSTEM.RIGHT_SIDELINE_X - x,
+    y: COORDINATE_SYSTEM.NET_Y - y,
+  };
+}
+
 /**
  * Validate coordinates based on whether player is serving
  */
@@ -0,0 +1,86 @@
+/**
+ * Rule set definitions for volleyball rules engine
+ */
+
+import type { PlayerState } from "./PlayerState";
+import type { Violation, ViolationCode } from "./ValidationResult";
+
+/**
+ * Names of the built-in rule set profiles
+ */
+export type RuleSetName = "FIVB" | "NCAA" | "NFHS" | "USAV_YOUTH";
+
+/**
+ * How player positions are judged when checking overlap
+ * - foot-contact: only the part of a foot touching the floor counts
+ * - position-of-feet: the position of both feet is judged as a whole
+ */
+export type OverlapInterpretation = "foot-contact" | "position-of-feet";
+
+/**
+ * Additional check contributed by a rule set, run after the overlap checks
+ */
+export type RuleSetCheck = (lineup: PlayerState[]) => Violation[];
+
+/**
+ * A rulebook profile that controls how lineups are validated
+ */
+export interface RuleSet {
+  /** Unique identifier used to select the rule set */
+  name: string;
+
+  /** Display label (e.g. "NFHS (High School)") */
+  label: string;
+
+  /** Short description of the rulebook */
+  description: string;
+
+  /** How player positions are judged for overlap */
+  overlapInterpretation: OverlapInterpretation;
+
+  /** Minimum separation in meters required between players in overlap comparisons */
+  tolerance: number;
+
+  /** Whether libero restrictions are enforced */
+  enforceLiberoRules: boolean;
+
+  /** Whether the libero may serve */
+  allowLiberoServe: boolean;
+
+  /** Maximum team substitutions per set (null for unlimited) */
+  maxSubstitutionsPerSet: number | null;
+
+  /** Additional checks run after the standard overlap checks */
+  checks?: RuleSetCheck[];
+
+  /** Rulebook-specific notes appended to violation explanations */
+  explanations?: Partial<Record<ViolationCode, string>>;
+}
+
+/**
+ * Type guard to check if a value is a valid RuleSet
+ */
+export function isValidRuleSet(value: unknown): value is RuleSet {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const obj = value as Record<string, unknown>;
+
+  return (
+    typeof obj.name === "string" &&
+    obj.name.length > 0 &&
+    typeof obj.label === "string" &&
+    typeof obj.description === "string" &&
+    (obj.overlapInterpretation === "foot-contact" ||
+      obj.overlapInterpretation === "position-of-feet") &&
+    typeof obj.tolerance === "number" &&
+    obj.tolerance >= 0 &&
+    typeof obj.enforceLiberoRules === "boolean" &&
+    typeof obj.allowLiberoServe === "boolean" &&
+    (obj.maxSubstitutionsPerSet === null ||
+      typeof obj.maxSubstitutionsPerSet === "number") &&
+    (obj.checks === undefined || Array.isArray(obj.checks)) &&
+    (obj.explanations === undefined || typeof obj.explanations === "object")
+  );
+}
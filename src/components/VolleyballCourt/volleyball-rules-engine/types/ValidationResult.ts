@@ -2,7 +2,9 @@
  * Validation result interfaces for volleyball rules engine
  */
 
-import type { RotationSlot } from "./PlayerState";
+import type { PlayerState, RotationSlot } from "./PlayerState";
+import type { RuleSet, RuleSetName } from "./RuleSet";
+import type { CoordinateBounds } from "./CoordinateSystem";
 
 /**
  * Types of violations that can occur
@@ -11,7 +13,9 @@ export type ViolationCode =
   | "ROW_ORDER" // Players not in correct left-to-right order within row
   | "FRONT_BACK" // Front player positioned behind back counterpart
   | "MULTIPLE_SERVERS" // More than one player marked as server
-  | "INVALID_LINEUP"; // Invalid lineup composition (wrong number of players, etc.)
+  | "INVALID_LINEUP" // Invalid lineup composition (wrong number of players, etc.)
+  | "LIBERO_FRONT_ROW" // Libero occupying a front row slot (2, 3 or 4)
+  | "LIBERO_SERVING"; // Libero designated as server where the rule set forbids it
 
 /**
  * Individual violation details
@@ -41,6 +45,23 @@ export interface OverlapResult {
   violations: Violation[];
 }
 
+/**
+ * Options controlling which optional rules are enforced during validation
+ */
+export interface OverlapCheckOptions {
+  /** Rule set profile (by name or definition) supplying the defaults below */
+  ruleSet?: RuleSetName | RuleSet;
+
+  /** Minimum separation in meters for overlap comparisons (defaults to 3cm) */
+  tolerance?: number;
+
+  /** Enforce libero restrictions for players with role "L" (defaults to false) */
+  enforceLiberoRules?: boolean;
+
+  /** Whether a libero may serve when libero rules are enforced (defaults to false) */
+  allowLiberoServe?: boolean;
+}
+
 /**
  * Position bounds for drag constraints
  */
@@ -64,15 +85,74 @@ export interface PositionBounds {
   constraintReasons: string[];
 }
 
+/**
+ * Options for moving a lineup to the nearest legal one
+ */
+export interface LineupFixOptions {
+  /** Rule set profile supplying the overlap tolerance */
+  ruleSet?: RuleSetName | RuleSet;
+
+  /** Slots whose players must not be moved */
+  lockedSlots?: RotationSlot[];
+
+  /** Areas players must end up in, in addition to the court */
+  slotBounds?: Partial<Record<RotationSlot, CoordinateBounds>>;
+}
+
+/**
+ * How far one player is moved by a lineup fix
+ */
+export interface PlayerDisplacement {
+  /** Player ID */
+  id: string;
+
+  /** Rotation slot of the player */
+  slot: RotationSlot;
+
+  /** Position before the fix */
+  from: { x: number; y: number };
+
+  /** Position after the fix */
+  to: { x: number; y: number };
+
+  /** Distance moved in meters */
+  distance: number;
+}
+
+/**
+ * Nearest legal lineup found for an illegal one
+ */
+export interface LineupFix {
+  /** Whether every overlap constraint is met by the fixed lineup */
+  isLegal: boolean;
+
+  /** The lineup with moved players at their new positions */
+  lineup: PlayerState[];
+
+  /** Players that were moved (empty if the lineup was already legal) */
+  displacements: PlayerDisplacement[];
+
+  /** Sum of the distances moved, in meters */
+  totalDisplacement: number;
+
+  /** Slots whose constraints could not be met, e.g. between locked players */
+  unresolvedSlots: RotationSlot[];
+}
+
 /**
  * Type guard to check if a value is a valid ViolationCode
  */
 export function isValidViolationCode(value: unknown): value is ViolationCode {
   return (
     typeof value === "string" &&
-    ["ROW_ORDER", "FRONT_BACK", "MULTIPLE_SERVERS", "INVALID_LINEUP"].includes(
-      value
-    )
+    [
+      "ROW_ORDER",
+      "FRONT_BACK",
+      "MULTIPLE_SERVERS",
+      "INVALID_LINEUP",
+      "LIBERO_FRONT_ROW",
+      "LIBERO_SERVING",
+    ].includes(value)
   );
 }
 
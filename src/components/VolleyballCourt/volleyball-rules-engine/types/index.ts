@@ -9,17 +9,29 @@ export type {
   ViolationCode,
   Violation,
   OverlapResult,
+  OverlapCheckOptions,
   PositionBounds,
+  LineupFixOptions,
+  PlayerDisplacement,
+  LineupFix,
 } from "./ValidationResult";
 
 export type { CoordinateBounds } from "./CoordinateSystem";
 
+export type {
+  RuleSet,
+  RuleSetName,
+  RuleSetCheck,
+  OverlapInterpretation,
+} from "./RuleSet";
+
 // Re-export constants
 export {
   COORDINATE_SYSTEM,
   SCREEN_COORDINATE_SYSTEM,
   COURT_BOUNDS,
   EXTENDED_BOUNDS,
+  FULL_COURT_BOUNDS,
 } from "./CoordinateSystem";
 
 // Re-export type guards and validation functions
@@ -36,10 +48,13 @@ export {
   isValidPositionBounds,
 } from "./ValidationResult";
 
+export { isValidRuleSet } from "./RuleSet";
+
 export {
   isWithinCourtBounds,
   isWithinExtendedBounds,
   isInServiceZone,
+  mirrorAcrossNet,
   isValidPosition,
   isValidCoordinateBounds,
 } from "./CoordinateSystem";
@@ -5,6 +5,7 @@
 
 import type { PlayerState, RotationSlot } from "../types/PlayerState";
 import type { PositionBounds, OverlapResult } from "../types/ValidationResult";
+import { COORDINATE_SYSTEM } from "../types/CoordinateSystem";
 
 /**
  * Cache key for constraint calculations
@@ -13,6 +14,7 @@ interface ConstraintCacheKey {
   slot: RotationSlot;
   relevantPositions: string; // Serialized positions of relevant players
   isServer: boolean;
+  tolerance: number; // Overlap tolerance of the rule set
 }
 
 /**
@@ -69,15 +71,22 @@ export class PerformanceCache {
    * @param positions - Current positions of all players
    * @param isServer - Whether the player is the server
    * @param calculator - Function to calculate constraints if not cached
+   * @param tolerance - Overlap tolerance the calculator applies
    * @returns Cached or calculated position bounds
    */
   static getCachedConstraints(
     slot: RotationSlot,
     positions: Map<RotationSlot, PlayerState>,
     isServer: boolean,
-    calculator: () => PositionBounds
+    calculator: () => PositionBounds,
+    tolerance: number = COORDINATE_SYSTEM.TOLERANCE
   ): PositionBounds {
-    const cacheKey = this.generateConstraintCacheKey(slot, positions, isServer);
+    const cacheKey = this.generateConstraintCacheKey(
+      slot,
+      positions,
+      isServer,
+      tolerance
+    );
     const cached = this.constraintCache.get(cacheKey);
 
     if (cached && this.isEntryValid(cached)) {
@@ -239,12 +248,14 @@ export class PerformanceCache {
    * @param slot - Rotation slot
    * @param positions - Current positions
    * @param isServer - Server status
+   * @param tolerance - Overlap tolerance
    * @returns Cache key string
    */
   private static generateConstraintCacheKey(
     slot: RotationSlot,
     positions: Map<RotationSlot, PlayerState>,
-    isServer: boolean
+    isServer: boolean,
+    tolerance: number
   ): string {
     // Get only positions that affect this slot's constraints
     const relevantSlots = this.getRelevantSlots(slot);
@@ -260,7 +271,7 @@ export class PerformanceCache {
       .filter(Boolean)
       .join("|");
 
-    return `${slot}:${isServer}:${relevantPositions}`;
+    return `${slot}:${isServer}:${tolerance}:${relevantPositions}`;
   }
 
   /**
@@ -3,6 +3,7 @@
  */
 
 import type { RotationSlot, PlayerState } from "../types/PlayerState";
+import { MessageCatalog } from "../i18n/MessageCatalog";
 
 /**
  * Column position on the court
@@ -52,18 +53,6 @@ export class PositionHelpers {
     6: "MB", // Middle Back
   };
 
-  /**
-   * Slot to full position name mapping
-   */
-  private static readonly SLOT_FULL_NAMES: Record<RotationSlot, string> = {
-    1: "Right Back",
-    2: "Right Front",
-    3: "Middle Front",
-    4: "Left Front",
-    5: "Left Back",
-    6: "Middle Back",
-  };
-
   /**
    * Slot to column mapping
    */
@@ -96,10 +85,11 @@ export class PositionHelpers {
   }
 
   /**
-   * Get the full position name for a rotation slot (e.g., 1 -> "Right Back")
+   * Get the full position name for a rotation slot (e.g., 1 -> "Right Back"),
+   * in the given locale's language
    */
-  static getSlotFullName(slot: RotationSlot): string {
-    return this.SLOT_FULL_NAMES[slot];
+  static getSlotFullName(slot: RotationSlot, locale?: string): string {
+    return MessageCatalog.format(`slot.${slot}`, undefined, locale);
   }
 
   /**
@@ -119,11 +109,14 @@ export class PositionHelpers {
   /**
    * Get comprehensive position description for a slot
    */
-  static getPositionDescription(slot: RotationSlot): PositionDescription {
+  static getPositionDescription(
+    slot: RotationSlot,
+    locale?: string
+  ): PositionDescription {
     return {
       slot,
       label: this.getSlotLabel(slot),
-      fullName: this.getSlotFullName(slot),
+      fullName: this.getSlotFullName(slot, locale),
       column: this.getSlotColumn(slot),
       row: this.getSlotRow(slot),
       abbreviation: this.getSlotLabel(slot),
@@ -128,13 +128,15 @@ export class StateConverter {
    * Convert formation positions to volleyball player states
    * @param positions - Formation positions from existing system
    * @param rotationMap - Mapping from rotation slot to player ID
-   * @param serverSlot - Which slot is serving (1-6)
+   * @param serverSlot - Which slot is serving (1-6), or null when the other team serves
+   * @param roles - Optional mapping from player ID to role string
    * @returns Array of volleyball player states
    */
   static formationToVolleyballStates(
     positions: Record<string, PlayerPosition>,
     rotationMap: Record<number, string>,
-    serverSlot: RotationSlot = 1
+    serverSlot: RotationSlot | null = 1,
+    roles?: Record<string, string>
   ): VolleyballPlayerState[] {
     const states: VolleyballPlayerState[] = [];
 
@@ -152,7 +154,9 @@ export class StateConverter {
         states.push({
           id: playerId,
           displayName: playerId, // Use ID as display name if not available
-          role: "Unknown", // Default role
+          role: roles?.[playerId]
+            ? this.mapToVolleyballRole(roles[playerId])
+            : "Unknown", // Default role
           slot,
           x: vbCoords.x,
           y: vbCoords.y,
@@ -296,7 +300,7 @@ export class StateConverter {
       DS: "DS",
     };
 
-    return roleMap[roleString.toLowerCase()] || "Unknown";
+    return roleMap[roleString] || roleMap[roleString.toLowerCase()] || "Unknown";
   }
 
   /**
@@ -97,6 +97,21 @@ describe("StateConverter", () => {
       expect(states[1].isServer).toBe(false);
     });
 
+    it("should mark no server when the other team is serving", () => {
+      const positions: Record<string, PlayerPosition> = {
+        "1": { x: 500, y: 300, isCustom: true, lastModified: new Date() },
+        "2": { x: 500, y: 100, isCustom: true, lastModified: new Date() },
+      };
+
+      const states = StateConverter.formationToVolleyballStates(
+        positions,
+        { 1: "1", 2: "2" },
+        null
+      );
+
+      expect(states.some((state) => state.isServer)).toBe(false);
+    });
+
     it("should convert volleyball states back to formation positions", () => {
       const states = [
         {
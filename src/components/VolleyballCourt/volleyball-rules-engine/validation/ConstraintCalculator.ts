@@ -1,8 +1,10 @@
 import type { PlayerState, RotationSlot } from "../types/PlayerState";
 import type { PositionBounds } from "../types/ValidationResult";
+import type { RuleSet, RuleSetName } from "../types/RuleSet";
 import { NeighborCalculator } from "../utils/NeighborCalculator";
 import { ToleranceUtils } from "../utils/ToleranceUtils";
 import { COORDINATE_SYSTEM } from "../types/CoordinateSystem";
+import { RuleSetRegistry } from "./RuleSetRegistry";
 
 /**
  * Constraint information for a single constraint
@@ -23,12 +25,14 @@ export class ConstraintCalculator {
    * @param draggedSlot - The slot being dragged
    * @param currentPositions - Current positions of all players
    * @param isServer - Whether the dragged player is the server
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Position bounds with constraints applied
    */
   static calculateValidBounds(
     draggedSlot: RotationSlot,
     currentPositions: Map<RotationSlot, PlayerState>,
-    isServer: boolean = false
+    isServer: boolean = false,
+    ruleSet?: RuleSetName | RuleSet
   ): PositionBounds {
     // Server exemption - no overlap constraints apply
     if (isServer) {
@@ -56,7 +60,11 @@ export class ConstraintCalculator {
     const constraints = this.collectConstraints(draggedSlot, currentPositions);
 
     // Apply constraints to bounds
-    bounds = this.applyConstraints(bounds, constraints);
+    bounds = this.applyConstraints(
+      bounds,
+      constraints,
+      this.getTolerance(ruleSet)
+    );
 
     // Check for constraint conflicts
     bounds = this.detectConstraintConflicts(bounds);
@@ -70,13 +78,15 @@ export class ConstraintCalculator {
    * @param testPosition - Position to test
    * @param otherPositions - Positions of other players
    * @param isServer - Whether the player is the server
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns True if position is valid
    */
   static isPositionValid(
     slot: RotationSlot,
     testPosition: { x: number; y: number },
     otherPositions: Map<RotationSlot, PlayerState>,
-    isServer: boolean = false
+    isServer: boolean = false,
+    ruleSet?: RuleSetName | RuleSet
   ): boolean {
     // Check basic coordinate bounds
     const allowServiceZone = isServer;
@@ -91,7 +101,11 @@ export class ConstraintCalculator {
 
     // Check against all constraints
     const constraints = this.collectConstraints(slot, otherPositions);
-    return this.positionSatisfiesConstraints(testPosition, constraints);
+    return this.positionSatisfiesConstraints(
+      testPosition,
+      constraints,
+      this.getTolerance(ruleSet)
+    );
   }
 
   /**
@@ -100,21 +114,36 @@ export class ConstraintCalculator {
    * @param targetPosition - Desired position
    * @param otherPositions - Positions of other players
    * @param isServer - Whether the player is the server
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Nearest valid position
    */
   static snapToValidPosition(
     slot: RotationSlot,
     targetPosition: { x: number; y: number },
     otherPositions: Map<RotationSlot, PlayerState>,
-    isServer: boolean = false
+    isServer: boolean = false,
+    ruleSet?: RuleSetName | RuleSet
   ): { x: number; y: number } {
     // If already valid, return as-is
-    if (this.isPositionValid(slot, targetPosition, otherPositions, isServer)) {
+    if (
+      this.isPositionValid(
+        slot,
+        targetPosition,
+        otherPositions,
+        isServer,
+        ruleSet
+      )
+    ) {
       return targetPosition;
     }
 
     // Get valid bounds and clamp to them
-    const bounds = this.calculateValidBounds(slot, otherPositions, isServer);
+    const bounds = this.calculateValidBounds(
+      slot,
+      otherPositions,
+      isServer,
+      ruleSet
+    );
 
     return {
       x: ToleranceUtils.clampWithTolerance(
@@ -222,11 +251,13 @@ export class ConstraintCalculator {
    * Apply constraints to position bounds
    * @param bounds - Initial bounds
    * @param constraints - Constraints to apply
+   * @param tolerance - Minimum separation from the constraining player
    * @returns Updated bounds with constraints applied
    */
   private static applyConstraints(
     bounds: PositionBounds,
-    constraints: Constraint[]
+    constraints: Constraint[],
+    tolerance?: number
   ): PositionBounds {
     const updatedBounds = { ...bounds };
     const reasons: string[] = [...bounds.constraintReasons];
@@ -239,25 +270,25 @@ export class ConstraintCalculator {
         case "left":
           updatedBounds.minX = Math.max(
             updatedBounds.minX,
-            ToleranceUtils.applyTolerance(constraint.value, "max")
+            ToleranceUtils.applyTolerance(constraint.value, "max", tolerance)
           );
           break;
         case "right":
           updatedBounds.maxX = Math.min(
             updatedBounds.maxX,
-            ToleranceUtils.applyTolerance(constraint.value, "min")
+            ToleranceUtils.applyTolerance(constraint.value, "min", tolerance)
           );
           break;
         case "front":
           updatedBounds.minY = Math.max(
             updatedBounds.minY,
-            ToleranceUtils.applyTolerance(constraint.value, "max")
+            ToleranceUtils.applyTolerance(constraint.value, "max", tolerance)
           );
           break;
         case "back":
           updatedBounds.maxY = Math.min(
             updatedBounds.maxY,
-            ToleranceUtils.applyTolerance(constraint.value, "min")
+            ToleranceUtils.applyTolerance(constraint.value, "min", tolerance)
           );
           break;
       }
@@ -308,18 +339,20 @@ export class ConstraintCalculator {
    * Check if a position satisfies all constraints
    * @param position - Position to check
    * @param constraints - Constraints to check against
+   * @param tolerance - Minimum separation from the constraining player
    * @returns True if position satisfies all constraints
    */
   private static positionSatisfiesConstraints(
     position: { x: number; y: number },
-    constraints: Constraint[]
+    constraints: Constraint[],
+    tolerance?: number
   ): boolean {
     for (const constraint of constraints) {
       switch (constraint.type) {
         case "left":
           // Must be to the right of the constraint value (with tolerance)
           if (
-            position.x < ToleranceUtils.applyTolerance(constraint.value, "max")
+            position.x < ToleranceUtils.applyTolerance(constraint.value, "max", tolerance)
           ) {
             return false;
           }
@@ -327,7 +360,7 @@ export class ConstraintCalculator {
         case "right":
           // Must be to the left of the constraint value (with tolerance)
           if (
-            position.x > ToleranceUtils.applyTolerance(constraint.value, "min")
+            position.x > ToleranceUtils.applyTolerance(constraint.value, "min", tolerance)
           ) {
             return false;
           }
@@ -335,7 +368,7 @@ export class ConstraintCalculator {
         case "front":
           // Must be in front of the constraint value (with tolerance)
           if (
-            position.y < ToleranceUtils.applyTolerance(constraint.value, "max")
+            position.y < ToleranceUtils.applyTolerance(constraint.value, "max", tolerance)
           ) {
             return false;
           }
@@ -343,7 +376,7 @@ export class ConstraintCalculator {
         case "back":
           // Must be behind the constraint value (with tolerance)
           if (
-            position.y > ToleranceUtils.applyTolerance(constraint.value, "min")
+            position.y > ToleranceUtils.applyTolerance(constraint.value, "min", tolerance)
           ) {
             return false;
           }
@@ -421,6 +454,17 @@ export class ConstraintCalculator {
     return false;
   }
 
+  /**
+   * Get the overlap tolerance for a rule set
+   * @param ruleSet - Optional rule set name or definition
+   * @returns Tolerance in meters, or undefined for the default
+   */
+  private static getTolerance(
+    ruleSet?: RuleSetName | RuleSet
+  ): number | undefined {
+    return RuleSetRegistry.resolve(ruleSet)?.tolerance;
+  }
+
   /**
    * Get human-readable name for a rotation slot
    * @param slot - Rotation slot
@@ -7,6 +7,8 @@ import type { PlayerState, RotationSlot } from "../types/PlayerState";
 import type { OverlapResult, Violation } from "../types/ValidationResult";
 import { OverlapValidator } from "./OverlapValidator";
 import { PerformanceCache } from "../utils/PerformanceCache";
+import { PositionHelpers } from "../utils/PositionHelpers";
+import { MessageCatalog } from "../i18n/MessageCatalog";
 
 /**
  * Lazy violation with deferred detail calculation
@@ -58,9 +60,13 @@ export class LazyViolationAnalyzer {
   /**
    * Create a lazy overlap result that defers expensive calculations
    * @param lineup - Array of players to analyze
+   * @param locale - Locale of the suggested fixes (defaults to English)
    * @returns Lazy overlap result
    */
-  static createLazyOverlapResult(lineup: PlayerState[]): LazyOverlapResult {
+  static createLazyOverlapResult(
+    lineup: PlayerState[],
+    locale?: string
+  ): LazyOverlapResult {
     // Perform basic validation immediately (this is fast)
     const basicResult = PerformanceCache.getCachedValidation(lineup, () =>
       OverlapValidator.checkOverlap(lineup)
@@ -68,7 +74,7 @@ export class LazyViolationAnalyzer {
 
     // Create lazy violations
     const lazyViolations = basicResult.violations.map((violation) =>
-      this.createLazyViolation(violation, lineup)
+      this.createLazyViolation(violation, lineup, locale)
     );
 
     return {
@@ -109,17 +115,23 @@ export class LazyViolationAnalyzer {
    * Create a lazy violation with deferred detail calculations
    * @param violation - Base violation
    * @param lineup - Full lineup for context
+   * @param locale - Locale of the suggested fix
    * @returns Lazy violation
    */
   private static createLazyViolation(
     violation: Violation,
-    lineup: PlayerState[]
+    lineup: PlayerState[],
+    locale?: string
   ): LazyViolation {
     const violationId = this.getViolationId(violation, lineup);
     const positionMap = new Map<RotationSlot, PlayerState>();
     lineup.forEach((player) => positionMap.set(player.slot, player));
 
-    const calculators = this.createDetailCalculators(violation, positionMap);
+    const calculators = this.createDetailCalculators(
+      violation,
+      positionMap,
+      locale
+    );
 
     return {
       code: violation.code,
@@ -138,7 +150,7 @@ export class LazyViolationAnalyzer {
       ),
 
       getSuggestedFix: this.memoize(
-        `fix:${violationId}`,
+        `fix:${locale ?? ""}:${violationId}`,
         calculators.suggestedFix
       ),
 
@@ -153,11 +165,13 @@ export class LazyViolationAnalyzer {
    * Create detail calculation functions for a violation
    * @param violation - Base violation
    * @param positions - Position map
+   * @param locale - Locale of the suggested fix
    * @returns Detail calculators
    */
   private static createDetailCalculators(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): ViolationDetailCalculators {
     return {
       message: () => {
@@ -183,7 +197,7 @@ export class LazyViolationAnalyzer {
       },
 
       suggestedFix: () => {
-        return this.generateSuggestedFix(violation, positions);
+        return this.generateSuggestedFix(violation, positions, locale);
       },
 
       affectedPlayers: () => {
@@ -198,21 +212,27 @@ export class LazyViolationAnalyzer {
    * Generate suggested fix for a violation
    * @param violation - The violation to fix
    * @param positions - Position map
+   * @param locale - Locale of the suggestion
    * @returns Suggested fix string
    */
   private static generateSuggestedFix(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string | undefined {
     switch (violation.code) {
       case "ROW_ORDER":
-        return this.generateRowOrderFix(violation, positions);
+        return this.generateRowOrderFix(violation, positions, locale);
       case "FRONT_BACK":
-        return this.generateFrontBackFix(violation, positions);
+        return this.generateFrontBackFix(violation, positions, locale);
       case "MULTIPLE_SERVERS":
-        return "Designate only one player as the server.";
+        return MessageCatalog.format("fix.multipleServers", undefined, locale);
       case "INVALID_LINEUP":
-        return "Ensure exactly 6 players with unique rotation slots (1-6).";
+        return MessageCatalog.format("fix.invalidLineup", undefined, locale);
+      case "LIBERO_FRONT_ROW":
+        return MessageCatalog.format("fix.liberoFrontRow", undefined, locale);
+      case "LIBERO_SERVING":
+        return MessageCatalog.format("fix.liberoServing", undefined, locale);
       default:
         return undefined;
     }
@@ -222,72 +242,74 @@ export class LazyViolationAnalyzer {
    * Generate fix suggestion for row order violations
    * @param violation - Row order violation
    * @param positions - Position map
+   * @param locale - Locale of the suggestion
    * @returns Fix suggestion
    */
   private static generateRowOrderFix(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string {
     if (violation.slots.length !== 2)
-      return "Adjust player positions to maintain proper row order.";
+      return MessageCatalog.format("fix.rowOrder", undefined, locale);
 
     const [slot1, slot2] = violation.slots;
     const player1 = positions.get(slot1);
     const player2 = positions.get(slot2);
 
     if (!player1 || !player2)
-      return "Adjust player positions to maintain proper row order.";
-
-    const slotNames: Record<RotationSlot, string> = {
-      1: "Right Back",
-      2: "Right Front",
-      3: "Middle Front",
-      4: "Left Front",
-      5: "Left Back",
-      6: "Middle Back",
+      return MessageCatalog.format("fix.rowOrder", undefined, locale);
+
+    const params = {
+      position1: PositionHelpers.getSlotFullName(slot1, locale),
+      player1: player1.displayName,
+      position2: PositionHelpers.getSlotFullName(slot2, locale),
+      player2: player2.displayName,
     };
 
-    if (player1.x > player2.x) {
-      return `Move ${slotNames[slot1]} (${player1.displayName}) to the left of ${slotNames[slot2]} (${player2.displayName}).`;
-    } else {
-      return `Increase separation between ${slotNames[slot1]} and ${slotNames[slot2]} to at least 3cm.`;
-    }
+    return MessageCatalog.format(
+      player1.x > player2.x ? "fix.rowOrderMove" : "fix.rowOrderSeparate",
+      params,
+      locale
+    );
   }
 
   /**
    * Generate fix suggestion for front/back violations
    * @param violation - Front/back violation
    * @param positions - Position map
+   * @param locale - Locale of the suggestion
    * @returns Fix suggestion
    */
   private static generateFrontBackFix(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    locale?: string
   ): string {
     if (violation.slots.length !== 2)
-      return "Adjust player positions to maintain proper front/back order.";
+      return MessageCatalog.format("fix.frontBack", undefined, locale);
 
     const [frontSlot, backSlot] = violation.slots;
     const frontPlayer = positions.get(frontSlot);
     const backPlayer = positions.get(backSlot);
 
     if (!frontPlayer || !backPlayer)
-      return "Adjust player positions to maintain proper front/back order.";
-
-    const slotNames: Record<RotationSlot, string> = {
-      1: "Right Back",
-      2: "Right Front",
-      3: "Middle Front",
-      4: "Left Front",
-      5: "Left Back",
-      6: "Middle Back",
+      return MessageCatalog.format("fix.frontBack", undefined, locale);
+
+    const params = {
+      frontPosition: PositionHelpers.getSlotFullName(frontSlot, locale),
+      frontPlayer: frontPlayer.displayName,
+      backPosition: PositionHelpers.getSlotFullName(backSlot, locale),
+      backPlayer: backPlayer.displayName,
     };
 
-    if (frontPlayer.y >= backPlayer.y) {
-      return `Move ${slotNames[frontSlot]} (${frontPlayer.displayName}) closer to the net than ${slotNames[backSlot]} (${backPlayer.displayName}).`;
-    } else {
-      return `Increase front/back separation between ${slotNames[frontSlot]} and ${slotNames[backSlot]} to at least 3cm.`;
-    }
+    return MessageCatalog.format(
+      frontPlayer.y >= backPlayer.y
+        ? "fix.frontBackMove"
+        : "fix.frontBackSeparate",
+      params,
+      locale
+    );
   }
 
   /**
@@ -0,0 +1,259 @@
+/**
+ * Solver that moves an illegal lineup to the nearest legal one
+ *
+ * The overlap rules only compare x positions within a row and y positions
+ * within a column, so every row and column is solved on its own: its players
+ * are put back in order, at least the rule set's tolerance apart, with the
+ * least total movement (sum of squared distances). The server is exempt and
+ * never moved, locked players keep their place, and nobody is moved off court.
+ */
+
+import type { PlayerState, RotationSlot } from "../types/PlayerState";
+import type { CoordinateBounds } from "../types/CoordinateSystem";
+import type {
+  LineupFix,
+  LineupFixOptions,
+  PlayerDisplacement,
+} from "../types/ValidationResult";
+import { COORDINATE_SYSTEM } from "../types/CoordinateSystem";
+import { ToleranceUtils } from "../utils/ToleranceUtils";
+import { RuleSetRegistry } from "./RuleSetRegistry";
+
+/**
+ * One player along the axis being solved
+ */
+interface ChainItem {
+  value: number;
+  min: number;
+  max: number;
+}
+
+// Added to the tolerance so moved players are clearly apart (1cm)
+const SEPARATION_MARGIN = 0.01;
+
+// Rounding allowance when comparing solved values
+const EPSILON = 1e-9;
+
+/**
+ * Solver for the nearest legal lineup
+ */
+export class LineupSolver {
+  // Rows in left-to-right order, as the overlap rules compare x
+  private static readonly ROWS: readonly RotationSlot[][] = [
+    [4, 3, 2],
+    [5, 6, 1],
+  ];
+
+  // Columns in front-to-back order, as the overlap rules compare y
+  private static readonly COLUMNS: readonly RotationSlot[][] = [
+    [4, 5],
+    [3, 6],
+    [2, 1],
+  ];
+
+  /**
+   * Find the legal lineup that needs the least player movement
+   * @param lineup - Players with their current positions
+   * @param options - Rule set, locked slots and areas players must stay in
+   * @returns The fixed lineup and how far each player moves
+   */
+  static solve(
+    lineup: PlayerState[],
+    options: LineupFixOptions = {}
+  ): LineupFix {
+    const { tolerance } = RuleSetRegistry.resolveOptions({
+      ruleSet: options.ruleSet,
+    });
+    const locked = new Set(options.lockedSlots ?? []);
+    const players = new Map(lineup.map((player) => [player.slot, player]));
+    const solved = new Map(
+      lineup.map((player) => [player.slot, { x: player.x, y: player.y }])
+    );
+    const unresolved = new Set<RotationSlot>();
+
+    const solveGroups = (
+      groups: readonly RotationSlot[][],
+      axis: "x" | "y"
+    ) => {
+      groups.forEach((group) => {
+        const members = group
+          .map((slot) => players.get(slot))
+          .filter((player): player is PlayerState => player !== undefined);
+
+        // The server lifts the order of its whole row or column, leaving
+        // the others only their bounds
+        const chains = members.some((player) => player.isServer)
+          ? members
+              .filter((player) => !player.isServer)
+              .map((player) => [player])
+          : [members];
+
+        chains.forEach((chain) => {
+          const items = chain.map((player) =>
+            this.toChainItem(
+              player,
+              axis,
+              locked.has(player.slot),
+              options.slotBounds?.[player.slot]
+            )
+          );
+          if (this.isChainValid(items, tolerance)) return;
+
+          const values = this.solveChain(items, tolerance + SEPARATION_MARGIN);
+          if (!values) {
+            chain.forEach((player) => unresolved.add(player.slot));
+            return;
+          }
+          chain.forEach((player, index) => {
+            solved.get(player.slot)![axis] = values[index];
+          });
+        });
+      });
+    };
+
+    solveGroups(this.ROWS, "x");
+    solveGroups(this.COLUMNS, "y");
+
+    const displacements: PlayerDisplacement[] = lineup.flatMap((player) => {
+      const to = solved.get(player.slot)!;
+      const distance = Math.hypot(to.x - player.x, to.y - player.y);
+      return distance > EPSILON
+        ? [
+            {
+              id: player.id,
+              slot: player.slot,
+              from: { x: player.x, y: player.y },
+              to,
+              distance,
+            },
+          ]
+        : [];
+    });
+
+    return {
+      isLegal: unresolved.size === 0,
+      lineup: lineup.map((player) => ({
+        ...player,
+        ...solved.get(player.slot)!,
+      })),
+      displacements,
+      totalDisplacement: displacements.reduce(
+        (total, displacement) => total + displacement.distance,
+        0
+      ),
+      unresolvedSlots: Array.from(unresolved).sort((a, b) => a - b),
+    };
+  }
+
+  /**
+   * Where a player may be placed along one axis
+   * @param player - The player
+   * @param axis - Axis being solved
+   * @param isLocked - Whether the player must stay where they are
+   * @param bounds - Optional area the player must end up in
+   * @returns The player's position and allowed range
+   */
+  private static toChainItem(
+    player: PlayerState,
+    axis: "x" | "y",
+    isLocked: boolean,
+    bounds?: CoordinateBounds
+  ): ChainItem {
+    const value = player[axis];
+    if (isLocked) {
+      return { value, min: value, max: value };
+    }
+
+    const [courtMin, courtMax] =
+      axis === "x"
+        ? [
+            COORDINATE_SYSTEM.LEFT_SIDELINE_X,
+            COORDINATE_SYSTEM.RIGHT_SIDELINE_X,
+          ]
+        : [COORDINATE_SYSTEM.NET_Y, COORDINATE_SYSTEM.ENDLINE_Y];
+
+    // Players already off court are not pulled back on
+    const min = Math.min(courtMin, value);
+    const max = Math.max(courtMax, value);
+    if (!bounds) {
+      return { value, min, max };
+    }
+
+    return {
+      value,
+      min: Math.max(min, axis === "x" ? bounds.minX : bounds.minY),
+      max: Math.min(max, axis === "x" ? bounds.maxX : bounds.maxY),
+    };
+  }
+
+  /**
+   * Check if a row or column already meets the rules, so it is left alone
+   * @param items - Players in rule order
+   * @param tolerance - Minimum separation between neighbours
+   * @returns True if every player is in order and within their range
+   */
+  private static isChainValid(items: ChainItem[], tolerance: number): boolean {
+    return items.every(
+      (item, index) =>
+        item.value >= item.min - EPSILON &&
+        item.value <= item.max + EPSILON &&
+        (index === 0 ||
+          ToleranceUtils.isLess(items[index - 1].value, item.value, tolerance))
+    );
+  }
+
+  /**
+   * Place a row or column in order with the least squared movement
+   *
+   * Shifting each player back by their index times the gap turns the order
+   * into a plain "not decreasing" one. The best placement then groups
+   * neighbours that end up exactly a gap apart; with at most three players
+   * every grouping is tried.
+   * @param items - Players in rule order
+   * @param gap - Separation between neighbours
+   * @returns New positions in the same order, or null if none is possible
+   */
+  private static solveChain(items: ChainItem[], gap: number): number[] | null {
+    const shifted = items.map((item, index) => ({
+      value: item.value - index * gap,
+      min: item.min - index * gap,
+      max: item.max - index * gap,
+    }));
+
+    let best: { cost: number; values: number[] } | null = null;
+    for (let cuts = 0; cuts < 1 << (shifted.length - 1); cuts++) {
+      const values: number[] = [];
+      let start = 0;
+      let isFeasible = true;
+
+      for (let index = 0; index < shifted.length && isFeasible; index++) {
+        const isBlockEnd = index === shifted.length - 1 || cuts & (1 << index);
+        if (!isBlockEnd) continue;
+
+        const block = shifted.slice(start, index + 1);
+        const min = Math.max(...block.map((item) => item.min));
+        const max = Math.min(...block.map((item) => item.max));
+        const mean =
+          block.reduce((total, item) => total + item.value, 0) / block.length;
+        const value = Math.min(max, Math.max(min, mean));
+
+        isFeasible =
+          min <= max + EPSILON &&
+          (values.length === 0 || value >= values[values.length - 1] - EPSILON);
+        block.forEach(() => values.push(value));
+        start = index + 1;
+      }
+
+      if (!isFeasible) continue;
+      const cost = values.reduce(
+        (total, value, index) => total + (value - shifted[index].value) ** 2,
+        0
+      );
+      if (!best || cost < best.cost) {
+        best = { cost, values };
+      }
+    }
+
+    return best ? best.values.map((value, index) => value + index * gap) : null;
+  }
+}
@@ -5,7 +5,9 @@
 
 import type { PlayerState, RotationSlot } from "../types/PlayerState";
 import type { PositionBounds } from "../types/ValidationResult";
+import type { RuleSet, RuleSetName } from "../types/RuleSet";
 import { ConstraintCalculator } from "./ConstraintCalculator";
+import { RuleSetRegistry } from "./RuleSetRegistry";
 import { PerformanceCache } from "../utils/PerformanceCache";
 import { NeighborCalculator } from "../utils/NeighborCalculator";
 import { ToleranceUtils } from "../utils/ToleranceUtils";
@@ -57,16 +59,19 @@ export class OptimizedConstraintCalculator {
    * @param draggedSlot - The slot being dragged
    * @param currentPositions - Current positions of all players
    * @param isServer - Whether the dragged player is the server
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Optimized constraint result
    */
   static calculateOptimizedConstraints(
     draggedSlot: RotationSlot,
     currentPositions: Map<RotationSlot, PlayerState>,
-    isServer: boolean = false
+    isServer: boolean = false,
+    ruleSet?: RuleSetName | RuleSet
   ): OptimizedConstraintResult {
     const startTime = performance.now();
 
-    // Try to get from cache first
+    // Try to get from cache first, kept apart per tolerance
+    const { tolerance } = RuleSetRegistry.resolveOptions({ ruleSet });
     const cachedResult = PerformanceCache.getCachedConstraints(
       draggedSlot,
       currentPositions,
@@ -75,8 +80,10 @@ export class OptimizedConstraintCalculator {
         this.calculateConstraintsInternal(
           draggedSlot,
           currentPositions,
-          isServer
-        )
+          isServer,
+          ruleSet
+        ),
+      tolerance
     );
 
     const calculationTime = performance.now() - startTime;
@@ -138,11 +145,13 @@ export class OptimizedConstraintCalculator {
    * Batch calculate constraints for multiple slots
    * @param slots - Array of slots to calculate constraints for
    * @param positions - Current positions of all players
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Map of constraint results
    */
   static batchCalculateConstraints(
     slots: RotationSlot[],
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    ruleSet?: RuleSetName | RuleSet
   ): Map<RotationSlot, OptimizedConstraintResult> {
     const results = new Map<RotationSlot, OptimizedConstraintResult>();
 
@@ -155,7 +164,8 @@ export class OptimizedConstraintCalculator {
         const result = this.calculateOptimizedConstraints(
           slot,
           positions,
-          player.isServer
+          player.isServer,
+          ruleSet
         );
         results.set(slot, result);
       }
@@ -282,14 +292,21 @@ export class OptimizedConstraintCalculator {
    * @param slot - Rotation slot
    * @param positions - Player positions
    * @param isServer - Server status
+   * @param ruleSet - Optional rule set supplying the overlap tolerance
    * @returns Position bounds
    */
   private static calculateConstraintsInternal(
     slot: RotationSlot,
     positions: Map<RotationSlot, PlayerState>,
-    isServer: boolean
+    isServer: boolean,
+    ruleSet?: RuleSetName | RuleSet
   ): PositionBounds {
-    return ConstraintCalculator.calculateValidBounds(slot, positions, isServer);
+    return ConstraintCalculator.calculateValidBounds(
+      slot,
+      positions,
+      isServer,
+      ruleSet
+    );
   }
 
   /**
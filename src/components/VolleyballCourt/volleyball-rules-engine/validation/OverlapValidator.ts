@@ -6,12 +6,22 @@
  * - Back row order: LB < MB < RB (left to right)
  * - Front/back order: Front players must be in front of back counterparts
  * - Server exemption: Server is exempt from overlap rules
+ * - Libero (opt-in): May not occupy a front row slot, and may only serve when allowed
+ *
+ * Tolerances, libero rules, extra checks and explanation notes can be supplied
+ * by a rule set profile (see RuleSetRegistry).
  */
 
 import type { PlayerState, RotationSlot } from "../types/PlayerState";
-import type { OverlapResult, Violation } from "../types/ValidationResult";
+import type { RuleSet, RuleSetName } from "../types/RuleSet";
+import type {
+  OverlapCheckOptions,
+  OverlapResult,
+  Violation,
+} from "../types/ValidationResult";
 import { ToleranceUtils } from "../utils/ToleranceUtils";
 import { NeighborCalculator } from "../utils/NeighborCalculator";
+import { RuleSetRegistry } from "./RuleSetRegistry";
 
 /**
  * Core overlap validation engine
@@ -20,9 +30,13 @@ export class OverlapValidator {
   /**
    * Main validation function that checks all overlap rules
    * @param lineup - Array of 6 players with their positions
+   * @param options - Optional rule set and rule toggles (e.g. libero restrictions)
    * @returns Validation result with any violations found
    */
-  static checkOverlap(lineup: PlayerState[]): OverlapResult {
+  static checkOverlap(
+    lineup: PlayerState[],
+    options: OverlapCheckOptions = {}
+  ): OverlapResult {
     // Input validation
     const inputErrors = this.validateInput(lineup);
     if (inputErrors.length > 0) {
@@ -32,6 +46,9 @@ export class OverlapValidator {
       };
     }
 
+    const resolved = RuleSetRegistry.resolveOptions(options);
+    const { tolerance } = resolved;
+
     // Build position map by slot for easier access
     const positionMap = new Map<RotationSlot, PlayerState>();
     lineup.forEach((player) => {
@@ -42,13 +59,27 @@ export class OverlapValidator {
     const violations: Violation[] = [];
 
     // Check front row order (LF < MF < RF)
-    violations.push(...this.validateFrontRowOrder(positionMap));
+    violations.push(...this.validateFrontRowOrder(positionMap, tolerance));
 
     // Check back row order (LB < MB < RB)
-    violations.push(...this.validateBackRowOrder(positionMap));
+    violations.push(...this.validateBackRowOrder(positionMap, tolerance));
 
     // Check front/back relationships
-    violations.push(...this.validateFrontBackOrder(positionMap));
+    violations.push(...this.validateFrontBackOrder(positionMap, tolerance));
+
+    // Check libero restrictions when the rule set asks for them
+    if (resolved.enforceLiberoRules) {
+      violations.push(
+        ...this.validateLiberoRules(lineup, {
+          allowLiberoServe: resolved.allowLiberoServe,
+        })
+      );
+    }
+
+    // Run any additional checks contributed by the rule set
+    resolved.ruleSet?.checks?.forEach((check) => {
+      violations.push(...check(lineup));
+    });
 
     return {
       isLegal: violations.length === 0,
@@ -120,10 +151,12 @@ export class OverlapValidator {
   /**
    * Validate front row left-to-right order: LF < MF < RF
    * @param positions - Map of slot to player state
+   * @param tolerance - Tolerance in meters for comparisons
    * @returns Array of front row order violations
    */
   private static validateFrontRowOrder(
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    tolerance?: number
   ): Violation[] {
     const violations: Violation[] = [];
 
@@ -141,7 +174,7 @@ export class OverlapValidator {
     }
 
     // Check LF < MF (LF must be to the left of MF)
-    if (!ToleranceUtils.isLess(lf.x, mf.x)) {
+    if (!ToleranceUtils.isLess(lf.x, mf.x, tolerance)) {
       violations.push({
         code: "ROW_ORDER",
         slots: [4, 3], // LF, MF
@@ -154,7 +187,7 @@ export class OverlapValidator {
     }
 
     // Check MF < RF (MF must be to the left of RF)
-    if (!ToleranceUtils.isLess(mf.x, rf.x)) {
+    if (!ToleranceUtils.isLess(mf.x, rf.x, tolerance)) {
       violations.push({
         code: "ROW_ORDER",
         slots: [3, 2], // MF, RF
@@ -172,10 +205,12 @@ export class OverlapValidator {
   /**
    * Validate back row left-to-right order: LB < MB < RB
    * @param positions - Map of slot to player state
+   * @param tolerance - Tolerance in meters for comparisons
    * @returns Array of back row order violations
    */
   private static validateBackRowOrder(
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    tolerance?: number
   ): Violation[] {
     const violations: Violation[] = [];
 
@@ -193,7 +228,7 @@ export class OverlapValidator {
     }
 
     // Check LB < MB (LB must be to the left of MB)
-    if (!ToleranceUtils.isLess(lb.x, mb.x)) {
+    if (!ToleranceUtils.isLess(lb.x, mb.x, tolerance)) {
       violations.push({
         code: "ROW_ORDER",
         slots: [5, 6], // LB, MB
@@ -206,7 +241,7 @@ export class OverlapValidator {
     }
 
     // Check MB < RB (MB must be to the left of RB)
-    if (!ToleranceUtils.isLess(mb.x, rb.x)) {
+    if (!ToleranceUtils.isLess(mb.x, rb.x, tolerance)) {
       violations.push({
         code: "ROW_ORDER",
         slots: [6, 1], // MB, RB
@@ -224,10 +259,12 @@ export class OverlapValidator {
   /**
    * Validate front players are in front of their back counterparts
    * @param positions - Map of slot to player state
+   * @param tolerance - Tolerance in meters for comparisons
    * @returns Array of front/back order violations
    */
   private static validateFrontBackOrder(
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    tolerance?: number
   ): Violation[] {
     const violations: Violation[] = [];
 
@@ -256,7 +293,7 @@ export class OverlapValidator {
       }
 
       // Front player must have smaller y coordinate (closer to net)
-      if (!ToleranceUtils.isLess(frontPlayer.y, backPlayer.y)) {
+      if (!ToleranceUtils.isLess(frontPlayer.y, backPlayer.y, tolerance)) {
         violations.push({
           code: "FRONT_BACK",
           slots: [pair.front, pair.back],
@@ -272,13 +309,77 @@ export class OverlapValidator {
     return violations;
   }
 
+  /**
+   * Validate libero restrictions: no front row slots, no serving unless allowed
+   * @param lineup - Players on court (coordinates are not used)
+   * @param options - Rule set or rule toggles deciding whether the libero may serve
+   * @returns Array of libero violations
+   */
+  static validateLiberoRules(
+    lineup: PlayerState[],
+    options: OverlapCheckOptions = {}
+  ): Violation[] {
+    const violations: Violation[] = [];
+    const { allowLiberoServe } = RuleSetRegistry.resolveOptions(options);
+    const frontRowSlots: RotationSlot[] = [2, 3, 4];
+
+    for (const player of lineup) {
+      if (player.role !== "L") {
+        continue;
+      }
+
+      const slot = player.slot;
+
+      if (frontRowSlots.includes(slot)) {
+        violations.push({
+          code: "LIBERO_FRONT_ROW",
+          slots: [slot],
+          message: `Libero violation: ${player.displayName} cannot occupy front row slot ${slot}`,
+          coordinates: {
+            [slot]: { x: player.x, y: player.y },
+          },
+        });
+      }
+
+      if (player.isServer && !allowLiberoServe) {
+        violations.push({
+          code: "LIBERO_SERVING",
+          slots: [slot],
+          message: `Libero violation: ${player.displayName} is not permitted to serve under the current rules`,
+          coordinates: {
+            [slot]: { x: player.x, y: player.y },
+          },
+        });
+      }
+    }
+
+    return violations;
+  }
+
   /**
    * Get a human-readable explanation of a violation
    * @param violation - The violation to explain
    * @param positions - Map of slot to player state for context
+   * @param ruleSet - Optional rule set whose notes are appended to the explanation
    * @returns Detailed explanation string
    */
   static explainViolation(
+    violation: Violation,
+    positions: Map<RotationSlot, PlayerState>,
+    ruleSet?: RuleSetName | RuleSet
+  ): string {
+    const explanation = this.explainViolationBase(violation, positions);
+    const note = RuleSetRegistry.resolve(ruleSet)?.explanations?.[
+      violation.code
+    ];
+
+    return note ? `${explanation}. ${note}` : explanation;
+  }
+
+  /**
+   * Explain a violation without rule set specific notes
+   */
+  private static explainViolationBase(
     violation: Violation,
     positions: Map<RotationSlot, PlayerState>
   ): string {
@@ -354,6 +455,23 @@ export class OverlapValidator {
 
       case "INVALID_LINEUP":
         return violation.message;
+
+      case "LIBERO_FRONT_ROW":
+        if (violation.slots.length === 1) {
+          const [slot] = violation.slots;
+          return `Libero ${getPlayerName(slot)} cannot play ${getSlotName(
+            slot
+          )}; the libero must be replaced before rotating into the front row`;
+        }
+        break;
+
+      case "LIBERO_SERVING":
+        if (violation.slots.length === 1) {
+          return `Libero ${getPlayerName(
+            violation.slots[0]
+          )} is not allowed to serve under the current rule set`;
+        }
+        break;
     }
 
     return violation.message;
@@ -362,12 +480,17 @@ export class OverlapValidator {
   /**
    * Generate detailed violation information with specific violation detection
    * @param lineup - Array of players to analyze
+   * @param options - Optional rule set and rule toggles
    * @returns Array of detailed violations with enhanced messaging
    */
-  static generateDetailedViolations(lineup: PlayerState[]): Violation[] {
-    const result = this.checkOverlap(lineup);
+  static generateDetailedViolations(
+    lineup: PlayerState[],
+    options: OverlapCheckOptions = {}
+  ): Violation[] {
+    const result = this.checkOverlap(lineup, options);
+    const { tolerance } = RuleSetRegistry.resolveOptions(options);
     return result.violations.map((violation) =>
-      this.enhanceViolation(violation, lineup)
+      this.enhanceViolation(violation, lineup, tolerance)
     );
   }
 
@@ -375,20 +498,30 @@ export class OverlapValidator {
    * Enhance a violation with additional context and detailed messaging
    * @param violation - Base violation to enhance
    * @param lineup - Full lineup for context
+   * @param tolerance - Tolerance in meters used during validation
    * @returns Enhanced violation with detailed information
    */
   private static enhanceViolation(
     violation: Violation,
-    lineup: PlayerState[]
+    lineup: PlayerState[],
+    tolerance: number
   ): Violation {
     const positionMap = new Map<RotationSlot, PlayerState>();
     lineup.forEach((player) => positionMap.set(player.slot, player));
 
     switch (violation.code) {
       case "ROW_ORDER":
-        return this.enhanceRowOrderViolation(violation, positionMap);
+        return this.enhanceRowOrderViolation(
+          violation,
+          positionMap,
+          tolerance
+        );
       case "FRONT_BACK":
-        return this.enhanceFrontBackViolation(violation, positionMap);
+        return this.enhanceFrontBackViolation(
+          violation,
+          positionMap,
+          tolerance
+        );
       case "MULTIPLE_SERVERS":
         return this.enhanceMultipleServersViolation(violation, positionMap);
       case "INVALID_LINEUP":
@@ -403,7 +536,8 @@ export class OverlapValidator {
    */
   private static enhanceRowOrderViolation(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    tolerance: number
   ): Violation {
     if (violation.slots.length !== 2) return violation;
 
@@ -426,7 +560,6 @@ export class OverlapValidator {
     };
 
     const distance = Math.abs(player1.x - player2.x);
-    const tolerance = 0.03; // 3cm tolerance
 
     return {
       ...violation,
@@ -451,7 +584,8 @@ export class OverlapValidator {
    */
   private static enhanceFrontBackViolation(
     violation: Violation,
-    positions: Map<RotationSlot, PlayerState>
+    positions: Map<RotationSlot, PlayerState>,
+    tolerance: number
   ): Violation {
     if (violation.slots.length !== 2) return violation;
 
@@ -474,7 +608,6 @@ export class OverlapValidator {
     };
 
     const distance = backPlayer.y - frontPlayer.y;
-    const tolerance = 0.03; // 3cm tolerance
 
     return {
       ...violation,
@@ -630,6 +763,15 @@ export class OverlapValidator {
       );
     }
 
+    if (
+      summary.violationTypes["LIBERO_FRONT_ROW"] ||
+      summary.violationTypes["LIBERO_SERVING"]
+    ) {
+      messages.push(
+        "💡 Tip: The libero replaces a back row player and must leave the court before that player rotates to the front row."
+      );
+    }
+
     return messages;
   }
 
@@ -639,13 +781,15 @@ export class OverlapValidator {
    * @param testPosition - The position to test
    * @param otherPositions - Positions of other players
    * @param isServer - Whether the player is the server
+   * @param options - Optional rule set and rule toggles
    * @returns True if the position would be valid
    */
   static isPositionValid(
     slot: RotationSlot,
     testPosition: { x: number; y: number },
     otherPositions: Map<RotationSlot, PlayerState>,
-    isServer: boolean = false
+    isServer: boolean = false,
+    options: OverlapCheckOptions = {}
   ): boolean {
     // Create a temporary lineup with the test position
     const testPlayer: PlayerState = {
@@ -672,7 +816,7 @@ export class OverlapValidator {
     }
 
     // Check if this position would create violations
-    const result = this.checkOverlap(testLineup);
+    const result = this.checkOverlap(testLineup, options);
     return result.isLegal;
   }
 }
@@ -0,0 +1,200 @@
+/**
+ * Registry of rule set profiles for volleyball rules engine
+ *
+ * Built-in profiles:
+ * - FIVB: International rules, libero may not serve
+ * - NCAA: US college rules, libero may serve in one rotation
+ * - NFHS: US high school rules, judged by the position of the feet (wider margin)
+ * - USAV_YOUTH: USA Volleyball junior rules, libero may serve
+ */
+
+import type { RuleSet, RuleSetName } from "../types/RuleSet";
+import type { OverlapCheckOptions } from "../types/ValidationResult";
+import { COORDINATE_SYSTEM } from "../types/CoordinateSystem";
+
+/**
+ * Rule toggles after applying a rule set and explicit overrides
+ */
+export interface ResolvedRuleOptions {
+  ruleSet?: RuleSet;
+  tolerance: number;
+  enforceLiberoRules: boolean;
+  allowLiberoServe: boolean;
+}
+
+/**
+ * Built-in rule set profiles
+ */
+export const RULE_SETS: Record<RuleSetName, RuleSet> = {
+  FIVB: {
+    name: "FIVB",
+    label: "FIVB (International)",
+    description:
+      "International rules. Positions are judged by the feet in contact with the floor.",
+    overlapInterpretation: "foot-contact",
+    tolerance: COORDINATE_SYSTEM.TOLERANCE,
+    enforceLiberoRules: true,
+    allowLiberoServe: false,
+    maxSubstitutionsPerSet: 6,
+    explanations: {
+      ROW_ORDER:
+        "FIVB: at least part of one foot must be closer to the correct sideline than the feet of the neighbouring player.",
+      FRONT_BACK:
+        "FIVB: at least part of one foot of the front row player must be closer to the center line than the feet of the back row player.",
+      LIBERO_SERVING: "FIVB: the libero may not serve.",
+    },
+  },
+  NCAA: {
+    name: "NCAA",
+    label: "NCAA (College)",
+    description:
+      "US college rules. The libero may serve in one rotation per set.",
+    overlapInterpretation: "foot-contact",
+    tolerance: COORDINATE_SYSTEM.TOLERANCE,
+    enforceLiberoRules: true,
+    allowLiberoServe: true,
+    maxSubstitutionsPerSet: 15,
+    explanations: {
+      ROW_ORDER:
+        "NCAA: positions are judged by the part of the foot in contact with the floor at the moment of serve.",
+      FRONT_BACK:
+        "NCAA: positions are judged by the part of the foot in contact with the floor at the moment of serve.",
+    },
+  },
+  NFHS: {
+    name: "NFHS",
+    label: "NFHS (High School)",
+    description:
+      "US high school rules. Positions are judged by the position of the feet as a whole.",
+    overlapInterpretation: "position-of-feet",
+    tolerance: 0.1,
+    enforceLiberoRules: true,
+    allowLiberoServe: true,
+    maxSubstitutionsPerSet: 18,
+    explanations: {
+      ROW_ORDER:
+        "NFHS: the feet must be clearly to the correct side of the adjacent player's feet, so players need at least 10cm of separation.",
+      FRONT_BACK:
+        "NFHS: the front row player's feet must be clearly closer to the center line than the back row player's feet, so players need at least 10cm of separation.",
+    },
+  },
+  USAV_YOUTH: {
+    name: "USAV_YOUTH",
+    label: "USAV (Youth)",
+    description:
+      "USA Volleyball junior rules. Positions are judged by the feet in contact with the floor.",
+    overlapInterpretation: "foot-contact",
+    tolerance: COORDINATE_SYSTEM.TOLERANCE,
+    enforceLiberoRules: true,
+    allowLiberoServe: true,
+    maxSubstitutionsPerSet: 18,
+    explanations: {
+      ROW_ORDER:
+        "USAV: at least part of one foot must be closer to the correct sideline than the feet of the neighbouring player.",
+      FRONT_BACK:
+        "USAV: at least part of one foot of the front row player must be closer to the center line than the feet of the back row player.",
+    },
+  },
+};
+
+/**
+ * Registry for looking up rule sets by name
+ */
+export class RuleSetRegistry {
+  private static customRuleSets = new Map<string, RuleSet>();
+
+  /**
+   * Register a custom rule set (replaces any custom rule set with the same name)
+   * @param ruleSet - Rule set to register
+   */
+  static register(ruleSet: RuleSet): void {
+    if (Object.hasOwn(RULE_SETS, ruleSet.name)) {
+      throw new Error(
+        `Cannot replace built-in rule set "${ruleSet.name}"`
+      );
+    }
+    this.customRuleSets.set(ruleSet.name, ruleSet);
+  }
+
+  /**
+   * Remove a previously registered custom rule set
+   * @param name - Name of the rule set
+   * @returns True if a rule set was removed
+   */
+  static unregister(name: string): boolean {
+    return this.customRuleSets.delete(name);
+  }
+
+  /**
+   * Get a rule set by name
+   * @param name - Name of the rule set
+   * @returns The rule set, or undefined if not found
+   */
+  static get(name: string): RuleSet | undefined {
+    if (Object.hasOwn(RULE_SETS, name)) {
+      return RULE_SETS[name as RuleSetName];
+    }
+    return this.customRuleSets.get(name);
+  }
+
+  /**
+   * Check whether a rule set is available
+   * @param name - Name of the rule set
+   * @returns True if the rule set exists
+   */
+  static has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * List all available rule sets, built-in profiles first
+   * @returns Array of rule sets
+   */
+  static list(): RuleSet[] {
+    return [
+      ...Object.values(RULE_SETS),
+      ...Array.from(this.customRuleSets.values()),
+    ];
+  }
+
+  /**
+   * Resolve a rule set reference to its definition
+   * @param ruleSet - Rule set name or definition
+   * @returns The rule set, or undefined when none was given
+   * @throws Error if a name is given that is not registered
+   */
+  static resolve(ruleSet?: RuleSetName | RuleSet | string): RuleSet | undefined {
+    if (ruleSet === undefined) {
+      return undefined;
+    }
+
+    if (typeof ruleSet !== "string") {
+      return ruleSet;
+    }
+
+    const resolved = this.get(ruleSet);
+    if (!resolved) {
+      throw new Error(`Unknown rule set: ${ruleSet}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Combine a rule set with explicit options. Explicit options take precedence.
+   * @param options - Validation options, optionally naming a rule set
+   * @returns Fully resolved rule toggles
+   */
+  static resolveOptions(options: OverlapCheckOptions = {}): ResolvedRuleOptions {
+    const ruleSet = this.resolve(options.ruleSet);
+
+    return {
+      ruleSet,
+      tolerance:
+        options.tolerance ?? ruleSet?.tolerance ?? COORDINATE_SYSTEM.TOLERANCE,
+      enforceLiberoRules:
+        options.enforceLiberoRules ?? ruleSet?.enforceLiberoRules ?? false,
+      allowLiberoServe:
+        options.allowLiberoServe ?? ruleSet?.allowLiberoServe ?? false,
+    };
+  }
+}
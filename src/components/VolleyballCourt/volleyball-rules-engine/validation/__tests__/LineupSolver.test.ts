@@ -0,0 +1,137 @@
+/**
+ * Tests for LineupSolver - nearest legal lineup
+ */
+
+import { describe, test, expect } from "vitest";
+import { LineupSolver } from "../LineupSolver";
+import { OverlapValidator } from "../OverlapValidator";
+import type { PlayerState, RotationSlot } from "../../types/PlayerState";
+
+/**
+ * Helper function to create a test player
+ */
+function createPlayer(
+  slot: RotationSlot,
+  x: number,
+  y: number,
+  isServer: boolean = false
+): PlayerState {
+  return {
+    id: `player-${slot}`,
+    displayName: `Player ${slot}`,
+    role: "Unknown",
+    slot,
+    x,
+    y,
+    isServer,
+  };
+}
+
+/**
+ * Legal lineup with slot 1 serving
+ */
+function createLegalLineup(): PlayerState[] {
+  return [
+    createPlayer(1, 7.5, 10.0, true),
+    createPlayer(2, 7.0, 2.0),
+    createPlayer(3, 4.5, 2.0),
+    createPlayer(4, 2.0, 2.0),
+    createPlayer(5, 1.5, 7.0),
+    createPlayer(6, 4.5, 7.0),
+  ];
+}
+
+/**
+ * Replace the positions of some players in a lineup
+ */
+function movePlayers(
+  lineup: PlayerState[],
+  moves: Partial<Record<RotationSlot, { x?: number; y?: number }>>
+): PlayerState[] {
+  return lineup.map((player) => ({ ...player, ...moves[player.slot] }));
+}
+
+describe("LineupSolver", () => {
+  test("should leave a legal lineup alone", () => {
+    const fix = LineupSolver.solve(createLegalLineup());
+
+    expect(fix.isLegal).toBe(true);
+    expect(fix.displacements).toEqual([]);
+    expect(fix.totalDisplacement).toBe(0);
+  });
+
+  test("should split the correction between two crossed players", () => {
+    // Left Front has crossed Middle Front by 0.5m
+    const lineup = movePlayers(createLegalLineup(), { 4: { x: 5.0 } });
+
+    const fix = LineupSolver.solve(lineup);
+
+    expect(OverlapValidator.checkOverlap(fix.lineup).isLegal).toBe(true);
+    expect(fix.displacements.map((d) => d.slot).sort()).toEqual([3, 4]);
+    const lf = fix.lineup.find((player) => player.slot === 4)!;
+    const mf = fix.lineup.find((player) => player.slot === 3)!;
+    expect(lf.x).toBeCloseTo(4.73, 2);
+    expect(mf.x).toBeCloseTo(4.77, 2);
+    expect(fix.totalDisplacement).toBeCloseTo(0.54, 2);
+  });
+
+  test("should move a whole column pair back into order", () => {
+    // Middle Back has moved in front of Middle Front
+    const lineup = movePlayers(createLegalLineup(), { 6: { y: 1.0 } });
+
+    const fix = LineupSolver.solve(lineup);
+
+    expect(OverlapValidator.checkOverlap(fix.lineup).isLegal).toBe(true);
+    expect(fix.displacements.every((d) => d.from.x === d.to.x)).toBe(true);
+  });
+
+  test("should only move unlocked players", () => {
+    const lineup = movePlayers(createLegalLineup(), { 4: { x: 5.0 } });
+
+    const fix = LineupSolver.solve(lineup, { lockedSlots: [4] });
+
+    expect(fix.isLegal).toBe(true);
+    expect(fix.displacements).toHaveLength(1);
+    expect(fix.displacements[0].slot).toBe(3);
+    expect(fix.displacements[0].to.x).toBeCloseTo(5.04, 2);
+    expect(OverlapValidator.checkOverlap(fix.lineup).isLegal).toBe(true);
+  });
+
+  test("should report rows that locked players make impossible", () => {
+    const lineup = movePlayers(createLegalLineup(), { 4: { x: 5.0 } });
+
+    const fix = LineupSolver.solve(lineup, { lockedSlots: [3, 4] });
+
+    expect(fix.isLegal).toBe(false);
+    expect(fix.unresolvedSlots).toEqual([2, 3, 4]);
+  });
+
+  test("should never move the server or hold others against them", () => {
+    // Server on the wrong side of Middle Back, which is exempt
+    const lineup = movePlayers(createLegalLineup(), { 1: { x: 3.0 } });
+
+    const fix = LineupSolver.solve(lineup);
+
+    expect(fix.isLegal).toBe(true);
+    expect(fix.displacements).toEqual([]);
+  });
+
+  test("should keep players on court and within given areas", () => {
+    // Right Front pushed against the sideline, crossed by Middle Front
+    const lineup = movePlayers(createLegalLineup(), {
+      2: { x: 9.0 },
+      3: { x: 9.0 },
+    });
+
+    const fix = LineupSolver.solve(lineup, {
+      slotBounds: { 4: { minX: 0, maxX: 1, minY: 0, maxY: 9 } },
+    });
+
+    expect(fix.isLegal).toBe(true);
+    fix.lineup.forEach((player) => {
+      expect(player.x).toBeLessThanOrEqual(9.0);
+    });
+    expect(fix.lineup.find((player) => player.slot === 4)!.x).toBe(1);
+    expect(OverlapValidator.checkOverlap(fix.lineup).isLegal).toBe(true);
+  });
+});
@@ -840,4 +840,68 @@ describe("OverlapValidator", () => {
       ).toBe(true);
     });
   });
+
+  describe("Libero rules", () => {
+    function withLibero(slot: RotationSlot): PlayerState[] {
+      return createLegalFormation().map((player) =>
+        player.slot === slot ? { ...player, role: "L" as const } : player
+      );
+    }
+
+    const enforced = { enforceLiberoRules: true };
+
+    test("should allow libero in a back row slot", () => {
+      const result = OverlapValidator.checkOverlap(withLibero(5), enforced);
+
+      expect(result.isLegal).toBe(true);
+    });
+
+    test("should ignore libero role unless libero rules are enforced", () => {
+      const result = OverlapValidator.checkOverlap(withLibero(3));
+
+      expect(result.isLegal).toBe(true);
+    });
+
+    test("should flag libero in a front row slot", () => {
+      const result = OverlapValidator.checkOverlap(withLibero(3), enforced);
+
+      expect(result.isLegal).toBe(false);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].code).toBe("LIBERO_FRONT_ROW");
+      expect(result.violations[0].slots).toEqual([3]);
+    });
+
+    test("should flag libero serving unless allowed", () => {
+      // Slot 6 is the server in the legal formation
+      const lineup = withLibero(6);
+
+      const strict = OverlapValidator.checkOverlap(lineup, enforced);
+      expect(strict.isLegal).toBe(false);
+      expect(strict.violations[0].code).toBe("LIBERO_SERVING");
+
+      const lenient = OverlapValidator.checkOverlap(lineup, {
+        ...enforced,
+        allowLiberoServe: true,
+      });
+      expect(lenient.isLegal).toBe(true);
+    });
+
+    test("should explain libero violations", () => {
+      const lineup = withLibero(4);
+      const positions = new Map<RotationSlot, PlayerState>();
+      lineup.forEach((player) => positions.set(player.slot, player));
+
+      const [violation] = OverlapValidator.checkOverlap(
+        lineup,
+        enforced
+      ).violations;
+      const explanation = OverlapValidator.explainViolation(
+        violation,
+        positions
+      );
+
+      expect(explanation).toContain("Left Front");
+      expect(explanation).toContain("Player 4");
+    });
+  });
 });
@@ -0,0 +1,220 @@
+/**
+ * Tests for rule set profiles and their effect on validation
+ */
+
+import { describe, test, expect, afterEach } from "vitest";
+import { RuleSetRegistry, RULE_SETS } from "../RuleSetRegistry";
+import { OverlapValidator } from "../OverlapValidator";
+import { ConstraintCalculator } from "../ConstraintCalculator";
+import { VolleyballRulesEngine } from "../../VolleyballRulesEngine";
+import type { PlayerState, RotationSlot } from "../../types/PlayerState";
+import type { RuleSet } from "../../types/RuleSet";
+import { isValidRuleSet } from "../../types/RuleSet";
+
+/**
+ * Helper function to create a test player
+ */
+function createPlayer(
+  slot: RotationSlot,
+  x: number,
+  y: number,
+  isServer: boolean = false
+): PlayerState {
+  return {
+    id: `player-${slot}`,
+    displayName: `Player ${slot}`,
+    role: "Unknown",
+    slot,
+    x,
+    y,
+    isServer,
+  };
+}
+
+/**
+ * Legal formation where Left Front is only 5cm left of Middle Front
+ */
+function createTightFormation(): PlayerState[] {
+  return [
+    createPlayer(1, 7.0, 6.0, true), // RB (server)
+    createPlayer(2, 7.0, 3.0), // RF
+    createPlayer(3, 4.5, 3.0), // MF
+    createPlayer(4, 4.45, 3.0), // LF
+    createPlayer(5, 2.0, 6.0), // LB
+    createPlayer(6, 4.5, 6.0), // MB
+  ];
+}
+
+describe("RuleSetRegistry", () => {
+  afterEach(() => {
+    RuleSetRegistry.unregister("LEAGUE");
+    RuleSetRegistry.unregister("constructor");
+  });
+
+  test("should provide the built-in profiles", () => {
+    const names = RuleSetRegistry.list().map((ruleSet) => ruleSet.name);
+
+    expect(names).toEqual(["FIVB", "NCAA", "NFHS", "USAV_YOUTH"]);
+    Object.values(RULE_SETS).forEach((ruleSet) => {
+      expect(isValidRuleSet(ruleSet)).toBe(true);
+    });
+  });
+
+  test("should throw for unknown rule set names", () => {
+    expect(RuleSetRegistry.has("UNKNOWN")).toBe(false);
+    expect(() => RuleSetRegistry.resolve("UNKNOWN")).toThrow(
+      "Unknown rule set: UNKNOWN"
+    );
+  });
+
+  test("should not mistake inherited object keys for rule sets", () => {
+    expect(RuleSetRegistry.get("toString")).toBeUndefined();
+    expect(() => RuleSetRegistry.resolve("constructor")).toThrow(
+      "Unknown rule set: constructor"
+    );
+
+    const custom = { ...RULE_SETS.USAV_YOUTH, name: "constructor" };
+    RuleSetRegistry.register(custom);
+    expect(RuleSetRegistry.get("constructor")).toBe(custom);
+  });
+
+  test("should not allow replacing a built-in profile", () => {
+    expect(() =>
+      RuleSetRegistry.register({ ...RULE_SETS.NFHS, tolerance: 0 })
+    ).toThrow();
+  });
+
+  test("should let explicit options override the rule set", () => {
+    const resolved = RuleSetRegistry.resolveOptions({
+      ruleSet: "FIVB",
+      allowLiberoServe: true,
+    });
+
+    expect(resolved.ruleSet).toBe(RULE_SETS.FIVB);
+    expect(resolved.allowLiberoServe).toBe(true);
+    expect(resolved.enforceLiberoRules).toBe(true);
+  });
+
+  test("should keep legacy defaults without a rule set", () => {
+    expect(RuleSetRegistry.resolveOptions()).toEqual({
+      ruleSet: undefined,
+      tolerance: 0.03,
+      enforceLiberoRules: false,
+      allowLiberoServe: false,
+    });
+  });
+
+  describe("validation", () => {
+    test("should apply the rule set tolerance", () => {
+      const lineup = createTightFormation();
+
+      expect(OverlapValidator.checkOverlap(lineup).isLegal).toBe(true);
+      expect(
+        OverlapValidator.checkOverlap(lineup, { ruleSet: "FIVB" }).isLegal
+      ).toBe(true);
+
+      const nfhs = OverlapValidator.checkOverlap(lineup, { ruleSet: "NFHS" });
+      expect(nfhs.isLegal).toBe(false);
+      expect(nfhs.violations[0].code).toBe("ROW_ORDER");
+      expect(nfhs.violations[0].slots).toEqual([4, 3]);
+    });
+
+    test("should apply libero serving rules per rule set", () => {
+      const lineup = createTightFormation().map((player) =>
+        player.slot === 1 ? { ...player, role: "L" as const } : player
+      );
+
+      const fivb = VolleyballRulesEngine.validateLineup(lineup, {
+        ruleSet: "FIVB",
+      });
+      expect(fivb.violations.map((v) => v.code)).toEqual(["LIBERO_SERVING"]);
+
+      expect(
+        VolleyballRulesEngine.validateLineup(lineup, { ruleSet: "NCAA" })
+          .isLegal
+      ).toBe(true);
+    });
+
+    test("should run checks contributed by a custom rule set", () => {
+      const league: RuleSet = {
+        ...RULE_SETS.USAV_YOUTH,
+        name: "LEAGUE",
+        label: "Local League",
+        checks: [
+          (lineup) =>
+            lineup
+              .filter((player) => player.isServer && player.y < 9)
+              .map((player) => ({
+                code: "INVALID_LINEUP" as const,
+                slots: [player.slot],
+                message: "Server must start behind the endline",
+              })),
+        ],
+      };
+      VolleyballRulesEngine.registerRuleSet(league);
+      expect(VolleyballRulesEngine.getRuleSet("LEAGUE")).toBe(league);
+
+      const result = VolleyballRulesEngine.validateLineup(
+        createTightFormation(),
+        { ruleSet: league }
+      );
+
+      expect(result.isLegal).toBe(false);
+      expect(result.violations[0].message).toBe(
+        "Server must start behind the endline"
+      );
+    });
+  });
+
+  describe("explanations", () => {
+    test("should append the rulebook note for the violation", () => {
+      const lineup = createTightFormation();
+      const [violation] = OverlapValidator.checkOverlap(lineup, {
+        ruleSet: "NFHS",
+      }).violations;
+
+      const base = VolleyballRulesEngine.explainViolation(violation, lineup);
+      const nfhs = VolleyballRulesEngine.explainViolation(
+        violation,
+        lineup,
+        "NFHS"
+      );
+
+      expect(nfhs).toBe(`${base} ${RULE_SETS.NFHS.explanations?.ROW_ORDER}`);
+    });
+  });
+
+  describe("constraints", () => {
+    test("should widen the required separation for the rule set", () => {
+      const positions = new Map<RotationSlot, PlayerState>();
+      createTightFormation().forEach((player) =>
+        positions.set(player.slot, player)
+      );
+
+      const fivb = ConstraintCalculator.calculateValidBounds(
+        4,
+        positions,
+        false,
+        "FIVB"
+      );
+      const nfhs = ConstraintCalculator.calculateValidBounds(
+        4,
+        positions,
+        false,
+        "NFHS"
+      );
+
+      expect(fivb.maxX).toBeCloseTo(4.47);
+      expect(nfhs.maxX).toBeCloseTo(4.4);
+      expect(
+        ConstraintCalculator.isPositionValid(
+          4,
+          { x: 4.45, y: 3.0 },
+          positions,
+          false,
+          "NFHS"
+        )
+      ).toBe(false);
+    });
+  });
+});
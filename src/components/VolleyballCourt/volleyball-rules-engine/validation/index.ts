@@ -4,5 +4,7 @@
 
 export { OverlapValidator } from "./OverlapValidator";
 export { ConstraintCalculator } from "./ConstraintCalculator";
+export { LineupSolver } from "./LineupSolver";
 export { OptimizedConstraintCalculator } from "./OptimizedConstraintCalculator";
 export { LazyViolationAnalyzer } from "./LazyViolationAnalyzer";
+export { RuleSetRegistry, RULE_SETS } from "./RuleSetRegistry";